@@ -362,7 +362,7 @@ describe('Tasks Integration Tests', () => {
       }
     });
 
-    it('should include attachments with public URLs', async () => {
+    it('should include attachments without public URLs', async () => {
       const { data: task } = await adminClient
         .from('tasks')
         .select('id')
@@ -383,7 +383,7 @@ describe('Tasks Integration Tests', () => {
       const attachment = result.attachments[0];
       expect(attachment).toHaveProperty('id');
       expect(attachment).toHaveProperty('storage_path');
-      expect(attachment).toHaveProperty('public_url');
+      expect(attachment).not.toHaveProperty('public_url');
 
       // Verify storage_path exists
       if (attachment?.storage_path) {
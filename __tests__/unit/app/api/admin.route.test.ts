@@ -0,0 +1,281 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET as getDepartments, POST as postDepartment } from '@/app/api/admin/departments/route';
+import { PATCH as patchDepartment, DELETE as deleteDepartmentRoute } from '@/app/api/admin/departments/[id]/route';
+import { GET as getUsers, POST as postUser } from '@/app/api/admin/users/route';
+import { PATCH as patchUser } from '@/app/api/admin/users/[id]/route';
+import { POST as postRole, DELETE as deleteRole } from '@/app/api/admin/users/[id]/roles/route';
+import { GET as getAudit } from '@/app/api/admin/audit/route';
+import {
+  createDepartment,
+  createUser,
+  deleteDepartment,
+  getAuditLog,
+  grantRole,
+  listDepartments,
+  listUsers,
+  revokeRole,
+  updateDepartment,
+  updateUser,
+} from '@/lib/services/admin';
+import { NextRequest } from 'next/server';
+
+// Mock the service layer
+vi.mock('@/lib/services/admin', () => ({
+  ADMIN_PERMISSION_ERROR: 'Only admins can use the admin console',
+  DEPARTMENT_CYCLE_ERROR: 'A department cannot be moved under itself or one of its sub-departments',
+  DEPARTMENT_NOT_FOUND_ERROR: 'Department not found',
+  USER_NOT_FOUND_ERROR: 'User not found',
+  createDepartment: vi.fn(),
+  createUser: vi.fn(),
+  deleteDepartment: vi.fn(),
+  getAuditLog: vi.fn(),
+  grantRole: vi.fn(),
+  listDepartments: vi.fn(),
+  listUsers: vi.fn(),
+  revokeRole: vi.fn(),
+  updateDepartment: vi.fn(),
+  updateUser: vi.fn(),
+}));
+
+// Mock the Supabase server client
+const mockSupabaseClient = {
+  auth: {
+    getUser: vi.fn(),
+  },
+};
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(async () => mockSupabaseClient),
+}));
+
+describe('/api/admin', () => {
+  const department = { id: 2, name: 'Backend', parent_department_id: 1, member_count: 3 };
+
+  const jsonRequest = (url: string, method: string, body: unknown) =>
+    new NextRequest(url, {
+      method,
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'admin-1' } },
+      error: null,
+    });
+  });
+
+  describe('departments', () => {
+    it('should list departments', async () => {
+      vi.mocked(listDepartments).mockResolvedValue([department]);
+
+      const response = await getDepartments();
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.departments).toEqual([department]);
+      expect(listDepartments).toHaveBeenCalledWith(mockSupabaseClient, 'admin-1');
+    });
+
+    it('should return 403 for non-admins', async () => {
+      vi.mocked(listDepartments).mockRejectedValue(new Error('Only admins can use the admin console'));
+
+      const response = await getDepartments();
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should return 401 when not authenticated', async () => {
+      mockSupabaseClient.auth.getUser.mockResolvedValue({ data: { user: null }, error: null });
+
+      const response = await getDepartments();
+
+      expect(response.status).toBe(401);
+      expect(listDepartments).not.toHaveBeenCalled();
+    });
+
+    it('should create a department', async () => {
+      vi.mocked(createDepartment).mockResolvedValue(department);
+
+      const response = await postDepartment(
+        jsonRequest('http://localhost/api/admin/departments', 'POST', { name: 'Backend', parentDepartmentId: 1 })
+      );
+
+      expect(response.status).toBe(201);
+      expect(createDepartment).toHaveBeenCalledWith(mockSupabaseClient, 'admin-1', {
+        name: 'Backend',
+        parentDepartmentId: 1,
+      });
+    });
+
+    it.each([
+      ['A department cannot be moved under itself or one of its sub-departments', 409],
+      ['Department not found', 404],
+      ['Department name is required', 400],
+    ])('should map "%s" to %i on PATCH', async (message, status) => {
+      vi.mocked(updateDepartment).mockRejectedValue(new Error(message));
+
+      const response = await patchDepartment(
+        jsonRequest('http://localhost/api/admin/departments/2', 'PATCH', { parentDepartmentId: 3 }),
+        params('2')
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(status);
+      expect(data.error).toBe(message);
+    });
+
+    it('should pass a null parent through on PATCH', async () => {
+      vi.mocked(updateDepartment).mockResolvedValue({ ...department, parent_department_id: null });
+
+      await patchDepartment(
+        jsonRequest('http://localhost/api/admin/departments/2', 'PATCH', { parentDepartmentId: null }),
+        params('2')
+      );
+
+      expect(updateDepartment).toHaveBeenCalledWith(mockSupabaseClient, 'admin-1', 2, { parentDepartmentId: null });
+    });
+
+    it('should refuse to delete a department in use', async () => {
+      vi.mocked(deleteDepartment).mockRejectedValue(new Error('Move its users to another department first'));
+
+      const response = await deleteDepartmentRoute(
+        new NextRequest('http://localhost/api/admin/departments/2', { method: 'DELETE' }),
+        params('2')
+      );
+
+      expect(response.status).toBe(409);
+    });
+
+    it('should reject an invalid ID', async () => {
+      const response = await deleteDepartmentRoute(
+        new NextRequest('http://localhost/api/admin/departments/abc', { method: 'DELETE' }),
+        params('abc')
+      );
+
+      expect(response.status).toBe(400);
+      expect(deleteDepartment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('users', () => {
+    it('should list users', async () => {
+      vi.mocked(listUsers).mockResolvedValue([]);
+
+      const response = await getUsers();
+
+      expect(response.status).toBe(200);
+      expect(listUsers).toHaveBeenCalledWith(mockSupabaseClient, 'admin-1');
+    });
+
+    it('should create a user, treating an empty password as an invitation', async () => {
+      vi.mocked(createUser).mockResolvedValue({
+        id: 'u2',
+        email: 'new@example.com',
+        first_name: 'New',
+        last_name: 'Person',
+        department_id: 1,
+        is_active: true,
+        roles: ['staff'],
+      });
+
+      const response = await postUser(
+        jsonRequest('http://localhost/api/admin/users', 'POST', {
+          email: 'new@example.com',
+          password: '',
+          firstName: 'New',
+          lastName: 'Person',
+          departmentId: 1,
+        })
+      );
+
+      expect(response.status).toBe(201);
+      expect(createUser).toHaveBeenCalledWith(mockSupabaseClient, 'admin-1', {
+        email: 'new@example.com',
+        password: undefined,
+        firstName: 'New',
+        lastName: 'Person',
+        departmentId: 1,
+        roles: undefined,
+      });
+    });
+
+    it('should pass only the provided fields on PATCH', async () => {
+      const response = await patchUser(
+        jsonRequest('http://localhost/api/admin/users/u2', 'PATCH', { isActive: false, extra: 1 }),
+        params('u2')
+      );
+
+      expect(response.status).toBe(200);
+      expect(updateUser).toHaveBeenCalledWith(mockSupabaseClient, 'admin-1', 'u2', { isActive: false });
+    });
+
+    it('should return 404 for a missing user', async () => {
+      vi.mocked(updateUser).mockRejectedValue(new Error('User not found'));
+
+      const response = await patchUser(
+        jsonRequest('http://localhost/api/admin/users/u9', 'PATCH', { departmentId: 1 }),
+        params('u9')
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('roles', () => {
+    it('should grant a role', async () => {
+      const response = await postRole(
+        jsonRequest('http://localhost/api/admin/users/u2/roles', 'POST', { role: 'manager' }),
+        params('u2')
+      );
+
+      expect(response.status).toBe(200);
+      expect(grantRole).toHaveBeenCalledWith(mockSupabaseClient, 'admin-1', 'u2', 'manager');
+    });
+
+    it('should revoke the role from the query string', async () => {
+      const response = await deleteRole(
+        new NextRequest('http://localhost/api/admin/users/u2/roles?role=manager', { method: 'DELETE' }),
+        params('u2')
+      );
+
+      expect(response.status).toBe(200);
+      expect(revokeRole).toHaveBeenCalledWith(mockSupabaseClient, 'admin-1', 'u2', 'manager');
+    });
+
+    it('should reject revoking your own admin role', async () => {
+      vi.mocked(revokeRole).mockRejectedValue(new Error('You cannot revoke your own admin role'));
+
+      const response = await deleteRole(
+        new NextRequest('http://localhost/api/admin/users/admin-1/roles?role=admin', { method: 'DELETE' }),
+        params('admin-1')
+      );
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('audit', () => {
+    it('should pass the limit through', async () => {
+      vi.mocked(getAuditLog).mockResolvedValue([]);
+
+      const response = await getAudit(new NextRequest('http://localhost/api/admin/audit?limit=20'));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.entries).toEqual([]);
+      expect(getAuditLog).toHaveBeenCalledWith(mockSupabaseClient, 'admin-1', 20);
+    });
+
+    it('should return 403 for non-admins', async () => {
+      vi.mocked(getAuditLog).mockRejectedValue(new Error('Only admins can use the admin console'));
+
+      const response = await getAudit(new NextRequest('http://localhost/api/admin/audit'));
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from '@/app/api/calendar/[token]/route';
+import { getCalendarFeed } from '@/lib/services/calendar-feeds';
+import { NextRequest } from 'next/server';
+
+// Mock the feed builder but keep the pure filter/ETag helpers
+vi.mock('@/lib/services/calendar-feeds', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/services/calendar-feeds')>();
+  return {
+    parseCalendarFeedFilters: actual.parseCalendarFeedFilters,
+    matchesIfNoneMatch: actual.matchesIfNoneMatch,
+    getCalendarFeed: vi.fn(),
+  };
+});
+
+describe('GET /api/calendar/[token].ics', () => {
+  const token = 'a'.repeat(64);
+  const body = 'BEGIN:VCALENDAR\r\nEND:VCALENDAR';
+
+  const request = (query = '', headers: Record<string, string> = {}) =>
+    new NextRequest(`http://localhost:3000/api/calendar/${token}.ics${query}`, { headers });
+  const params = (segment = `${token}.ics`) => ({ params: Promise.resolve({ token: segment }) });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (getCalendarFeed as any).mockResolvedValue({ body, etag: '"v1"' });
+  });
+
+  it('should serve the feed with an ETag', async () => {
+    const response = await GET(request(), params());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/calendar; charset=utf-8');
+    expect(response.headers.get('ETag')).toBe('"v1"');
+    expect(await response.text()).toBe(body);
+    expect(getCalendarFeed).toHaveBeenCalledWith(token, { projectIds: [], tags: [] });
+  });
+
+  it('should pass project and tag filters to the service', async () => {
+    await GET(request('?project=2,5&tag=urgent'), params());
+
+    expect(getCalendarFeed).toHaveBeenCalledWith(token, { projectIds: [2, 5], tags: ['urgent'] });
+  });
+
+  it('should return 304 when If-None-Match matches', async () => {
+    const response = await GET(request('', { 'If-None-Match': '"v1"' }), params());
+
+    expect(response.status).toBe(304);
+    expect(response.headers.get('ETag')).toBe('"v1"');
+    expect(await response.text()).toBe('');
+  });
+
+  it('should return the body when the ETag has changed', async () => {
+    const response = await GET(request('', { 'If-None-Match': '"v0"' }), params());
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should return 404 for unknown or revoked tokens', async () => {
+    (getCalendarFeed as any).mockResolvedValue(null);
+
+    const response = await GET(request(), params());
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data.error).toBe('Calendar feed not found');
+  });
+
+  it('should return 404 without the .ics suffix', async () => {
+    const response = await GET(request(), params(token));
+
+    expect(response.status).toBe(404);
+    expect(getCalendarFeed).not.toHaveBeenCalled();
+  });
+
+  it('should return 500 when the feed cannot be generated', async () => {
+    (getCalendarFeed as any).mockRejectedValue(new Error('Database error'));
+
+    const response = await GET(request(), params());
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data.error).toBe('Failed to generate calendar feed');
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET, POST } from '@/app/api/projects/route';
+import { PATCH, DELETE } from '@/app/api/projects/[id]/route';
+import { archiveProject, createProject, listManagedProjects, updateProject } from '@/lib/services/projects';
+import { NextRequest } from 'next/server';
+
+// Mock the service layer
+vi.mock('@/lib/services/projects', () => ({
+  PROJECT_PERMISSION_ERROR: 'Only managers and admins can manage projects',
+  DEPARTMENT_PERMISSION_ERROR: 'You can only link departments you manage',
+  archiveProject: vi.fn(),
+  createProject: vi.fn(),
+  listManagedProjects: vi.fn(),
+  updateProject: vi.fn(),
+}));
+
+// Mock the Supabase server client
+const mockSupabaseClient = {
+  auth: {
+    getUser: vi.fn(),
+  },
+};
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(async () => mockSupabaseClient),
+}));
+
+describe('/api/projects', () => {
+  const project = {
+    id: 1,
+    name: 'Apollo',
+    is_archived: false,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    departments: [{ id: 2, name: 'Finance' }],
+    open_task_count: 3,
+  };
+
+  const jsonRequest = (url: string, method: string, body: unknown) =>
+    new NextRequest(url, {
+      method,
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-123' } },
+      error: null,
+    });
+  });
+
+  describe('GET', () => {
+    it('should list projects for managers', async () => {
+      vi.mocked(listManagedProjects).mockResolvedValue([project]);
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.projects).toEqual([project]);
+      expect(listManagedProjects).toHaveBeenCalledWith(mockSupabaseClient, 'user-123');
+    });
+
+    it('should return 403 for staff', async () => {
+      vi.mocked(listManagedProjects).mockRejectedValue(new Error('Only managers and admins can manage projects'));
+
+      const response = await GET();
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should return 401 when not authenticated', async () => {
+      mockSupabaseClient.auth.getUser.mockResolvedValue({ data: { user: null }, error: null });
+
+      const response = await GET();
+
+      expect(response.status).toBe(401);
+      expect(listManagedProjects).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST', () => {
+    it('should create a project', async () => {
+      vi.mocked(createProject).mockResolvedValue(project);
+
+      const response = await POST(
+        jsonRequest('http://localhost/api/projects', 'POST', { name: 'Apollo', departmentIds: [2] })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.project).toEqual(project);
+      expect(createProject).toHaveBeenCalledWith(mockSupabaseClient, 'user-123', {
+        name: 'Apollo',
+        departmentIds: [2],
+      });
+    });
+
+    it.each([
+      ['Only managers and admins can manage projects', 403],
+      ['You can only link departments you manage', 403],
+      ['A project with this name already exists', 409],
+      ['Project name is required', 400],
+    ])('should map "%s" to %i', async (message, status) => {
+      vi.mocked(createProject).mockRejectedValue(new Error(message));
+
+      const response = await POST(jsonRequest('http://localhost/api/projects', 'POST', { name: 'Apollo' }));
+      const data = await response.json();
+
+      expect(response.status).toBe(status);
+      expect(data.error).toBe(message);
+    });
+  });
+
+  describe('PATCH /api/projects/[id]', () => {
+    it('should pass only the provided fields', async () => {
+      vi.mocked(updateProject).mockResolvedValue({ ...project, is_archived: true });
+
+      const response = await PATCH(
+        jsonRequest('http://localhost/api/projects/1', 'PATCH', { isArchived: true, departmentIds: [2], extra: 1 }),
+        params('1')
+      );
+
+      expect(response.status).toBe(200);
+      expect(updateProject).toHaveBeenCalledWith(mockSupabaseClient, 'user-123', 1, {
+        isArchived: true,
+        departmentIds: [2],
+      });
+    });
+
+    it('should return 404 for a missing project', async () => {
+      vi.mocked(updateProject).mockRejectedValue(new Error('Project not found'));
+
+      const response = await PATCH(
+        jsonRequest('http://localhost/api/projects/99', 'PATCH', { name: 'X' }),
+        params('99')
+      );
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should reject an invalid ID', async () => {
+      const response = await PATCH(
+        jsonRequest('http://localhost/api/projects/abc', 'PATCH', { name: 'X' }),
+        params('abc')
+      );
+
+      expect(response.status).toBe(400);
+      expect(updateProject).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /api/projects/[id]', () => {
+    it('should archive the project', async () => {
+      vi.mocked(archiveProject).mockResolvedValue({ ...project, is_archived: true });
+
+      const response = await DELETE(new NextRequest('http://localhost/api/projects/1', { method: 'DELETE' }), params('1'));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.project.is_archived).toBe(true);
+      expect(archiveProject).toHaveBeenCalledWith(mockSupabaseClient, 'user-123', 1);
+    });
+
+    it('should return 403 for staff', async () => {
+      vi.mocked(archiveProject).mockRejectedValue(new Error('Only managers and admins can manage projects'));
+
+      const response = await DELETE(new NextRequest('http://localhost/api/projects/1', { method: 'DELETE' }), params('1'));
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
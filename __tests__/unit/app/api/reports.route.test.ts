@@ -172,6 +172,7 @@ describe('app/api/reports/route', () => {
       it('should generate logged time report with JSON response', async () => {
         const mockReportData = {
           kind: 'loggedTime' as const,
+          departments: [],
           totalTime: 10,
           avgTime: 5,
           completedTasks: 3,
@@ -182,6 +183,10 @@ describe('app/api/reports/route', () => {
           onTimeCompletionRate: 0.8,
           totalDelayHours: 1.5,
           overdueTime: 0.5,
+          avgLeadTime: 48,
+          avgCycleTime: 20,
+          blockedTime: 6,
+          reopenCount: 1,
         };
 
         mockSupabaseClient.auth = {
@@ -201,11 +206,16 @@ describe('app/api/reports/route', () => {
         expect(response.status).toBe(200);
         expect(data).toMatchObject({
           kind: 'loggedTime',
+          departments: [],
           totalTime: 10,
           avgTime: 5,
           completedTasks: 3,
           overdueTasks: 1,
           blockedTasks: 0,
+          avgLeadTime: 48,
+          avgCycleTime: 20,
+          blockedTime: 6,
+          reopenCount: 1,
         });
         expect(generateLoggedTimeReport).toHaveBeenCalledWith({
           projectIds: undefined,
@@ -220,6 +230,7 @@ describe('app/api/reports/route', () => {
         const endDate = '2024-12-31';
         const mockReportData = {
           kind: 'loggedTime' as const,
+          departments: [],
           totalTime: 10,
           avgTime: 5,
           completedTasks: 3,
@@ -230,6 +241,10 @@ describe('app/api/reports/route', () => {
           onTimeCompletionRate: 1,
           totalDelayHours: 0,
           overdueTime: 0,
+          avgLeadTime: 0,
+          avgCycleTime: 0,
+          blockedTime: 0,
+          reopenCount: 0,
         };
 
         mockSupabaseClient.auth = {
@@ -252,6 +267,7 @@ describe('app/api/reports/route', () => {
 
         expect(data).toMatchObject({
           kind: 'loggedTime',
+          departments: [],
           totalTime: 10,
         });
         expect(generateLoggedTimeReport).toHaveBeenCalledWith({
@@ -261,9 +277,56 @@ describe('app/api/reports/route', () => {
         });
       });
 
+      it('should pass departmentIds and return the departments covered', async () => {
+        const departmentIds = [departmentsFixtures.engineering.id];
+        const covered = [
+          { id: departmentsFixtures.engineering.id, name: departmentsFixtures.engineering.name },
+          { id: departmentsFixtures.operations.id, name: departmentsFixtures.operations.name },
+        ];
+
+        mockSupabaseClient.auth = {
+          getUser: vi.fn().mockResolvedValue({
+            data: { user: { id: authUsersFixtures.alice.id } },
+            error: null,
+          }),
+        } as any;
+        mockUserRoles(authUsersFixtures.alice.id, ['admin']);
+
+        vi.mocked(generateLoggedTimeReport).mockResolvedValue({
+          kind: 'loggedTime',
+          departments: covered,
+          totalTime: 0,
+          avgTime: 0,
+          completedTasks: 0,
+          overdueTasks: 0,
+          blockedTasks: 0,
+          timeByTask: new Map(),
+          incompleteTime: 0,
+          onTimeCompletionRate: 0,
+          totalDelayHours: 0,
+          overdueTime: 0,
+          avgLeadTime: 0,
+          avgCycleTime: 0,
+          blockedTime: 0,
+          reopenCount: 0,
+        });
+
+        const request = createMockRequest(
+          `/api/reports?action=time&departmentIds=${departmentIds.join(',')}`
+        );
+        const response = await GET(request);
+        const data = await response.json();
+
+        expect(generateLoggedTimeReport).toHaveBeenCalledWith(
+          expect.objectContaining({ departmentIds })
+        );
+        expect(data.departments).toEqual(covered);
+      });
+
       it('should default to time action when no action specified', async () => {
         const mockReportData = {
           kind: 'loggedTime' as const,
+          departments: [],
           totalTime: 0,
           avgTime: 0,
           completedTasks: 0,
@@ -274,6 +337,10 @@ describe('app/api/reports/route', () => {
           onTimeCompletionRate: 0,
           totalDelayHours: 0,
           overdueTime: 0,
+          avgLeadTime: 0,
+          avgCycleTime: 0,
+          blockedTime: 0,
+          reopenCount: 0,
         };
 
         mockSupabaseClient.auth = {
@@ -298,6 +365,7 @@ describe('app/api/reports/route', () => {
       it('should generate team summary report with weekly breakdown', async () => {
         const mockReportData = {
           kind: 'teamSummary' as const,
+          departments: [],
           totalTasks: 15,
           totalUsers: 3,
           weeklyBreakdown: [
@@ -369,6 +437,7 @@ describe('app/api/reports/route', () => {
         expect(response.status).toBe(200);
         expect(data).toMatchObject({
           kind: 'teamSummary',
+          departments: [],
           totalTasks: 15,
           totalUsers: 3,
         });
@@ -387,6 +456,7 @@ describe('app/api/reports/route', () => {
         const endDate = '2024-12-31';
         const mockReportData = {
           kind: 'teamSummary' as const,
+          departments: [],
           totalTasks: 5,
           totalUsers: 2,
           weeklyBreakdown: [],
@@ -421,6 +491,7 @@ describe('app/api/reports/route', () => {
       it('should handle empty weekly breakdown', async () => {
         const mockReportData = {
           kind: 'teamSummary' as const,
+          departments: [],
           totalTasks: 0,
           totalUsers: 0,
           weeklyBreakdown: [],
@@ -451,6 +522,7 @@ describe('app/api/reports/route', () => {
       it('should serialize Maps to objects in JSON response', async () => {
         const mockReportData = {
           kind: 'teamSummary' as const,
+          departments: [],
           totalTasks: 10,
           totalUsers: 2,
           weeklyBreakdown: [],
@@ -525,6 +597,7 @@ describe('app/api/reports/route', () => {
       it('should handle multiple weeks with multiple users', async () => {
         const mockReportData = {
           kind: 'teamSummary' as const,
+          departments: [],
           totalTasks: 30,
           totalUsers: 3,
           weeklyBreakdown: [
@@ -671,12 +744,17 @@ describe('app/api/reports/route', () => {
       it('should generate task completion report with all fields', async () => {
         const mockReportData = {
           kind: 'taskCompletions' as const,
+          departments: [],
           totalTasks: 10,
           totalCompleted: 6,
           totalInProgress: 3,
           totalTodo: 1,
           totalBlocked: 0,
           overallCompletionRate: 0.6,
+          avgLeadTime: 0,
+          avgCycleTime: 0,
+          totalBlockedTime: 0,
+          totalReopens: 0,
           userStats: [
             {
               userId: 'user1',
@@ -688,6 +766,9 @@ describe('app/api/reports/route', () => {
               blockedTasks: 0,
               completionRate: 0.6,
               avgCompletionTime: 24,
+              avgCycleTime: 0,
+              blockedTime: 0,
+              reopenCount: 0,
               onTimeCompletions: 2,
               lateCompletions: 1,
               onTimeRate: 0.67,
@@ -718,12 +799,17 @@ describe('app/api/reports/route', () => {
         expect(response.status).toBe(200);
         expect(data).toMatchObject({
           kind: 'taskCompletions',
+          departments: [],
           totalTasks: 10,
           totalCompleted: 6,
           totalInProgress: 3,
           totalTodo: 1,
           totalBlocked: 0,
           overallCompletionRate: 0.6,
+          avgLeadTime: 0,
+          avgCycleTime: 0,
+          totalBlockedTime: 0,
+          totalReopens: 0,
         });
         expect(data.userStats).toHaveLength(1);
         expect(data.userStats[0]).toMatchObject({
@@ -744,12 +830,17 @@ describe('app/api/reports/route', () => {
         const endDate = '2024-12-31';
         const mockReportData = {
           kind: 'taskCompletions' as const,
+          departments: [],
           totalTasks: 5,
           totalCompleted: 3,
           totalInProgress: 1,
           totalTodo: 1,
           totalBlocked: 0,
           overallCompletionRate: 0.6,
+          avgLeadTime: 0,
+          avgCycleTime: 0,
+          totalBlockedTime: 0,
+          totalReopens: 0,
           userStats: [],
           completedByProject: new Map(),
         };
@@ -781,12 +872,17 @@ describe('app/api/reports/route', () => {
       it('should handle empty user stats', async () => {
         const mockReportData = {
           kind: 'taskCompletions' as const,
+          departments: [],
           totalTasks: 0,
           totalCompleted: 0,
           totalInProgress: 0,
           totalTodo: 0,
           totalBlocked: 0,
           overallCompletionRate: 0,
+          avgLeadTime: 0,
+          avgCycleTime: 0,
+          totalBlockedTime: 0,
+          totalReopens: 0,
           userStats: [],
           completedByProject: new Map(),
         };
@@ -912,6 +1008,7 @@ describe('app/api/reports/route', () => {
 
         vi.mocked(generateLoggedTimeReport).mockResolvedValue({
           kind: 'loggedTime' as const,
+          departments: [],
           totalTime: 0,
           avgTime: 0,
           completedTasks: 0,
@@ -922,6 +1019,10 @@ describe('app/api/reports/route', () => {
           onTimeCompletionRate: 0,
           totalDelayHours: 0,
           overdueTime: 0,
+          avgLeadTime: 0,
+          avgCycleTime: 0,
+          blockedTime: 0,
+          reopenCount: 0,
         });
 
         const request = createMockRequest(
@@ -948,6 +1049,7 @@ describe('app/api/reports/route', () => {
 
         vi.mocked(generateLoggedTimeReport).mockResolvedValue({
           kind: 'loggedTime',
+          departments: [],
           totalTime: 0,
           avgTime: 0,
           completedTasks: 0,
@@ -958,6 +1060,10 @@ describe('app/api/reports/route', () => {
           onTimeCompletionRate: 0,
           totalDelayHours: 0,
           overdueTime: 0,
+          avgLeadTime: 0,
+          avgCycleTime: 0,
+          blockedTime: 0,
+          reopenCount: 0,
         });
 
         const request = createMockRequest('/api/reports?action=time&startDate=invalid-date');
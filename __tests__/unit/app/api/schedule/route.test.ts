@@ -3,9 +3,13 @@ import { GET, PATCH } from '@/app/api/schedule/route';
 import { NextRequest } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { getScheduleTasks } from '@/lib/db/tasks';
+import { rescheduleTask } from '@/lib/services/tasks';
 
 vi.mock('@/lib/supabase/server');
 vi.mock('@/lib/db/tasks');
+vi.mock('@/lib/services/tasks', () => ({
+  rescheduleTask: vi.fn(),
+}));
 
 describe('app/api/schedule/route', () => {
   const mockSupabase = {
@@ -50,8 +54,12 @@ describe('app/api/schedule/route', () => {
           deadline: '2025-10-31',
           status: 'In Progress',
           updated_at: '2025-10-20',
+          priority_bucket: 5,
+          parent_task_id: null,
+          project_id: 1,
           project_name: 'Project A',
           assignees: [{ id: 'user-123', first_name: 'John', last_name: 'Doe' }],
+          blocked_by: [],
         },
       ];
 
@@ -270,59 +278,143 @@ describe('app/api/schedule/route', () => {
       expect(data.error).toBe('Missing taskId or deadline');
     });
 
-    it('should update task deadline successfully', async () => {
+    it('should reschedule through the task service', async () => {
       const mockUser = { id: 'user-123' };
       mockSupabase.auth.getUser.mockResolvedValue({
         data: { user: mockUser },
         error: null,
       });
 
-      const mockUpdate = vi.fn().mockReturnThis();
-      const mockEq = vi.fn().mockResolvedValue({ error: null });
+      const result = {
+        id: 1,
+        deadline: '2025-11-01T00:00:00.000Z',
+        shiftedSubtasks: [],
+        skippedSubtaskIds: [],
+      };
+      vi.mocked(rescheduleTask).mockResolvedValue(result);
 
-      mockSupabase.from.mockReturnValue({
-        update: mockUpdate,
+      const request = new NextRequest('http://localhost:3000/api/schedule', {
+        method: 'PATCH',
+        body: JSON.stringify({ taskId: 1, deadline: '2025-11-01T00:00:00Z' }),
+      });
+
+      const response = await PATCH(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data).toEqual(result);
+      expect(rescheduleTask).toHaveBeenCalledWith(1, '2025-11-01T00:00:00Z', 'user-123', { shiftSubtasks: false });
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should pass the shiftSubtasks option', async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({
+        data: { user: { id: 'user-123' } },
+        error: null,
       });
-      mockUpdate.mockReturnValue({
-        eq: mockEq,
+      vi.mocked(rescheduleTask).mockResolvedValue({
+        id: 1,
+        deadline: '2025-11-01T00:00:00.000Z',
+        shiftedSubtasks: [{ id: 2, deadline: '2025-11-03T00:00:00.000Z' }],
+        skippedSubtaskIds: [3],
       });
 
       const request = new NextRequest('http://localhost:3000/api/schedule', {
         method: 'PATCH',
-        body: JSON.stringify({ taskId: 1, deadline: '2025-11-01T00:00:00Z' }),
+        body: JSON.stringify({ taskId: 1, deadline: '2025-11-01T00:00:00Z', shiftSubtasks: true }),
       });
 
       const response = await PATCH(request);
       const data = await response.json();
 
       expect(response.status).toBe(200);
-      expect(data.ok).toBe(true);
-      expect(mockSupabase.from).toHaveBeenCalledWith('tasks');
-      expect(mockUpdate).toHaveBeenCalledWith({
-        deadline: new Date('2025-11-01T00:00:00Z').toISOString(),
+      expect(data.skippedSubtaskIds).toEqual([3]);
+      expect(rescheduleTask).toHaveBeenCalledWith(1, '2025-11-01T00:00:00Z', 'user-123', { shiftSubtasks: true });
+    });
+
+    it('should return 403 when the user cannot update the task', async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({
+        data: { user: { id: 'user-123' } },
+        error: null,
       });
-      expect(mockEq).toHaveBeenCalledWith('id', 1);
+      vi.mocked(rescheduleTask).mockRejectedValue(new Error('You do not have permission to update this task'));
+
+      const request = new NextRequest('http://localhost:3000/api/schedule', {
+        method: 'PATCH',
+        body: JSON.stringify({ taskId: 1, deadline: '2025-11-01' }),
+      });
+
+      const response = await PATCH(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(403);
+      expect(data.error).toBe('You do not have permission to update this task');
     });
 
-    it('should return 500 when update fails', async () => {
-      const mockUser = { id: 'user-123' };
+    it('should return 404 when the task no longer exists', async () => {
       mockSupabase.auth.getUser.mockResolvedValue({
-        data: { user: mockUser },
+        data: { user: { id: 'user-123' } },
+        error: null,
+      });
+      vi.mocked(rescheduleTask).mockRejectedValue(new Error('Task not found'));
+
+      const request = new NextRequest('http://localhost:3000/api/schedule', {
+        method: 'PATCH',
+        body: JSON.stringify({ taskId: 1, deadline: '2025-11-01' }),
+      });
+
+      const response = await PATCH(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(404);
+      expect(data.error).toBe('Task not found');
+    });
+
+    it('should return 400 for an invalid deadline', async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({
+        data: { user: { id: 'user-123' } },
         error: null,
       });
+      vi.mocked(rescheduleTask).mockRejectedValue(new Error('Invalid date format'));
+
+      const request = new NextRequest('http://localhost:3000/api/schedule', {
+        method: 'PATCH',
+        body: JSON.stringify({ taskId: 1, deadline: 'not a date' }),
+      });
+
+      const response = await PATCH(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Invalid date format');
+    });
 
-      const mockUpdate = vi.fn().mockReturnThis();
-      const mockEq = vi.fn().mockResolvedValue({
-        error: { message: 'Update failed' },
+    it('should return 400 for an invalid task ID', async () => {
+      mockSupabase.auth.getUser.mockResolvedValue({
+        data: { user: { id: 'user-123' } },
+        error: null,
       });
 
-      mockSupabase.from.mockReturnValue({
-        update: mockUpdate,
+      const request = new NextRequest('http://localhost:3000/api/schedule', {
+        method: 'PATCH',
+        body: JSON.stringify({ taskId: 'abc', deadline: '2025-11-01' }),
       });
-      mockUpdate.mockReturnValue({
-        eq: mockEq,
+
+      const response = await PATCH(request);
+
+      expect(response.status).toBe(400);
+      expect(rescheduleTask).not.toHaveBeenCalled();
+    });
+
+    it('should return 500 when update fails', async () => {
+      const mockUser = { id: 'user-123' };
+      mockSupabase.auth.getUser.mockResolvedValue({
+        data: { user: mockUser },
+        error: null,
       });
 
+      vi.mocked(rescheduleTask).mockRejectedValue(new Error('Failed to update task deadline: Update failed'));
+
       const request = new NextRequest('http://localhost:3000/api/schedule', {
         method: 'PATCH',
         body: JSON.stringify({ taskId: 1, deadline: '2025-11-01' }),
@@ -332,7 +424,7 @@ describe('app/api/schedule/route', () => {
       const data = await response.json();
 
       expect(response.status).toBe(500);
-      expect(data.error).toBe('Failed to update deadline');
+      expect(data.error).toBe('Failed to update task deadline: Update failed');
     });
 
     it('should handle malformed JSON body', async () => {
@@ -361,9 +453,7 @@ describe('app/api/schedule/route', () => {
         error: null,
       });
 
-      mockSupabase.from.mockImplementation(() => {
-        throw new Error('Unexpected error');
-      });
+      vi.mocked(rescheduleTask).mockRejectedValue('Unexpected error');
 
       const request = new NextRequest('http://localhost:3000/api/schedule', {
         method: 'PATCH',
@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET, PATCH } from '@/app/api/schedule/workload/route';
+import { getWorkloadService, updateWeeklyCapacityService } from '@/lib/services/workload';
+import { NextRequest } from 'next/server';
+
+// Mock the service layer
+vi.mock('@/lib/services/workload', () => ({
+  getWorkloadService: vi.fn(),
+  updateWeeklyCapacityService: vi.fn(),
+}));
+
+// Mock the Supabase server client
+const mockSupabaseClient = {
+  auth: {
+    getUser: vi.fn(),
+  },
+};
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(async () => mockSupabaseClient),
+}));
+
+describe('/api/schedule/workload', () => {
+  const patchRequest = (body: unknown) =>
+    new NextRequest('http://localhost:3000/api/schedule/workload', {
+      method: 'PATCH',
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-123' } },
+      error: null,
+    });
+  });
+
+  describe('GET', () => {
+    it('should return the workload for the filters', async () => {
+      const workload = { users: [], suggestions: [], canSuggest: true };
+      (getWorkloadService as any).mockResolvedValue(workload);
+
+      const response = await GET(
+        new NextRequest(
+          'http://localhost:3000/api/schedule/workload?startDate=2030-01-07T00:00:00Z&endDate=2030-01-13T23:59:59Z&projectIds=1,2&staffIds=a,b'
+        )
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data).toEqual(workload);
+      expect(getWorkloadService).toHaveBeenCalledWith(mockSupabaseClient, 'user-123', {
+        startDate: new Date('2030-01-07T00:00:00Z'),
+        endDate: new Date('2030-01-13T23:59:59Z'),
+        projectIds: [1, 2],
+        staffIds: ['a', 'b'],
+      });
+    });
+
+    it('should return 400 without a date range', async () => {
+      const response = await GET(new NextRequest('http://localhost:3000/api/schedule/workload'));
+
+      expect(response.status).toBe(400);
+      expect(getWorkloadService).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for an invalid range', async () => {
+      (getWorkloadService as any).mockRejectedValue(new Error('Date range cannot exceed 92 days'));
+
+      const response = await GET(
+        new NextRequest('http://localhost:3000/api/schedule/workload?startDate=2030-01-01&endDate=2030-12-31')
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Date range cannot exceed 92 days');
+    });
+
+    it('should return 401 when user is not authenticated', async () => {
+      mockSupabaseClient.auth.getUser.mockResolvedValue({
+        data: { user: null },
+        error: { message: 'Not authenticated' },
+      });
+
+      const response = await GET(new NextRequest('http://localhost:3000/api/schedule/workload'));
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe('PATCH', () => {
+    it('should default to the current user', async () => {
+      (updateWeeklyCapacityService as any).mockResolvedValue(30);
+
+      const response = await PATCH(patchRequest({ weeklyCapacity: 30 }));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data).toEqual({ success: true, userId: 'user-123', weeklyCapacity: 30 });
+      expect(updateWeeklyCapacityService).toHaveBeenCalledWith(mockSupabaseClient, 'user-123', 'user-123', 30);
+    });
+
+    it('should return 403 when changing a user outside the department', async () => {
+      (updateWeeklyCapacityService as any).mockRejectedValue(
+        new Error('You can only change capacity for users in your department')
+      );
+
+      const response = await PATCH(patchRequest({ userId: 'user-9', weeklyCapacity: 30 }));
+
+      expect(response.status).toBe(403);
+      expect(updateWeeklyCapacityService).toHaveBeenCalledWith(mockSupabaseClient, 'user-123', 'user-9', 30);
+    });
+
+    it('should return 400 for an invalid capacity', async () => {
+      (updateWeeklyCapacityService as any).mockRejectedValue(
+        new Error('Weekly capacity must be a whole number between 1 and 200')
+      );
+
+      const response = await PATCH(patchRequest({ weeklyCapacity: 'lots' }));
+
+      expect(response.status).toBe(400);
+    });
+  });
+});
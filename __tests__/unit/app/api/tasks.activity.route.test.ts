@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from '@/app/api/tasks/[id]/activity/route';
+import { getTaskActivityService } from '@/lib/services/tasks';
+import { NextRequest } from 'next/server';
+
+// Mock the service layer
+vi.mock('@/lib/services/tasks', () => ({
+  getTaskActivityService: vi.fn(),
+}));
+
+// Mock the Supabase server client
+const mockSupabaseClient = {
+  auth: {
+    getUser: vi.fn(),
+  },
+};
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(async () => mockSupabaseClient),
+}));
+
+describe('GET /api/tasks/[id]/activity', () => {
+  const request = () => new NextRequest('http://localhost:3000/api/tasks/123/activity');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-123' } },
+      error: null,
+    });
+  });
+
+  it('should return the activity trail of the task', async () => {
+    const activity = [
+      {
+        id: 1,
+        task_id: 123,
+        actor_id: 'user-123',
+        field: 'deadline',
+        old_value: '2025-01-01T00:00:00.000Z',
+        new_value: '2025-01-05T00:00:00.000Z',
+        created_at: '2025-01-01T10:00:00.000Z',
+        actor: { first_name: 'John', last_name: 'Doe' },
+      },
+    ];
+    (getTaskActivityService as any).mockResolvedValue(activity);
+
+    const response = await GET(request(), { params: Promise.resolve({ id: '123' }) });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.activity).toEqual(activity);
+    expect(getTaskActivityService).toHaveBeenCalledWith(123);
+  });
+
+  it('should return 401 when user is not authenticated', async () => {
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: null },
+      error: { message: 'Not authenticated' },
+    });
+
+    const response = await GET(request(), { params: Promise.resolve({ id: '123' }) });
+
+    expect(response.status).toBe(401);
+    expect(getTaskActivityService).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for an invalid task ID', async () => {
+    const response = await GET(request(), { params: Promise.resolve({ id: 'abc' }) });
+
+    expect(response.status).toBe(400);
+    expect(getTaskActivityService).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the task is not visible', async () => {
+    (getTaskActivityService as any).mockRejectedValue(new Error('Task not found'));
+
+    const response = await GET(request(), { params: Promise.resolve({ id: '123' }) });
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data.error).toBe('Task not found');
+  });
+});
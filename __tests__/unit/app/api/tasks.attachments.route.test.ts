@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from '@/app/api/tasks/[id]/attachments/[attachmentId]/route';
+import { GET as GET_VERSIONS } from '@/app/api/tasks/[id]/attachments/[attachmentId]/versions/route';
+import { getAttachmentDownloadUrl, listAttachmentVersions } from '@/lib/services/tasks';
+import { NextRequest } from 'next/server';
+
+// Mock the service layer
+vi.mock('@/lib/services/tasks', () => ({
+  getAttachmentDownloadUrl: vi.fn(),
+  listAttachmentVersions: vi.fn(),
+}));
+
+// Mock the Supabase server client
+const mockSupabaseClient = {
+  auth: {
+    getUser: vi.fn(),
+  },
+};
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(async () => mockSupabaseClient),
+}));
+
+describe('GET /api/tasks/[id]/attachments/[attachmentId]', () => {
+  const request = () => new NextRequest('http://localhost:3000/api/tasks/123/attachments/7');
+  const params = (id = '123', attachmentId = '7') => ({ params: Promise.resolve({ id, attachmentId }) });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-123' } },
+      error: null,
+    });
+  });
+
+  it('should redirect to a signed URL', async () => {
+    const signedUrl = 'https://project.supabase.co/storage/v1/object/sign/task-attachments/tasks/123/abc-report.pdf?token=t';
+    (getAttachmentDownloadUrl as any).mockResolvedValue(signedUrl);
+
+    const response = await GET(request(), params());
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get('location')).toBe(signedUrl);
+    expect(response.headers.get('cache-control')).toBe('private, no-store');
+    expect(getAttachmentDownloadUrl).toHaveBeenCalledWith(123, 7, 'user-123');
+  });
+
+  it('should return 401 when user is not authenticated', async () => {
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: null },
+      error: { message: 'Not authenticated' },
+    });
+
+    const response = await GET(request(), params());
+
+    expect(response.status).toBe(401);
+    expect(getAttachmentDownloadUrl).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for invalid ids', async () => {
+    const response = await GET(request(), params('123', 'abc'));
+
+    expect(response.status).toBe(400);
+    expect(getAttachmentDownloadUrl).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the attachment is missing or the task is not visible', async () => {
+    (getAttachmentDownloadUrl as any).mockRejectedValue(new Error('Attachment not found'));
+
+    const response = await GET(request(), params());
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data.error).toBe('Attachment not found');
+  });
+
+  it('should return 500 when signing fails', async () => {
+    (getAttachmentDownloadUrl as any).mockRejectedValue(new Error('Failed to sign attachment URL: boom'));
+
+    const response = await GET(request(), params());
+
+    expect(response.status).toBe(500);
+  });
+});
+
+describe('GET /api/tasks/[id]/attachments/[attachmentId]/versions', () => {
+  const request = () => new NextRequest('http://localhost:3000/api/tasks/123/attachments/7/versions');
+  const params = (id = '123', attachmentId = '7') => ({ params: Promise.resolve({ id, attachmentId }) });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-123' } },
+      error: null,
+    });
+  });
+
+  it('should return the version history', async () => {
+    const versions = [
+      { id: 7, version: 2, is_current: true, uploader: { first_name: 'Alice', last_name: 'Smith' } },
+      { id: 5, version: 1, is_current: false, uploader: null },
+    ];
+    (listAttachmentVersions as any).mockResolvedValue(versions);
+
+    const response = await GET_VERSIONS(request(), params());
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.versions).toEqual(versions);
+    expect(listAttachmentVersions).toHaveBeenCalledWith(123, 7, 'user-123');
+  });
+
+  it('should return 401 when user is not authenticated', async () => {
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: null },
+      error: { message: 'Not authenticated' },
+    });
+
+    const response = await GET_VERSIONS(request(), params());
+
+    expect(response.status).toBe(401);
+    expect(listAttachmentVersions).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for invalid ids', async () => {
+    const response = await GET_VERSIONS(request(), params('abc', '7'));
+
+    expect(response.status).toBe(400);
+    expect(listAttachmentVersions).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 when the attachment is missing or the task is not visible', async () => {
+    (listAttachmentVersions as any).mockRejectedValue(new Error('Attachment not found'));
+
+    const response = await GET_VERSIONS(request(), params());
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PATCH } from '@/app/api/tasks/bulk/route';
+import { bulkUpdateTasks } from '@/lib/services/tasks';
+import { NextRequest } from 'next/server';
+
+// Mock the service layer
+vi.mock('@/lib/services/tasks', () => ({
+  bulkUpdateTasks: vi.fn(),
+}));
+
+// Mock the Supabase server client
+const mockSupabaseClient = {
+  auth: {
+    getUser: vi.fn(),
+  },
+};
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(async () => mockSupabaseClient),
+}));
+
+describe('PATCH /api/tasks/bulk', () => {
+  const request = (body: unknown) =>
+    new NextRequest('http://localhost:3000/api/tasks/bulk', {
+      method: 'PATCH',
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-123' } },
+      error: null,
+    });
+  });
+
+  it('should return per-task results', async () => {
+    (bulkUpdateTasks as any).mockResolvedValue([
+      { taskId: 1, success: true },
+      { taskId: 2, success: false, error: 'You do not have permission to update this task' },
+    ]);
+
+    const response = await PATCH(request({ taskIds: [1, 2], action: 'updateStatus', status: 'Completed' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.succeeded).toBe(1);
+    expect(data.failed).toBe(1);
+    expect(data.results).toHaveLength(2);
+    expect(bulkUpdateTasks).toHaveBeenCalledWith(
+      mockSupabaseClient,
+      [1, 2],
+      'updateStatus',
+      { status: 'Completed' },
+      'user-123'
+    );
+  });
+
+  it('should return 400 for an invalid request', async () => {
+    (bulkUpdateTasks as any).mockRejectedValue(new Error('At least one task ID is required'));
+
+    const response = await PATCH(request({ taskIds: [], action: 'addTag', tag_name: 'x' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('At least one task ID is required');
+  });
+
+  it('should return 403 when a non-manager archives', async () => {
+    (bulkUpdateTasks as any).mockRejectedValue(new Error('Only managers can archive tasks'));
+
+    const response = await PATCH(request({ taskIds: [1], action: 'archive' }));
+
+    expect(response.status).toBe(403);
+  });
+
+  it('should return 400 for malformed JSON', async () => {
+    const response = await PATCH(request('{'));
+
+    expect(response.status).toBe(400);
+    expect(bulkUpdateTasks).not.toHaveBeenCalled();
+  });
+
+  it('should return 401 when user is not authenticated', async () => {
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: null },
+      error: { message: 'Not authenticated' },
+    });
+
+    const response = await PATCH(request({ taskIds: [1], action: 'archive' }));
+
+    expect(response.status).toBe(401);
+    expect(bulkUpdateTasks).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET, POST, DELETE } from '@/app/api/tasks/[id]/dependencies/route';
+import { addDependency, getTaskDependenciesService, removeDependency } from '@/lib/services/tasks';
+import { NextRequest } from 'next/server';
+
+// Mock the service layer
+vi.mock('@/lib/services/tasks', () => ({
+  addDependency: vi.fn(),
+  getTaskDependenciesService: vi.fn(),
+  removeDependency: vi.fn(),
+}));
+
+// Mock the Supabase server client
+const mockSupabaseClient = {
+  auth: {
+    getUser: vi.fn(),
+  },
+};
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(async () => mockSupabaseClient),
+}));
+
+describe('/api/tasks/[id]/dependencies', () => {
+  const url = 'http://localhost:3000/api/tasks/123/dependencies';
+  const params = (id = '123') => ({ params: Promise.resolve({ id }) });
+  const dependencies = {
+    blockers: [{ id: 7, title: 'Design', status: 'To Do', deadline: null }],
+    dependents: [],
+    candidates: [],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-123' } },
+      error: null,
+    });
+  });
+
+  describe('GET', () => {
+    it('should return the dependencies of the task', async () => {
+      (getTaskDependenciesService as any).mockResolvedValue(dependencies);
+
+      const response = await GET(new NextRequest(url), params());
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data).toEqual({ dependencies });
+      expect(getTaskDependenciesService).toHaveBeenCalledWith(123);
+    });
+
+    it('should return 404 when the task does not exist', async () => {
+      (getTaskDependenciesService as any).mockRejectedValue(new Error('Task not found'));
+
+      const response = await GET(new NextRequest(url), params());
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 401 when user is not authenticated', async () => {
+      mockSupabaseClient.auth.getUser.mockResolvedValue({
+        data: { user: null },
+        error: { message: 'Not authenticated' },
+      });
+
+      const response = await GET(new NextRequest(url), params());
+
+      expect(response.status).toBe(401);
+      expect(getTaskDependenciesService).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST', () => {
+    const post = (body: unknown) =>
+      new NextRequest(url, { method: 'POST', body: JSON.stringify(body) });
+
+    it('should add a blocker', async () => {
+      (addDependency as any).mockResolvedValue(dependencies);
+
+      const response = await POST(post({ blockerId: 7 }), params());
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data).toEqual({ success: true, dependencies });
+      expect(addDependency).toHaveBeenCalledWith(123, 7, 'user-123');
+    });
+
+    it('should return 400 when the dependency would create a cycle', async () => {
+      (addDependency as any).mockRejectedValue(new Error('Circular dependency detected'));
+
+      const response = await POST(post({ blockerId: 7 }), params());
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Circular dependency detected');
+    });
+  });
+
+  describe('DELETE', () => {
+    const del = (query: string) => new NextRequest(`${url}${query}`, { method: 'DELETE' });
+
+    it('should remove a blocker', async () => {
+      (removeDependency as any).mockResolvedValue({ ...dependencies, blockers: [] });
+
+      const response = await DELETE(del('?blockerId=7'), params());
+
+      expect(response.status).toBe(200);
+      expect(removeDependency).toHaveBeenCalledWith(123, 7, 'user-123');
+    });
+
+    it('should return 404 when the dependency does not exist', async () => {
+      (removeDependency as any).mockRejectedValue(new Error('Dependency not found'));
+
+      const response = await DELETE(del('?blockerId=7'), params());
+
+      expect(response.status).toBe(404);
+    });
+
+    it('should return 400 without a blocker ID', async () => {
+      const response = await DELETE(del(''), params());
+
+      expect(response.status).toBe(400);
+      expect(removeDependency).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -9,6 +9,8 @@ import {
     removeAssignee,
     removeTag,
     removeTaskAttachment,
+    addAttachmentVersion,
+    restoreAttachmentVersion,
     updateComment,
     updateDeadline,
     updateDescription,
@@ -17,6 +19,10 @@ import {
     updateRecurrence,
     updateStatus,
     updateTitle,
+    startTimer,
+    stopTimer,
+    addManualTimeEntry,
+    deleteTimeEntry,
 } from '@/lib/services/tasks';
 import { NextRequest } from 'next/server';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
@@ -26,6 +32,7 @@ vi.mock('@/lib/services/tasks', () => ({
   updateTitle: vi.fn(),
   updateDescription: vi.fn(),
   updateStatus: vi.fn(),
+  BLOCKED_TASK_ERROR: 'Task is blocked by unfinished tasks',
   updatePriority: vi.fn(),
   updateDeadline: vi.fn(),
   updateNotes: vi.fn(),
@@ -36,10 +43,16 @@ vi.mock('@/lib/services/tasks', () => ({
   removeTag: vi.fn(),
   addTaskAttachments: vi.fn(),
   removeTaskAttachment: vi.fn(),
+  addAttachmentVersion: vi.fn(),
+  restoreAttachmentVersion: vi.fn(),
   addComment: vi.fn(),
   updateComment: vi.fn(),
   deleteComment: vi.fn(),
   linkSubtaskToParent: vi.fn(),
+  startTimer: vi.fn(),
+  stopTimer: vi.fn(),
+  addManualTimeEntry: vi.fn(),
+  deleteTimeEntry: vi.fn(),
 }));
 
 // Mock the Supabase server client
@@ -265,7 +278,48 @@ describe('PATCH /api/tasks/[id]', () => {
     expect(response.status).toBe(200);
     expect(data.id).toBe(1);
     expect(data.status).toBe('In Progress');
-    expect(updateStatus).toHaveBeenCalledWith(1, 'In Progress', mockUser.id);
+    expect(updateStatus).toHaveBeenCalledWith(1, 'In Progress', mockUser.id, { force: false });
+  });
+
+  it('should return 409 when the task has open blockers', async () => {
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-123' } },
+      error: null,
+    });
+
+    (updateStatus as any).mockRejectedValue(new Error('Task is blocked by unfinished tasks: "Design"'));
+
+    const request = new NextRequest('http://localhost:3000/api/tasks/1', {
+      method: 'PATCH',
+      body: JSON.stringify({ action: 'updateStatus', status: 'In Progress' }),
+      headers: { 'content-type': 'application/json' },
+    });
+
+    const response = await PATCH(request, { params: Promise.resolve({ id: '1' }) });
+    const data = await response.json();
+
+    expect(response.status).toBe(409);
+    expect(data).toEqual({ error: 'Task is blocked by unfinished tasks: "Design"', blocked: true });
+  });
+
+  it('should pass force through to start a blocked task anyway', async () => {
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-123' } },
+      error: null,
+    });
+
+    (updateStatus as any).mockResolvedValue({ id: 1, status: 'In Progress' });
+
+    const request = new NextRequest('http://localhost:3000/api/tasks/1', {
+      method: 'PATCH',
+      body: JSON.stringify({ action: 'updateStatus', status: 'In Progress', force: true }),
+      headers: { 'content-type': 'application/json' },
+    });
+
+    const response = await PATCH(request, { params: Promise.resolve({ id: '1' }) });
+
+    expect(response.status).toBe(200);
+    expect(updateStatus).toHaveBeenCalledWith(1, 'In Progress', 'user-123', { force: true });
   });
 
   it('should return 400 if status is missing for updateStatus', async () => {
@@ -454,6 +508,7 @@ describe('PATCH /api/tasks/[id]', () => {
       id: 1,
       recurrence_interval: 7,
       recurrence_date: '2025-12-20T00:00:00Z',
+      recurrence_rule: null,
     });
   
     const requestBody = {
@@ -476,7 +531,46 @@ describe('PATCH /api/tasks/[id]', () => {
     expect(data.success).toBe(true);
     expect(data.recurrence.id).toBe(1);
     expect(data.recurrence.recurrence_interval).toBe(7);
-    expect(updateRecurrence).toHaveBeenCalledWith(1, 7, '2025-12-20T00:00:00Z', mockUser.id);
+    expect(updateRecurrence).toHaveBeenCalledWith(1, 7, '2025-12-20T00:00:00Z', mockUser.id, null);
+  });
+
+  it('should pass a recurrence rule through without an interval', async () => {
+    const mockUser = { id: 'user-123' };
+
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: mockUser },
+      error: null,
+    });
+
+    vi.mocked(updateRecurrence).mockResolvedValue({
+      id: 1,
+      recurrence_interval: 14,
+      recurrence_date: '2025-12-20T00:00:00Z',
+      recurrence_rule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH',
+    });
+
+    const request = new NextRequest('http://localhost:3000/api/tasks/1', {
+      method: 'PATCH',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({
+        action: 'updateRecurrence',
+        recurrenceRule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH',
+        recurrenceDate: '2025-12-20T00:00:00Z',
+      }),
+    });
+
+    const response = await PATCH(request, { params: Promise.resolve({ id: '1' }) });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.recurrence.recurrence_rule).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH');
+    expect(updateRecurrence).toHaveBeenCalledWith(
+      1,
+      0,
+      '2025-12-20T00:00:00Z',
+      mockUser.id,
+      'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH'
+    );
   });
 
   it('should return 400 if recurrence interval is missing', async () => {
@@ -793,6 +887,86 @@ describe('PATCH /api/tasks/[id]', () => {
     expect(removeTaskAttachment).not.toHaveBeenCalled();
   });
 
+  // ============ ATTACHMENT VERSIONS ============
+
+  it('should upload a new version of an attachment', async () => {
+    const mockUser = { id: 'user-123' };
+
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: mockUser },
+      error: null,
+    });
+
+    (addAttachmentVersion as any).mockResolvedValue({ id: 8, document_id: 3, version: 2 });
+
+    const formData = new FormData();
+    formData.append('action', 'addAttachmentVersion');
+    formData.append('attachment_id', '7');
+    const testFile = new File(['spec v2'], 'spec.txt', { type: 'text/plain' });
+    formData.append('file_0', testFile);
+
+    const request = new NextRequest('http://localhost:3000/api/tasks/1', {
+      method: 'PATCH',
+      body: formData as any,
+    });
+
+    const response = await PATCH(request, { params: Promise.resolve({ id: '1' }) });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.attachment.version).toBe(2);
+    expect(addAttachmentVersion).toHaveBeenCalledWith(1, 7, expect.any(File), mockUser.id);
+  });
+
+  it('should return 400 if a new version has no attachment_id', async () => {
+    const mockUser = { id: 'user-123' };
+
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: mockUser },
+      error: null,
+    });
+
+    const formData = new FormData();
+    formData.append('action', 'addAttachmentVersion');
+    formData.append('file_0', new File(['spec v2'], 'spec.txt', { type: 'text/plain' }));
+
+    const request = new NextRequest('http://localhost:3000/api/tasks/1', {
+      method: 'PATCH',
+      body: formData as any,
+    });
+
+    const response = await PATCH(request, { params: Promise.resolve({ id: '1' }) });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Attachment ID required');
+    expect(addAttachmentVersion).not.toHaveBeenCalled();
+  });
+
+  it('should restore an attachment version', async () => {
+    const mockUser = { id: 'user-123' };
+
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: mockUser },
+      error: null,
+    });
+
+    (restoreAttachmentVersion as any).mockResolvedValue({ id: 5, document_id: 3, version: 1 });
+
+    const request = new NextRequest('http://localhost:3000/api/tasks/1', {
+      method: 'PATCH',
+      body: JSON.stringify({ action: 'restoreAttachmentVersion', attachment_id: 5 }),
+      headers: { 'content-type': 'application/json' },
+    });
+
+    const response = await PATCH(request, { params: Promise.resolve({ id: '1' }) });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.attachment.id).toBe(5);
+    expect(restoreAttachmentVersion).toHaveBeenCalledWith(1, 5, mockUser.id);
+  });
+
   // ============ ADD COMMENT ============
 
   it('should add comment successfully', async () => {
@@ -823,7 +997,7 @@ describe('PATCH /api/tasks/[id]', () => {
     expect(data.success).toBe(true);
     expect(data.comment.id).toBe(1);
     expect(data.comment.content).toBe('Great work!');
-    expect(addComment).toHaveBeenCalledWith(1, 'Great work!', mockUser.id);
+    expect(addComment).toHaveBeenCalledWith(1, 'Great work!', mockUser.id, []);
   });
 
   it('should return 400 if comment content is missing', async () => {
@@ -911,7 +1085,12 @@ describe('PATCH /api/tasks/[id]', () => {
 
     const request = new NextRequest('http://localhost:3000/api/tasks/1', {
       method: 'PATCH',
-      body: JSON.stringify({ action: 'updateComment', commentId: 1, content: 'Updated comment' }),
+      body: JSON.stringify({
+        action: 'updateComment',
+        commentId: 1,
+        content: 'Updated comment @Ann Lee',
+        mentions: ['user-2'],
+      }),
       headers: { 'content-type': 'application/json' },
     });
 
@@ -921,7 +1100,7 @@ describe('PATCH /api/tasks/[id]', () => {
     expect(response.status).toBe(200);
     expect(data.success).toBe(true);
     expect(data.comment.content).toBe('Updated comment');
-    expect(updateComment).toHaveBeenCalledWith(1, 'Updated comment', mockUser.id);
+    expect(updateComment).toHaveBeenCalledWith(1, 'Updated comment @Ann Lee', mockUser.id, ['user-2']);
   });
 
   it('should return 400 if commentId is missing', async () => {
@@ -1066,4 +1245,94 @@ describe('PATCH /api/tasks/[id]', () => {
     expect(response.status).toBe(400);
     expect(data.error).toBe('A task cannot be its own parent');
   });
+
+  // ============ TIME TRACKING ============
+
+  const timeTracking = { logged_time: 3600, entries: [], running_entry: null };
+
+  const patchJson = (body: Record<string, unknown>) =>
+    PATCH(
+      new NextRequest('http://localhost:3000/api/tasks/1', {
+        method: 'PATCH',
+        body: JSON.stringify(body),
+        headers: { 'content-type': 'application/json' },
+      }),
+      { params: Promise.resolve({ id: '1' }) }
+    );
+
+  it('should start a timer successfully', async () => {
+    mockSupabaseClient.auth.getUser.mockResolvedValue({ data: { user: { id: 'user-123' } }, error: null });
+    (startTimer as any).mockResolvedValue(timeTracking);
+
+    const response = await patchJson({ action: 'startTimer', note: 'Review' });
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ success: true, timeTracking });
+    expect(startTimer).toHaveBeenCalledWith(1, 'user-123', 'Review');
+  });
+
+  it('should return 400 when another timer is already running', async () => {
+    mockSupabaseClient.auth.getUser.mockResolvedValue({ data: { user: { id: 'user-123' } }, error: null });
+    (startTimer as any).mockRejectedValue(new Error('You already have a timer running on task #2'));
+
+    const response = await patchJson({ action: 'startTimer' });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('You already have a timer running on task #2');
+  });
+
+  it('should stop a timer successfully', async () => {
+    mockSupabaseClient.auth.getUser.mockResolvedValue({ data: { user: { id: 'user-123' } }, error: null });
+    (stopTimer as any).mockResolvedValue(timeTracking);
+
+    const response = await patchJson({ action: 'stopTimer' });
+
+    expect(response.status).toBe(200);
+    expect(stopTimer).toHaveBeenCalledWith(1, 'user-123');
+  });
+
+  it('should add a manual time entry successfully', async () => {
+    mockSupabaseClient.auth.getUser.mockResolvedValue({ data: { user: { id: 'user-123' } }, error: null });
+    (addManualTimeEntry as any).mockResolvedValue(timeTracking);
+
+    const response = await patchJson({
+      action: 'addTimeEntry',
+      started_at: '2025-01-01T09:00:00.000Z',
+      ended_at: '2025-01-01T10:00:00.000Z',
+      note: 'Pairing',
+    });
+
+    expect(response.status).toBe(200);
+    expect(addManualTimeEntry).toHaveBeenCalledWith(
+      1,
+      '2025-01-01T09:00:00.000Z',
+      '2025-01-01T10:00:00.000Z',
+      'Pairing',
+      'user-123'
+    );
+  });
+
+  it('should return 400 if manual entry times are missing', async () => {
+    mockSupabaseClient.auth.getUser.mockResolvedValue({ data: { user: { id: 'user-123' } }, error: null });
+
+    const response = await patchJson({ action: 'addTimeEntry', started_at: '2025-01-01T09:00:00.000Z' });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Start and end time required');
+    expect(addManualTimeEntry).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 if entryId is missing for deleteTimeEntry', async () => {
+    mockSupabaseClient.auth.getUser.mockResolvedValue({ data: { user: { id: 'user-123' } }, error: null });
+
+    const response = await patchJson({ action: 'deleteTimeEntry' });
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Time entry ID required');
+    expect(deleteTimeEntry).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { POST } from '@/app/api/tasks/import/route';
+import { importICalService } from '@/lib/services/ical-import';
+import { NextRequest } from 'next/server';
+
+// Mock the service layer
+vi.mock('@/lib/services/ical-import', () => ({
+  importICalService: vi.fn(),
+}));
+
+// Mock the Supabase server client
+const mockSupabaseClient = {
+  auth: {
+    getUser: vi.fn(),
+  },
+};
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(async () => mockSupabaseClient),
+}));
+
+describe('POST /api/tasks/import', () => {
+  const ics = 'BEGIN:VCALENDAR\r\nEND:VCALENDAR';
+
+  const request = (fields: Record<string, string | File>) => {
+    const formData = new FormData();
+    for (const [key, value] of Object.entries(fields)) {
+      formData.append(key, value);
+    }
+    return new NextRequest('http://localhost:3000/api/tasks/import', {
+      method: 'POST',
+      body: formData,
+    });
+  };
+
+  const summary = {
+    dryRun: true,
+    created: 1,
+    updated: 0,
+    skipped: 0,
+    failed: 0,
+    results: [{ index: 1, uid: 'evt-1', title: 'Review', action: 'create', warnings: [] }],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-123' } },
+      error: null,
+    });
+  });
+
+  it('should preview an import on a dry run', async () => {
+    (importICalService as any).mockResolvedValue(summary);
+
+    const response = await POST(
+      request({ file: new File([ics], 'sprint.ics', { type: 'text/calendar' }), projectId: '3', dryRun: 'true' })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({ success: true, ...summary });
+    expect(importICalService).toHaveBeenCalledWith(mockSupabaseClient, ics, 3, 'user-123', { dryRun: true });
+  });
+
+  it('should import when dryRun is not set', async () => {
+    (importICalService as any).mockResolvedValue({ ...summary, dryRun: false });
+
+    await POST(request({ file: new File([ics], 'sprint.ics'), projectId: '3' }));
+
+    expect(importICalService).toHaveBeenCalledWith(mockSupabaseClient, ics, 3, 'user-123', { dryRun: false });
+  });
+
+  it('should return 400 without a file', async () => {
+    const response = await POST(request({ projectId: '3' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Missing calendar file');
+    expect(importICalService).not.toHaveBeenCalled();
+  });
+
+  it('should return 400 for files over the size limit', async () => {
+    const big = new File(['x'.repeat(2 * 1024 * 1024 + 1)], 'big.ics');
+
+    const response = await POST(request({ file: big, projectId: '3' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Calendar file exceeds 2MB limit');
+  });
+
+  it('should return 400 when the file cannot be imported', async () => {
+    (importICalService as any).mockRejectedValue(new Error('Invalid iCalendar file: missing BEGIN:VCALENDAR'));
+
+    const response = await POST(request({ file: new File(['hello'], 'bad.ics'), projectId: '3' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Invalid iCalendar file: missing BEGIN:VCALENDAR');
+  });
+
+  it('should return 401 when user is not authenticated', async () => {
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: null },
+      error: { message: 'Not authenticated' },
+    });
+
+    const response = await POST(request({ file: new File([ics], 'sprint.ics'), projectId: '3' }));
+
+    expect(response.status).toBe(401);
+    expect(importICalService).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET, POST } from '@/app/api/tasks/views/route';
+import { PATCH, DELETE } from '@/app/api/tasks/views/[id]/route';
+import { createTaskView, deleteTaskView, listTaskViews, updateTaskView } from '@/lib/services/task-views';
+import { NextRequest } from 'next/server';
+
+// Mock the service layer
+vi.mock('@/lib/services/task-views', () => ({
+  createTaskView: vi.fn(),
+  deleteTaskView: vi.fn(),
+  listTaskViews: vi.fn(),
+  updateTaskView: vi.fn(),
+}));
+
+// Mock the Supabase server client
+const mockSupabaseClient = {
+  auth: {
+    getUser: vi.fn(),
+  },
+};
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(async () => mockSupabaseClient),
+}));
+
+describe('/api/tasks/views', () => {
+  const view = {
+    id: 1,
+    user_id: 'user-123',
+    name: 'My open work',
+    query: 'status=To+Do',
+    shared_department_id: null,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    owner_name: 'Ada Lovelace',
+    is_owner: true,
+    is_default: false,
+  };
+
+  const jsonRequest = (url: string, method: string, body: unknown) =>
+    new NextRequest(url, {
+      method,
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  const params = (id: string) => ({ params: Promise.resolve({ id }) });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSupabaseClient.auth.getUser.mockResolvedValue({
+      data: { user: { id: 'user-123' } },
+      error: null,
+    });
+  });
+
+  describe('GET', () => {
+    it('should list the views for the current user', async () => {
+      (listTaskViews as any).mockResolvedValue([view]);
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data).toEqual({ views: [view] });
+      expect(listTaskViews).toHaveBeenCalledWith('user-123');
+    });
+
+    it('should return 401 when user is not authenticated', async () => {
+      mockSupabaseClient.auth.getUser.mockResolvedValue({
+        data: { user: null },
+        error: { message: 'Not authenticated' },
+      });
+
+      const response = await GET();
+
+      expect(response.status).toBe(401);
+      expect(listTaskViews).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST', () => {
+    it('should save a view', async () => {
+      (createTaskView as any).mockResolvedValue(view);
+
+      const response = await POST(
+        jsonRequest('http://localhost:3000/api/tasks/views', 'POST', {
+          name: 'My open work',
+          query: 'status=To+Do',
+          shared: true,
+        })
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data).toEqual({ success: true, view });
+      expect(createTaskView).toHaveBeenCalledWith('user-123', {
+        name: 'My open work',
+        query: 'status=To+Do',
+        shared: true,
+        isDefault: false,
+      });
+    });
+
+    it('should return 400 when the view is invalid', async () => {
+      (createTaskView as any).mockRejectedValue(new Error('A view with this name already exists'));
+
+      const response = await POST(jsonRequest('http://localhost:3000/api/tasks/views', 'POST', { name: 'Dup' }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('A view with this name already exists');
+    });
+  });
+
+  describe('PATCH /[id]', () => {
+    it('should pass only the provided fields', async () => {
+      (updateTaskView as any).mockResolvedValue({ ...view, is_default: true });
+
+      const response = await PATCH(
+        jsonRequest('http://localhost:3000/api/tasks/views/1', 'PATCH', { isDefault: true }),
+        params('1')
+      );
+
+      expect(response.status).toBe(200);
+      expect(updateTaskView).toHaveBeenCalledWith('user-123', 1, { isDefault: true });
+    });
+
+    it('should map ownership and missing-view errors', async () => {
+      (updateTaskView as any).mockRejectedValueOnce(new Error('Only the owner can change this view'));
+      const forbidden = await PATCH(
+        jsonRequest('http://localhost:3000/api/tasks/views/1', 'PATCH', { name: 'Mine' }),
+        params('1')
+      );
+      expect(forbidden.status).toBe(403);
+
+      (updateTaskView as any).mockRejectedValueOnce(new Error('Saved view not found'));
+      const missing = await PATCH(
+        jsonRequest('http://localhost:3000/api/tasks/views/1', 'PATCH', { isDefault: true }),
+        params('1')
+      );
+      expect(missing.status).toBe(404);
+    });
+
+    it('should return 400 for an invalid view ID', async () => {
+      const response = await PATCH(
+        jsonRequest('http://localhost:3000/api/tasks/views/abc', 'PATCH', {}),
+        params('abc')
+      );
+
+      expect(response.status).toBe(400);
+      expect(updateTaskView).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE /[id]', () => {
+    it('should delete a view', async () => {
+      (deleteTaskView as any).mockResolvedValue(undefined);
+
+      const response = await DELETE(
+        new NextRequest('http://localhost:3000/api/tasks/views/1', { method: 'DELETE' }),
+        params('1')
+      );
+
+      expect(response.status).toBe(200);
+      expect(deleteTaskView).toHaveBeenCalledWith('user-123', 1);
+    });
+
+    it('should return 404 when the view does not exist', async () => {
+      (deleteTaskView as any).mockRejectedValue(new Error('Saved view not found'));
+
+      const response = await DELETE(
+        new NextRequest('http://localhost:3000/api/tasks/views/1', { method: 'DELETE' }),
+        params('1')
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GET } from '@/app/api/user/mentionable/route';
+import { listMentionableUsers } from '@/lib/services/tasks';
+
+vi.mock('@/lib/services/tasks', () => ({
+  listMentionableUsers: vi.fn(),
+}));
+
+const mockSupabaseClient = {
+  auth: {
+    getUser: vi.fn(),
+  },
+};
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(async () => mockSupabaseClient),
+}));
+
+describe('/api/user/mentionable', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSupabaseClient.auth.getUser.mockResolvedValue({ data: { user: { id: 'user-123' } }, error: null });
+  });
+
+  it('should return 401 when not signed in', async () => {
+    mockSupabaseClient.auth.getUser.mockResolvedValue({ data: { user: null }, error: null });
+
+    const response = await GET();
+
+    expect(response.status).toBe(401);
+    expect(listMentionableUsers).not.toHaveBeenCalled();
+  });
+
+  it('should return the users the caller can mention', async () => {
+    const users = [{ id: 'user-2', first_name: 'Ann', last_name: 'Lee' }];
+    vi.mocked(listMentionableUsers).mockResolvedValue(users);
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.users).toEqual(users);
+  });
+
+  it('should return 500 when the lookup fails', async () => {
+    vi.mocked(listMentionableUsers).mockRejectedValue(new Error('Failed to fetch mentionable users: boom'));
+
+    const response = await GET();
+
+    expect(response.status).toBe(500);
+  });
+});
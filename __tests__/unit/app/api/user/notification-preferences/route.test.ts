@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET, PATCH } from '@/app/api/user/notification-preferences/route';
+import { getNotificationPreferences, updateNotificationPreferences } from '@/lib/services/notification-preferences';
+
+vi.mock('@/lib/services/notification-preferences', () => ({
+  getNotificationPreferences: vi.fn(),
+  updateNotificationPreferences: vi.fn(),
+}));
+
+const mockSupabaseClient = {
+  auth: {
+    getUser: vi.fn(),
+  },
+};
+
+vi.mock('@/lib/supabase/server', () => ({
+  createClient: vi.fn(async () => mockSupabaseClient),
+}));
+
+describe('/api/user/notification-preferences', () => {
+  const preferences = {
+    events: { comment: { in_app: false, email: true } },
+    quiet_hours: null,
+    digest_frequency: 'daily',
+  } as any;
+
+  const patchRequest = (body: unknown) =>
+    new NextRequest('http://localhost/api/user/notification-preferences', {
+      method: 'PATCH',
+      body: JSON.stringify(body),
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSupabaseClient.auth.getUser.mockResolvedValue({ data: { user: { id: 'user-123' } }, error: null });
+  });
+
+  describe('GET', () => {
+    it('should return 401 when not signed in', async () => {
+      mockSupabaseClient.auth.getUser.mockResolvedValue({ data: { user: null }, error: null });
+
+      const response = await GET();
+
+      expect(response.status).toBe(401);
+      expect(getNotificationPreferences).not.toHaveBeenCalled();
+    });
+
+    it("should return the user's preferences", async () => {
+      vi.mocked(getNotificationPreferences).mockResolvedValue(preferences);
+
+      const response = await GET();
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.preferences).toEqual(preferences);
+      expect(getNotificationPreferences).toHaveBeenCalledWith('user-123');
+    });
+  });
+
+  describe('PATCH', () => {
+    it('should pass the update through to the service', async () => {
+      vi.mocked(updateNotificationPreferences).mockResolvedValue(preferences);
+
+      const response = await PATCH(
+        patchRequest({ events: { comment: { in_app: false } }, quietHours: null, digestFrequency: 'weekly' })
+      );
+
+      expect(response.status).toBe(200);
+      expect(updateNotificationPreferences).toHaveBeenCalledWith('user-123', {
+        events: { comment: { in_app: false } },
+        quietHours: null,
+        digestFrequency: 'weekly',
+      });
+    });
+
+    it('should return 400 for invalid preferences', async () => {
+      vi.mocked(updateNotificationPreferences).mockRejectedValue(
+        new Error('Digest frequency must be one of: off, daily, weekly')
+      );
+
+      const response = await PATCH(patchRequest({ digestFrequency: 'hourly' }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe('Digest frequency must be one of: off, daily, weekly');
+    });
+
+    it('should return 401 when not signed in', async () => {
+      mockSupabaseClient.auth.getUser.mockResolvedValue({ data: { user: null }, error: null });
+
+      const response = await PATCH(patchRequest({ digestFrequency: 'off' }));
+
+      expect(response.status).toBe(401);
+      expect(updateNotificationPreferences).not.toHaveBeenCalled();
+    });
+  });
+});
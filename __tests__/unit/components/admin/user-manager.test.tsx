@@ -0,0 +1,120 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import { UserManager } from '@/components/admin/user-manager';
+import type { AdminDepartment, AdminUser } from '@/lib/types/admin';
+
+const refreshMock = vi.fn();
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ push: vi.fn(), refresh: refreshMock }),
+}));
+
+describe('UserManager', () => {
+  const departments: AdminDepartment[] = [
+    { id: 1, name: 'Engineering', parent_department_id: null, member_count: 2 },
+    { id: 2, name: 'Sales', parent_department_id: null, member_count: 1 },
+  ];
+
+  const users: AdminUser[] = [
+    {
+      id: 'me',
+      email: 'me@example.com',
+      first_name: 'Ada',
+      last_name: 'Admin',
+      department_id: 1,
+      is_active: true,
+      roles: ['staff', 'admin'],
+    },
+    {
+      id: 'bob',
+      email: 'bob@example.com',
+      first_name: 'Bob',
+      last_name: 'Builder',
+      department_id: 1,
+      is_active: true,
+      roles: ['staff'],
+    },
+    {
+      id: 'cat',
+      email: null,
+      first_name: 'Cat',
+      last_name: 'Gone',
+      department_id: 2,
+      is_active: false,
+      roles: [],
+    },
+  ];
+
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn().mockResolvedValue({ ok: true, json: async () => ({ success: true }) });
+    vi.stubGlobal('fetch', fetchMock);
+    refreshMock.mockClear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const renderManager = () => render(<UserManager users={users} departments={departments} currentUserId="me" />);
+
+  it('should hide deactivated users until asked', () => {
+    renderManager();
+
+    expect(screen.queryByTestId('user-row-cat')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Show deactivated (1)'));
+
+    expect(within(screen.getByTestId('user-row-cat')).getByText('Deactivated')).toBeInTheDocument();
+    expect(within(screen.getByTestId('user-row-cat')).getByRole('button', { name: 'Reactivate' })).toBeInTheDocument();
+  });
+
+  it('should deactivate another user', async () => {
+    renderManager();
+
+    fireEvent.click(within(screen.getByTestId('user-row-bob')).getByRole('button', { name: 'Deactivate' }));
+
+    await waitFor(() => expect(refreshMock).toHaveBeenCalled());
+    expect(fetchMock).toHaveBeenCalledWith('/api/admin/users/bob', expect.objectContaining({ method: 'PATCH' }));
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ isActive: false });
+  });
+
+  it('should not offer to deactivate or demote the current admin', () => {
+    renderManager();
+
+    const row = within(screen.getByTestId('user-row-me'));
+    expect(row.queryByRole('button', { name: 'Deactivate' })).not.toBeInTheDocument();
+    expect(row.getByLabelText('admin role for Ada Admin')).toBeDisabled();
+  });
+
+  it('should grant and revoke roles', async () => {
+    renderManager();
+    const row = within(screen.getByTestId('user-row-bob'));
+
+    fireEvent.click(row.getByLabelText('manager role for Bob Builder'));
+    await waitFor(() => expect(refreshMock).toHaveBeenCalledTimes(1));
+    expect(fetchMock).toHaveBeenLastCalledWith(
+      '/api/admin/users/bob/roles',
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ role: 'manager' }) })
+    );
+
+    fireEvent.click(row.getByLabelText('staff role for Bob Builder'));
+    await waitFor(() => expect(refreshMock).toHaveBeenCalledTimes(2));
+    expect(fetchMock).toHaveBeenLastCalledWith(
+      '/api/admin/users/bob/roles?role=staff',
+      expect.objectContaining({ method: 'DELETE' })
+    );
+  });
+
+  it('should not refresh when the change fails', async () => {
+    fetchMock.mockResolvedValue({ ok: false, json: async () => ({ error: 'User not found' }) });
+    renderManager();
+
+    fireEvent.click(within(screen.getByTestId('user-row-bob')).getByRole('button', { name: 'Deactivate' }));
+
+    await waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    expect(refreshMock).not.toHaveBeenCalled();
+  });
+});
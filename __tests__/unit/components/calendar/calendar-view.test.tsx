@@ -114,4 +114,81 @@ describe('CalendarView User Interactions', () => {
     expect(screen.getByText('Task 1')).toBeInTheDocument();
     expect(screen.getByText('Task 2')).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  it('should switch to the agenda view', async () => {
+    render(<CalendarView tasks={mockTasks} />);
+
+    fireEvent.click(screen.getByLabelText('Agenda view'));
+
+    await waitFor(() => {
+      expect(localStorageMock.getItem('tasks-calendar-view')).toBe('agenda');
+    });
+  });
+
+  describe('drag to reschedule', () => {
+    const now = new Date();
+    const sourceDay = new Date(now.getFullYear(), now.getMonth(), 15, 10, 0);
+    const targetDay = new Date(now.getFullYear(), now.getMonth(), 16);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const targetTestId = `month-day-${targetDay.getFullYear()}-${pad(targetDay.getMonth() + 1)}-16`;
+
+    const dragTaskToTarget = () => {
+      const card = screen.getByText('Movable Task').closest('[draggable="true"]')!;
+      const dataTransfer = { setData: vi.fn(), effectAllowed: '', dropEffect: '' };
+      fireEvent.dragStart(card, { dataTransfer });
+      const target = screen.getByTestId(targetTestId);
+      fireEvent.dragOver(target, { dataTransfer });
+      fireEvent.drop(target, { dataTransfer });
+    };
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should update the deadline through the tasks API when a task is dropped on another day', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, json: async () => ({}) });
+      vi.stubGlobal('fetch', fetchMock);
+
+      render(<CalendarView tasks={[createTask(7, 'Movable Task', 'To Do', sourceDay)]} />);
+      dragTaskToTarget();
+
+      await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('/api/tasks/7');
+      const body = JSON.parse(init.body);
+      expect(body.action).toBe('updateDeadline');
+      expect(new Date(body.deadline).getDate()).toBe(16);
+      expect(new Date(body.deadline).getHours()).toBe(10);
+    });
+
+    it('should show the API error inline when rescheduling is refused', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue({
+          ok: false,
+          json: async () => ({ error: 'You do not have permission to update this task' }),
+        })
+      );
+
+      render(<CalendarView tasks={[createTask(7, 'Movable Task', 'To Do', sourceDay)]} />);
+      dragTaskToTarget();
+
+      const alert = await screen.findByRole('alert');
+      expect(alert).toHaveTextContent(
+        'Could not reschedule "Movable Task": You do not have permission to update this task'
+      );
+    });
+  });
+
+  it('should show upcoming occurrences of recurring tasks', () => {
+    const now = new Date();
+    const recurring = {
+      ...createTask(8, 'Weekly Sync', 'To Do', new Date(now.getFullYear(), now.getMonth(), 1, 9, 0)),
+      recurrence_interval: 7,
+    };
+
+    render(<CalendarView tasks={[recurring]} />);
+
+    expect(screen.getAllByLabelText(/Weekly Sync \(upcoming occurrence\)/).length).toBeGreaterThan(0);
+  });
+});
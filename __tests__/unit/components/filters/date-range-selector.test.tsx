@@ -84,6 +84,18 @@ describe('DateRangeFilter', () => {
         expect(screen.getByText('Next 60 Days')).toBeInTheDocument();
       });
     });
+
+    it('should have "This Quarter" and "Next 12 Months" presets', async () => {
+      render(<DateRangeFilter value={{}} onChange={mockOnChange} />);
+
+      const button = screen.getByRole('button');
+      fireEvent.click(button);
+
+      await waitFor(() => {
+        expect(screen.getByText('This Quarter')).toBeInTheDocument();
+        expect(screen.getByText('Next 12 Months')).toBeInTheDocument();
+      });
+    });
   });
 
   describe('Preset Functionality', () => {
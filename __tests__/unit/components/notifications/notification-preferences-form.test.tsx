@@ -0,0 +1,80 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { NotificationPreferencesForm } from '@/components/notifications/notification-preferences-form';
+import { NOTIFICATION_EVENTS, type NotificationPreferences } from '@/lib/types/notification-preferences';
+
+describe('NotificationPreferencesForm', () => {
+  const preferences: NotificationPreferences = {
+    events: Object.fromEntries(
+      NOTIFICATION_EVENTS.map((e) => [e.type, { in_app: true, email: true }])
+    ) as NotificationPreferences['events'],
+    quiet_hours: null,
+    digest_frequency: 'daily',
+  };
+
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string);
+      return {
+        ok: true,
+        json: async () => ({
+          success: true,
+          preferences: {
+            ...preferences,
+            events: { ...preferences.events, comment: { in_app: body.events?.comment?.in_app ?? true, email: true } },
+            quiet_hours: body.quietHours ?? null,
+          },
+        }),
+      };
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const lastBody = () => JSON.parse(fetchMock.mock.calls.at(-1)![1].body);
+
+  it('should only offer the channels each event is delivered on', () => {
+    render(<NotificationPreferencesForm preferences={preferences} />);
+
+    expect(screen.getByLabelText('Comments in-app notifications')).toBeInTheDocument();
+    expect(screen.queryByLabelText('Comments email notifications')).not.toBeInTheDocument();
+    expect(screen.getByLabelText('Deadline reminders email notifications')).toBeInTheDocument();
+    expect(screen.queryByLabelText('Deadline reminders in-app notifications')).not.toBeInTheDocument();
+  });
+
+  it('should save an event toggle', async () => {
+    render(<NotificationPreferencesForm preferences={preferences} />);
+
+    fireEvent.click(screen.getByLabelText('Comments in-app notifications'));
+
+    await waitFor(() =>
+      expect(screen.getByLabelText('Comments in-app notifications')).toHaveAttribute('data-state', 'unchecked')
+    );
+    expect(fetchMock).toHaveBeenCalledWith(
+      '/api/user/notification-preferences',
+      expect.objectContaining({ method: 'PATCH' })
+    );
+    expect(lastBody()).toEqual({ events: { comment: { in_app: false } } });
+  });
+
+  it('should turn quiet hours on', async () => {
+    render(<NotificationPreferencesForm preferences={preferences} />);
+
+    expect(screen.getByText('Off. Emails can be sent at any time.')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Quiet hours start'), { target: { value: '21:30' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Turn on' }));
+
+    await waitFor(() =>
+      expect(screen.getByText(/No emails are sent between 21:30 and 07:00/)).toBeInTheDocument()
+    );
+    expect(lastBody()).toEqual({ quietHours: { start: '21:30', end: '07:00' } });
+    expect(screen.getByRole('button', { name: 'Turn off' })).toBeInTheDocument();
+  });
+});
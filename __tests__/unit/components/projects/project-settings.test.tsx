@@ -0,0 +1,104 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { ProjectSettings } from '@/components/projects/project-settings';
+import type { ProjectDetails } from '@/lib/types/projects';
+
+const refreshMock = vi.fn();
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ push: vi.fn(), refresh: refreshMock }),
+}));
+
+describe('ProjectSettings', () => {
+  const project: ProjectDetails = {
+    id: 7,
+    name: 'Apollo',
+    is_archived: false,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    departments: [
+      { id: 1, name: 'Engineering' },
+      { id: 3, name: 'Sales' },
+    ],
+    open_task_count: 4,
+    task_count: 6,
+    members: [
+      { id: 'a', name: 'Ada Lovelace', open_task_count: 3, task_count: 4 },
+      { id: 'b', name: 'Bob Builder', open_task_count: 1, task_count: 2 },
+    ],
+    linkable_departments: [
+      { id: 1, name: 'Engineering' },
+      { id: 2, name: 'Finance' },
+    ],
+  };
+
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn().mockResolvedValue({ ok: true, json: async () => ({ success: true }) });
+    vi.stubGlobal('fetch', fetchMock);
+    refreshMock.mockClear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const patchBody = () => JSON.parse(fetchMock.mock.calls[0][1].body);
+
+  it('should list members with their task counts', () => {
+    render(<ProjectSettings project={project} />);
+
+    expect(screen.getByTestId('project-member-a')).toHaveTextContent('Ada Lovelace34');
+    expect(screen.getByTestId('project-member-b')).toHaveTextContent('Bob Builder12');
+    expect(screen.getByText('4 open task(s)')).toBeInTheDocument();
+  });
+
+  it('should rename the project', async () => {
+    render(<ProjectSettings project={project} />);
+
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Artemis' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Rename' }));
+
+    await waitFor(() => expect(refreshMock).toHaveBeenCalled());
+    expect(fetchMock).toHaveBeenCalledWith('/api/projects/7', expect.objectContaining({ method: 'PATCH' }));
+    expect(patchBody()).toEqual({ name: 'Artemis' });
+  });
+
+  it('should archive and restore', async () => {
+    const { rerender } = render(<ProjectSettings project={project} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Archive Project' }));
+    await waitFor(() => expect(refreshMock).toHaveBeenCalled());
+    expect(patchBody()).toEqual({ isArchived: true });
+
+    rerender(<ProjectSettings project={{ ...project, is_archived: true }} />);
+    expect(screen.getByRole('button', { name: 'Restore Project' })).toBeInTheDocument();
+  });
+
+  it('should save linked departments and keep ones the user cannot change', async () => {
+    render(<ProjectSettings project={project} />);
+
+    expect(screen.getByText('Also linked to Sales.')).toBeInTheDocument();
+    const save = screen.getByRole('button', { name: 'Save Departments' });
+    expect(save).toBeDisabled();
+
+    fireEvent.click(screen.getByLabelText('Finance'));
+    fireEvent.click(save);
+
+    await waitFor(() => expect(refreshMock).toHaveBeenCalled());
+    expect(patchBody()).toEqual({ departmentIds: [1, 3, 2] });
+  });
+
+  it('should not refresh when the update fails', async () => {
+    fetchMock.mockResolvedValue({ ok: false, json: async () => ({ error: 'A project with this name already exists' }) });
+    render(<ProjectSettings project={project} />);
+
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Taken' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Rename' }));
+
+    await waitFor(() => expect(fetchMock).toHaveBeenCalled());
+    expect(refreshMock).not.toHaveBeenCalled();
+  });
+});
@@ -1,12 +1,13 @@
 import React from 'react';
 import { describe, it, expect, vi } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
-import { ExportButtons } from '@/components/report/export-buttons';
+import { ExportButtons, formatReportDepartments } from '@/components/report/export-buttons';
 import type { LoggedTimeReport, TeamSummaryReport, TaskCompletionReport } from '@/components/report/export-buttons';
 
 describe('ExportButtons', () => {
   const mockLoggedTimeReport: LoggedTimeReport = {
     kind: 'loggedTime',
+    departments: [{ id: 1, name: 'Engineering' }],
     totalTime: 100,
     avgTime: 50,
     completedTasks: 5,
@@ -16,6 +17,10 @@ describe('ExportButtons', () => {
     totalDelayHours: 10,
     incompleteTime: 30,
     overdueTime: 15,
+    avgLeadTime: 48,
+    avgCycleTime: 20,
+    blockedTime: 6,
+    reopenCount: 1,
     timeByTask: new Map([[1, 3600], [2, 7200]]),
     kpis: [
       { label: 'Total Time', value: 100, unit: 'h' },
@@ -32,6 +37,7 @@ describe('ExportButtons', () => {
 
   const mockTeamSummaryReport: TeamSummaryReport = {
     kind: 'teamSummary',
+    departments: [],
     totalTasks: 50,
     totalUsers: 10,
     weeklyBreakdown: [
@@ -66,12 +72,17 @@ describe('ExportButtons', () => {
 
   const mockTaskCompletionReport: TaskCompletionReport = {
     kind: 'taskCompletions',
+    departments: [],
     totalTasks: 20,
     totalCompleted: 10,
     totalInProgress: 5,
     totalTodo: 3,
     totalBlocked: 2,
     overallCompletionRate: 0.5,
+    avgLeadTime: 0,
+    avgCycleTime: 0,
+    totalBlockedTime: 0,
+    totalReopens: 0,
     userStats: [
       {
         userId: 'user1',
@@ -83,6 +94,9 @@ describe('ExportButtons', () => {
         blockedTasks: 1,
         completionRate: 0.5,
         avgCompletionTime: 24,
+        avgCycleTime: 18,
+        blockedTime: 4,
+        reopenCount: 1,
         onTimeCompletions: 4,
         lateCompletions: 1,
         onTimeRate: 0.8,
@@ -403,10 +417,27 @@ describe('ExportButtons', () => {
     });
   });
 
+  describe('formatReportDepartments', () => {
+    it('should list the departments a report covers', () => {
+      expect(
+        formatReportDepartments([
+          { id: 1, name: 'Engineering' },
+          { id: 3, name: 'Operations' },
+        ])
+      ).toBe('Engineering, Operations');
+    });
+
+    it('should fall back to all departments when the report is not filtered by department', () => {
+      expect(formatReportDepartments([])).toBe('All departments');
+      expect(formatReportDepartments(undefined)).toBe('All departments');
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle report with zero values', () => {
       const emptyReport: LoggedTimeReport = {
         kind: 'loggedTime',
+        departments: [],
         totalTime: 0,
         avgTime: 0,
         completedTasks: 0,
@@ -416,6 +447,10 @@ describe('ExportButtons', () => {
         totalDelayHours: 0,
         incompleteTime: 0,
         overdueTime: 0,
+        avgLeadTime: 0,
+        avgCycleTime: 0,
+        blockedTime: 0,
+        reopenCount: 0,
         timeByTask: new Map(),
         kpis: [],
         charts: [],
@@ -430,6 +465,7 @@ describe('ExportButtons', () => {
     it('should handle report with large numbers', () => {
       const largeReport: LoggedTimeReport = {
         kind: 'loggedTime',
+        departments: [],
         totalTime: 999999.99,
         avgTime: 888888.88,
         completedTasks: 10000,
@@ -439,6 +475,10 @@ describe('ExportButtons', () => {
         totalDelayHours: 1000,
         incompleteTime: 50000,
         overdueTime: 25000,
+        avgLeadTime: 0,
+        avgCycleTime: 0,
+        blockedTime: 0,
+        reopenCount: 0,
         timeByTask: new Map(),
         kpis: [],
         charts: [],
@@ -453,6 +493,7 @@ describe('ExportButtons', () => {
     it('should handle report with decimal precision', () => {
       const preciseReport: LoggedTimeReport = {
         kind: 'loggedTime',
+        departments: [],
         totalTime: 123.456789,
         avgTime: 45.678901,
         completedTasks: 15,
@@ -462,6 +503,10 @@ describe('ExportButtons', () => {
         totalDelayHours: 12.345,
         incompleteTime: 34.567,
         overdueTime: 18.901,
+        avgLeadTime: 0,
+        avgCycleTime: 0,
+        blockedTime: 0,
+        reopenCount: 0,
         timeByTask: new Map(),
         kpis: [],
         charts: [],
@@ -1,5 +1,5 @@
 import React from 'react';
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import GanttChart, { type GanttTask, type GanttRow } from '@/components/schedule/GanttChart';
 import { format, addDays } from 'date-fns';
@@ -807,4 +807,301 @@ describe('GanttChart', () => {
         expect(weeklyColumns.length).toBeGreaterThan(0);
       });
     });
+  
+  describe('Dependencies', () => {
+    const blocker: GanttTask = {
+      id: 201,
+      title: 'Design',
+      project: 'Project A',
+      startDate: '2025-10-16T00:00:00Z',
+      deadline: '2025-10-19T00:00:00Z',
+      status: 'In Progress',
+      updatedAt: '',
+      assignee: { id: 'user1', name: 'John Doe' },
+    };
+    const dependent: GanttTask = {
+      id: 202,
+      title: 'Build',
+      project: 'Project A',
+      startDate: '2025-10-20T00:00:00Z',
+      deadline: '2025-10-23T00:00:00Z',
+      status: 'To Do',
+      updatedAt: '',
+      assignee: { id: 'user1', name: 'John Doe' },
+      blockedBy: [201],
+    };
+    const row = (tasks: GanttTask[]): GanttRow[] => [{ assigneeId: 'user1', assigneeName: 'John Doe', tasks }];
+
+    it('should draw an arrow from the blocker to its dependent', () => {
+      const { container } = render(
+        <GanttChart rows={row([blocker, dependent])} startDate={startDate} endDate={endDate} />
+      );
+
+      const arrows = screen.getByTestId('dependency-arrows').querySelectorAll('path[marker-end]');
+      expect(arrows).toHaveLength(1);
+      // Blocker ends with the Oct 19 column where the dependent starts, so the line doubles back between the bars
+      expect(arrows[0].getAttribute('d')).toBe('M 400 19 H 408 V 33 H 392 V 47 H 400');
+      expect(container.querySelector('[data-dependency-conflict]')).not.toBeInTheDocument();
+    });
+
+    it('should not draw arrows when there are no dependencies', () => {
+      render(<GanttChart rows={mockRows} startDate={startDate} endDate={endDate} />);
+
+      expect(screen.queryByTestId('dependency-arrows')).not.toBeInTheDocument();
+    });
+
+    it('should flag a dependent that is due before its blocker', () => {
+      const lateBlocker = { ...blocker, deadline: '2025-10-24T00:00:00Z' };
+
+      const { container } = render(
+        <GanttChart rows={row([lateBlocker, dependent])} startDate={startDate} endDate={endDate} />
+      );
+
+      const flagged = container.querySelector('[data-dependency-conflict]') as HTMLElement;
+      expect(flagged).toBeInTheDocument();
+      expect(flagged).toHaveClass('ring-amber-500');
+      expect(flagged.getAttribute('title')).toContain('Due before blocker "Design"');
+      expect(container.querySelector('path.stroke-amber-500')).toBeInTheDocument();
+    });
+
+    it('should not flag dependents of completed blockers', () => {
+      const doneBlocker = { ...blocker, deadline: '2025-10-24T00:00:00Z', status: 'Completed', updatedAt: '2025-10-18T00:00:00Z' };
+
+      const { container } = render(
+        <GanttChart rows={row([doneBlocker, dependent])} startDate={startDate} endDate={endDate} />
+      );
+
+      expect(container.querySelector('[data-dependency-conflict]')).not.toBeInTheDocument();
+    });
+
+    it('should warn when dragging a blocker past its dependents', async () => {
+      const onChangeDeadline = vi.fn();
+      const { container } = render(
+        <GanttChart
+          rows={row([blocker, dependent])}
+          startDate={startDate}
+          endDate={endDate}
+          currentUserId="user1"
+          onChangeDeadline={onChangeDeadline}
+        />
+      );
+
+      const diamond = container.querySelector('.rotate-45') as HTMLElement;
+      const grid = container.querySelector('.relative[style*="width"]') as HTMLElement;
+
+      fireEvent.mouseDown(diamond, { clientX: 0 });
+      // jsdom reports a zero rect, so clientX maps straight to the day column (Oct 25)
+      fireEvent.mouseUp(grid, { clientX: 10 * 80 + 10 });
+
+      await waitFor(() => {
+        expect(onChangeDeadline).toHaveBeenCalledWith(201, expect.any(Date));
+      });
+      expect(screen.getByRole('alert')).toHaveTextContent('"Design" now ends after its dependent task(s): "Build"');
+    });
+
+    it('should not warn when the blocker still ends before its dependents', async () => {
+      const onChangeDeadline = vi.fn();
+      const { container } = render(
+        <GanttChart
+          rows={row([blocker, dependent])}
+          startDate={startDate}
+          endDate={endDate}
+          currentUserId="user1"
+          onChangeDeadline={onChangeDeadline}
+        />
+      );
+
+      const diamond = container.querySelector('.rotate-45') as HTMLElement;
+      const grid = container.querySelector('.relative[style*="width"]') as HTMLElement;
+
+      fireEvent.mouseDown(diamond, { clientX: 0 });
+      fireEvent.mouseUp(grid, { clientX: 5 * 80 + 10 });
+
+      await waitFor(() => {
+        expect(onChangeDeadline).toHaveBeenCalled();
+      });
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('drag preview', () => {
+    const parent: GanttTask = {
+      id: 301,
+      title: 'Release',
+      project: 'Project A',
+      startDate: '2025-10-16T00:00:00Z',
+      deadline: '2025-10-22T00:00:00Z',
+      status: 'In Progress',
+      updatedAt: '',
+      assignee: { id: 'user1', name: 'John Doe' },
+    };
+    const subtask: GanttTask = {
+      id: 302,
+      title: 'Release notes',
+      project: 'Project A',
+      startDate: '2025-10-16T00:00:00Z',
+      deadline: '2025-10-21T00:00:00Z',
+      status: 'To Do',
+      updatedAt: '',
+      assignee: { id: 'user1', name: 'John Doe' },
+      parentTaskId: 301,
+    };
+    const rows = [{ assigneeId: 'user1', assigneeName: 'John Doe', tasks: [parent, subtask] }];
+
+    const startDragOn = (container: HTMLElement, taskIndex: number) => {
+      const diamond = container.querySelectorAll('.rotate-45')[taskIndex] as HTMLElement;
+      const grid = container.querySelector('.relative[style*="width"]') as HTMLElement;
+      fireEvent.mouseDown(diamond, { clientX: 0 });
+      return grid;
+    };
+
+    it('should show the new deadline while dragging', () => {
+      const { container } = render(
+        <GanttChart rows={rows} startDate={startDate} endDate={endDate} currentUserId="user1" />
+      );
+
+      const grid = startDragOn(container, 0);
+      // jsdom reports a zero rect, so clientX maps straight to the day column (Oct 20)
+      fireEvent.mouseMove(grid, { clientX: 5 * 80 + 10 });
+
+      expect(screen.getByTestId('drag-preview-301')).toHaveTextContent('Oct 20');
+      expect(container.querySelectorAll('[data-drag-preview]')).toHaveLength(1);
+      expect(screen.queryByTestId('drag-preview-302')).not.toBeInTheDocument();
+    });
+
+    it('should move subtasks along in the preview when shiftSubtasks is on', () => {
+      const { container } = render(
+        <GanttChart rows={rows} startDate={startDate} endDate={endDate} currentUserId="user1" shiftSubtasks />
+      );
+
+      const grid = startDragOn(container, 0);
+      fireEvent.mouseMove(grid, { clientX: 5 * 80 + 10 });
+
+      expect(screen.getByTestId('drag-preview-302')).toHaveTextContent('Oct 19');
+      expect(container.querySelectorAll('[data-drag-preview]')).toHaveLength(2);
+    });
+
+    it('should clear the preview and skip saving when dropped on the current deadline', async () => {
+      const onChangeDeadline = vi.fn();
+      const { container } = render(
+        <GanttChart
+          rows={rows}
+          startDate={startDate}
+          endDate={endDate}
+          currentUserId="user1"
+          onChangeDeadline={onChangeDeadline}
+        />
+      );
+
+      const grid = startDragOn(container, 0);
+      fireEvent.mouseMove(grid, { clientX: 7 * 80 + 10 });
+      fireEvent.mouseUp(grid, { clientX: 7 * 80 + 10 });
+
+      expect(container.querySelector('[data-drag-preview]')).not.toBeInTheDocument();
+      expect(onChangeDeadline).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('zoom and virtualization', () => {
+    const manyRows = (count: number): GanttRow[] =>
+      Array.from({ length: count }, (_, i) => ({
+        assigneeId: `user${i}`,
+        assigneeName: `Person ${i}`,
+        tasks: [{ ...mockActiveTasks[0], id: 1000 + i, assignee: { id: `user${i}`, name: `Person ${i}` } }],
+      }));
+
+    // Give the scroll container a real size so only part of the chart is rendered
+    const mockViewport = (width: number, height: number) => {
+      vi.spyOn(HTMLElement.prototype, 'clientWidth', 'get').mockReturnValue(width);
+      vi.spyOn(HTMLElement.prototype, 'clientHeight', 'get').mockReturnValue(height);
+    };
+
+    const scrollTo = (container: HTMLElement, position: { left?: number; top?: number }) => {
+      const el = screen.getByTestId('gantt-scroll');
+      if (position.left !== undefined) el.scrollLeft = position.left;
+      if (position.top !== undefined) el.scrollTop = position.top;
+      fireEvent.scroll(el);
+      return container;
+    };
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should show ranges longer than 60 days without a warning', () => {
+      render(<GanttChart rows={mockRows} startDate={startDate} endDate={addDays(startDate, 119)} />);
+
+      expect(screen.getByText(format(addDays(startDate, 119), 'MMM d'))).toBeInTheDocument();
+      expect(screen.queryByText(/exceeds/)).not.toBeInTheDocument();
+    });
+
+    it('should narrow the day columns when zooming out', () => {
+      const { container } = render(<GanttChart rows={mockRows} startDate={startDate} endDate={endDate} />);
+      const barWidth = () => parseFloat((container.querySelector('.bg-primary\\/20') as HTMLElement).style.width);
+
+      const weekWidth = barWidth();
+      fireEvent.click(screen.getByRole('button', { name: 'Month' }));
+
+      expect(screen.getByRole('button', { name: 'Month' })).toHaveAttribute('aria-pressed', 'true');
+      expect(barWidth()).toBeCloseTo((weekWidth * 28) / 80);
+    });
+
+    it('should label months instead of days at quarter zoom', () => {
+      render(<GanttChart rows={mockRows} startDate={startDate} endDate={endDate} defaultZoom="quarter" />);
+
+      expect(screen.getByText('Oct 2025')).toBeInTheDocument();
+      expect(screen.queryByText('Oct 15')).not.toBeInTheDocument();
+    });
+
+    it('should render only the rows in view', () => {
+      mockViewport(1000, 400);
+      const { container } = render(<GanttChart rows={manyRows(300)} startDate={startDate} endDate={endDate} />);
+
+      const rendered = container.querySelectorAll('[data-testid^="gantt-row-"]');
+      expect(rendered.length).toBeGreaterThan(0);
+      expect(rendered.length).toBeLessThan(30);
+      expect(screen.queryByText('Person 250')).not.toBeInTheDocument();
+
+      // Every row is 64px plus a 1px border
+      scrollTo(container, { top: 250 * 65 });
+
+      expect(screen.getByText('Person 250')).toBeInTheDocument();
+      expect(screen.queryByText('Person 0')).not.toBeInTheDocument();
+    });
+
+    it('should render only the days in view over a year-long range', () => {
+      mockViewport(1000, 400);
+      const yearEnd = addDays(startDate, 364);
+      const { container } = render(<GanttChart rows={mockRows} startDate={startDate} endDate={yearEnd} />);
+
+      expect(screen.getByText('Oct 15')).toBeInTheDocument();
+      expect(screen.queryByText(format(yearEnd, 'MMM d'))).not.toBeInTheDocument();
+
+      scrollTo(container, { left: 364 * 80 });
+
+      expect(screen.getByText(format(yearEnd, 'MMM d'))).toBeInTheDocument();
+      expect(screen.queryByText('Oct 15')).not.toBeInTheDocument();
+    });
+
+    it('should mark today and scroll to it', () => {
+      mockViewport(1000, 400);
+      const rangeStart = addDays(today, -200);
+      render(<GanttChart rows={mockRows} startDate={rangeStart} endDate={addDays(today, 100)} />);
+
+      expect(screen.getByTestId('today-marker')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Today' }));
+
+      // Today's column is centred in the 800px left of the assignee column
+      expect(screen.getByTestId('gantt-scroll').scrollLeft).toBe(200 * 80 + 40 - 400);
+      expect(screen.getByText(format(today, 'MMM d'))).toBeInTheDocument();
+    });
+
+    it('should disable scrolling to today when today is outside the range', () => {
+      render(<GanttChart rows={mockRows} startDate={addDays(today, 10)} endDate={addDays(today, 20)} />);
+
+      expect(screen.queryByTestId('today-marker')).not.toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Today' })).toBeDisabled();
+    });
   });
+});
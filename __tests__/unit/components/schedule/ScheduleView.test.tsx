@@ -20,6 +20,17 @@ vi.mock('@/components/schedule/GanttChart', () => ({
   ),
 }));
 
+vi.mock('@/components/schedule/WorkloadHeatmap', () => ({
+  WorkloadHeatmap: ({ workload, canEditOthers, onChangeCapacity }: any) => (
+    <div data-testid="workload-heatmap" data-can-edit-others={String(!!canEditOthers)}>
+      {(workload?.users || []).map((u: any) => (
+        <div key={u.userId}>{u.name}: {u.weeklyCapacity}</div>
+      ))}
+      <button onClick={() => onChangeCapacity && onChangeCapacity('user1', 30)}>Test Capacity Change</button>
+    </div>
+  ),
+}));
+
 vi.mock('@/components/filters/date-range-selector', () => ({
   DateRangeFilter: ({ value, onChange }: any) => (
     <div data-testid="date-range-selector">
@@ -68,7 +79,7 @@ vi.mock('@/components/filters/staff-selector', () => ({
 
 vi.mock('@/components/ui/button', () => ({
   Button: ({ onClick, children, disabled }: any) => (
-    <button onClick={onClick} disabled={disabled} data-testid="refresh-button">
+    <button onClick={onClick} disabled={disabled} data-testid={children === 'Refresh' ? 'refresh-button' : undefined}>
       {children}
     </button>
   ),
@@ -716,4 +727,88 @@ describe('ScheduleView', () => {
       });
     });
   });
+
+  describe('Workload View', () => {
+    const workload = {
+      users: [{ userId: 'user1', name: 'John Doe', weeklyCapacity: 40, days: [], overCapacityDays: 0 }],
+      suggestions: [],
+      canSuggest: false,
+    };
+
+    beforeEach(() => {
+      const defaultImplementation = fetchSpy.getMockImplementation();
+      fetchSpy.mockImplementation((url: string | URL | Request, init?: RequestInit) => {
+        if (url.toString().includes('/api/schedule/workload')) {
+          return Promise.resolve({ ok: true, json: async () => (init?.method === 'PATCH' ? {} : workload) } as any);
+        }
+        return defaultImplementation(url, init);
+      });
+    });
+
+    it('should load the workload heatmap with the same filters', async () => {
+      render(<ScheduleView />);
+
+      fireEvent.click(screen.getByText('Workload'));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('workload-heatmap')).toBeInTheDocument();
+        expect(screen.getByText('John Doe: 40')).toBeInTheDocument();
+      });
+      expect(screen.queryByTestId('gantt-chart')).not.toBeInTheDocument();
+
+      const workloadCall = fetchSpy.mock.calls.find((call: any[]) => call[0].toString().includes('/api/schedule/workload'));
+      expect(workloadCall[0]).toContain('startDate=');
+      expect(workloadCall[0]).toContain('endDate=');
+    });
+
+    it('should save capacity changes and reload the workload', async () => {
+      render(<ScheduleView />);
+
+      fireEvent.click(screen.getByText('Workload'));
+      await waitFor(() => expect(screen.getByTestId('workload-heatmap')).toBeInTheDocument());
+
+      fireEvent.click(screen.getByText('Test Capacity Change'));
+
+      await waitFor(() => {
+        const patch = fetchSpy.mock.calls.find((call: any[]) => call[1]?.method === 'PATCH');
+        expect(patch[0]).toBe('/api/schedule/workload');
+        expect(JSON.parse(patch[1].body)).toEqual({ userId: 'user1', weeklyCapacity: 30 });
+      });
+    });
+  });
+
+  describe('Rescheduling', () => {
+    const withPatchResponse = (patchResponse: any) => {
+      const defaultImplementation = fetchSpy.getMockImplementation();
+      fetchSpy.mockImplementation((url: string | URL | Request, init?: RequestInit) =>
+        init?.method === 'PATCH' ? Promise.resolve(patchResponse) : defaultImplementation(url, init)
+      );
+    };
+
+    it('should send shiftSubtasks when moving subtasks with the parent', async () => {
+      withPatchResponse({ ok: true, json: async () => ({ id: 1, shiftedSubtasks: [], skippedSubtaskIds: [4, 5] }) });
+      render(<ScheduleView />);
+
+      fireEvent.click(screen.getByLabelText('Move subtasks with parent'));
+      fireEvent.click(await screen.findByText('Test Deadline Change'));
+
+      await waitFor(() => {
+        const patch = fetchSpy.mock.calls.find((call: any[]) => call[1]?.method === 'PATCH');
+        expect(JSON.parse(patch[1].body)).toMatchObject({ taskId: 1, shiftSubtasks: true });
+      });
+      expect(await screen.findByText('2 subtask(s) you cannot edit were not moved.')).toBeInTheDocument();
+    });
+
+    it('should show the error from the server when the move is rejected', async () => {
+      withPatchResponse({
+        ok: false,
+        json: async () => ({ error: 'You do not have permission to update this task' }),
+      });
+      render(<ScheduleView />);
+
+      fireEvent.click(await screen.findByText('Test Deadline Change'));
+
+      expect(await screen.findByText('You do not have permission to update this task')).toBeInTheDocument();
+    });
+  });
 });
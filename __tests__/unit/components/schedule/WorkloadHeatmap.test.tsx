@@ -0,0 +1,89 @@
+import React from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { WorkloadHeatmap } from '@/components/schedule/WorkloadHeatmap';
+import type { WorkloadOverview } from '@/lib/types/workload';
+
+const day = (date: string, load: number, capacity = 8) => ({
+  date,
+  load,
+  capacity,
+  overCapacity: load > capacity,
+  taskIds: load > 0 ? [1] : [],
+});
+
+const workload: WorkloadOverview = {
+  users: [
+    {
+      userId: 'ada',
+      name: 'Ada Lovelace',
+      weeklyCapacity: 40,
+      days: [day('2030-01-07T00:00:00.000Z', 5), day('2030-01-08T00:00:00.000Z', 13)],
+      overCapacityDays: 1,
+    },
+    {
+      userId: 'grace',
+      name: 'Grace Hopper',
+      weeklyCapacity: 40,
+      days: [day('2030-01-07T00:00:00.000Z', 0), day('2030-01-08T00:00:00.000Z', 0)],
+      overCapacityDays: 0,
+    },
+  ],
+  suggestions: [
+    {
+      taskId: 1,
+      taskTitle: 'Write spec',
+      fromUserId: 'ada',
+      fromUserName: 'Ada Lovelace',
+      toUserId: 'grace',
+      toUserName: 'Grace Hopper',
+      relievedDates: ['2030-01-08T00:00:00.000Z'],
+    },
+  ],
+  canSuggest: true,
+};
+
+describe('WorkloadHeatmap', () => {
+  it('should highlight days over capacity', () => {
+    render(<WorkloadHeatmap workload={workload} />);
+
+    const row = screen.getByTestId('workload-row-ada');
+    const over = row.querySelectorAll('[data-over-capacity]');
+    expect(over).toHaveLength(1);
+    expect(over[0]).toHaveTextContent('13.0');
+    expect(screen.getByText('1 day(s) over capacity')).toBeInTheDocument();
+  });
+
+  it('should list reassignment suggestions for managers', () => {
+    render(<WorkloadHeatmap workload={workload} />);
+
+    expect(screen.getByText('Suggested reassignments')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Write spec' })).toHaveAttribute('href', '/tasks/1');
+    expect(screen.getAllByText('Grace Hopper').length).toBeGreaterThan(1);
+  });
+
+  it('should hide suggestions when they are not available', () => {
+    render(<WorkloadHeatmap workload={{ ...workload, suggestions: [], canSuggest: false }} />);
+
+    expect(screen.queryByText('Suggested reassignments')).not.toBeInTheDocument();
+  });
+
+  it('should only let users edit their own capacity unless they can edit others', async () => {
+    const onChangeCapacity = vi.fn();
+    render(<WorkloadHeatmap workload={workload} currentUserId="ada" onChangeCapacity={onChangeCapacity} />);
+
+    expect(screen.queryByLabelText('Edit weekly capacity of Grace Hopper')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Edit weekly capacity of Ada Lovelace'));
+    fireEvent.change(screen.getByLabelText('Weekly capacity of Ada Lovelace'), { target: { value: '30' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    await waitFor(() => expect(onChangeCapacity).toHaveBeenCalledWith('ada', 30));
+  });
+
+  it('should show an empty state', () => {
+    render(<WorkloadHeatmap workload={{ users: [], suggestions: [], canSuggest: false }} />);
+
+    expect(screen.getByText('No assigned tasks in this period.')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,81 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { EditableDescription } from '@/components/tasks/editable-description';
+
+describe('EditableDescription', () => {
+  const description = '## Checklist\n- [ ] Draft\n- [x] Review\n\nSee [docs](https://example.com)';
+
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn().mockImplementation(async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string);
+      return { ok: true, json: async () => ({ id: 1, description: body.description }) };
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should render the description as Markdown', () => {
+    render(<EditableDescription taskId={1} initialDescription={description} />);
+
+    expect(screen.getByRole('heading', { name: 'Checklist' })).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'docs' })).toHaveAttribute('href', 'https://example.com');
+    expect(screen.getAllByRole('checkbox')).toHaveLength(2);
+  });
+
+  it('should show raw HTML as text and drop script links', () => {
+    render(<EditableDescription taskId={1} initialDescription={'<b>bold</b> [x](javascript:alert(1))'} />);
+
+    expect(screen.getByText(/<b>bold<\/b>/)).toBeInTheDocument();
+    expect(screen.getByText('x').closest('a')).not.toHaveAttribute('href', 'javascript:alert(1)');
+  });
+
+  it('should toggle a checklist item in place and save it', async () => {
+    const onDescriptionUpdate = vi.fn();
+    render(
+      <EditableDescription taskId={1} initialDescription={description} onDescriptionUpdate={onDescriptionUpdate} />
+    );
+
+    fireEvent.click(screen.getAllByRole('checkbox')[0]);
+
+    await waitFor(() =>
+      expect(onDescriptionUpdate).toHaveBeenCalledWith(description.replace('- [ ] Draft', '- [x] Draft'))
+    );
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+      action: 'updateDescription',
+      description: description.replace('- [ ] Draft', '- [x] Draft'),
+    });
+    expect(screen.getAllByRole('checkbox')[0]).toBeChecked();
+    // Toggling does not open the editor
+    expect(screen.queryByRole('textbox')).not.toBeInTheDocument();
+  });
+
+  it('should revert the checkbox when saving fails', async () => {
+    fetchMock.mockResolvedValue({ ok: false, json: async () => ({ error: 'No permission' }) });
+    render(<EditableDescription taskId={1} initialDescription={description} />);
+
+    fireEvent.click(screen.getAllByRole('checkbox')[1]);
+
+    expect(await screen.findByText('No permission')).toBeInTheDocument();
+    expect(screen.getAllByRole('checkbox')[1]).toBeChecked();
+  });
+
+  it('should preview the Markdown being written', () => {
+    render(<EditableDescription taskId={1} initialDescription={null} />);
+
+    fireEvent.click(screen.getByText('Add a description...'));
+    fireEvent.change(screen.getByRole('textbox'), { target: { value: '**Bold** text' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Preview' }));
+
+    expect(screen.getByText('Bold').tagName).toBe('STRONG');
+    expect(screen.queryByRole('textbox')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Write' }));
+    expect(screen.getByRole('textbox')).toHaveValue('**Bold** text');
+  });
+});
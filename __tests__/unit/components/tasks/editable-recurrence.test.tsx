@@ -0,0 +1,89 @@
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { EditableRecurrence } from '@/components/tasks/editable-recurrence';
+
+describe('EditableRecurrence', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should describe a stored rule', () => {
+    render(
+      <EditableRecurrence
+        taskId={1}
+        recurrenceInterval={14}
+        recurrenceDate="2099-01-05T00:00:00.000Z"
+        recurrenceRule="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+      />
+    );
+
+    expect(screen.getByText('Every 2 weeks on Mon, Thu')).toBeInTheDocument();
+  });
+
+  it('should fall back to the legacy interval when there is no rule', () => {
+    render(<EditableRecurrence taskId={1} recurrenceInterval={30} recurrenceDate={null} />);
+
+    expect(screen.getByText('Monthly')).toBeInTheDocument();
+  });
+
+  it('should edit weekdays of a custom rule and save it', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        success: true,
+        recurrence: {
+          id: 1,
+          recurrence_interval: 14,
+          recurrence_date: '2099-01-05T00:00:00.000Z',
+          recurrence_rule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH,FR',
+        },
+      }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    render(
+      <EditableRecurrence
+        taskId={1}
+        recurrenceInterval={14}
+        recurrenceDate="2099-01-05T00:00:00.000Z"
+        recurrenceRule="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+      />
+    );
+
+    fireEvent.click(screen.getByLabelText('Edit recurrence'));
+    expect(screen.getByRole('button', { name: 'Th' })).toHaveAttribute('aria-pressed', 'true');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Fr' }));
+    expect(screen.getByTestId('recurrence-summary')).toHaveTextContent('Every 2 weeks on Mon, Thu, Fri');
+
+    fireEvent.click(screen.getByRole('button', { name: /Save/ }));
+
+    expect(await screen.findByLabelText('Edit recurrence')).toBeInTheDocument();
+    expect(screen.getByText('Every 2 weeks on Mon, Thu, Fri')).toBeInTheDocument();
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+      action: 'updateRecurrence',
+      recurrenceRule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH,FR',
+      recurrenceDate: '2099-01-05T00:00:00.000Z',
+    });
+  });
+
+  it('should show API errors', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({
+        ok: false,
+        json: async () => ({ error: 'Invalid RRULE: COUNT must be at least 1' }),
+      })
+    );
+
+    render(
+      <EditableRecurrence taskId={1} recurrenceInterval={7} recurrenceDate="2099-01-05T00:00:00.000Z" />
+    );
+
+    fireEvent.click(screen.getByLabelText('Edit recurrence'));
+    fireEvent.click(screen.getByRole('button', { name: /Save/ }));
+
+    expect(await screen.findByText('Invalid RRULE: COUNT must be at least 1')).toBeInTheDocument();
+  });
+});
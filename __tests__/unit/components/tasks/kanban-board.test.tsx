@@ -0,0 +1,123 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import KanbanBoard from '@/components/tasks/kanban-board';
+import type { Task } from '@/lib/types/tasks';
+
+const refreshMock = vi.fn();
+const pushMock = vi.fn();
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ push: pushMock, refresh: refreshMock }),
+}));
+
+describe('KanbanBoard', () => {
+  const createTask = (id: number, title: string, status: Task['status'], overrides: Partial<Task> = {}): Task => ({
+    id,
+    title,
+    description: null,
+    status,
+    priority: 5,
+    deadline: '2025-12-01T00:00:00.000Z',
+    notes: null,
+    recurrence_interval: 0,
+    recurrence_date: null,
+    project: { id: 1, name: 'Alpha' },
+    creator: { creator_id: 'user1', user_info: { first_name: 'John', last_name: 'Doe' } },
+    subtasks: [],
+    assignees: [{ assignee_id: 'user1', user_info: { first_name: 'John', last_name: 'Doe' } }],
+    tags: [],
+    attachments: [],
+    isOverdue: false,
+    ...overrides,
+  });
+
+  const tasks = [
+    createTask(1, 'Write spec', 'To Do'),
+    createTask(2, 'Build API', 'In Progress', { project: { id: 2, name: 'Beta' } }),
+    createTask(3, 'Fix login', 'Blocked'),
+    createTask(4, 'Ship v1', 'Completed'),
+  ];
+
+  const dataTransfer = () => {
+    const store: Record<string, string> = {};
+    return {
+      setData: (type: string, value: string) => {
+        store[type] = value;
+      },
+      getData: (type: string) => store[type] ?? '',
+      dropEffect: 'none',
+      effectAllowed: 'all',
+    };
+  };
+
+  const dragCardTo = (title: string, status: Task['status']) => {
+    const dt = dataTransfer();
+    fireEvent.dragStart(screen.getByText(title).closest('[draggable]')!, { dataTransfer: dt });
+    const column = screen.getByTestId(`kanban-column-${status}`);
+    fireEvent.dragOver(column, { dataTransfer: dt });
+    fireEvent.drop(column, { dataTransfer: dt });
+  };
+
+  beforeEach(() => {
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders one column per status with its tasks', () => {
+    render(<KanbanBoard tasks={tasks} />);
+
+    expect(within(screen.getByTestId('kanban-column-To Do')).getByText('Write spec')).toBeInTheDocument();
+    expect(within(screen.getByTestId('kanban-column-In Progress')).getByText('Build API')).toBeInTheDocument();
+    expect(within(screen.getByTestId('kanban-column-Blocked')).getByText('Fix login')).toBeInTheDocument();
+    expect(within(screen.getByTestId('kanban-column-Completed')).getByText('Ship v1')).toBeInTheDocument();
+  });
+
+  it('updates status through the tasks API when a card is dropped on another column', async () => {
+    (global.fetch as any).mockResolvedValue({ ok: true, json: async () => ({ id: 1, status: 'In Progress' }) });
+
+    render(<KanbanBoard tasks={tasks} />);
+    dragCardTo('Write spec', 'In Progress');
+
+    await waitFor(() => {
+      expect(global.fetch).toHaveBeenCalledWith('/api/tasks/1', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'updateStatus', status: 'In Progress' }),
+      });
+    });
+    expect(within(screen.getByTestId('kanban-column-In Progress')).getByText('Write spec')).toBeInTheDocument();
+    await waitFor(() => expect(refreshMock).toHaveBeenCalled());
+  });
+
+  it('does not call the API when a card is dropped on its own column', () => {
+    render(<KanbanBoard tasks={tasks} />);
+    dragCardTo('Write spec', 'To Do');
+
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('reverts the card and shows the error when the update fails', async () => {
+    (global.fetch as any).mockResolvedValue({
+      ok: false,
+      json: async () => ({ error: 'You do not have permission to update this task' }),
+    });
+
+    render(<KanbanBoard tasks={tasks} />);
+    dragCardTo('Write spec', 'Completed');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('You do not have permission to update this task');
+    expect(within(screen.getByTestId('kanban-column-To Do')).getByText('Write spec')).toBeInTheDocument();
+    expect(refreshMock).not.toHaveBeenCalled();
+  });
+
+  it('navigates to the task detail page when a card is clicked', () => {
+    render(<KanbanBoard tasks={tasks} />);
+    fireEvent.click(screen.getByText('Fix login'));
+
+    expect(pushMock).toHaveBeenCalledWith('/tasks/3');
+  });
+});
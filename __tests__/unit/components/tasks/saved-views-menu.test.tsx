@@ -0,0 +1,79 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { SavedViewsMenu } from '@/components/tasks/saved-views-menu';
+
+describe('SavedViewsMenu', () => {
+  const views = [
+    {
+      id: 1,
+      user_id: 'user-1',
+      name: 'My open work',
+      query: 'status=To+Do',
+      shared_department_id: 5,
+      created_at: '2025-01-01T00:00:00Z',
+      updated_at: '2025-01-01T00:00:00Z',
+      owner_name: 'Ada Lovelace',
+      is_owner: true,
+      is_default: true,
+    },
+    {
+      id: 2,
+      user_id: 'user-2',
+      name: 'Team backlog',
+      query: 'tag=backlog',
+      shared_department_id: 5,
+      created_at: '2025-01-01T00:00:00Z',
+      updated_at: '2025-01-01T00:00:00Z',
+      owner_name: 'Grace Hopper',
+      is_owner: false,
+      is_default: false,
+    },
+  ];
+
+  const ok = (body: unknown) => ({ ok: true, json: async () => body });
+
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn().mockResolvedValue(ok({ views }));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should list own and shared views and apply one', async () => {
+    const onApply = vi.fn();
+    render(<SavedViewsMenu currentQuery="" onApply={onApply} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /Views/ }));
+
+    expect(await screen.findByText('Team backlog')).toBeInTheDocument();
+    expect(screen.getByText('Grace Hopper')).toBeInTheDocument();
+    expect(screen.getByText('Shared')).toBeInTheDocument();
+    expect(screen.getByLabelText('Unset My open work as default')).toBeInTheDocument();
+    expect(screen.queryByLabelText('Delete Team backlog')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Team backlog'));
+    expect(onApply).toHaveBeenCalledWith('tag=backlog');
+  });
+
+  it('should save the current query as a view', async () => {
+    render(<SavedViewsMenu currentQuery="status=Blocked" onApply={vi.fn()} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /Views/ }));
+    await screen.findByText('My open work');
+
+    fetchMock.mockResolvedValueOnce(ok({ success: true, view: views[0] }));
+    fireEvent.change(screen.getByPlaceholderText('View name'), { target: { value: 'Blocked' } });
+    fireEvent.click(screen.getByLabelText('Share with my department'));
+    fireEvent.click(screen.getByRole('button', { name: 'Save view' }));
+
+    await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(3));
+    const [url, init] = fetchMock.mock.calls[1];
+    expect(url).toBe('/api/tasks/views');
+    expect(JSON.parse(init.body)).toEqual({ name: 'Blocked', query: 'status=Blocked', shared: true, isDefault: false });
+  });
+});
@@ -0,0 +1,74 @@
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { TaskActivityTimeline, describeActivity } from '@/components/tasks/task-activity';
+import type { TaskActivity } from '@/lib/types/tasks';
+
+describe('TaskActivityTimeline', () => {
+  const createEntry = (overrides: Partial<TaskActivity>): TaskActivity => ({
+    id: 1,
+    task_id: 10,
+    actor_id: 'user1',
+    field: 'status',
+    old_value: 'To Do',
+    new_value: 'In Progress',
+    created_at: '2025-01-01T10:00:00.000Z',
+    actor: { first_name: 'John', last_name: 'Doe' },
+    ...overrides,
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should render fetched activity entries with the actor', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ activity: [createEntry({})] }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    render(<TaskActivityTimeline taskId={10} />);
+
+    expect(await screen.findByText('John Doe')).toBeInTheDocument();
+    expect(screen.getByText(/changed status from To Do to In Progress/)).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith('/api/tasks/10/activity');
+  });
+
+  it('should show an empty state when nothing has changed', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({ ok: true, json: async () => ({ activity: [] }) })
+    );
+
+    render(<TaskActivityTimeline taskId={10} />);
+
+    expect(await screen.findByText('No changes recorded yet.')).toBeInTheDocument();
+  });
+
+  it('should show the API error', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({ ok: false, json: async () => ({ error: 'Task not found' }) })
+    );
+
+    render(<TaskActivityTimeline taskId={10} />);
+
+    expect(await screen.findByText('Task not found')).toBeInTheDocument();
+  });
+
+  it('should describe set-like and archive changes', () => {
+    expect(describeActivity(createEntry({ field: 'tags', old_value: null, new_value: 'urgent' }))).toBe(
+      'added tag "urgent"'
+    );
+    expect(
+      describeActivity(createEntry({ field: 'assignees', old_value: 'Jane Roe', new_value: null }))
+    ).toBe('removed assignee "Jane Roe"');
+    expect(describeActivity(createEntry({ field: 'archived', old_value: 'false', new_value: 'true' }))).toBe(
+      'archived the task'
+    );
+    expect(describeActivity(createEntry({ field: 'recurrence', old_value: '0', new_value: '7' }))).toBe(
+      'changed recurrence from None to Weekly'
+    );
+  });
+});
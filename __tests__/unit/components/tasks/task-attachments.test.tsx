@@ -0,0 +1,184 @@
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { TaskAttachments } from '@/components/tasks/task-attachments';
+import type { TaskAttachment } from '@/lib/types/tasks';
+
+describe('TaskAttachments', () => {
+  const createAttachment = (overrides: Partial<TaskAttachment>): TaskAttachment => ({
+    id: 1,
+    storage_path: 'tasks/10/0b5c6a8e-8f3d-4c1e-9a55-1f2e3d4c5b6a-report.pdf',
+    file_name: 'report.pdf',
+    size_bytes: 2048,
+    content_type: 'application/pdf',
+    uploaded_at: '2025-01-01T10:00:00.000Z',
+    document_id: 1,
+    version: 1,
+    ...overrides,
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should link each file to the signed-download route with its original name and size', () => {
+    render(<TaskAttachments taskId={10} initialAttachments={[createAttachment({})]} />);
+
+    const link = screen.getByRole('link', { name: 'report.pdf' });
+    expect(link).toHaveAttribute('href', '/api/tasks/10/attachments/1');
+    expect(screen.getByText('2 KB')).toBeInTheDocument();
+  });
+
+  it('should preview PDFs inline', async () => {
+    const user = userEvent.setup();
+    render(<TaskAttachments taskId={10} initialAttachments={[createAttachment({})]} />);
+
+    await user.click(screen.getByRole('button', { name: 'Preview report.pdf' }));
+
+    expect(screen.getByTitle('Preview of report.pdf')).toHaveAttribute('src', '/api/tasks/10/attachments/1');
+
+    await user.click(screen.getByRole('button', { name: 'Hide preview of report.pdf' }));
+    expect(screen.queryByTitle('Preview of report.pdf')).not.toBeInTheDocument();
+  });
+
+  it('should preview CSV files as a table', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      text: async () => 'name,hours\n"Lee, Ann",3\n',
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const user = userEvent.setup();
+    render(
+      <TaskAttachments
+        taskId={10}
+        initialAttachments={[createAttachment({ id: 2, file_name: 'hours.csv', content_type: 'text/csv' })]}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Preview hours.csv' }));
+
+    expect(await screen.findByRole('cell', { name: 'Lee, Ann' })).toBeInTheDocument();
+    expect(screen.getByRole('columnheader', { name: 'hours' })).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith('/api/tasks/10/attachments/2');
+  });
+
+  it('should preview text files', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, text: async () => 'meeting notes' }));
+    const user = userEvent.setup();
+    render(
+      <TaskAttachments
+        taskId={10}
+        initialAttachments={[createAttachment({ id: 3, file_name: 'notes.txt', content_type: 'text/plain' })]}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Preview notes.txt' }));
+
+    expect(await screen.findByText('meeting notes')).toBeInTheDocument();
+  });
+
+  it('should not offer previews for Word documents', () => {
+    render(
+      <TaskAttachments
+        taskId={10}
+        initialAttachments={[
+          createAttachment({
+            file_name: 'spec.docx',
+            content_type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+          }),
+        ]}
+      />
+    );
+
+    expect(screen.queryByRole('button', { name: /Preview/ })).not.toBeInTheDocument();
+  });
+
+  it('should fall back to the storage path for older attachments', () => {
+    render(
+      <TaskAttachments
+        taskId={10}
+        initialAttachments={[
+          createAttachment({
+            storage_path: 'tasks/10/1700000000000-0-photo.png',
+            file_name: null,
+            size_bytes: null,
+            content_type: null,
+          }),
+        ]}
+      />
+    );
+
+    expect(screen.getByRole('link', { name: 'photo.png' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Preview photo.png' })).toBeInTheDocument();
+  });
+
+  it('should show who uploaded each version and restore an older one', async () => {
+    const versions = [
+      {
+        ...createAttachment({ id: 4, version: 2 }),
+        is_current: true,
+        uploaded_by: 'u2',
+        uploader: { first_name: 'Bob', last_name: 'Lee' },
+      },
+      {
+        ...createAttachment({ id: 1, version: 1, uploaded_at: '2024-12-01T10:00:00.000Z' }),
+        is_current: false,
+        uploaded_by: 'u1',
+        uploader: { first_name: 'Ann', last_name: 'Tan' },
+      },
+    ];
+    const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+      if (url.endsWith('/versions')) {
+        return { ok: true, json: async () => ({ versions }) };
+      }
+      if (init?.method === 'PATCH') {
+        return { ok: true, json: async () => ({ success: true, attachment: versions[1] }) };
+      }
+      return { ok: true, json: async () => ({ attachments: [createAttachment({ id: 1, version_count: 2 })] }) };
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const user = userEvent.setup();
+    render(
+      <TaskAttachments taskId={10} initialAttachments={[createAttachment({ id: 4, version: 2, version_count: 2 })]} />
+    );
+
+    expect(screen.getByText('v2')).toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Show versions of report.pdf' }));
+
+    expect(await screen.findByText(/Ann Tan/)).toBeInTheDocument();
+    expect(screen.getByText(/Bob Lee/)).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'v1 · report.pdf' })).toHaveAttribute('href', '/api/tasks/10/attachments/1');
+
+    await user.click(screen.getByRole('button', { name: 'Restore version 1' }));
+
+    const restoreCall = fetchMock.mock.calls.find(([, init]) => init?.method === 'PATCH');
+    expect(JSON.parse(restoreCall![1]!.body as string)).toEqual({
+      action: 'restoreAttachmentVersion',
+      attachment_id: 1,
+    });
+    expect(await screen.findByRole('link', { name: 'report.pdf' })).toHaveAttribute('href', '/api/tasks/10/attachments/1');
+  });
+
+  it('should upload a new version of an attachment', async () => {
+    const fetchMock = vi.fn(async (_url: string, init?: RequestInit) => {
+      if (init?.method === 'PATCH') {
+        return { ok: true, json: async () => ({ success: true, attachment: createAttachment({ id: 5, version: 2 }) }) };
+      }
+      return { ok: true, json: async () => ({ attachments: [createAttachment({ id: 5, version: 2, version_count: 2 })] }) };
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const user = userEvent.setup();
+    render(<TaskAttachments taskId={10} initialAttachments={[createAttachment({})]} />);
+
+    await user.click(screen.getByRole('button', { name: 'Upload new version of report.pdf' }));
+    const file = new File(['%PDF-1.7 v2'], 'report.pdf', { type: 'application/pdf' });
+    await user.upload(screen.getByTestId('attachment-version-input'), file);
+
+    const body = fetchMock.mock.calls[0][1]!.body as FormData;
+    expect(body.get('action')).toBe('addAttachmentVersion');
+    expect(body.get('attachment_id')).toBe('1');
+    expect(body.get('file_0')).toBeInstanceOf(File);
+    expect(await screen.findByText('v2')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,100 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { TaskComments } from '@/components/tasks/task-comments';
+
+describe('TaskComments mentions', () => {
+  const ann = { id: 'user2', first_name: 'Ann', last_name: 'Lee' };
+  const bob = { id: 'user3', first_name: 'Bob', last_name: 'Tan' };
+
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn().mockImplementation(async (url: string, init?: RequestInit) => {
+      if (url === '/api/user/mentionable') {
+        return { ok: true, json: async () => ({ users: [{ id: 'user1', first_name: 'Me', last_name: 'Self' }, ann, bob] }) };
+      }
+      const body = JSON.parse(init!.body as string);
+      return {
+        ok: true,
+        json: async () => ({
+          success: true,
+          comment: { id: 2, content: body.content, created_at: '2025-01-01T10:00:00.000Z', user_id: 'user1' },
+        }),
+      };
+    });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const type = (textarea: HTMLElement, value: string) =>
+    fireEvent.change(textarea, { target: { value, selectionStart: value.length } });
+
+  it('should suggest users after @ and send the picked mention', async () => {
+    render(<TaskComments taskId={10} comments={[]} currentUserId="user1" isAdmin={false} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /Add Comment/ }));
+    await waitFor(() => expect(fetchMock).toHaveBeenCalledWith('/api/user/mentionable'));
+
+    const textarea = screen.getByPlaceholderText(/Type @ to mention someone/);
+    type(textarea, 'Hi @a');
+
+    const option = await screen.findByRole('option', { name: '@Ann Lee' });
+    expect(screen.queryByRole('option', { name: '@Me Self' })).not.toBeInTheDocument();
+    fireEvent.mouseDown(option);
+
+    expect(textarea).toHaveValue('Hi @Ann Lee ');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Post Comment' }));
+
+    await waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+    expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({
+      action: 'addComment',
+      content: 'Hi @Ann Lee ',
+      mentions: ['user2'],
+    });
+  });
+
+  it('should pick the highlighted suggestion with the keyboard', async () => {
+    render(<TaskComments taskId={10} comments={[]} currentUserId="user1" isAdmin={false} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /Add Comment/ }));
+    const textarea = screen.getByPlaceholderText(/Type @ to mention someone/);
+    await waitFor(() => expect(fetchMock).toHaveBeenCalledWith('/api/user/mentionable'));
+
+    type(textarea, '@');
+    await screen.findByRole('option', { name: '@Ann Lee' });
+    fireEvent.keyDown(textarea, { key: 'ArrowDown' });
+    fireEvent.keyDown(textarea, { key: 'Enter' });
+
+    expect(textarea).toHaveValue('@Bob Tan ');
+    expect(screen.queryByRole('listbox')).not.toBeInTheDocument();
+  });
+
+  it('should highlight stored mentions', () => {
+    render(
+      <TaskComments
+        taskId={10}
+        comments={[
+          {
+            id: 1,
+            content: 'Ping @Ann Lee',
+            created_at: '2025-01-01T10:00:00.000Z',
+            user_id: 'user3',
+            user_info: { first_name: 'Bob', last_name: 'Tan' },
+            mentions: [ann],
+          },
+        ]}
+        currentUserId="user1"
+        isAdmin={false}
+      />
+    );
+
+    const mention = screen.getByText('@Ann Lee');
+    expect(mention.tagName).toBe('SPAN');
+    expect(mention.className).toContain('text-blue-700');
+  });
+});
@@ -0,0 +1,68 @@
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { TaskDependencies } from '@/components/tasks/task-dependencies';
+import type { TaskDependencies as TaskDependenciesData } from '@/lib/types/tasks';
+
+describe('TaskDependencies', () => {
+  const dependencies: TaskDependenciesData = {
+    blockers: [
+      { id: 2, title: 'Design', status: 'In Progress', deadline: '2025-01-10T00:00:00.000Z' },
+      { id: 3, title: 'Spec', status: 'Completed', deadline: null },
+    ],
+    dependents: [{ id: 4, title: 'Release', status: 'To Do', deadline: null }],
+    candidates: [{ id: 5, title: 'Research', status: 'To Do', deadline: null }],
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should list blockers and dependents', () => {
+    render(<TaskDependencies taskId={1} initialDependencies={dependencies} />);
+
+    expect(screen.getByText('Design')).toBeInTheDocument();
+    expect(screen.getByText('Spec')).toBeInTheDocument();
+    expect(screen.getByText('Release')).toBeInTheDocument();
+    expect(screen.getByTestId('open-blockers')).toHaveTextContent('1 open');
+    expect(screen.getByLabelText('Remove blocker Design')).toBeInTheDocument();
+  });
+
+  it('should show empty states', () => {
+    render(
+      <TaskDependencies taskId={1} initialDependencies={{ blockers: [], dependents: [], candidates: [] }} />
+    );
+
+    expect(screen.getByText('Not blocked by any task.')).toBeInTheDocument();
+    expect(screen.getByText('No tasks wait on this one.')).toBeInTheDocument();
+    expect(screen.queryByLabelText('Select blocking task')).not.toBeInTheDocument();
+  });
+
+  it('should remove a blocker', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: true, dependencies: { ...dependencies, blockers: [dependencies.blockers[1]] } }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    render(<TaskDependencies taskId={1} initialDependencies={dependencies} />);
+    fireEvent.click(screen.getByLabelText('Remove blocker Design'));
+
+    expect(await screen.findByText('Spec')).toBeInTheDocument();
+    expect(screen.queryByText('Design')).not.toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledWith('/api/tasks/1/dependencies?blockerId=2', { method: 'DELETE' });
+  });
+
+  it('should show API errors', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({ ok: false, json: async () => ({ error: 'Dependency not found' }) })
+    );
+
+    render(<TaskDependencies taskId={1} initialDependencies={dependencies} />);
+    fireEvent.click(screen.getByLabelText('Remove blocker Design'));
+
+    expect(await screen.findByText('Dependency not found')).toBeInTheDocument();
+    expect(screen.getByText('Design')).toBeInTheDocument();
+  });
+});
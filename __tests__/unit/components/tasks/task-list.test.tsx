@@ -0,0 +1,170 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import TasksList from '@/components/tasks/task-list';
+import type { Task } from '@/lib/types/tasks';
+
+const refreshMock = vi.fn();
+const pushMock = vi.fn();
+const searchParamsMock = { value: '' };
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ push: pushMock, refresh: refreshMock }),
+  useSearchParams: () => new URLSearchParams(searchParamsMock.value),
+}));
+
+// Radix Select does not open in jsdom; render items as plain buttons instead
+vi.mock('@/components/ui/select', async () => {
+  const { createContext, useContext } = await import('react');
+  const SelectContext = createContext<(value: string) => void>(() => {});
+  return {
+    Select: ({ onValueChange, children }: any) => (
+      <SelectContext.Provider value={onValueChange}>{children}</SelectContext.Provider>
+    ),
+    SelectTrigger: () => null,
+    SelectValue: () => null,
+    SelectContent: ({ children }: any) => <div>{children}</div>,
+    SelectItem: ({ value, children }: any) => {
+      const onValueChange = useContext(SelectContext);
+      return (
+        <button type="button" onClick={() => onValueChange(value)}>
+          {children}
+        </button>
+      );
+    },
+  };
+});
+
+describe('TasksList bulk actions', () => {
+  const createTask = (id: number, title: string): Task => ({
+    id,
+    title,
+    description: null,
+    status: 'To Do',
+    priority: 5,
+    deadline: '2025-12-01T00:00:00.000Z',
+    notes: null,
+    recurrence_interval: 0,
+    recurrence_date: null,
+    project: { id: 1, name: 'Alpha' },
+    creator: { creator_id: 'user1', user_info: { first_name: 'John', last_name: 'Doe' } },
+    subtasks: [],
+    assignees: [{ assignee_id: 'user1', user_info: { first_name: 'John', last_name: 'Doe' } }],
+    tags: [],
+    attachments: [],
+    isOverdue: false,
+  });
+
+  const tasks = [createTask(1, 'Write spec'), createTask(2, 'Build API'), createTask(3, 'Fix login')];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    searchParamsMock.value = '';
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should show the bulk action bar once tasks are selected', () => {
+    render(<TasksList tasks={tasks} />);
+
+    expect(screen.queryByTestId('bulk-action-bar')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Select Write spec'));
+    fireEvent.click(screen.getByLabelText('Select Build API'));
+
+    expect(screen.getByText('2 selected')).toBeInTheDocument();
+    expect(pushMock).not.toHaveBeenCalled();
+  });
+
+  it('should select and clear all visible tasks', () => {
+    render(<TasksList tasks={tasks} />);
+
+    fireEvent.click(screen.getByLabelText('Select all tasks'));
+    expect(screen.getByText('3 selected')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('Clear selection'));
+    expect(screen.queryByTestId('bulk-action-bar')).not.toBeInTheDocument();
+  });
+
+  it('should apply an action to the selection and keep failed tasks selected', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        results: [
+          { taskId: 1, success: true },
+          { taskId: 3, success: false, error: 'You do not have permission to update this task' },
+        ],
+        succeeded: 1,
+        failed: 1,
+      }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    render(<TasksList tasks={tasks} />);
+    fireEvent.click(screen.getByLabelText('Select Write spec'));
+    fireEvent.click(screen.getByLabelText('Select Fix login'));
+
+    const bar = screen.getByTestId('bulk-action-bar');
+    fireEvent.click(within(bar).getByRole('button', { name: 'Add tag' }));
+    fireEvent.change(within(bar).getByLabelText('Tag name'), { target: { value: 'urgent' } });
+    fireEvent.click(within(bar).getByRole('button', { name: 'Apply' }));
+
+    expect(await screen.findByText('Updated 1 of 2 task(s).')).toBeInTheDocument();
+    expect(screen.getByText('Fix login: You do not have permission to update this task')).toBeInTheDocument();
+    expect(screen.getByText('1 selected')).toBeInTheDocument();
+    expect(refreshMock).toHaveBeenCalled();
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('/api/tasks/bulk');
+    expect(JSON.parse(init.body)).toEqual({ taskIds: [1, 3], action: 'addTag', tag_name: 'urgent' });
+  });
+});
+
+describe('TasksList view state', () => {
+  const task = (id: number, title: string, status: Task['status']): Task => ({
+    id,
+    title,
+    description: null,
+    status,
+    priority: 5,
+    deadline: '2025-12-01T00:00:00.000Z',
+    notes: null,
+    recurrence_interval: 0,
+    recurrence_date: null,
+    project: { id: 1, name: 'Alpha' },
+    creator: { creator_id: 'user1', user_info: { first_name: 'John', last_name: 'Doe' } },
+    subtasks: [],
+    assignees: [],
+    tags: [],
+    attachments: [],
+    isOverdue: false,
+  });
+
+  const tasks = [task(1, 'Build API', 'To Do'), task(2, 'Write spec', 'In Progress'), task(3, 'Fix login', 'To Do')];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    searchParamsMock.value = '';
+  });
+
+  it('should start from the filters and sort in the URL', () => {
+    searchParamsMock.value = 'status=To+Do&sort=title&order=desc';
+
+    render(<TasksList tasks={tasks} />);
+
+    const titles = screen.getAllByRole('row').slice(1).map((row) => within(row).getAllByRole('cell')[1].textContent);
+    expect(titles).toEqual(['Fix login', 'Build API']);
+  });
+
+  it('should keep the URL in sync with the list state', () => {
+    const replaceState = vi.spyOn(window.history, 'replaceState');
+
+    render(<TasksList tasks={tasks} />);
+    fireEvent.click(screen.getByRole('button', { name: /Title/ }));
+
+    expect(replaceState).toHaveBeenLastCalledWith(null, '', '/?sort=title');
+    replaceState.mockRestore();
+  });
+});
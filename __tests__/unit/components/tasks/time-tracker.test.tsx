@@ -0,0 +1,79 @@
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { TaskTimeTracker, formatDuration } from '@/components/tasks/time-tracker';
+import type { TaskTimeTracking, TimeEntry } from '@/lib/types/tasks';
+
+describe('TaskTimeTracker', () => {
+  const finishedEntry: TimeEntry = {
+    id: 1,
+    task_id: 10,
+    user_id: 'user1',
+    started_at: '2025-01-01T09:00:00.000Z',
+    ended_at: '2025-01-01T10:30:00.000Z',
+    note: 'Drafting',
+    user_info: { first_name: 'John', last_name: 'Doe' },
+    duration: 5400,
+  };
+
+  const idle: TaskTimeTracking = { logged_time: 5400, entries: [finishedEntry], running_entry: null };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should show the derived total and entries', () => {
+    render(<TaskTimeTracker taskId={10} initialTimeTracking={idle} currentUserId="user1" />);
+
+    expect(screen.getByTestId('logged-time-total')).toHaveTextContent('1h 30m');
+    expect(screen.getByText('Drafting')).toBeInTheDocument();
+    expect(screen.getByLabelText('Delete time entry')).toBeInTheDocument();
+  });
+
+  it('should start a timer and switch to the stop button', async () => {
+    const runningEntry: TimeEntry = {
+      ...finishedEntry,
+      id: 2,
+      started_at: new Date().toISOString(),
+      ended_at: null,
+      note: null,
+      duration: 0,
+    };
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        success: true,
+        timeTracking: { ...idle, entries: [runningEntry, finishedEntry], running_entry: runningEntry },
+      }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    render(<TaskTimeTracker taskId={10} initialTimeTracking={idle} currentUserId="user1" />);
+    fireEvent.click(screen.getByRole('button', { name: /Start/ }));
+
+    expect(await screen.findByRole('button', { name: /Stop/ })).toBeInTheDocument();
+    expect(screen.getByTestId('running-timer')).toBeInTheDocument();
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ action: 'startTimer', note: null });
+  });
+
+  it('should show API errors', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({
+        ok: false,
+        json: async () => ({ error: 'You already have a timer running on task #2' }),
+      })
+    );
+
+    render(<TaskTimeTracker taskId={10} initialTimeTracking={idle} currentUserId="user1" />);
+    fireEvent.click(screen.getByRole('button', { name: /Start/ }));
+
+    expect(await screen.findByText('You already have a timer running on task #2')).toBeInTheDocument();
+  });
+
+  it('should format durations', () => {
+    expect(formatDuration(0)).toBe('0m 00s');
+    expect(formatDuration(75)).toBe('1m 15s');
+    expect(formatDuration(3660)).toBe('1h 01m');
+  });
+});
@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  checksumMigration,
+  loadMigrations,
+  migrateUp,
+  parseMigrationFilename,
+  planMigrations,
+  type AppliedMigration,
+  type Migration,
+} from '@/lib/db/migrations';
+
+const migration = (version: string, name: string, sql = `-- ${name}`): Migration => ({
+  version,
+  name,
+  filename: `${version}_${name}.sql`,
+  sql,
+  checksum: checksumMigration(sql),
+});
+
+const applied = (m: Migration, checksum = m.checksum): AppliedMigration => ({
+  version: m.version,
+  name: m.name,
+  checksum,
+  applied_at: new Date('2025-01-01T00:00:00Z'),
+});
+
+/**
+ * Minimal stand-in for a postgres.js connection: answers the migrations table
+ * lookups and records every other statement.
+ */
+function fakeSql(appliedRows: AppliedMigration[] | null) {
+  const statements: string[] = [];
+  const run = async (text: string) => {
+    statements.push(text.replace(/\s+/g, ' ').trim());
+    if (text.includes('to_regclass')) return [{ exists: appliedRows !== null }];
+    if (text.includes('FROM schema_migrations')) return appliedRows ?? [];
+    return [];
+  };
+  const sql: any = (strings: TemplateStringsArray) => run(strings.join('?'));
+  sql.unsafe = (text: string) => run(text);
+  sql.begin = async (fn: (tx: unknown) => Promise<void>) => fn(sql);
+  return { sql, statements };
+}
+
+describe('lib/db/migrations', () => {
+  describe('parseMigrationFilename', () => {
+    it('should read the version and name', () => {
+      expect(parseMigrationFilename('0012_add_status_history.sql')).toEqual({
+        version: '0012',
+        name: 'add_status_history',
+      });
+    });
+
+    it.each(['12_short.sql', '0012-dash.sql', '0012_Upper.sql', '0012_name.txt'])('should reject %s', (name) => {
+      expect(parseMigrationFilename(name)).toBeNull();
+    });
+  });
+
+  describe('checksumMigration', () => {
+    it('should ignore line ending differences but not content changes', () => {
+      expect(checksumMigration('SELECT 1;\r\nSELECT 2;\r\n')).toBe(checksumMigration('SELECT 1;\nSELECT 2;\n'));
+      expect(checksumMigration('SELECT 1;')).not.toBe(checksumMigration('SELECT 2;'));
+    });
+  });
+
+  describe('loadMigrations', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'migrations-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should load .sql files in version order', async () => {
+      await writeFile(path.join(dir, '0002_second.sql'), 'SELECT 2;');
+      await writeFile(path.join(dir, '0001_first.sql'), 'SELECT 1;');
+      await writeFile(path.join(dir, 'README.md'), 'ignored');
+
+      const migrations = await loadMigrations(dir);
+
+      expect(migrations.map((m) => m.filename)).toEqual(['0001_first.sql', '0002_second.sql']);
+      expect(migrations[0].checksum).toBe(checksumMigration('SELECT 1;'));
+    });
+
+    it('should reject duplicate versions', async () => {
+      await writeFile(path.join(dir, '0001_first.sql'), 'SELECT 1;');
+      await writeFile(path.join(dir, '0001_other.sql'), 'SELECT 1;');
+
+      await expect(loadMigrations(dir)).rejects.toThrow('Duplicate migration version 0001');
+    });
+
+    it('should reject badly named files', async () => {
+      await writeFile(path.join(dir, 'add_table.sql'), 'SELECT 1;');
+
+      await expect(loadMigrations(dir)).rejects.toThrow('Invalid migration filename: add_table.sql');
+    });
+
+    it('should load the repository migrations', async () => {
+      const migrations = await loadMigrations();
+
+      expect(migrations.length).toBeGreaterThan(0);
+      expect(migrations[0].filename).toBe('0001_initial_schema.sql');
+    });
+  });
+
+  describe('planMigrations', () => {
+    const first = migration('0001', 'first');
+    const second = migration('0002', 'second');
+    const third = migration('0003', 'third');
+
+    it('should list unapplied migrations as pending', () => {
+      const plan = planMigrations([first, second, third], [applied(first)]);
+
+      expect(plan.pending.map((m) => m.version)).toEqual(['0002', '0003']);
+      expect(plan.statuses.map((s) => s.state)).toEqual(['applied', 'pending', 'pending']);
+      expect(plan.problems).toEqual([]);
+    });
+
+    it('should flag applied migrations whose file has changed', () => {
+      const plan = planMigrations([first, second], [applied(first, 'stale'), applied(second)]);
+
+      expect(plan.statuses[0].state).toBe('modified');
+      expect(plan.problems).toEqual(['0001_first.sql has changed since it was applied; add a new migration instead']);
+    });
+
+    it('should flag applied migrations without a file', () => {
+      const plan = planMigrations([first], [applied(first), applied(second)]);
+
+      expect(plan.statuses.map((s) => [s.version, s.state])).toEqual([
+        ['0001', 'applied'],
+        ['0002', 'missing'],
+      ]);
+      expect(plan.problems).toHaveLength(1);
+    });
+
+    it('should flag pending migrations older than the latest applied one', () => {
+      const plan = planMigrations([first, second, third], [applied(first), applied(third)]);
+
+      expect(plan.pending.map((m) => m.version)).toEqual(['0002']);
+      expect(plan.problems).toEqual(['0002_second.sql is older than the latest applied migration (0003)']);
+    });
+  });
+
+  describe('migrateUp', () => {
+    let dir: string;
+    const log = vi.fn();
+
+    beforeEach(async () => {
+      dir = await mkdtemp(path.join(tmpdir(), 'migrations-'));
+      await writeFile(path.join(dir, '0001_first.sql'), 'CREATE TABLE a (id INT);');
+      await writeFile(path.join(dir, '0002_second.sql'), 'CREATE TABLE b (id INT);');
+      log.mockClear();
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should apply pending migrations and record each one', async () => {
+      const [first] = await loadMigrations(dir);
+      const { sql, statements } = fakeSql([applied(first)]);
+
+      const result = await migrateUp(sql, { dir, log });
+
+      expect(result.map((m) => m.filename)).toEqual(['0002_second.sql']);
+      expect(statements).toContain('CREATE TABLE b (id INT);');
+      expect(statements).not.toContain('CREATE TABLE a (id INT);');
+      expect(statements.some((s) => s.startsWith('INSERT INTO schema_migrations'))).toBe(true);
+      expect(statements.some((s) => s.includes('pg_advisory_unlock'))).toBe(true);
+    });
+
+    it('should only report pending migrations on a dry run', async () => {
+      const { sql, statements } = fakeSql(null);
+
+      const result = await migrateUp(sql, { dir, log, dryRun: true });
+
+      expect(result).toHaveLength(2);
+      expect(log).toHaveBeenCalledWith('Would apply 2 migration(s):');
+      expect(statements.every((s) => s.startsWith('SELECT'))).toBe(true);
+    });
+
+    it('should refuse to run when an applied migration has changed', async () => {
+      const [first] = await loadMigrations(dir);
+      const { sql, statements } = fakeSql([applied(first, 'stale')]);
+
+      await expect(migrateUp(sql, { dir, log })).rejects.toThrow('0001_first.sql has changed since it was applied');
+      expect(statements).not.toContain('CREATE TABLE b (id INT);');
+      expect(statements.some((s) => s.includes('pg_advisory_unlock'))).toBe(true);
+    });
+  });
+});
@@ -52,7 +52,7 @@ describe("lib/db/notifs", () => {
       mockAdminClient.from = vi.fn().mockReturnValue({
         insert: vi.fn().mockReturnValue({
           select: vi.fn().mockReturnValue({
-            single: vi.fn().mockResolvedValue({
+            maybeSingle: vi.fn().mockResolvedValue({
               data: expectedResult,
               error: null,
             }),
@@ -80,7 +80,7 @@ describe("lib/db/notifs", () => {
       mockAdminClient.from = vi.fn().mockReturnValue({
         insert: vi.fn().mockReturnValue({
           select: vi.fn().mockReturnValue({
-            single: vi.fn().mockResolvedValue({
+            maybeSingle: vi.fn().mockResolvedValue({
               data: null,
               error: mockError,
             }),
@@ -90,6 +90,26 @@ describe("lib/db/notifs", () => {
 
       await expect(createNotification(newNotification)).rejects.toThrow();
     });
+
+    it("should return null when the recipient has turned the event type off", async () => {
+      const insert = vi.fn().mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          maybeSingle: vi.fn().mockResolvedValue({ data: null, error: null }),
+        }),
+      });
+      mockAdminClient.from = vi.fn().mockReturnValue({ insert });
+
+      const result = await createNotification({
+        user_id: authUsersFixtures.alice.id,
+        title: "New Comment",
+        message: "Bob commented on a task",
+        type: "task_updated",
+        event_type: "comment",
+      });
+
+      expect(result).toBeNull();
+      expect(insert).toHaveBeenCalledWith(expect.objectContaining({ event_type: "comment" }));
+    });
   });
 
   describe("getNotificationsForUser", () => {
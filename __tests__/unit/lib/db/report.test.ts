@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { createMockSupabaseClient } from '@/__tests__/mocks/supabase.mock';
-import { tasks, projectsFixtures } from '@/__tests__/fixtures/database.fixtures';
+import { tasks, projectsFixtures, departmentsFixtures } from '@/__tests__/fixtures/database.fixtures';
 
 // Mock the Supabase client module BEFORE importing
 let mockSupabaseClient: ReturnType<typeof createMockSupabaseClient>;
@@ -10,7 +10,8 @@ vi.mock('@/lib/supabase/server', () => ({
 }));
 
 // Dynamic import AFTER mock setup
-const { getTasks, getUsersByIds, getWeeklyTaskStatsByUser } = await import('@/lib/db/report');
+const { getTasks, getTaskStatusHistory, getDepartmentScope, getUsersByIds, getWeeklyTaskStatsByUser } =
+  await import('@/lib/db/report');
 
 describe('lib/db/report', () => {
   beforeEach(() => {
@@ -256,6 +257,161 @@ describe('lib/db/report', () => {
       expect(mockSelect).toHaveBeenCalledWith(expect.stringContaining('title'));
       expect(mockSelect).toHaveBeenCalledWith(expect.stringContaining('status'));
       expect(mockSelect).toHaveBeenCalledWith(expect.stringContaining('is_archived'));
+      expect(mockSelect).toHaveBeenCalledWith(expect.stringContaining('completed_at'));
+      // Tasks without assignees are only excluded when filtering by department
+      expect(mockSelect).not.toHaveBeenCalledWith(expect.stringContaining('task_assignments'));
+    });
+  });
+
+  describe('department filter', () => {
+    const { engineering, operations, finance } = departmentsFixtures;
+
+    // Engineering contains Operations; Finance stands alone
+    const mockHierarchy = (deptId: number) => {
+      if (deptId === engineering.id) return [engineering, operations];
+      if (deptId === operations.id) return [operations];
+      return [finance];
+    };
+
+    const mockDepartmentTables = (opts: { userIds: string[]; tasksQuery?: any }) => {
+      mockSupabaseClient.rpc = vi.fn(async (_fn: string, args: { dept_id: number }) => ({
+        data: mockHierarchy(args.dept_id),
+        error: null,
+      }));
+
+      const userInfoIn = vi.fn().mockResolvedValue({
+        data: opts.userIds.map((id) => ({ id })),
+        error: null,
+      });
+      const tasksSelect = vi.fn().mockReturnValue(opts.tasksQuery);
+
+      mockSupabaseClient.from = vi.fn((table: string) => {
+        if (table === 'user_info') return { select: vi.fn().mockReturnValue({ in: userInfoIn }) };
+        return { select: tasksSelect };
+      }) as any;
+
+      return { userInfoIn, tasksSelect };
+    };
+
+    it('should only return tasks assigned to members of the departments and their sub-departments', async () => {
+      const mockIn = vi.fn().mockResolvedValue({ data: [tasks[0]], error: null });
+      const { userInfoIn, tasksSelect } = mockDepartmentTables({
+        userIds: ['user1', 'user2'],
+        tasksQuery: { eq: vi.fn().mockReturnValue({ in: mockIn }) },
+      });
+
+      const result = await getTasks({ departmentIds: [engineering.id] });
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith('get_department_hierarchy', {
+        dept_id: engineering.id,
+      });
+      expect(userInfoIn).toHaveBeenCalledWith('department_id', [engineering.id, operations.id]);
+      // One query: tasks inner-joined to their assignments, filtered by assignee
+      expect(mockSupabaseClient.from).not.toHaveBeenCalledWith('task_assignments');
+      expect(tasksSelect.mock.calls[0][0]).toContain('task_assignments!inner(assignee_id)');
+      expect(mockIn).toHaveBeenCalledWith('task_assignments.assignee_id', ['user1', 'user2']);
+      expect(result).toEqual([tasks[0]]);
+    });
+
+    it('should return no tasks when the departments have no members', async () => {
+      mockDepartmentTables({ userIds: [] });
+
+      const result = await getTasks({ departmentIds: [finance.id] });
+
+      expect(result).toEqual([]);
+      expect(mockSupabaseClient.from).not.toHaveBeenCalledWith('tasks');
+    });
+
+    it('should return no weekly stats when the departments have no members', async () => {
+      mockDepartmentTables({ userIds: [] });
+
+      const result = await getWeeklyTaskStatsByUser({ departmentIds: [finance.id] });
+
+      expect(result).toEqual([]);
+      expect(mockSupabaseClient.from).not.toHaveBeenCalledWith('tasks');
+    });
+
+    it('should scope weekly stats to tasks assigned within the departments', async () => {
+      const mockIn = vi.fn().mockResolvedValue({ data: [], error: null });
+      const { tasksSelect } = mockDepartmentTables({
+        userIds: ['user1'],
+        tasksQuery: { eq: vi.fn().mockReturnValue({ in: mockIn }) },
+      });
+
+      await getWeeklyTaskStatsByUser({ departmentIds: [operations.id] });
+
+      expect(tasksSelect.mock.calls[0][0]).toContain('task_assignments!inner(assignee_id)');
+      expect(mockIn).toHaveBeenCalledWith('task_assignments.assignee_id', ['user1']);
+    });
+
+    it('should list each covered department once, sub-departments included', async () => {
+      mockDepartmentTables({ userIds: [] });
+
+      const result = await getDepartmentScope([engineering.id, operations.id]);
+
+      expect(result).toEqual([
+        { id: engineering.id, name: engineering.name },
+        { id: operations.id, name: operations.name },
+      ]);
+    });
+
+    it('should cover no departments when none are selected', async () => {
+      const result = await getDepartmentScope([]);
+
+      expect(result).toEqual([]);
+      expect(mockSupabaseClient.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should throw error if the hierarchy lookup fails', async () => {
+      mockSupabaseClient.rpc = vi.fn().mockResolvedValue({
+        data: null,
+        error: new Error('Hierarchy lookup failed'),
+      });
+
+      await expect(getTasks({ departmentIds: [engineering.id] })).rejects.toThrow(
+        'Hierarchy lookup failed'
+      );
+    });
+  });
+
+  describe('getTaskStatusHistory', () => {
+    it('should return status periods for the given tasks in chronological order', async () => {
+      const mockHistory = [
+        { task_id: 1, status: 'To Do', previous_status: null, entered_at: '2024-01-01T00:00:00Z', left_at: '2024-01-02T00:00:00Z' },
+        { task_id: 1, status: 'In Progress', previous_status: 'To Do', entered_at: '2024-01-02T00:00:00Z', left_at: null },
+      ];
+      const mockOrder = vi.fn().mockResolvedValue({ data: mockHistory, error: null });
+      const mockIn = vi.fn().mockReturnValue({ order: mockOrder });
+
+      mockSupabaseClient.from = vi.fn().mockReturnValue({
+        select: vi.fn().mockReturnValue({ in: mockIn }),
+      });
+
+      const result = await getTaskStatusHistory([1, 2]);
+
+      expect(mockSupabaseClient.from).toHaveBeenCalledWith('task_status_history');
+      expect(mockIn).toHaveBeenCalledWith('task_id', [1, 2]);
+      expect(mockOrder).toHaveBeenCalledWith('entered_at', { ascending: true });
+      expect(result).toEqual(mockHistory);
+    });
+
+    it('should return empty array when no task IDs provided', async () => {
+      const result = await getTaskStatusHistory([]);
+
+      expect(result).toEqual([]);
+      expect(mockSupabaseClient.from).not.toHaveBeenCalled();
+    });
+
+    it('should throw error if query fails', async () => {
+      mockSupabaseClient.from = vi.fn().mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          in: vi.fn().mockReturnValue({
+            order: vi.fn().mockResolvedValue({ data: null, error: new Error('History query failed') }),
+          }),
+        }),
+      });
+
+      await expect(getTaskStatusHistory([1])).rejects.toThrow('History query failed');
     });
   });
 
@@ -1,8 +1,9 @@
 import { authUsersFixtures } from '@/__tests__/fixtures/database.fixtures';
 import { createMockSupabaseClient } from '@/__tests__/mocks/supabase.mock';
-import { addTaskAssigneeDB, addTaskAttachmentsDB, addTaskCommentDB, addTaskTagDB, createTask, deleteTaskCommentDB, getAllProjects, getAllUsers, getCommentAuthorDB, getTaskById, getUserTasks, linkSubtaskToParentDB, removeTaskAssigneeDB, removeTaskAttachmentDB, removeTaskTagDB, updateTaskCommentDB, updateTaskDeadlineDB, updateTaskDescriptionDB, updateTaskNotesDB, updateTaskPriorityDB, updateTaskRecurrenceDB, updateTaskStatusDB, updateTaskTitleDB } from '@/lib/db/tasks';
+import { addTaskAssigneeDB, addTaskAttachmentsDB, addTaskCommentDB, addTaskTagDB, createTask, deleteTaskCommentDB, getAllProjects, getBlockerStatusesDB, getDependencyGraphEdgesDB, getAllUsers, getCommentAuthorDB, getTaskById, getUserTasks, linkSubtaskToParentDB, removeTaskAssigneeDB, removeTaskAttachmentDB, removeTaskTagDB, updateTaskCommentDB, updateTaskDeadlineDB, updateTaskDeadlinesDB, updateTaskDescriptionDB, updateTaskNotesDB, updateTaskPriorityDB, updateTaskRecurrenceDB, updateTaskStatusDB, updateTaskTitleDB } from '@/lib/db/tasks';
 import { CreateTaskPayload } from '@/lib/types/task-creation';
-import { SupabaseClient } from '@supabase/supabase-js';
+import type { AttachmentUpload } from '@/lib/types/tasks';
+import { SupabaseClient, createClient as createServiceClient } from '@supabase/supabase-js';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 // Polyfill File API for Node.js environment
@@ -25,6 +26,15 @@ if (typeof File === 'undefined') {
   } as any;
 }
 
+// A file as validated by the service layer (prepareAttachmentUploads)
+const toUpload = (file: File): AttachmentUpload => ({
+  file,
+  file_name: file.name,
+  size_bytes: file.size,
+  content_type: file.type || 'application/pdf',
+  sha256: 'a'.repeat(64),
+});
+
 // Mock the Supabase client module
 let mockSupabaseClient: ReturnType<typeof createMockSupabaseClient>;
 
@@ -887,17 +897,6 @@ describe('lib/db/tasks', () => {
         select: commentsSelectMock,
       });
 
-      // Mock storage getPublicUrl
-      const mockStorage = {
-        from: vi.fn().mockReturnValue({
-          getPublicUrl: vi.fn().mockReturnValue({
-            data: { publicUrl: 'https://example.com/file.pdf' },
-          }),
-        }),
-      };
-
-      (mockSupabaseClient as any).storage = mockStorage;
-
       // Mock RPC calls
       const rpcMock = vi.fn()
         .mockResolvedValueOnce({
@@ -948,7 +947,7 @@ describe('lib/db/tasks', () => {
         expect(result.task).toEqual(mockTask);
         expect(result.subtasks).toEqual(mockSubtasks);
         expect(result.attachments).toHaveLength(1);
-        expect(result.attachments[0].public_url).toBe('https://example.com/file.pdf');
+        expect(result.attachments[0]).toEqual({ id: 1, storage_path: 'task-attachments/1/file.pdf', version_count: 1 });
         expect(result.comments).toEqual(mockComments);
         expect(result.assignees).toBeDefined();
       }
@@ -1131,7 +1130,7 @@ describe('lib/db/tasks', () => {
       }
     });
 
-    it('should generate public URLs for attachments', async () => {
+    it('should not expose storage URLs for attachments (bucket is private)', async () => {
       const mockTask = {
         id: 1,
         title: 'Task',
@@ -1222,16 +1221,7 @@ describe('lib/db/tasks', () => {
       });
 
       const mockStorage = {
-        from: vi.fn().mockReturnValue({
-          getPublicUrl: vi
-            .fn()
-            .mockReturnValueOnce({
-              data: { publicUrl: 'https://example.com/file1.pdf' },
-            })
-            .mockReturnValueOnce({
-              data: { publicUrl: 'https://example.com/file2.pdf' },
-            }),
-        }),
+        from: vi.fn(),
       };
 
       (mockSupabaseClient as any).storage = mockStorage;
@@ -1271,9 +1261,149 @@ describe('lib/db/tasks', () => {
       expect(result).not.toBeNull();
       if (result) {
         expect(result.attachments).toHaveLength(2);
-        expect(result.attachments[0].public_url).toBe('https://example.com/file1.pdf');
-        expect(result.attachments[1].public_url).toBe('https://example.com/file2.pdf');
-        expect(mockStorage.from).toHaveBeenCalledWith('task-attachments');
+        expect(result.attachments).toEqual([
+          { id: 1, storage_path: 'task-attachments/1/file1.pdf', version_count: 1 },
+          { id: 2, storage_path: 'task-attachments/1/file2.pdf', version_count: 1 },
+        ]);
+        expect(mockStorage.from).not.toHaveBeenCalled();
+      }
+    });
+
+    it('should list only the current version of each attachment with its version count', async () => {
+      const mockTask = {
+        id: 1,
+        title: 'Task',
+        description: null,
+        priority_bucket: 1,
+        status: 'To Do',
+        deadline: null,
+        notes: null,
+        project: { id: 1, name: 'Project' },
+        parent_task_id: null,
+        recurrence_interval: 0,
+        recurrence_date: null,
+        task_assignments: [],
+        tags: [],
+      };
+
+      const mockAttachments = [
+        { id: 1, storage_path: 'task-attachments/1/spec-v1.pdf', document_id: 1, version: 1, is_current: false },
+        { id: 2, storage_path: 'task-attachments/1/other.pdf', document_id: 2, version: 1, is_current: true },
+        { id: 3, storage_path: 'task-attachments/1/spec-v2.pdf', document_id: 1, version: 2, is_current: true },
+      ];
+
+      const taskSingleMock = vi.fn().mockResolvedValue({
+        data: mockTask,
+        error: null,
+      });
+
+      const taskNeqMock = vi.fn().mockReturnValue({
+        single: taskSingleMock,
+      });
+
+      const taskEqMock = vi.fn().mockReturnValue({
+        neq: taskNeqMock,
+      });
+
+      const taskSelectMock = vi.fn().mockReturnValue({
+        eq: taskEqMock,
+      });
+
+      const taskFromMock = vi.fn().mockReturnValue({
+        select: taskSelectMock,
+      });
+
+      const subtasksNeqMock = vi.fn().mockResolvedValue({
+        data: [],
+        error: null,
+      });
+
+      const subtasksEqMock = vi.fn().mockReturnValue({
+        neq: subtasksNeqMock,
+      });
+
+      const subtasksSelectMock = vi.fn().mockReturnValue({
+        eq: subtasksEqMock,
+      });
+
+      const subtasksFromMock = vi.fn().mockReturnValue({
+        select: subtasksSelectMock,
+      });
+
+      const attachmentsEqMock = vi.fn().mockResolvedValue({
+        data: mockAttachments,
+        error: null,
+      });
+
+      const attachmentsSelectMock = vi.fn().mockReturnValue({
+        eq: attachmentsEqMock,
+      });
+
+      const attachmentsFromMock = vi.fn().mockReturnValue({
+        select: attachmentsSelectMock,
+      });
+
+      const commentsNeqMock = vi.fn().mockResolvedValue({
+        data: [],
+        error: null,
+      });
+
+      const commentsEqMock = vi.fn().mockReturnValue({
+        neq: commentsNeqMock,
+      });
+
+      const commentsSelectMock = vi.fn().mockReturnValue({
+        eq: commentsEqMock,
+      });
+
+      const commentsFromMock = vi.fn().mockReturnValue({
+        select: commentsSelectMock,
+      });
+
+      const mockStorage = {
+        from: vi.fn(),
+      };
+
+      (mockSupabaseClient as any).storage = mockStorage;
+
+      mockSupabaseClient.from = vi.fn().mockImplementation((table: string) => {
+        if (table === 'tasks') {
+          const callCount = (mockSupabaseClient.from as any).mock.calls.filter(
+            (call: any[]) => call[0] === 'tasks'
+          ).length;
+          if (callCount === 1) {
+            return taskFromMock();
+          } else {
+            return subtasksFromMock();
+          }
+        }
+        if (table === 'task_attachments') {
+          return attachmentsFromMock();
+        }
+        if (table === 'task_comments') {
+          return commentsFromMock();
+        }
+        if (table === 'user_info') {
+          return {
+            select: vi.fn().mockReturnValue({
+              in: vi.fn().mockResolvedValue({
+                data: [],
+                error: null,
+              }),
+            }),
+          };
+        }
+        return {};
+      });
+
+      const result = await getTaskById(1);
+
+      expect(result).not.toBeNull();
+      if (result) {
+        expect(result.attachments).toEqual([
+          { id: 2, storage_path: 'task-attachments/1/other.pdf', document_id: 2, version: 1, version_count: 1 },
+          { id: 3, storage_path: 'task-attachments/1/spec-v2.pdf', document_id: 1, version: 2, version_count: 2 },
+        ]);
       }
     });
 
@@ -2121,14 +2251,22 @@ describe('lib/db/tasks', () => {
         return {};
       });
 
-      const result = await createTask(mockSupabaseClient as any as SupabaseClient, payload, creatorId, [mockFile]);
+      const result = await createTask(mockSupabaseClient as any as SupabaseClient, payload, creatorId, [toUpload(mockFile)]);
 
       expect(result).toBe(taskId);
-      expect(uploadMock).toHaveBeenCalled();
+      expect(uploadMock).toHaveBeenCalledWith(
+        expect.stringMatching(/^tasks\/123\/[0-9a-f-]{36}-test\.pdf$/),
+        mockFile,
+        expect.objectContaining({ contentType: 'application/pdf' })
+      );
       expect(attachmentInsertMock).toHaveBeenCalledWith({
         task_id: taskId,
         storage_path: expect.stringContaining('tasks/123/'),
         uploaded_by: creatorId,
+        file_name: 'test.pdf',
+        size_bytes: mockFile.size,
+        content_type: 'application/pdf',
+        sha256: 'a'.repeat(64),
       });
     });
 
@@ -2175,7 +2313,7 @@ describe('lib/db/tasks', () => {
         return {};
       });
 
-      const result = await createTask(mockSupabaseClient as any as SupabaseClient, payload, creatorId, [mockFile1, mockFile2]);
+      const result = await createTask(mockSupabaseClient as any as SupabaseClient, payload, creatorId, [toUpload(mockFile1), toUpload(mockFile2)]);
 
       expect(result).toBe(taskId);
       expect(uploadMock).toHaveBeenCalledTimes(2);
@@ -2373,7 +2511,7 @@ describe('lib/db/tasks', () => {
         return {};
       });
 
-      const result = await createTask(mockSupabaseClient as any as SupabaseClient, payload, creatorId, [mockFile]);
+      const result = await createTask(mockSupabaseClient as any as SupabaseClient, payload, creatorId, [toUpload(mockFile)]);
 
       expect(consoleErrorSpy).toHaveBeenCalledWith(
         `Error creating attachment record for ${mockFile.name}:`,
@@ -2392,7 +2530,7 @@ describe('lib/db/tasks', () => {
   });
 
   describe('getAllUsers', () => {
-    it('should fetch all users ordered by first name', async () => {
+    it('should fetch all active users ordered by first name', async () => {
       const mockUsers = [
         { id: 'user-1', first_name: 'Alice', last_name: 'Smith' },
         { id: 'user-2', first_name: 'Bob', last_name: 'Jones' },
@@ -2404,10 +2542,14 @@ describe('lib/db/tasks', () => {
         error: null,
       });
 
-      const selectMock = vi.fn().mockReturnValue({
+      const eqMock = vi.fn().mockReturnValue({
         order: orderMock,
       });
 
+      const selectMock = vi.fn().mockReturnValue({
+        eq: eqMock,
+      });
+
       mockSupabaseClient.from = vi.fn().mockReturnValue({
         select: selectMock,
       });
@@ -2417,6 +2559,7 @@ describe('lib/db/tasks', () => {
       expect(result).toEqual(mockUsers);
       expect(mockSupabaseClient.from).toHaveBeenCalledWith('user_info');
       expect(selectMock).toHaveBeenCalledWith('id, first_name, last_name');
+      expect(eqMock).toHaveBeenCalledWith('is_active', true);
       expect(orderMock).toHaveBeenCalledWith('first_name', { ascending: true });
     });
 
@@ -2428,10 +2571,14 @@ describe('lib/db/tasks', () => {
         error: mockError,
       });
 
-      const selectMock = vi.fn().mockReturnValue({
+      const eqMock = vi.fn().mockReturnValue({
         order: orderMock,
       });
 
+      const selectMock = vi.fn().mockReturnValue({
+        eq: eqMock,
+      });
+
       mockSupabaseClient.from = vi.fn().mockReturnValue({
         select: selectMock,
       });
@@ -2445,10 +2592,14 @@ describe('lib/db/tasks', () => {
         error: null,
       });
 
-      const selectMock = vi.fn().mockReturnValue({
+      const eqMock = vi.fn().mockReturnValue({
         order: orderMock,
       });
 
+      const selectMock = vi.fn().mockReturnValue({
+        eq: eqMock,
+      });
+
       mockSupabaseClient.from = vi.fn().mockReturnValue({
         select: selectMock,
       });
@@ -3056,7 +3207,7 @@ describe('lib/db/tasks', () => {
         }),
       };
   
-      const result = await addTaskAttachmentsDB(taskId, [mockFile], userId);
+      const result = await addTaskAttachmentsDB(taskId, [toUpload(mockFile)], userId);
   
       expect(result).toHaveLength(1);
       expect(result[0].id).toBe(1);
@@ -3116,7 +3267,7 @@ describe('lib/db/tasks', () => {
         }),
       };
   
-      const result = await addTaskAttachmentsDB(taskId, [mockFile1, mockFile2], userId);
+      const result = await addTaskAttachmentsDB(taskId, [toUpload(mockFile1), toUpload(mockFile2)], userId);
   
       expect(result).toHaveLength(1);
     });
@@ -3556,6 +3707,41 @@ describe('lib/db/tasks', () => {
     });
   });
 
+  describe('updateTaskDeadlinesDB', () => {
+    it('should move every deadline in one RPC call', async () => {
+      const deadlines = [
+        { id: 1, deadline: '2025-01-03T00:00:00.000Z' },
+        { id: 11, deadline: '2025-01-01T00:00:00.000Z' },
+      ];
+      const selectMock = vi.fn().mockResolvedValue({ data: deadlines, error: null });
+      mockSupabaseClient.rpc = vi.fn().mockReturnValue({ select: selectMock });
+
+      const result = await updateTaskDeadlinesDB(deadlines);
+
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith('reschedule_task_deadlines', { p_deadlines: deadlines });
+      expect(selectMock).toHaveBeenCalledWith('id, deadline');
+      expect(result).toEqual(deadlines);
+    });
+
+    it('should throw when the transaction fails', async () => {
+      mockSupabaseClient.rpc = vi.fn().mockReturnValue({
+        select: vi.fn().mockResolvedValue({ data: null, error: { message: 'deadlock detected' } }),
+      });
+
+      await expect(updateTaskDeadlinesDB([{ id: 1, deadline: null }])).rejects.toThrow(
+        'Failed to update task deadline: deadlock detected'
+      );
+    });
+
+    it('should pass a missing task through unchanged', async () => {
+      mockSupabaseClient.rpc = vi.fn().mockReturnValue({
+        select: vi.fn().mockResolvedValue({ data: null, error: { message: 'Task not found' } }),
+      });
+
+      await expect(updateTaskDeadlinesDB([{ id: 1, deadline: null }])).rejects.toThrow(/^Task not found$/);
+    });
+  });
+
   describe('updateTaskDeadlineDB', () => {
     it('should update task deadline successfully with date string', async () => {
       const mockUpdatedTask = { id: 1, deadline: '2025-12-31T23:59:59Z' };
@@ -3781,6 +3967,7 @@ describe('lib/db/tasks', () => {
       expect(updateMock).toHaveBeenCalledWith({
         recurrence_interval: 7,
         recurrence_date: '2025-10-20T00:00:00Z',
+        recurrence_rule: null,
         updated_at: expect.any(String),
       });
     });
@@ -3820,6 +4007,7 @@ describe('lib/db/tasks', () => {
       expect(updateMock).toHaveBeenCalledWith({
         recurrence_interval: 0,
         recurrence_date: null,
+        recurrence_rule: null,
         updated_at: expect.any(String),
       });
     });
@@ -3977,37 +4165,23 @@ describe('lib/db/tasks', () => {
   // ============ ATTACHMENTS ============
 
   describe('removeTaskAttachmentDB', () => {
-    it('should remove attachment from storage and database', async () => {
-      const attachmentId = 1;
-      const storagePath = 'tasks/1/file.pdf';
-
-      const fetchMock = vi.fn().mockResolvedValue({
-        data: { storage_path: storagePath },
+    it('should remove every version of the document from storage and database', async () => {
+      const versionsEq = vi.fn();
+      const versionsMock = vi.fn().mockResolvedValue({
+        data: [{ storage_path: 'tasks/1/file.pdf' }, { storage_path: 'tasks/1/file-v1.pdf' }],
         error: null,
       });
+      versionsEq.mockReturnValue({ eq: versionsMock });
 
-      const removeMock = vi.fn().mockResolvedValue({
-        error: null,
-      });
+      const deleteEq = vi.fn();
+      const deleteMock = vi.fn().mockResolvedValue({ error: null });
+      deleteEq.mockReturnValue({ eq: deleteMock });
 
-      const deleteMock = vi.fn().mockResolvedValue({
-        error: null,
-      });
+      const removeMock = vi.fn().mockResolvedValue({ error: null });
 
-      mockSupabaseClient.from = vi.fn().mockImplementation((table: string) => {
-        if (table === 'task_attachments') {
-          return {
-            select: vi.fn().mockReturnValue({
-              eq: vi.fn().mockReturnValue({
-                single: fetchMock,
-              }),
-            }),
-            delete: vi.fn().mockReturnValue({
-              eq: deleteMock,
-            }),
-          };
-        }
-        return {};
+      mockSupabaseClient.from = vi.fn().mockReturnValue({
+        select: vi.fn().mockReturnValue({ eq: versionsEq }),
+        delete: vi.fn().mockReturnValue({ eq: deleteEq }),
       });
 
       (mockSupabaseClient as any).storage = {
@@ -4016,30 +4190,77 @@ describe('lib/db/tasks', () => {
         }),
       };
 
-      const result = await removeTaskAttachmentDB(attachmentId);
+      await removeTaskAttachmentDB(1, 3);
 
-      expect(result).toBe(storagePath);
-      expect(removeMock).toHaveBeenCalledWith([storagePath]);
-      expect(deleteMock).toHaveBeenCalled();
+      // Scoped to the task as well as the document
+      expect(versionsEq).toHaveBeenCalledWith('task_id', 1);
+      expect(versionsMock).toHaveBeenCalledWith('document_id', 3);
+      expect(removeMock).toHaveBeenCalledWith(['tasks/1/file.pdf', 'tasks/1/file-v1.pdf']);
+      expect(deleteEq).toHaveBeenCalledWith('task_id', 1);
+      expect(deleteMock).toHaveBeenCalledWith('document_id', 3);
     });
 
-    it('should throw error if attachment not found', async () => {
-      const attachmentId = 1;
-
-      const fetchMock = vi.fn().mockResolvedValue({
-        data: null,
-        error: { message: 'Not found' },
-      });
-
+    it('should throw error if versions cannot be fetched', async () => {
       mockSupabaseClient.from = vi.fn().mockReturnValue({
         select: vi.fn().mockReturnValue({
           eq: vi.fn().mockReturnValue({
-            single: fetchMock,
+            eq: vi.fn().mockResolvedValue({ data: null, error: { message: 'Boom' } }),
           }),
         }),
       });
 
-      await expect(removeTaskAttachmentDB(attachmentId)).rejects.toThrow('Attachment not found');
+      await expect(removeTaskAttachmentDB(1, 3)).rejects.toThrow(
+        'Failed to fetch attachment versions: Boom'
+      );
+    });
+  });
+
+  // ============ DEPENDENCIES ============
+
+  describe('getDependencyGraphEdgesDB', () => {
+    it('should read edges through the service client', async () => {
+      const inMock = vi.fn().mockResolvedValue({
+        data: [{ blocker_task_id: 1, dependent_task_id: 2 }],
+        error: null,
+      });
+      mockSupabaseClient.from = vi.fn().mockReturnValue({
+        select: vi.fn().mockReturnValue({ in: inMock }),
+      });
+
+      const result = await getDependencyGraphEdgesDB('blocker_task_id', [1]);
+
+      expect(createServiceClient).toHaveBeenCalled();
+      expect(inMock).toHaveBeenCalledWith('blocker_task_id', [1]);
+      expect(result).toEqual([{ blocker_task_id: 1, dependent_task_id: 2 }]);
+    });
+
+    it('should not query for an empty frontier', async () => {
+      expect(await getDependencyGraphEdgesDB('blocker_task_id', [])).toEqual([]);
+      expect(mockSupabaseClient.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getBlockerStatusesDB', () => {
+    it('should return the ID and status of every blocker through the service client', async () => {
+      const eqMock = vi.fn().mockResolvedValue({
+        data: [
+          { blocker_task_id: 2, blocker: { status: 'To Do' } },
+          { blocker_task_id: 3, blocker: [{ status: 'Completed' }] },
+        ],
+        error: null,
+      });
+      mockSupabaseClient.from = vi.fn().mockReturnValue({
+        select: vi.fn().mockReturnValue({ eq: eqMock }),
+      });
+
+      const result = await getBlockerStatusesDB(1);
+
+      expect(createServiceClient).toHaveBeenCalled();
+      expect(eqMock).toHaveBeenCalledWith('dependent_task_id', 1);
+      expect(result).toEqual([
+        { id: 2, status: 'To Do' },
+        { id: 3, status: 'Completed' },
+      ]);
     });
   });
 
@@ -0,0 +1,339 @@
+import {
+  createDepartment,
+  createUser,
+  deleteDepartment,
+  getAuditLog,
+  grantRole,
+  listDepartments,
+  listUsers,
+  revokeRole,
+  updateDepartment,
+  updateUser,
+} from '@/lib/services/admin';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { getRolesForUserClient } from '@/lib/db/roles';
+import {
+  createDepartmentDB,
+  createUserDB,
+  deleteDepartmentDB,
+  getAdminUserDB,
+  getAdminUsersDB,
+  getAllUserRolesDB,
+  getAuditLogDB,
+  getDepartmentsDB,
+  getUserEmailsDB,
+  grantRoleDB,
+  insertAuditLogDB,
+  revokeRoleDB,
+  setUserActiveDB,
+  updateDepartmentDB,
+  updateUserDepartmentDB,
+} from '@/lib/db/admin';
+
+vi.mock('@/lib/db/roles', () => ({
+  getRolesForUserClient: vi.fn(),
+}));
+
+vi.mock('@/lib/db/admin', () => ({
+  createDepartmentDB: vi.fn(),
+  createUserDB: vi.fn(),
+  deleteDepartmentDB: vi.fn(),
+  getAdminUserDB: vi.fn(),
+  getAdminUsersDB: vi.fn(),
+  getAllUserRolesDB: vi.fn(),
+  getAuditLogDB: vi.fn(),
+  getDepartmentsDB: vi.fn(),
+  getUserEmailsDB: vi.fn(),
+  grantRoleDB: vi.fn(),
+  insertAuditLogDB: vi.fn(),
+  revokeRoleDB: vi.fn(),
+  setUserActiveDB: vi.fn(),
+  updateDepartmentDB: vi.fn(),
+  updateUserDepartmentDB: vi.fn(),
+}));
+
+const supabase = {} as any;
+
+// Engineering ── Backend ── Platform, and Sales
+const departments = [
+  { id: 1, name: 'Engineering', parent_department_id: null },
+  { id: 2, name: 'Backend', parent_department_id: 1 },
+  { id: 3, name: 'Platform', parent_department_id: 2 },
+  { id: 4, name: 'Sales', parent_department_id: null },
+];
+
+const user = (id: string, departmentId: number, isActive = true) => ({
+  id,
+  first_name: id.toUpperCase(),
+  last_name: 'Smith',
+  department_id: departmentId,
+  is_active: isActive,
+});
+
+describe('admin service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getRolesForUserClient).mockResolvedValue(['admin']);
+    vi.mocked(getDepartmentsDB).mockResolvedValue(departments);
+    vi.mocked(getAdminUsersDB).mockResolvedValue([user('admin', 1), user('bob', 2), user('cat', 2, false)]);
+    vi.mocked(getAdminUserDB).mockImplementation(async (id) => (id === 'missing' ? null : user(id, 2)));
+  });
+
+  describe('permissions', () => {
+    it('should reject non-admins for every operation', async () => {
+      vi.mocked(getRolesForUserClient).mockResolvedValue(['manager']);
+      const error = 'Only admins can use the admin console';
+
+      await expect(listDepartments(supabase, 'm1')).rejects.toThrow(error);
+      await expect(createDepartment(supabase, 'm1', { name: 'X' })).rejects.toThrow(error);
+      await expect(updateDepartment(supabase, 'm1', 1, { name: 'X' })).rejects.toThrow(error);
+      await expect(deleteDepartment(supabase, 'm1', 4)).rejects.toThrow(error);
+      await expect(listUsers(supabase, 'm1')).rejects.toThrow(error);
+      await expect(updateUser(supabase, 'm1', 'bob', { isActive: false })).rejects.toThrow(error);
+      await expect(grantRole(supabase, 'm1', 'bob', 'admin')).rejects.toThrow(error);
+      await expect(getAuditLog(supabase, 'm1')).rejects.toThrow(error);
+      expect(insertAuditLogDB).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('departments', () => {
+    it('should count users per department', async () => {
+      const result = await listDepartments(supabase, 'admin');
+
+      expect(result.map((d) => [d.name, d.member_count])).toEqual([
+        ['Engineering', 1],
+        ['Backend', 2],
+        ['Platform', 0],
+        ['Sales', 0],
+      ]);
+    });
+
+    it('should create a department and record it', async () => {
+      vi.mocked(createDepartmentDB).mockResolvedValue({ id: 5, name: 'Ops', parent_department_id: 4 });
+
+      const result = await createDepartment(supabase, 'admin', { name: '  Ops ', parentDepartmentId: 4 });
+
+      expect(createDepartmentDB).toHaveBeenCalledWith('Ops', 4);
+      expect(result.member_count).toBe(0);
+      expect(insertAuditLogDB).toHaveBeenCalledWith({
+        actor_id: 'admin',
+        action: 'department.create',
+        target_type: 'department',
+        target_id: '5',
+        details: { name: 'Ops', parent_department_id: 4 },
+      });
+    });
+
+    it('should reject an unknown parent', async () => {
+      await expect(createDepartment(supabase, 'admin', { name: 'Ops', parentDepartmentId: 99 })).rejects.toThrow(
+        'Parent department not found'
+      );
+      expect(createDepartmentDB).not.toHaveBeenCalled();
+    });
+
+    it('should re-parent a department and record before and after', async () => {
+      vi.mocked(updateDepartmentDB).mockResolvedValue({ id: 2, name: 'Backend', parent_department_id: 4 });
+
+      await updateDepartment(supabase, 'admin', 2, { parentDepartmentId: 4 });
+
+      expect(updateDepartmentDB).toHaveBeenCalledWith(2, { parent_department_id: 4 });
+      expect(insertAuditLogDB).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'department.update',
+          details: {
+            before: { name: 'Backend', parent_department_id: 1 },
+            after: { name: 'Backend', parent_department_id: 4 },
+          },
+        })
+      );
+    });
+
+    it('should reject moving a department under one of its descendants', async () => {
+      await expect(updateDepartment(supabase, 'admin', 1, { parentDepartmentId: 3 })).rejects.toThrow(
+        'A department cannot be moved under itself or one of its sub-departments'
+      );
+      await expect(updateDepartment(supabase, 'admin', 2, { parentDepartmentId: 2 })).rejects.toThrow(
+        'A department cannot be moved under itself or one of its sub-departments'
+      );
+      expect(updateDepartmentDB).not.toHaveBeenCalled();
+    });
+
+    it('should throw for a missing department', async () => {
+      await expect(updateDepartment(supabase, 'admin', 99, { name: 'X' })).rejects.toThrow('Department not found');
+    });
+
+    it('should only delete empty departments', async () => {
+      await expect(deleteDepartment(supabase, 'admin', 2)).rejects.toThrow('Move or delete its sub-departments first');
+      await expect(deleteDepartment(supabase, 'admin', 1)).rejects.toThrow('Move or delete its sub-departments first');
+      vi.mocked(getAdminUsersDB).mockResolvedValue([user('dan', 3)]);
+      await expect(deleteDepartment(supabase, 'admin', 3)).rejects.toThrow('Move its users to another department first');
+      expect(deleteDepartmentDB).not.toHaveBeenCalled();
+
+      await deleteDepartment(supabase, 'admin', 4);
+
+      expect(deleteDepartmentDB).toHaveBeenCalledWith(4);
+      expect(insertAuditLogDB).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'department.delete', target_id: '4', details: { name: 'Sales', parent_department_id: null } })
+      );
+    });
+  });
+
+  describe('users', () => {
+    it('should list users with emails and roles in a fixed order', async () => {
+      vi.mocked(getAllUserRolesDB).mockResolvedValue([
+        { user_id: 'admin', role: 'admin' },
+        { user_id: 'admin', role: 'staff' },
+        { user_id: 'bob', role: 'manager' },
+      ]);
+      vi.mocked(getUserEmailsDB).mockResolvedValue(new Map([['admin', 'admin@example.com']]));
+
+      const users = await listUsers(supabase, 'admin');
+
+      expect(users[0]).toMatchObject({ id: 'admin', email: 'admin@example.com', roles: ['staff', 'admin'] });
+      expect(users[1]).toMatchObject({ id: 'bob', email: null, roles: ['manager'] });
+      expect(users[2]).toMatchObject({ id: 'cat', is_active: false, roles: [] });
+    });
+
+    it('should create a staff user by invitation when no password is given', async () => {
+      vi.mocked(createUserDB).mockResolvedValue(user('new', 4));
+
+      const created = await createUser(supabase, 'admin', {
+        email: ' New@Example.com ',
+        firstName: 'New',
+        lastName: 'Person',
+        departmentId: 4,
+      });
+
+      expect(createUserDB).toHaveBeenCalledWith({
+        email: 'new@example.com',
+        password: undefined,
+        first_name: 'New',
+        last_name: 'Person',
+        department_id: 4,
+      });
+      expect(grantRoleDB).toHaveBeenCalledWith('new', 'staff');
+      expect(created).toMatchObject({ id: 'new', email: 'new@example.com', roles: ['staff'] });
+      expect(insertAuditLogDB).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'user.create',
+          details: { email: 'new@example.com', department_id: 4, roles: ['staff'], invited: true },
+        })
+      );
+    });
+
+    it.each([
+      [{ email: 'nope' }, 'A valid email is required'],
+      [{ password: 'short' }, 'Password must be at least 8 characters'],
+      [{ firstName: ' ' }, 'First name is required'],
+      [{ departmentId: 99 }, 'Department not found'],
+      [{ roles: ['owner'] }, 'Role must be one of: staff, manager, admin'],
+    ])('should reject %j', async (override, message) => {
+      const input = { email: 'a@b.co', firstName: 'A', lastName: 'B', departmentId: 1, ...override };
+
+      await expect(createUser(supabase, 'admin', input)).rejects.toThrow(message);
+      expect(createUserDB).not.toHaveBeenCalled();
+    });
+
+    it('should move a user and record the departments', async () => {
+      await updateUser(supabase, 'admin', 'bob', { departmentId: 4 });
+
+      expect(updateUserDepartmentDB).toHaveBeenCalledWith('bob', 4);
+      expect(insertAuditLogDB).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: 'user.move',
+          target_id: 'bob',
+          details: { from_department_id: 2, to_department_id: 4 },
+        })
+      );
+    });
+
+    it('should deactivate a user', async () => {
+      await updateUser(supabase, 'admin', 'bob', { isActive: false });
+
+      expect(setUserActiveDB).toHaveBeenCalledWith('bob', false);
+      expect(insertAuditLogDB).toHaveBeenCalledWith(expect.objectContaining({ action: 'user.deactivate' }));
+    });
+
+    it('should not record anything when nothing changes', async () => {
+      await updateUser(supabase, 'admin', 'bob', { departmentId: 2, isActive: true });
+
+      expect(updateUserDepartmentDB).not.toHaveBeenCalled();
+      expect(setUserActiveDB).not.toHaveBeenCalled();
+      expect(insertAuditLogDB).not.toHaveBeenCalled();
+    });
+
+    it('should not let admins deactivate themselves', async () => {
+      await expect(updateUser(supabase, 'admin', 'admin', { isActive: false })).rejects.toThrow(
+        'You cannot deactivate your own account'
+      );
+      expect(setUserActiveDB).not.toHaveBeenCalled();
+    });
+
+    it('should throw for a missing user', async () => {
+      await expect(updateUser(supabase, 'admin', 'missing', { isActive: false })).rejects.toThrow('User not found');
+    });
+  });
+
+  describe('roles', () => {
+    it('should grant and revoke roles with an audit entry each', async () => {
+      await grantRole(supabase, 'admin', 'bob', 'manager');
+      await revokeRole(supabase, 'admin', 'bob', 'staff');
+
+      expect(grantRoleDB).toHaveBeenCalledWith('bob', 'manager');
+      expect(revokeRoleDB).toHaveBeenCalledWith('bob', 'staff');
+      expect(insertAuditLogDB).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ action: 'role.grant', details: { role: 'manager' } })
+      );
+      expect(insertAuditLogDB).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ action: 'role.revoke', details: { role: 'staff' } })
+      );
+    });
+
+    it('should reject unknown roles', async () => {
+      await expect(grantRole(supabase, 'admin', 'bob', 'owner')).rejects.toThrow(
+        'Role must be one of: staff, manager, admin'
+      );
+      expect(grantRoleDB).not.toHaveBeenCalled();
+    });
+
+    it('should not let admins revoke their own admin role', async () => {
+      await expect(revokeRole(supabase, 'admin', 'admin', 'admin')).rejects.toThrow(
+        'You cannot revoke your own admin role'
+      );
+      expect(revokeRoleDB).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getAuditLog', () => {
+    it('should name the acting admin and clamp the limit', async () => {
+      vi.mocked(getAuditLogDB).mockResolvedValue([
+        {
+          id: 1,
+          actor_id: 'admin',
+          action: 'role.grant',
+          target_type: 'user',
+          target_id: 'bob',
+          details: { role: 'manager' },
+          created_at: '2025-01-01T00:00:00Z',
+        },
+        {
+          id: 2,
+          actor_id: null,
+          action: 'department.delete',
+          target_type: 'department',
+          target_id: '9',
+          details: {},
+          created_at: '2025-01-01T00:00:00Z',
+        },
+      ]);
+
+      const entries = await getAuditLog(supabase, 'admin', 10_000);
+
+      expect(getAuditLogDB).toHaveBeenCalledWith(500);
+      expect(entries.map((e) => e.actor_name)).toEqual(['ADMIN Smith', 'Unknown user']);
+    });
+  });
+});
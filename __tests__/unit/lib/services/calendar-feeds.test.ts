@@ -0,0 +1,208 @@
+import {
+  createCalendarFeed,
+  filterCalendarFeedTasks,
+  getCalendarFeed,
+  getCalendarFeedETag,
+  hashCalendarFeedToken,
+  matchesIfNoneMatch,
+  MAX_ACTIVE_CALENDAR_FEEDS,
+  parseCalendarFeedFilters,
+  revokeCalendarFeed,
+} from '@/lib/services/calendar-feeds';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  createCalendarFeedTokenDB,
+  getActiveCalendarFeedTokenDB,
+  getCalendarFeedTasksDB,
+  getCalendarFeedTokensDB,
+  revokeCalendarFeedTokenDB,
+} from '@/lib/db/calendar-feeds';
+import type { Task } from '@/lib/types/tasks';
+
+vi.mock('@/lib/db/calendar-feeds', () => ({
+  createCalendarFeedTokenDB: vi.fn(),
+  getActiveCalendarFeedTokenDB: vi.fn(),
+  getCalendarFeedTasksDB: vi.fn(),
+  getCalendarFeedTokensDB: vi.fn(),
+  revokeCalendarFeedTokenDB: vi.fn(),
+}));
+
+const feedRow = {
+  id: 1,
+  name: 'Work',
+  created_at: '2025-01-01T00:00:00.000Z',
+  last_used_at: null,
+  revoked_at: null,
+};
+
+function makeTask(overrides: Partial<Task>): Task {
+  return {
+    id: 1,
+    title: 'Task',
+    description: null,
+    priority: 5,
+    status: 'To Do',
+    deadline: '2025-02-01T00:00:00.000Z',
+    notes: null,
+    recurrence_interval: 0,
+    recurrence_date: null,
+    recurrence_rule: null,
+    project: { id: 1, name: 'Alpha' },
+    creator: { creator_id: 'user-1', user_info: { first_name: 'A', last_name: 'B' } },
+    subtasks: [],
+    assignees: [],
+    tags: [],
+    attachments: [],
+    isOverdue: false,
+    ...overrides,
+  };
+}
+
+describe('calendar feed service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('createCalendarFeed', () => {
+    it('should store only the hash of the generated token', async () => {
+      vi.mocked(getCalendarFeedTokensDB).mockResolvedValue([]);
+      vi.mocked(createCalendarFeedTokenDB).mockResolvedValue(feedRow);
+
+      const result = await createCalendarFeed('user-1', '  Work  ');
+
+      expect(result.token).toMatch(/^[a-f0-9]{64}$/);
+      expect(result.feed).toEqual(feedRow);
+      expect(createCalendarFeedTokenDB).toHaveBeenCalledWith(
+        'user-1',
+        'Work',
+        hashCalendarFeedToken(result.token)
+      );
+    });
+
+    it('should reject an empty name', async () => {
+      await expect(createCalendarFeed('user-1', '   ')).rejects.toThrow('Feed name is required');
+      expect(createCalendarFeedTokenDB).not.toHaveBeenCalled();
+    });
+
+    it('should enforce the active feed limit', async () => {
+      vi.mocked(getCalendarFeedTokensDB).mockResolvedValue(
+        Array.from({ length: MAX_ACTIVE_CALENDAR_FEEDS }, (_, i) => ({ ...feedRow, id: i + 1 }))
+      );
+
+      await expect(createCalendarFeed('user-1', 'Work')).rejects.toThrow(
+        `You can have at most ${MAX_ACTIVE_CALENDAR_FEEDS} active calendar feeds`
+      );
+    });
+
+    it('should not count revoked feeds towards the limit', async () => {
+      vi.mocked(getCalendarFeedTokensDB).mockResolvedValue(
+        Array.from({ length: MAX_ACTIVE_CALENDAR_FEEDS }, (_, i) => ({
+          ...feedRow,
+          id: i + 1,
+          revoked_at: '2025-01-02T00:00:00.000Z',
+        }))
+      );
+      vi.mocked(createCalendarFeedTokenDB).mockResolvedValue(feedRow);
+
+      await expect(createCalendarFeed('user-1', 'Work')).resolves.toBeDefined();
+    });
+  });
+
+  describe('revokeCalendarFeed', () => {
+    it('should throw when the feed does not belong to the user', async () => {
+      vi.mocked(revokeCalendarFeedTokenDB).mockResolvedValue(null);
+
+      await expect(revokeCalendarFeed('user-1', 99)).rejects.toThrow('Calendar feed not found');
+    });
+  });
+
+  describe('filters', () => {
+    it('should parse project and tag lists and drop invalid values', () => {
+      const filters = parseCalendarFeedFilters(new URLSearchParams('project=1,abc,3&tag=urgent, backend,'));
+
+      expect(filters).toEqual({ projectIds: [1, 3], tags: ['urgent', 'backend'] });
+    });
+
+    it('should filter tasks by project and tag', () => {
+      const tasks = [
+        makeTask({ id: 1, project: { id: 1, name: 'Alpha' }, tags: ['urgent'] }),
+        makeTask({ id: 2, project: { id: 2, name: 'Beta' }, tags: ['urgent'] }),
+        makeTask({ id: 3, project: { id: 1, name: 'Alpha' }, tags: [] }),
+      ];
+
+      expect(filterCalendarFeedTasks(tasks, { projectIds: [1], tags: [] }).map((t) => t.id)).toEqual([1, 3]);
+      expect(filterCalendarFeedTasks(tasks, { projectIds: [1], tags: ['urgent'] }).map((t) => t.id)).toEqual([1]);
+      expect(filterCalendarFeedTasks(tasks, { projectIds: [], tags: [] })).toHaveLength(3);
+    });
+  });
+
+  describe('ETag', () => {
+    it('should ignore DTSTAMP lines', () => {
+      const a = 'BEGIN:VEVENT\r\nDTSTAMP:20250101T000000Z\r\nSUMMARY:Task\r\nEND:VEVENT';
+      const b = 'BEGIN:VEVENT\r\nDTSTAMP:20250102T120000Z\r\nSUMMARY:Task\r\nEND:VEVENT';
+      const c = 'BEGIN:VEVENT\r\nDTSTAMP:20250102T120000Z\r\nSUMMARY:Renamed\r\nEND:VEVENT';
+
+      expect(getCalendarFeedETag(a)).toBe(getCalendarFeedETag(b));
+      expect(getCalendarFeedETag(a)).not.toBe(getCalendarFeedETag(c));
+    });
+
+    it('should match If-None-Match lists, weak tags and *', () => {
+      expect(matchesIfNoneMatch('"abc"', '"abc"')).toBe(true);
+      expect(matchesIfNoneMatch('"x", W/"abc"', '"abc"')).toBe(true);
+      expect(matchesIfNoneMatch('*', '"abc"')).toBe(true);
+      expect(matchesIfNoneMatch('"x"', '"abc"')).toBe(false);
+      expect(matchesIfNoneMatch(null, '"abc"')).toBe(false);
+    });
+  });
+
+  describe('getCalendarFeed', () => {
+    it('should return null for malformed tokens without hitting the database', async () => {
+      await expect(getCalendarFeed('not-a-token', { projectIds: [], tags: [] })).resolves.toBeNull();
+      expect(getActiveCalendarFeedTokenDB).not.toHaveBeenCalled();
+    });
+
+    it('should return null for unknown or revoked tokens', async () => {
+      vi.mocked(getActiveCalendarFeedTokenDB).mockResolvedValue(null);
+
+      await expect(getCalendarFeed('a'.repeat(64), { projectIds: [], tags: [] })).resolves.toBeNull();
+      expect(getActiveCalendarFeedTokenDB).toHaveBeenCalledWith(hashCalendarFeedToken('a'.repeat(64)));
+      expect(getCalendarFeedTasksDB).not.toHaveBeenCalled();
+    });
+
+    it("should render the owner's visible tasks", async () => {
+      vi.mocked(getActiveCalendarFeedTokenDB).mockResolvedValue({ id: 1, user_id: 'user-1', name: 'Work' });
+      vi.mocked(getCalendarFeedTasksDB).mockResolvedValue({
+        tasks: [
+          {
+            id: 7,
+            title: 'Ship release',
+            description: null,
+            priority_bucket: 5,
+            status: 'To Do',
+            deadline: '2025-02-01T00:00:00.000Z',
+            notes: null,
+            project: { id: 1, name: 'Alpha' },
+            parent_task_id: null,
+            recurrence_interval: 0,
+            recurrence_date: null,
+            recurrence_rule: null,
+            creator_id: 'user-1',
+            task_assignments: [],
+            tags: [],
+          },
+        ],
+        subtasks: [],
+        attachments: [],
+        assignees: [],
+      });
+
+      const feed = await getCalendarFeed('a'.repeat(64), { projectIds: [], tags: [] });
+
+      expect(getCalendarFeedTasksDB).toHaveBeenCalledWith('user-1');
+      expect(feed?.body).toContain('X-WR-CALNAME:Work');
+      expect(feed?.body).toContain('SUMMARY:Ship release');
+      expect(feed?.etag).toBe(getCalendarFeedETag(feed!.body));
+    });
+  });
+});
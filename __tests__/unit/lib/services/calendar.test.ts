@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CALENDAR_FILTERS,
+  filterCalendarTasks,
+  getCalendarRange,
+  moveDeadlineToDay,
+  projectRecurringOccurrences,
+} from '@/lib/services/calendar';
+import type { Task } from '@/lib/types/tasks';
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 1,
+  title: 'Task',
+  description: null,
+  status: 'To Do',
+  priority: 5,
+  deadline: new Date(2025, 0, 6, 9, 30).toISOString(),
+  notes: null,
+  recurrence_interval: 0,
+  recurrence_date: null,
+  project: { id: 1, name: 'Alpha' },
+  creator: { creator_id: 'user-1', user_info: { first_name: 'John', last_name: 'Doe' } },
+  subtasks: [],
+  assignees: [],
+  tags: [],
+  attachments: [],
+  isOverdue: false,
+  ...overrides,
+});
+
+describe('lib/services/calendar', () => {
+  describe('getCalendarRange', () => {
+    it('should cover whole weeks around the month for month view', () => {
+      const { start, end } = getCalendarRange('month', new Date(2025, 0, 15));
+      expect(start).toEqual(new Date(2024, 11, 29));
+      expect(end.getFullYear()).toBe(2025);
+      expect(end.getMonth()).toBe(1);
+      expect(end.getDate()).toBe(1);
+    });
+
+    it('should cover only the month for agenda view', () => {
+      const { start, end } = getCalendarRange('agenda', new Date(2025, 0, 15));
+      expect(start).toEqual(new Date(2025, 0, 1));
+      expect(end.getMonth()).toBe(0);
+      expect(end.getDate()).toBe(31);
+    });
+  });
+
+  describe('projectRecurringOccurrences', () => {
+    it('should project weekly occurrences within the range', () => {
+      const task = createTask({ recurrence_interval: 7 });
+      const projected = projectRecurringOccurrences(
+        [task],
+        new Date(2025, 0, 1),
+        new Date(2025, 0, 31, 23, 59)
+      );
+
+      expect(projected.map((t) => new Date(t.deadline!).getDate())).toEqual([13, 20, 27]);
+      expect(projected.every((t) => t.isProjected && t.status === 'To Do')).toBe(true);
+      expect(new Set(projected.map((t) => t.occurrenceKey)).size).toBe(3);
+    });
+
+    it('should skip occurrences before the range start', () => {
+      const task = createTask({ recurrence_interval: 1 });
+      const projected = projectRecurringOccurrences(
+        [task],
+        new Date(2025, 0, 10),
+        new Date(2025, 0, 11, 23, 59)
+      );
+
+      expect(projected.map((t) => new Date(t.deadline!).getDate())).toEqual([10, 11]);
+    });
+
+    it('should ignore non-recurring and completed tasks', () => {
+      const tasks = [
+        createTask({ id: 1 }),
+        createTask({ id: 2, recurrence_interval: 7, status: 'Completed' }),
+        createTask({ id: 3, recurrence_interval: 7, deadline: null }),
+      ];
+
+      expect(
+        projectRecurringOccurrences(tasks, new Date(2025, 0, 1), new Date(2025, 1, 28))
+      ).toEqual([]);
+    });
+  });
+
+  describe('filterCalendarTasks', () => {
+    const tasks = [
+      createTask({ id: 1, status: 'Completed', tags: ['bug'] }),
+      createTask({ id: 2, project: { id: 2, name: 'Beta' }, tags: ['feature'] }),
+      createTask({
+        id: 3,
+        assignees: [
+          { assignee_id: 'user-2', user_info: { first_name: 'Jane', last_name: 'Roe' } },
+        ],
+      }),
+    ];
+
+    it('should return all tasks with default filters', () => {
+      expect(filterCalendarTasks(tasks, DEFAULT_CALENDAR_FILTERS)).toHaveLength(3);
+    });
+
+    it('should hide completed tasks when showCompleted is off', () => {
+      const result = filterCalendarTasks(tasks, { ...DEFAULT_CALENDAR_FILTERS, showCompleted: false });
+      expect(result.map((t) => t.id)).toEqual([2, 3]);
+    });
+
+    it('should filter by project, tag and assignee', () => {
+      expect(
+        filterCalendarTasks(tasks, { ...DEFAULT_CALENDAR_FILTERS, projects: [2] }).map((t) => t.id)
+      ).toEqual([2]);
+      expect(
+        filterCalendarTasks(tasks, { ...DEFAULT_CALENDAR_FILTERS, tags: ['bug'] }).map((t) => t.id)
+      ).toEqual([1]);
+      expect(
+        filterCalendarTasks(tasks, { ...DEFAULT_CALENDAR_FILTERS, assignees: ['user-2'] }).map(
+          (t) => t.id
+        )
+      ).toEqual([3]);
+    });
+  });
+
+  describe('moveDeadlineToDay', () => {
+    it('should keep the original time of day', () => {
+      const moved = new Date(
+        moveDeadlineToDay(new Date(2025, 0, 6, 9, 30).toISOString(), new Date(2025, 0, 9))
+      );
+      expect(moved.getDate()).toBe(9);
+      expect(moved.getHours()).toBe(9);
+      expect(moved.getMinutes()).toBe(30);
+    });
+
+    it('should default to end of day when there is no deadline', () => {
+      const moved = new Date(moveDeadlineToDay(null, new Date(2025, 0, 9)));
+      expect(moved.getDate()).toBe(9);
+      expect(moved.getHours()).toBe(23);
+      expect(moved.getMinutes()).toBe(59);
+    });
+  });
+});
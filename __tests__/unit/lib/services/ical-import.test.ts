@@ -0,0 +1,229 @@
+import { importICalService, MAX_ICAL_IMPORT_EVENTS } from '@/lib/services/ical-import';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { getTakenICalUidsDB, getTasksByICalUidsDB } from '@/lib/db/tasks';
+import {
+  addTag,
+  createTaskService,
+  updateDeadline,
+  updateDescription,
+  updateRecurrence,
+  updateTitle,
+} from '@/lib/services/tasks';
+
+vi.mock('@/lib/db/tasks', () => ({
+  getTakenICalUidsDB: vi.fn(),
+  getTasksByICalUidsDB: vi.fn(),
+}));
+
+vi.mock('@/lib/services/tasks', () => ({
+  addTag: vi.fn(),
+  createTaskService: vi.fn(),
+  updateDeadline: vi.fn(),
+  updateDescription: vi.fn(),
+  updateRecurrence: vi.fn(),
+  updateTitle: vi.fn(),
+}));
+
+const supabase = {} as any;
+
+function calendar(...components: string[][]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...components.flat(), 'END:VCALENDAR'].join('\r\n');
+}
+
+function vevent(lines: string[]): string[] {
+  return ['BEGIN:VEVENT', ...lines, 'END:VEVENT'];
+}
+
+describe('importICalService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getTasksByICalUidsDB).mockResolvedValue([]);
+    vi.mocked(getTakenICalUidsDB).mockResolvedValue([]);
+    vi.mocked(createTaskService).mockResolvedValue(42);
+  });
+
+  it('should map an event to a task payload', async () => {
+    const content = calendar(
+      vevent([
+        'UID:evt-1',
+        'SUMMARY:Sprint review',
+        'DESCRIPTION:Demo the board',
+        'DTSTART:20991120T090000Z',
+        'CATEGORIES:sprint,demo',
+        'RRULE:FREQ=WEEKLY;INTERVAL=2',
+        'PRIORITY:2',
+      ])
+    );
+
+    const summary = await importICalService(supabase, content, 3, 'user-1');
+
+    expect(createTaskService).toHaveBeenCalledWith(
+      supabase,
+      {
+        project_id: 3,
+        title: 'Sprint review',
+        description: 'Demo the board',
+        priority_bucket: 8,
+        status: 'To Do',
+        assignee_ids: ['user-1'],
+        deadline: '2099-11-20T09:00:00.000Z',
+        tags: ['sprint', 'demo'],
+        ical_uid: 'evt-1',
+        recurrence_rule: 'FREQ=WEEKLY;INTERVAL=2',
+        recurrence_interval: 14,
+        recurrence_date: '2099-11-20T09:00:00.000Z',
+      },
+      'user-1'
+    );
+    expect(summary).toMatchObject({ dryRun: false, created: 1, updated: 0, failed: 0 });
+    expect(summary.results[0]).toMatchObject({ action: 'create', taskId: 42, uid: 'evt-1' });
+  });
+
+  it('should use DUE for to-dos and map their status', async () => {
+    const content = calendar([
+      'BEGIN:VTODO',
+      'UID:todo-1',
+      'SUMMARY:Write notes',
+      'DTSTART:20991101T090000Z',
+      'DUE:20991105T170000Z',
+      'STATUS:COMPLETED',
+      'END:VTODO',
+    ]);
+
+    await importICalService(supabase, content, 3, 'user-1');
+
+    expect(vi.mocked(createTaskService).mock.calls[0][1]).toMatchObject({
+      deadline: '2099-11-05T17:00:00.000Z',
+      status: 'Completed',
+    });
+  });
+
+  it('should not write anything on a dry run', async () => {
+    const content = calendar(vevent(['UID:evt-1', 'SUMMARY:Review', 'DTSTART:20991120']));
+
+    const summary = await importICalService(supabase, content, 3, 'user-1', { dryRun: true });
+
+    expect(createTaskService).not.toHaveBeenCalled();
+    expect(summary).toMatchObject({ dryRun: true, created: 1 });
+    expect(summary.results[0].taskId).toBeUndefined();
+  });
+
+  it('should report per-event errors and keep importing the rest', async () => {
+    const content = calendar(
+      vevent(['UID:no-date', 'SUMMARY:No date']),
+      vevent(['UID:no-title', 'DTSTART:20991120']),
+      vevent(['UID:ok', 'SUMMARY:Fine', 'DTSTART:20991120']),
+      vevent(['UID:ok', 'SUMMARY:Fine again', 'DTSTART:20991121'])
+    );
+
+    const summary = await importICalService(supabase, content, 3, 'user-1');
+
+    expect(summary.results.map((r) => [r.action, r.error])).toEqual([
+      ['error', 'Missing DTSTART'],
+      ['error', 'Missing SUMMARY'],
+      ['create', undefined],
+      ['error', 'Duplicate UID ok in file'],
+    ]);
+    expect(summary).toMatchObject({ created: 1, failed: 3 });
+    expect(createTaskService).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report failures from task creation on the event', async () => {
+    vi.mocked(createTaskService).mockRejectedValue(new Error('Failed to create task: boom'));
+    const content = calendar(vevent(['UID:evt-1', 'SUMMARY:Review', 'DTSTART:20991120']));
+
+    const summary = await importICalService(supabase, content, 3, 'user-1');
+
+    expect(summary.results[0]).toMatchObject({ action: 'error', error: 'Failed to create task: boom' });
+  });
+
+  it('should import the task without recurrence when the RRULE is unsupported', async () => {
+    const content = calendar(
+      vevent(['UID:evt-1', 'SUMMARY:Review', 'DTSTART:20991120', 'RRULE:FREQ=HOURLY'])
+    );
+
+    const summary = await importICalService(supabase, content, 3, 'user-1');
+
+    expect(summary.results[0].action).toBe('create');
+    expect(summary.results[0].warnings[0]).toMatch(/^Recurrence not imported: /);
+    expect(vi.mocked(createTaskService).mock.calls[0][1].recurrence_rule).toBeUndefined();
+  });
+
+  it('should update tasks imported earlier from the same UID', async () => {
+    vi.mocked(getTasksByICalUidsDB).mockResolvedValue([
+      {
+        id: 7,
+        ical_uid: 'evt-1',
+        title: 'Old title',
+        description: 'Demo the board',
+        deadline: '2099-11-20T09:00:00+00:00',
+        recurrence_rule: null,
+        tags: ['sprint'],
+      },
+    ]);
+    const content = calendar(
+      vevent([
+        'UID:evt-1',
+        'SUMMARY:Sprint review',
+        'DESCRIPTION:Demo the board',
+        'DTSTART:20991120T090000Z',
+        'CATEGORIES:sprint,demo',
+      ])
+    );
+
+    const summary = await importICalService(supabase, content, 3, 'user-1');
+
+    expect(getTasksByICalUidsDB).toHaveBeenCalledWith(3, ['evt-1']);
+    expect(createTaskService).not.toHaveBeenCalled();
+    expect(updateTitle).toHaveBeenCalledWith(7, 'Sprint review', 'user-1');
+    expect(updateDescription).not.toHaveBeenCalled();
+    expect(updateDeadline).not.toHaveBeenCalled();
+    expect(updateRecurrence).not.toHaveBeenCalled();
+    expect(addTag).toHaveBeenCalledTimes(1);
+    expect(addTag).toHaveBeenCalledWith(7, 'demo', 'user-1');
+    expect(summary).toMatchObject({ created: 0, updated: 1 });
+    expect(summary.results[0]).toMatchObject({ action: 'update', taskId: 7 });
+  });
+
+  it('should skip UIDs already used by a task the user cannot view', async () => {
+    vi.mocked(getTakenICalUidsDB).mockResolvedValue(['evt-1']);
+    const content = calendar(
+      vevent(['UID:evt-1', 'SUMMARY:Hidden', 'DTSTART:20991120']),
+      vevent(['UID:evt-2', 'SUMMARY:Visible', 'DTSTART:20991121'])
+    );
+
+    const summary = await importICalService(supabase, content, 3, 'user-1');
+
+    expect(getTakenICalUidsDB).toHaveBeenCalledWith(3, ['evt-1', 'evt-2']);
+    expect(createTaskService).toHaveBeenCalledTimes(1);
+    expect(updateTitle).not.toHaveBeenCalled();
+    expect(summary).toMatchObject({ created: 1, updated: 0, skipped: 1, failed: 0 });
+    expect(summary.results[0]).toMatchObject({
+      action: 'skip',
+      warnings: ['Already imported into this project as a task you cannot view'],
+    });
+  });
+
+  it('should reject an invalid project', async () => {
+    await expect(importICalService(supabase, calendar(), 0, 'user-1')).rejects.toThrow(
+      'A valid project is required'
+    );
+  });
+
+  it('should reject calendars without events', async () => {
+    await expect(importICalService(supabase, calendar(), 3, 'user-1')).rejects.toThrow(
+      'The calendar has no events or to-dos'
+    );
+  });
+
+  it('should reject files with too many events', async () => {
+    const events = Array.from({ length: MAX_ICAL_IMPORT_EVENTS + 1 }, (_, i) =>
+      vevent([`UID:evt-${i}`, 'SUMMARY:Event', 'DTSTART:20991120'])
+    );
+
+    await expect(importICalService(supabase, calendar(...events), 3, 'user-1')).rejects.toThrow(
+      `Cannot import more than ${MAX_ICAL_IMPORT_EVENTS} events at once`
+    );
+  });
+});
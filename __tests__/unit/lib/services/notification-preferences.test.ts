@@ -0,0 +1,123 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from '@/lib/services/notification-preferences';
+import {
+  getEventPreferencesDB,
+  getNotificationPreferencesDB,
+  upsertEventPreferencesDB,
+  upsertNotificationPreferencesDB,
+} from '@/lib/db/notification-preferences';
+
+vi.mock('@/lib/db/notification-preferences', () => ({
+  getEventPreferencesDB: vi.fn(),
+  getNotificationPreferencesDB: vi.fn(),
+  upsertEventPreferencesDB: vi.fn(),
+  upsertNotificationPreferencesDB: vi.fn(),
+}));
+
+describe('notification preferences service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getNotificationPreferencesDB).mockResolvedValue(null);
+    vi.mocked(getEventPreferencesDB).mockResolvedValue([]);
+  });
+
+  describe('getNotificationPreferences', () => {
+    it('should default to every notification and a daily digest', async () => {
+      const preferences = await getNotificationPreferences('user-1');
+
+      expect(preferences.quiet_hours).toBeNull();
+      expect(preferences.digest_frequency).toBe('daily');
+      expect(Object.values(preferences.events).every((e) => e.in_app && e.email)).toBe(true);
+    });
+
+    it('should apply stored settings and ignore unknown event types', async () => {
+      vi.mocked(getNotificationPreferencesDB).mockResolvedValue({
+        quiet_hours_start: '22:00:00',
+        quiet_hours_end: '07:30:00',
+        digest_frequency: 'weekly',
+      });
+      vi.mocked(getEventPreferencesDB).mockResolvedValue([
+        { event_type: 'comment', in_app: false, email: true },
+        { event_type: 'retired_event', in_app: false, email: false },
+      ]);
+
+      const preferences = await getNotificationPreferences('user-1');
+
+      expect(preferences.quiet_hours).toEqual({ start: '22:00', end: '07:30' });
+      expect(preferences.digest_frequency).toBe('weekly');
+      expect(preferences.events.comment).toEqual({ in_app: false, email: true });
+      expect(preferences.events.assignment).toEqual({ in_app: true, email: true });
+      expect(preferences.events).not.toHaveProperty('retired_event');
+    });
+  });
+
+  describe('updateNotificationPreferences', () => {
+    it('should save only the changed event toggles', async () => {
+      const preferences = await updateNotificationPreferences('user-1', {
+        events: { comment: { in_app: false }, deadline_reminder: { email: false } },
+      });
+
+      expect(upsertEventPreferencesDB).toHaveBeenCalledWith('user-1', [
+        { event_type: 'comment', in_app: false, email: true },
+        { event_type: 'deadline_reminder', in_app: true, email: false },
+      ]);
+      expect(upsertNotificationPreferencesDB).not.toHaveBeenCalled();
+      expect(preferences.events.comment.in_app).toBe(false);
+      expect(preferences.events.deadline_reminder.email).toBe(false);
+    });
+
+    it('should keep the other settings when changing quiet hours', async () => {
+      vi.mocked(getNotificationPreferencesDB).mockResolvedValue({
+        quiet_hours_start: null,
+        quiet_hours_end: null,
+        digest_frequency: 'off',
+      });
+
+      const preferences = await updateNotificationPreferences('user-1', {
+        quietHours: { start: '22:00', end: '07:00' },
+      });
+
+      expect(upsertNotificationPreferencesDB).toHaveBeenCalledWith('user-1', {
+        quiet_hours_start: '22:00',
+        quiet_hours_end: '07:00',
+        digest_frequency: 'off',
+      });
+      expect(preferences.quiet_hours).toEqual({ start: '22:00', end: '07:00' });
+    });
+
+    it('should turn quiet hours off with null', async () => {
+      vi.mocked(getNotificationPreferencesDB).mockResolvedValue({
+        quiet_hours_start: '22:00:00',
+        quiet_hours_end: '07:00:00',
+        digest_frequency: 'daily',
+      });
+
+      await updateNotificationPreferences('user-1', { quietHours: null });
+
+      expect(upsertNotificationPreferencesDB).toHaveBeenCalledWith('user-1', {
+        quiet_hours_start: null,
+        quiet_hours_end: null,
+        digest_frequency: 'daily',
+      });
+    });
+
+    it.each([
+      [{ events: { unknown: { in_app: false } } }, 'Unknown notification type: unknown'],
+      [{ events: { comment: { sms: false } } }, 'Unknown notification channel: sms'],
+      [{ events: { comment: { email: false } } }, 'Comments cannot be delivered by email'],
+      [{ events: { deadline_reminder: { in_app: false } } }, 'Deadline reminders cannot be delivered by in-app'],
+      [{ events: { comment: { in_app: 'no' } } }, 'must be true or false'],
+      [{ quietHours: { start: '9pm', end: '07:00' } }, 'Quiet hours start must be a time in HH:mm format'],
+      [{ quietHours: { start: '22:00', end: '24:00' } }, 'Quiet hours end must be a time in HH:mm format'],
+      [{ quietHours: { start: '22:00', end: '22:00' } }, 'Quiet hours must start and end at different times'],
+      [{ digestFrequency: 'hourly' }, 'Digest frequency must be one of: off, daily, weekly'],
+    ])('should reject %j', async (input, message) => {
+      await expect(updateNotificationPreferences('user-1', input)).rejects.toThrow(message);
+      expect(upsertEventPreferencesDB).not.toHaveBeenCalled();
+      expect(upsertNotificationPreferencesDB).not.toHaveBeenCalled();
+    });
+  });
+});
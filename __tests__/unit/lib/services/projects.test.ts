@@ -0,0 +1,291 @@
+import {
+  archiveProject,
+  createProject,
+  getProjectDetails,
+  listManagedProjects,
+  updateProject,
+} from '@/lib/services/projects';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { getRolesForUserClient } from '@/lib/db/roles';
+import { getDepartmentsForUser } from '@/lib/db/filter';
+import {
+  createProjectDB,
+  getAllDepartmentsDB,
+  getProjectDB,
+  getProjectMemberNamesDB,
+  getProjectsDB,
+  getProjectTasksDB,
+  updateProjectDB,
+  updateProjectDepartmentsDB,
+} from '@/lib/db/projects';
+
+vi.mock('@/lib/db/roles', () => ({
+  getRolesForUserClient: vi.fn(),
+}));
+
+vi.mock('@/lib/db/filter', () => ({
+  getDepartmentsForUser: vi.fn(),
+}));
+
+vi.mock('@/lib/db/projects', () => ({
+  createProjectDB: vi.fn(),
+  getAllDepartmentsDB: vi.fn(),
+  getProjectDB: vi.fn(),
+  getProjectMemberNamesDB: vi.fn(),
+  getProjectsDB: vi.fn(),
+  getProjectTasksDB: vi.fn(),
+  updateProjectDB: vi.fn(),
+  updateProjectDepartmentsDB: vi.fn(),
+}));
+
+const supabase = {} as any;
+
+const engineering = { id: 1, name: 'Engineering' };
+const finance = { id: 2, name: 'Finance' };
+const sales = { id: 3, name: 'Sales' };
+
+const rawProject = (id: number, departments = [engineering], isArchived = false) => ({
+  id,
+  name: `Project ${id}`,
+  is_archived: isArchived,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+  project_departments: departments.map((d) => ({ departments: d })),
+});
+
+const task = (id: number, projectId: number, status: string, assigneeIds: string[]) => ({
+  id,
+  project_id: projectId,
+  status,
+  task_assignments: assigneeIds.map((assignee_id) => ({ assignee_id })),
+});
+
+describe('projects service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getRolesForUserClient).mockResolvedValue(['manager']);
+    vi.mocked(getDepartmentsForUser).mockResolvedValue([engineering, finance]);
+    vi.mocked(getAllDepartmentsDB).mockResolvedValue([engineering, finance, sales]);
+    vi.mocked(getProjectTasksDB).mockResolvedValue([]);
+  });
+
+  describe('permissions', () => {
+    it('should reject staff for every operation', async () => {
+      vi.mocked(getRolesForUserClient).mockResolvedValue(['staff']);
+      const error = 'Only managers and admins can manage projects';
+
+      await expect(listManagedProjects(supabase, 'u1')).rejects.toThrow(error);
+      await expect(getProjectDetails(supabase, 'u1', 1)).rejects.toThrow(error);
+      await expect(createProject(supabase, 'u1', { name: 'New' })).rejects.toThrow(error);
+      await expect(updateProject(supabase, 'u1', 1, { name: 'New' })).rejects.toThrow(error);
+      expect(createProjectDB).not.toHaveBeenCalled();
+      expect(updateProjectDB).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listManagedProjects', () => {
+    it('should include archived projects and count only open tasks', async () => {
+      vi.mocked(getRolesForUserClient).mockResolvedValue(['admin']);
+      vi.mocked(getProjectsDB).mockResolvedValue([rawProject(1, [finance, engineering]), rawProject(2, [], true)]);
+      vi.mocked(getProjectTasksDB).mockResolvedValue([
+        task(10, 1, 'To Do', ['a']),
+        task(11, 1, 'Completed', ['a']),
+        task(12, 2, 'Blocked', ['b']),
+      ]);
+
+      const projects = await listManagedProjects(supabase, 'u1');
+
+      expect(getProjectTasksDB).toHaveBeenCalledWith([1, 2]);
+      expect(projects).toEqual([
+        expect.objectContaining({ id: 1, open_task_count: 1, departments: [engineering, finance] }),
+        expect.objectContaining({ id: 2, is_archived: true, open_task_count: 1, departments: [] }),
+      ]);
+    });
+
+    it("should only list projects linked to the manager's departments", async () => {
+      vi.mocked(getRolesForUserClient).mockResolvedValue(['manager']);
+      vi.mocked(getProjectsDB).mockResolvedValue([
+        rawProject(1, [finance]),
+        rawProject(2, [sales]),
+        rawProject(3, []),
+        rawProject(4, [sales, engineering]),
+      ]);
+
+      const projects = await listManagedProjects(supabase, 'u1');
+
+      expect(getProjectTasksDB).toHaveBeenCalledWith([1, 4]);
+      expect(projects.map((p) => p.id)).toEqual([1, 4]);
+    });
+  });
+
+  describe('getProjectDetails', () => {
+    it('should list members with their open and total task counts', async () => {
+      vi.mocked(getProjectDB).mockResolvedValue(rawProject(1));
+      vi.mocked(getProjectTasksDB).mockResolvedValue([
+        task(10, 1, 'To Do', ['a', 'b']),
+        task(11, 1, 'Completed', ['a']),
+        task(12, 1, 'In Progress', ['b']),
+      ]);
+      vi.mocked(getProjectMemberNamesDB).mockResolvedValue([
+        { id: 'a', first_name: 'Ada', last_name: 'Lovelace' },
+        { id: 'b', first_name: 'Bob', last_name: 'Builder' },
+      ]);
+
+      const details = await getProjectDetails(supabase, 'u1', 1);
+
+      expect(details).toMatchObject({
+        open_task_count: 2,
+        task_count: 3,
+        members: [
+          { id: 'b', name: 'Bob Builder', open_task_count: 2, task_count: 2 },
+          { id: 'a', name: 'Ada Lovelace', open_task_count: 1, task_count: 2 },
+        ],
+        linkable_departments: [engineering, finance],
+      });
+    });
+
+    it('should offer every department to admins', async () => {
+      vi.mocked(getRolesForUserClient).mockResolvedValue(['admin']);
+      vi.mocked(getProjectDB).mockResolvedValue(rawProject(1));
+      vi.mocked(getProjectMemberNamesDB).mockResolvedValue([]);
+
+      const details = await getProjectDetails(supabase, 'u1', 1);
+
+      expect(details?.linkable_departments).toEqual([engineering, finance, sales]);
+      expect(getDepartmentsForUser).not.toHaveBeenCalled();
+    });
+
+    it('should return null for a missing project', async () => {
+      vi.mocked(getProjectDB).mockResolvedValue(null);
+
+      await expect(getProjectDetails(supabase, 'u1', 99)).resolves.toBeNull();
+    });
+
+    it("should return null for a project outside the manager's departments", async () => {
+      vi.mocked(getProjectDB).mockResolvedValue(rawProject(1, [sales]));
+
+      await expect(getProjectDetails(supabase, 'u1', 1)).resolves.toBeNull();
+      expect(getProjectTasksDB).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createProject', () => {
+    it('should trim the name and link the given departments', async () => {
+      vi.mocked(createProjectDB).mockResolvedValue(rawProject(5, []));
+      vi.mocked(getProjectDB).mockResolvedValue(rawProject(5, [finance]));
+
+      const project = await createProject(supabase, 'u1', { name: '  Apollo  ', departmentIds: [2] });
+
+      expect(createProjectDB).toHaveBeenCalledWith('Apollo');
+      expect(updateProjectDepartmentsDB).toHaveBeenCalledWith(5, { add: [2], remove: [] });
+      expect(project.departments).toEqual([finance]);
+    });
+
+    it('should reject an empty name', async () => {
+      await expect(createProject(supabase, 'u1', { name: '   ' })).rejects.toThrow('Project name is required');
+      expect(createProjectDB).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid department IDs before creating anything', async () => {
+      await expect(createProject(supabase, 'u1', { name: 'Apollo', departmentIds: ['x'] })).rejects.toThrow(
+        'Department IDs must be positive integers'
+      );
+      expect(createProjectDB).not.toHaveBeenCalled();
+    });
+
+    it('should reject departments the manager cannot link before creating anything', async () => {
+      await expect(createProject(supabase, 'u1', { name: 'Apollo', departmentIds: [2, 3] })).rejects.toThrow(
+        'You can only link departments you manage'
+      );
+      expect(createProjectDB).not.toHaveBeenCalled();
+      expect(updateProjectDepartmentsDB).not.toHaveBeenCalled();
+    });
+
+    it("should link the manager's departments when none are given", async () => {
+      vi.mocked(createProjectDB).mockResolvedValue(rawProject(5, []));
+      vi.mocked(getProjectDB).mockResolvedValue(rawProject(5, [engineering, finance]));
+
+      await createProject(supabase, 'u1', { name: 'Apollo' });
+
+      expect(updateProjectDepartmentsDB).toHaveBeenCalledWith(5, { add: [1, 2], remove: [] });
+    });
+
+    it('should let admins create a project without departments', async () => {
+      vi.mocked(getRolesForUserClient).mockResolvedValue(['admin']);
+      vi.mocked(createProjectDB).mockResolvedValue(rawProject(5, []));
+
+      const project = await createProject(supabase, 'u1', { name: 'Apollo' });
+
+      expect(updateProjectDepartmentsDB).not.toHaveBeenCalled();
+      expect(project.departments).toEqual([]);
+    });
+  });
+
+  describe('updateProject', () => {
+    it('should rename and archive', async () => {
+      vi.mocked(getProjectDB).mockResolvedValue(rawProject(1));
+      vi.mocked(updateProjectDB).mockResolvedValue(true);
+
+      await updateProject(supabase, 'u1', 1, { name: 'Renamed', isArchived: true });
+
+      expect(updateProjectDB).toHaveBeenCalledWith(1, { name: 'Renamed', is_archived: true });
+      expect(updateProjectDepartmentsDB).not.toHaveBeenCalled();
+    });
+
+    it('should only apply the department changes', async () => {
+      vi.mocked(getProjectDB).mockResolvedValue(rawProject(1, [engineering]));
+
+      await updateProject(supabase, 'u1', 1, { departmentIds: [2] });
+
+      expect(updateProjectDepartmentsDB).toHaveBeenCalledWith(1, { add: [2], remove: [1] });
+      expect(updateProjectDB).not.toHaveBeenCalled();
+    });
+
+    it('should not let managers unlink departments outside their hierarchy', async () => {
+      vi.mocked(getProjectDB).mockResolvedValue(rawProject(1, [engineering, sales]));
+
+      await expect(updateProject(supabase, 'u1', 1, { departmentIds: [1] })).rejects.toThrow(
+        'You can only link departments you manage'
+      );
+      expect(updateProjectDepartmentsDB).not.toHaveBeenCalled();
+    });
+
+    it('should leave links the manager cannot change in place', async () => {
+      vi.mocked(getProjectDB).mockResolvedValue(rawProject(1, [engineering, sales]));
+
+      await updateProject(supabase, 'u1', 1, { departmentIds: [2, 3] });
+
+      expect(updateProjectDepartmentsDB).toHaveBeenCalledWith(1, { add: [2], remove: [1] });
+    });
+
+    it('should throw when the project does not exist', async () => {
+      vi.mocked(getProjectDB).mockResolvedValue(null);
+
+      await expect(updateProject(supabase, 'u1', 99, { name: 'X' })).rejects.toThrow('Project not found');
+    });
+
+    it('should not let managers change a project outside their departments', async () => {
+      vi.mocked(getProjectDB).mockResolvedValue(rawProject(1, [sales]));
+
+      await expect(updateProject(supabase, 'u1', 1, { name: 'X' })).rejects.toThrow('Project not found');
+      await expect(archiveProject(supabase, 'u1', 1)).rejects.toThrow('Project not found');
+      expect(updateProjectDB).not.toHaveBeenCalled();
+    });
+
+    it('should require at least one change', async () => {
+      await expect(updateProject(supabase, 'u1', 1, {})).rejects.toThrow('No changes provided');
+    });
+  });
+
+  describe('archiveProject', () => {
+    it('should set is_archived', async () => {
+      vi.mocked(getProjectDB).mockResolvedValue(rawProject(1));
+      vi.mocked(updateProjectDB).mockResolvedValue(true);
+
+      await archiveProject(supabase, 'u1', 1);
+
+      expect(updateProjectDB).toHaveBeenCalledWith(1, { is_archived: true });
+    });
+  });
+});
@@ -1,23 +1,28 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { tasks } from '@/__tests__/fixtures/database.fixtures';
+import { tasks, departmentsFixtures } from '@/__tests__/fixtures/database.fixtures';
 
 // Mock dependencies
 vi.mock('@/lib/db/report', () => ({
   getTasks: vi.fn(),
   getUsersByIds: vi.fn(),
   getWeeklyTaskStatsByUser: vi.fn(),
+  getTaskStatusHistory: vi.fn(),
+  getDepartmentScope: vi.fn(),
 }));
 
 // Dynamic import after mocks
 const { generateLoggedTimeReport, generateTeamSummaryReport, generateTaskCompletionReport } =
   await import('@/lib/services/report');
-const { getTasks, getUsersByIds, getWeeklyTaskStatsByUser } = await import('@/lib/db/report');
+const { getTasks, getUsersByIds, getWeeklyTaskStatsByUser, getTaskStatusHistory, getDepartmentScope } =
+  await import('@/lib/db/report');
 
 describe('lib/services/report', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     vi.mocked(getUsersByIds).mockResolvedValue([]);
     vi.mocked(getWeeklyTaskStatsByUser).mockResolvedValue([]);
+    vi.mocked(getTaskStatusHistory).mockResolvedValue([]);
+    vi.mocked(getDepartmentScope).mockResolvedValue([]);
   });
 
   describe('generateLoggedTimeReport', () => {
@@ -28,14 +33,14 @@ describe('lib/services/report', () => {
           status: 'Completed',
           logged_time: 3600, // 1 hour
           deadline: '2024-01-15T00:00:00Z',
-          updated_at: '2024-01-14T00:00:00Z', // On time
+          completed_at: '2024-01-14T00:00:00Z', // On time
         },
         {
           ...tasks[1],
           status: 'Completed',
           logged_time: 7200, // 2 hours
           deadline: '2024-01-20T00:00:00Z',
-          updated_at: '2024-01-22T00:00:00Z', // Late by 2 days
+          completed_at: '2024-01-22T00:00:00Z', // Late by 2 days
         },
         {
           ...tasks[2],
@@ -172,7 +177,7 @@ describe('lib/services/report', () => {
           status: 'Completed',
           logged_time: 3600,
           deadline: '2024-01-15T00:00:00Z',
-          updated_at: '2024-01-15T12:00:00Z', // 12 hours late
+          completed_at: '2024-01-15T12:00:00Z', // 12 hours late
         },
       ];
 
@@ -203,6 +208,32 @@ describe('lib/services/report', () => {
       });
     });
 
+    it('should scope tasks by department and report the departments covered', async () => {
+      const departmentIds = [departmentsFixtures.engineering.id];
+      const covered = [
+        { id: departmentsFixtures.engineering.id, name: departmentsFixtures.engineering.name },
+        { id: departmentsFixtures.operations.id, name: departmentsFixtures.operations.name },
+      ];
+
+      vi.mocked(getTasks).mockResolvedValue([]);
+      vi.mocked(getDepartmentScope).mockResolvedValue(covered);
+
+      const result = await generateLoggedTimeReport({ departmentIds });
+
+      expect(getTasks).toHaveBeenCalledWith(expect.objectContaining({ departmentIds }));
+      expect(getDepartmentScope).toHaveBeenCalledWith(departmentIds);
+      expect(result.departments).toEqual(covered);
+    });
+
+    it('should cover no particular departments when not filtered by department', async () => {
+      vi.mocked(getTasks).mockResolvedValue([]);
+
+      const result = await generateLoggedTimeReport({ projectIds: [1] });
+
+      expect(getDepartmentScope).toHaveBeenCalledWith([]);
+      expect(result.departments).toEqual([]);
+    });
+
     it('should calculate incomplete time correctly', async () => {
       const mockTasks = [
         { ...tasks[0], logged_time: 3600, status: 'Completed' },
@@ -257,21 +288,21 @@ describe('lib/services/report', () => {
           status: 'Completed',
           logged_time: 3600,
           deadline: '2024-01-15T00:00:00Z',
-          updated_at: '2024-01-14T00:00:00Z', // On time
+          completed_at: '2024-01-14T00:00:00Z', // On time
         },
         {
           ...tasks[1],
           status: 'Completed',
           logged_time: 3600,
           deadline: '2024-01-15T00:00:00Z',
-          updated_at: '2024-01-14T00:00:00Z', // On time
+          completed_at: '2024-01-14T00:00:00Z', // On time
         },
         {
           ...tasks[2],
           status: 'Completed',
           logged_time: 3600,
           deadline: '2024-01-15T00:00:00Z',
-          updated_at: '2024-01-20T00:00:00Z', // Late
+          completed_at: '2024-01-20T00:00:00Z', // Late
         },
       ];
 
@@ -313,6 +344,62 @@ describe('lib/services/report', () => {
 
       expect(result.overdueTasks).toBe(2); // Only In Progress and Blocked
     });
+
+    it('should ignore edits made after completion', async () => {
+      const mockTasks = [
+        {
+          ...tasks[0],
+          status: 'Completed',
+          deadline: '2024-01-15T00:00:00Z',
+          completed_at: '2024-01-14T00:00:00Z', // On time
+          updated_at: '2024-02-01T00:00:00Z', // Commented on weeks later
+        },
+      ];
+
+      vi.mocked(getTasks).mockResolvedValue(mockTasks as any);
+
+      const result = await generateLoggedTimeReport({});
+
+      expect(result.onTimeCompletionRate).toBe(1);
+      expect(result.totalDelayHours).toBe(0);
+    });
+
+    it('should report lead time, cycle time, time Blocked and reopens from status history', async () => {
+      const mockTasks = [
+        {
+          ...tasks[0],
+          status: 'Completed',
+          created_at: '2024-01-01T00:00:00Z',
+          started_at: '2024-01-02T00:00:00Z',
+          completed_at: '2024-01-04T00:00:00Z',
+        },
+        {
+          ...tasks[1],
+          status: 'In Progress',
+          created_at: '2024-01-01T00:00:00Z',
+          started_at: '2024-01-01T00:00:00Z',
+          completed_at: null,
+        },
+      ];
+      vi.mocked(getTasks).mockResolvedValue(mockTasks as any);
+      vi.mocked(getTaskStatusHistory).mockResolvedValue([
+        { task_id: tasks[0].id, status: 'To Do', previous_status: null, entered_at: '2024-01-01T00:00:00Z', left_at: '2024-01-02T00:00:00Z' },
+        { task_id: tasks[0].id, status: 'In Progress', previous_status: 'To Do', entered_at: '2024-01-02T00:00:00Z', left_at: '2024-01-02T12:00:00Z' },
+        { task_id: tasks[0].id, status: 'Blocked', previous_status: 'In Progress', entered_at: '2024-01-02T12:00:00Z', left_at: '2024-01-03T00:00:00Z' },
+        { task_id: tasks[0].id, status: 'Completed', previous_status: 'Blocked', entered_at: '2024-01-03T00:00:00Z', left_at: '2024-01-03T06:00:00Z' },
+        { task_id: tasks[0].id, status: 'In Progress', previous_status: 'Completed', entered_at: '2024-01-03T06:00:00Z', left_at: '2024-01-04T00:00:00Z' },
+        { task_id: tasks[0].id, status: 'Completed', previous_status: 'In Progress', entered_at: '2024-01-04T00:00:00Z', left_at: null },
+        { task_id: tasks[1].id, status: 'In Progress', previous_status: null, entered_at: '2024-01-01T00:00:00Z', left_at: null },
+      ]);
+
+      const result = await generateLoggedTimeReport({});
+
+      expect(getTaskStatusHistory).toHaveBeenCalledWith([tasks[0].id, tasks[1].id]);
+      expect(result.avgLeadTime).toBe(72); // only the completed task
+      expect(result.avgCycleTime).toBe(48);
+      expect(result.blockedTime).toBe(12);
+      expect(result.reopenCount).toBe(1);
+    });
   });
 
   describe('generateTeamSummaryReport', () => {
@@ -567,6 +654,20 @@ describe('lib/services/report', () => {
       });
     });
 
+    it('should scope weekly stats by department and report the departments covered', async () => {
+      const departmentIds = [departmentsFixtures.marketing.id];
+      const covered = [
+        { id: departmentsFixtures.marketing.id, name: departmentsFixtures.marketing.name },
+        { id: departmentsFixtures.hr.id, name: departmentsFixtures.hr.name },
+      ];
+      vi.mocked(getDepartmentScope).mockResolvedValue(covered);
+
+      const result = await generateTeamSummaryReport({ departmentIds });
+
+      expect(getWeeklyTaskStatsByUser).toHaveBeenCalledWith(expect.objectContaining({ departmentIds }));
+      expect(result.departments).toEqual(covered);
+    });
+
     it('should calculate total tasks correctly', async () => {
       const mockWeeklyStats = [
         {
@@ -632,7 +733,7 @@ describe('lib/services/report', () => {
           creator_id: 'user1',
           logged_time: 3600,
           created_at: '2024-01-01T00:00:00Z',
-          updated_at: '2024-01-02T00:00:00Z',
+          completed_at: '2024-01-02T00:00:00Z',
           deadline: '2024-01-03T00:00:00Z',
         },
         {
@@ -647,7 +748,7 @@ describe('lib/services/report', () => {
           creator_id: 'user2',
           logged_time: 7200,
           created_at: '2024-01-01T00:00:00Z',
-          updated_at: '2024-01-05T00:00:00Z',
+          completed_at: '2024-01-05T00:00:00Z',
           deadline: '2024-01-04T00:00:00Z',
         },
       ];
@@ -692,14 +793,14 @@ describe('lib/services/report', () => {
           status: 'Completed',
           creator_id: 'user1',
           created_at: '2024-01-01T00:00:00Z',
-          updated_at: '2024-01-01T12:00:00Z', // 12 hours
+          completed_at: '2024-01-01T12:00:00Z', // 12 hours
         },
         {
           ...tasks[1],
           status: 'Completed',
           creator_id: 'user1',
           created_at: '2024-01-02T00:00:00Z',
-          updated_at: '2024-01-03T00:00:00Z', // 24 hours
+          completed_at: '2024-01-03T00:00:00Z', // 24 hours
         },
       ];
 
@@ -711,6 +812,45 @@ describe('lib/services/report', () => {
       expect(userStats.avgCompletionTime).toBe(18); // (12 + 24) / 2 = 18 hours
     });
 
+    it('should report cycle time, time Blocked and reopens per user and overall', async () => {
+      const mockTasks = [
+        {
+          ...tasks[0],
+          status: 'Completed',
+          creator_id: 'user1',
+          created_at: '2024-01-01T00:00:00Z',
+          started_at: '2024-01-01T06:00:00Z',
+          completed_at: '2024-01-02T00:00:00Z',
+        },
+        {
+          ...tasks[1],
+          status: 'Completed',
+          creator_id: 'user1',
+          created_at: '2024-01-01T00:00:00Z',
+          started_at: null, // completed straight from To Do
+          completed_at: '2024-01-01T12:00:00Z',
+        },
+      ];
+      vi.mocked(getTasks).mockResolvedValue(mockTasks as any);
+      vi.mocked(getTaskStatusHistory).mockResolvedValue([
+        { task_id: tasks[0].id, status: 'Blocked', previous_status: 'In Progress', entered_at: '2024-01-01T08:00:00Z', left_at: '2024-01-01T10:00:00Z' },
+        { task_id: tasks[1].id, status: 'To Do', previous_status: 'Completed', entered_at: '2024-01-01T11:00:00Z', left_at: '2024-01-01T12:00:00Z' },
+      ]);
+
+      const result = await generateTaskCompletionReport({});
+
+      expect(result.userStats[0]).toMatchObject({
+        avgCompletionTime: 18, // (24 + 12) / 2
+        avgCycleTime: 18, // only the task that was started
+        blockedTime: 2,
+        reopenCount: 1,
+      });
+      expect(result.avgLeadTime).toBe(18);
+      expect(result.avgCycleTime).toBe(18);
+      expect(result.totalBlockedTime).toBe(2);
+      expect(result.totalReopens).toBe(1);
+    });
+
     it('should calculate logged time statistics correctly', async () => {
       const mockTasks = [
         { ...tasks[0], status: 'Completed', creator_id: 'user1', logged_time: 3600 },
@@ -832,5 +972,18 @@ describe('lib/services/report', () => {
         endDate: undefined,
       });
     });
+
+    it('should scope tasks by department and report the departments covered', async () => {
+      const departmentIds = [departmentsFixtures.finance.id];
+      const covered = [{ id: departmentsFixtures.finance.id, name: departmentsFixtures.finance.name }];
+
+      vi.mocked(getTasks).mockResolvedValue([]);
+      vi.mocked(getDepartmentScope).mockResolvedValue(covered);
+
+      const result = await generateTaskCompletionReport({ departmentIds });
+
+      expect(getTasks).toHaveBeenCalledWith(expect.objectContaining({ departmentIds }));
+      expect(result.departments).toEqual(covered);
+    });
   });
 });
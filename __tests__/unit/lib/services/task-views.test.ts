@@ -0,0 +1,179 @@
+import {
+  createTaskView,
+  deleteTaskView,
+  getDefaultTaskViewQuery,
+  listTaskViews,
+  MAX_SAVED_TASK_VIEWS,
+  updateTaskView,
+} from '@/lib/services/task-views';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  createTaskViewDB,
+  deleteTaskViewDB,
+  getTaskViewDB,
+  getTaskViewsDB,
+  getUserViewSettingsDB,
+  setDefaultTaskViewDB,
+  updateTaskViewDB,
+  type RawSavedTaskView,
+} from '@/lib/db/task-views';
+
+vi.mock('@/lib/db/task-views', () => ({
+  createTaskViewDB: vi.fn(),
+  deleteTaskViewDB: vi.fn(),
+  getTaskViewDB: vi.fn(),
+  getTaskViewsDB: vi.fn(),
+  getUserViewSettingsDB: vi.fn(),
+  setDefaultTaskViewDB: vi.fn(),
+  updateTaskViewDB: vi.fn(),
+}));
+
+const rawView = (overrides: Partial<RawSavedTaskView> = {}): RawSavedTaskView => ({
+  id: 1,
+  user_id: 'user-1',
+  name: 'My open work',
+  query: 'status=To+Do',
+  shared_department_id: null,
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+  owner: { first_name: 'Ada', last_name: 'Lovelace' },
+  ...overrides,
+});
+
+describe('task views service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getTaskViewsDB).mockResolvedValue([]);
+    vi.mocked(getUserViewSettingsDB).mockResolvedValue({ department_id: 5, default_task_view_id: null });
+  });
+
+  describe('listTaskViews', () => {
+    it('should list own views first and flag the default', async () => {
+      vi.mocked(getTaskViewsDB).mockResolvedValue([
+        rawView({ id: 2, user_id: 'user-2', name: 'Alpha', shared_department_id: 5 }),
+        rawView({ id: 1, name: 'Beta' }),
+      ]);
+      vi.mocked(getUserViewSettingsDB).mockResolvedValue({ department_id: 5, default_task_view_id: 2 });
+
+      const views = await listTaskViews('user-1');
+
+      expect(views.map((v) => [v.id, v.is_owner, v.is_default])).toEqual([
+        [1, true, false],
+        [2, false, true],
+      ]);
+      expect(views[0].owner_name).toBe('Ada Lovelace');
+    });
+  });
+
+  describe('createTaskView', () => {
+    it('should normalise the query, share with the department and set the default', async () => {
+      vi.mocked(createTaskViewDB).mockResolvedValue(rawView({ id: 9, shared_department_id: 5 }));
+
+      const view = await createTaskView('user-1', {
+        name: '  My open work ',
+        query: 'foo=bar&status=To+Do',
+        shared: true,
+        isDefault: true,
+      });
+
+      expect(createTaskViewDB).toHaveBeenCalledWith('user-1', {
+        name: 'My open work',
+        query: 'status=To+Do',
+        shared_department_id: 5,
+      });
+      expect(setDefaultTaskViewDB).toHaveBeenCalledWith('user-1', 9);
+      expect(view.is_default).toBe(true);
+    });
+
+    it('should reject empty and duplicate names', async () => {
+      vi.mocked(getTaskViewsDB).mockResolvedValue([rawView()]);
+
+      await expect(createTaskView('user-1', { name: '  ' })).rejects.toThrow('View name is required');
+      await expect(createTaskView('user-1', { name: 'my open WORK' })).rejects.toThrow(
+        'A view with this name already exists'
+      );
+      expect(createTaskViewDB).not.toHaveBeenCalled();
+    });
+
+    it('should cap the number of saved views', async () => {
+      vi.mocked(getTaskViewsDB).mockResolvedValue(
+        Array.from({ length: MAX_SAVED_TASK_VIEWS }, (_, i) => rawView({ id: i + 1, name: `View ${i}` }))
+      );
+
+      await expect(createTaskView('user-1', { name: 'One more' })).rejects.toThrow(
+        `You can have at most ${MAX_SAVED_TASK_VIEWS} saved views`
+      );
+    });
+
+    it('should not share without a department', async () => {
+      vi.mocked(getUserViewSettingsDB).mockResolvedValue({ department_id: null, default_task_view_id: null });
+
+      await expect(createTaskView('user-1', { name: 'Team', shared: true })).rejects.toThrow(
+        'You must belong to a department to share views'
+      );
+    });
+  });
+
+  describe('updateTaskView', () => {
+    it('should let the owner rename a view', async () => {
+      vi.mocked(getTaskViewDB).mockResolvedValue(rawView());
+      vi.mocked(updateTaskViewDB).mockResolvedValue(rawView({ name: 'Renamed' }));
+
+      const view = await updateTaskView('user-1', 1, { name: 'Renamed' });
+
+      expect(updateTaskViewDB).toHaveBeenCalledWith('user-1', 1, { name: 'Renamed' });
+      expect(view.name).toBe('Renamed');
+    });
+
+    it('should let others make a shared view their default but not edit it', async () => {
+      vi.mocked(getTaskViewDB).mockResolvedValue(rawView({ user_id: 'user-2', shared_department_id: 5 }));
+
+      const view = await updateTaskView('user-1', 1, { isDefault: true });
+      expect(setDefaultTaskViewDB).toHaveBeenCalledWith('user-1', 1);
+      expect(view.is_default).toBe(true);
+
+      await expect(updateTaskView('user-1', 1, { query: 'tag=x' })).rejects.toThrow(
+        'Only the owner can change this view'
+      );
+      expect(updateTaskViewDB).not.toHaveBeenCalled();
+    });
+
+    it('should clear the default only when it points at this view', async () => {
+      vi.mocked(getTaskViewDB).mockResolvedValue(rawView());
+      vi.mocked(getUserViewSettingsDB).mockResolvedValue({ department_id: 5, default_task_view_id: 1 });
+
+      await updateTaskView('user-1', 1, { isDefault: false });
+
+      expect(setDefaultTaskViewDB).toHaveBeenCalledWith('user-1', null);
+    });
+
+    it('should throw when the view is not visible', async () => {
+      vi.mocked(getTaskViewDB).mockResolvedValue(null);
+
+      await expect(updateTaskView('user-1', 1, { isDefault: true })).rejects.toThrow('Saved view not found');
+    });
+  });
+
+  describe('deleteTaskView', () => {
+    it('should throw when nothing was deleted', async () => {
+      vi.mocked(deleteTaskViewDB).mockResolvedValue(false);
+
+      await expect(deleteTaskView('user-1', 1)).rejects.toThrow('Saved view not found');
+    });
+  });
+
+  describe('getDefaultTaskViewQuery', () => {
+    it('should return the default view query', async () => {
+      vi.mocked(getUserViewSettingsDB).mockResolvedValue({ department_id: 5, default_task_view_id: 1 });
+      vi.mocked(getTaskViewDB).mockResolvedValue(rawView());
+
+      expect(await getDefaultTaskViewQuery('user-1')).toBe('status=To+Do');
+    });
+
+    it('should return null when no default is set', async () => {
+      expect(await getDefaultTaskViewQuery('user-1')).toBeNull();
+      expect(getTaskViewDB).not.toHaveBeenCalled();
+    });
+  });
+});
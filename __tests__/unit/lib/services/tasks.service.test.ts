@@ -4,6 +4,9 @@ import {
   getTaskByIdService,
   createTaskService,
   archiveTaskService,
+  bulkUpdateTasks,
+  MAX_BULK_TASKS,
+  rescheduleTask,
 } from '@/lib/services/tasks';
 import * as taskDb from '@/lib/db/tasks';
 import { getRolesForUserClient } from '@/lib/db/roles';
@@ -15,6 +18,13 @@ vi.mock('@/lib/db/tasks', () => ({
   getTaskById: vi.fn(),
   createTask: vi.fn(),
   archiveTask: vi.fn(),
+  addTaskActivityDB: vi.fn(),
+  getTaskPermissionDataDB: vi.fn(),
+  getTaskFieldValuesDB: vi.fn(),
+  updateTaskPriorityDB: vi.fn(),
+  updateTaskDeadlineDB: vi.fn(),
+  updateTaskDeadlinesDB: vi.fn(),
+  getSubtaskDeadlinesDB: vi.fn(),
 }));
 
 // Mock roles
@@ -233,17 +243,39 @@ describe('lib/services/tasks - Service Layer Functions', () => {
         deadline: '2025-12-31',
       };
 
-      const mockFiles = [new File(['content'], 'test.pdf')] as File[];
+      const mockFiles = [new File(['%PDF-1.7 content'], 'test.pdf', { type: 'application/pdf' })] as File[];
       (taskDb.createTask as any).mockResolvedValue(123);
 
       await createTaskService(mockSupabase, payload, 'creator-1', mockFiles);
 
-      expect(taskDb.createTask).toHaveBeenCalledWith(
-        mockSupabase,
-        payload,
-        'creator-1',
-        mockFiles
+      expect(taskDb.createTask).toHaveBeenCalledWith(mockSupabase, payload, 'creator-1', [
+        {
+          file: mockFiles[0],
+          file_name: 'test.pdf',
+          size_bytes: mockFiles[0].size,
+          content_type: 'application/pdf',
+          sha256: expect.stringMatching(/^[0-9a-f]{64}$/),
+        },
+      ]);
+    });
+
+    it('should reject attachments whose contents contradict their type before creating the task', async () => {
+      const payload: CreateTaskPayload = {
+        project_id: 1,
+        title: 'Task',
+        description: 'Desc',
+        priority_bucket: 5,
+        status: 'To Do',
+        assignee_ids: ['user-1'],
+        deadline: '2025-12-31',
+      };
+
+      const mockFiles = [new File(['plain text'], 'scan.png', { type: 'image/png' })] as File[];
+
+      await expect(createTaskService(mockSupabase, payload, 'creator-1', mockFiles)).rejects.toThrow(
+        'File content does not match its type'
       );
+      expect(taskDb.createTask).not.toHaveBeenCalled();
     });
   });
 
@@ -291,4 +323,144 @@ describe('lib/services/tasks - Service Layer Functions', () => {
       ).rejects.toThrow('Only managers can archive tasks');
     });
   });
+
+  describe('bulkUpdateTasks', () => {
+    const mockSupabase = {} as any;
+
+    beforeEach(() => {
+      (taskDb.getTaskPermissionDataDB as any).mockImplementation(async (taskId: number) => ({
+        creator_id: taskId === 2 ? 'someone-else' : 'user-123',
+        assignee_ids: [],
+      }));
+      (taskDb.getTaskFieldValuesDB as any).mockResolvedValue({ priority_bucket: 5 });
+      (taskDb.updateTaskPriorityDB as any).mockImplementation(async (taskId: number, priority: number) => ({
+        id: taskId,
+        priority_bucket: priority,
+      }));
+    });
+
+    it('should check permission per task and report each result', async () => {
+      const results = await bulkUpdateTasks(mockSupabase, [1, 2, 3], 'updatePriority', { priority_bucket: 9 }, 'user-123');
+
+      expect(results).toEqual([
+        { taskId: 1, success: true },
+        { taskId: 2, success: false, error: 'You do not have permission to update this task' },
+        { taskId: 3, success: true },
+      ]);
+      expect(taskDb.updateTaskPriorityDB).toHaveBeenCalledTimes(2);
+      expect(taskDb.updateTaskPriorityDB).not.toHaveBeenCalledWith(2, 9);
+    });
+
+    it('should report validation errors from the single-task service per task', async () => {
+      const results = await bulkUpdateTasks(mockSupabase, [1], 'updatePriority', { priority_bucket: 42 }, 'user-123');
+
+      expect(results).toEqual([
+        { taskId: 1, success: false, error: 'Priority must be a number between 1 and 10' },
+      ]);
+    });
+
+    it('should only apply to each task once', async () => {
+      await bulkUpdateTasks(mockSupabase, [1, 1], 'updatePriority', { priority_bucket: 9 }, 'user-123');
+
+      expect(taskDb.updateTaskPriorityDB).toHaveBeenCalledTimes(1);
+    });
+
+    it('should archive tasks for managers', async () => {
+      (getRolesForUserClient as any).mockResolvedValue(['manager']);
+      (taskDb.archiveTask as any).mockResolvedValue(1);
+
+      const results = await bulkUpdateTasks(mockSupabase, [1, 3], 'archive', {}, 'user-123');
+
+      expect(results.every((r) => r.success)).toBe(true);
+      expect(taskDb.archiveTask).toHaveBeenCalledWith(1, true);
+      expect(taskDb.archiveTask).toHaveBeenCalledWith(3, true);
+    });
+
+    it('should reject archiving by non-managers before touching any task', async () => {
+      (getRolesForUserClient as any).mockResolvedValue(['staff']);
+
+      await expect(bulkUpdateTasks(mockSupabase, [1], 'archive', {}, 'user-123')).rejects.toThrow(
+        'Only managers can archive tasks'
+      );
+      expect(taskDb.getTaskPermissionDataDB).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid requests', async () => {
+      await expect(bulkUpdateTasks(mockSupabase, [], 'addTag', {}, 'user-123')).rejects.toThrow(
+        'At least one task ID is required'
+      );
+      await expect(bulkUpdateTasks(mockSupabase, [1], 'removeTag' as any, {}, 'user-123')).rejects.toThrow(
+        'Invalid bulk action'
+      );
+      await expect(
+        bulkUpdateTasks(mockSupabase, Array.from({ length: MAX_BULK_TASKS + 1 }, (_, i) => i + 1), 'addTag', {}, 'user-123')
+      ).rejects.toThrow(`Cannot update more than ${MAX_BULK_TASKS} tasks at once`);
+    });
+  });
+
+  describe('rescheduleTask', () => {
+    beforeEach(() => {
+      (taskDb.getTaskPermissionDataDB as any).mockImplementation(async (taskId: number) => ({
+        creator_id: taskId === 12 ? 'someone-else' : 'user-123',
+        assignee_ids: [],
+      }));
+      (taskDb.getTaskFieldValuesDB as any).mockResolvedValue({ deadline: '2099-11-10T09:00:00.000Z' });
+      (taskDb.updateTaskDeadlinesDB as any).mockImplementation(async (moves: unknown[]) => moves);
+      (taskDb.getSubtaskDeadlinesDB as any).mockResolvedValue([
+        { id: 11, title: 'Draft', status: 'To Do', deadline: '2099-11-08T09:00:00.000Z' },
+        { id: 12, title: 'Not mine', status: 'To Do', deadline: '2099-11-09T09:00:00.000Z' },
+        { id: 13, title: 'Done', status: 'Completed', deadline: '2099-11-05T09:00:00.000Z' },
+        { id: 14, title: 'Undated', status: 'To Do', deadline: null },
+      ]);
+    });
+
+    it('should only move the task by default', async () => {
+      const result = await rescheduleTask(10, '2099-11-12T09:00:00.000Z', 'user-123');
+
+      expect(result).toEqual({
+        id: 10,
+        deadline: '2099-11-12T09:00:00.000Z',
+        shiftedSubtasks: [],
+        skippedSubtaskIds: [],
+      });
+      expect(taskDb.getSubtaskDeadlinesDB).not.toHaveBeenCalled();
+    });
+
+    it('should shift open subtasks by the same delta and skip those the user cannot update', async () => {
+      const result = await rescheduleTask(10, '2099-11-12T09:00:00.000Z', 'user-123', { shiftSubtasks: true });
+
+      expect(result.shiftedSubtasks).toEqual([{ id: 11, deadline: '2099-11-10T09:00:00.000Z' }]);
+      expect(result.skippedSubtaskIds).toEqual([12]);
+      // Every move is checked first, then written in one transaction
+      expect(taskDb.updateTaskDeadlinesDB).toHaveBeenCalledTimes(1);
+      expect(taskDb.updateTaskDeadlinesDB).toHaveBeenCalledWith([
+        { id: 10, deadline: '2099-11-12T09:00:00.000Z' },
+        { id: 11, deadline: '2099-11-10T09:00:00.000Z' },
+      ]);
+      expect(taskDb.updateTaskDeadlineDB).not.toHaveBeenCalled();
+      expect(taskDb.addTaskActivityDB).toHaveBeenCalledTimes(2);
+    });
+
+    it('should log nothing when the combined write fails', async () => {
+      (taskDb.updateTaskDeadlinesDB as any).mockRejectedValue(new Error('Failed to update task deadline: Task not found'));
+
+      await expect(
+        rescheduleTask(10, '2099-11-12T09:00:00.000Z', 'user-123', { shiftSubtasks: true })
+      ).rejects.toThrow('Failed to update task deadline');
+      expect(taskDb.addTaskActivityDB).not.toHaveBeenCalled();
+    });
+
+    it('should not touch subtasks when the user cannot update the parent', async () => {
+      await expect(
+        rescheduleTask(12, '2099-11-12T09:00:00.000Z', 'user-123', { shiftSubtasks: true })
+      ).rejects.toThrow('You do not have permission to update this task');
+      expect(taskDb.updateTaskDeadlinesDB).not.toHaveBeenCalled();
+      expect(taskDb.getSubtaskDeadlinesDB).not.toHaveBeenCalled();
+    });
+
+    it('should validate the deadline', async () => {
+      await expect(rescheduleTask(10, 'not a date', 'user-123')).rejects.toThrow('Invalid date format');
+      await expect(rescheduleTask(10, '', 'user-123')).rejects.toThrow('Deadline is required');
+    });
+  });
 });
@@ -1,4 +1,8 @@
 import {
+  addManualTimeEntry,
+  deleteTimeEntry,
+  startTimer,
+  stopTimer,
   addAssignee,
   addComment,
   addTag,
@@ -6,8 +10,10 @@ import {
   calculateNextDueDate,
   deleteComment,
   DetailedTask,
+  formatTaskActivity,
   formatTaskDetails,
   formatTasks,
+  getTaskActivityService,
   linkSubtaskToParent,
   mapTaskAttributes,
   RawAssignee,
@@ -18,6 +24,10 @@ import {
   removeAssignee,
   removeTag,
   removeTaskAttachment,
+  getAttachmentDownloadUrl,
+  addAttachmentVersion,
+  restoreAttachmentVersion,
+  listAttachmentVersions,
   Task,
   updateComment,
   updateDeadline,
@@ -27,25 +37,52 @@ import {
   updateRecurrence,
   updateStatus,
   updateTitle,
+  addDependency,
+  removeDependency,
+  getTaskDependenciesService,
 } from '@/lib/services/tasks';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
 import {
+  addTimeEntryDB,
+  deleteTimeEntryDB,
+  getRunningTimeEntryDB,
+  getTaskTimeEntriesDB,
+  getTimeEntryDB,
+  stopTimeEntryDB,
+  getDependencyNodesDB,
+  getTaskDependenciesDB,
+  getDependencyGraphEdgesDB,
+  getBlockerStatusesDB,
+  getSiblingTasksDB,
+  addTaskDependencyDB,
+  removeTaskDependencyDB,
+  addTaskActivityDB,
   addTaskAssigneeDB,
   addTaskAttachmentsDB,
   addTaskCommentDB,
+  getMentionableUsersDB,
   addTaskTagDB,
   checkUserIsAdmin,
   createTask,
   deleteTaskCommentDB,
   getCommentAuthorDB,
+  getTaskActivityDB,
   getTaskAttachmentsTotalSize,
   getTaskById,
+  getTaskFieldValuesDB,
   getTaskPermissionDataDB,
   isUserManager,
   linkSubtaskToParentDB,
   removeTaskAssigneeDB,
   removeTaskAttachmentDB,
+  getTaskAttachmentHashesDB,
+  getTaskAttachmentDB,
+  getCurrentTaskAttachmentsDB,
+  getAttachmentVersionsDB,
+  restoreTaskAttachmentVersionDB,
+  createAttachmentSignedUrlDB,
+  isTaskVisibleToUserDB,
   removeTaskTagDB,
   updateTaskCommentDB,
   updateTaskDeadlineDB,
@@ -73,7 +110,15 @@ vi.mock('@/lib/db/tasks', () => ({
   removeTaskAssigneeDB: vi.fn(),
   addTaskAttachmentsDB: vi.fn(),
   removeTaskAttachmentDB: vi.fn(),
+  getTaskAttachmentHashesDB: vi.fn(),
+  getTaskAttachmentDB: vi.fn(),
+  getCurrentTaskAttachmentsDB: vi.fn(),
+  getAttachmentVersionsDB: vi.fn(),
+  restoreTaskAttachmentVersionDB: vi.fn(),
+  createAttachmentSignedUrlDB: vi.fn(),
+  isTaskVisibleToUserDB: vi.fn(),
   addTaskCommentDB: vi.fn(),
+  getMentionableUsersDB: vi.fn(),
   updateTaskCommentDB: vi.fn(),
   deleteTaskCommentDB: vi.fn(),
   getCommentAuthorDB: vi.fn(),
@@ -83,6 +128,22 @@ vi.mock('@/lib/db/tasks', () => ({
   getTaskById: vi.fn(),
   getTaskAttachmentsTotalSize: vi.fn(),
   createTask: vi.fn(),
+  addTaskActivityDB: vi.fn(),
+  getTaskActivityDB: vi.fn(),
+  getTaskFieldValuesDB: vi.fn(),
+  getTaskTimeEntriesDB: vi.fn(),
+  getRunningTimeEntryDB: vi.fn(),
+  addTimeEntryDB: vi.fn(),
+  stopTimeEntryDB: vi.fn(),
+  getTimeEntryDB: vi.fn(),
+  deleteTimeEntryDB: vi.fn(),
+  getDependencyNodesDB: vi.fn(),
+  getTaskDependenciesDB: vi.fn(async () => ({ blockers: [], dependents: [] })),
+  getDependencyGraphEdgesDB: vi.fn(async () => []),
+  getBlockerStatusesDB: vi.fn(async () => []),
+  getSiblingTasksDB: vi.fn(async () => []),
+  addTaskDependencyDB: vi.fn(),
+  removeTaskDependencyDB: vi.fn(),
 }));
 
 describe('lib/services/tasks', () => {
@@ -945,7 +1006,12 @@ describe('lib/services/tasks', () => {
         {
           id: 1,
           storage_path: 'task-attachments/1/design.pdf',
-          public_url: 'https://example.com/design.pdf',
+          file_name: 'design.pdf',
+          size_bytes: 2048,
+          content_type: 'application/pdf',
+          uploaded_at: '2025-10-15T09:00:00.000Z',
+          document_id: 1,
+          version: 1,
         },
       ];
 
@@ -980,7 +1046,12 @@ describe('lib/services/tasks', () => {
       expect(result!.attachments[0]).toEqual({
         id: 1,
         storage_path: 'task-attachments/1/design.pdf',
-        public_url: 'https://example.com/design.pdf',
+        file_name: 'design.pdf',
+        size_bytes: 2048,
+        content_type: 'application/pdf',
+        uploaded_at: '2025-10-15T09:00:00.000Z',
+        document_id: 1,
+        version: 1,
       });
       expect(result!.comments).toHaveLength(1);
       expect(result!.comments[0]).toMatchObject({
@@ -1066,7 +1137,7 @@ describe('lib/services/tasks', () => {
       });
     });
 
-    it('should handle attachments without public URLs', () => {
+    it('should pass attachments without recorded metadata through', () => {
       const rawTask: RawTask = {
         id: 1,
         title: 'Task',
@@ -1088,6 +1159,12 @@ describe('lib/services/tasks', () => {
         {
           id: 1,
           storage_path: 'task-attachments/1/file.pdf',
+          file_name: null,
+          size_bytes: null,
+          content_type: null,
+          uploaded_at: '2025-10-15T09:00:00.000Z',
+          document_id: 1,
+          version: 1,
         },
       ];
 
@@ -1099,10 +1176,7 @@ describe('lib/services/tasks', () => {
         assignees: [],
       });
 
-      expect(result!.attachments[0]).toEqual({
-        id: 1,
-        storage_path: 'task-attachments/1/file.pdf',
-      });
+      expect(result!.attachments[0]).toEqual(rawAttachments[0]);
     });
 
     it('should handle unknown assignees gracefully', () => {
@@ -1240,6 +1314,18 @@ describe('lib/services/tasks', () => {
   
         expect(result).toEqual({ id: mockTaskId, description: newDescription });
       });
+
+      it('should save Markdown as typed', async () => {
+        vi.mocked(getTaskPermissionDataDB).mockResolvedValue({
+          creator_id: 'user1',
+          assignee_ids: [],
+        });
+        vi.mocked(updateTaskDescriptionDB).mockResolvedValue({ id: 1, description: '' });
+
+        await updateDescription(1, '- [x] <b>Done</b> [run](javascript:alert(1))\n`<b>`', 'user1');
+
+        expect(updateTaskDescriptionDB).toHaveBeenCalledWith(1, '- [x] <b>Done</b> [run](javascript:alert(1))\n`<b>`');
+      });
   
       it('should throw error when description is not a string or null', async () => {
         await expect(updateDescription(1, 123 as any, 'user1')).rejects.toThrow(
@@ -1299,6 +1385,65 @@ describe('lib/services/tasks', () => {
         expect(updateTaskStatusDB).toHaveBeenCalledWith(1, 'In Progress');
       });
   
+      it('should refuse to start a task with open blockers', async () => {
+        vi.mocked(getTaskPermissionDataDB).mockResolvedValue({
+          creator_id: 'user1',
+          assignee_ids: [],
+        });
+        vi.mocked(getBlockerStatusesDB).mockResolvedValueOnce([
+          { id: 2, status: 'To Do' },
+          { id: 3, status: 'Completed' },
+        ]);
+        vi.mocked(getTaskDependenciesDB).mockResolvedValueOnce({
+          blockers: [
+            { id: 2, title: 'Design', status: 'To Do', deadline: null },
+            { id: 3, title: 'Spec', status: 'Completed', deadline: null },
+          ],
+          dependents: [],
+        });
+
+        await expect(updateStatus(1, 'In Progress', 'user1')).rejects.toThrow(
+          'Task is blocked by unfinished tasks: "Design"'
+        );
+        expect(updateTaskStatusDB).not.toHaveBeenCalled();
+      });
+
+      it('should refuse to start a task whose open blocker is hidden from the user', async () => {
+        vi.mocked(getTaskPermissionDataDB).mockResolvedValue({
+          creator_id: 'user1',
+          assignee_ids: [],
+        });
+        // The blocker exists, but RLS hides it from the user's own view of the dependencies
+        vi.mocked(getBlockerStatusesDB).mockResolvedValueOnce([{ id: 7, status: 'In Progress' }]);
+        vi.mocked(getTaskDependenciesDB).mockResolvedValueOnce({ blockers: [], dependents: [] });
+
+        await expect(updateStatus(1, 'In Progress', 'user1')).rejects.toThrow(
+          'Task is blocked by unfinished tasks: 1 task you cannot view'
+        );
+        expect(updateTaskStatusDB).not.toHaveBeenCalled();
+      });
+
+      it('should start a blocked task when forced', async () => {
+        vi.mocked(getTaskPermissionDataDB).mockResolvedValue({
+          creator_id: 'user1',
+          assignee_ids: [],
+        });
+        vi.mocked(getBlockerStatusesDB).mockResolvedValueOnce([{ id: 2, status: 'To Do' }]);
+        vi.mocked(getTaskDependenciesDB).mockResolvedValueOnce({
+          blockers: [{ id: 2, title: 'Design', status: 'To Do', deadline: null }],
+          dependents: [],
+        });
+        vi.mocked(updateTaskStatusDB).mockResolvedValue({ id: 1, status: 'In Progress' });
+        const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        await expect(updateStatus(1, 'In Progress', 'user1', { force: true })).resolves.toEqual({
+          id: 1,
+          status: 'In Progress',
+        });
+        expect(warnSpy).toHaveBeenCalled();
+        warnSpy.mockRestore();
+      });
+
       it('should throw error for invalid status', async () => {
         await expect(updateStatus(1, 'Invalid Status' as any, 'user1')).rejects.toThrow(
           'Invalid status. Must be one of: To Do, In Progress, Completed, Blocked'
@@ -1569,6 +1714,18 @@ describe('lib/services/tasks', () => {
   
         expect(result).toEqual({ id: 1, notes: newNotes });
       });
+
+      it('should save notes with raw HTML as typed', async () => {
+        vi.mocked(getTaskPermissionDataDB).mockResolvedValue({
+          creator_id: 'user1',
+          assignee_ids: [],
+        });
+        vi.mocked(updateTaskNotesDB).mockResolvedValue({ id: 1, notes: '' });
+
+        await updateNotes(1, 'Call <script>x()</script>**back**', 'user1');
+
+        expect(updateTaskNotesDB).toHaveBeenCalledWith(1, 'Call <script>x()</script>**back**');
+      });
   
       it('should throw error when notes is not a string', async () => {
         await expect(updateNotes(1, null as any, 'user1')).rejects.toThrow(
@@ -1624,6 +1781,7 @@ describe('lib/services/tasks', () => {
           id: 1,
           recurrence_interval: recurrenceInterval,
           recurrence_date: recurrenceDate,
+          recurrence_rule: null,
         });
   
         const result = await updateRecurrence(1, recurrenceInterval, recurrenceDate, 'user1');
@@ -1632,6 +1790,7 @@ describe('lib/services/tasks', () => {
           id: 1,
           recurrence_interval: recurrenceInterval,
           recurrence_date: recurrenceDate,
+          recurrence_rule: null,
         });
       });
   
@@ -1646,6 +1805,7 @@ describe('lib/services/tasks', () => {
             id,
             recurrence_interval: interval,
             recurrence_date: date,
+            recurrence_rule: null,
           })
         );
       
@@ -1711,11 +1871,56 @@ describe('lib/services/tasks', () => {
           id: 1,
           recurrence_interval: 0,
           recurrence_date: null,
+          recurrence_rule: null,
         });
   
         await expect(updateRecurrence(1, 0, null, 'user1')).resolves.not.toThrow();
       });
   
+      it('should store a normalised rule and derive the interval from it', async () => {
+        vi.mocked(getTaskPermissionDataDB).mockResolvedValue({
+          creator_id: 'user1',
+          assignee_ids: [],
+        });
+
+        vi.mocked(updateTaskRecurrenceDB).mockImplementation(
+          async (id: number, interval: number, date: string | null, rule?: string | null) => ({
+            id,
+            recurrence_interval: interval,
+            recurrence_date: date,
+            recurrence_rule: rule ?? null,
+          })
+        );
+
+        const result = await updateRecurrence(
+          1,
+          0,
+          '2099-01-01T00:00:00.000Z',
+          'user1',
+          'rrule:freq=weekly;byday=MO,TH;interval=2'
+        );
+
+        expect(updateTaskRecurrenceDB).toHaveBeenCalledWith(
+          1,
+          14,
+          '2099-01-01T00:00:00.000Z',
+          'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH'
+        );
+        expect(result.recurrence_rule).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH');
+      });
+
+      it('should reject unsupported recurrence rules', async () => {
+        vi.mocked(getTaskPermissionDataDB).mockResolvedValue({
+          creator_id: 'user1',
+          assignee_ids: [],
+        });
+
+        await expect(
+          updateRecurrence(1, 0, '2099-01-01T00:00:00.000Z', 'user1', 'FREQ=HOURLY')
+        ).rejects.toThrow('Invalid RRULE: unsupported FREQ HOURLY');
+        expect(updateTaskRecurrenceDB).not.toHaveBeenCalled();
+      });
+
       it('should throw error when user has no permission', async () => {
         vi.mocked(getTaskPermissionDataDB).mockResolvedValue({
           creator_id: 'user2',
@@ -1881,24 +2086,132 @@ describe('lib/services/tasks', () => {
     });
   
     describe('addTaskAttachments', () => {
-      it('should add attachments to task successfully', async () => {
-        const mockFiles: File[] = [new File(['content'], 'test.pdf', { type: 'application/pdf' })];
-  
+      const storedAttachment = {
+        id: 1,
+        storage_path: 'tasks/1/test.pdf',
+        file_name: 'test.pdf',
+        size_bytes: 13,
+        content_type: 'application/pdf',
+        uploaded_at: '2025-10-16T10:00:00.000Z',
+        document_id: 1,
+        version: 1,
+      };
+
+      beforeEach(() => {
         vi.mocked(getTaskPermissionDataDB).mockResolvedValue({
           creator_id: 'user1',
           assignee_ids: [],
         });
-  
         vi.mocked(getTaskAttachmentsTotalSize).mockResolvedValue(0);
-        vi.mocked(addTaskAttachmentsDB).mockResolvedValue([
-          { id: 1, storage_path: 'tasks/1/test.pdf' },
-        ]);
+        vi.mocked(getTaskAttachmentHashesDB).mockResolvedValue([]);
+        vi.mocked(getCurrentTaskAttachmentsDB).mockResolvedValue([]);
+        vi.mocked(addTaskAttachmentsDB).mockResolvedValue([storedAttachment]);
+      });
+
+      it('should add attachments to task successfully', async () => {
+        const mockFiles: File[] = [new File(['%PDF-1.7 test'], 'test.pdf', { type: 'application/pdf' })];
   
         const result = await addTaskAttachments(1, mockFiles, 'user1');
   
         expect(result).toHaveLength(1);
         expect(result[0].id).toBe(1);
       });
+
+      it('should store the original name, size, sniffed type and SHA-256', async () => {
+        const file = new File(['%PDF-1.7 test'], 'test.pdf', { type: 'application/pdf' });
+
+        await addTaskAttachments(1, [file], 'user1');
+
+        expect(addTaskAttachmentsDB).toHaveBeenCalledWith(
+          1,
+          [
+            {
+              file,
+              file_name: 'test.pdf',
+              size_bytes: file.size,
+              content_type: 'application/pdf',
+              sha256: expect.stringMatching(/^[0-9a-f]{64}$/),
+            },
+          ],
+          'user1'
+        );
+      });
+
+      it('should reject files whose contents contradict the declared type', async () => {
+        const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]);
+        const mockFiles = [new File([png], 'invoice.pdf', { type: 'application/pdf' })];
+
+        await expect(addTaskAttachments(1, mockFiles, 'user1')).rejects.toThrow(
+          'File content does not match its type'
+        );
+        expect(addTaskAttachmentsDB).not.toHaveBeenCalled();
+      });
+
+      it('should reject files whose contents are not an allowed type', async () => {
+        const bytes = new Uint8Array([0x4d, 0x5a, 0x90, 0x00, 0x03, 0x00, 0x00, 0x00]);
+        const mockFiles = [new File([bytes], 'setup.pdf', { type: '' })];
+
+        await expect(addTaskAttachments(1, mockFiles, 'user1')).rejects.toThrow('File type not allowed');
+        expect(addTaskAttachmentsDB).not.toHaveBeenCalled();
+      });
+
+      it('should accept CSV files that the browser reports as Excel', async () => {
+        const file = new File(['name,hours\nAnn,3\n'], 'hours.csv', { type: 'application/vnd.ms-excel' });
+
+        await addTaskAttachments(1, [file], 'user1');
+
+        expect(vi.mocked(addTaskAttachmentsDB).mock.calls[0][1][0].content_type).toBe('text/csv');
+      });
+
+      it('should keep identical files in one upload once', async () => {
+        const first = new File(['%PDF-1.7 same'], 'a.pdf', { type: 'application/pdf' });
+        const second = new File(['%PDF-1.7 same'], 'b.pdf', { type: 'application/pdf' });
+
+        await addTaskAttachments(1, [first, second], 'user1');
+
+        const uploads = vi.mocked(addTaskAttachmentsDB).mock.calls[0][1];
+        expect(uploads.map((upload) => upload.file_name)).toEqual(['a.pdf']);
+      });
+
+      it('should skip files already attached to the task', async () => {
+        const existing = new File(['%PDF-1.7 old'], 'old.pdf', { type: 'application/pdf' });
+        const fresh = new File(['%PDF-1.7 new'], 'new.pdf', { type: 'application/pdf' });
+        await addTaskAttachments(1, [existing], 'user1');
+        const existingHash = vi.mocked(addTaskAttachmentsDB).mock.calls[0][1][0].sha256;
+        vi.mocked(addTaskAttachmentsDB).mockClear();
+        vi.mocked(getTaskAttachmentHashesDB).mockResolvedValue([existingHash]);
+
+        await addTaskAttachments(1, [existing, fresh], 'user1');
+
+        const uploads = vi.mocked(addTaskAttachmentsDB).mock.calls[0][1];
+        expect(uploads.map((upload) => upload.file_name)).toEqual(['new.pdf']);
+      });
+
+      it('should store a re-uploaded file name as a new version of that document', async () => {
+        vi.mocked(getCurrentTaskAttachmentsDB).mockResolvedValue([
+          { id: 7, document_id: 3, file_name: 'spec.txt', storage_path: 'tasks/1/abc-spec.txt' },
+        ]);
+        const spec = new File(['spec v2'], 'spec.txt', { type: 'text/plain' });
+        const notes = new File(['notes'], 'notes.txt', { type: 'text/plain' });
+
+        await addTaskAttachments(1, [spec, notes], 'user1');
+
+        const uploads = vi.mocked(addTaskAttachmentsDB).mock.calls[0][1];
+        expect(uploads.map((upload) => upload.document_id)).toEqual([3, undefined]);
+      });
+
+      it('should throw when every file is already attached', async () => {
+        const file = new File(['%PDF-1.7 old'], 'old.pdf', { type: 'application/pdf' });
+        await addTaskAttachments(1, [file], 'user1');
+        const existingHash = vi.mocked(addTaskAttachmentsDB).mock.calls[0][1][0].sha256;
+        vi.mocked(addTaskAttachmentsDB).mockClear();
+        vi.mocked(getTaskAttachmentHashesDB).mockResolvedValue([existingHash]);
+
+        await expect(addTaskAttachments(1, [file], 'user1')).rejects.toThrow(
+          'These files are already attached to this task'
+        );
+        expect(addTaskAttachmentsDB).not.toHaveBeenCalled();
+      });
   
       it('should throw error when user has no permission', async () => {
         vi.mocked(getTaskPermissionDataDB).mockResolvedValue({
@@ -1955,12 +2268,35 @@ describe('lib/services/tasks', () => {
           assignee_ids: [],
         });
   
-        vi.mocked(removeTaskAttachmentDB).mockResolvedValue('tasks/1/test.pdf');
+        vi.mocked(getTaskAttachmentDB).mockResolvedValue({
+          id: 4,
+          storage_path: 'tasks/1/test-v2.pdf',
+          file_name: 'test.pdf',
+          size_bytes: 13,
+          content_type: 'application/pdf',
+          uploaded_at: '2025-10-16T10:00:00.000Z',
+          document_id: 1,
+          version: 2,
+          is_current: true,
+        });
+        vi.mocked(removeTaskAttachmentDB).mockResolvedValue(undefined);
   
-        const result = await removeTaskAttachment(1, 1, 'user1');
+        const result = await removeTaskAttachment(1, 4, 'user1');
   
-        expect(result).toEqual({ id: 1, removed: true });
-        expect(removeTaskAttachmentDB).toHaveBeenCalledWith(1);
+        expect(result).toEqual({ id: 4, removed: true });
+        expect(getTaskAttachmentDB).toHaveBeenCalledWith(1, 4);
+        expect(removeTaskAttachmentDB).toHaveBeenCalledWith(1, 1);
+      });
+
+      it('should not remove an attachment that belongs to another task', async () => {
+        vi.mocked(getTaskPermissionDataDB).mockResolvedValue({
+          creator_id: 'user1',
+          assignee_ids: [],
+        });
+        vi.mocked(getTaskAttachmentDB).mockResolvedValue(null);
+
+        await expect(removeTaskAttachment(1, 99, 'user1')).rejects.toThrow('Attachment not found');
+        expect(removeTaskAttachmentDB).not.toHaveBeenCalled();
       });
   
       it('should throw error when user has no permission', async () => {
@@ -1975,6 +2311,179 @@ describe('lib/services/tasks', () => {
       });
     });
   
+    describe('getAttachmentDownloadUrl', () => {
+      it('should return a short-lived signed URL for a visible task', async () => {
+        vi.mocked(isTaskVisibleToUserDB).mockResolvedValue(true);
+        vi.mocked(getTaskAttachmentDB).mockResolvedValue({
+          id: 5,
+          storage_path: 'tasks/1/abc-test.pdf',
+          file_name: 'test.pdf',
+          size_bytes: 13,
+          content_type: 'application/pdf',
+          uploaded_at: '2025-10-16T10:00:00.000Z',
+          document_id: 5,
+          version: 1,
+          is_current: true,
+        });
+        vi.mocked(createAttachmentSignedUrlDB).mockResolvedValue('https://storage.example.com/signed?token=t');
+
+        const url = await getAttachmentDownloadUrl(1, 5, 'user1');
+
+        expect(url).toBe('https://storage.example.com/signed?token=t');
+        expect(isTaskVisibleToUserDB).toHaveBeenCalledWith(1, 'user1');
+        expect(getTaskAttachmentDB).toHaveBeenCalledWith(1, 5);
+        expect(createAttachmentSignedUrlDB).toHaveBeenCalledWith('tasks/1/abc-test.pdf', 60);
+      });
+
+      it('should hide attachments of tasks the user cannot view', async () => {
+        vi.mocked(isTaskVisibleToUserDB).mockResolvedValue(false);
+
+        await expect(getAttachmentDownloadUrl(1, 5, 'user1')).rejects.toThrow('Attachment not found');
+        expect(getTaskAttachmentDB).not.toHaveBeenCalled();
+        expect(createAttachmentSignedUrlDB).not.toHaveBeenCalled();
+      });
+
+      it('should throw when the attachment is not on the task', async () => {
+        vi.mocked(isTaskVisibleToUserDB).mockResolvedValue(true);
+        vi.mocked(getTaskAttachmentDB).mockResolvedValue(null);
+
+        await expect(getAttachmentDownloadUrl(1, 99, 'user1')).rejects.toThrow('Attachment not found');
+        expect(createAttachmentSignedUrlDB).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('attachment versions', () => {
+      const currentVersion = {
+        id: 7,
+        storage_path: 'tasks/1/abc-spec.txt',
+        file_name: 'spec.txt',
+        size_bytes: 9,
+        content_type: 'text/plain',
+        uploaded_at: '2025-10-16T10:00:00.000Z',
+        document_id: 3,
+        version: 2,
+        is_current: true,
+      };
+
+      beforeEach(() => {
+        vi.mocked(getTaskPermissionDataDB).mockResolvedValue({
+          creator_id: 'user1',
+          assignee_ids: [],
+        });
+        vi.mocked(getTaskAttachmentsTotalSize).mockResolvedValue(0);
+        vi.mocked(getTaskAttachmentHashesDB).mockResolvedValue([]);
+        vi.mocked(getTaskAttachmentDB).mockResolvedValue(currentVersion);
+      });
+
+      describe('addAttachmentVersion', () => {
+        it('should store the file as a new version of the attachment\'s document', async () => {
+          vi.mocked(addTaskAttachmentsDB).mockResolvedValue([{ ...currentVersion, id: 8, version: 3 }]);
+          const file = new File(['spec v3'], 'spec.txt', { type: 'text/plain' });
+
+          const result = await addAttachmentVersion(1, 7, file, 'user1');
+
+          expect(result.version).toBe(3);
+          expect(getTaskAttachmentDB).toHaveBeenCalledWith(1, 7);
+          expect(addTaskAttachmentsDB).toHaveBeenCalledWith(
+            1,
+            [expect.objectContaining({ file, file_name: 'spec.txt', document_id: 3 })],
+            'user1'
+          );
+          expect(addTaskActivityDB).toHaveBeenCalled();
+        });
+
+        it('should point to restoring when the file matches a stored version', async () => {
+          const file = new File(['spec v1'], 'spec.txt', { type: 'text/plain' });
+          vi.mocked(addTaskAttachmentsDB).mockResolvedValue([{ ...currentVersion, id: 8 }]);
+          await addAttachmentVersion(1, 7, file, 'user1');
+          const existingHash = vi.mocked(addTaskAttachmentsDB).mock.calls[0][1][0].sha256;
+          vi.mocked(addTaskAttachmentsDB).mockClear();
+          vi.mocked(getTaskAttachmentHashesDB).mockResolvedValue([existingHash]);
+
+          await expect(addAttachmentVersion(1, 7, file, 'user1')).rejects.toThrow(
+            'Restore that version instead'
+          );
+          expect(addTaskAttachmentsDB).not.toHaveBeenCalled();
+        });
+
+        it('should count every stored version towards the 50MB limit', async () => {
+          vi.mocked(getTaskAttachmentsTotalSize).mockResolvedValue(50 * 1024 * 1024);
+          const file = new File(['spec v3'], 'spec.txt', { type: 'text/plain' });
+
+          await expect(addAttachmentVersion(1, 7, file, 'user1')).rejects.toThrow(
+            'Total attachment size would exceed 50MB limit'
+          );
+        });
+
+        it('should throw when the attachment is not on the task', async () => {
+          vi.mocked(getTaskAttachmentDB).mockResolvedValue(null);
+          const file = new File(['spec v3'], 'spec.txt', { type: 'text/plain' });
+
+          await expect(addAttachmentVersion(1, 99, file, 'user1')).rejects.toThrow('Attachment not found');
+          expect(addTaskAttachmentsDB).not.toHaveBeenCalled();
+        });
+
+        it('should throw error when user has no permission', async () => {
+          vi.mocked(getTaskPermissionDataDB).mockResolvedValue({
+            creator_id: 'user2',
+            assignee_ids: [],
+          });
+          const file = new File(['spec v3'], 'spec.txt', { type: 'text/plain' });
+
+          await expect(addAttachmentVersion(1, 7, file, 'user1')).rejects.toThrow(
+            'You do not have permission to update this task'
+          );
+        });
+      });
+
+      describe('restoreAttachmentVersion', () => {
+        it('should make an older version current', async () => {
+          vi.mocked(getTaskAttachmentDB).mockResolvedValue({ ...currentVersion, id: 5, version: 1, is_current: false });
+          vi.mocked(restoreTaskAttachmentVersionDB).mockResolvedValue({ ...currentVersion, id: 5, version: 1 });
+
+          const result = await restoreAttachmentVersion(1, 5, 'user1');
+
+          expect(result.id).toBe(5);
+          expect(restoreTaskAttachmentVersionDB).toHaveBeenCalledWith(5);
+          expect(addTaskActivityDB).toHaveBeenCalled();
+        });
+
+        it('should leave the current version as it is', async () => {
+          const result = await restoreAttachmentVersion(1, 7, 'user1');
+
+          expect(result.id).toBe(7);
+          expect(restoreTaskAttachmentVersionDB).not.toHaveBeenCalled();
+        });
+
+        it('should throw when the version is not on the task', async () => {
+          vi.mocked(getTaskAttachmentDB).mockResolvedValue(null);
+
+          await expect(restoreAttachmentVersion(1, 99, 'user1')).rejects.toThrow('Attachment not found');
+        });
+      });
+
+      describe('listAttachmentVersions', () => {
+        it('should list every version of the attachment\'s document', async () => {
+          vi.mocked(isTaskVisibleToUserDB).mockResolvedValue(true);
+          vi.mocked(getAttachmentVersionsDB).mockResolvedValue([
+            { ...currentVersion, uploaded_by: 'user1', uploader: { first_name: 'Alice', last_name: 'Smith' } },
+          ]);
+
+          const versions = await listAttachmentVersions(1, 7, 'user1');
+
+          expect(versions).toHaveLength(1);
+          expect(getAttachmentVersionsDB).toHaveBeenCalledWith(1, 3);
+        });
+
+        it('should hide versions of tasks the user cannot view', async () => {
+          vi.mocked(isTaskVisibleToUserDB).mockResolvedValue(false);
+
+          await expect(listAttachmentVersions(1, 7, 'user1')).rejects.toThrow('Attachment not found');
+          expect(getAttachmentVersionsDB).not.toHaveBeenCalled();
+        });
+      });
+    });
+
     describe('addComment', () => {
       it('should add comment to task successfully', async () => {
         const content = 'This is a comment';
@@ -1989,6 +2498,7 @@ describe('lib/services/tasks', () => {
           content,
           created_at: '2025-10-16T10:00:00.000Z',
           user_id: 'user1',
+          mentioned_user_ids: [],
         });
   
         const result = await addComment(1, content, 'user1');
@@ -2030,11 +2540,75 @@ describe('lib/services/tasks', () => {
           content: 'Comment',
           created_at: '2025-10-16T10:00:00.000Z',
           user_id: 'user1',
+          mentioned_user_ids: [],
         });
   
         await addComment(1, '  Comment  ', 'user1');
   
-        expect(addTaskCommentDB).toHaveBeenCalledWith(1, 'user1', 'Comment');
+        expect(addTaskCommentDB).toHaveBeenCalledWith(1, 'user1', 'Comment', []);
+      });
+
+      it('should keep a comment that is only HTML as typed', async () => {
+        await addComment(1, '<img src=x onerror="alert(1)">', 'user1');
+
+        expect(addTaskCommentDB).toHaveBeenCalledWith(1, 'user1', '<img src=x onerror="alert(1)">', []);
+      });
+
+      describe('mentions', () => {
+        const ann = { id: 'user2', first_name: 'Ann', last_name: 'Lee' };
+        const bob = { id: 'user3', first_name: 'Bob', last_name: 'Tan' };
+
+        beforeEach(() => {
+          vi.mocked(getTaskPermissionDataDB).mockResolvedValue({
+            creator_id: 'user1',
+            assignee_ids: [],
+          });
+          vi.mocked(getMentionableUsersDB).mockResolvedValue([ann, bob]);
+        });
+
+        it('should store the mentioned users', async () => {
+          await addComment(1, '@Ann Lee and @Bob Tan please review', 'user1', ['user2', 'user3', 'user2']);
+
+          expect(addTaskCommentDB).toHaveBeenCalledWith(
+            1,
+            'user1',
+            '@Ann Lee and @Bob Tan please review',
+            ['user2', 'user3']
+          );
+        });
+
+        it('should drop users whose mention was removed from the text', async () => {
+          await addComment(1, '@Ann Leeson, not Bob', 'user1', ['user2', 'user3']);
+
+          expect(addTaskCommentDB).toHaveBeenCalledWith(1, 'user1', '@Ann Leeson, not Bob', []);
+        });
+
+        it('should reject users the author cannot view', async () => {
+          await expect(addComment(1, '@Eve Ong hi', 'user1', ['user9'])).rejects.toThrow(
+            'You can only mention users you can view'
+          );
+          expect(addTaskCommentDB).not.toHaveBeenCalled();
+        });
+
+        it('should reject mentions that are not a list of user IDs', async () => {
+          await expect(addComment(1, 'hi', 'user1', 'user2' as any)).rejects.toThrow(
+            'Mentions must be a list of user IDs'
+          );
+        });
+
+        it('should not look up users when nobody is mentioned', async () => {
+          await addComment(1, 'No mentions here', 'user1');
+
+          expect(getMentionableUsersDB).not.toHaveBeenCalled();
+        });
+
+        it('should store the mentions of an edited comment', async () => {
+          vi.mocked(getCommentAuthorDB).mockResolvedValue('user1');
+
+          await updateComment(1, 'Thanks @Bob Tan', 'user1', ['user3']);
+
+          expect(updateTaskCommentDB).toHaveBeenCalledWith(1, 'Thanks @Bob Tan', ['user3']);
+        });
       });
     });
   
@@ -2047,6 +2621,7 @@ describe('lib/services/tasks', () => {
           id: 1,
           content: newContent,
           updated_at: '2025-10-16T11:00:00.000Z',
+          mentioned_user_ids: [],
         });
   
         const result = await updateComment(1, newContent, 'user1');
@@ -2145,4 +2720,348 @@ describe('lib/services/tasks', () => {
       });
     });
   });
+
+  describe('Task Activity', () => {
+    const fieldValues = {
+      title: 'Old Title',
+      description: null,
+      status: 'To Do',
+      priority_bucket: 5,
+      deadline: '2025-01-01T00:00:00+00:00',
+      notes: null,
+      recurrence_interval: 0,
+      recurrence_date: null,
+      recurrence_rule: null,
+    };
+
+    beforeEach(() => {
+      vi.mocked(addTaskActivityDB).mockReset();
+      vi.mocked(getTaskFieldValuesDB).mockResolvedValue(fieldValues);
+      vi.mocked(getTaskPermissionDataDB).mockResolvedValue({
+        creator_id: 'user1',
+        assignee_ids: [],
+      });
+    });
+
+    it('should log old and new values when the title changes', async () => {
+      vi.mocked(updateTaskTitleDB).mockResolvedValue({ id: 1, title: 'New Title' });
+
+      await updateTitle(1, 'New Title', 'user1');
+
+      expect(addTaskActivityDB).toHaveBeenCalledWith([
+        { task_id: 1, actor_id: 'user1', field: 'title', old_value: 'Old Title', new_value: 'New Title' },
+      ]);
+    });
+
+    it('should normalise deadlines so unchanged instants are not logged', async () => {
+      vi.mocked(updateTaskDeadlineDB).mockResolvedValue({
+        id: 1,
+        deadline: '2025-01-01T00:00:00.000Z',
+      });
+
+      await updateDeadline(1, '2025-01-01T00:00:00.000Z', 'user1');
+
+      expect(addTaskActivityDB).not.toHaveBeenCalled();
+    });
+
+    it('should log the moved deadline', async () => {
+      vi.mocked(updateTaskDeadlineDB).mockResolvedValue({
+        id: 1,
+        deadline: '2025-01-05T00:00:00.000Z',
+      });
+
+      await updateDeadline(1, '2025-01-05T00:00:00.000Z', 'user1');
+
+      expect(addTaskActivityDB).toHaveBeenCalledWith([
+        {
+          task_id: 1,
+          actor_id: 'user1',
+          field: 'deadline',
+          old_value: '2025-01-01T00:00:00.000Z',
+          new_value: '2025-01-05T00:00:00.000Z',
+        },
+      ]);
+    });
+
+    it('should log added assignees with no old value', async () => {
+      vi.mocked(addTaskAssigneeDB).mockResolvedValue('user2');
+
+      await addAssignee(1, 'user2', 'user1');
+
+      expect(addTaskActivityDB).toHaveBeenCalledWith([
+        { task_id: 1, actor_id: 'user1', field: 'assignees', old_value: null, new_value: 'user2' },
+      ]);
+    });
+
+    it('should log removed tags with no new value', async () => {
+      vi.mocked(removeTaskTagDB).mockResolvedValue('urgent');
+
+      await removeTag(1, 'urgent', 'user1');
+
+      expect(addTaskActivityDB).toHaveBeenCalledWith([
+        { task_id: 1, actor_id: 'user1', field: 'tags', old_value: 'urgent', new_value: null },
+      ]);
+    });
+
+    it('should not fail the update when logging fails', async () => {
+      vi.mocked(updateTaskPriorityDB).mockResolvedValue({ id: 1, priority_bucket: 8 });
+      vi.mocked(addTaskActivityDB).mockRejectedValue(new Error('Failed to log task activity: boom'));
+
+      await expect(updatePriority(1, 8, 'user1')).resolves.toEqual({ id: 1, priority_bucket: 8 });
+    });
+
+    it('should resolve actor and assignee names when formatting activity', () => {
+      const result = formatTaskActivity(
+        [
+          {
+            id: 1,
+            task_id: 1,
+            actor_id: 'user1',
+            field: 'assignees',
+            old_value: null,
+            new_value: 'user2',
+            created_at: '2025-01-01T00:00:00.000Z',
+          },
+          {
+            id: 2,
+            task_id: 1,
+            actor_id: 'gone',
+            field: 'assignees',
+            old_value: 'gone',
+            new_value: null,
+            created_at: '2025-01-01T00:00:00.000Z',
+          },
+        ],
+        [
+          { id: 'user1', first_name: 'John', last_name: 'Doe' },
+          { id: 'user2', first_name: 'Jane', last_name: 'Roe' },
+        ]
+      );
+
+      expect(result[0].actor).toEqual({ first_name: 'John', last_name: 'Doe' });
+      expect(result[0].new_value).toBe('Jane Roe');
+      expect(result[1].actor).toBeNull();
+      expect(result[1].old_value).toBe('Unknown user');
+    });
+
+    it('should throw when fetching activity for a task that is not visible', async () => {
+      vi.mocked(getTaskPermissionDataDB).mockResolvedValue(null);
+
+      await expect(getTaskActivityService(1)).rejects.toThrow('Task not found');
+      expect(getTaskActivityDB).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Time Tracking', () => {
+    const runningEntry = {
+      id: 5,
+      task_id: 1,
+      user_id: 'user1',
+      started_at: '2025-01-01T09:00:00.000Z',
+      ended_at: null,
+      note: null,
+    };
+
+    beforeEach(() => {
+      vi.mocked(getTaskPermissionDataDB).mockResolvedValue({
+        creator_id: 'user1',
+        assignee_ids: [],
+      });
+      vi.mocked(getTaskTimeEntriesDB).mockResolvedValue({
+        entries: [
+          runningEntry,
+          {
+            id: 4,
+            task_id: 1,
+            user_id: 'user2',
+            started_at: '2025-01-01T07:00:00.000Z',
+            ended_at: '2025-01-01T08:30:00.000Z',
+            note: 'Review',
+          },
+        ],
+        users: [{ id: 'user2', first_name: 'Jane', last_name: 'Roe' }],
+        logged_time: 5400,
+      });
+    });
+
+    it('should start a timer and return the running entry', async () => {
+      vi.mocked(getRunningTimeEntryDB).mockResolvedValue(null);
+
+      const result = await startTimer(1, 'user1', '  Drafting ');
+
+      expect(addTimeEntryDB).toHaveBeenCalledWith(
+        expect.objectContaining({ task_id: 1, user_id: 'user1', ended_at: null, note: 'Drafting' })
+      );
+      expect(result.running_entry?.id).toBe(5);
+      expect(result.logged_time).toBe(5400);
+      expect(result.entries[1]).toMatchObject({
+        duration: 5400,
+        user_info: { first_name: 'Jane', last_name: 'Roe' },
+      });
+    });
+
+    it('should refuse to start a second timer', async () => {
+      vi.mocked(getRunningTimeEntryDB).mockResolvedValue({ ...runningEntry, task_id: 2 });
+
+      await expect(startTimer(1, 'user1')).rejects.toThrow(
+        'You already have a timer running on task #2'
+      );
+    });
+
+    it('should refuse to start a timer without task permission', async () => {
+      vi.mocked(getTaskPermissionDataDB).mockResolvedValue({
+        creator_id: 'user2',
+        assignee_ids: [],
+      });
+
+      await expect(startTimer(1, 'user1')).rejects.toThrow(
+        'You do not have permission to log time on this task'
+      );
+    });
+
+    it('should stop the running timer on the task', async () => {
+      vi.mocked(getRunningTimeEntryDB).mockResolvedValue(runningEntry);
+
+      await stopTimer(1, 'user1');
+
+      expect(stopTimeEntryDB).toHaveBeenCalledWith(5, expect.any(String));
+    });
+
+    it('should throw when no timer is running on the task', async () => {
+      vi.mocked(getRunningTimeEntryDB).mockResolvedValue({ ...runningEntry, task_id: 2 });
+
+      await expect(stopTimer(1, 'user1')).rejects.toThrow('No running timer on this task');
+    });
+
+    it('should validate manual entries', async () => {
+      await expect(
+        addManualTimeEntry(1, '2025-01-01T10:00:00.000Z', '2025-01-01T09:00:00.000Z', null, 'user1')
+      ).rejects.toThrow('End time must be after start time');
+      await expect(
+        addManualTimeEntry(1, '2025-01-01T00:00:00.000Z', '2025-01-02T01:00:00.000Z', null, 'user1')
+      ).rejects.toThrow('A single time entry cannot exceed 24 hours');
+      await expect(
+        addManualTimeEntry(1, 'not-a-date', '2025-01-01T09:00:00.000Z', null, 'user1')
+      ).rejects.toThrow('Start and end must be valid dates');
+    });
+
+    it('should add a manual entry', async () => {
+      await addManualTimeEntry(
+        1,
+        '2025-01-01T09:00:00.000Z',
+        '2025-01-01T10:00:00.000Z',
+        'Meeting',
+        'user1'
+      );
+
+      expect(addTimeEntryDB).toHaveBeenCalledWith({
+        task_id: 1,
+        user_id: 'user1',
+        started_at: '2025-01-01T09:00:00.000Z',
+        ended_at: '2025-01-01T10:00:00.000Z',
+        note: 'Meeting',
+      });
+    });
+
+    it("should not delete another user's entry", async () => {
+      vi.mocked(getTimeEntryDB).mockResolvedValue({ ...runningEntry, user_id: 'user2' });
+
+      await expect(deleteTimeEntry(1, 5, 'user1')).rejects.toThrow(
+        'You can only delete your own time entries'
+      );
+      expect(deleteTimeEntryDB).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dependencies', () => {
+    const node = (id: number, overrides: Partial<{ project_id: number; parent_task_id: number | null }> = {}) => ({
+      id,
+      title: `Task ${id}`,
+      status: 'To Do',
+      deadline: null,
+      project_id: 1,
+      parent_task_id: null,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      vi.mocked(getTaskPermissionDataDB).mockResolvedValue({
+        creator_id: 'user1',
+        assignee_ids: [],
+      });
+      vi.mocked(getDependencyNodesDB).mockImplementation(async (ids: number[]) => ids.map((id) => node(id)));
+    });
+
+    it('should add a blocker between siblings and log it', async () => {
+      await addDependency(1, 2, 'user1');
+
+      expect(addTaskDependencyDB).toHaveBeenCalledWith(2, 1, 'user1');
+      expect(addTaskActivityDB).toHaveBeenCalledWith([
+        { task_id: 1, actor_id: 'user1', field: 'dependencies', old_value: null, new_value: 'Task 2' },
+      ]);
+    });
+
+    it('should reject a task depending on itself', async () => {
+      await expect(addDependency(1, 1, 'user1')).rejects.toThrow('A task cannot depend on itself');
+    });
+
+    it('should reject tasks that are not siblings', async () => {
+      vi.mocked(getDependencyNodesDB).mockResolvedValueOnce([node(1), node(2, { parent_task_id: 9 })]);
+
+      await expect(addDependency(1, 2, 'user1')).rejects.toThrow(
+        'Dependencies can only link tasks with the same project and parent task'
+      );
+      expect(addTaskDependencyDB).not.toHaveBeenCalled();
+    });
+
+    it('should reject duplicate dependencies', async () => {
+      vi.mocked(getDependencyGraphEdgesDB).mockResolvedValueOnce([{ blocker_task_id: 2, dependent_task_id: 1 }]);
+
+      await expect(addDependency(1, 2, 'user1')).rejects.toThrow('Dependency already exists');
+    });
+
+    it('should detect cycles through other tasks', async () => {
+      // 1 already blocks 3, and 3 blocks 2: making 2 block 1 would close the loop
+      vi.mocked(getDependencyGraphEdgesDB).mockImplementation(async (column, ids) => {
+        if (column === 'dependent_task_id') return [];
+        const edges = [
+          { blocker_task_id: 1, dependent_task_id: 3 },
+          { blocker_task_id: 3, dependent_task_id: 2 },
+        ];
+        return edges.filter((e) => ids.includes(e.blocker_task_id));
+      });
+
+      await expect(addDependency(1, 2, 'user1')).rejects.toThrow('Circular dependency detected');
+      expect(addTaskDependencyDB).not.toHaveBeenCalled();
+      vi.mocked(getDependencyGraphEdgesDB).mockImplementation(async () => []);
+    });
+
+    it('should require permission on the dependent task', async () => {
+      vi.mocked(getTaskPermissionDataDB).mockResolvedValue({ creator_id: 'user2', assignee_ids: [] });
+
+      await expect(addDependency(1, 2, 'user1')).rejects.toThrow('You do not have permission to update this task');
+    });
+
+    it('should throw when removing a dependency that does not exist', async () => {
+      vi.mocked(removeTaskDependencyDB).mockResolvedValueOnce(false);
+
+      await expect(removeDependency(1, 2, 'user1')).rejects.toThrow('Dependency not found');
+    });
+
+    it('should list siblings that are not linked yet as candidates', async () => {
+      vi.mocked(getTaskDependenciesDB).mockResolvedValueOnce({
+        blockers: [{ id: 2, title: 'Task 2', status: 'To Do', deadline: null }],
+        dependents: [],
+      });
+      vi.mocked(getSiblingTasksDB).mockResolvedValueOnce([
+        { id: 2, title: 'Task 2', status: 'To Do', deadline: null },
+        { id: 3, title: 'Task 3', status: 'To Do', deadline: null },
+      ]);
+
+      const result = await getTaskDependenciesService(1);
+
+      expect(getSiblingTasksDB).toHaveBeenCalledWith(1, 1, null);
+      expect(result.candidates.map((t) => t.id)).toEqual([3]);
+    });
+  });
 });
@@ -0,0 +1,138 @@
+import { getWorkloadService, updateWeeklyCapacityService } from '@/lib/services/workload';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { getScheduleTasks } from '@/lib/db/tasks';
+import { getRolesForUserClient } from '@/lib/db/roles';
+import { getDepartmentColleagueIdsDB, getWorkloadUsersDB, updateWeeklyCapacityDB } from '@/lib/db/workload';
+
+vi.mock('@/lib/db/tasks', () => ({
+  getScheduleTasks: vi.fn(),
+}));
+
+vi.mock('@/lib/db/roles', () => ({
+  getRolesForUserClient: vi.fn(),
+}));
+
+vi.mock('@/lib/db/workload', () => ({
+  getDepartmentColleagueIdsDB: vi.fn(),
+  getWorkloadUsersDB: vi.fn(),
+  updateWeeklyCapacityDB: vi.fn(),
+}));
+
+const supabase = {} as any;
+
+// Monday 7 to Sunday 13 January 2030
+const startDate = new Date('2030-01-07T00:00:00Z');
+const endDate = new Date('2030-01-13T23:59:59.999Z');
+
+const scheduleTask = (id: number, projectId: number, assigneeIds: string[], priority: number) => ({
+  id,
+  title: `Task ${id}`,
+  created_at: '2030-01-07T09:00:00Z',
+  deadline: '2030-01-07T17:00:00Z',
+  status: 'To Do',
+  updated_at: '2030-01-07T09:00:00Z',
+  priority_bucket: priority,
+  parent_task_id: null,
+  project_id: projectId,
+  project_name: `Project ${projectId}`,
+  assignees: assigneeIds.map((id) => ({ id, first_name: id, last_name: 'X' })),
+  blocked_by: [],
+});
+
+const userRow = (id: string, departmentId = 1, weeklyCapacity = 40) => ({
+  id,
+  first_name: id,
+  last_name: 'X',
+  department_id: departmentId,
+  weekly_capacity: weeklyCapacity,
+});
+
+describe('workload service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getRolesForUserClient).mockResolvedValue(['staff']);
+    vi.mocked(getWorkloadUsersDB).mockImplementation(async (ids: string[]) => ids.map((id) => userRow(id)));
+  });
+
+  describe('getWorkloadService', () => {
+    it('should count load across projects but only show assignees of the selected projects', async () => {
+      vi.mocked(getScheduleTasks).mockResolvedValue([
+        scheduleTask(1, 1, ['ada'], 5),
+        scheduleTask(2, 2, ['ada', 'grace'], 4),
+      ]);
+
+      const result = await getWorkloadService(supabase, 'ada', { startDate, endDate, projectIds: [1] });
+
+      expect(getScheduleTasks).toHaveBeenCalledWith(startDate, endDate);
+      expect(result.users.map((u) => u.userId)).toEqual(['ada']);
+      expect(result.users[0].days[0].load).toBe(9);
+      expect(result.canSuggest).toBe(false);
+      expect(result.suggestions).toEqual([]);
+    });
+
+    it('should suggest department colleagues to managers', async () => {
+      vi.mocked(getRolesForUserClient).mockResolvedValue(['staff', 'manager']);
+      vi.mocked(getScheduleTasks).mockResolvedValue([scheduleTask(1, 1, ['ada'], 6), scheduleTask(2, 1, ['ada'], 5)]);
+      vi.mocked(getDepartmentColleagueIdsDB).mockResolvedValue(['ada', 'grace']);
+
+      const result = await getWorkloadService(supabase, 'boss', { startDate, endDate, staffIds: ['ada'] });
+
+      expect(getDepartmentColleagueIdsDB).toHaveBeenCalledWith('ada');
+      expect(getWorkloadUsersDB).toHaveBeenLastCalledWith(['grace']);
+      expect(result.canSuggest).toBe(true);
+      expect(result.suggestions).toMatchObject([{ taskId: 1, fromUserId: 'ada', toUserId: 'grace' }]);
+    });
+
+    it('should reject invalid and overly long ranges', async () => {
+      await expect(
+        getWorkloadService(supabase, 'ada', { startDate: endDate, endDate: startDate })
+      ).rejects.toThrow('End date must be after start date');
+      await expect(
+        getWorkloadService(supabase, 'ada', { startDate, endDate: new Date('2030-06-01T00:00:00Z') })
+      ).rejects.toThrow('Date range cannot exceed 92 days');
+      expect(getScheduleTasks).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateWeeklyCapacityService', () => {
+    it('should let users set their own capacity', async () => {
+      vi.mocked(updateWeeklyCapacityDB).mockResolvedValue(true);
+
+      await expect(updateWeeklyCapacityService(supabase, 'ada', 'ada', 30)).resolves.toBe(30);
+      expect(getRolesForUserClient).not.toHaveBeenCalled();
+      expect(updateWeeklyCapacityDB).toHaveBeenCalledWith('ada', 30);
+    });
+
+    it('should validate the capacity', async () => {
+      await expect(updateWeeklyCapacityService(supabase, 'ada', 'ada', 0)).rejects.toThrow(
+        'Weekly capacity must be a whole number between 1 and 200'
+      );
+      await expect(updateWeeklyCapacityService(supabase, 'ada', 'ada', 2.5)).rejects.toThrow(
+        'Weekly capacity must be a whole number between 1 and 200'
+      );
+    });
+
+    it('should only let managers change colleagues in their department', async () => {
+      await expect(updateWeeklyCapacityService(supabase, 'ada', 'grace', 30)).rejects.toThrow(
+        "Only managers can change another user's capacity"
+      );
+
+      vi.mocked(getRolesForUserClient).mockResolvedValue(['manager']);
+      vi.mocked(getDepartmentColleagueIdsDB).mockResolvedValue(['ada']);
+      await expect(updateWeeklyCapacityService(supabase, 'ada', 'grace', 30)).rejects.toThrow(
+        'You can only change capacity for users in your department'
+      );
+
+      vi.mocked(getDepartmentColleagueIdsDB).mockResolvedValue(['ada', 'grace']);
+      vi.mocked(updateWeeklyCapacityDB).mockResolvedValue(true);
+      await expect(updateWeeklyCapacityService(supabase, 'ada', 'grace', 30)).resolves.toBe(30);
+    });
+
+    it('should throw when the user does not exist', async () => {
+      vi.mocked(updateWeeklyCapacityDB).mockResolvedValue(false);
+
+      await expect(updateWeeklyCapacityService(supabase, 'ada', 'ada', 30)).rejects.toThrow('User not found');
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+  attachmentContentType,
+  attachmentDownloadUrl,
+  attachmentFileName,
+  attachmentPreviewKind,
+  buildAttachmentStoragePath,
+  parseCsv,
+  sha256Hex,
+  sniffContentType,
+} from '@/lib/utils/attachments';
+
+const bytes = (...values: (number | string)[]) =>
+  new Uint8Array(
+    values.flatMap((value) =>
+      typeof value === 'string' ? Array.from(value, (c) => c.charCodeAt(0)) : [value]
+    )
+  );
+
+describe('attachments utils', () => {
+  describe('buildAttachmentStoragePath', () => {
+    it('should put the file under the task with a random prefix', () => {
+      const path = buildAttachmentStoragePath(42, 'report.pdf');
+
+      expect(path).toMatch(/^tasks\/42\/[0-9a-f-]{36}-report\.pdf$/);
+    });
+
+    it('should not repeat paths for the same file', () => {
+      expect(buildAttachmentStoragePath(42, 'report.pdf')).not.toBe(
+        buildAttachmentStoragePath(42, 'report.pdf')
+      );
+    });
+  });
+
+  describe('attachmentFileName', () => {
+    it('should strip the random prefix', () => {
+      expect(attachmentFileName('tasks/42/0b5c6a8e-8f3d-4c1e-9a55-1f2e3d4c5b6a-report.pdf')).toBe('report.pdf');
+    });
+
+    it('should strip the timestamp prefix of older uploads', () => {
+      expect(attachmentFileName('tasks/42/1700000000000-report.pdf')).toBe('report.pdf');
+      expect(attachmentFileName('tasks/42/1700000000000-2-report.pdf')).toBe('report.pdf');
+    });
+
+    it('should keep names without a prefix', () => {
+      expect(attachmentFileName('task-attachments/1/file.pdf')).toBe('file.pdf');
+      expect(attachmentFileName('tasks/1/2024-plan.pdf')).toBe('2024-plan.pdf');
+    });
+  });
+
+  describe('attachmentDownloadUrl', () => {
+    it('should point at the attachments route', () => {
+      expect(attachmentDownloadUrl(42, 7)).toBe('/api/tasks/42/attachments/7');
+    });
+  });
+
+  describe('sniffContentType', () => {
+    it('should recognise PDFs and images by their magic bytes', () => {
+      expect(sniffContentType(bytes('%PDF-1.7\n'), 'a.pdf')).toBe('application/pdf');
+      expect(sniffContentType(bytes(0x89, 'PNG', 0x0d, 0x0a, 0x1a, 0x0a, 0), 'a.png')).toBe('image/png');
+      expect(sniffContentType(bytes(0xff, 0xd8, 0xff, 0xe0), 'a.jpg')).toBe('image/jpeg');
+      expect(sniffContentType(bytes('GIF89a'), 'a.gif')).toBe('image/gif');
+      expect(sniffContentType(bytes('RIFF', 0, 0, 0, 0, 'WEBPVP8 '), 'a.webp')).toBe('image/webp');
+    });
+
+    it('should ignore the file name when the bytes say otherwise', () => {
+      expect(sniffContentType(bytes('%PDF-1.4'), 'photo.png', 'image/png')).toBe('application/pdf');
+    });
+
+    it('should tell Word and Excel apart inside OOXML zips', () => {
+      expect(sniffContentType(bytes('PK', 3, 4, 0, 0, 'word/document.xml'), 'a.docx')).toBe(
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+      );
+      expect(sniffContentType(bytes('PK', 3, 4, 0, 0, 'xl/workbook.xml'), 'a.xlsx')).toBe(
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      );
+      expect(sniffContentType(bytes('PK', 3, 4, 0, 0, 'payload.exe'), 'a.docx')).toBeNull();
+    });
+
+    it('should use the name to pick between legacy .doc and .xls', () => {
+      const ole = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+      expect(sniffContentType(bytes(...ole), 'a.doc')).toBe('application/msword');
+      expect(sniffContentType(bytes(...ole), 'a.xls')).toBe('application/vnd.ms-excel');
+      expect(sniffContentType(bytes(...ole), 'a.bin')).toBeNull();
+    });
+
+    it('should treat UTF-8 without NUL bytes as text', () => {
+      const text = new TextEncoder().encode('name,hours\nZoë,3\n');
+      expect(sniffContentType(text, 'hours.csv')).toBe('text/csv');
+      expect(sniffContentType(text, 'notes.txt')).toBe('text/plain');
+    });
+
+    it('should return null for binary content it does not know', () => {
+      expect(sniffContentType(bytes('MZ', 0x90, 0, 3, 0), 'setup.txt')).toBeNull();
+      expect(sniffContentType(bytes(0xc3, 0x28), 'bad.txt')).toBeNull();
+    });
+  });
+
+  describe('sha256Hex', () => {
+    it('should hash the bytes', async () => {
+      expect(await sha256Hex(bytes('abc'))).toBe(
+        'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+      );
+    });
+  });
+
+  describe('attachmentContentType', () => {
+    it('should prefer the stored type', () => {
+      expect(attachmentContentType({ storage_path: 'tasks/1/a.txt', content_type: 'text/csv' })).toBe('text/csv');
+    });
+
+    it('should guess from the extension for older attachments', () => {
+      expect(attachmentContentType({ storage_path: 'tasks/1/a.JPG', content_type: null })).toBe('image/jpeg');
+      expect(attachmentContentType({ storage_path: 'tasks/1/a.docx' })).toBeNull();
+    });
+  });
+
+  describe('attachmentPreviewKind', () => {
+    it('should map previewable types', () => {
+      expect(attachmentPreviewKind('image/webp')).toBe('image');
+      expect(attachmentPreviewKind('application/pdf')).toBe('pdf');
+      expect(attachmentPreviewKind('text/csv')).toBe('csv');
+      expect(attachmentPreviewKind('text/plain')).toBe('text');
+      expect(attachmentPreviewKind('application/msword')).toBeNull();
+      expect(attachmentPreviewKind(null)).toBeNull();
+    });
+  });
+
+  describe('parseCsv', () => {
+    it('should split rows and fields', () => {
+      expect(parseCsv('a,b\r\n1,2\n')).toEqual([
+        ['a', 'b'],
+        ['1', '2'],
+      ]);
+    });
+
+    it('should handle quoted fields with commas, quotes and newlines', () => {
+      expect(parseCsv('name,note\n"Lee, Ann","said ""hi""\nthen left"')).toEqual([
+        ['name', 'note'],
+        ['Lee, Ann', 'said "hi"\nthen left'],
+      ]);
+    });
+
+    it('should stop after maxRows', () => {
+      expect(parseCsv('1\n2\n3\n', 2)).toEqual([['1'], ['2']]);
+    });
+  });
+});
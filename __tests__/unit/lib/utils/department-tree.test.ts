@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { flattenDepartmentTree, wouldCreateCycle } from '@/lib/utils/department-tree';
+
+// Engineering ─┬─ Backend ── Platform
+//              └─ Frontend
+// Sales
+const departments = [
+  { id: 1, name: 'Engineering', parent_department_id: null },
+  { id: 2, name: 'Frontend', parent_department_id: 1 },
+  { id: 3, name: 'Backend', parent_department_id: 1 },
+  { id: 4, name: 'Platform', parent_department_id: 3 },
+  { id: 5, name: 'Sales', parent_department_id: null },
+];
+
+describe('wouldCreateCycle', () => {
+  it('should allow moving to the top level', () => {
+    expect(wouldCreateCycle(departments, 1, null)).toBe(false);
+  });
+
+  it('should allow moving under an unrelated department', () => {
+    expect(wouldCreateCycle(departments, 3, 5)).toBe(false);
+    expect(wouldCreateCycle(departments, 2, 3)).toBe(false);
+  });
+
+  it('should reject the department itself', () => {
+    expect(wouldCreateCycle(departments, 3, 3)).toBe(true);
+  });
+
+  it('should reject direct and indirect descendants', () => {
+    expect(wouldCreateCycle(departments, 1, 3)).toBe(true);
+    expect(wouldCreateCycle(departments, 1, 4)).toBe(true);
+  });
+
+  it('should stop on data that already contains a loop', () => {
+    const looped = [
+      { id: 1, name: 'A', parent_department_id: 2 },
+      { id: 2, name: 'B', parent_department_id: 1 },
+    ];
+
+    expect(wouldCreateCycle(looped, 3, 1)).toBe(true);
+  });
+});
+
+describe('flattenDepartmentTree', () => {
+  it('should list parents before their children with depth, siblings by name', () => {
+    const tree = flattenDepartmentTree(departments);
+
+    expect(tree.map((d) => [d.name, d.depth])).toEqual([
+      ['Engineering', 0],
+      ['Backend', 1],
+      ['Platform', 2],
+      ['Frontend', 1],
+      ['Sales', 0],
+    ]);
+  });
+
+  it('should show departments with a missing parent as roots', () => {
+    const tree = flattenDepartmentTree([{ id: 2, name: 'Orphan', parent_department_id: 99 }]);
+
+    expect(tree).toEqual([{ id: 2, name: 'Orphan', parent_department_id: 99, depth: 0 }]);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { generateICalFile, downloadICalFile } from '@/lib/utils/ical';
+import { generateICalFile, downloadICalFile, parseICalFile, parseICalDate } from '@/lib/utils/ical';
 import type { Task } from '@/lib/services/tasks';
 
 describe('iCal Generation', () => {
@@ -292,6 +292,21 @@ describe('iCal Generation', () => {
         expect(result).toContain('RRULE:FREQ=DAILY;UNTIL=20251110');
       });
 
+      it('should emit a stored recurrence rule starting on the deadline', () => {
+        const recurringTask: Task = {
+          ...mockTask,
+          recurrence_interval: 14,
+          recurrence_date: '2025-11-01T00:00:00Z',
+          recurrence_rule: 'freq=weekly;interval=2;byday=MO,TH;count=5',
+        };
+
+        const result = generateICalFile([recurringTask]);
+
+        expect(result).toContain('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=5');
+        expect(result).toContain('DTSTART;VALUE=DATE:20251115');
+        expect(result).not.toContain('UNTIL=');
+      });
+
       it('should not add RRULE for non-recurring tasks', () => {
         const result = generateICalFile([mockTask]);
         
@@ -403,4 +418,98 @@ describe('iCal Generation', () => {
       expect(() => generateICalFile([])).not.toThrow();
     });
   });
+
+  describe('parseICalDate', () => {
+    it('should read UTC date-times', () => {
+      expect(parseICalDate('20251115T090000Z')).toBe('2025-11-15T09:00:00.000Z');
+    });
+
+    it('should place all-day dates at noon UTC', () => {
+      expect(parseICalDate('20251115')).toBe('2025-11-15T12:00:00.000Z');
+    });
+
+    it('should convert local times with a TZID', () => {
+      expect(parseICalDate('20250115T090000', 'America/New_York')).toBe('2025-01-15T14:00:00.000Z');
+      expect(parseICalDate('20250715T090000', 'Asia/Singapore')).toBe('2025-07-15T01:00:00.000Z');
+    });
+
+    it('should read local times with an unknown TZID as UTC', () => {
+      expect(parseICalDate('20250115T090000', 'Not/AZone')).toBe('2025-01-15T09:00:00.000Z');
+    });
+
+    it('should reject malformed values', () => {
+      expect(parseICalDate('2025-01-15')).toBeNull();
+    });
+  });
+
+  describe('parseICalFile', () => {
+    it('should read events and to-dos with folded lines and escaped text', () => {
+      const content = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'BEGIN:VEVENT',
+        'UID:sprint-review@example.com',
+        'DTSTART;VALUE=DATE:20251120',
+        'SUMMARY:Sprint review\\, demo',
+        'DESCRIPTION:Line one\\nLine two with a very long continuation that is folded acr',
+        ' oss two lines',
+        'CATEGORIES:sprint,demo\\,public',
+        'CATEGORIES:team',
+        'RRULE:FREQ=WEEKLY;INTERVAL=2',
+        'PRIORITY:1',
+        'BEGIN:VALARM',
+        'DESCRIPTION:Reminder',
+        'END:VALARM',
+        'END:VEVENT',
+        'BEGIN:VTODO',
+        'UID:todo-1',
+        'SUMMARY:Write notes',
+        'DUE:20251121T170000Z',
+        'STATUS:IN-PROCESS',
+        'END:VTODO',
+        'END:VCALENDAR',
+      ].join('\r\n');
+
+      const [event, todo] = parseICalFile(content);
+
+      expect(event).toMatchObject({
+        type: 'VEVENT',
+        index: 1,
+        uid: 'sprint-review@example.com',
+        summary: 'Sprint review, demo',
+        description: 'Line one\nLine two with a very long continuation that is folded across two lines',
+        start: '2025-11-20T12:00:00.000Z',
+        due: null,
+        categories: ['sprint', 'demo,public', 'team'],
+        rrule: 'FREQ=WEEKLY;INTERVAL=2',
+        priority: 1,
+        errors: [],
+      });
+      expect(todo).toMatchObject({
+        type: 'VTODO',
+        index: 2,
+        uid: 'todo-1',
+        due: '2025-11-21T17:00:00.000Z',
+        status: 'IN-PROCESS',
+      });
+    });
+
+    it('should report unreadable dates on the component', () => {
+      const content = 'BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nSUMMARY:Bad\r\nDTSTART:tomorrow\r\nEND:VEVENT\r\nEND:VCALENDAR';
+
+      expect(parseICalFile(content)[0].errors).toEqual(['Invalid DTSTART value "tomorrow"']);
+    });
+
+    it('should read back exported tasks', () => {
+      const [event] = parseICalFile(generateICalFile([mockTask]));
+
+      expect(event.uid).toBe('task-1@x-men-tasks');
+      expect(event.summary).toBe('Test Task');
+      expect(event.categories).toEqual(mockTask.tags);
+    });
+
+    it('should reject content that is not a calendar', () => {
+      expect(() => parseICalFile('hello')).toThrow('Invalid iCalendar file: missing BEGIN:VCALENDAR');
+    });
+  });
 });
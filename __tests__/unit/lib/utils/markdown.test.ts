@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { mapOutsideCode, toggleTaskListItem } from '@/lib/utils/markdown';
+
+describe('lib/utils/markdown', () => {
+  describe('mapOutsideCode', () => {
+    it('should skip fenced code blocks and inline code', () => {
+      const input = ['a `a` a', '```', 'a', '```', 'a ``a`` a'].join('\n');
+      expect(mapOutsideCode(input, (prose) => prose.replace(/a/g, 'b'))).toBe(
+        ['b `a` b', '```', 'a', '```', 'b ``a`` b'].join('\n')
+      );
+    });
+
+    it('should treat an unclosed fence as code to the end', () => {
+      const input = 'x\n~~~\nx\nx';
+      expect(mapOutsideCode(input, (prose) => prose.toUpperCase())).toBe('X\n~~~\nx\nx');
+    });
+
+    it('should only close a fence with the same marker', () => {
+      const input = '````\n```\nx\n````\nx';
+      expect(mapOutsideCode(input, (prose) => prose.toUpperCase())).toBe('````\n```\nx\n````\nX');
+    });
+  });
+
+  describe('toggleTaskListItem', () => {
+    const markdown = '- [ ] one\n- [x] two\n  * [ ] nested\n1. [ ] numbered';
+
+    it('should check and uncheck the item starting at the offset', () => {
+      expect(toggleTaskListItem(markdown, 0, true)).toBe(markdown.replace('- [ ] one', '- [x] one'));
+      expect(toggleTaskListItem(markdown, markdown.indexOf('- [x] two'), false)).toBe(
+        markdown.replace('- [x] two', '- [ ] two')
+      );
+      expect(toggleTaskListItem(markdown, markdown.indexOf('* [ ]'), true)).toContain('* [x] nested');
+      expect(toggleTaskListItem(markdown, markdown.indexOf('1.'), true)).toContain('1. [x] numbered');
+    });
+
+    it('should leave the text unchanged when there is no task item at the offset', () => {
+      expect(toggleTaskListItem(markdown, 3, true)).toBe(markdown);
+      expect(toggleTaskListItem('- plain item', 0, true)).toBe('- plain item');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import {
+  filterMentionCandidates,
+  getMentionQuery,
+  insertMention,
+  isMentioned,
+  linkMentions,
+  splitMentions,
+} from '@/lib/utils/mentions';
+
+const ann = { id: 'u1', first_name: 'Ann', last_name: 'Lee' };
+const annSmith = { id: 'u2', first_name: 'Ann', last_name: 'Lee-Smith' };
+const bob = { id: 'u3', first_name: 'Bob', last_name: 'Tan' };
+
+describe('lib/utils/mentions', () => {
+  describe('isMentioned', () => {
+    it('should match the full label', () => {
+      expect(isMentioned('Thanks @Ann Lee!', ann)).toBe(true);
+      expect(isMentioned('@Ann Lee', ann)).toBe(true);
+    });
+
+    it('should not match a longer name or a partial label', () => {
+      expect(isMentioned('@Ann Leeson', ann)).toBe(false);
+      expect(isMentioned('@Ann', ann)).toBe(false);
+      expect(isMentioned('Ann Lee', ann)).toBe(false);
+    });
+  });
+
+  describe('getMentionQuery', () => {
+    it('should return the text typed after @', () => {
+      const text = 'Hi @Ann L';
+      expect(getMentionQuery(text, text.length)).toEqual({ start: 3, query: 'Ann L' });
+    });
+
+    it('should open on a bare @ at the start', () => {
+      expect(getMentionQuery('@', 1)).toEqual({ start: 0, query: '' });
+    });
+
+    it('should ignore @ inside a word such as an email address', () => {
+      const text = 'mail ann@example.com';
+      expect(getMentionQuery(text, text.length)).toBeNull();
+    });
+
+    it('should close after a new line or a double space', () => {
+      expect(getMentionQuery('@Ann\nok', 7)).toBeNull();
+      expect(getMentionQuery('@Ann Lee  ok', 12)).toBeNull();
+    });
+
+    it('should only look at text before the caret', () => {
+      expect(getMentionQuery('@Bo and more', 3)).toEqual({ start: 0, query: 'Bo' });
+    });
+  });
+
+  describe('filterMentionCandidates', () => {
+    it('should match first, last or full name prefixes case-insensitively', () => {
+      const users = [ann, annSmith, bob];
+      expect(filterMentionCandidates(users, 'ann lee-')).toEqual([annSmith]);
+      expect(filterMentionCandidates(users, 'tan')).toEqual([bob]);
+      expect(filterMentionCandidates(users, 'an')).toEqual([ann, annSmith]);
+    });
+
+    it('should return everyone up to the limit for an empty query', () => {
+      expect(filterMentionCandidates([ann, annSmith, bob], '', 2)).toEqual([ann, annSmith]);
+    });
+  });
+
+  describe('insertMention', () => {
+    it('should replace the query with the label and move the caret after it', () => {
+      const result = insertMention('Hi @an, see this', 3, 6, ann);
+      expect(result.text).toBe('Hi @Ann Lee , see this');
+      expect(result.caret).toBe(12);
+    });
+  });
+
+  describe('splitMentions', () => {
+    it('should split text around mentions, preferring the longest name', () => {
+      expect(splitMentions('cc @Ann Lee-Smith and @Bob Tan.', [ann, annSmith, bob])).toEqual([
+        { text: 'cc ' },
+        { text: '@Ann Lee-Smith', user: annSmith },
+        { text: ' and ' },
+        { text: '@Bob Tan', user: bob },
+        { text: '.' },
+      ]);
+    });
+
+    it('should leave text without known mentions untouched', () => {
+      expect(splitMentions('@Eve Ong hi', [ann])).toEqual([{ text: '@Eve Ong hi' }]);
+      expect(splitMentions('hello', [])).toEqual([{ text: 'hello' }]);
+    });
+  });
+
+  describe('linkMentions', () => {
+    it('should turn mentions into mention links outside code', () => {
+      expect(linkMentions('Hi @Ann Lee, see `@Ann Lee`', [ann])).toBe('Hi [@Ann Lee](mention:u1), see `@Ann Lee`');
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeRRule,
+  formatRRule,
+  getNextOccurrence,
+  getNextRecurrence,
+  intervalToRRule,
+  parseRRule,
+  ruleToIntervalDays,
+} from '@/lib/utils/rrule';
+import { calculateNextDueDate, type Task } from '@/lib/types/tasks';
+
+const local = (year: number, month: number, day: number, hours = 9) => new Date(year, month - 1, day, hours);
+
+const next = (rule: string, previous: Date) => getNextOccurrence(parseRRule(rule), previous);
+
+describe('lib/utils/rrule', () => {
+  describe('parseRRule / formatRRule', () => {
+    it('should parse and canonicalise a rule', () => {
+      const rule = parseRRule('RRULE:byday=MO,TH;FREQ=weekly;INTERVAL=2');
+      expect(rule).toEqual({
+        freq: 'WEEKLY',
+        interval: 2,
+        byDay: [{ weekday: 'MO' }, { weekday: 'TH' }],
+      });
+      expect(formatRRule(rule)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH');
+    });
+
+    it('should round-trip ordinal weekdays, BYSETPOS, COUNT and UNTIL', () => {
+      expect(formatRRule(parseRRule('FREQ=MONTHLY;BYDAY=-1FR'))).toBe('FREQ=MONTHLY;BYDAY=-1FR');
+      expect(formatRRule(parseRRule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=6'))).toBe(
+        'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=6'
+      );
+      expect(parseRRule('FREQ=DAILY;UNTIL=20261231T235959Z').until).toBe('2026-12-31');
+      expect(formatRRule(parseRRule('FREQ=DAILY;UNTIL=20261231'))).toBe('FREQ=DAILY;UNTIL=20261231');
+    });
+
+    it.each([
+      ['', 'Invalid RRULE: rule is empty'],
+      ['INTERVAL=2', 'Invalid RRULE: FREQ is required'],
+      ['FREQ=HOURLY', 'Invalid RRULE: unsupported FREQ HOURLY'],
+      ['FREQ=DAILY;INTERVAL=0', 'Invalid RRULE: INTERVAL must be between 1 and 999'],
+      ['FREQ=DAILY;COUNT=3;UNTIL=20261231', 'Invalid RRULE: COUNT and UNTIL cannot be used together'],
+      ['FREQ=WEEKLY;BYMONTH=1', 'Invalid RRULE: BYMONTH is not supported'],
+      ['FREQ=WEEKLY;BYDAY=-1FR', 'Invalid RRULE: ordinal BYDAY values require FREQ=MONTHLY'],
+      ['FREQ=MONTHLY;BYSETPOS=-1', 'Invalid RRULE: BYSETPOS requires BYDAY or BYMONTHDAY'],
+      ['FREQ=DAILY;UNTIL=2026-12-31', 'Invalid RRULE: UNTIL must be a date (YYYYMMDD)'],
+    ])('should reject %s', (value, message) => {
+      expect(() => parseRRule(value)).toThrow(message);
+    });
+  });
+
+  describe('getNextOccurrence', () => {
+    it('should advance every 2 weeks on Mon/Thu', () => {
+      const rule = 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH';
+      // Mon Jan 6 2025 → Thu Jan 9 → Mon Jan 20
+      expect(next(rule, local(2025, 1, 6))).toEqual(local(2025, 1, 9));
+      expect(next(rule, local(2025, 1, 9))).toEqual(local(2025, 1, 20));
+    });
+
+    it('should find the last business day of the month', () => {
+      const rule = 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1';
+      // May 31 2025 is a Saturday, so the last business day is Fri May 30
+      expect(next(rule, local(2025, 5, 1))).toEqual(local(2025, 5, 30));
+      expect(next(rule, local(2025, 5, 30))).toEqual(local(2025, 6, 30));
+    });
+
+    it('should step quarterly and clamp to the end of shorter months', () => {
+      expect(next('FREQ=MONTHLY;INTERVAL=3', local(2025, 1, 15))).toEqual(local(2025, 4, 15));
+      expect(next('FREQ=MONTHLY', local(2025, 1, 31))).toEqual(local(2025, 2, 28));
+    });
+
+    it('should handle BYMONTHDAY from the end of the month', () => {
+      expect(next('FREQ=MONTHLY;BYMONTHDAY=-1', local(2024, 2, 10))).toEqual(local(2024, 2, 29));
+    });
+
+    it('should stop after UNTIL', () => {
+      expect(next('FREQ=DAILY;UNTIL=20250110', local(2025, 1, 9, 17))).toEqual(local(2025, 1, 10, 17));
+      expect(next('FREQ=DAILY;UNTIL=20250110', local(2025, 1, 10, 17))).toBeNull();
+    });
+  });
+
+  describe('getNextRecurrence', () => {
+    it('should decrement COUNT and end when it is used up', () => {
+      expect(getNextRecurrence('FREQ=DAILY;COUNT=2', local(2025, 1, 1))).toEqual({
+        deadline: local(2025, 1, 2),
+        rule: 'FREQ=DAILY;COUNT=1',
+      });
+      expect(getNextRecurrence('FREQ=DAILY;COUNT=1', local(2025, 1, 2))).toBeNull();
+    });
+  });
+
+  describe('helpers', () => {
+    it('should convert between rules and legacy intervals', () => {
+      expect(ruleToIntervalDays(parseRRule('FREQ=WEEKLY;INTERVAL=2'))).toBe(14);
+      expect(ruleToIntervalDays(parseRRule('FREQ=MONTHLY;INTERVAL=3'))).toBe(90);
+      expect(intervalToRRule(30)).toEqual({ freq: 'MONTHLY', interval: 1 });
+      expect(intervalToRRule(14)).toEqual({ freq: 'WEEKLY', interval: 2 });
+      expect(intervalToRRule(0)).toBeNull();
+    });
+
+    it('should describe rules in plain language', () => {
+      expect(describeRRule(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH'))).toBe('Every 2 weeks on Mon, Thu');
+      expect(describeRRule(parseRRule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1'))).toBe(
+        'Monthly on the last business day'
+      );
+      expect(describeRRule(parseRRule('FREQ=MONTHLY;INTERVAL=3;COUNT=4'))).toBe('Quarterly, 4 times');
+      expect(describeRRule(parseRRule('FREQ=DAILY;UNTIL=20261231'))).toBe('Daily, until Dec 31, 2026');
+    });
+  });
+
+  describe('calculateNextDueDate with a recurrence rule', () => {
+    const createTask = (overrides: Partial<Task>): Task => ({
+      id: 1,
+      title: 'Report',
+      description: null,
+      priority: 5,
+      status: 'To Do',
+      deadline: local(2025, 1, 9).toISOString(),
+      notes: null,
+      recurrence_interval: 14,
+      recurrence_date: null,
+      recurrence_rule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=3',
+      project: { id: 1, name: 'Alpha' },
+      creator: { creator_id: 'user-1', user_info: { first_name: 'John', last_name: 'Doe' } },
+      subtasks: [],
+      assignees: [],
+      tags: [],
+      attachments: [],
+      isOverdue: false,
+      ...overrides,
+    });
+
+    it('should use the rule instead of the interval and carry the remaining count', () => {
+      const result = calculateNextDueDate(createTask({}));
+      expect(result.deadline).toBe(local(2025, 1, 20).toISOString());
+      expect(result.recurrence_rule).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=2');
+    });
+
+    it('should return the task unchanged once the rule has ended', () => {
+      const task = createTask({ recurrence_rule: 'FREQ=WEEKLY;COUNT=1' });
+      expect(calculateNextDueDate(task)).toBe(task);
+    });
+  });
+});
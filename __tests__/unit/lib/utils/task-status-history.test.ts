@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  averageOf,
+  getTaskFlowMetrics,
+  groupStatusHistoryByTask,
+  type TaskStatusPeriod,
+} from '@/lib/utils/task-status-history';
+
+const period = (overrides: Partial<TaskStatusPeriod>): TaskStatusPeriod => ({
+  task_id: 1,
+  status: 'To Do',
+  previous_status: null,
+  entered_at: '2030-01-07T00:00:00Z',
+  left_at: null,
+  ...overrides,
+});
+
+describe('lib/utils/task-status-history', () => {
+  describe('getTaskFlowMetrics', () => {
+    it('should sum the time spent in each status', () => {
+      const metrics = getTaskFlowMetrics({ created_at: '2030-01-07T00:00:00Z' }, [
+        period({ status: 'To Do', left_at: '2030-01-07T02:00:00Z' }),
+        period({ status: 'Blocked', previous_status: 'To Do', entered_at: '2030-01-07T02:00:00Z', left_at: '2030-01-07T05:00:00Z' }),
+        period({ status: 'To Do', previous_status: 'Blocked', entered_at: '2030-01-07T05:00:00Z', left_at: '2030-01-07T06:00:00Z' }),
+      ]);
+
+      expect(metrics.timeInStatusHours).toEqual({ 'To Do': 3, Blocked: 3 });
+      expect(metrics.blockedHours).toBe(3);
+    });
+
+    it('should count the current status up to now', () => {
+      const metrics = getTaskFlowMetrics(
+        { created_at: '2030-01-07T00:00:00Z' },
+        [period({ status: 'Blocked' })],
+        new Date('2030-01-07T04:00:00Z')
+      );
+
+      expect(metrics.blockedHours).toBe(4);
+    });
+
+    it('should measure lead and cycle time to completed_at', () => {
+      const metrics = getTaskFlowMetrics(
+        {
+          created_at: '2030-01-07T00:00:00Z',
+          started_at: '2030-01-07T06:00:00Z',
+          completed_at: '2030-01-08T00:00:00Z',
+        },
+        []
+      );
+
+      expect(metrics.leadTimeHours).toBe(24);
+      expect(metrics.cycleTimeHours).toBe(18);
+    });
+
+    it('should leave lead and cycle time empty for open or never-started tasks', () => {
+      expect(getTaskFlowMetrics({ created_at: '2030-01-07T00:00:00Z', started_at: '2030-01-07T06:00:00Z' }, []))
+        .toMatchObject({ leadTimeHours: null, cycleTimeHours: null });
+      expect(getTaskFlowMetrics({ created_at: '2030-01-07T00:00:00Z', completed_at: '2030-01-07T06:00:00Z' }, []))
+        .toMatchObject({ leadTimeHours: 6, cycleTimeHours: null });
+    });
+
+    it('should count every time a task left Completed as a reopen', () => {
+      const metrics = getTaskFlowMetrics({ created_at: '2030-01-07T00:00:00Z' }, [
+        period({ status: 'Completed', previous_status: 'In Progress' }),
+        period({ status: 'In Progress', previous_status: 'Completed' }),
+        period({ status: 'Completed', previous_status: 'In Progress' }),
+        period({ status: 'Blocked', previous_status: 'Completed' }),
+      ]);
+
+      expect(metrics.reopenCount).toBe(2);
+    });
+  });
+
+  describe('groupStatusHistoryByTask', () => {
+    it('should group periods by task in chronological order', () => {
+      const grouped = groupStatusHistoryByTask([
+        period({ task_id: 2, status: 'Completed', entered_at: '2030-01-08T00:00:00Z' }),
+        period({ task_id: 1 }),
+        period({ task_id: 2, status: 'To Do', entered_at: '2030-01-07T00:00:00Z' }),
+      ]);
+
+      expect(grouped.get(1)).toHaveLength(1);
+      expect(grouped.get(2)!.map((p) => p.status)).toEqual(['To Do', 'Completed']);
+    });
+  });
+
+  describe('averageOf', () => {
+    it('should average the values that are present', () => {
+      expect(averageOf([2, null, 4])).toBe(3);
+      expect(averageOf([null])).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_TASK_LIST_COLUMNS,
+  DEFAULT_TASK_LIST_VIEW_STATE,
+  decodeTaskListViewState,
+  encodeTaskListViewState,
+  normalizeTaskListViewQuery,
+} from '@/lib/utils/task-view-query';
+
+describe('lib/utils/task-view-query', () => {
+  it('should encode the default view as an empty query', () => {
+    expect(encodeTaskListViewState(DEFAULT_TASK_LIST_VIEW_STATE)).toBe('');
+    expect(decodeTaskListViewState('')).toEqual(DEFAULT_TASK_LIST_VIEW_STATE);
+  });
+
+  it('should round-trip filters, sort, columns and the completed toggle', () => {
+    const state = {
+      projects: [1, 4],
+      statuses: ['To Do', 'Blocked'],
+      tags: ['urgent'],
+      sort: { key: 'deadline' as const, direction: 'desc' as const },
+      columns: ['tags', 'status'],
+      showCompleted: true,
+    };
+
+    const query = encodeTaskListViewState(state);
+
+    expect(query).toBe(
+      'project=1&project=4&status=To+Do&status=Blocked&tag=urgent&sort=deadline&order=desc&columns=status%2Ctags&completed=1'
+    );
+    expect(decodeTaskListViewState(query)).toEqual({ ...state, columns: ['status', 'tags'] });
+  });
+
+  it('should ignore invalid values', () => {
+    const state = decodeTaskListViewState('?project=abc&project=-1&project=2&status=Done&sort=secret&columns=nope,tags');
+
+    expect(state.projects).toEqual([2]);
+    expect(state.statuses).toEqual([]);
+    expect(state.sort).toBeNull();
+    expect(state.columns).toEqual(['tags']);
+  });
+
+  it('should keep all columns when the columns param is absent', () => {
+    expect(decodeTaskListViewState('sort=title').columns).toEqual(DEFAULT_TASK_LIST_COLUMNS);
+  });
+
+  it('should normalise equivalent queries to the same string', () => {
+    expect(normalizeTaskListViewQuery('completed=1&status=To+Do&status=To+Do&foo=bar')).toBe(
+      'status=To+Do&completed=1'
+    );
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeWorkload,
+  getTaskDailyLoads,
+  getWorkloadDayCount,
+  suggestReassignments,
+  type WorkloadTask,
+} from '@/lib/utils/workload';
+
+// Monday 7 to Sunday 13 January 2030
+const start = new Date('2030-01-07T00:00:00Z');
+const end = new Date('2030-01-13T23:59:59.999Z');
+
+const task = (id: number, overrides: Partial<WorkloadTask>): WorkloadTask => ({
+  id,
+  title: `Task ${id}`,
+  created_at: '2030-01-07T09:00:00Z',
+  deadline: '2030-01-07T17:00:00Z',
+  status: 'To Do',
+  priority_bucket: 5,
+  assignees: [{ id: 'ada' }],
+  ...overrides,
+});
+
+const users = [
+  { id: 'ada', name: 'Ada Lovelace', weeklyCapacity: 40 },
+  { id: 'grace', name: 'Grace Hopper', weeklyCapacity: 40 },
+  { id: 'alan', name: 'Alan Turing', weeklyCapacity: 5 },
+];
+
+describe('lib/utils/workload', () => {
+  it('should count one slice per day of the range', () => {
+    expect(getWorkloadDayCount(start, end)).toBe(7);
+    expect(getWorkloadDayCount(start, start)).toBe(1);
+  });
+
+  describe('getTaskDailyLoads', () => {
+    it('should spread the priority over the working days of the task', () => {
+      const loads = getTaskDailyLoads(
+        task(1, { priority_bucket: 10, deadline: '2030-01-08T17:00:00Z' }),
+        start,
+        7
+      );
+
+      expect(loads).toEqual([5, 5, 0, 0, 0, 0, 0]);
+    });
+
+    it('should include working days before the range in the spread', () => {
+      // Tue 1 to Wed 9 January: 7 working days
+      const loads = getTaskDailyLoads(
+        task(1, { priority_bucket: 7, created_at: '2030-01-01T09:00:00Z', deadline: '2030-01-09T17:00:00Z' }),
+        start,
+        7
+      );
+
+      expect(loads).toEqual([1, 1, 1, 0, 0, 0, 0]);
+    });
+
+    it('should put weekend-only tasks on the weekend', () => {
+      const loads = getTaskDailyLoads(
+        task(1, { priority_bucket: 4, created_at: '2030-01-12T09:00:00Z', deadline: '2030-01-13T17:00:00Z' }),
+        start,
+        7
+      );
+
+      expect(loads).toEqual([0, 0, 0, 0, 0, 2, 2]);
+    });
+
+    it('should ignore completed tasks', () => {
+      expect(getTaskDailyLoads(task(1, { status: 'Completed' }), start, 7)).toEqual([0, 0, 0, 0, 0, 0, 0]);
+    });
+  });
+
+  describe('computeWorkload', () => {
+    it('should flag days over the daily share of the weekly capacity', () => {
+      const [ada, grace] = computeWorkload(
+        [
+          task(1, { priority_bucket: 10, deadline: '2030-01-08T17:00:00Z' }),
+          task(2, { priority_bucket: 8, created_at: '2030-01-08T09:00:00Z', deadline: '2030-01-08T17:00:00Z' }),
+          task(3, { assignees: [{ id: 'someone-else' }] }),
+        ],
+        users.slice(0, 2),
+        start,
+        end
+      );
+
+      expect(ada.days.map((d) => d.load)).toEqual([5, 13, 0, 0, 0, 0, 0]);
+      expect(ada.days.map((d) => d.capacity)).toEqual([8, 8, 8, 8, 8, 0, 0]);
+      expect(ada.days[1]).toMatchObject({ overCapacity: true, taskIds: [1, 2] });
+      expect(ada.days[1].date).toBe('2030-01-08T00:00:00.000Z');
+      expect(ada.overCapacityDays).toBe(1);
+      expect(grace.overCapacityDays).toBe(0);
+    });
+
+    it('should treat any weekend load as over capacity', () => {
+      const [ada] = computeWorkload(
+        [task(1, { priority_bucket: 1, created_at: '2030-01-12T09:00:00Z', deadline: '2030-01-12T17:00:00Z' })],
+        users.slice(0, 1),
+        start,
+        end
+      );
+
+      expect(ada.days[5]).toMatchObject({ load: 1, capacity: 0, overCapacity: true });
+    });
+  });
+
+  describe('suggestReassignments', () => {
+    const tasks = [
+      task(1, { priority_bucket: 10, deadline: '2030-01-08T17:00:00Z' }),
+      task(2, { priority_bucket: 8, created_at: '2030-01-08T09:00:00Z', deadline: '2030-01-08T17:00:00Z' }),
+    ];
+
+    it('should move the heaviest task to the colleague with room for it', () => {
+      const workloads = computeWorkload(tasks, users, start, end);
+
+      const suggestions = suggestReassignments(workloads, tasks, new Map([['ada', ['ada', 'grace', 'alan']]]), start);
+
+      // Moving task 1 brings Tuesday back to capacity, so task 2 stays
+      expect(suggestions).toEqual([
+        {
+          taskId: 1,
+          taskTitle: 'Task 1',
+          fromUserId: 'ada',
+          fromUserName: 'Ada Lovelace',
+          toUserId: 'grace',
+          toUserName: 'Grace Hopper',
+          relievedDates: ['2030-01-08T00:00:00.000Z'],
+        },
+      ]);
+    });
+
+    it('should skip colleagues without room or already assigned', () => {
+      const shared = [tasks[0], { ...tasks[1], assignees: [{ id: 'ada' }, { id: 'grace' }] }];
+      const busy = [...shared, task(3, { priority_bucket: 8, assignees: [{ id: 'grace' }] })];
+      const workloads = computeWorkload(busy, users, start, end);
+
+      const suggestions = suggestReassignments(workloads, busy, new Map([['ada', ['grace', 'alan']]]), start);
+
+      // Grace is full on Monday and already on task 2; Alan's 1 point a day fits neither
+      expect(suggestions).toEqual([]);
+    });
+  });
+});
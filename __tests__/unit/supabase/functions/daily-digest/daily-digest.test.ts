@@ -9,7 +9,7 @@ import {
 } from "../../../../../__tests__/fixtures/database.fixtures";
 
 // Helper to create mock Supabase client
-function createMockSupabase(tasks: any[], assignments: any[]) {
+function createMockSupabase(tasks: any[], assignments: any[], preferenceSettings: any[] = []) {
   return {
     from: (table: string) => ({
       select: () => ({
@@ -18,6 +18,8 @@ function createMockSupabase(tasks: any[], assignments: any[]) {
             ? tasks
             : table === "task_assignments"
             ? assignments
+            : table === "notification_preferences"
+            ? preferenceSettings
             : [],
         error: null,
       }),
@@ -579,3 +581,88 @@ Deno.test("Should handle empty task list", async () => {
   restoreFetch();
   restore();
 });
+
+// ============ NOTIFICATION PREFERENCE TESTS ============
+
+function runDigestForBob(preferenceSettings: any[]) {
+  const tasks = [tasksFixtures.budgetReport]; // assigned to bob, due today
+  const assignments = task_assignments.filter(a => a.task_id === tasksFixtures.budgetReport.id);
+  const users = [{ id: authUsersFixtures.bob.id, email: authUsersFixtures.bob.email }];
+  const emailsSent: any[] = [];
+
+  const restoreFetch = mockFetchForUsers({ [authUsersFixtures.bob.id]: authUsersFixtures.bob.email }, users);
+
+  return sendDailyDigest(
+    createMockSupabase(tasks, assignments, preferenceSettings),
+    async (params: any) => {
+      emailsSent.push(params);
+    },
+    { url: "https://example.supabase.co", serviceRoleKey: "test-key" },
+    users
+  ).then((result: any) => {
+    restoreFetch();
+    return { result, emailsSent };
+  });
+}
+
+// @ts-ignore
+Deno.test("Should NOT send digest to users who turned digests off", async () => {
+  const restore = suppressLogs();
+
+  const { result } = await runDigestForBob([
+    { user_id: authUsersFixtures.bob.id, quiet_hours_start: null, quiet_hours_end: null, digest_frequency: "off" },
+  ]);
+
+  assertEquals(result.sent, 0);
+
+  restore();
+});
+
+// @ts-ignore
+Deno.test("Should send weekly digest only on Mondays", async () => {
+  const restore = suppressLogs();
+
+  const { result, emailsSent } = await runDigestForBob([
+    { user_id: authUsersFixtures.bob.id, quiet_hours_start: null, quiet_hours_end: null, digest_frequency: "weekly" },
+  ]);
+
+  const isMonday =
+    new Date().toLocaleDateString("en-US", { timeZone: "Asia/Singapore", weekday: "short" }) === "Mon";
+  assertEquals(result.sent, isMonday ? 1 : 0);
+  if (isMonday) {
+    assertEquals(emailsSent[0].subject, "Your Weekly Task Digest");
+  }
+
+  restore();
+});
+
+// @ts-ignore
+Deno.test("Should hold the digest until the end of the user's quiet hours", async () => {
+  const restore = suppressLogs();
+
+  // A window covering the whole day except one minute is always active
+  const { result, emailsSent } = await runDigestForBob([
+    {
+      user_id: authUsersFixtures.bob.id,
+      quiet_hours_start: "00:00:00",
+      quiet_hours_end: "23:59:59",
+      digest_frequency: "daily",
+    },
+  ]);
+
+  const sgTime = new Date().toLocaleTimeString("en-GB", {
+    timeZone: "Asia/Singapore",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  });
+  assertEquals(result.sent, 1);
+  if (sgTime === "23:59") {
+    assertEquals(emailsSent[0].sendAt, undefined);
+  } else {
+    // 23:59 SGT is 15:59 UTC
+    assertStringIncludes(emailsSent[0].sendAt, "T15:59:00.000Z");
+  }
+
+  restore();
+});
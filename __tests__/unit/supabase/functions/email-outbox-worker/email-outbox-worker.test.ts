@@ -0,0 +1,266 @@
+//@ts-ignore
+import { assertEquals, assertRejects } from "https://deno.land/std@0.208.0/assert/mod.ts";
+//@ts-ignore
+import { drainEmailOutbox, retryDelayMs } from "../../../../../supabase/functions/email-outbox-worker/email-outbox-worker-wrapper.ts";
+//@ts-ignore
+import { createOutboxSender, PermanentEmailError } from "../../../../../supabase/functions/_shared/emailOutbox.ts";
+
+const NOW = new Date("2025-06-01T00:00:00.000Z");
+
+function outboxRow(id: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    idempotency_key: `deadline_reminder:${id}`,
+    to_email: `user${id}@example.com`,
+    from_email: "bot@example.com",
+    subject: `Subject ${id}`,
+    body: "<p>Hello</p>",
+    is_html: true,
+    attempts: 1,
+    max_attempts: 5,
+    ...overrides,
+  };
+}
+
+function createMockSupabase(claimed: any[], claimError: any = null) {
+  const updates: { id: number; values: any }[] = [];
+  const upserts: { values: any; options: any }[] = [];
+  const existingKeys = new Set<string>();
+
+  return {
+    updates,
+    upserts,
+    rpc: async (fn: string, args: any) => {
+      assertEquals(fn, "claim_email_outbox");
+      return { data: claimError ? null : claimed.slice(0, args.batch_size), error: claimError };
+    },
+    from: (table: string) => {
+      assertEquals(table, "email_outbox");
+      return {
+        update: (values: any) => ({
+          eq: async (_column: string, id: number) => {
+            updates.push({ id, values });
+            return { error: null };
+          },
+        }),
+        upsert: (values: any, options: any) => ({
+          select: async () => {
+            upserts.push({ values, options });
+            const isNew = !existingKeys.has(values.idempotency_key);
+            existingKeys.add(values.idempotency_key);
+            return { data: isNew ? [{ id: upserts.length }] : [], error: null };
+          },
+        }),
+      };
+    },
+  };
+}
+
+function suppressLogs() {
+  const logs = [console.log, console.error, console.warn];
+  console.log = console.error = console.warn = () => {};
+  return () => {
+    [console.log, console.error, console.warn] = logs;
+  };
+}
+
+function mockTransport(failures: Record<string, Error> = {}) {
+  const sent: any[] = [];
+  return {
+    sent,
+    transport: {
+      name: "mock",
+      send: async (email: any) => {
+        const failure = failures[email.idempotencyKey];
+        if (failure) throw failure;
+        sent.push(email);
+      },
+    },
+  };
+}
+
+// ============ DELIVERY ============
+
+// @ts-ignore
+Deno.test("Should deliver claimed emails and mark them sent", async () => {
+  const restore = suppressLogs();
+  const supabase = createMockSupabase([outboxRow(1), outboxRow(2, { is_html: false })]);
+  const { transport, sent } = mockTransport();
+
+  const result = await drainEmailOutbox(supabase, transport, { now: () => NOW });
+
+  assertEquals(result.claimed, 2);
+  assertEquals(result.sent, 2);
+  assertEquals(sent[0], {
+    to: "user1@example.com",
+    from: "bot@example.com",
+    subject: "Subject 1",
+    content: "<p>Hello</p>",
+    isHtml: true,
+    idempotencyKey: "deadline_reminder:1",
+  });
+  assertEquals(sent[1].isHtml, false);
+  assertEquals(supabase.updates[0], {
+    id: 1,
+    values: {
+      status: "sent",
+      sent_at: NOW.toISOString(),
+      locked_at: null,
+      last_error: null,
+      updated_at: NOW.toISOString(),
+    },
+  });
+
+  restore();
+});
+
+// @ts-ignore
+Deno.test("Should respect the batch size", async () => {
+  const restore = suppressLogs();
+  const supabase = createMockSupabase([outboxRow(1), outboxRow(2), outboxRow(3)]);
+  const { transport } = mockTransport();
+
+  const result = await drainEmailOutbox(supabase, transport, { batchSize: 2, now: () => NOW });
+
+  assertEquals(result.claimed, 2);
+
+  restore();
+});
+
+// ============ RETRIES AND DEAD LETTERS ============
+
+// @ts-ignore
+Deno.test("Should back off exponentially, capped at six hours", () => {
+  assertEquals(retryDelayMs(1), 60 * 1000);
+  assertEquals(retryDelayMs(2), 2 * 60 * 1000);
+  assertEquals(retryDelayMs(4), 8 * 60 * 1000);
+  assertEquals(retryDelayMs(20), 6 * 60 * 60 * 1000);
+});
+
+// @ts-ignore
+Deno.test("Should reschedule a failed email and keep delivering the rest", async () => {
+  const restore = suppressLogs();
+  const supabase = createMockSupabase([outboxRow(1, { attempts: 3 }), outboxRow(2)]);
+  const { transport, sent } = mockTransport({ "deadline_reminder:1": new Error("SendGrid error 503") });
+
+  const result = await drainEmailOutbox(supabase, transport, { now: () => NOW });
+
+  assertEquals(result.sent, 1);
+  assertEquals(result.retrying, 1);
+  assertEquals(sent.length, 1);
+  assertEquals(supabase.updates[0], {
+    id: 1,
+    values: {
+      status: "pending",
+      locked_at: null,
+      last_error: "SendGrid error 503",
+      next_attempt_at: new Date(NOW.getTime() + 4 * 60 * 1000).toISOString(),
+      updated_at: NOW.toISOString(),
+    },
+  });
+
+  restore();
+});
+
+// @ts-ignore
+Deno.test("Should dead-letter an email on its last attempt", async () => {
+  const restore = suppressLogs();
+  const supabase = createMockSupabase([outboxRow(1, { attempts: 5, max_attempts: 5 })]);
+  const { transport } = mockTransport({ "deadline_reminder:1": new Error("timeout") });
+
+  const result = await drainEmailOutbox(supabase, transport, { now: () => NOW });
+
+  assertEquals(result.deadLettered, 1);
+  assertEquals(result.failures[0].deadLettered, true);
+  assertEquals(supabase.updates[0].values.status, "dead");
+  assertEquals(supabase.updates[0].values.last_error, "timeout");
+
+  restore();
+});
+
+// @ts-ignore
+Deno.test("Should dead-letter permanent failures without retrying", async () => {
+  const restore = suppressLogs();
+  const supabase = createMockSupabase([outboxRow(1, { attempts: 1 })]);
+  const { transport } = mockTransport({
+    "deadline_reminder:1": new PermanentEmailError("SendGrid error 400: invalid address"),
+  });
+
+  const result = await drainEmailOutbox(supabase, transport, { now: () => NOW });
+
+  assertEquals(result.deadLettered, 1);
+  assertEquals(supabase.updates[0].values.status, "dead");
+
+  restore();
+});
+
+// @ts-ignore
+Deno.test("Should fail when emails cannot be claimed", async () => {
+  const restore = suppressLogs();
+  const supabase = createMockSupabase([], { message: "permission denied" });
+  const { transport } = mockTransport();
+
+  await assertRejects(
+    () => drainEmailOutbox(supabase, transport, { now: () => NOW }),
+    Error,
+    "Failed to claim outbox emails: permission denied"
+  );
+
+  restore();
+});
+
+// ============ ENQUEUE ============
+
+// @ts-ignore
+Deno.test("Should enqueue an email once per idempotency key", async () => {
+  const supabase = createMockSupabase([]);
+  const send = createOutboxSender(supabase);
+  const email = {
+    to: "user1@example.com",
+    from: "bot@example.com",
+    subject: "Reminder",
+    content: "<p>Hi</p>",
+    isHtml: true,
+    idempotencyKey: "deadline_reminder:1:user-1:due_today:2025-06-01",
+  };
+
+  assertEquals(await send(email), "Queued");
+  assertEquals(await send(email), `Already queued (${email.idempotencyKey})`);
+  assertEquals(supabase.upserts[0].options, { onConflict: "idempotency_key", ignoreDuplicates: true });
+  assertEquals(supabase.upserts[0].values, {
+    idempotency_key: email.idempotencyKey,
+    to_email: "user1@example.com",
+    from_email: "bot@example.com",
+    subject: "Reminder",
+    body: "<p>Hi</p>",
+    is_html: true,
+  });
+});
+
+// @ts-ignore
+Deno.test("Should hold an email until its send time", async () => {
+  const supabase = createMockSupabase([]);
+  const send = createOutboxSender(supabase);
+
+  await send({
+    to: "user1@example.com",
+    from: "bot@example.com",
+    subject: "Digest",
+    content: "<p>Hi</p>",
+    idempotencyKey: "digest:daily:user-1:2025-06-01",
+    sendAt: "2025-06-01T23:00:00.000Z",
+  });
+
+  assertEquals(supabase.upserts[0].values.next_attempt_at, "2025-06-01T23:00:00.000Z");
+});
+
+// @ts-ignore
+Deno.test("Should refuse to enqueue without an idempotency key", async () => {
+  const send = createOutboxSender(createMockSupabase([]));
+
+  await assertRejects(
+    () => send({ to: "a@example.com", from: "b@example.com", subject: "s", content: "c", idempotencyKey: "" }),
+    Error,
+    "Outbox emails need an idempotency key"
+  );
+});
@@ -8,7 +8,11 @@ import {
   task_assignments,
 } from "../../../../../__tests__/fixtures/database.fixtures";
 
-function createMockSupabase(tasks: any[], assignments: any[]) {
+function createMockSupabase(
+  tasks: any[],
+  assignments: any[],
+  preferences: { settings?: any[]; events?: any[] } = {}
+) {
   return {
     from: (table: string) => ({
       select: () => {
@@ -18,6 +22,12 @@ function createMockSupabase(tasks: any[], assignments: any[]) {
         if (table === "task_assignments") {
           return { data: assignments, error: null };
         }
+        if (table === "notification_preferences") {
+          return { data: preferences.settings ?? [], error: null };
+        }
+        if (table === "notification_event_preferences") {
+          return { data: preferences.events ?? [], error: null };
+        }
       },
     }),
   };
@@ -412,3 +422,127 @@ Deno.test("Should NOT send reminder 2+ days BEFORE deadline", async () => {
   restoreFetch();
   restore();
 });
+
+// ============ NOTIFICATION PREFERENCE TESTS ============
+
+// @ts-ignore
+Deno.test("Should NOT send reminder when assignee turned off deadline reminder emails", async () => {
+  const restore = suppressLogs();
+
+  const tasks = [tasksFixtures.designReview];
+  const assignments = task_assignments.filter(a => a.task_id === tasksFixtures.designReview.id);
+
+  const mockSupabase = createMockSupabase(tasks, assignments, {
+    events: [
+      { user_id: authUsersFixtures.dave.id, event_type: "deadline_reminder", email: false },
+    ],
+  });
+  let emailsSent: any[] = [];
+
+  const mockSendEmail = async (params: any) => {
+    emailsSent.push(params);
+  };
+
+  const restoreFetch = mockFetchForUsers({
+    [authUsersFixtures.dave.id]: authUsersFixtures.dave.email,
+  });
+
+  const result = await sendTaskReminders(mockSupabase, mockSendEmail, {
+    url: "https://example.supabase.co",
+    serviceRoleKey: "test-key",
+  });
+
+  assertEquals(result.sent, 0);
+  assertEquals(emailsSent.length, 0);
+
+  restoreFetch();
+  restore();
+});
+
+// @ts-ignore
+Deno.test("Should hold reminders until the end of the assignee's quiet hours", async () => {
+  const restore = suppressLogs();
+
+  const tasks = [tasksFixtures.designReview];
+  const assignments = task_assignments.filter(a => a.task_id === tasksFixtures.designReview.id);
+
+  // A window covering the whole day except one minute is always active
+  const mockSupabase = createMockSupabase(tasks, assignments, {
+    settings: [
+      {
+        user_id: authUsersFixtures.dave.id,
+        quiet_hours_start: "00:00:00",
+        quiet_hours_end: "23:59:59",
+        digest_frequency: "daily",
+      },
+    ],
+  });
+  let emailsSent: any[] = [];
+
+  const mockSendEmail = async (params: any) => {
+    emailsSent.push(params);
+  };
+
+  const restoreFetch = mockFetchForUsers({
+    [authUsersFixtures.dave.id]: authUsersFixtures.dave.email,
+  });
+
+  const result = await sendTaskReminders(mockSupabase, mockSendEmail, {
+    url: "https://example.supabase.co",
+    serviceRoleKey: "test-key",
+  });
+
+  const sgTime = new Date().toLocaleTimeString("en-GB", {
+    timeZone: "Asia/Singapore",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  });
+  assertEquals(result.sent, 1);
+  if (sgTime === "23:59") {
+    assertEquals(emailsSent[0].sendAt, undefined);
+  } else {
+    // 23:59 SGT is 15:59 UTC
+    assertStringIncludes(emailsSent[0].sendAt, "T15:59:00.000Z");
+  }
+
+  restoreFetch();
+  restore();
+});
+
+// ============ OUTBOX ============
+
+// @ts-ignore
+Deno.test("Should give each reminder a stable idempotency key and escape task text", async () => {
+  const restore = suppressLogs();
+
+  const task = { ...tasksFixtures.designReview, title: 'Review <b>"specs"</b>' };
+  const assignments = task_assignments.filter(a => a.task_id === tasksFixtures.designReview.id);
+
+  const mockSupabase = createMockSupabase([task], assignments);
+  let emailsSent: any[] = [];
+
+  const mockSendEmail = async (params: any) => {
+    emailsSent.push(params);
+  };
+
+  const restoreFetch = mockFetchForUsers({
+    [authUsersFixtures.dave.id]: authUsersFixtures.dave.email,
+  });
+
+  const config = { url: "https://example.supabase.co", serviceRoleKey: "test-key" };
+  await sendTaskReminders(mockSupabase, mockSendEmail, config);
+  await sendTaskReminders(mockSupabase, mockSendEmail, config);
+
+  assertEquals(emailsSent.length, 2);
+  assertStringIncludes(
+    emailsSent[0].idempotencyKey,
+    `deadline_reminder:${task.id}:${authUsersFixtures.dave.id}:due_tomorrow:`
+  );
+  // A re-run produces the same key, so the outbox keeps a single copy
+  assertEquals(emailsSent[1].idempotencyKey, emailsSent[0].idempotencyKey);
+  assertStringIncludes(emailsSent[0].content, "Review &lt;b&gt;&quot;specs&quot;&lt;/b&gt;");
+
+  restoreFetch();
+  restore();
+});
@@ -0,0 +1,54 @@
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { getRolesForUserClient } from '@/lib/db/roles';
+import { getAuditLog, listDepartments, listUsers } from '@/lib/services/admin';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { DepartmentManager } from '@/components/admin/department-manager';
+import { UserManager } from '@/components/admin/user-manager';
+import { AuditLog } from '@/components/admin/audit-log';
+
+export const dynamic = 'force-dynamic';
+
+export default async function AdminPage() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/');
+  }
+
+  const roles = await getRolesForUserClient(supabase, user.id);
+  if (!roles.includes('admin')) {
+    redirect('/unauthorized');
+  }
+
+  const [departments, users, entries] = await Promise.all([
+    listDepartments(supabase, user.id),
+    listUsers(supabase, user.id),
+    getAuditLog(supabase, user.id),
+  ]);
+
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-6xl space-y-6">
+      <h1 className="text-2xl font-bold">Admin</h1>
+      <Tabs defaultValue="departments">
+        <TabsList>
+          <TabsTrigger value="departments">Departments</TabsTrigger>
+          <TabsTrigger value="users">Users</TabsTrigger>
+          <TabsTrigger value="audit">Audit Log</TabsTrigger>
+        </TabsList>
+        <TabsContent value="departments" className="pt-4">
+          <DepartmentManager departments={departments} />
+        </TabsContent>
+        <TabsContent value="users" className="pt-4">
+          <UserManager users={users} departments={departments} currentUserId={user.id} />
+        </TabsContent>
+        <TabsContent value="audit" className="pt-4">
+          <AuditLog entries={entries} users={users} departments={departments} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
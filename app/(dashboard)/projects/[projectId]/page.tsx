@@ -0,0 +1,52 @@
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { createClient } from '@/lib/supabase/server';
+import { getRolesForUserClient } from '@/lib/db/roles';
+import { getProjectDetails } from '@/lib/services/projects';
+import { Button } from '@/components/ui/button';
+import { ProjectSettings } from '@/components/projects/project-settings';
+
+export const dynamic = 'force-dynamic';
+
+export default async function ProjectSettingsPage({ params }: { params: Promise<{ projectId: string }> }) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/');
+  }
+
+  const roles = await getRolesForUserClient(supabase, user.id);
+  if (!roles.includes('manager') && !roles.includes('admin')) {
+    redirect('/unauthorized');
+  }
+
+  const resolvedParams = await params;
+  const projectId = Number.parseInt(resolvedParams.projectId, 10);
+  if (isNaN(projectId)) {
+    notFound();
+  }
+
+  const project = await getProjectDetails(supabase, user.id, projectId);
+  if (!project) {
+    notFound();
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-5xl space-y-6">
+      <div className="flex items-center gap-3">
+        <Button asChild variant="outline" size="sm">
+          <Link href="/projects">
+            <ArrowLeft className="h-4 w-4" />
+            Projects
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-bold">{project.name}</h1>
+      </div>
+      <ProjectSettings project={project} />
+    </div>
+  );
+}
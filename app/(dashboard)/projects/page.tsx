@@ -0,0 +1,32 @@
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { getRolesForUserClient } from '@/lib/db/roles';
+import { listManagedProjects } from '@/lib/services/projects';
+import { ProjectList } from '@/components/projects/project-list';
+
+export const dynamic = 'force-dynamic';
+
+export default async function ProjectsPage() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/');
+  }
+
+  const roles = await getRolesForUserClient(supabase, user.id);
+  if (!roles.includes('manager') && !roles.includes('admin')) {
+    redirect('/unauthorized');
+  }
+
+  const projects = await listManagedProjects(supabase, user.id);
+
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-5xl space-y-6">
+      <h1 className="text-2xl font-bold">Projects</h1>
+      <ProjectList projects={projects} />
+    </div>
+  );
+}
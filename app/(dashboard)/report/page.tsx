@@ -70,6 +70,7 @@ async function ReportsPageData() {
       if (preselectedProjects.length > 0) {
         const reportData = await generateLoggedTimeReport({
           projectIds: preselectedProjects,
+          departmentIds: preselectedDepartments,
           startDate: undefined,
           endDate: undefined,
         });
@@ -86,7 +87,12 @@ async function ReportsPageData() {
           onTimeCompletionRate: reportData.onTimeCompletionRate,
           totalDelayHours: reportData.totalDelayHours,
           overdueTime: reportData.overdueTime,
+          avgLeadTime: reportData.avgLeadTime,
+          avgCycleTime: reportData.avgCycleTime,
+          blockedTime: reportData.blockedTime,
+          reopenCount: reportData.reopenCount,
           timeByTask: reportData.timeByTask,
+          departments: reportData.departments,
         };
       }
     }
@@ -0,0 +1,32 @@
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import { getNotificationPreferences } from '@/lib/services/notification-preferences';
+import { NotificationPreferencesForm } from '@/components/notifications/notification-preferences-form';
+
+export const dynamic = 'force-dynamic';
+
+export default async function SettingsPage() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/');
+  }
+
+  const preferences = await getNotificationPreferences(user.id);
+
+  return (
+    <div className="container mx-auto px-4 py-6 max-w-3xl space-y-6">
+      <h1 className="text-2xl font-bold">Settings</h1>
+      <section className="space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold">Notifications</h2>
+          <p className="text-sm text-muted-foreground">Choose what you hear about and how.</p>
+        </div>
+        <NotificationPreferencesForm preferences={preferences} />
+      </section>
+    </div>
+  );
+}
@@ -8,7 +8,7 @@ import { format } from "date-fns"
 import { SubtaskLink } from "@/components/tasks/subtask-link"
 import { enUS } from "date-fns/locale"
 import { getTaskById, getAllUsers, getAllProjects } from "@/lib/db/tasks"
-import { getTaskByIdService } from "@/lib/services/tasks"
+import { getTaskByIdService, getTaskDependenciesService, getTaskTimeTrackingService } from "@/lib/services/tasks"
 import { EditableDescription } from "@/components/tasks/editable-description"
 import { EditableTitle } from "@/components/tasks/editable-title"
 import { EditablePriority } from "@/components/tasks/editable-priority"
@@ -23,6 +23,9 @@ import { getRolesForUserClient } from "@/lib/db/roles"
 import { ArchiveButton } from "@/components/tasks/archive-button"
 import { Separator } from "@/components/ui/separator"
 import { TaskComments } from "@/components/tasks/task-comments"
+import { TaskActivityTimeline } from "@/components/tasks/task-activity"
+import { TaskTimeTracker } from "@/components/tasks/time-tracker"
+import { TaskDependencies } from "@/components/tasks/task-dependencies"
 import { checkUserIsAdmin } from "@/lib/db/tasks"
 import { CreateSubtaskButton } from "@/components/tasks/create-subtask-wrapper"
 
@@ -55,6 +58,8 @@ export default async function TaskDetailsPage({ params }: { params: Promise<{ ta
 
   const allUsers = await getAllUsers()
   const allProjects = await getAllProjects()
+  const timeTracking = await getTaskTimeTrackingService(task.id, user.id)
+  const dependencies = await getTaskDependenciesService(task.id)
 
   return (
     <div className="container mx-auto px-4 py-6 max-w-5xl">
@@ -158,6 +163,7 @@ export default async function TaskDetailsPage({ params }: { params: Promise<{ ta
                   taskId={task.id}
                   recurrenceInterval={task.recurrence_interval}
                   recurrenceDate={task.recurrence_date}
+                  recurrenceRule={task.recurrence_rule}
                 />
               ) : (
                 <div>
@@ -205,6 +211,26 @@ export default async function TaskDetailsPage({ params }: { params: Promise<{ ta
           </CardContent>
         </Card>
 
+        {/* Dependencies Card */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl font-semibold">Dependencies</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <TaskDependencies taskId={task.id} initialDependencies={dependencies} />
+          </CardContent>
+        </Card>
+
+        {/* Time Tracking Card */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl font-semibold">Time Tracking</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <TaskTimeTracker taskId={task.id} initialTimeTracking={timeTracking} currentUserId={user.id} />
+          </CardContent>
+        </Card>
+
         {/* Attachments Card */}
         <Card>
           <CardHeader>
@@ -224,6 +250,16 @@ export default async function TaskDetailsPage({ params }: { params: Promise<{ ta
             <TaskComments taskId={task.id} comments={task.comments} currentUserId={user.id} isAdmin={isAdmin} />
           </CardContent>
         </Card>
+
+        {/* Activity Card */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl font-semibold">Activity</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <TaskActivityTimeline taskId={task.id} />
+          </CardContent>
+        </Card>
       </div>
     </div>
   )
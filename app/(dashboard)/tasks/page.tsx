@@ -2,10 +2,15 @@ import { createClient } from '@/lib/supabase/server';
 import { redirect } from 'next/navigation';
 import TasksList from '@/components/tasks/task-list';
 import { getUserTasksService } from '@/lib/services/tasks';
+import { getDefaultTaskViewQuery } from '@/lib/services/task-views';
 import TasksPageHeader from '@/components/tasks/tasks-page-header';
 import TasksViewWrapper from '@/components/tasks/tasks-view-wrapper';
 
-export default async function TasksPage() {
+export default async function TasksPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
   const supabase = await createClient();
   const {
     data: { user },
@@ -15,6 +20,14 @@ export default async function TasksPage() {
     redirect('/');
   }
 
+  // A bare /tasks opens the user's default saved view, if any
+  if (Object.keys(await searchParams).length === 0) {
+    const defaultQuery = await getDefaultTaskViewQuery(user.id);
+    if (defaultQuery) {
+      redirect(`/tasks?${defaultQuery}`);
+    }
+  }
+
   // Fetch and format tasks via service layer (single call)
   const tasks = await getUserTasksService(user.id);
 
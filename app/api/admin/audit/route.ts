@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { ADMIN_PERMISSION_ERROR, getAuditLog } from '@/lib/services/admin';
+
+/**
+ * GET /api/admin/audit - Recent admin console changes, newest first (admins)
+ *
+ * Query:
+ * - limit?: number - Defaults to 100, at most 500
+ *
+ * Returns:
+ * - entries: AuditLogEntry[]
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const limitParam = request.nextUrl.searchParams.get('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : undefined;
+
+    try {
+      const entries = await getAuditLog(supabase, user.id, limit);
+      return NextResponse.json({ entries }, { status: 200 });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch audit log';
+      if (errorMessage === ADMIN_PERMISSION_ERROR) {
+        return NextResponse.json({ error: errorMessage }, { status: 403 });
+      }
+      throw err;
+    }
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    return NextResponse.json({ error: 'Failed to fetch audit log' }, { status: 500 });
+  }
+}
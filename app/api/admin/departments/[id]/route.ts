@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  ADMIN_PERMISSION_ERROR,
+  deleteDepartment,
+  DEPARTMENT_CYCLE_ERROR,
+  DEPARTMENT_NOT_FOUND_ERROR,
+  updateDepartment,
+} from '@/lib/services/admin';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+const STATUS_BY_ERROR: Record<string, number> = {
+  [ADMIN_PERMISSION_ERROR]: 403,
+  [DEPARTMENT_NOT_FOUND_ERROR]: 404,
+  [DEPARTMENT_CYCLE_ERROR]: 409,
+  'A department with this name already exists': 409,
+  'Move or delete its sub-departments first': 409,
+  'Move its users to another department first': 409,
+};
+
+/**
+ * PATCH /api/admin/departments/[id] - Rename or re-parent a department (admins)
+ *
+ * Body (all optional, at least one):
+ * - name: string
+ * - parentDepartmentId: number | null - Must not be the department or one of its
+ *   sub-departments
+ *
+ * Returns:
+ * - department: AdminDepartment
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const resolvedParams = await params;
+    const departmentId = parseInt(resolvedParams.id, 10);
+    if (isNaN(departmentId)) {
+      return NextResponse.json({ error: 'Invalid department ID' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const updates: { name?: unknown; parentDepartmentId?: unknown } = {};
+    if (body.name !== undefined) updates.name = body.name;
+    if (body.parentDepartmentId !== undefined) updates.parentDepartmentId = body.parentDepartmentId;
+
+    try {
+      const department = await updateDepartment(supabase, user.id, departmentId, updates);
+      return NextResponse.json({ success: true, department }, { status: 200 });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update department';
+      return NextResponse.json({ error: errorMessage }, { status: STATUS_BY_ERROR[errorMessage] ?? 400 });
+    }
+  } catch (error) {
+    console.error('Error updating department:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update department' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/departments/[id] - Delete an empty department (admins)
+ *
+ * Departments that still have users or sub-departments are rejected with 409.
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const resolvedParams = await params;
+    const departmentId = parseInt(resolvedParams.id, 10);
+    if (isNaN(departmentId)) {
+      return NextResponse.json({ error: 'Invalid department ID' }, { status: 400 });
+    }
+
+    try {
+      await deleteDepartment(supabase, user.id, departmentId);
+      return NextResponse.json({ success: true }, { status: 200 });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete department';
+      return NextResponse.json({ error: errorMessage }, { status: STATUS_BY_ERROR[errorMessage] ?? 400 });
+    }
+  } catch (error) {
+    console.error('Error deleting department:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete department' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { ADMIN_PERMISSION_ERROR, createDepartment, listDepartments } from '@/lib/services/admin';
+
+const STATUS_BY_ERROR: Record<string, number> = {
+  [ADMIN_PERMISSION_ERROR]: 403,
+  'A department with this name already exists': 409,
+};
+
+/**
+ * GET /api/admin/departments - List every department (admins)
+ *
+ * Returns:
+ * - departments: AdminDepartment[] - With their number of users
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+      const departments = await listDepartments(supabase, user.id);
+      return NextResponse.json({ departments }, { status: 200 });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch departments';
+      if (errorMessage === ADMIN_PERMISSION_ERROR) {
+        return NextResponse.json({ error: errorMessage }, { status: 403 });
+      }
+      throw err;
+    }
+  } catch (error) {
+    console.error('Error fetching departments:', error);
+    return NextResponse.json({ error: 'Failed to fetch departments' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/departments - Create a department (admins)
+ *
+ * Body:
+ * - name: string
+ * - parentDepartmentId?: number | null - Omit or null for a top-level department
+ *
+ * Returns:
+ * - department: AdminDepartment
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    try {
+      const department = await createDepartment(supabase, user.id, {
+        name: body.name,
+        parentDepartmentId: body.parentDepartmentId,
+      });
+      return NextResponse.json({ success: true, department }, { status: 201 });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create department';
+      return NextResponse.json({ error: errorMessage }, { status: STATUS_BY_ERROR[errorMessage] ?? 400 });
+    }
+  } catch (error) {
+    console.error('Error creating department:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create department' },
+      { status: 500 }
+    );
+  }
+}
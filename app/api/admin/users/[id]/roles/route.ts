@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { ADMIN_PERMISSION_ERROR, grantRole, revokeRole, USER_NOT_FOUND_ERROR } from '@/lib/services/admin';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+const STATUS_BY_ERROR: Record<string, number> = {
+  [ADMIN_PERMISSION_ERROR]: 403,
+  [USER_NOT_FOUND_ERROR]: 404,
+};
+
+/**
+ * POST /api/admin/users/[id]/roles - Grant a role (admins)
+ *
+ * Body:
+ * - role: 'staff' | 'manager' | 'admin'
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: targetUserId } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    try {
+      await grantRole(supabase, user.id, targetUserId, body.role);
+      return NextResponse.json({ success: true }, { status: 200 });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to grant role';
+      return NextResponse.json({ error: errorMessage }, { status: STATUS_BY_ERROR[errorMessage] ?? 400 });
+    }
+  } catch (error) {
+    console.error('Error granting role:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to grant role' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/admin/users/[id]/roles?role=manager - Revoke a role (admins)
+ *
+ * Admins cannot revoke their own admin role.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: targetUserId } = await params;
+    const role = request.nextUrl.searchParams.get('role');
+
+    try {
+      await revokeRole(supabase, user.id, targetUserId, role);
+      return NextResponse.json({ success: true }, { status: 200 });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to revoke role';
+      return NextResponse.json({ error: errorMessage }, { status: STATUS_BY_ERROR[errorMessage] ?? 400 });
+    }
+  } catch (error) {
+    console.error('Error revoking role:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to revoke role' },
+      { status: 500 }
+    );
+  }
+}
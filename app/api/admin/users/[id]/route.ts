@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  ADMIN_PERMISSION_ERROR,
+  DEPARTMENT_NOT_FOUND_ERROR,
+  updateUser,
+  USER_NOT_FOUND_ERROR,
+} from '@/lib/services/admin';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+const STATUS_BY_ERROR: Record<string, number> = {
+  [ADMIN_PERMISSION_ERROR]: 403,
+  [USER_NOT_FOUND_ERROR]: 404,
+  [DEPARTMENT_NOT_FOUND_ERROR]: 404,
+};
+
+/**
+ * PATCH /api/admin/users/[id] - Move, deactivate or reactivate a user (admins)
+ *
+ * Body (all optional, at least one):
+ * - departmentId: number
+ * - isActive: boolean - false bans the account so the user can no longer sign in
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id: targetUserId } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    const updates: { departmentId?: unknown; isActive?: boolean } = {};
+    if (body.departmentId !== undefined) updates.departmentId = body.departmentId;
+    if (typeof body.isActive === 'boolean') updates.isActive = body.isActive;
+
+    try {
+      await updateUser(supabase, user.id, targetUserId, updates);
+      return NextResponse.json({ success: true }, { status: 200 });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update user';
+      return NextResponse.json({ error: errorMessage }, { status: STATUS_BY_ERROR[errorMessage] ?? 400 });
+    }
+  } catch (error) {
+    console.error('Error updating user:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update user' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { ADMIN_PERMISSION_ERROR, createUser, DEPARTMENT_NOT_FOUND_ERROR, listUsers } from '@/lib/services/admin';
+
+const STATUS_BY_ERROR: Record<string, number> = {
+  [ADMIN_PERMISSION_ERROR]: 403,
+  [DEPARTMENT_NOT_FOUND_ERROR]: 404,
+};
+
+/**
+ * GET /api/admin/users - List every user with their email and roles (admins)
+ *
+ * Returns:
+ * - users: AdminUser[] - Deactivated users included
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+      const users = await listUsers(supabase, user.id);
+      return NextResponse.json({ users }, { status: 200 });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch users';
+      if (errorMessage === ADMIN_PERMISSION_ERROR) {
+        return NextResponse.json({ error: errorMessage }, { status: 403 });
+      }
+      throw err;
+    }
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    return NextResponse.json({ error: 'Failed to fetch users' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/users - Create a user (admins)
+ *
+ * Body:
+ * - email: string
+ * - password?: string - Omit to send an invitation email instead
+ * - firstName: string
+ * - lastName: string
+ * - departmentId: number
+ * - roles?: ('staff' | 'manager' | 'admin')[] - Defaults to ['staff']
+ *
+ * Returns:
+ * - user: AdminUser
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    try {
+      const created = await createUser(supabase, user.id, {
+        email: body.email,
+        password: body.password || undefined,
+        firstName: body.firstName,
+        lastName: body.lastName,
+        departmentId: body.departmentId,
+        roles: body.roles,
+      });
+      return NextResponse.json({ success: true, user: created }, { status: 201 });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create user';
+      return NextResponse.json({ error: errorMessage }, { status: STATUS_BY_ERROR[errorMessage] ?? 400 });
+    }
+  } catch (error) {
+    console.error('Error creating user:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create user' },
+      { status: 500 }
+    );
+  }
+}
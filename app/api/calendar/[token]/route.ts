@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getCalendarFeed,
+  matchesIfNoneMatch,
+  parseCalendarFeedFilters,
+} from '@/lib/services/calendar-feeds';
+
+/**
+ * GET /api/calendar/[token].ics - iCalendar subscription feed
+ *
+ * Authorization:
+ * - The secret token in the URL; no session is required so calendar apps can poll it.
+ *   The feed contains the tasks visible to the token owner.
+ *
+ * Query params:
+ * - project: comma-separated project IDs to include
+ * - tag: comma-separated tag names to include
+ *
+ * Returns:
+ * - 200 text/calendar body with an ETag
+ * - 304 when If-None-Match matches the current ETag
+ * - 404 for unknown or revoked tokens
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  try {
+    const { token: segment } = await params;
+    if (!segment.endsWith('.ics')) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+    }
+
+    const feed = await getCalendarFeed(
+      segment.slice(0, -'.ics'.length),
+      parseCalendarFeedFilters(request.nextUrl.searchParams)
+    );
+
+    if (!feed) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+    }
+
+    const headers = {
+      ETag: feed.etag,
+      'Cache-Control': 'private, no-cache',
+    };
+
+    if (matchesIfNoneMatch(request.headers.get('if-none-match'), feed.etag)) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    return new NextResponse(feed.body, {
+      status: 200,
+      headers: {
+        ...headers,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="x-men-tasks.ics"',
+      },
+    });
+  } catch (error) {
+    console.error('Error serving calendar feed:', error);
+    return NextResponse.json({ error: 'Failed to generate calendar feed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { revokeCalendarFeed } from '@/lib/services/calendar-feeds';
+
+/**
+ * DELETE /api/calendar/feeds/[id] - Revoke one of the current user's calendar feed tokens
+ *
+ * The token row is kept (with revoked_at set) and the feed URL stops working immediately.
+ *
+ * Returns:
+ * - feed: CalendarFeedToken - The revoked token
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const resolvedParams = await params;
+    const feedId = parseInt(resolvedParams.id, 10);
+    if (isNaN(feedId)) {
+      return NextResponse.json({ error: 'Invalid feed ID' }, { status: 400 });
+    }
+
+    const feed = await revokeCalendarFeed(user.id, feedId);
+
+    return NextResponse.json({ success: true, feed }, { status: 200 });
+  } catch (error) {
+    console.error('Error revoking calendar feed:', error);
+
+    if (error instanceof Error && error.message === 'Calendar feed not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to revoke calendar feed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createCalendarFeed, listCalendarFeeds } from '@/lib/services/calendar-feeds';
+
+/**
+ * GET /api/calendar/feeds - List the current user's calendar feed tokens
+ *
+ * Returns:
+ * - feeds: CalendarFeedToken[] - Newest first, revoked tokens included
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const feeds = await listCalendarFeeds(user.id);
+
+    return NextResponse.json({ feeds }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching calendar feeds:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch calendar feeds' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/calendar/feeds - Create a calendar feed token
+ *
+ * Body:
+ * - name: string - Label shown in the feed list and as the calendar name
+ *
+ * Returns:
+ * - feed: CalendarFeedToken
+ * - token: string - The secret for the feed URL; only returned here
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (typeof body.name !== 'string') {
+      return NextResponse.json({ error: 'Feed name is required' }, { status: 400 });
+    }
+
+    try {
+      const result = await createCalendarFeed(user.id, body.name);
+      return NextResponse.json({ success: true, ...result }, { status: 201 });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create calendar feed';
+      return NextResponse.json({ error: errorMessage }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Error creating calendar feed:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create calendar feed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  archiveProject,
+  DEPARTMENT_PERMISSION_ERROR,
+  PROJECT_PERMISSION_ERROR,
+  updateProject,
+} from '@/lib/services/projects';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+const STATUS_BY_ERROR: Record<string, number> = {
+  [PROJECT_PERMISSION_ERROR]: 403,
+  [DEPARTMENT_PERMISSION_ERROR]: 403,
+  'Project not found': 404,
+  'A project with this name already exists': 409,
+};
+
+/**
+ * PATCH /api/projects/[id] - Rename, archive/restore or re-link a project (managers and admins)
+ *
+ * Body (all optional, at least one):
+ * - name: string
+ * - isArchived: boolean
+ * - departmentIds: number[] - The full set of linked departments; only departments
+ *   the user manages (any for admins) can be added or removed
+ *
+ * Returns:
+ * - project: ManagedProject
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const resolvedParams = await params;
+    const projectId = parseInt(resolvedParams.id, 10);
+    if (isNaN(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const updates: { name?: unknown; isArchived?: boolean; departmentIds?: unknown } = {};
+    if (body.name !== undefined) updates.name = body.name;
+    if (typeof body.isArchived === 'boolean') updates.isArchived = body.isArchived;
+    if (body.departmentIds !== undefined) updates.departmentIds = body.departmentIds;
+
+    try {
+      const project = await updateProject(supabase, user.id, projectId, updates);
+      return NextResponse.json({ success: true, project }, { status: 200 });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update project';
+      return NextResponse.json({ error: errorMessage }, { status: STATUS_BY_ERROR[errorMessage] ?? 400 });
+    }
+  } catch (error) {
+    console.error('Error updating project:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update project' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/projects/[id] - Archive a project (managers and admins)
+ *
+ * Projects are never removed, so their tasks keep their history; restore one
+ * with PATCH { isArchived: false }.
+ *
+ * Returns:
+ * - project: ManagedProject
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const resolvedParams = await params;
+    const projectId = parseInt(resolvedParams.id, 10);
+    if (isNaN(projectId)) {
+      return NextResponse.json({ error: 'Invalid project ID' }, { status: 400 });
+    }
+
+    try {
+      const project = await archiveProject(supabase, user.id, projectId);
+      return NextResponse.json({ success: true, project }, { status: 200 });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to archive project';
+      return NextResponse.json({ error: errorMessage }, { status: STATUS_BY_ERROR[errorMessage] ?? 400 });
+    }
+  } catch (error) {
+    console.error('Error archiving project:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to archive project' },
+      { status: 500 }
+    );
+  }
+}
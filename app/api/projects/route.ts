@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import {
+  createProject,
+  DEPARTMENT_PERMISSION_ERROR,
+  listManagedProjects,
+  PROJECT_PERMISSION_ERROR,
+} from '@/lib/services/projects';
+
+const STATUS_BY_ERROR: Record<string, number> = {
+  [PROJECT_PERMISSION_ERROR]: 403,
+  [DEPARTMENT_PERMISSION_ERROR]: 403,
+  'A project with this name already exists': 409,
+};
+
+/**
+ * GET /api/projects - List every project for project management (managers and admins)
+ *
+ * Returns:
+ * - projects: ManagedProject[] - Archived projects included
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+      const projects = await listManagedProjects(supabase, user.id);
+      return NextResponse.json({ projects }, { status: 200 });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch projects';
+      if (errorMessage === PROJECT_PERMISSION_ERROR) {
+        return NextResponse.json({ error: errorMessage }, { status: 403 });
+      }
+      throw err;
+    }
+  } catch (error) {
+    console.error('Error fetching projects:', error);
+    return NextResponse.json({ error: 'Failed to fetch projects' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/projects - Create a project (managers and admins)
+ *
+ * Body:
+ * - name: string
+ * - departmentIds?: number[] - Departments to link the project to
+ *
+ * Returns:
+ * - project: ManagedProject
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    try {
+      const project = await createProject(supabase, user.id, {
+        name: body.name,
+        departmentIds: body.departmentIds,
+      });
+      return NextResponse.json({ success: true, project }, { status: 201 });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to create project';
+      return NextResponse.json({ error: errorMessage }, { status: STATUS_BY_ERROR[errorMessage] ?? 400 });
+    }
+  } catch (error) {
+    console.error('Error creating project:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create project' },
+      { status: 500 }
+    );
+  }
+}
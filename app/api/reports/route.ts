@@ -94,6 +94,7 @@ export async function GET(req: NextRequest) {
         // Generate logged time report with filters
         const reportData = await generateLoggedTimeReport({
           projectIds: projectIds.length ? projectIds : undefined,
+          departmentIds: departmentIds.length ? departmentIds : undefined,
           startDate,
           endDate,
         });
@@ -110,7 +111,12 @@ export async function GET(req: NextRequest) {
           onTimeCompletionRate: reportData.onTimeCompletionRate,
           totalDelayHours: reportData.totalDelayHours,
           overdueTime: reportData.overdueTime,
+          avgLeadTime: reportData.avgLeadTime,
+          avgCycleTime: reportData.avgCycleTime,
+          blockedTime: reportData.blockedTime,
+          reopenCount: reportData.reopenCount,
           timeByTask: Object.fromEntries(reportData.timeByTask),
+          departments: reportData.departments,
         });
       }
 
@@ -118,6 +124,7 @@ export async function GET(req: NextRequest) {
         // Generate team summary report with filters
         const reportData = await generateTeamSummaryReport({
           projectIds: projectIds.length ? projectIds : undefined,
+          departmentIds: departmentIds.length ? departmentIds : undefined,
           startDate,
           endDate,
         });
@@ -130,6 +137,7 @@ export async function GET(req: NextRequest) {
           weeklyBreakdown: reportData.weeklyBreakdown,
           userTotals: Object.fromEntries(reportData.userTotals),
           weekTotals: Object.fromEntries(reportData.weekTotals),
+          departments: reportData.departments,
         });
       }
 
@@ -137,6 +145,7 @@ export async function GET(req: NextRequest) {
         // Generate task completion report with filters
         const reportData = await generateTaskCompletionReport({
           projectIds: projectIds.length ? projectIds : undefined,
+          departmentIds: departmentIds.length ? departmentIds : undefined,
           startDate,
           endDate,
         });
@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { getScheduleTasks } from '@/lib/db/tasks';
+import { rescheduleTask } from '@/lib/services/tasks';
+
+const STATUS_BY_ERROR: Record<string, number> = {
+  'You do not have permission to update this task': 403,
+  'Task not found': 404,
+  'Deadline is required': 400,
+  'Deadline must be a date string or null': 400,
+  'Invalid date format': 400,
+};
 
 function parseArray(param?: string | null): number[] {
   return param
@@ -46,9 +55,24 @@ export async function GET(req: NextRequest) {
   }
 }
 
+/**
+ * PATCH /api/schedule - Move a task's deadline from the Gantt chart
+ *
+ * Goes through the same service as PATCH /api/tasks/[id] (action updateDeadline),
+ * so permission checks, validation and activity logging apply, and errors come
+ * back in the same { error } shape.
+ *
+ * Request body:
+ * - taskId: number
+ * - deadline: string - ISO timestamp
+ * - shiftSubtasks?: boolean - Move open subtasks by the same amount of time
+ *
+ * Returns:
+ * - RescheduleTaskResult
+ */
 export async function PATCH(req: NextRequest) {
   const body = await req.json().catch(() => ({}));
-  const { taskId, deadline } = body || {};
+  const { taskId, deadline, shiftSubtasks } = body || {};
   
   if (!taskId || !deadline) {
     return NextResponse.json({ error: 'Missing taskId or deadline' }, { status: 400 });
@@ -61,20 +85,17 @@ export async function PATCH(req: NextRequest) {
   } = await supabase.auth.getUser();
   if (error || !user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
 
-  try {
-    const { error: updateError } = await supabase
-      .from('tasks')
-      .update({ deadline: new Date(deadline).toISOString() })
-      .eq('id', Number(taskId));
-
-    if (updateError) {
-      console.error('Error updating task deadline:', updateError);
-      return NextResponse.json({ error: 'Failed to update deadline' }, { status: 500 });
-    }
+  const id = Number(taskId);
+  if (!Number.isInteger(id) || id <= 0) {
+    return NextResponse.json({ error: 'Invalid task ID' }, { status: 400 });
+  }
 
-    return NextResponse.json({ ok: true });
+  try {
+    const result = await rescheduleTask(id, deadline, user.id, { shiftSubtasks: shiftSubtasks === true });
+    return NextResponse.json(result);
   } catch (error) {
     console.error('Error updating deadline:', error);
-    return NextResponse.json({ error: 'Failed to update deadline' }, { status: 500 });
+    const errorMessage = error instanceof Error ? error.message : 'Failed to update deadline';
+    return NextResponse.json({ error: errorMessage }, { status: STATUS_BY_ERROR[errorMessage] ?? 500 });
   }
 }
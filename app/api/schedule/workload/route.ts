@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getWorkloadService, updateWeeklyCapacityService } from '@/lib/services/workload';
+
+const FORBIDDEN_ERRORS = [
+  "Only managers can change another user's capacity",
+  'You can only change capacity for users in your department',
+];
+
+/**
+ * GET /api/schedule/workload - Per-assignee, per-day load for the schedule heatmap
+ *
+ * Query params:
+ * - startDate, endDate: ISO timestamps (required, at most 92 days apart)
+ * - projectIds?: comma-separated project IDs - Show assignees of these projects
+ * - staffIds?: comma-separated user IDs - Show only these users
+ *
+ * Returns:
+ * - users: UserWorkload[]
+ * - suggestions: ReassignmentSuggestion[] - Empty unless the user is a manager
+ * - canSuggest: boolean
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = req.nextUrl;
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+    if (!startDate || !endDate) {
+      return NextResponse.json({ error: 'Missing startDate or endDate' }, { status: 400 });
+    }
+
+    const projectIds = (searchParams.get('projectIds') || '')
+      .split(',')
+      .filter((v) => v.trim() !== '')
+      .map((v) => Number(v))
+      .filter((n) => Number.isFinite(n));
+    const staffIds = (searchParams.get('staffIds') || '')
+      .split(',')
+      .map((s) => s.trim())
+      .filter(Boolean);
+
+    try {
+      const workload = await getWorkloadService(supabase, user.id, {
+        startDate: new Date(startDate),
+        endDate: new Date(endDate),
+        projectIds,
+        staffIds,
+      });
+      return NextResponse.json(workload, { status: 200 });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to compute workload';
+      return NextResponse.json({ error: errorMessage }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Error fetching workload:', error);
+    return NextResponse.json({ error: 'Failed to fetch workload' }, { status: 500 });
+  }
+}
+
+/**
+ * PATCH /api/schedule/workload - Set a user's weekly capacity
+ *
+ * Request body:
+ * - weeklyCapacity: number - Points per week (1-200)
+ * - userId?: string - Defaults to the current user; managers may set it for colleagues
+ *
+ * Returns:
+ * - userId, weeklyCapacity
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const targetUserId = typeof body.userId === 'string' && body.userId ? body.userId : user.id;
+
+    try {
+      const weeklyCapacity = await updateWeeklyCapacityService(
+        supabase,
+        user.id,
+        targetUserId,
+        Number(body.weeklyCapacity)
+      );
+      return NextResponse.json({ success: true, userId: targetUserId, weeklyCapacity }, { status: 200 });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update capacity';
+      if (FORBIDDEN_ERRORS.includes(errorMessage)) {
+        return NextResponse.json({ error: errorMessage }, { status: 403 });
+      }
+      if (errorMessage === 'User not found') {
+        return NextResponse.json({ error: errorMessage }, { status: 404 });
+      }
+      return NextResponse.json({ error: errorMessage }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Error updating capacity:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update capacity' },
+      { status: 500 }
+    );
+  }
+}
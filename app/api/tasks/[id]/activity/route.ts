@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getTaskActivityService } from '@/lib/services/tasks';
+
+/**
+ * GET /api/tasks/[id]/activity - Fetch the activity trail of a task
+ *
+ * Authorization:
+ * - Any user who can view the task (enforced by RLS)
+ *
+ * Returns:
+ * - activity: TaskActivity[] - Changes ordered newest first, each with actor,
+ *   field, old value and new value
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const resolvedParams = await params;
+    const taskId = parseInt(resolvedParams.id, 10);
+    if (isNaN(taskId)) {
+      return NextResponse.json({ error: 'Invalid task ID' }, { status: 400 });
+    }
+
+    const activity = await getTaskActivityService(taskId);
+
+    return NextResponse.json({ activity }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching task activity:', error);
+
+    if (error instanceof Error && error.message === 'Task not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch task activity' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getAttachmentDownloadUrl } from '@/lib/services/tasks';
+
+/**
+ * GET /api/tasks/[id]/attachments/[attachmentId] - Open a task attachment
+ *
+ * Authorization:
+ * - Any user who can view the task (is_task_visible_to_user)
+ *
+ * Returns:
+ * - 307 redirect to a signed storage URL that expires after a minute
+ * - 404 when the attachment does not exist or the task is not visible
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; attachmentId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const resolvedParams = await params;
+    const taskId = parseInt(resolvedParams.id, 10);
+    const attachmentId = parseInt(resolvedParams.attachmentId, 10);
+    if (isNaN(taskId) || isNaN(attachmentId)) {
+      return NextResponse.json({ error: 'Invalid task or attachment ID' }, { status: 400 });
+    }
+
+    const signedUrl = await getAttachmentDownloadUrl(taskId, attachmentId, user.id);
+
+    const response = NextResponse.redirect(signedUrl, 307);
+    // The signed URL expires, so the redirect itself must not be cached
+    response.headers.set('Cache-Control', 'private, no-store');
+    return response;
+  } catch (error) {
+    console.error('Error opening task attachment:', error);
+
+    if (error instanceof Error && error.message === 'Attachment not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to open attachment' },
+      { status: 500 }
+    );
+  }
+}
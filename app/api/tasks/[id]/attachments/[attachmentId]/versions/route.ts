@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { listAttachmentVersions } from '@/lib/services/tasks';
+
+/**
+ * GET /api/tasks/[id]/attachments/[attachmentId]/versions - Version history
+ * of the document an attachment belongs to
+ *
+ * Authorization:
+ * - Any user who can view the task (is_task_visible_to_user)
+ *
+ * Returns:
+ * - { versions } newest first, with the uploader of each version
+ * - 404 when the attachment does not exist or the task is not visible
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; attachmentId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const resolvedParams = await params;
+    const taskId = parseInt(resolvedParams.id, 10);
+    const attachmentId = parseInt(resolvedParams.attachmentId, 10);
+    if (isNaN(taskId) || isNaN(attachmentId)) {
+      return NextResponse.json({ error: 'Invalid task or attachment ID' }, { status: 400 });
+    }
+
+    const versions = await listAttachmentVersions(taskId, attachmentId, user.id);
+
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error('Error fetching attachment versions:', error);
+
+    if (error instanceof Error && error.message === 'Attachment not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch attachment versions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { addDependency, getTaskDependenciesService, removeDependency } from '@/lib/services/tasks';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+async function authenticate() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  return authError || !user ? null : user;
+}
+
+async function parseTaskId(params: RouteParams['params']): Promise<number> {
+  const resolvedParams = await params;
+  return parseInt(resolvedParams.id, 10);
+}
+
+/**
+ * GET /api/tasks/[id]/dependencies - Fetch the blockers and dependents of a task
+ *
+ * Authorization:
+ * - Any user who can view the task (enforced by RLS)
+ *
+ * Returns:
+ * - dependencies: TaskDependencies - Tasks blocking this one, tasks it blocks,
+ *   and sibling tasks that can still be added as blockers
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await authenticate();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const taskId = await parseTaskId(params);
+    if (isNaN(taskId)) {
+      return NextResponse.json({ error: 'Invalid task ID' }, { status: 400 });
+    }
+
+    const dependencies = await getTaskDependenciesService(taskId);
+
+    return NextResponse.json({ dependencies }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching task dependencies:', error);
+
+    if (error instanceof Error && error.message === 'Task not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch task dependencies' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/tasks/[id]/dependencies - Mark this task as blocked by another task
+ *
+ * Request Body:
+ * - blockerId: number - Sibling task that must finish first
+ *
+ * Authorization:
+ * - Creator or assignee of the task
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await authenticate();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const taskId = await parseTaskId(params);
+    if (isNaN(taskId)) {
+      return NextResponse.json({ error: 'Invalid task ID' }, { status: 400 });
+    }
+
+    const { blockerId } = await request.json();
+
+    try {
+      const dependencies = await addDependency(taskId, Number(blockerId), user.id);
+      return NextResponse.json({ success: true, dependencies }, { status: 200 });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Failed to add dependency' },
+        { status: 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error adding task dependency:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/tasks/[id]/dependencies?blockerId=123 - Remove a blocker from this task
+ *
+ * Authorization:
+ * - Creator or assignee of the task
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const user = await authenticate();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const taskId = await parseTaskId(params);
+    const blockerId = parseInt(request.nextUrl.searchParams.get('blockerId') ?? '', 10);
+    if (isNaN(taskId) || isNaN(blockerId)) {
+      return NextResponse.json({ error: 'Invalid task ID' }, { status: 400 });
+    }
+
+    try {
+      const dependencies = await removeDependency(taskId, blockerId, user.id);
+      return NextResponse.json({ success: true, dependencies }, { status: 200 });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to remove dependency';
+      return NextResponse.json({ error: message }, { status: message === 'Dependency not found' ? 404 : 400 });
+    }
+  } catch (error) {
+    console.error('Error removing task dependency:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
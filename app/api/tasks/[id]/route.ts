@@ -4,6 +4,7 @@ import {
   updateTitle,
   updateDescription,
   updateStatus,
+  BLOCKED_TASK_ERROR,
   updatePriority,
   updateDeadline,
   updateNotes,
@@ -14,10 +15,16 @@ import {
   removeTag,
   addTaskAttachments,
   removeTaskAttachment,
+  addAttachmentVersion,
+  restoreAttachmentVersion,
   addComment,
   updateComment,
   deleteComment,
   linkSubtaskToParent,
+  startTimer,
+  stopTimer,
+  addManualTimeEntry,
+  deleteTimeEntry,
 } from '@/lib/services/tasks';
 
 
@@ -90,10 +97,18 @@ export async function PATCH(
       }
 
       case 'updateStatus': {
-        const { status } = updates;
+        const { status, force } = updates;
         if (!status) return NextResponse.json({ error: 'Status required' }, { status: 400 });
-        const result = await updateStatus(taskId, status, user.id);
-        return NextResponse.json(result);
+        try {
+          const result = await updateStatus(taskId, status, user.id, { force: force === true });
+          return NextResponse.json(result);
+        } catch (err) {
+          // Open blockers: the client may retry with force after confirming
+          if (err instanceof Error && err.message.startsWith(BLOCKED_TASK_ERROR)) {
+            return NextResponse.json({ error: err.message, blocked: true }, { status: 409 });
+          }
+          throw err;
+        }
       }
 
       case 'updatePriority': {
@@ -189,18 +204,57 @@ export async function PATCH(
         });
       }
 
+      case 'addAttachmentVersion': {
+        // Multipart: attachment_id arrives as a string, the new file as file_0
+        const attachmentId = Number(updates.attachment_id);
+        if (!Number.isInteger(attachmentId) || attachmentId <= 0) {
+          return NextResponse.json({ error: 'Attachment ID required' }, { status: 400 });
+        }
+
+        const files = updates.files as File[];
+        if (!files || files.length !== 1) {
+          return NextResponse.json({ error: 'Exactly one file required' }, { status: 400 });
+        }
+
+        const result = await addAttachmentVersion(taskId, attachmentId, files[0], user.id);
+        return NextResponse.json({
+          success: true,
+          attachment: result
+        });
+      }
+
+      case 'restoreAttachmentVersion': {
+        const { attachment_id } = updates;
+        if (!attachment_id || typeof attachment_id !== 'number') {
+          return NextResponse.json({ error: 'Attachment ID required' }, { status: 400 });
+        }
+
+        const result = await restoreAttachmentVersion(taskId, attachment_id, user.id);
+        return NextResponse.json({
+          success: true,
+          attachment: result
+        });
+      }
+
       // Recurrence 
       case 'updateRecurrence': {
-        const { recurrenceInterval, recurrenceDate } = updates;
-        
-        if (recurrenceInterval === undefined || recurrenceInterval === null) {
+        const { recurrenceInterval, recurrenceDate, recurrenceRule } = updates;
+
+        if (recurrenceRule !== undefined && recurrenceRule !== null && typeof recurrenceRule !== 'string') {
+          return NextResponse.json(
+            { error: 'Recurrence rule must be a string' },
+            { status: 400 }
+          );
+        }
+
+        if (!recurrenceRule && (recurrenceInterval === undefined || recurrenceInterval === null)) {
           return NextResponse.json(
             { error: 'Recurrence interval required' },
             { status: 400 }
           );
         }
       
-        if (typeof recurrenceInterval !== 'number') {
+        if (!recurrenceRule && typeof recurrenceInterval !== 'number') {
           return NextResponse.json(
             { error: 'Recurrence interval must be a number' },
             { status: 400 }
@@ -210,9 +264,10 @@ export async function PATCH(
         try {
           const result = await updateRecurrence(
             taskId,
-            recurrenceInterval,
+            recurrenceInterval ?? 0,
             recurrenceDate || null,
-            user.id
+            user.id,
+            recurrenceRule || null
           );
           return NextResponse.json({
             success: true,
@@ -223,16 +278,70 @@ export async function PATCH(
           return NextResponse.json({ error: errorMessage }, { status: 400 });
         }
       }
+      // Time tracking
+
+      case 'startTimer': {
+        const { note } = updates;
+
+        try {
+          const result = await startTimer(taskId, user.id, note);
+          return NextResponse.json({ success: true, timeTracking: result });
+        } catch (err) {
+          const errorMessage = err instanceof Error ? err.message : 'Failed to start timer';
+          return NextResponse.json({ error: errorMessage }, { status: 400 });
+        }
+      }
+
+      case 'stopTimer': {
+        try {
+          const result = await stopTimer(taskId, user.id);
+          return NextResponse.json({ success: true, timeTracking: result });
+        } catch (err) {
+          const errorMessage = err instanceof Error ? err.message : 'Failed to stop timer';
+          return NextResponse.json({ error: errorMessage }, { status: 400 });
+        }
+      }
+
+      case 'addTimeEntry': {
+        const { started_at, ended_at, note } = updates;
+        if (!started_at || !ended_at) {
+          return NextResponse.json({ error: 'Start and end time required' }, { status: 400 });
+        }
+
+        try {
+          const result = await addManualTimeEntry(taskId, started_at, ended_at, note, user.id);
+          return NextResponse.json({ success: true, timeTracking: result });
+        } catch (err) {
+          const errorMessage = err instanceof Error ? err.message : 'Failed to add time entry';
+          return NextResponse.json({ error: errorMessage }, { status: 400 });
+        }
+      }
+
+      case 'deleteTimeEntry': {
+        const { entryId } = updates;
+        if (!entryId || typeof entryId !== 'number') {
+          return NextResponse.json({ error: 'Time entry ID required' }, { status: 400 });
+        }
+
+        try {
+          const result = await deleteTimeEntry(taskId, entryId, user.id);
+          return NextResponse.json({ success: true, timeTracking: result });
+        } catch (err) {
+          const errorMessage = err instanceof Error ? err.message : 'Failed to delete time entry';
+          return NextResponse.json({ error: errorMessage }, { status: 400 });
+        }
+      }
+
       // Comments
       
       case 'addComment': {
-        const { content } = updates;
+        const { content, mentions } = updates;
         if (!content || typeof content !== 'string' || content.trim().length === 0) {
           return NextResponse.json({ error: 'Comment content required' }, { status: 400 });
         }
       
         try {
-          const result = await addComment(taskId, content, user.id);
+          const result = await addComment(taskId, content, user.id, mentions ?? []);
           return NextResponse.json({
             success: true,
             comment: result,
@@ -244,7 +353,7 @@ export async function PATCH(
       }
       
       case 'updateComment': {
-        const { commentId, content } = updates;
+        const { commentId, content, mentions } = updates;
         if (!commentId || typeof commentId !== 'number') {
           return NextResponse.json({ error: 'Comment ID required' }, { status: 400 });
         }
@@ -253,7 +362,7 @@ export async function PATCH(
         }
       
         try {
-          const result = await updateComment(commentId, content, user.id);
+          const result = await updateComment(commentId, content, user.id, mentions ?? []);
           return NextResponse.json({
             success: true,
             comment: result,
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { bulkUpdateTasks } from '@/lib/services/tasks';
+
+/**
+ * PATCH /api/tasks/bulk - Apply one action to several tasks
+ *
+ * Request body:
+ * - taskIds: number[] - Tasks to update (at most 100)
+ * - action: 'updateStatus' | 'updatePriority' | 'addTag' | 'addAssignee' | 'updateDeadline' | 'archive'
+ * - plus the field the action needs, as for PATCH /api/tasks/[id]:
+ *   status (and force), priority_bucket, tag_name, assignee_id, deadline
+ *
+ * Authorization:
+ * - Creator or assignee, checked per task
+ * - Only managers can archive
+ *
+ * Returns:
+ * - results: { taskId, success, error? }[] - One entry per task
+ * - succeeded / failed: number
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON in request body' }, { status: 400 });
+    }
+
+    const { taskIds, action, ...updates } = body;
+
+    try {
+      const results = await bulkUpdateTasks(supabase, taskIds, action, updates, user.id);
+      const succeeded = results.filter((r) => r.success).length;
+
+      return NextResponse.json(
+        { results, succeeded, failed: results.length - succeeded },
+        { status: 200 }
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to update tasks';
+      return NextResponse.json(
+        { error: message },
+        { status: message === 'Only managers can archive tasks' ? 403 : 400 }
+      );
+    }
+  } catch (error) {
+    console.error('Error updating tasks in bulk:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
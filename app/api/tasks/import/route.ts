@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { importICalService } from '@/lib/services/ical-import';
+
+const MAX_ICAL_FILE_SIZE = 2 * 1024 * 1024; // 2MB
+
+/**
+ * POST /api/tasks/import - Import tasks from an iCalendar (.ics) file
+ *
+ * Handles multipart form data with the following fields:
+ * - file: The .ics file (up to 2MB)
+ * - projectId: Project the tasks are created in
+ * - dryRun: 'true' to preview the import without writing anything
+ *
+ * Returns an ICalImportSummary with one result (create/update/error) per event or to-do.
+ * Per-event failures are reported in the results; the request itself still succeeds.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Parse multipart form data
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const projectId = Number(formData.get('projectId'));
+    const dryRun = formData.get('dryRun') === 'true';
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ error: 'Missing calendar file' }, { status: 400 });
+    }
+
+    if (file.size > MAX_ICAL_FILE_SIZE) {
+      return NextResponse.json({ error: 'Calendar file exceeds 2MB limit' }, { status: 400 });
+    }
+
+    try {
+      const summary = await importICalService(supabase, await file.text(), projectId, user.id, { dryRun });
+      return NextResponse.json({ success: true, ...summary }, { status: 200 });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to import calendar';
+      return NextResponse.json({ error: errorMessage }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Error importing calendar:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to import calendar' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { deleteTaskView, updateTaskView } from '@/lib/services/task-views';
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+const STATUS_BY_ERROR: Record<string, number> = {
+  'Saved view not found': 404,
+  'Only the owner can change this view': 403,
+};
+
+/**
+ * PATCH /api/tasks/views/[id] - Update a saved view
+ *
+ * Body (all optional):
+ * - name, query, shared - Owner only
+ * - isDefault: boolean - Make this (own or shared) view the user's default, or unset it
+ *
+ * Returns:
+ * - view: SavedTaskView
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const resolvedParams = await params;
+    const viewId = parseInt(resolvedParams.id, 10);
+    if (isNaN(viewId)) {
+      return NextResponse.json({ error: 'Invalid view ID' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const updates: { name?: string; query?: string; shared?: boolean; isDefault?: boolean } = {};
+    if (body.name !== undefined) updates.name = body.name;
+    if (typeof body.query === 'string') updates.query = body.query;
+    if (typeof body.shared === 'boolean') updates.shared = body.shared;
+    if (typeof body.isDefault === 'boolean') updates.isDefault = body.isDefault;
+
+    try {
+      const view = await updateTaskView(user.id, viewId, updates);
+      return NextResponse.json({ success: true, view }, { status: 200 });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update view';
+      return NextResponse.json({ error: errorMessage }, { status: STATUS_BY_ERROR[errorMessage] ?? 400 });
+    }
+  } catch (error) {
+    console.error('Error updating saved view:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update view' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/tasks/views/[id] - Delete one of the current user's saved views
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const resolvedParams = await params;
+    const viewId = parseInt(resolvedParams.id, 10);
+    if (isNaN(viewId)) {
+      return NextResponse.json({ error: 'Invalid view ID' }, { status: 400 });
+    }
+
+    await deleteTaskView(user.id, viewId);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error) {
+    console.error('Error deleting saved view:', error);
+
+    if (error instanceof Error && error.message === 'Saved view not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to delete view' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { createTaskView, listTaskViews } from '@/lib/services/task-views';
+
+/**
+ * GET /api/tasks/views - List the saved task list views available to the current user
+ *
+ * Returns:
+ * - views: SavedTaskView[] - Own views, then views shared with the user's department
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const views = await listTaskViews(user.id);
+
+    return NextResponse.json({ views }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching saved views:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch saved views' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/tasks/views - Save the current task list state as a named view
+ *
+ * Body:
+ * - name: string
+ * - query: string - Encoded list state (filters, sort, columns, completed)
+ * - shared?: boolean - Share with the user's department
+ * - isDefault?: boolean - Open this view by default
+ *
+ * Returns:
+ * - view: SavedTaskView
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    try {
+      const view = await createTaskView(user.id, {
+        name: body.name,
+        query: typeof body.query === 'string' ? body.query : '',
+        shared: body.shared === true,
+        isDefault: body.isDefault === true,
+      });
+      return NextResponse.json({ success: true, view }, { status: 201 });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save view';
+      return NextResponse.json({ error: errorMessage }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Error saving view:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to save view' },
+      { status: 500 }
+    );
+  }
+}
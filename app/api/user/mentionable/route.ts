@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { listMentionableUsers } from '@/lib/services/tasks';
+
+/**
+ * GET /api/user/mentionable - Users the current user can @mention in comments
+ *
+ * Returns:
+ * - users: { id, first_name, last_name }[] - Active users the caller can view
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const users = await listMentionableUsers();
+
+    return NextResponse.json({ users }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching mentionable users:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch mentionable users' },
+      { status: 500 }
+    );
+  }
+}
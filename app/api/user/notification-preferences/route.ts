@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { getNotificationPreferences, updateNotificationPreferences } from '@/lib/services/notification-preferences';
+
+/**
+ * GET /api/user/notification-preferences - Get the current user's notification preferences
+ *
+ * Returns:
+ * - preferences: NotificationPreferences - Stored values with defaults filled in
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const preferences = await getNotificationPreferences(user.id);
+
+    return NextResponse.json({ preferences }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to fetch notification preferences' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/user/notification-preferences - Update the current user's notification preferences
+ *
+ * Body (all optional):
+ * - events: { [eventType]: { in_app?: boolean, email?: boolean } }
+ * - quietHours: { start: 'HH:mm', end: 'HH:mm' } | null - Singapore time; null turns them off
+ * - digestFrequency: 'off' | 'daily' | 'weekly'
+ *
+ * Returns:
+ * - preferences: NotificationPreferences
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    try {
+      const preferences = await updateNotificationPreferences(user.id, {
+        events: body.events && typeof body.events === 'object' ? body.events : undefined,
+        quietHours: body.quietHours,
+        digestFrequency: body.digestFrequency,
+      });
+      return NextResponse.json({ success: true, preferences }, { status: 200 });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update notification preferences';
+      return NextResponse.json({ error: errorMessage }, { status: 400 });
+    }
+  } catch (error) {
+    console.error('Error updating notification preferences:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to update notification preferences' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,10 +1,8 @@
 import postgres from 'postgres';
-import { createClient } from '@supabase/supabase-js';
 import type { User } from '@supabase/supabase-js';
 import {
   auth_users,
   user_info,
-  roles,
   user_roles,
   departments,
   projects,
@@ -18,94 +16,12 @@ import {
   notifications,
 } from '../../lib/sample-data';
 
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!
-);
-
-async function teardownSchema(sql: postgres.Sql) {
-  console.log('⚠️ Dropping all app tables, functions, and triggers...');
-
-  // Drop triggers first (wrapped in try-catch since tables might not exist)
-  const triggersToDrop = [
-    'DROP TRIGGER IF EXISTS trg_notify_new_comment ON task_comments CASCADE',
-    'DROP TRIGGER IF EXISTS trg_notify_comment_removal ON task_comments CASCADE',
-    'DROP TRIGGER IF EXISTS trg_notify_task_assignment ON task_assignments CASCADE',
-    'DROP TRIGGER IF EXISTS trg_notify_task_assignment_removal ON task_assignments CASCADE',
-    'DROP TRIGGER IF EXISTS trg_notify_task_update ON tasks CASCADE',
-    'DROP TRIGGER IF EXISTS trg_notify_task_creation ON tasks CASCADE',
-    'DROP TRIGGER IF EXISTS trg_update_project_departments ON task_assignments CASCADE',
-    'DROP TRIGGER IF EXISTS trg_validate_task_assignee_count ON tasks CASCADE',
-    'DROP TRIGGER IF EXISTS trg_notify_task_attachment ON task_attachments CASCADE',
-    'DROP TRIGGER IF EXISTS trg_notify_task_attachment_removal ON task_attachments CASCADE',
-    'DROP TRIGGER IF EXISTS trg_notify_task_tag_add ON task_tags CASCADE',
-    'DROP TRIGGER IF EXISTS trg_notify_task_tag_remove ON task_tags CASCADE',
-  ];
-
-  for (const triggerSql of triggersToDrop) {
-    try {
-      await sql.unsafe(triggerSql);
-    } catch (e) {
-      // Ignore errors if table doesn't exist
-      console.log(`Skipping trigger drop: ${triggerSql.substring(0, 50)}... (table may not exist)`);
-    }
-  }
-
-  // Drop functions
-  await sql`DROP FUNCTION IF EXISTS notify_new_comment() CASCADE`;
-  await sql`DROP FUNCTION IF EXISTS notify_comment_removal() CASCADE`;
-  await sql`DROP FUNCTION IF EXISTS notify_task_assignment() CASCADE`;
-  await sql`DROP FUNCTION IF EXISTS notify_task_assignment_removal() CASCADE`;
-  await sql`DROP FUNCTION IF EXISTS notify_task_update() CASCADE`;
-  await sql`DROP FUNCTION IF EXISTS notify_task_creation() CASCADE`;
-  await sql`DROP FUNCTION IF EXISTS update_project_departments() CASCADE`;
-  await sql`DROP FUNCTION IF EXISTS validate_task_assignee_count() CASCADE`;
-  await sql`DROP FUNCTION IF EXISTS notify_task_attachment() CASCADE`;
-  await sql`DROP FUNCTION IF EXISTS notify_task_attachment_removal() CASCADE`;
-  await sql`DROP FUNCTION IF EXISTS notify_task_tag_add() CASCADE`;
-  await sql`DROP FUNCTION IF EXISTS notify_task_tag_remove() CASCADE`;
-  await sql`DROP FUNCTION IF EXISTS get_department_hierarchy(BIGINT) CASCADE`;
-  await sql`DROP FUNCTION IF EXISTS get_department_colleagues(uuid) CASCADE`;
-  await sql`DROP FUNCTION IF EXISTS can_view_user(uuid, uuid) CASCADE`;
-  await sql`DROP FUNCTION IF EXISTS is_task_visible_to_user(bigint, uuid) CASCADE`;
-  await sql`DROP FUNCTION IF EXISTS get_task_assignees_info(bigint[]) CASCADE`;
-  await sql`DROP FUNCTION IF EXISTS user_has_role(uuid, text) CASCADE`;
-  await sql`DROP FUNCTION IF EXISTS is_admin(uuid) CASCADE`;
-  await sql`DROP FUNCTION IF EXISTS create_task_with_assignments(VARCHAR, TEXT, INT, VARCHAR, TIMESTAMPTZ, TEXT, BIGINT, UUID, INT, TIMESTAMPTZ, UUID[]) CASCADE`;
-
-  // Order matters: drop dependent tables first
-  await sql`DROP TABLE IF EXISTS task_comments CASCADE`;
-  await sql`DROP TABLE IF EXISTS task_assignments CASCADE`;
-  await sql`DROP TABLE IF EXISTS task_tags CASCADE`;
-  await sql`DROP TABLE IF EXISTS tasks CASCADE`;
-  await sql`DROP TABLE IF EXISTS project_departments CASCADE`;
-  await sql`DROP TABLE IF EXISTS projects CASCADE`;
-  await sql`DROP TABLE IF EXISTS task_attachments CASCADE`;
-  await sql`DROP TABLE IF EXISTS notifications CASCADE`;
-  await sql`DROP TABLE IF EXISTS tags CASCADE`;
-  await sql`DROP TABLE IF EXISTS user_roles CASCADE`;
-  await sql`DROP TABLE IF EXISTS roles CASCADE`;
-  await sql`DROP TABLE IF EXISTS departments CASCADE`;
-  await sql`DROP TABLE IF EXISTS user_info CASCADE`;
-
-  console.log('Schema torn down');
-}
+// Sample data only: the schema comes from supabase/migrations (`pnpm db:migrate`).
+// Seeding never drops or clears anything and skips databases that already have
+// data; use `pnpm db:reset` to start over on a development database.
 
 /* --------------------- USER_INFO --------------------- */
 async function seedUserInfo(sql: postgres.Sql, nameToDeptId: Map<string, number>) {
-  await sql`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`;
-
-  await sql`
-    CREATE TABLE IF NOT EXISTS user_info (
-      id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
-      first_name VARCHAR(255) NOT NULL,
-      last_name  VARCHAR(255) NOT NULL,
-      default_view VARCHAR(20) NOT NULL DEFAULT 'tasks',
-      department_id BIGINT NOT NULL REFERENCES departments(id) ON DELETE RESTRICT
-    );
-  `;
-  await sql`TRUNCATE TABLE user_info CASCADE;`;
-
   await Promise.all(
     user_info.map((ui) => {
       const depId = nameToDeptId.get(ui.department_name);
@@ -127,16 +43,6 @@ async function seedUserInfo(sql: postgres.Sql, nameToDeptId: Map<string, number>
 
 /* --------------------- DEPARTMENTS --------------------- */
 async function seedDepartments(sql: postgres.Sql) {
-  await sql`
-    CREATE TABLE IF NOT EXISTS departments (
-      id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
-      name VARCHAR(255) NOT NULL UNIQUE,
-      parent_department_id BIGINT NULL REFERENCES departments(id) ON DELETE SET NULL,
-      CONSTRAINT chk_dept_not_self CHECK (parent_department_id IS NULL OR parent_department_id <> id)
-    );
-  `;
-  await sql`TRUNCATE TABLE departments RESTART IDENTITY CASCADE;`;
-
   type DeptRow = { id: number; name: string };
   // First, insert all departments without parent relationships
   const inserted = await Promise.all(
@@ -177,15 +83,6 @@ async function seedProjectDepartments(
   nameToDeptId: Map<string, number>,
   nameToProjId: Map<string, number>
 ) {
-  await sql`
-    CREATE TABLE IF NOT EXISTS project_departments (
-      project_id BIGINT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
-      department_id BIGINT NOT NULL REFERENCES departments(id) ON DELETE CASCADE,
-      PRIMARY KEY (project_id, department_id)
-    );
-  `;
-  await sql`TRUNCATE TABLE project_departments;`;
-
   if (!project_departments.length) return;
 
   await Promise.all(
@@ -205,32 +102,8 @@ async function seedProjectDepartments(
   );
 }
 
-/* --------------------- ROLES --------------------- */
-async function seedRoles(sql: postgres.Sql) {
-  await sql`
-    CREATE TABLE IF NOT EXISTS roles (
-      role VARCHAR(50) PRIMARY KEY,
-      CONSTRAINT roles_allowed_chk CHECK (role IN ('staff','manager','admin'))
-    );
-  `;
-  await sql`TRUNCATE TABLE roles CASCADE;`;
-
-  await Promise.all(
-    roles.map((r) => sql`INSERT INTO roles (role) VALUES (${r.role}) ON CONFLICT (role) DO NOTHING`)
-  );
-}
-
 /* --------------------- USER_ROLES --------------------- */
 async function seedUserRoles(sql: postgres.Sql, nameToDeptId: Map<string, number>) {
-  await sql`
-    CREATE TABLE IF NOT EXISTS user_roles (
-      user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
-      role    VARCHAR(50) NOT NULL REFERENCES roles(role) ON DELETE CASCADE,
-      PRIMARY KEY (user_id, role)
-    );
-  `;
-  await sql`TRUNCATE TABLE user_roles;`;
-
   await Promise.all(
     user_roles.map((ur) => {
       return sql`
@@ -244,14 +117,6 @@ async function seedUserRoles(sql: postgres.Sql, nameToDeptId: Map<string, number
 
 /* --------------------- TAGS --------------------- */
 async function seedTags(sql: postgres.Sql) {
-  await sql`
-    CREATE TABLE IF NOT EXISTS tags (
-      id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
-      name VARCHAR(50) NOT NULL UNIQUE
-    );
-  `;
-  await sql`TRUNCATE TABLE tags RESTART IDENTITY CASCADE;`;
-
   await Promise.all(
     tags.map((t) => sql`INSERT INTO tags (name) VALUES (${t.name}) ON CONFLICT (name) DO NOTHING`)
   );
@@ -259,17 +124,6 @@ async function seedTags(sql: postgres.Sql) {
 
 /* --------------------- PROJECTS --------------------- */
 async function seedProjects(sql: postgres.Sql) {
-  await sql`
-    CREATE TABLE IF NOT EXISTS projects (
-      id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
-      name VARCHAR(255) NOT NULL UNIQUE,
-      is_archived BOOLEAN NOT NULL DEFAULT FALSE,
-      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
-    );
-  `;
-  await sql`TRUNCATE TABLE projects RESTART IDENTITY CASCADE;`;
-
   type ProjRow = { id: number; name: string };
   const inserted = await Promise.all(
     projects.map((p) => {
@@ -290,29 +144,6 @@ async function seedProjects(sql: postgres.Sql) {
 
 /* --------------------- TASKS --------------------- */
 async function seedTasks(sql: postgres.Sql, deps: { projKeyToId: Map<string, number> }) {
-  await sql`
-    CREATE TABLE IF NOT EXISTS tasks (
-      id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
-      title VARCHAR(255) NOT NULL,
-      description TEXT,
-      priority_bucket INT NOT NULL CHECK (priority_bucket BETWEEN 1 AND 10),
-      status VARCHAR(15) CHECK (status IN ('To Do','In Progress','Completed','Blocked')),
-      creator_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
-      project_id BIGINT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
-      deadline TIMESTAMPTZ,
-      notes TEXT,
-      parent_task_id BIGINT NULL REFERENCES tasks(id) ON DELETE RESTRICT,
-      recurrence_interval INT NOT NULL DEFAULT 0,  -- recurrence in days/interval
-      recurrence_date TIMESTAMPTZ DEFAULT NULL, -- when recurrence starts
-      logged_time BIGINT NOT NULL DEFAULT 0, -- time in seconds
-      is_archived BOOLEAN NOT NULL DEFAULT FALSE,
-      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-      CONSTRAINT chk_task_not_self CHECK (parent_task_id IS NULL OR parent_task_id <> id)
-    );
-  `;
-  await sql`TRUNCATE TABLE tasks RESTART IDENTITY CASCADE;`;
-
   const titleToTaskId = new Map<string, number>();
   const pendingTasks = [...tasks];
 
@@ -342,19 +173,23 @@ async function seedTasks(sql: postgres.Sql, deps: { projKeyToId: Map<string, num
         const recurrenceInterval = t.recurrence_interval ?? 0;
         const recurrenceAnchor = t.recurrence_date ?? null;
         const loggedTime = t.logged_time ?? 0;
+        // The status triggers are off while seeding: started work began at creation,
+        // completed work was finished at its last update
+        const startedAt = t.status === 'In Progress' || t.status === 'Completed' ? createdAt : null;
+        const completedAt = t.status === 'Completed' ? updatedAt : null;
 
         const [row] = await sql<{ id: number; title: string }[]>`
           INSERT INTO tasks (
             title, description, priority_bucket, status, creator_id,
             project_id, deadline, notes, parent_task_id,
             recurrence_interval, recurrence_date, logged_time,
-            is_archived, created_at, updated_at
+            is_archived, created_at, updated_at, started_at, completed_at
           )
           VALUES (
             ${t.title}, ${description}, ${t.priority_bucket}, ${t.status}, ${t.creator_id},
             ${projectId}, ${deadline}, ${notes}, ${parentId},
             ${recurrenceInterval}, ${recurrenceAnchor}, ${loggedTime},
-            ${t.is_archived}, ${createdAt}, ${updatedAt}
+            ${t.is_archived}, ${createdAt}, ${updatedAt}, ${startedAt}, ${completedAt}
           )
           RETURNING id, title
         `;
@@ -372,15 +207,6 @@ async function seedTasks(sql: postgres.Sql, deps: { projKeyToId: Map<string, num
 
 /* --------------------- TASK_TAGS --------------------- */
 async function seedTaskTags(sql: postgres.Sql) {
-  await sql`
-    CREATE TABLE IF NOT EXISTS task_tags (
-      task_id BIGINT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
-      tag_id  BIGINT NOT NULL REFERENCES tags(id)  ON DELETE CASCADE,
-      PRIMARY KEY (task_id, tag_id)
-    );
-  `;
-  await sql`TRUNCATE TABLE task_tags;`;
-
   if (!task_tags.length) return;
 
   const taskRows = await sql`SELECT id, title FROM tasks`;
@@ -409,79 +235,8 @@ async function seedTaskTags(sql: postgres.Sql) {
   );
 }
 
-/* --------------------- STORAGE BUCKET --------------------- */
-async function resetTaskAttachmentsBucket(sql: postgres.Sql) {
-  console.log('Resetting storage bucket: task-attachments');
-
-  // First, delete all files from the bucket using Supabase client
-  try {
-    const { data: files, error: listError } = await supabase.storage
-      .from('task-attachments')
-      .list();
-
-    if (listError) {
-      console.warn('Could not list files in bucket (bucket may not exist):', listError.message);
-    } else if (files && files.length > 0) {
-      console.log(`Deleting ${files.length} files from task-attachments bucket...`);
-      const filePaths = files.map((file) => file.name);
-      const { error: deleteError } = await supabase.storage
-        .from('task-attachments')
-        .remove(filePaths);
-
-      if (deleteError) {
-        console.warn('Error deleting some files:', deleteError.message);
-      } else {
-        console.log('Successfully deleted all files from bucket');
-      }
-    }
-  } catch (e) {
-    console.warn('Error during file cleanup:', e);
-  }
-
-  // Remove objects referencing the bucket from storage.objects table
-  // (Different self-hosted versions may use bucket_id or bucketId; handle both defensively)
-  try {
-    await sql`DELETE FROM storage.objects WHERE bucket_id = 'task-attachments'`;
-  } catch (e) {
-    console.warn(
-      'Attempted delete on storage.objects.bucket_id failed (maybe column named bucketId). Proceeding.',
-      e
-    );
-    try {
-      // @ts-ignore fallback column name
-      await sql`DELETE FROM storage.objects WHERE "bucketId" = 'task-attachments'`;
-    } catch (e2) {
-      console.warn(
-        'Fallback delete on storage.objects.bucketId also failed (may be no objects table).',
-        e2
-      );
-    }
-  }
-
-  // Now drop bucket if exists
-  await sql`DELETE FROM storage.buckets WHERE id = 'task-attachments'`;
-
-  // Recreate bucket (public for easy file access)
-  await sql`
-    INSERT INTO storage.buckets (id, name, public)
-    VALUES ('task-attachments', 'task-attachments', true)
-  `;
-}
-
 /* --------------------- TASK_ATTACHMENTS --------------------- */
 async function seedTaskAttachments(sql: postgres.Sql) {
-  await sql`
-    CREATE TABLE IF NOT EXISTS task_attachments (
-      id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
-      task_id BIGINT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
-      storage_path TEXT NOT NULL,
-      uploaded_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE SET NULL,
-      uploaded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-      CONSTRAINT uq_task_file UNIQUE (task_id, storage_path)
-    );
-  `;
-  await sql`TRUNCATE TABLE task_attachments RESTART IDENTITY CASCADE;`;
-
   if (!task_attachments.length) return;
 
   const taskRows = await sql`SELECT id, title FROM tasks`;
@@ -503,51 +258,6 @@ async function seedTaskAttachments(sql: postgres.Sql) {
 
 /* --------------------- NOTIFICATIONS --------------------- */
 async function seedNotifications(sql: postgres.Sql) {
-  await sql`
-    CREATE TABLE IF NOT EXISTS notifications (
-      id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
-      user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
-      title TEXT NOT NULL,
-      message TEXT NOT NULL,
-      type VARCHAR(50) NOT NULL,
-      read BOOLEAN NOT NULL DEFAULT FALSE,
-      is_archived BOOLEAN NOT NULL DEFAULT FALSE,
-      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
-    );
-  `;
-
-  // Add is_archived column if it doesn't exist (idempotent)
-  await sql`
-    DO $do$
-    BEGIN
-      IF NOT EXISTS (
-        SELECT 1 FROM information_schema.columns
-        WHERE table_name = 'notifications'
-        AND column_name = 'is_archived'
-      ) THEN
-        ALTER TABLE notifications ADD COLUMN is_archived BOOLEAN NOT NULL DEFAULT FALSE;
-      END IF;
-    END $do$;
-  `;
-
-  await sql`TRUNCATE TABLE notifications RESTART IDENTITY CASCADE;`;
-
-  // Enable realtime for notifications table
-  try {
-    await sql`
-      ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
-    `;
-    console.log('Enabled realtime for notifications table');
-  } catch (error: any) {
-    // If table is already in publication, ignore the error
-    if (error.message?.includes('already exists')) {
-      console.log('Notifications table already in realtime publication');
-    } else {
-      console.warn('Could not enable realtime for notifications:', error.message);
-    }
-  }
-
   if (!notifications.length) return;
 
   await Promise.all(
@@ -564,17 +274,6 @@ async function seedNotifications(sql: postgres.Sql) {
 
 /* --------------------- TASK_ASSIGNMENTS --------------------- */
 async function seedTaskAssignments(sql: postgres.Sql) {
-  await sql`
-    CREATE TABLE IF NOT EXISTS task_assignments (
-      id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
-      task_id BIGINT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
-      assignee_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
-      assignor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
-      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
-    );
-  `;
-  await sql`TRUNCATE TABLE task_assignments RESTART IDENTITY CASCADE;`;
-
   if (!task_assignments.length) return;
 
   const taskRows = await sql`SELECT id, title FROM tasks`;
@@ -595,19 +294,6 @@ async function seedTaskAssignments(sql: postgres.Sql) {
 
 /* --------------------- TASK_COMMENTS --------------------- */
 async function seedTaskComments(sql: postgres.Sql) {
-  await sql`
-    CREATE TABLE IF NOT EXISTS task_comments (
-      id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
-      task_id BIGINT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
-      user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
-      content TEXT NOT NULL,
-      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-      is_archived BOOLEAN NOT NULL DEFAULT FALSE
-    );
-  `;
-  await sql`TRUNCATE TABLE task_comments RESTART IDENTITY CASCADE;`;
-
   if (!task_comments.length) return;
 
   const taskRows = await sql`SELECT id, title FROM tasks`;
@@ -626,1757 +312,35 @@ async function seedTaskComments(sql: postgres.Sql) {
   );
 }
 
-/* --------------------- ENABLE ROW LEVEL SECURITY --------------------- */
-async function enableRLS(sql: postgres.Sql) {
-  // Enable RLS on all application tables
-  await sql`ALTER TABLE user_info ENABLE ROW LEVEL SECURITY`;
-  await sql`ALTER TABLE departments ENABLE ROW LEVEL SECURITY`;
-  await sql`ALTER TABLE roles ENABLE ROW LEVEL SECURITY`;
-  await sql`ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY`;
-  await sql`ALTER TABLE tags ENABLE ROW LEVEL SECURITY`;
-  await sql`ALTER TABLE projects ENABLE ROW LEVEL SECURITY`;
-  await sql`ALTER TABLE project_departments ENABLE ROW LEVEL SECURITY`;
-  await sql`ALTER TABLE tasks ENABLE ROW LEVEL SECURITY`;
-  await sql`ALTER TABLE task_tags ENABLE ROW LEVEL SECURITY`;
-  await sql`ALTER TABLE notifications ENABLE ROW LEVEL SECURITY`;
-  await sql`ALTER TABLE task_assignments ENABLE ROW LEVEL SECURITY`;
-  await sql`ALTER TABLE task_comments ENABLE ROW LEVEL SECURITY`;
-  await sql`ALTER TABLE task_attachments ENABLE ROW LEVEL SECURITY`;
-
-  // Create basic RLS policies
-
-  /* ---------------- USER INFO ---------------- */
-
-  // Security definer function that returns all colleagues in the same department:
-  await sql`
-    CREATE OR REPLACE FUNCTION can_view_user(target_user_id uuid, user_uuid uuid)
-    RETURNS boolean
-    LANGUAGE plpgsql
-    SECURITY DEFINER
-    AS $$
-    DECLARE
-      my_dept_id BIGINT;
-      target_dept_id BIGINT;
-    BEGIN
-      -- Get the current user's department
-      SELECT department_id INTO my_dept_id FROM user_info WHERE id = user_uuid;
-      -- Get the target user's department
-      SELECT department_id INTO target_dept_id FROM user_info WHERE id = target_user_id;
-
-      -- 1. Colleagues in their department
-      IF target_dept_id = my_dept_id THEN
-        RETURN TRUE;
-      END IF;
-
-      -- 2. Users in descendant departments
-      IF EXISTS (
-        SELECT 1 FROM get_department_hierarchy(my_dept_id) d WHERE d.id = target_dept_id
-      ) THEN
-        RETURN TRUE;
-      END IF;
-
-      -- 3. Users who are assignees on tasks shared with my department mates
-      IF EXISTS (
-        SELECT 1
-        FROM task_assignments ta1
-        JOIN get_department_colleagues(user_uuid) colleagues ON ta1.assignee_id = colleagues.id
-        JOIN task_assignments ta2 ON ta1.task_id = ta2.task_id
-        WHERE ta2.assignee_id = target_user_id
-      ) THEN
-        RETURN TRUE;
-      END IF;
-
-      -- 4. Users who are creators of tasks visible to me
-      IF EXISTS (
-        SELECT 1
-        FROM tasks t
-        WHERE t.creator_id = target_user_id
-          AND is_task_visible_to_user(t.id, user_uuid)
-      ) THEN
-        RETURN TRUE;
-      END IF;
-
-      RETURN FALSE;
-    END;
-    $$;
-  `;
-
-  // Security definer function to check if user can view a task
-  // This bypasses RLS to avoid circular dependency with task_assignments
-  await sql`
-    CREATE OR REPLACE FUNCTION is_task_visible_to_user(task_id_arg bigint, user_id_arg uuid)
-      RETURNS boolean
-      LANGUAGE plpgsql
-      SECURITY DEFINER
-      SET search_path = public
-      AS $$
-      BEGIN
-        IF user_id_arg != auth.uid() THEN
-          RETURN FALSE;
-        END IF;
-        RETURN
-          EXISTS (
-            SELECT 1 FROM tasks t WHERE t.id = task_id_arg AND t.creator_id = user_id_arg
-          )
-          OR EXISTS (
-            SELECT 1
-            FROM task_assignments ta
-            JOIN user_info ui ON ta.assignee_id = ui.id
-            WHERE ta.task_id = task_id_arg
-              AND ui.department_id = (SELECT department_id FROM user_info WHERE id = user_id_arg)
-          );
-      END;
-      $$;
-  `;
-
-  // Create security definer function to get assignee info for visible tasks
-  // This allows users to see names of assignees on tasks they can view, even if from different departments
-  await sql`
-    CREATE OR REPLACE FUNCTION get_task_assignees_info(task_ids bigint[])
-      RETURNS TABLE(id uuid, first_name varchar, last_name varchar)
-      LANGUAGE sql
-      SECURITY DEFINER
-      SET search_path = public
-      AS $$
-        SELECT DISTINCT ui.id, ui.first_name, ui.last_name
-        FROM user_info ui
-        JOIN task_assignments ta ON ta.assignee_id = ui.id
-        WHERE ta.task_id = ANY(task_ids)
-          AND is_task_visible_to_user(ta.task_id, auth.uid());
-      $$;
-  `;
-
-  // Create stored procedure to create a task with assignments in a single transaction
-  // This ensures the deferred trigger waits for all inserts before checking
-  await sql`
-    CREATE OR REPLACE FUNCTION create_task_with_assignments(
-      p_title VARCHAR(255),
-      p_description TEXT,
-      p_priority_bucket INT,
-      p_status VARCHAR(15),
-      p_deadline TIMESTAMPTZ,
-      p_notes TEXT,
-      p_project_id BIGINT,
-      p_creator_id UUID,
-      p_recurrence_interval INT,
-      p_recurrence_date TIMESTAMPTZ,
-      p_assignee_ids UUID[]
-    )
-    RETURNS BIGINT
-    LANGUAGE plpgsql
-    SECURITY DEFINER
-    AS $$
-    DECLARE
-      v_task_id BIGINT;
-      v_assignee_id UUID;
-    BEGIN
-      -- Insert the task
-      INSERT INTO tasks (
-        title, description, priority_bucket, status, deadline, notes,
-        project_id, creator_id, recurrence_interval, recurrence_date, is_archived
-      )
-      VALUES (
-        p_title, p_description, p_priority_bucket, p_status, p_deadline, p_notes,
-        p_project_id, p_creator_id, p_recurrence_interval, p_recurrence_date, FALSE
-      )
-      RETURNING id INTO v_task_id;
-
-      -- Insert task assignments
-      FOREACH v_assignee_id IN ARRAY p_assignee_ids
-      LOOP
-        INSERT INTO task_assignments (task_id, assignee_id, assignor_id)
-        VALUES (v_task_id, v_assignee_id, p_creator_id);
-      END LOOP;
-
-      -- Return the task ID
-      RETURN v_task_id;
-    END;
-    $$;
-  `;
-
-  //User Info: Users can see colleagues in their department
-  await sql`DROP POLICY IF EXISTS "Users can view colleagues in their department" ON user_info;`;
-  await sql`DROP POLICY IF EXISTS "Users can view colleagues, descendants, and shared task assignees" ON user_info;`;
-  await sql`DROP POLICY IF EXISTS "Users can update own settings" ON user_info;`;
-
-  await sql`
-    CREATE POLICY "Users can view colleagues, descendants, and shared task assignees"
-ON user_info
-FOR SELECT
-USING (
-  can_view_user(user_info.id, auth.uid())
-);
-
-`;
-  // Allow a user to view and update their own settings row
-  await sql`
-    CREATE POLICY "Users can update own settings" ON user_info
-    FOR UPDATE
-    USING (id = auth.uid())
-    WITH CHECK (id = auth.uid());
-  `;
-
-  /* ---------------- USER ROLES ---------------- */
-
-  // Drop any existing policies to avoid duplicates when reseeding
-  await sql`DROP POLICY IF EXISTS "Users can view their own roles" ON user_roles;`;
-  await sql`DROP POLICY IF EXISTS "Admins can manage roles" ON user_roles;`;
-  await sql`DROP POLICY IF EXISTS "Users view own roles" ON user_roles;`;
-  await sql`DROP POLICY IF EXISTS "Admins view all roles" ON user_roles;`;
-  await sql`DROP POLICY IF EXISTS "Admins grant roles" ON user_roles;`;
-  await sql`DROP POLICY IF EXISTS "Admins revoke roles" ON user_roles;`;
-  await sql`DROP POLICY IF EXISTS "Admins update roles" ON user_roles;`;
-
-  // Security definer function to check if user has a specific role
-  // This bypasses RLS to avoid circular dependency
-  await sql`
-    CREATE OR REPLACE FUNCTION user_has_role(user_uuid uuid, role_name text)
-      RETURNS boolean
-      LANGUAGE sql
-      SECURITY DEFINER
-      SET search_path = public
-      AS $$
-        SELECT EXISTS (
-          SELECT 1 FROM user_roles
-          WHERE user_id = user_uuid AND role = role_name
-        );
-      $$;
-  `;
-
-  // SECURITY DEFINER helper to check admin status without triggering recursive RLS evaluation
-  await sql`
-    CREATE OR REPLACE FUNCTION is_admin(u uuid)
-    RETURNS boolean
-    LANGUAGE sql
-    SECURITY DEFINER
-    SET search_path = public
-    AS $$
-      SELECT EXISTS (
-        SELECT 1 FROM user_roles ur
-        WHERE ur.user_id = u AND ur.role = 'admin'
-      );
-    $$;
-  `;
-
-  // Granular, non-recursive policies
-  // 1. Regular users can see only their own roles
-  await sql`
-    CREATE POLICY "Users view own roles" ON user_roles
-    FOR SELECT
-    USING (user_id = auth.uid());
-  `;
-
-  // 2. Admins can see all roles
-  await sql`
-    CREATE POLICY "Admins view all roles" ON user_roles
-    FOR SELECT
-    USING (is_admin(auth.uid()));
-  `;
-
-  // 3. Admins can grant (insert) roles to any user
-  await sql`
-    CREATE POLICY "Admins grant roles" ON user_roles
-    FOR INSERT
-    WITH CHECK (is_admin(auth.uid()));
-  `;
-
-  // 4. Admins can revoke (delete) roles from any user
-  await sql`
-    CREATE POLICY "Admins revoke roles" ON user_roles
-    FOR DELETE
-    USING (is_admin(auth.uid()));
-  `;
-
-  // 5. (Optional) Admins can update existing role rows (rarely used; included for completeness)
-  await sql`
-    CREATE POLICY "Admins update roles" ON user_roles
-    FOR UPDATE
-    USING (is_admin(auth.uid()))
-    WITH CHECK (is_admin(auth.uid()));
-  `;
-
-  /* ---------------- TASKS ---------------- */
-
-  // Users can create tasks they own
-  await sql`
-    CREATE POLICY "Users can create their own tasks" ON tasks
-    FOR INSERT
-    WITH CHECK (auth.uid() = creator_id);
-  `;
-
-  // Drop users can update task policy
-  await sql`DROP POLICY IF EXISTS "Users can update their own tasks" ON tasks;`;
-
-  // Task creators and assignees can update tasks (details, status, priority_bucket, recurrence_interval)
-  await sql`
-    CREATE POLICY "Task creators and assignees can update tasks" ON tasks
-    FOR UPDATE
-    USING (
-      auth.uid() = creator_id
-      OR EXISTS (
-        SELECT 1 FROM task_assignments
-        WHERE task_id = tasks.id
-        AND assignee_id = auth.uid()
-      )
-    )
-    WITH CHECK (
-      auth.uid() = creator_id
-      OR EXISTS (
-        SELECT 1 FROM task_assignments
-        WHERE task_id = tasks.id
-        AND assignee_id = auth.uid()
-      )
-    )
-  `;
-
-  // Tasks: Users can see tasks in their department
-  // Uses SECURITY DEFINER function to avoid circular RLS dependency with task_assignments
-  await sql`
-    CREATE POLICY "Users can view tasks assigned to their department" ON tasks
-    FOR SELECT
-    USING (is_task_visible_to_user(id, auth.uid()));
-  `;
-
-  // Tasks: Only admins can archive tasks
-  await sql`
-    CREATE POLICY "Admins can archive tasks" ON tasks
-    FOR UPDATE
-    USING (user_has_role(auth.uid(), 'admin'))
-    WITH CHECK (is_archived = true)
-  `;
-
-  /* ---------------- PROJECTS ---------------- */
-
-  // Projects: Users can see projects linked to their their department
-  await sql`
-  CREATE POLICY "Users can view projects linked to tasks in their department" ON projects
-  FOR SELECT
-  USING (
-    EXISTS (
-      SELECT 1
-      FROM tasks t
-      JOIN task_assignments ta ON ta.task_id = t.id
-      JOIN user_info ui ON ui.id = ta.assignee_id
-      WHERE t.project_id = projects.id
-        AND ui.department_id = (SELECT department_id FROM user_info WHERE id = auth.uid())
-    )
-  )
-`;
-
-  // Projects: Managers and admins can create new projects
-  await sql`
-    CREATE POLICY "Managers and admins can create projects" ON projects
-    FOR INSERT
-    WITH CHECK (
-      EXISTS (
-        SELECT 1 FROM user_roles
-        WHERE user_id = auth.uid() AND role IN ('manager','admin')
-      )
-    )
-  `;
-
-  // Project-Departments: Managers/Admins can link a project to their own department
-  await sql`
-    CREATE POLICY "Managers and admins can link projects to own department" ON project_departments
-    FOR INSERT
-    WITH CHECK (
-      EXISTS (
-        SELECT 1 FROM user_roles ur
-        WHERE ur.user_id = auth.uid() AND ur.role IN ('manager','admin')
-      )
-      AND department_id = (
-        SELECT department_id FROM user_info WHERE id = auth.uid()
-      )
-    )
-  `;
-
-  /* ---------------- NOTIFICATIONS ---------------- */
-
-  // Drop any existing notification policies to avoid duplicates when reseeding
-  await sql`DROP POLICY IF EXISTS "Users can view own notifications" ON notifications;`;
-  await sql`DROP POLICY IF EXISTS "Users can view own non-archived notifications" ON notifications;`;
-  await sql`DROP POLICY IF EXISTS "Users can update own notifications" ON notifications;`;
-  await sql`DROP POLICY IF EXISTS "Users can delete own notifications" ON notifications;`;
-  await sql`DROP POLICY IF EXISTS "System can create notifications" ON notifications;`;
-
-  // Notifications: Users can see all their own notifications (archived and non-archived)
-  // Application code filters is_archived = false when listing notifications
-  await sql`
-    CREATE POLICY "Users can view own notifications" ON notifications
-    FOR SELECT USING (auth.uid() = user_id)
-  `;
-
-  // Notifications: Users can update (mark as read, archive, unarchive) their own notifications
-  await sql`
-    CREATE POLICY "Users can update own notifications" ON notifications
-    FOR UPDATE
-    USING (auth.uid() = user_id)
-    WITH CHECK (auth.uid() = user_id)
-  `;
-
-  // Notifications: Users can delete their own notifications
-  await sql`
-    CREATE POLICY "Users can delete own notifications" ON notifications
-    FOR DELETE
-    USING (auth.uid() = user_id)
-  `;
-
-  // Notifications: INSERT policy - Allow system to create notifications for any user
-  // This policy allows notifications to be created by triggers or server-side code
-  // without requiring auth.uid() to match, since notifications are created FOR users, not BY users
-  await sql`
-    CREATE POLICY "System can create notifications" ON notifications
-    FOR INSERT
-    WITH CHECK (true)
-  `;
-
-  /* ---------------- DEPARTMENTS ---------------- */
-
-  // Security definer function to get full department hierarchy (upwards and downwards)
-  await sql`
-    CREATE OR REPLACE FUNCTION get_department_hierarchy(dept_id BIGINT)
-    RETURNS TABLE(id BIGINT, name VARCHAR(255), parent_department_id BIGINT) AS $$
-    BEGIN
-      RETURN QUERY
-      WITH RECURSIVE dept_tree AS (
-        SELECT d.id, d.name, d.parent_department_id, ARRAY[d.id] AS path
-        FROM departments d
-        WHERE d.id = dept_id
-        UNION ALL
-        SELECT d.id, d.name, d.parent_department_id, dt.path || d.id
-        FROM departments d
-        INNER JOIN dept_tree dt ON d.parent_department_id = dt.id
-        WHERE NOT d.id = ANY(dt.path)
-      )
-      SELECT dept_tree.id, dept_tree.name, dept_tree.parent_department_id FROM dept_tree;
-    END;
-    $$ LANGUAGE plpgsql SECURITY DEFINER;
-  `;
-
-  // Security definer function to get all colleagues in the same department hierarchy
-  await sql`
-    CREATE OR REPLACE FUNCTION get_department_colleagues(user_uuid uuid)
-    RETURNS TABLE(id uuid) AS $$
-    DECLARE
-      user_dept_id BIGINT;
-    BEGIN
-      -- Get the user's department ID first
-      SELECT department_id INTO user_dept_id FROM user_info WHERE user_info.id = user_uuid;
-
-      -- Return all users in the same department hierarchy
-      RETURN QUERY
-      SELECT ui.id
-      FROM user_info ui
-      WHERE ui.department_id IN (
-        SELECT dept.id
-        FROM get_department_hierarchy(user_dept_id) dept
-      );
-    END;
-    $$ LANGUAGE plpgsql SECURITY DEFINER;
-  `;
-
-  // Departments: Users can view departments in their hierarchy and departments of users sharing tasks
-  await sql`
-    CREATE POLICY "Users can view their department hierarchy and shared task departments"
-    ON departments
-    FOR SELECT
-    USING (
-      -- User's department hierarchy (including their own department)
-      id IN (
-        SELECT d.id 
-        FROM get_department_hierarchy(
-          (SELECT department_id FROM user_info WHERE id = auth.uid())
-        ) d
-      )
-      OR
-      -- Departments of users who share tasks with user's department colleagues
-      id IN (
-        SELECT DISTINCT ui.department_id
-        FROM task_assignments ta1
-        -- Tasks assigned to user's department colleagues
-        JOIN get_department_colleagues(auth.uid()) colleagues ON ta1.assignee_id = colleagues.id
-        -- All assignees on those shared tasks
-        JOIN task_assignments ta2 ON ta1.task_id = ta2.task_id
-        -- Departments of those assignees
-        JOIN user_info ui ON ta2.assignee_id = ui.id
-        WHERE ui.department_id IS NOT NULL
-      )
-    );
-  `;
-
-  /* ---------------- PROJECT_DEPARTMENTS ---------------- */
-
-  // Departments: Users can view project-department links for projects with their colleagues
-  await sql`
-    CREATE POLICY "Users can view project-department links for projects with their colleagues"
-    ON project_departments
-    FOR SELECT
-    USING (
-      EXISTS (
-        SELECT 1
-        FROM task_assignments ta
-        JOIN user_info u ON ta.assignee_id = u.id
-        WHERE u.department_id = (
-          SELECT department_id FROM user_info me WHERE me.id = auth.uid()
-        )
-        AND ta.task_id IN (
-          SELECT t.id FROM tasks t WHERE t.project_id = project_departments.project_id
-        )
-      )
-    );
-  `;
-
-  /* ---------------- ROLES ---------------- */
-
-  // Roles: Read-only access for roles (commonly referenced)
-  await sql`
-    CREATE POLICY "Users can view roles" ON roles
-    FOR SELECT USING (true)
-  `;
-
-  /* ---------------- TAGS ---------------- */
-
-  // Tags: Read-only access for tags (commonly referenced)
-  await sql`
-    CREATE POLICY "Users can view tags" ON tags
-    FOR SELECT USING (true)
-  `;
-
-  /* ---------------- TASK ASSIGNMENTS ---------------- */
-
-  // Task Assignments: Users can view assignments for tasks they can see
-  await sql`
-    CREATE POLICY "Users can view assignments for visible tasks" ON task_assignments
-    FOR SELECT
-    USING (
-      is_task_visible_to_user(task_id, auth.uid())
-      OR assignee_id = auth.uid()
-    );
-  `;
-
-  // Task Assignments: Users can assign assignees to tasks
-  // Allows task creators to add assignments (for NEW tasks) OR users to add assignments to existing tasks in their department
-  await sql`
-    CREATE POLICY "Users can assign other users for tasks in their department"
-    ON task_assignments
-    FOR INSERT
-    WITH CHECK (
-      assignor_id = auth.uid()
-      AND (
-        -- Allow task creator to add assignments (they own the task)
-        EXISTS (
-          SELECT 1
-          FROM tasks t
-          WHERE t.id = task_assignments.task_id
-            AND t.creator_id = auth.uid()
-        )
-        OR
-        -- Allow users to add assignments if project is already linked to their department
-        EXISTS (
-          SELECT 1
-          FROM tasks t
-          JOIN project_departments pd ON pd.project_id = t.project_id
-          WHERE t.id = task_assignments.task_id
-            AND pd.department_id = (SELECT department_id FROM user_info WHERE id = auth.uid())
-        )
-      )
-    )
-  `;
-
-  // Task Assignments: Users can remove assignments from tasks in their department
-  await sql`
-    CREATE POLICY "Users can remove assignments from tasks in their department"
-    ON task_assignments
-    FOR DELETE
-    USING (
-      EXISTS (
-        SELECT 1
-        FROM tasks t
-        JOIN project_departments pd ON pd.project_id = t.project_id
-        WHERE t.id = task_assignments.task_id
-          AND pd.department_id = (SELECT department_id FROM user_info WHERE id = auth.uid())
-      )
-    )
-  `;
-
-  /* ---------------- TASK ATTACHMENTS ---------------- */
-  // Select: assignees of the task OR the uploader can view
-  await sql`
-    CREATE POLICY "Assignees can view task attachments"
-    ON task_attachments
-    FOR SELECT
-    USING (
-      uploaded_by = auth.uid()
-      OR EXISTS (
-        SELECT 1
-        FROM task_assignments ta
-        WHERE ta.task_id = task_attachments.task_id
-          AND ta.assignee_id = auth.uid()
-      )
-    )
-  `;
-
-  // Insert: assignees of the task can add attachments (uploaded_by must be the actor)
-  await sql`
-    CREATE POLICY "Assignees can add task attachments"
-    ON task_attachments
-    FOR INSERT
-    WITH CHECK (
-      uploaded_by = auth.uid()
-      AND EXISTS (
-        SELECT 1
-        FROM task_assignments ta
-        WHERE ta.task_id = task_attachments.task_id
-          AND ta.assignee_id = auth.uid()
-      )
-    )
-  `;
-
-  // Delete: assignees of the task can remove attachments
-  await sql`
-    CREATE POLICY "Assignees can remove task attachments"
-    ON task_attachments
-    FOR DELETE
-    USING (
-      EXISTS (
-        SELECT 1
-        FROM task_assignments ta
-        WHERE ta.task_id = task_attachments.task_id
-          AND ta.assignee_id = auth.uid()
-      )
-    )
-  `;
-
-  /* ---------------- TASK COMMENTS ---------------- */
-
-  // Task Comments: Users can view their own comments or comments on tasks in their department
-  await sql`
-    CREATE POLICY "Users can view comments on tasks in their department"
-    ON task_comments
-    FOR SELECT
-    USING (
-      user_id = auth.uid()
-      OR EXISTS (
-        SELECT 1
-        FROM tasks t
-        JOIN project_departments pd ON pd.project_id = t.project_id
-        WHERE t.id = task_comments.task_id
-          AND pd.department_id = (SELECT department_id FROM user_info WHERE id = auth.uid())
-      )
-    )
-  `;
-
-  // Task Comments: Staff can comment only if assigned, managers can comment on any task in their departments
-  await sql`
-    CREATE POLICY "Users can comment on tasks they are assigned to or manage"
-    ON task_comments
-    FOR INSERT
-    WITH CHECK (
-      user_id = auth.uid()
-      AND (
-        EXISTS (
-          SELECT 1
-          FROM task_assignments ta
-          WHERE ta.task_id = task_comments.task_id
-            AND ta.assignee_id = auth.uid()
-        )
-        OR
-        EXISTS (
-          SELECT 1
-          FROM user_roles ur
-          JOIN user_info ui ON ur.user_id = ui.id
-          JOIN project_departments pd ON pd.department_id = ui.department_id
-          JOIN tasks t ON t.project_id = pd.project_id
-          WHERE ur.role = 'manager'
-            AND ur.user_id = auth.uid()
-            AND t.id = task_comments.task_id
-        )
-      )
-    )
-  `;
-
-  // Task Comments: Users can only edit their own comments
+/* --------------------- TIME_ENTRIES --------------------- */
+async function seedTimeEntries(sql: postgres.Sql) {
+  // Back the seeded logged_time totals with entries so the derived total stays consistent
   await sql`
-    CREATE POLICY "Users can edit own comments"
-    ON task_comments
-    FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid())
-  `;
-
-  // Task Comments: Only admins are allowed to delete comments
-  await sql`
-    CREATE POLICY "Admins can delete comments"
-    ON task_comments
-    FOR DELETE
-    USING (user_has_role(auth.uid(), 'admin'))
-  `;
-
-  /* ---------------- TASK TAGS ---------------- */
-
-  // Anyone can view task tags (as long as they can see the task)
-  await sql`
-    CREATE POLICY "Users can view tags in their own department tasks"
-    ON task_tags
-    FOR SELECT
-    USING (
-      EXISTS (
-        SELECT 1
-        FROM tasks t
-        JOIN project_departments pd ON pd.project_id = t.project_id
-        WHERE t.id = task_tags.task_id
-          AND pd.department_id = (SELECT department_id FROM user_info WHERE id = auth.uid())
-      )
-    )
-  `;
-
-  // Anyone can add tags to tasks in their departments
-  await sql`
-    CREATE POLICY "Users can add tags in their own deparment tasks"
-    ON task_tags
-    FOR INSERT
-    WITH CHECK (
-      EXISTS (
-        SELECT 1
-        FROM tasks t
-        JOIN project_departments pd ON pd.project_id = t.project_id
-        WHERE t.id = task_tags.task_id
-          AND pd.department_id = (SELECT department_id FROM user_info WHERE id = auth.uid())
-      )
-    )
-  `;
-
-  // Anyone can remove tags from tasks in their departments
-  await sql`
-    CREATE POLICY "Users can remove tags in their own department tasks"
-    ON task_tags
-    FOR DELETE
-    USING (
-      EXISTS (
-        SELECT 1
-        FROM tasks t
-        JOIN project_departments pd ON pd.project_id = t.project_id
-        WHERE t.id = task_tags.task_id
-          AND pd.department_id = (SELECT department_id FROM user_info WHERE id = auth.uid())
-      )
-    )
+    INSERT INTO time_entries (task_id, user_id, started_at, ended_at, note)
+    SELECT id, creator_id, created_at, created_at + make_interval(secs => logged_time), 'Imported from seed data'
+    FROM tasks
+    WHERE logged_time > 0
   `;
 }
-/* --------------------- TRIGGERS --------------------- */
-
-async function createTriggers(sql: postgres.Sql) {
-  await sql`
-    -- Trigger function to validate task has at least 1 and at most 5 assignees
-    CREATE OR REPLACE FUNCTION validate_task_assignee_count()
-    RETURNS TRIGGER
-    LANGUAGE plpgsql
-    AS $$
-    DECLARE
-        assignee_count int;
-    BEGIN
-        -- Count assignees for the task
-        SELECT COUNT(*) INTO assignee_count
-        FROM task_assignments
-        WHERE task_id = NEW.id;
-
-        -- Check if task has at least one assignee
-        IF assignee_count < 1 THEN
-            RAISE EXCEPTION 'Task must have at least 1 assignee';
-        END IF;
-
-        -- Check if task has at most 5 assignees
-        IF assignee_count > 5 THEN
-            RAISE EXCEPTION 'Task cannot have more than 5 assignees';
-        END IF;
-
-        RETURN NEW;
-    END;
-    $$;
-  `;
-
-  await sql`
-    -- Trigger to validate assignee count after task creation
-    -- This runs AFTER INSERT to allow assignments to be added first
-    CREATE CONSTRAINT TRIGGER trg_validate_task_assignee_count
-    AFTER INSERT ON tasks
-    DEFERRABLE INITIALLY DEFERRED
-    FOR EACH ROW
-    EXECUTE FUNCTION validate_task_assignee_count();
-  `;
-
-  await sql`
-      -- Trigger function to update project_departments when a new task assignment is inserted
-    CREATE OR REPLACE FUNCTION update_project_departments()
-    RETURNS TRIGGER
-    LANGUAGE plpgsql
-    AS $$
-    DECLARE
-        assignee_dept_id int;
-    BEGIN
-        -- Get the department of the new assignee
-        SELECT department_id INTO assignee_dept_id
-        FROM user_info
-        WHERE id = NEW.assignee_id;
-
-        -- Insert a row into project_departments if it doesn't already exist
-        INSERT INTO project_departments (project_id, department_id)
-        SELECT t.project_id, assignee_dept_id
-        FROM tasks t
-        WHERE t.id = NEW.task_id
-        ON CONFLICT (project_id, department_id) DO NOTHING;
-
-        RETURN NEW;
-    END;
-    $$;
-  `;
-
-  await sql`
-    -- Create the trigger on task_assignments table
-    CREATE TRIGGER trg_update_project_departments
-    AFTER INSERT ON task_assignments
-    FOR EACH ROW
-    EXECUTE FUNCTION update_project_departments();
-  `;
-
-  await sql`
-    -- Trigger function to create notification when a new task assignment is inserted
-    -- SECURITY DEFINER allows it to bypass RLS policies and avoid infinite recursion
-    CREATE OR REPLACE FUNCTION notify_task_assignment()
-    RETURNS TRIGGER
-    LANGUAGE plpgsql
-    SECURITY DEFINER
-    SET search_path = public
-    AS $$
-    DECLARE
-        task_title_var TEXT;
-        assignor_first_name TEXT;
-        assignor_last_name TEXT;
-        assignor_full_name TEXT;
-        new_assignee_first_name TEXT;
-        new_assignee_last_name TEXT;
-        new_assignee_full_name TEXT;
-        existing_assignee_record RECORD;
-    BEGIN
-        -- Skip notification if assignee is the same as assignor (self-assignment)
-        IF NEW.assignee_id = NEW.assignor_id THEN
-            RETURN NEW;
-        END IF;
-
-        -- Get task title (bypass RLS)
-        SELECT title INTO task_title_var
-        FROM tasks
-        WHERE id = NEW.task_id;
-
-        -- Get assignor name (bypass RLS)
-        IF NEW.assignor_id IS NOT NULL THEN
-            SELECT first_name, last_name INTO assignor_first_name, assignor_last_name
-            FROM user_info
-            WHERE id = NEW.assignor_id;
-
-            assignor_full_name := assignor_first_name || ' ' || assignor_last_name;
-        ELSE
-            assignor_full_name := 'Someone';
-        END IF;
-
-        -- Get new assignee name (bypass RLS)
-        SELECT first_name, last_name INTO new_assignee_first_name, new_assignee_last_name
-        FROM user_info
-        WHERE id = NEW.assignee_id;
-
-        new_assignee_full_name := new_assignee_first_name || ' ' || new_assignee_last_name;
-
-        -- Insert notification for the new assignee (bypass RLS)
-        INSERT INTO notifications (user_id, title, message, type, read, created_at, updated_at)
-        VALUES (
-            NEW.assignee_id,
-            'New Task Assignment',
-            assignor_full_name || ' assigned you to task: "' || task_title_var || '"',
-            'task_updated',
-            false,
-            NOW(),
-            NOW()
-        );
-
-        -- Create notifications for existing assignees about the new task assignee
-        FOR existing_assignee_record IN
-            SELECT assignee_id
-            FROM task_assignments
-            WHERE task_id = NEW.task_id
-              AND assignee_id != NEW.assignee_id  -- Skip the new assignee
-              AND assignee_id != NEW.assignor_id      -- Skip the assignor if they're also an assignee
-        LOOP
-            INSERT INTO notifications (user_id, title, message, type, read, created_at, updated_at)
-            VALUES (
-                existing_assignee_record.assignee_id,
-                'Task Assignee Added',
-                assignor_full_name || ' assigned ' || new_assignee_full_name || ' to task: "' || task_title_var || '"',
-                'task_updated',
-                false,
-                NOW(),
-                NOW()
-            );
-        END LOOP;
-
-        RETURN NEW;
-    END;
-    $$;
-  `;
-
-  await sql`
-    -- Create the trigger on task_assignments table for notifications
-    CREATE TRIGGER trg_notify_task_assignment
-    AFTER INSERT ON task_assignments
-    FOR EACH ROW
-    EXECUTE FUNCTION notify_task_assignment();
-  `;
-
-  await sql`
-    -- Trigger function to create notifications when a new comment is added
-    -- SECURITY DEFINER allows it to bypass RLS policies
-    CREATE OR REPLACE FUNCTION notify_new_comment()
-    RETURNS TRIGGER
-    LANGUAGE plpgsql
-    SECURITY DEFINER
-    SET search_path = public
-    AS $$
-    DECLARE
-        task_title_var TEXT;
-        commenter_first_name TEXT;
-        commenter_last_name TEXT;
-        commenter_full_name TEXT;
-        assignee_record RECORD;
-    BEGIN
-        -- Get task title (bypass RLS)
-        SELECT title INTO task_title_var
-        FROM tasks
-        WHERE id = NEW.task_id;
-
-        -- Get commenter name (bypass RLS)
-        SELECT first_name, last_name INTO commenter_first_name, commenter_last_name
-        FROM user_info
-        WHERE id = NEW.user_id;
-
-        IF commenter_first_name IS NOT NULL AND commenter_last_name IS NOT NULL THEN
-            commenter_full_name := commenter_first_name || ' ' || commenter_last_name;
-        ELSE
-            commenter_full_name := 'Someone';
-        END IF;
-
-        -- Create notifications for all assignees except the commenter
-        FOR assignee_record IN
-            SELECT assignee_id
-            FROM task_assignments
-            WHERE task_id = NEW.task_id
-        LOOP
-            -- Skip the commenter
-            IF assignee_record.assignee_id != NEW.user_id THEN
-                INSERT INTO notifications (user_id, title, message, type, read, created_at, updated_at)
-                VALUES (
-                    assignee_record.assignee_id,
-                    'New Comment',
-                    commenter_full_name || ' commented on task: "' || task_title_var || '"',
-                    'task_updated',
-                    false,
-                    NOW(),
-                    NOW()
-                );
-            END IF;
-        END LOOP;
-
-        RETURN NEW;
-    END;
-    $$;
-  `;
-
-  await sql`
-    -- Create the trigger on task_comments table for notifications
-    CREATE TRIGGER trg_notify_new_comment
-    AFTER INSERT ON task_comments
-    FOR EACH ROW
-    EXECUTE FUNCTION notify_new_comment();
-  `;
-
-  // Trigger function for comment deletion notifications
-  await sql`
-    CREATE OR REPLACE FUNCTION notify_comment_removal()
-    RETURNS TRIGGER
-    LANGUAGE plpgsql
-    SECURITY DEFINER
-    SET search_path = public
-    AS $$
-    DECLARE
-        task_title_var TEXT;
-        remover_first_name TEXT;
-        remover_last_name TEXT;
-        remover_full_name TEXT;
-        commenter_first_name TEXT;
-        commenter_last_name TEXT;
-        commenter_full_name TEXT;
-        assignee_record RECORD;
-    BEGIN
-        -- Get task title (bypass RLS)
-        SELECT title INTO task_title_var
-        FROM tasks
-        WHERE id = OLD.task_id;
-
-        -- Get commenter name (bypass RLS)
-        SELECT first_name, last_name INTO commenter_first_name, commenter_last_name
-        FROM user_info
-        WHERE id = OLD.user_id;
-
-        IF commenter_first_name IS NOT NULL AND commenter_last_name IS NOT NULL THEN
-            commenter_full_name := commenter_first_name || ' ' || commenter_last_name;
-        ELSE
-            commenter_full_name := 'Admin';
-        END IF;
-
-        -- Get remover name from auth context (admin who deleted)
-        SELECT first_name, last_name INTO remover_first_name, remover_last_name
-        FROM user_info
-        WHERE id = auth.uid();
-
-        IF remover_first_name IS NOT NULL AND remover_last_name IS NOT NULL THEN
-            remover_full_name := remover_first_name || ' ' || remover_last_name;
-        ELSE
-            remover_full_name := 'An admin';
-        END IF;
-
-        -- Create notifications for all assignees about the comment deletion
-        FOR assignee_record IN
-            SELECT assignee_id
-            FROM task_assignments
-            WHERE task_id = OLD.task_id
-              AND assignee_id != auth.uid()  -- Skip the admin who deleted
-        LOOP
-            INSERT INTO notifications (user_id, title, message, type, read, created_at, updated_at)
-            VALUES (
-                assignee_record.assignee_id,
-                'Comment Removed',
-                remover_full_name || ' removed a comment from task: "' || task_title_var || '"',
-                'task_updated',
-                false,
-                NOW(),
-                NOW()
-            );
-        END LOOP;
-
-        RETURN OLD;
-    END;
-    $$;
-  `;
-
-  await sql`
-    -- Create the trigger on task_comments table for removal notifications
-    CREATE TRIGGER trg_notify_comment_removal
-    AFTER DELETE ON task_comments
-    FOR EACH ROW
-    EXECUTE FUNCTION notify_comment_removal();
-  `;
-
-  await sql`
-    -- Trigger function to create notifications when a task is updated
-    -- SECURITY DEFINER allows it to bypass RLS policies
-    -- Uses auth.uid() to identify the actual user making the update
-    CREATE OR REPLACE FUNCTION notify_task_update()
-    RETURNS TRIGGER
-    LANGUAGE plpgsql
-    SECURITY DEFINER
-    SET search_path = public
-    AS $$
-    DECLARE
-        updater_id UUID;
-        updater_first_name TEXT;
-        updater_last_name TEXT;
-        updater_full_name TEXT;
-        assignee_record RECORD;
-        message_text TEXT;
-        changed_fields TEXT[] := ARRAY[]::TEXT[];
-        field_label TEXT;
-        parent_title TEXT;
-    BEGIN
-        -- Get the user who made the update from auth context
-        updater_id := auth.uid();
-
-        RAISE NOTICE 'notify_task_update triggered for task % by user %', NEW.id, updater_id;
-
-        -- If no authenticated user (e.g., system update), skip notifications
-        IF updater_id IS NULL THEN
-            RAISE NOTICE 'No authenticated user, skipping notifications';
-            RETURN NEW;
-        END IF;
 
-        -- Get updater name (bypass RLS - SECURITY DEFINER allows this)
-        SELECT first_name, last_name INTO updater_first_name, updater_last_name
-        FROM user_info
-        WHERE id = updater_id;
-
-        IF updater_first_name IS NOT NULL AND updater_last_name IS NOT NULL THEN
-            updater_full_name := updater_first_name || ' ' || updater_last_name;
-        ELSE
-            updater_full_name := 'Someone';
-        END IF;
-
-        -- Collect all changed fields
-        IF OLD.title IS DISTINCT FROM NEW.title THEN
-            changed_fields := array_append(changed_fields, 'title');
-        END IF;
-
-        IF OLD.status IS DISTINCT FROM NEW.status THEN
-            changed_fields := array_append(changed_fields, 'status');
-        END IF;
-
-        IF OLD.priority_bucket IS DISTINCT FROM NEW.priority_bucket THEN
-            changed_fields := array_append(changed_fields, 'priority_bucket');
-        END IF;
-
-        IF OLD.description IS DISTINCT FROM NEW.description THEN
-            changed_fields := array_append(changed_fields, 'description');
-        END IF;
-
-        IF OLD.deadline IS DISTINCT FROM NEW.deadline THEN
-            changed_fields := array_append(changed_fields, 'deadline');
-        END IF;
-
-        IF OLD.notes IS DISTINCT FROM NEW.notes THEN
-            changed_fields := array_append(changed_fields, 'notes');
-        END IF;
-
-        IF OLD.recurrence_date IS DISTINCT FROM NEW.recurrence_date THEN
-            changed_fields := array_append(changed_fields, 'recurrence_date');
-        END IF;
-
-        IF OLD.is_archived IS DISTINCT FROM NEW.is_archived THEN
-            changed_fields := array_append(changed_fields, 'is_archived');
-        END IF;
-
-        -- TODO: Uncomment when teammate finalizes subtask process
-        -- IF OLD.parent_task_id IS DISTINCT FROM NEW.parent_task_id THEN
-        --     changed_fields := array_append(changed_fields, 'parent_task_id');
-        -- END IF;
-
-        -- If no fields changed, skip notification
-        IF array_length(changed_fields, 1) IS NULL THEN
-            RAISE NOTICE 'No fields changed, skipping notification';
-            RETURN NEW;
-        END IF;
-
-        RAISE NOTICE 'Changed fields: %, count: %', changed_fields, array_length(changed_fields, 1);
-
-        -- Generate message based on number of changed fields
-        IF array_length(changed_fields, 1) = 1 THEN
-            -- Single field - detailed message with from/to
-            CASE changed_fields[1]
-                WHEN 'title' THEN
-                    message_text := updater_full_name || ' updated the title of task "' || OLD.title || '" to "' || NEW.title || '"';
-                WHEN 'status' THEN
-                    message_text := updater_full_name || ' changed the status of task "' || NEW.title || '" from "' || OLD.status || '" to "' || NEW.status || '"';
-                WHEN 'priority_bucket' THEN
-                    message_text := updater_full_name || ' changed the priority of task "' || NEW.title || '" from ' || OLD.priority_bucket || ' to ' || NEW.priority_bucket;
-                WHEN 'description' THEN
-                    message_text := updater_full_name || ' changed the description of task "' || NEW.title || '" from "' || COALESCE(OLD.description, '(empty)') || '" to "' || COALESCE(NEW.description, '(empty)') || '"';
-                WHEN 'deadline' THEN
-                    message_text := updater_full_name || ' changed the deadline of task "' || NEW.title || '" from ' || COALESCE(TO_CHAR(OLD.deadline, 'MM/DD/YYYY'), '(none)') || ' to ' || COALESCE(TO_CHAR(NEW.deadline, 'MM/DD/YYYY'), '(none)');
-                WHEN 'notes' THEN
-                    message_text := updater_full_name || ' changed the notes of task "' || NEW.title || '" from "' || COALESCE(OLD.notes, '(empty)') || '" to "' || COALESCE(NEW.notes, '(empty)') || '"';
-                WHEN 'recurrence_date' THEN
-                    IF OLD.recurrence_date IS NULL THEN
-                        message_text := updater_full_name || ' set a recurrence date for task "' || NEW.title || '"';
-                    ELSEIF NEW.recurrence_date IS NULL THEN
-                        message_text := updater_full_name || ' removed the recurrence date from task "' || NEW.title || '"';
-                    ELSE
-                        message_text := updater_full_name || ' changed the recurrence date for task "' || NEW.title || '"';
-                    END IF;
-                WHEN 'is_archived' THEN
-                    IF NEW.is_archived = true THEN
-                        message_text := updater_full_name || ' archived task "' || NEW.title || '"';
-                    ELSE
-                        message_text := updater_full_name || ' unarchived task "' || NEW.title || '"';
-                    END IF;
-                -- TODO: Uncomment when teammate finalizes subtask process
-                -- WHEN 'parent_task_id' THEN
-                --     IF OLD.parent_task_id IS NULL THEN
-                --         -- Task became a subtask - notify parent task assignees
-                --         -- Get parent task title (bypass RLS)
-                --         SELECT title INTO parent_title
-                --         FROM tasks
-                --         WHERE id = NEW.parent_task_id;
-
-                --         message_text := 'Sub-task "' || NEW.title || '" was added to "' || COALESCE(parent_title, 'Unknown Parent') || '"';
-                --     ELSEIF NEW.parent_task_id IS NULL THEN
-                --         -- Task is no longer a subtask
-                --         message_text := updater_full_name || ' removed "' || NEW.title || '" from being a subtask';
-                --     ELSE
-                --         -- Parent task changed (unlikely case)
-                --         message_text := updater_full_name || ' changed the parent task of "' || NEW.title || '" to task ID ' || NEW.parent_task_id;
-                --     END IF;
-                ELSE
-                    message_text := updater_full_name || ' updated ' || changed_fields[1] || ' of task "' || NEW.title || '"';
-            END CASE;
-        ELSE
-            -- Multiple fields - compact format listing all fields
-            message_text := updater_full_name || ' updated the following fields in task "' || NEW.title || '": ';
-            FOR i IN 1..array_length(changed_fields, 1) LOOP
-                CASE changed_fields[i]
-                    WHEN 'title' THEN field_label := 'title';
-                    WHEN 'status' THEN field_label := 'status';
-                    WHEN 'priority_bucket' THEN field_label := 'priority';
-                    WHEN 'description' THEN field_label := 'description';
-                    WHEN 'deadline' THEN field_label := 'deadline';
-                    WHEN 'notes' THEN field_label := 'notes';
-                    WHEN 'recurrence_date' THEN field_label := 'recurrence date';
-                    WHEN 'is_archived' THEN field_label := 'archive status';
-                    -- TODO: Uncomment when teammate finalizes subtask process
-                    -- WHEN 'parent_task_id' THEN field_label := 'parent task';
-                    ELSE field_label := changed_fields[i];
-                END CASE;
-
-                IF i = 1 THEN
-                    message_text := message_text || field_label;
-                ELSE
-                    message_text := message_text || ', ' || field_label;
-                END IF;
-            END LOOP;
-        END IF;
-
-        -- Create notifications for all assignees except the updater
-        RAISE NOTICE 'Looking for assignees for task %', NEW.id;
-        FOR assignee_record IN
-            SELECT assignee_id FROM task_assignments WHERE task_id = NEW.id
-        LOOP
-            RAISE NOTICE 'Found assignee: %, updater: %', assignee_record.assignee_id, updater_id;
-            -- Skip the updater
-            IF assignee_record.assignee_id != updater_id THEN
-                RAISE NOTICE 'Creating notification for assignee %', assignee_record.assignee_id;
-                INSERT INTO notifications (user_id, title, message, type, read, created_at, updated_at)
-                VALUES (assignee_record.assignee_id, 'Task Updated', message_text, 'task_updated', false, NOW(), NOW());
-                RAISE NOTICE 'Notification created successfully';
-            ELSE
-                RAISE NOTICE 'Skipping updater %', assignee_record.assignee_id;
-            END IF;
-        END LOOP;
-
-        RAISE NOTICE 'Finished creating notifications for task %', NEW.id;
-        RETURN NEW;
-    END;
-    $$;
-  `;
-
-  await sql`
-    -- Create the trigger on tasks table for notifications
-    CREATE TRIGGER trg_notify_task_update
-    AFTER UPDATE ON tasks
-    FOR EACH ROW
-    EXECUTE FUNCTION notify_task_update();
-  `;
-
-  // Trigger function for task assignment removal notifications
-  await sql`
-    CREATE OR REPLACE FUNCTION notify_task_assignment_removal()
-    RETURNS TRIGGER
-    LANGUAGE plpgsql
-    SECURITY DEFINER
-    SET search_path = public
-    AS $$
-    DECLARE
-        task_title_var TEXT;
-        remover_first_name TEXT;
-        remover_last_name TEXT;
-        remover_full_name TEXT;
-        removed_assignee_first_name TEXT;
-        removed_assignee_last_name TEXT;
-        removed_assignee_full_name TEXT;
-        assignee_record RECORD;
-    BEGIN
-        -- Get task title (bypass RLS)
-        SELECT title INTO task_title_var
-        FROM tasks
-        WHERE id = OLD.task_id;
-
-        -- Get removed assignee name (bypass RLS)
-        SELECT first_name, last_name INTO removed_assignee_first_name, removed_assignee_last_name
-        FROM user_info
-        WHERE id = OLD.assignee_id;
-
-        IF removed_assignee_first_name IS NOT NULL AND removed_assignee_last_name IS NOT NULL THEN
-            removed_assignee_full_name := removed_assignee_first_name || ' ' || removed_assignee_last_name;
-        ELSE
-            removed_assignee_full_name := 'Someone';
-        END IF;
-
-        -- Get remover name from auth context
-        SELECT first_name, last_name INTO remover_first_name, remover_last_name
-        FROM user_info
-        WHERE id = auth.uid();
-
-        IF remover_first_name IS NOT NULL AND remover_last_name IS NOT NULL THEN
-            remover_full_name := remover_first_name || ' ' || remover_last_name;
-        ELSE
-            remover_full_name := 'Someone';
-        END IF;
-
-        -- Create notification for the removed assignee
-        IF OLD.assignee_id != auth.uid() THEN  -- Skip if they removed themselves
-            INSERT INTO notifications (user_id, title, message, type, read, created_at, updated_at)
-            VALUES (
-                OLD.assignee_id,
-                'Task Assignee Removed',
-                remover_full_name || ' removed you from task: "' || task_title_var || '"',
-                'task_updated',
-                false,
-                NOW(),
-                NOW()
-            );
-        END IF;
-
-        -- Create notifications for remaining assignees about the removal
-        FOR assignee_record IN
-            SELECT assignee_id
-            FROM task_assignments
-            WHERE task_id = OLD.task_id
-              AND assignee_id != OLD.assignee_id  -- Skip the removed assignee
-              AND assignee_id != auth.uid()      -- Skip the remover if they're an assignee
-        LOOP
-            INSERT INTO notifications (user_id, title, message, type, read, created_at, updated_at)
-            VALUES (
-                assignee_record.assignee_id,
-                'Task Assignee Removed',
-                remover_full_name || ' removed ' || removed_assignee_full_name || ' from task: "' || task_title_var || '"',
-                'task_updated',
-                false,
-                NOW(),
-                NOW()
-            );
-        END LOOP;
-
-        RETURN OLD;
-    END;
-    $$;
-  `;
-
-  await sql`
-    -- Create the trigger on task_assignments table for removal notifications
-    CREATE TRIGGER trg_notify_task_assignment_removal
-    AFTER DELETE ON task_assignments
-    FOR EACH ROW
-    EXECUTE FUNCTION notify_task_assignment_removal();
-  `;
-
-  // Trigger function for task attachment notifications
-  await sql`
-    CREATE OR REPLACE FUNCTION notify_task_attachment()
-    RETURNS TRIGGER
-    LANGUAGE plpgsql
-    SECURITY DEFINER
-    SET search_path = public
-    AS $$
-    DECLARE
-        task_title_var TEXT;
-        uploader_first_name TEXT;
-        uploader_last_name TEXT;
-        uploader_full_name TEXT;
-        assignee_record RECORD;
-        file_name TEXT;
-    BEGIN
-        -- Extract file name from storage path
-        file_name := substring(NEW.storage_path from length('task-attachments/') + 1);
-
-        -- Get task title (bypass RLS)
-        SELECT title INTO task_title_var
-        FROM tasks
-        WHERE id = NEW.task_id;
-
-        -- Get uploader name (bypass RLS)
-        SELECT first_name, last_name INTO uploader_first_name, uploader_last_name
-        FROM user_info
-        WHERE id = NEW.uploaded_by;
-
-        IF uploader_first_name IS NOT NULL AND uploader_last_name IS NOT NULL THEN
-            uploader_full_name := uploader_first_name || ' ' || uploader_last_name;
-        ELSE
-            uploader_full_name := 'Someone';
-        END IF;
-
-        -- Create notifications for all assignees except the uploader
-        FOR assignee_record IN
-            SELECT assignee_id
-            FROM task_assignments
-            WHERE task_id = NEW.task_id
-        LOOP
-            -- Skip the uploader
-            IF assignee_record.assignee_id != NEW.uploaded_by THEN
-                INSERT INTO notifications (user_id, title, message, type, read, created_at, updated_at)
-                VALUES (
-                    assignee_record.assignee_id,
-                    'Attachment Added',
-                    uploader_full_name || ' attached a file "' || file_name || '" to task: "' || task_title_var || '"',
-                    'task_updated',
-                    false,
-                    NOW(),
-                    NOW()
-                );
-            END IF;
-        END LOOP;
-
-        RETURN NEW;
-    END;
-    $$;
-  `;
-
-  await sql`
-    -- Create the trigger on task_attachments table for notifications
-    CREATE TRIGGER trg_notify_task_attachment
-    AFTER INSERT ON task_attachments
-    FOR EACH ROW
-    EXECUTE FUNCTION notify_task_attachment();
-  `;
-
-  // Trigger function for task attachment removal notifications
-  await sql`
-    CREATE OR REPLACE FUNCTION notify_task_attachment_removal()
-    RETURNS TRIGGER
-    LANGUAGE plpgsql
-    SECURITY DEFINER
-    SET search_path = public
-    AS $$
-    DECLARE
-        task_title_var TEXT;
-        remover_first_name TEXT;
-        remover_last_name TEXT;
-        remover_full_name TEXT;
-        assignee_record RECORD;
-        file_name TEXT;
-    BEGIN
-        -- Extract file name from storage path
-        file_name := substring(OLD.storage_path from length('task-attachments/') + 1);
-
-        -- Get task title (bypass RLS)
-        SELECT title INTO task_title_var
-        FROM tasks
-        WHERE id = OLD.task_id;
-
-        -- Get remover name from auth context
-        SELECT first_name, last_name INTO remover_first_name, remover_last_name
-        FROM user_info
-        WHERE id = auth.uid();
-
-        IF remover_first_name IS NOT NULL AND remover_last_name IS NOT NULL THEN
-            remover_full_name := remover_first_name || ' ' || remover_last_name;
-        ELSE
-            remover_full_name := 'Someone';
-        END IF;
-
-        -- Create notifications for all assignees except the remover
-        FOR assignee_record IN
-            SELECT assignee_id
-            FROM task_assignments
-            WHERE task_id = OLD.task_id
-        LOOP
-            -- Skip the remover
-            IF assignee_record.assignee_id != auth.uid() THEN
-                INSERT INTO notifications (user_id, title, message, type, read, created_at, updated_at)
-                VALUES (
-                    assignee_record.assignee_id,
-                    'Attachment Removed',
-                    remover_full_name || ' removed a file "' || file_name || '" from task: "' || task_title_var || '"',
-                    'task_updated',
-                    false,
-                    NOW(),
-                    NOW()
-                );
-            END IF;
-        END LOOP;
-
-        RETURN OLD;
-    END;
-    $$;
-  `;
-
-  await sql`
-    -- Create the trigger on task_attachments table for removal notifications
-    CREATE TRIGGER trg_notify_task_attachment_removal
-    AFTER DELETE ON task_attachments
-    FOR EACH ROW
-    EXECUTE FUNCTION notify_task_attachment_removal();
-  `;
-
-  // Trigger function for task tag addition notifications
-  await sql`
-    CREATE OR REPLACE FUNCTION notify_task_tag_add()
-    RETURNS TRIGGER
-    LANGUAGE plpgsql
-    SECURITY DEFINER
-    SET search_path = public
-    AS $$
-    DECLARE
-        task_title_var TEXT;
-        adder_first_name TEXT;
-        adder_last_name TEXT;
-        adder_full_name TEXT;
-        tag_name_var TEXT;
-        assignee_record RECORD;
-    BEGIN
-        -- Get task title (bypass RLS)
-        SELECT title INTO task_title_var
-        FROM tasks
-        WHERE id = NEW.task_id;
-
-        -- Get tag name (bypass RLS)
-        SELECT name INTO tag_name_var
-        FROM tags
-        WHERE id = NEW.tag_id;
-
-        -- Get adder name from auth context
-        SELECT first_name, last_name INTO adder_first_name, adder_last_name
-        FROM user_info
-        WHERE id = auth.uid();
-
-        IF adder_first_name IS NOT NULL AND adder_last_name IS NOT NULL THEN
-            adder_full_name := adder_first_name || ' ' || adder_last_name;
-        ELSE
-            adder_full_name := 'Someone';
-        END IF;
-
-        -- Create notifications for all assignees except the adder
-        FOR assignee_record IN
-            SELECT assignee_id
-            FROM task_assignments
-            WHERE task_id = NEW.task_id
-        LOOP
-            -- Skip the adder
-            IF assignee_record.assignee_id != auth.uid() THEN
-                INSERT INTO notifications (user_id, title, message, type, read, created_at, updated_at)
-                VALUES (
-                    assignee_record.assignee_id,
-                    'Tag Added',
-                    adder_full_name || ' added tag "' || tag_name_var || '" to task: "' || task_title_var || '"',
-                    'task_updated',
-                    false,
-                    NOW(),
-                    NOW()
-                );
-            END IF;
-        END LOOP;
-
-        RETURN NEW;
-    END;
-    $$;
-  `;
-
-  await sql`
-    -- Create the trigger on task_tags table for tag addition notifications
-    CREATE TRIGGER trg_notify_task_tag_add
-    AFTER INSERT ON task_tags
-    FOR EACH ROW
-    EXECUTE FUNCTION notify_task_tag_add();
-  `;
-
-  // Trigger function for task tag removal notifications
-  await sql`
-    CREATE OR REPLACE FUNCTION notify_task_tag_remove()
-    RETURNS TRIGGER
-    LANGUAGE plpgsql
-    SECURITY DEFINER
-    SET search_path = public
-    AS $$
-    DECLARE
-        task_title_var TEXT;
-        remover_first_name TEXT;
-        remover_last_name TEXT;
-        remover_full_name TEXT;
-        tag_name_var TEXT;
-        assignee_record RECORD;
-    BEGIN
-        -- Get task title (bypass RLS)
-        SELECT title INTO task_title_var
-        FROM tasks
-        WHERE id = OLD.task_id;
-
-        -- Get tag name (bypass RLS)
-        SELECT name INTO tag_name_var
-        FROM tags
-        WHERE id = OLD.tag_id;
-
-        -- Get remover name from auth context
-        SELECT first_name, last_name INTO remover_first_name, remover_last_name
-        FROM user_info
-        WHERE id = auth.uid();
-
-        IF remover_first_name IS NOT NULL AND remover_last_name IS NOT NULL THEN
-            remover_full_name := remover_first_name || ' ' || remover_last_name;
-        ELSE
-            remover_full_name := 'Someone';
-        END IF;
-
-        -- Create notifications for all assignees except the remover
-        FOR assignee_record IN
-            SELECT assignee_id
-            FROM task_assignments
-            WHERE task_id = OLD.task_id
-        LOOP
-            -- Skip the remover
-            IF assignee_record.assignee_id != auth.uid() THEN
-                INSERT INTO notifications (user_id, title, message, type, read, created_at, updated_at)
-                VALUES (
-                    assignee_record.assignee_id,
-                    'Tag Removed',
-                    remover_full_name || ' removed tag "' || tag_name_var || '" from task: "' || task_title_var || '"',
-                    'task_updated',
-                    false,
-                    NOW(),
-                    NOW()
-                );
-            END IF;
-        END LOOP;
-
-        RETURN OLD;
-    END;
-    $$;
-  `;
-
-  await sql`
-    -- Create the trigger on task_tags table for tag removal notifications
-    CREATE TRIGGER trg_notify_task_tag_remove
-    AFTER DELETE ON task_tags
-    FOR EACH ROW
-    EXECUTE FUNCTION notify_task_tag_remove();
-  `;
-
-  // Trigger function for task creation notifications (including subtasks)
-  await sql`
-    CREATE OR REPLACE FUNCTION notify_task_creation()
-    RETURNS TRIGGER
-    LANGUAGE plpgsql
-    SECURITY DEFINER
-    SET search_path = public
-    AS $$
-    DECLARE
-        creator_first_name TEXT;
-        creator_last_name TEXT;
-        creator_full_name TEXT;
-        parent_task_title TEXT;
-        parent_task_exists BOOLEAN;
-        assignee_record RECORD;
-    BEGIN
-        -- Check if we should create notifications:
-        -- 1. On INSERT when parent_task_id is not null
-        -- 2. On UPDATE when parent_task_id changes from null to not null
-        -- 3. On UPDATE when parent_task_id changes from one value to another
-
-        IF TG_OP = 'INSERT' AND NEW.parent_task_id IS NOT NULL THEN
-            -- INSERT case: creating a task as a subtask
-            NULL; -- Continue with notification creation
-        ELSIF TG_OP = 'UPDATE' AND OLD.parent_task_id IS NULL AND NEW.parent_task_id IS NOT NULL THEN
-            -- UPDATE case: task becomes a subtask
-            NULL; -- Continue with notification creation
-        ELSIF TG_OP = 'UPDATE' AND OLD.parent_task_id IS NOT NULL AND NEW.parent_task_id IS NOT NULL AND OLD.parent_task_id != NEW.parent_task_id THEN
-            -- UPDATE case: parent task changes
-            NULL; -- Continue with notification creation
-        ELSE
-            -- No notification needed
-            RETURN NEW;
-        END IF;
-
-        -- Get creator name (bypass RLS)
-        SELECT first_name, last_name INTO creator_first_name, creator_last_name
-        FROM user_info
-        WHERE id = NEW.creator_id;
-
-        IF creator_first_name IS NOT NULL AND creator_last_name IS NOT NULL THEN
-            creator_full_name := creator_first_name || ' ' || creator_last_name;
-        ELSE
-            creator_full_name := 'Someone';
-        END IF;
-
-        -- Check if this is a subtask (has parent_task_id) AND parent task exists
-        IF NEW.parent_task_id IS NOT NULL THEN
-            -- Verify that the parent task actually exists
-            SELECT EXISTS(SELECT 1 FROM tasks WHERE id = NEW.parent_task_id) INTO parent_task_exists;
-
-            -- Only create notifications if parent task exists
-            IF parent_task_exists = TRUE THEN
-                -- Get parent task title (bypass RLS)
-                SELECT title INTO parent_task_title
-                FROM tasks
-                WHERE id = NEW.parent_task_id;
-
-                -- Create notifications for all assignees of the parent task
-                FOR assignee_record IN
-                    SELECT assignee_id
-                    FROM task_assignments
-                    WHERE task_id = NEW.parent_task_id
-                LOOP
-                    -- Skip the creator if they're also an assignee on the parent task
-                    IF assignee_record.assignee_id != NEW.creator_id THEN
-                        INSERT INTO notifications (user_id, title, message, type, read, created_at, updated_at)
-                        VALUES (
-                            assignee_record.assignee_id,
-                            'Sub-task Created',
-                            'Sub-task "' || NEW.title || '" was added to "' || COALESCE(parent_task_title, 'Unknown Parent') || '"',
-                            'task_updated',
-                            false,
-                            NOW(),
-                            NOW()
-                        );
-                    END IF;
-                END LOOP;
-            END IF;
-        END IF;
-
-        RETURN NEW;
-    END;
-    $$;
-  `;
-
-  // Create the trigger on tasks table for creation notifications (including subtasks)
-  await sql`DROP TRIGGER IF EXISTS trg_notify_task_creation ON tasks`;
-
-  await sql`
-    CREATE TRIGGER trg_notify_task_creation
-    AFTER INSERT OR UPDATE ON tasks
-    FOR EACH ROW
-    EXECUTE FUNCTION notify_task_creation();
-  `;
-
-  // Drop existing function first, then recreate it
-  await sql`DROP FUNCTION IF EXISTS create_task_with_assignment CASCADE`;
-
-  // Create RPC function to create task with assignment in a single transaction
-  await sql`
-    CREATE FUNCTION create_task_with_assignment(
-      p_task_title TEXT,
-      p_creator_id UUID,
-      p_project_id BIGINT,
-      p_assignee_id UUID,
-      p_task_description TEXT DEFAULT NULL,
-      p_priority_bucket INT DEFAULT 5,
-      p_assignor_id UUID DEFAULT NULL
-    )
-    RETURNS TABLE(task_id BIGINT, task_title TEXT)
-    LANGUAGE plpgsql
-    SECURITY DEFINER
-    SET search_path = public
-    AS $$
-    DECLARE
-      new_task_id BIGINT;
-      task_title_param TEXT := p_task_title;
-      task_description_param TEXT := p_task_description;
-      creator_id_param UUID := p_creator_id;
-      project_id_param BIGINT := p_project_id;
-      priority_bucket_param INT := p_priority_bucket;
-      assignee_id_param UUID := p_assignee_id;
-      assignor_id_param UUID := COALESCE(p_assignor_id, p_assignee_id);
-    BEGIN
-      -- Insert the task first
-      INSERT INTO tasks (title, description, creator_id, project_id, priority_bucket, status)
-      VALUES (task_title_param, task_description_param, creator_id_param, project_id_param, priority_bucket_param, 'To Do')
-      RETURNING tasks.id INTO new_task_id;
-
-      -- Then insert the assignment
-      INSERT INTO task_assignments (task_id, assignee_id, assignor_id)
-      VALUES (new_task_id, assignee_id_param, assignor_id_param);
-
-      -- Return the created task info
-      RETURN QUERY SELECT new_task_id as task_id, task_title_param as task_title;
-    END;
-    $$;
+/* --------------------- TASK_STATUS_HISTORY --------------------- */
+async function seedTaskStatusHistory(sql: postgres.Sql) {
+  // Completed tasks were in progress from creation until completion; every task
+  // is currently in its seeded status
+  await sql`
+    INSERT INTO task_status_history (task_id, status, previous_status, entered_at, left_at)
+    SELECT id, 'In Progress', NULL, started_at, completed_at
+    FROM tasks
+    WHERE status = 'Completed' AND started_at < completed_at
+    UNION ALL
+    SELECT
+      id,
+      status,
+      CASE WHEN status = 'Completed' AND started_at < completed_at THEN 'In Progress' END,
+      COALESCE(completed_at, created_at),
+      NULL
+    FROM tasks
+    WHERE status IS NOT NULL
   `;
 }
 
@@ -2385,13 +349,32 @@ export async function GET() {
   const sql = postgres(process.env.POSTGRES_URL!, { ssl: 'require' });
 
   try {
-    await sql`CREATE EXTENSION IF NOT EXISTS "uuid-ossp"`;
-    await teardownSchema(sql);
+    const [{ migrated }] = await sql<{ migrated: boolean }[]>`
+      SELECT to_regclass('public.schema_migrations') IS NOT NULL AS migrated
+    `;
+    if (!migrated) {
+      await sql.end();
+      return Response.json(
+        { error: 'The database schema is missing. Run `pnpm db:migrate` before seeding.' },
+        { status: 409 }
+      );
+    }
+
+    const [{ has_data }] = await sql<{ has_data: boolean }[]>`
+      SELECT EXISTS (SELECT 1 FROM user_info) OR EXISTS (SELECT 1 FROM tasks) AS has_data
+    `;
+    if (has_data) {
+      await sql.end();
+      return Response.json({ message: 'Database already contains data; skipped seeding.' });
+    }
 
     await sql.begin(async (sql) => {
+      // Insert the sample rows as they are: the notification and bookkeeping
+      // triggers would otherwise add rows the sample data already contains
+      await sql`SET LOCAL session_replication_role = replica`;
+
       // Seed base tables
-      const [rolesPromise, tagsPromise, departmentsPromise, projectsPromise] = [
-        seedRoles(sql),
+      const [tagsPromise, departmentsPromise, projectsPromise] = [
         seedTags(sql),
         seedDepartments(sql),
         seedProjects(sql),
@@ -2400,7 +383,6 @@ export async function GET() {
       const nameToDeptId = await departmentsPromise;
       const { projKeyToId } = await projectsPromise;
 
-      await rolesPromise;
       await tagsPromise;
 
       // Seed user info (depends on departments)
@@ -2420,15 +402,11 @@ export async function GET() {
         seedTaskTags(sql),
         seedTaskAssignments(sql),
         seedTaskComments(sql),
+        seedTimeEntries(sql),
+        seedTaskStatusHistory(sql),
         seedTaskAttachments(sql),
         seedNotifications(sql),
       ]);
-
-      // Reset storage bucket for attachments
-      await resetTaskAttachmentsBucket(sql);
-
-      await enableRLS(sql);
-      await createTriggers(sql);
     });
 
     await sql.end();
@@ -2438,4 +416,4 @@ export async function GET() {
     await sql.end();
     return Response.json({ error: String(error) }, { status: 500 });
   }
-}
\ No newline at end of file
+}
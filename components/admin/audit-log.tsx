@@ -0,0 +1,95 @@
+import { format } from 'date-fns';
+import type { AdminDepartment, AdminUser, AuditAction, AuditLogEntry } from '@/lib/types/admin';
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'department.create': 'Created department',
+  'department.update': 'Updated department',
+  'department.delete': 'Deleted department',
+  'user.create': 'Created user',
+  'user.deactivate': 'Deactivated user',
+  'user.reactivate': 'Reactivated user',
+  'user.move': 'Moved user',
+  'role.grant': 'Granted role',
+  'role.revoke': 'Revoked role',
+};
+
+interface AuditLogProps {
+  entries: AuditLogEntry[];
+  users: AdminUser[];
+  departments: AdminDepartment[];
+}
+
+export function AuditLog({ entries, users, departments }: AuditLogProps) {
+  const userNames = new Map(users.map((u) => [u.id, `${u.first_name} ${u.last_name}`]));
+  const departmentNames = new Map(departments.map((d) => [String(d.id), d.name]));
+
+  // Deleted departments are only known by the name recorded in the entry
+  const targetName = (entry: AuditLogEntry) =>
+    entry.target_type === 'user'
+      ? userNames.get(entry.target_id) ?? (entry.details.email as string | undefined) ?? entry.target_id
+      : departmentNames.get(entry.target_id) ?? (entry.details.name as string | undefined) ?? `#${entry.target_id}`;
+
+  const describe = (entry: AuditLogEntry): string => {
+    const details = entry.details;
+    switch (entry.action) {
+      case 'role.grant':
+      case 'role.revoke':
+        return String(details.role);
+      case 'user.move':
+        return `${departmentNames.get(String(details.from_department_id)) ?? 'Unknown'} → ${
+          departmentNames.get(String(details.to_department_id)) ?? 'Unknown'
+        }`;
+      case 'department.update': {
+        const before = details.before as { name: string; parent_department_id: number | null };
+        const after = details.after as { name: string; parent_department_id: number | null };
+        const changes: string[] = [];
+        if (before.name !== after.name) changes.push(`renamed from ${before.name}`);
+        if (before.parent_department_id !== after.parent_department_id) {
+          changes.push(
+            `moved under ${
+              after.parent_department_id === null
+                ? 'top level'
+                : departmentNames.get(String(after.parent_department_id)) ?? 'Unknown'
+            }`
+          );
+        }
+        return changes.join(', ');
+      }
+      default:
+        return '';
+    }
+  };
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes recorded yet.</p>;
+  }
+
+  return (
+    <div className="border rounded-md overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead className="bg-muted text-muted-foreground">
+          <tr>
+            <th className="text-left font-semibold px-3 py-2">When</th>
+            <th className="text-left font-semibold px-3 py-2">Admin</th>
+            <th className="text-left font-semibold px-3 py-2">Change</th>
+            <th className="text-left font-semibold px-3 py-2">Target</th>
+            <th className="text-left font-semibold px-3 py-2">Details</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((entry) => (
+            <tr key={entry.id} className="border-t" data-testid={`audit-entry-${entry.id}`}>
+              <td className="px-3 py-2 whitespace-nowrap text-muted-foreground">
+                {format(new Date(entry.created_at), 'MMM d, yyyy HH:mm')}
+              </td>
+              <td className="px-3 py-2">{entry.actor_name}</td>
+              <td className="px-3 py-2">{ACTION_LABELS[entry.action] ?? entry.action}</td>
+              <td className="px-3 py-2">{targetName(entry)}</td>
+              <td className="px-3 py-2 text-muted-foreground">{describe(entry)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
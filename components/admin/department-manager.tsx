@@ -0,0 +1,237 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { flattenDepartmentTree, wouldCreateCycle } from '@/lib/utils/department-tree';
+import type { AdminDepartment } from '@/lib/types/admin';
+
+// Select items cannot have an empty value
+const NO_PARENT = 'none';
+
+interface DepartmentManagerProps {
+  departments: AdminDepartment[];
+}
+
+export function DepartmentManager({ departments }: DepartmentManagerProps) {
+  const router = useRouter();
+  const [name, setName] = useState('');
+  const [parent, setParent] = useState(NO_PARENT);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editName, setEditName] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const tree = flattenDepartmentTree(departments);
+
+  const send = async (key: string, url: string, init: RequestInit, successMessage: string): Promise<boolean> => {
+    setBusy(key);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update department');
+      }
+
+      toast.success(successMessage);
+      router.refresh();
+      return true;
+    } catch (error) {
+      toast.error('Error', {
+        description: error instanceof Error ? error.message : 'Failed to update department',
+      });
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    const created = await send(
+      'create',
+      '/api/admin/departments',
+      {
+        method: 'POST',
+        body: JSON.stringify({ name, parentDepartmentId: parent === NO_PARENT ? null : Number(parent) }),
+      },
+      'Department created'
+    );
+    if (created) {
+      setName('');
+      setParent(NO_PARENT);
+    }
+  };
+
+  const handleRename = async (department: AdminDepartment) => {
+    const renamed = await send(
+      `rename-${department.id}`,
+      `/api/admin/departments/${department.id}`,
+      { method: 'PATCH', body: JSON.stringify({ name: editName }) },
+      'Department renamed'
+    );
+    if (renamed) setEditingId(null);
+  };
+
+  const handleMove = (department: AdminDepartment, value: string) =>
+    send(
+      `move-${department.id}`,
+      `/api/admin/departments/${department.id}`,
+      { method: 'PATCH', body: JSON.stringify({ parentDepartmentId: value === NO_PARENT ? null : Number(value) }) },
+      'Department moved'
+    );
+
+  const handleDelete = (department: AdminDepartment) =>
+    send(`delete-${department.id}`, `/api/admin/departments/${department.id}`, { method: 'DELETE' }, 'Department deleted');
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-2">
+        <div className="space-y-1 w-64">
+          <Label htmlFor="new-department-name">New department</Label>
+          <Input
+            id="new-department-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Department name"
+            maxLength={255}
+          />
+        </div>
+        <div className="space-y-1 w-64">
+          <Label>Parent</Label>
+          <Select value={parent} onValueChange={setParent}>
+            <SelectTrigger className="w-full" aria-label="Parent department">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+              {tree.map((d) => (
+                <SelectItem key={d.id} value={String(d.id)}>
+                  {d.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button type="submit" disabled={busy !== null || !name.trim()}>
+          {busy === 'create' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+          Create
+        </Button>
+      </form>
+
+      {tree.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No departments yet.</p>
+      ) : (
+        <div className="border rounded-md overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-muted text-muted-foreground">
+              <tr>
+                <th className="text-left font-semibold px-3 py-2">Department</th>
+                <th className="text-left font-semibold px-3 py-2">Parent</th>
+                <th className="text-right font-semibold px-3 py-2">Users</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {tree.map((department) => {
+                // A department cannot move under itself or its sub-departments
+                const parentOptions = tree.filter((d) => !wouldCreateCycle(departments, department.id, d.id));
+                const canDelete =
+                  department.member_count === 0 && !departments.some((d) => d.parent_department_id === department.id);
+
+                return (
+                  <tr key={department.id} className="border-t" data-testid={`department-row-${department.id}`}>
+                    <td className="px-3 py-2" style={{ paddingLeft: `${0.75 + department.depth * 1.25}rem` }}>
+                      {editingId === department.id ? (
+                        <form
+                          className="flex items-center gap-2"
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            handleRename(department);
+                          }}
+                        >
+                          <Input
+                            aria-label={`Rename ${department.name}`}
+                            value={editName}
+                            onChange={(e) => setEditName(e.target.value)}
+                            maxLength={255}
+                            className="h-8"
+                          />
+                          <Button type="submit" size="sm" disabled={busy !== null || !editName.trim()}>
+                            Save
+                          </Button>
+                          <Button type="button" size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                            Cancel
+                          </Button>
+                        </form>
+                      ) : (
+                        <span className="font-medium">{department.name}</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">
+                      <Select
+                        value={department.parent_department_id === null ? NO_PARENT : String(department.parent_department_id)}
+                        onValueChange={(value) => handleMove(department, value)}
+                        disabled={busy !== null}
+                      >
+                        <SelectTrigger className="h-8 w-48" aria-label={`Parent of ${department.name}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+                          {parentOptions.map((d) => (
+                            <SelectItem key={d.id} value={String(d.id)}>
+                              {d.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="px-3 py-2 text-right">{department.member_count}</td>
+                    <td className="px-3 py-2">
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          type="button"
+                          size="icon"
+                          variant="ghost"
+                          aria-label={`Rename ${department.name}`}
+                          onClick={() => {
+                            setEditingId(department.id);
+                            setEditName(department.name);
+                          }}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          type="button"
+                          size="icon"
+                          variant="ghost"
+                          aria-label={`Delete ${department.name}`}
+                          title={canDelete ? undefined : 'Only departments without users or sub-departments can be deleted'}
+                          disabled={busy !== null || !canDelete}
+                          onClick={() => handleDelete(department)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
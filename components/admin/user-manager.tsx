@@ -0,0 +1,276 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2, UserPlus } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { USER_ROLES, type AdminDepartment, type AdminUser, type UserRole } from '@/lib/types/admin';
+
+interface UserManagerProps {
+  users: AdminUser[];
+  departments: AdminDepartment[];
+  currentUserId: string;
+}
+
+const EMPTY_FORM = { email: '', firstName: '', lastName: '', password: '', departmentId: '' };
+
+export function UserManager({ users, departments, currentUserId }: UserManagerProps) {
+  const router = useRouter();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [showInactive, setShowInactive] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const departmentNames = new Map(departments.map((d) => [d.id, d.name]));
+  const sortedDepartments = [...departments].sort((a, b) => a.name.localeCompare(b.name));
+  const visible = users.filter((u) => showInactive || u.is_active);
+  const inactiveCount = users.filter((u) => !u.is_active).length;
+  const canCreate = form.email.trim() && form.firstName.trim() && form.lastName.trim() && form.departmentId;
+
+  const send = async (key: string, url: string, init: RequestInit, successMessage: string): Promise<boolean> => {
+    setBusy(key);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update user');
+      }
+
+      toast.success(successMessage);
+      router.refresh();
+      return true;
+    } catch (error) {
+      toast.error('Error', {
+        description: error instanceof Error ? error.message : 'Failed to update user',
+      });
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canCreate) return;
+
+    const created = await send(
+      'create',
+      '/api/admin/users',
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          email: form.email,
+          firstName: form.firstName,
+          lastName: form.lastName,
+          password: form.password || undefined,
+          departmentId: Number(form.departmentId),
+        }),
+      },
+      form.password ? 'User created' : 'Invitation sent'
+    );
+    if (created) setForm(EMPTY_FORM);
+  };
+
+  const toggleRole = (user: AdminUser, role: UserRole, checked: boolean) =>
+    checked
+      ? send(
+          `role-${user.id}`,
+          `/api/admin/users/${user.id}/roles`,
+          { method: 'POST', body: JSON.stringify({ role }) },
+          `Granted ${role}`
+        )
+      : send(
+          `role-${user.id}`,
+          `/api/admin/users/${user.id}/roles?role=${role}`,
+          { method: 'DELETE' },
+          `Revoked ${role}`
+        );
+
+  const updateUser = (user: AdminUser, body: Record<string, unknown>, successMessage: string) =>
+    send(`user-${user.id}`, `/api/admin/users/${user.id}`, { method: 'PATCH', body: JSON.stringify(body) }, successMessage);
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleCreate} className="grid gap-3 sm:grid-cols-3 items-end">
+        <div className="space-y-1">
+          <Label htmlFor="new-user-email">Email</Label>
+          <Input
+            id="new-user-email"
+            type="email"
+            value={form.email}
+            onChange={(e) => setForm({ ...form, email: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="new-user-first-name">First name</Label>
+          <Input
+            id="new-user-first-name"
+            value={form.firstName}
+            onChange={(e) => setForm({ ...form, firstName: e.target.value })}
+            maxLength={255}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="new-user-last-name">Last name</Label>
+          <Input
+            id="new-user-last-name"
+            value={form.lastName}
+            onChange={(e) => setForm({ ...form, lastName: e.target.value })}
+            maxLength={255}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Department</Label>
+          <Select value={form.departmentId} onValueChange={(departmentId) => setForm({ ...form, departmentId })}>
+            <SelectTrigger className="w-full" aria-label="Department">
+              <SelectValue placeholder="Select department" />
+            </SelectTrigger>
+            <SelectContent>
+              {sortedDepartments.map((d) => (
+                <SelectItem key={d.id} value={String(d.id)}>
+                  {d.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="new-user-password">Password</Label>
+          <Input
+            id="new-user-password"
+            type="password"
+            value={form.password}
+            onChange={(e) => setForm({ ...form, password: e.target.value })}
+            placeholder="Leave empty to send an invite"
+            autoComplete="new-password"
+          />
+        </div>
+        <Button type="submit" disabled={busy !== null || !canCreate}>
+          {busy === 'create' ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <UserPlus className="mr-2 h-4 w-4" />
+          )}
+          Create User
+        </Button>
+      </form>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="show-inactive-users"
+          checked={showInactive}
+          onCheckedChange={(checked) => setShowInactive(checked === true)}
+        />
+        <Label htmlFor="show-inactive-users" className="text-sm font-normal">
+          Show deactivated ({inactiveCount})
+        </Label>
+      </div>
+
+      <div className="border rounded-md overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-muted text-muted-foreground">
+            <tr>
+              <th className="text-left font-semibold px-3 py-2">User</th>
+              <th className="text-left font-semibold px-3 py-2">Department</th>
+              <th className="text-left font-semibold px-3 py-2">Roles</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((user) => {
+              const isSelf = user.id === currentUserId;
+              const fullName = `${user.first_name} ${user.last_name}`;
+
+              return (
+                <tr key={user.id} className="border-t" data-testid={`user-row-${user.id}`}>
+                  <td className="px-3 py-2">
+                    <div className="font-medium">
+                      {fullName}
+                      {!user.is_active && (
+                        <Badge variant="secondary" className="ml-2">
+                          Deactivated
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground">{user.email ?? '—'}</div>
+                  </td>
+                  <td className="px-3 py-2">
+                    <Select
+                      value={String(user.department_id)}
+                      onValueChange={(value) =>
+                        updateUser(
+                          user,
+                          { departmentId: Number(value) },
+                          `Moved to ${departmentNames.get(Number(value)) ?? 'department'}`
+                        )
+                      }
+                      disabled={busy !== null}
+                    >
+                      <SelectTrigger className="h-8 w-48" aria-label={`Department of ${fullName}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {sortedDepartments.map((d) => (
+                          <SelectItem key={d.id} value={String(d.id)}>
+                            {d.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </td>
+                  <td className="px-3 py-2">
+                    <div className="flex gap-3">
+                      {USER_ROLES.map((role) => (
+                        <div key={role} className="flex items-center gap-1">
+                          <Checkbox
+                            id={`role-${user.id}-${role}`}
+                            checked={user.roles.includes(role)}
+                            // Admins cannot revoke their own admin role
+                            disabled={busy !== null || (isSelf && role === 'admin')}
+                            onCheckedChange={(checked) => toggleRole(user, role, checked === true)}
+                            aria-label={`${role} role for ${fullName}`}
+                          />
+                          <Label htmlFor={`role-${user.id}-${role}`} className="text-xs font-normal capitalize">
+                            {role}
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {!isSelf && (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant={user.is_active ? 'outline' : 'secondary'}
+                        disabled={busy !== null}
+                        onClick={() =>
+                          updateUser(
+                            user,
+                            { isActive: !user.is_active },
+                            user.is_active ? 'User deactivated' : 'User reactivated'
+                          )
+                        }
+                      >
+                        {user.is_active ? 'Deactivate' : 'Reactivate'}
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { format, eachDayOfInterval, isToday } from 'date-fns';
+import { Repeat } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import {
+  getCalendarRange,
+  getTasksForDay,
+  getCalendarEntryKey,
+  type CalendarTask,
+} from '@/lib/services/calendar';
+
+interface AgendaViewProps {
+  tasks: CalendarTask[];
+  date: Date;
+  onTaskClick: (task: CalendarTask) => void;
+}
+
+/**
+ * Agenda view listing the month's tasks grouped by day.
+ * Only days that have at least one task are shown.
+ */
+export default function AgendaView({ tasks, date, onTaskClick }: AgendaViewProps) {
+  const { start, end } = getCalendarRange('agenda', date);
+
+  const days = eachDayOfInterval({ start, end })
+    .map((day) => ({ day, tasks: getTasksForDay(tasks, day) }))
+    .filter(({ tasks: dayTasks }) => dayTasks.length > 0);
+
+  if (days.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center text-muted-foreground">
+        <p className="text-sm sm:text-base">No tasks scheduled for {format(date, 'MMMM yyyy')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-y-auto bg-background divide-y">
+      {days.map(({ day, tasks: dayTasks }) => (
+        <section key={day.toString()} aria-label={format(day, 'EEEE, MMMM d')} className="flex gap-4 p-3 sm:p-4">
+          <div className={`w-14 sm:w-20 flex-shrink-0 text-center ${isToday(day) ? 'text-primary' : ''}`}>
+            <div className="text-[10px] sm:text-xs uppercase text-muted-foreground">{format(day, 'EEE')}</div>
+            <div className="text-xl sm:text-2xl font-semibold">{format(day, 'd')}</div>
+          </div>
+
+          <ul className="flex-1 space-y-2">
+            {dayTasks.map((task) => (
+              <li key={getCalendarEntryKey(task)}>
+                <button
+                  onClick={() => onTaskClick(task)}
+                  className={`w-full text-left rounded-md border px-3 py-2 hover:bg-accent transition-colors ${
+                    task.isProjected ? 'border-dashed opacity-60' : ''
+                  }`}
+                  aria-label={`Task: ${task.title}${task.isProjected ? ' (upcoming occurrence)' : ''}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="flex items-center gap-1 text-sm font-medium truncate">
+                      {task.recurrence_interval > 0 && <Repeat className="h-3 w-3 flex-shrink-0" />}
+                      {task.title}
+                    </span>
+                    <Badge variant={task.isOverdue ? 'destructive' : 'outline'} className="text-xs flex-shrink-0">
+                      {task.isProjected ? 'Upcoming' : task.status}
+                    </Badge>
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {task.project?.name}
+                    {task.assignees.length > 0 &&
+                      ` · ${task.assignees
+                        .map((a) => `${a.user_info.first_name} ${a.user_info.last_name}`)
+                        .join(', ')}`}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      ))}
+    </div>
+  );
+}
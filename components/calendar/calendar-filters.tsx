@@ -1,6 +1,6 @@
 'use client';
 
-import { Filter } from 'lucide-react';
+import { Filter, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -12,33 +12,57 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
+import type { Task } from '@/lib/services/tasks';
+import { DEFAULT_CALENDAR_FILTERS, type CalendarFilterState } from '@/lib/services/calendar';
 
 interface CalendarFiltersProps {
-  filters: {
-    status: string[];
-    showCompleted: boolean;
-  };
-  onFiltersChange: (filters: any) => void;
+  filters: CalendarFilterState;
+  onFiltersChange: (filters: CalendarFilterState) => void;
+  tasks: Task[];
 }
 
+type MultiFilterKey = 'status' | 'projects' | 'tags' | 'assignees';
+
 /**
  * Filter controls for calendar view.
- * Allows filtering by status and toggling completed task visibility.
+ * Allows filtering by status, project, tag and assignee, and toggling completed task visibility.
  */
-export default function CalendarFilters({ filters, onFiltersChange }: CalendarFiltersProps) {
+export default function CalendarFilters({ filters, onFiltersChange, tasks }: CalendarFiltersProps) {
   const statuses = ['To Do', 'In Progress', 'Completed', 'Blocked'];
 
-  const toggleStatus = (status: string) => {
-    const newStatuses = filters.status.includes(status)
-      ? filters.status.filter(s => s !== status)
-      : [...filters.status, status];
-    onFiltersChange({ ...filters, status: newStatuses });
+  // Options are derived from the loaded tasks so only relevant values are offered
+  const projects = Array.from(
+    new Map(tasks.filter((t) => t.project).map((t) => [t.project.id, t.project.name])).entries()
+  ).sort((a, b) => a[1].localeCompare(b[1]));
+  const tags = Array.from(new Set(tasks.flatMap((t) => t.tags))).sort();
+  const assignees = Array.from(
+    new Map(
+      tasks.flatMap((t) =>
+        t.assignees.map((a) => [
+          a.assignee_id,
+          `${a.user_info.first_name} ${a.user_info.last_name}`,
+        ] as const)
+      )
+    ).entries()
+  ).sort((a, b) => a[1].localeCompare(b[1]));
+
+  const toggle = (key: MultiFilterKey, value: string | number) => {
+    const current = filters[key] as (string | number)[];
+    const next = current.includes(value)
+      ? current.filter((v) => v !== value)
+      : [...current, value];
+    onFiltersChange({ ...filters, [key]: next });
   };
 
   const toggleShowCompleted = () => {
     onFiltersChange({ ...filters, showCompleted: !filters.showCompleted });
   };
 
+  const activeCount =
+    filters.status.length + filters.projects.length + filters.tags.length + filters.assignees.length;
+
+  const itemClassName = 'py-2 sm:py-1 text-xs sm:text-sm cursor-pointer';
+
   return (
     <div className="flex flex-col sm:flex-row items-start sm:items-center gap-2 sm:gap-4 p-2 sm:p-4 border-b bg-background">
       <DropdownMenu>
@@ -46,9 +70,9 @@ export default function CalendarFilters({ filters, onFiltersChange }: CalendarFi
           <Button variant="outline" size="sm" className="h-8 sm:h-9 px-3 sm:px-4 text-xs sm:text-sm">
             <Filter className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
             Filters
-            {filters.status.length > 0 && (
+            {activeCount > 0 && (
               <span className="ml-1 sm:ml-2 rounded-full bg-primary text-primary-foreground px-1.5 sm:px-2 py-0.5 text-[10px] sm:text-xs">
-                {filters.status.length}
+                {activeCount}
               </span>
             )}
           </Button>
@@ -60,12 +84,63 @@ export default function CalendarFilters({ filters, onFiltersChange }: CalendarFi
             <DropdownMenuCheckboxItem
               key={status}
               checked={filters.status.includes(status)}
-              onCheckedChange={() => toggleStatus(status)}
-              className="py-2 sm:py-1 text-xs sm:text-sm cursor-pointer"
+              onCheckedChange={() => toggle('status', status)}
+              className={itemClassName}
             >
               {status}
             </DropdownMenuCheckboxItem>
           ))}
+
+          {projects.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-sm sm:text-base">Filter by Project</DropdownMenuLabel>
+              {projects.map(([id, name]) => (
+                <DropdownMenuCheckboxItem
+                  key={id}
+                  checked={filters.projects.includes(id)}
+                  onCheckedChange={() => toggle('projects', id)}
+                  className={itemClassName}
+                >
+                  {name}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </>
+          )}
+
+          {tags.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-sm sm:text-base">Filter by Tag</DropdownMenuLabel>
+              {tags.map(tag => (
+                <DropdownMenuCheckboxItem
+                  key={tag}
+                  checked={filters.tags.includes(tag)}
+                  onCheckedChange={() => toggle('tags', tag)}
+                  className={itemClassName}
+                >
+                  {tag}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </>
+          )}
+
+          {assignees.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel className="text-sm sm:text-base">Filter by Assignee</DropdownMenuLabel>
+              {assignees.map(([id, name]) => (
+                <DropdownMenuCheckboxItem
+                  key={id}
+                  checked={filters.assignees.includes(id)}
+                  onCheckedChange={() => toggle('assignees', id)}
+                  className={itemClassName}
+                >
+                  {name}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </>
+          )}
         </DropdownMenuContent>
       </DropdownMenu>
 
@@ -83,6 +158,18 @@ export default function CalendarFilters({ filters, onFiltersChange }: CalendarFi
           Show completed
         </Label>
       </div>
+
+      {activeCount > 0 && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onFiltersChange({ ...DEFAULT_CALENDAR_FILTERS, showCompleted: filters.showCompleted })}
+          className="h-8 sm:h-9 text-xs sm:text-sm gap-1"
+        >
+          <X className="h-3 w-3 sm:h-4 sm:w-4" />
+          Clear filters
+        </Button>
+      )}
     </div>
   );
 }
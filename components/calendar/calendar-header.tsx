@@ -1,22 +1,25 @@
 'use client';
 
+import { useState } from 'react';
 import { format, addDays, addWeeks, addMonths, subDays, subWeeks, subMonths } from 'date-fns';
-import { ChevronLeft, ChevronRight, Download } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Download, Rss } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { downloadICalFile } from '@/lib/utils/ical';
+import CalendarSubscriptions from './calendar-subscriptions';
 import type { Task } from '@/lib/services/tasks';
+import type { CalendarViewMode } from '@/lib/services/calendar';
 
 interface CalendarHeaderProps {
-  view: 'day' | 'week' | 'month';
+  view: CalendarViewMode;
   currentDate: Date;
-  onViewChange: (view: 'day' | 'week' | 'month') => void;
+  onViewChange: (view: CalendarViewMode) => void;
   onDateChange: (date: Date) => void;
   tasks: Task[];
 }
 
 /**
  * Calendar header component with navigation controls and view mode toggles.
- * Handles date navigation (previous/next/today) and switching between day/week/month views.
+ * Handles date navigation (previous/next/today) and switching between day/week/month/agenda views.
  */
 export default function CalendarHeader({
   view,
@@ -25,6 +28,8 @@ export default function CalendarHeader({
   onDateChange,
   tasks,
 }: CalendarHeaderProps) {
+  const [isSubscriptionsOpen, setIsSubscriptionsOpen] = useState(false);
+
   const handlePrevious = () => {
     switch (view) {
       case 'day':
@@ -34,6 +39,7 @@ export default function CalendarHeader({
         onDateChange(subWeeks(currentDate, 1));
         break;
       case 'month':
+      case 'agenda':
         onDateChange(subMonths(currentDate, 1));
         break;
     }
@@ -48,6 +54,7 @@ export default function CalendarHeader({
         onDateChange(addWeeks(currentDate, 1));
         break;
       case 'month':
+      case 'agenda':
         onDateChange(addMonths(currentDate, 1));
         break;
     }
@@ -68,6 +75,7 @@ export default function CalendarHeader({
       case 'week':
         return format(currentDate, 'MMMM yyyy');
       case 'month':
+      case 'agenda':
         return format(currentDate, 'MMMM yyyy');
     }
   };
@@ -117,6 +125,16 @@ export default function CalendarHeader({
           <Download className="h-3 w-3 sm:h-4 sm:w-4" />
           <span className="hidden sm:inline">Export</span>
         </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setIsSubscriptionsOpen(true)}
+          className="text-xs sm:text-sm gap-1 h-8 sm:h-9"
+          aria-label="Subscribe to calendar"
+        >
+          <Rss className="h-3 w-3 sm:h-4 sm:w-4" />
+          <span className="hidden sm:inline">Subscribe</span>
+        </Button>
         
         <div className="flex rounded-md border overflow-hidden">
           <Button
@@ -141,13 +159,28 @@ export default function CalendarHeader({
             variant={view === 'month' ? 'default' : 'ghost'}
             size="sm"
             onClick={() => onViewChange('month')}
-            className="rounded-none text-xs sm:text-sm px-2 sm:px-3 h-8 sm:h-9"
+            className="rounded-none border-r text-xs sm:text-sm px-2 sm:px-3 h-8 sm:h-9"
             aria-label="Month view"
           >
             M
           </Button>
+          <Button
+            variant={view === 'agenda' ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => onViewChange('agenda')}
+            className="rounded-none text-xs sm:text-sm px-2 sm:px-3 h-8 sm:h-9"
+            aria-label="Agenda view"
+          >
+            A
+          </Button>
         </div>
       </div>
+
+      <CalendarSubscriptions
+        isOpen={isSubscriptionsOpen}
+        onClose={() => setIsSubscriptionsOpen(false)}
+        tasks={tasks}
+      />
     </div>
   );
 }
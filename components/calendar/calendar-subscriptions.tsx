@@ -0,0 +1,250 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Check, Copy, Link2, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { Task } from '@/lib/services/tasks';
+import { buildCalendarFeedPath, type CalendarFeedToken } from '@/lib/types/calendar-feeds';
+
+interface CalendarSubscriptionsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tasks: Task[];
+}
+
+const ALL = 'all';
+
+/**
+ * Dialog for managing iCalendar subscription feeds: create a feed URL (optionally
+ * limited to a project or tag), copy it into Outlook/Google Calendar, and revoke old ones.
+ */
+export default function CalendarSubscriptions({ isOpen, onClose, tasks }: CalendarSubscriptionsProps) {
+  const [feeds, setFeeds] = useState<CalendarFeedToken[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('My tasks');
+  const [projectId, setProjectId] = useState(ALL);
+  const [tag, setTag] = useState(ALL);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const projects = Array.from(new Map(tasks.map((t) => [t.project.id, t.project.name])).entries()).sort((a, b) =>
+    a[1].localeCompare(b[1])
+  );
+  const tags = Array.from(new Set(tasks.flatMap((t) => t.tags))).sort();
+
+  const loadFeeds = useCallback(async () => {
+    setError(null);
+    try {
+      const res = await fetch('/api/calendar/feeds');
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to load calendar feeds');
+      }
+      const data = await res.json();
+      setFeeds(data.feeds);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load calendar feeds');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      setFeedUrl(null);
+      loadFeeds();
+    }
+  }, [isOpen, loadFeeds]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const res = await fetch('/api/calendar/feeds', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name }),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to create calendar feed');
+      }
+
+      const data = await res.json();
+      const path = buildCalendarFeedPath(data.token, {
+        projectIds: projectId === ALL ? [] : [Number(projectId)],
+        tags: tag === ALL ? [] : [tag],
+      });
+      setFeedUrl(`${window.location.origin}${path}`);
+      setCopied(false);
+      setFeeds((prev) => [data.feed, ...prev]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create calendar feed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevoke = async (feedId: number) => {
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/calendar/feeds/${feedId}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to revoke calendar feed');
+      }
+
+      const data = await res.json();
+      setFeeds((prev) => prev.map((feed) => (feed.id === feedId ? data.feed : feed)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke calendar feed');
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+    } catch {
+      // Clipboard access can be denied; the URL stays selectable in the input
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Subscribe to calendar</DialogTitle>
+          <DialogDescription>
+            Add a feed URL to Outlook, Google Calendar or Apple Calendar to keep your tasks in sync.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="p-3 bg-red-100 text-red-800 rounded-md text-sm border border-red-200">{error}</div>
+        )}
+
+        {feedUrl ? (
+          <div className="space-y-2">
+            <Label htmlFor="calendar-feed-url">Feed URL</Label>
+            <div className="flex gap-2">
+              <Input id="calendar-feed-url" value={feedUrl} readOnly onFocus={(e) => e.target.select()} />
+              <Button type="button" variant="outline" size="sm" onClick={handleCopy} aria-label="Copy feed URL">
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Copy this URL now. For security it is not shown again; create a new feed if you lose it.
+            </p>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setFeedUrl(null)}>
+              Create another feed
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleCreate} className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="calendar-feed-name">Name</Label>
+              <Input
+                id="calendar-feed-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Project</Label>
+                <Select value={projectId} onValueChange={setProjectId}>
+                  <SelectTrigger aria-label="Project filter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All projects</SelectItem>
+                    {projects.map(([id, projectName]) => (
+                      <SelectItem key={id} value={String(id)}>
+                        {projectName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Tag</Label>
+                <Select value={tag} onValueChange={setTag}>
+                  <SelectTrigger aria-label="Tag filter">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All tags</SelectItem>
+                    {tags.map((t) => (
+                      <SelectItem key={t} value={t}>
+                        {t}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <Button type="submit" size="sm" disabled={isLoading}>
+              <Link2 className="h-4 w-4 mr-2" />
+              {isLoading ? 'Creating...' : 'Create feed URL'}
+            </Button>
+          </form>
+        )}
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-muted-foreground">Your feeds</h3>
+          {feeds.length === 0 ? (
+            <p className="text-sm text-gray-500">No calendar feeds yet.</p>
+          ) : (
+            <ul className="divide-y border rounded-lg">
+              {feeds.map((feed) => (
+                <li key={feed.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{feed.name}</div>
+                    <div className="text-xs text-gray-500">
+                      Created {format(new Date(feed.created_at), 'MMM d, yyyy')}
+                      {feed.last_used_at && ` · Last synced ${format(new Date(feed.last_used_at), 'MMM d, yyyy HH:mm')}`}
+                    </div>
+                  </div>
+                  {feed.revoked_at ? (
+                    <Badge variant="secondary">Revoked</Badge>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleRevoke(feed.id)}
+                      aria-label={`Revoke ${feed.name}`}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,9 +4,10 @@ import { Repeat } from 'lucide-react';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { isPast } from 'date-fns';
 import type { Task } from '@/lib/services/tasks';
+import type { CalendarTask } from '@/lib/services/calendar';
 
 interface CalendarTaskCardProps {
-  task: Task;
+  task: CalendarTask;
   compact?: boolean;
   onClick: () => void;
 }
@@ -20,6 +21,7 @@ const isTaskOverdue = (task: Task): boolean => {
 /**
  * Task card component for display in calendar views.
  * Shows task status with color coding using shadcn/ui badge variants, recurring indicators, and assignee avatars.
+ * Projected occurrences of recurring tasks render as dashed, faded "ghost" cards.
  */
 export default function CalendarTaskCard({
   task,
@@ -47,14 +49,17 @@ export default function CalendarTaskCard({
     }
   };
 
-  const statusClasses = getStatusClasses(task.status, isOverdue);
+  const statusClasses = task.isProjected
+    ? 'text-muted-foreground border-dashed border-border bg-background/60 opacity-70 hover:opacity-100'
+    : getStatusClasses(task.status, isOverdue);
+  const ghostLabel = task.isProjected ? ' (upcoming occurrence)' : '';
 
   if (compact) {
     return (
       <button
         onClick={onClick}
         className={`w-full h-full text-left px-1 py-0.5 sm:px-2 sm:py-1 rounded text-xs border ${statusClasses} transition-opacity flex items-center gap-0.5 sm:gap-1`}
-        aria-label={`Task: ${task.title}`}
+        aria-label={`Task: ${task.title}${ghostLabel}`}
       >
         {task.recurrence_interval > 0 && (
           <Repeat className="h-2.5 w-2.5 sm:h-3 sm:w-3 flex-shrink-0" />
@@ -69,7 +74,7 @@ export default function CalendarTaskCard({
     <button
       onClick={onClick}
       className={`w-full h-full text-left p-2 sm:p-3 rounded-lg border ${statusClasses} transition-opacity flex flex-col overflow-hidden`}
-      aria-label={`Task: ${task.title}, Status: ${task.status}, Priority: ${task.priority}`}
+      aria-label={`Task: ${task.title}${ghostLabel}, Status: ${task.status}, Priority: ${task.priority}`}
     >
       <div className="flex items-start justify-between gap-1 sm:gap-2 mb-1 sm:mb-2">
         <h4 className="font-semibold text-xs sm:text-sm line-clamp-2 flex-1 leading-tight">
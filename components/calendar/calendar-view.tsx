@@ -1,13 +1,25 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { AlertCircle, X } from 'lucide-react';
 import CalendarHeader from './calendar-header';
 import MonthView from './month-view';
 import TaskPreviewModal from './task-preview-modal';
 import CalendarFilters from './calendar-filters';
 import type { Task } from '@/lib/services/tasks';
-
-// Import day and week views dynamically to avoid initial bundle size
+import {
+  DEFAULT_CALENDAR_FILTERS,
+  filterCalendarTasks,
+  getCalendarRange,
+  moveDeadlineToDay,
+  projectRecurringOccurrences,
+  type CalendarFilterState,
+  type CalendarTask,
+  type CalendarViewMode,
+} from '@/lib/services/calendar';
+
+// Import day, week and agenda views dynamically to avoid initial bundle size
 import dynamic from 'next/dynamic';
 
 const DayView = dynamic(() => import('./day-view'), {
@@ -18,6 +30,12 @@ const WeekView = dynamic(() => import('./week-view'), {
   loading: () => <div className="flex items-center justify-center h-full">Loading...</div>,
 });
 
+const AgendaView = dynamic(() => import('./agenda-view'), {
+  loading: () => <div className="flex items-center justify-center h-full">Loading...</div>,
+});
+
+const CALENDAR_VIEWS: CalendarViewMode[] = ['day', 'week', 'month', 'agenda'];
+
 interface CalendarViewProps {
   tasks: Task[];
 }
@@ -25,42 +43,61 @@ interface CalendarViewProps {
 /**
  * Main calendar view container that containing all calendar subviews.
  * Manages state for current date, view mode, filters, and task selection.
+ * Also projects upcoming occurrences of recurring tasks and handles
+ * drag-to-reschedule through the tasks API.
  */
 export default function CalendarView({ tasks }: CalendarViewProps) {
-  const [calendarView, setCalendarView] = useState<'day' | 'week' | 'month'>('month');
+  const router = useRouter();
+  const [calendarView, setCalendarView] = useState<CalendarViewMode>('month');
   const [currentDate, setCurrentDate] = useState(new Date());
-  const [selectedTask, setSelectedTask] = useState<Task | null>(null);
-  const [filters, setFilters] = useState({
-    status: [] as string[],
-    showCompleted: true,
-  });
+  const [selectedTask, setSelectedTask] = useState<CalendarTask | null>(null);
+  const [filters, setFilters] = useState<CalendarFilterState>(DEFAULT_CALENDAR_FILTERS);
+  const [deadlineOverrides, setDeadlineOverrides] = useState<Record<number, string>>({});
+  const [rescheduleError, setRescheduleError] = useState<string | null>(null);
 
-  // Load saved calendar view preference
+  // Load saved calendar view and filter preferences
   useEffect(() => {
-    const savedView = localStorage.getItem('tasks-calendar-view') as 'day' | 'week' | 'month';
-    if (savedView) {
+    const savedView = localStorage.getItem('tasks-calendar-view') as CalendarViewMode;
+    if (savedView && CALENDAR_VIEWS.includes(savedView)) {
       setCalendarView(savedView);
     }
+
+    const savedFilters = localStorage.getItem('tasks-calendar-filters');
+    if (savedFilters) {
+      try {
+        setFilters({ ...DEFAULT_CALENDAR_FILTERS, ...JSON.parse(savedFilters) });
+      } catch {
+        localStorage.removeItem('tasks-calendar-filters');
+      }
+    }
   }, []);
 
-  
   // Save calendar view preference when it changes
   useEffect(() => {
     localStorage.setItem('tasks-calendar-view', calendarView);
   }, [calendarView]);
 
-  // Filter tasks based on current filters
-  const filteredTasks = tasks.filter((task) => {
-    // Filter by completion status
-    if (!filters.showCompleted && task.status === 'Completed') return false;
+  // Save filter preference when it changes
+  useEffect(() => {
+    localStorage.setItem('tasks-calendar-filters', JSON.stringify(filters));
+  }, [filters]);
 
-    // Filter by selected statuses (if any selected)
-    if (filters.status.length > 0 && !filters.status.includes(task.status)) return false;
+  // Apply optimistic reschedules before projecting so ghosts follow the moved task
+  const calendarTasks: Task[] = tasks.map((task) =>
+    deadlineOverrides[task.id] ? { ...task, deadline: deadlineOverrides[task.id] } : task
+  );
 
-    return true;
-  });
+  const { start: rangeStart, end: rangeEnd } = getCalendarRange(calendarView, currentDate);
+  const projectedTasks = projectRecurringOccurrences(calendarTasks, rangeStart, rangeEnd);
 
-  const handleTaskClick = (task: Task) => {
+  // Filter tasks based on current filters
+  const filteredTasks = filterCalendarTasks(calendarTasks, filters);
+  const visibleTasks: CalendarTask[] = [
+    ...filteredTasks,
+    ...filterCalendarTasks(projectedTasks, filters),
+  ];
+
+  const handleTaskClick = (task: CalendarTask) => {
     setSelectedTask(task);
   };
 
@@ -69,6 +106,47 @@ export default function CalendarView({ tasks }: CalendarViewProps) {
     setCalendarView('day');
   };
 
+  const handleTaskDrop = async (task: CalendarTask, day: Date) => {
+    if (task.isProjected) return;
+
+    const previousOverride = deadlineOverrides[task.id];
+    const newDeadline = moveDeadlineToDay(task.deadline, day);
+
+    setRescheduleError(null);
+    setDeadlineOverrides((prev) => ({ ...prev, [task.id]: newDeadline }));
+
+    try {
+      const res = await fetch(`/api/tasks/${task.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action: 'updateDeadline',
+          deadline: newDeadline,
+        }),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to update deadline');
+      }
+
+      router.refresh();
+    } catch (err) {
+      console.error('Failed to reschedule task:', err);
+      setDeadlineOverrides((prev) => {
+        const next = { ...prev };
+        if (previousOverride) next[task.id] = previousOverride;
+        else delete next[task.id];
+        return next;
+      });
+      setRescheduleError(
+        `Could not reschedule "${task.title}": ${err instanceof Error ? err.message : 'Failed to update deadline'}`
+      );
+    }
+  };
+
   return (
     <div className="flex flex-col h-full">
       <CalendarHeader
@@ -79,23 +157,45 @@ export default function CalendarView({ tasks }: CalendarViewProps) {
         tasks={filteredTasks}
       />
 
-      <CalendarFilters filters={filters} onFiltersChange={setFilters} />
+      <CalendarFilters filters={filters} onFiltersChange={setFilters} tasks={tasks} />
+
+      {rescheduleError && (
+        <div
+          role="alert"
+          className="flex items-center gap-2 border-b border-destructive/50 bg-destructive/10 px-4 py-2 text-xs sm:text-sm text-destructive"
+        >
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span className="flex-1">{rescheduleError}</span>
+          <button onClick={() => setRescheduleError(null)} aria-label="Dismiss error">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      )}
 
       <div className="flex-1 overflow-auto">
         {calendarView === 'day' && (
-          <DayView tasks={filteredTasks} date={currentDate} onTaskClick={handleTaskClick} />
+          <DayView tasks={visibleTasks} date={currentDate} onTaskClick={handleTaskClick} />
         )}
         {calendarView === 'week' && (
-          <WeekView tasks={filteredTasks} date={currentDate} onTaskClick={handleTaskClick} />
+          <WeekView
+            tasks={visibleTasks}
+            date={currentDate}
+            onTaskClick={handleTaskClick}
+            onTaskDrop={handleTaskDrop}
+          />
         )}
         {calendarView === 'month' && (
           <MonthView
-            tasks={filteredTasks}
+            tasks={visibleTasks}
             date={currentDate}
             onTaskClick={handleTaskClick}
             onDateSelect={handleDateSelect}
+            onTaskDrop={handleTaskDrop}
           />
         )}
+        {calendarView === 'agenda' && (
+          <AgendaView tasks={visibleTasks} date={currentDate} onTaskClick={handleTaskClick} />
+        )}
       </div>
 
       <TaskPreviewModal
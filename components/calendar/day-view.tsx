@@ -2,12 +2,12 @@
 
 import { format, isSameDay, isToday } from 'date-fns';
 import CalendarTaskCard from './calendar-task-card';
-import type { Task } from '@/lib/services/tasks';
+import { getCalendarEntryKey, type CalendarTask } from '@/lib/services/calendar';
 
 interface DayViewProps {
-  tasks: Task[];
+  tasks: CalendarTask[];
   date: Date;
-  onTaskClick: (task: Task) => void;
+  onTaskClick: (task: CalendarTask) => void;
 }
 
 /**
@@ -15,7 +15,7 @@ interface DayViewProps {
  * Tasks are positioned from 9am-6pm by default and displayed side-by-side if multiple on same day.
  */
 // Inline utility functions
-const calculateTaskPosition = (tasks: Task[], date: Date) => {
+const calculateTaskPosition = (tasks: CalendarTask[], date: Date) => {
   // Filter tasks for this specific date
   const tasksForDate = tasks.filter(
     (task) => task.deadline && isSameDay(new Date(task.deadline), date)
@@ -100,7 +100,7 @@ export default function DayView({ tasks, date, onTaskClick }: DayViewProps) {
           <div className="absolute inset-0">
             {taskPositions.map(({ task, top, height, left, width }) => (
               <div
-                key={task.id}
+                key={getCalendarEntryKey(task)}
                 className="absolute p-0.5 sm:p-1"
                 style={{
                   top,
@@ -2,21 +2,26 @@
 
 import { format, isSameDay, startOfMonth, endOfMonth, eachDayOfInterval, startOfWeek, endOfWeek, isToday } from 'date-fns';
 import CalendarTaskCard from './calendar-task-card';
-import type { Task } from '@/lib/services/tasks';
+import { getCalendarEntryKey, type CalendarTask } from '@/lib/services/calendar';
+import { useCalendarDrag } from '@/hooks/use-calendar-drag';
 
 interface MonthViewProps {
-  tasks: Task[];
+  tasks: CalendarTask[];
   date: Date;
-  onTaskClick: (task: Task) => void;
+  onTaskClick: (task: CalendarTask) => void;
   onDateSelect: (date: Date) => void;
+  onTaskDrop?: (task: CalendarTask, day: Date) => void;
 }
 
 /**
  * Month view calendar component showing a traditional calendar grid.
  * Displays tasks as colored badges on their deadline dates.
  * Clicking a date switches to day view for that date.
+ * Dragging a task onto another date reschedules it via onTaskDrop.
  */
-export default function MonthView({ tasks, date, onTaskClick, onDateSelect }: MonthViewProps) {
+export default function MonthView({ tasks, date, onTaskClick, onDateSelect, onTaskDrop }: MonthViewProps) {
+  const { getDragProps, getDropProps, isDropTarget } = useCalendarDrag(onTaskDrop);
+
   // Get all days to display (including padding from prev/next month)
   const monthStart = startOfMonth(date);
   const monthEnd = endOfMonth(date);
@@ -63,10 +68,12 @@ export default function MonthView({ tasks, date, onTaskClick, onDateSelect }: Mo
               return (
                 <div
                   key={day.toString()}
+                  data-testid={`month-day-${format(day, 'yyyy-MM-dd')}`}
                   className={`border-r last:border-r-0 p-1 sm:p-2 min-h-[60px] sm:min-h-[80px] md:min-h-[100px] cursor-pointer hover:bg-muted/50 transition-colors ${
                     !isCurrentMonth ? 'bg-muted/50 text-muted-foreground' : ''
-                  } ${isTodayDate ? 'bg-accent' : ''}`}
+                  } ${isTodayDate ? 'bg-accent' : ''} ${isDropTarget(day) ? 'ring-2 ring-inset ring-primary bg-primary/10' : ''}`}
                   onClick={() => onDateSelect(day)}
+                  {...getDropProps(day)}
                   role="button"
                   aria-label={`${format(day, 'MMMM d, yyyy')}, ${dayTasks.length} tasks`}
                 >
@@ -79,7 +86,8 @@ export default function MonthView({ tasks, date, onTaskClick, onDateSelect }: Mo
                   <div className="space-y-0.5 sm:space-y-1">
                     {dayTasks.slice(0, 3).map(task => (
                       <div
-                        key={task.id}
+                        key={getCalendarEntryKey(task)}
+                        {...getDragProps(task)}
                         onClick={(e) => {
                           e.stopPropagation();
                           onTaskClick(task);
@@ -1,6 +0,0 @@
-'use client';
-import { NextResponse } from 'next/server';
-
-export async function GET() {
-  return NextResponse.json({ message: 'placeholder' });
-}
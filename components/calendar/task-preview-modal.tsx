@@ -11,10 +11,11 @@ import {
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import type { Task } from '@/lib/services/tasks';
+import type { CalendarTask } from '@/lib/services/calendar';
+import { describeTaskRecurrence } from '@/lib/utils/rrule';
 
 interface TaskPreviewModalProps {
-  task: Task | null;
+  task: CalendarTask | null;
   isOpen: boolean;
   onClose: () => void;
 }
@@ -46,6 +47,7 @@ export default function TaskPreviewModal({ task, isOpen, onClose }: TaskPreviewM
             <Badge variant="outline">{task.status}</Badge>
             <Badge variant="outline">Priority: {task.priority}</Badge>
             {task.isOverdue && <Badge variant="destructive">Overdue</Badge>}
+            {task.isProjected && <Badge variant="secondary">Upcoming occurrence</Badge>}
           </div>
 
           {/* Deadline */}
@@ -111,7 +113,7 @@ export default function TaskPreviewModal({ task, isOpen, onClose }: TaskPreviewM
             <div>
               <span className="text-sm font-semibold text-muted-foreground">Recurrence:</span>
               <p className="text-sm mt-1">
-                Every {task.recurrence_interval} {task.recurrence_interval === 1 ? 'day' : 'days'}
+                {describeTaskRecurrence(task.recurrence_rule, task.recurrence_interval)}
               </p>
             </div>
           )}
@@ -2,20 +2,23 @@
 
 import { format, startOfWeek, endOfWeek, eachDayOfInterval, isSameDay, isToday } from 'date-fns';
 import CalendarTaskCard from './calendar-task-card';
-import type { Task } from '@/lib/services/tasks';
+import { getCalendarEntryKey, type CalendarTask } from '@/lib/services/calendar';
+import { useCalendarDrag } from '@/hooks/use-calendar-drag';
 
 interface WeekViewProps {
-  tasks: Task[];
+  tasks: CalendarTask[];
   date: Date;
-  onTaskClick: (task: Task) => void;
+  onTaskClick: (task: CalendarTask) => void;
+  onTaskDrop?: (task: CalendarTask, day: Date) => void;
 }
 
 /**
  * Week view component with Apple Calendar-style 7-column layout and vertical time grids.
  * Each day shows tasks positioned at 9am-6pm, displayed side-by-side if multiple on same day.
+ * Dragging a task onto another day column reschedules it via onTaskDrop.
  */
 // Inline utility functions
-const calculateTaskPosition = (tasks: Task[], date: Date) => {
+const calculateTaskPosition = (tasks: CalendarTask[], date: Date) => {
   // Filter tasks for this specific date
   const tasksForDate = tasks.filter(
     (task) => task.deadline && isSameDay(new Date(task.deadline), date)
@@ -42,7 +45,9 @@ const calculateTaskPosition = (tasks: Task[], date: Date) => {
   }));
 };
 
-export default function WeekView({ tasks, date, onTaskClick }: WeekViewProps) {
+export default function WeekView({ tasks, date, onTaskClick, onTaskDrop }: WeekViewProps) {
+  const { getDragProps, getDropProps, isDropTarget } = useCalendarDrag(onTaskDrop);
+
   // Time slots (hourly from 12am to 11pm)
   const timeSlots = Array.from({ length: 24 }, (_, i) => i);
 
@@ -112,7 +117,9 @@ export default function WeekView({ tasks, date, onTaskClick }: WeekViewProps) {
             return (
               <div
                 key={day.toString()}
-                className="flex-1 border-r last:border-r-0"
+                className={`flex-1 border-r last:border-r-0 ${isDropTarget(day) ? 'bg-primary/10' : ''}`}
+                data-testid={`week-day-${format(day, 'yyyy-MM-dd')}`}
+                {...getDropProps(day)}
               >
                 {/* Container for full day height with relative positioning */}
                 <div className="relative" style={{ height: `${timeSlots.length * 64}px` }}>
@@ -129,7 +136,8 @@ export default function WeekView({ tasks, date, onTaskClick }: WeekViewProps) {
                   <div className="absolute inset-0">
                     {taskPositions.map(({ task, top, height, left, width }) => (
                       <div
-                        key={task.id}
+                        key={getCalendarEntryKey(task)}
+                        {...getDragProps(task)}
                         className="absolute p-0.5 pointer-events-auto"
                         style={{
                           top,
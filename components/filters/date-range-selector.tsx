@@ -8,6 +8,8 @@ import {
   format,
   startOfMonth,
   endOfMonth,
+  startOfQuarter,
+  endOfQuarter,
   subMonths,
 } from 'date-fns';
 import { Calendar } from '@/components/ui/calendar';
@@ -70,6 +72,20 @@ export const presets: { label: string; range: DateRangeType }[] = [
       endDate: endOfMonth(new Date()),
     },
   },
+  {
+    label: 'This Quarter',
+    range: {
+      startDate: startOfQuarter(new Date()),
+      endDate: endOfQuarter(new Date()),
+    },
+  },
+  {
+    label: 'Next 12 Months',
+    range: {
+      startDate: startOfDay(new Date()),
+      endDate: endOfDay(addDays(new Date(), 364)),
+    },
+  },
 ];
 
 export function DateRangeFilter({
@@ -22,6 +22,7 @@ const formatNotificationTitle = (type: string): string => {
   const titleMap: Record<string, string> = {
     task_assigned: 'New Task Assignment',
     task_comment: 'New Comment on Task',
+    mention: 'Mentioned in Comment',
     task_deadline_upcoming: 'Deadline Upcoming',
     task_deadline_overdue: 'Deadline Overdue',
     task_deleted: 'Task Deleted',
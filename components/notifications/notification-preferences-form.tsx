@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  NOTIFICATION_EVENTS,
+  type DigestFrequency,
+  type NotificationChannel,
+  type NotificationEventType,
+  type NotificationPreferences,
+} from '@/lib/types/notification-preferences';
+
+const CHANNELS: { key: NotificationChannel; label: string }[] = [
+  { key: 'in_app', label: 'In-app' },
+  { key: 'email', label: 'Email' },
+];
+
+const DIGEST_LABELS: Record<DigestFrequency, string> = {
+  off: 'Off',
+  daily: 'Daily',
+  weekly: 'Weekly (Mondays)',
+};
+
+interface NotificationPreferencesFormProps {
+  preferences: NotificationPreferences;
+}
+
+export function NotificationPreferencesForm({ preferences: initial }: NotificationPreferencesFormProps) {
+  const [preferences, setPreferences] = useState(initial);
+  const [quietStart, setQuietStart] = useState(initial.quiet_hours?.start ?? '22:00');
+  const [quietEnd, setQuietEnd] = useState(initial.quiet_hours?.end ?? '07:00');
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const save = async (key: string, body: Record<string, unknown>, successMessage: string): Promise<boolean> => {
+    setBusy(key);
+    try {
+      const response = await fetch('/api/user/notification-preferences', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update preferences');
+      }
+
+      setPreferences(data.preferences);
+      toast.success(successMessage);
+      return true;
+    } catch (error) {
+      toast.error('Error', {
+        description: error instanceof Error ? error.message : 'Failed to update preferences',
+      });
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const toggleChannel = (type: NotificationEventType, channel: NotificationChannel, enabled: boolean) =>
+    save(`${type}-${channel}`, { events: { [type]: { [channel]: enabled } } }, 'Preferences saved');
+
+  return (
+    <div className="space-y-8">
+      <div className="border rounded-md overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-muted text-muted-foreground">
+            <tr>
+              <th className="text-left font-semibold px-3 py-2">Event</th>
+              {CHANNELS.map((c) => (
+                <th key={c.key} className="text-center font-semibold px-3 py-2 w-24">
+                  {c.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {NOTIFICATION_EVENTS.map((event) => (
+              <tr key={event.type} className="border-t">
+                <td className="px-3 py-2">
+                  <div className="font-medium">{event.label}</div>
+                  <div className="text-xs text-muted-foreground">{event.description}</div>
+                </td>
+                {CHANNELS.map((c) => (
+                  <td key={c.key} className="px-3 py-2 text-center">
+                    {(event.channels as readonly NotificationChannel[]).includes(c.key) ? (
+                      <Checkbox
+                        checked={preferences.events[event.type][c.key]}
+                        disabled={busy !== null}
+                        onCheckedChange={(checked) => toggleChannel(event.type, c.key, checked === true)}
+                        aria-label={`${event.label} ${c.label.toLowerCase()} notifications`}
+                      />
+                    ) : (
+                      <span className="text-muted-foreground" title={`Not available by ${c.label.toLowerCase()}`}>
+                        —
+                      </span>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Email digest</Label>
+        <Select
+          value={preferences.digest_frequency}
+          onValueChange={(value) => save('digest', { digestFrequency: value }, 'Digest frequency saved')}
+          disabled={busy !== null}
+        >
+          <SelectTrigger className="w-56" aria-label="Email digest frequency">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(DIGEST_LABELS) as DigestFrequency[]).map((frequency) => (
+              <SelectItem key={frequency} value={frequency}>
+                {DIGEST_LABELS[frequency]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">A summary of your overdue, due and upcoming tasks.</p>
+      </div>
+
+      <form
+        className="space-y-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          save('quiet', { quietHours: { start: quietStart, end: quietEnd } }, 'Quiet hours saved');
+        }}
+      >
+        <Label>Quiet hours</Label>
+        <p className="text-xs text-muted-foreground">
+          {preferences.quiet_hours
+            ? `No emails are sent between ${preferences.quiet_hours.start} and ${preferences.quiet_hours.end} (Singapore time); they arrive once quiet hours end.`
+            : 'Off. Emails can be sent at any time.'}
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            type="time"
+            aria-label="Quiet hours start"
+            value={quietStart}
+            onChange={(e) => setQuietStart(e.target.value)}
+            className="w-32"
+          />
+          <span className="text-sm text-muted-foreground">to</span>
+          <Input
+            type="time"
+            aria-label="Quiet hours end"
+            value={quietEnd}
+            onChange={(e) => setQuietEnd(e.target.value)}
+            className="w-32"
+          />
+          <Button type="submit" size="sm" disabled={busy !== null || !quietStart || !quietEnd}>
+            {busy === 'quiet' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {preferences.quiet_hours ? 'Update' : 'Turn on'}
+          </Button>
+          {preferences.quiet_hours && (
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              disabled={busy !== null}
+              onClick={() => save('quiet-off', { quietHours: null }, 'Quiet hours turned off')}
+            >
+              Turn off
+            </Button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
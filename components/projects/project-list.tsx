@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Loader2, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { ManagedProject } from '@/lib/types/projects';
+
+interface ProjectListProps {
+  projects: ManagedProject[];
+}
+
+export function ProjectList({ projects }: ProjectListProps) {
+  const router = useRouter();
+  const [name, setName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+
+  const visible = projects.filter((p) => showArchived || !p.is_archived);
+  const archivedCount = projects.filter((p) => p.is_archived).length;
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setCreating(true);
+    try {
+      const response = await fetch('/api/projects', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create project');
+      }
+
+      toast.success('Project created');
+      setName('');
+      router.push(`/projects/${data.project.id}`);
+    } catch (error) {
+      toast.error('Error', {
+        description: error instanceof Error ? error.message : 'Failed to create project',
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleCreate} className="flex items-end gap-2 max-w-md">
+        <div className="flex-1 space-y-1">
+          <Label htmlFor="new-project-name">New project</Label>
+          <Input
+            id="new-project-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Project name"
+            maxLength={255}
+          />
+        </div>
+        <Button type="submit" disabled={creating || !name.trim()}>
+          {creating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+          Create
+        </Button>
+      </form>
+
+      <div className="flex items-center gap-2">
+        <Checkbox
+          id="show-archived-projects"
+          checked={showArchived}
+          onCheckedChange={(checked) => setShowArchived(checked === true)}
+        />
+        <Label htmlFor="show-archived-projects" className="text-sm font-normal">
+          Show archived ({archivedCount})
+        </Label>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No projects yet.</p>
+      ) : (
+        <div className="border rounded-md overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-muted text-muted-foreground">
+              <tr>
+                <th className="text-left font-semibold px-3 py-2">Project</th>
+                <th className="text-left font-semibold px-3 py-2">Departments</th>
+                <th className="text-right font-semibold px-3 py-2">Open tasks</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((project) => (
+                <tr key={project.id} className="border-t" data-testid={`project-row-${project.id}`}>
+                  <td className="px-3 py-2">
+                    <Link href={`/projects/${project.id}`} className="font-medium hover:underline">
+                      {project.name}
+                    </Link>
+                    {project.is_archived && (
+                      <Badge variant="secondary" className="ml-2">
+                        Archived
+                      </Badge>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-muted-foreground">
+                    {project.departments.length > 0 ? project.departments.map((d) => d.name).join(', ') : '—'}
+                  </td>
+                  <td className="px-3 py-2 text-right">{project.open_task_count}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
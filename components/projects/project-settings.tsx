@@ -0,0 +1,195 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Archive, ArchiveRestore, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { ProjectDetails } from '@/lib/types/projects';
+
+interface ProjectSettingsProps {
+  project: ProjectDetails;
+}
+
+export function ProjectSettings({ project }: ProjectSettingsProps) {
+  const router = useRouter();
+  const [name, setName] = useState(project.name);
+  const [departmentIds, setDepartmentIds] = useState<number[]>(project.departments.map((d) => d.id));
+  const [saving, setSaving] = useState<'name' | 'archive' | 'departments' | null>(null);
+
+  const linkableIds = new Set(project.linkable_departments.map((d) => d.id));
+  // Linked departments the user cannot unlink are listed but not editable
+  const fixedDepartments = project.departments.filter((d) => !linkableIds.has(d.id));
+  const departmentsChanged =
+    departmentIds.length !== project.departments.length ||
+    project.departments.some((d) => !departmentIds.includes(d.id));
+
+  const save = async (
+    field: 'name' | 'archive' | 'departments',
+    body: Record<string, unknown>,
+    successMessage: string
+  ) => {
+    setSaving(field);
+    try {
+      const response = await fetch(`/api/projects/${project.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update project');
+      }
+
+      toast.success(successMessage);
+      router.refresh();
+    } catch (error) {
+      toast.error('Error', {
+        description: error instanceof Error ? error.message : 'Failed to update project',
+      });
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  const toggleDepartment = (id: number, checked: boolean) => {
+    setDepartmentIds((prev) => (checked ? [...prev, id] : prev.filter((d) => d !== id)));
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            General
+            {project.is_archived && <Badge variant="secondary">Archived</Badge>}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form
+            className="flex items-end gap-2 max-w-md"
+            onSubmit={(e) => {
+              e.preventDefault();
+              save('name', { name }, 'Project renamed');
+            }}
+          >
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="project-name">Name</Label>
+              <Input id="project-name" value={name} onChange={(e) => setName(e.target.value)} maxLength={255} />
+            </div>
+            <Button type="submit" disabled={saving !== null || !name.trim() || name.trim() === project.name}>
+              {saving === 'name' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Rename
+            </Button>
+          </form>
+
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground">
+            <span>{project.open_task_count} open task(s)</span>
+            <span>{project.task_count} task(s) in total</span>
+            <span>{project.members.length} member(s)</span>
+          </div>
+
+          <Button
+            variant={project.is_archived ? 'outline' : 'destructive'}
+            disabled={saving !== null}
+            onClick={() =>
+              save(
+                'archive',
+                { isArchived: !project.is_archived },
+                project.is_archived ? 'Project restored' : 'Project archived'
+              )
+            }
+          >
+            {saving === 'archive' ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : project.is_archived ? (
+              <ArchiveRestore className="mr-2 h-4 w-4" />
+            ) : (
+              <Archive className="mr-2 h-4 w-4" />
+            )}
+            {project.is_archived ? 'Restore Project' : 'Archive Project'}
+          </Button>
+          {!project.is_archived && (
+            <p className="text-xs text-muted-foreground">
+              Archived projects are hidden from project pickers and filters. Their tasks are kept.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Departments</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {project.linkable_departments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">You do not manage any department to link.</p>
+          ) : (
+            <div className="grid gap-2 sm:grid-cols-2">
+              {project.linkable_departments.map((department) => (
+                <div key={department.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`project-department-${department.id}`}
+                    checked={departmentIds.includes(department.id)}
+                    onCheckedChange={(checked) => toggleDepartment(department.id, checked === true)}
+                  />
+                  <Label htmlFor={`project-department-${department.id}`} className="text-sm font-normal">
+                    {department.name}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          )}
+          {fixedDepartments.length > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Also linked to {fixedDepartments.map((d) => d.name).join(', ')}.
+            </p>
+          )}
+          <Button
+            disabled={saving !== null || !departmentsChanged}
+            onClick={() => save('departments', { departmentIds }, 'Departments updated')}
+          >
+            {saving === 'departments' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Departments
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Members</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {project.members.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nobody is assigned to a task in this project yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-muted-foreground">
+                <tr>
+                  <th className="text-left font-semibold py-2">Name</th>
+                  <th className="text-right font-semibold py-2">Open tasks</th>
+                  <th className="text-right font-semibold py-2">All tasks</th>
+                </tr>
+              </thead>
+              <tbody>
+                {project.members.map((member) => (
+                  <tr key={member.id} className="border-t" data-testid={`project-member-${member.id}`}>
+                    <td className="py-2">{member.name}</td>
+                    <td className="py-2 text-right">{member.open_task_count}</td>
+                    <td className="py-2 text-right">{member.task_count}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -18,8 +18,15 @@ export type ChartData = {
   data: Array<{ label: string; value: number }>;
 };
 
+// Departments a report covers: the selected ones and their sub-departments
+export type ReportDepartment = {
+  id: number;
+  name: string;
+};
+
 export interface LoggedTimeReport {
   kind: 'loggedTime';
+  departments: ReportDepartment[]; // Empty when the report is not filtered by department
   totalTime: number; // Total logged time (hours) across ALL tasks
   avgTime: number; // Average logged time (hours) per COMPLETED task only
   completedTasks: number; // Count of tasks with status='Completed'
@@ -29,6 +36,10 @@ export interface LoggedTimeReport {
   totalDelayHours: number; // Total hours that completed tasks were late
   incompleteTime: number; // Total logged time (hours) for ALL incomplete tasks (In Progress + Blocked + To Do)
   overdueTime: number; // Total logged time (hours) for incomplete tasks that are OVERDUE
+  avgLeadTime: number; // Average hours from creation to completion, completed tasks only
+  avgCycleTime: number; // Average hours from first In Progress to completion
+  blockedTime: number; // Total hours tasks spent in Blocked
+  reopenCount: number; // Times a completed task was moved back out of Completed
   timeByTask?: Map<number, number>;
   kpis: KPI[];
   charts?: ChartData[];
@@ -36,6 +47,7 @@ export interface LoggedTimeReport {
 
 export interface TeamSummaryReport {
   kind: 'teamSummary';
+  departments: ReportDepartment[];
   totalTasks: number;
   totalUsers: number;
   weeklyBreakdown: Array<{
@@ -66,12 +78,17 @@ export interface TeamSummaryReport {
 
 export interface TaskCompletionReport {
   kind: 'taskCompletions';
+  departments: ReportDepartment[];
   totalTasks: number;
   totalCompleted: number;
   totalInProgress: number;
   totalTodo: number;
   totalBlocked: number;
   overallCompletionRate: number;
+  avgLeadTime: number;
+  avgCycleTime: number;
+  totalBlockedTime: number;
+  totalReopens: number;
   userStats: Array<{
     userId: string;
     userName: string;
@@ -82,6 +99,9 @@ export interface TaskCompletionReport {
     blockedTasks: number;
     completionRate: number;
     avgCompletionTime: number;
+    avgCycleTime: number;
+    blockedTime: number;
+    reopenCount: number;
     onTimeCompletions: number;
     lateCompletions: number;
     onTimeRate: number;
@@ -114,13 +134,18 @@ function getMetricDescription(key: string, report: AnyReport): string {
       blockedTasks:
         "Count of tasks with status='Blocked' (waiting on dependencies or external events)",
       onTimeCompletionRate:
-        'Ratio (0-1) of completed tasks done on-time, where updated_at <= deadline',
+        'Ratio (0-1) of completed tasks done on-time, where completed_at <= deadline',
       totalDelayHours:
-        'Total hours that completed tasks were late (sum of hours past deadline for completed tasks)',
+        'Total hours that completed tasks were late (sum of hours from deadline to completed_at)',
       incompleteTime:
         'Total logged time (hours) for all incomplete tasks (In Progress + Blocked + To Do), includes both overdue and non-overdue',
       overdueTime:
         'Total logged time (hours) for incomplete tasks that are OVERDUE (subset of incompleteTime)',
+      avgLeadTime: 'Average hours from task creation to completion, for completed tasks only',
+      avgCycleTime:
+        'Average hours from when work started (first move to In Progress) to completion',
+      blockedTime: 'Total hours tasks spent in Blocked, from the task status history',
+      reopenCount: 'Number of times a completed task was moved back out of Completed',
     };
     return descriptions[key] || '';
   }
@@ -141,6 +166,11 @@ function getMetricDescription(key: string, report: AnyReport): string {
       totalTodo: 'Number of tasks in To Do status',
       totalBlocked: 'Number of tasks that are Blocked',
       overallCompletionRate: 'Percentage of all tasks that have been completed',
+      avgLeadTime: 'Average hours from task creation to completion, for completed tasks only',
+      avgCycleTime:
+        'Average hours from when work started (first move to In Progress) to completion',
+      totalBlockedTime: 'Total hours tasks spent in Blocked, from the task status history',
+      totalReopens: 'Number of times a completed task was moved back out of Completed',
     };
     return descriptions[key] || '';
   }
@@ -148,15 +178,28 @@ function getMetricDescription(key: string, report: AnyReport): string {
   return '';
 }
 
+/**
+ * Returns the names of the departments a report covers, for titles and summaries
+ */
+export function formatReportDepartments(departments: ReportDepartment[] | undefined): string {
+  return departments?.length ? departments.map((d) => d.name).join(', ') : 'All departments';
+}
+
 /**
  * Returns an array of summary rows for the given report, except if key is 'kind', 'kpis', or 'charts'.
- * Each row is an object with 3 properties: label, value, and description
+ * The departments covered come first. Each row is an object with 3 properties: label, value, and description
  *
  * @param report The report to generate summary rows for
  * @returns An array of summary rows
  */
 function getSummaryRows(report: AnyReport) {
-  const rows: Array<{ label: string; value: string; description?: string }> = [];
+  const rows: Array<{ label: string; value: string; description?: string }> = [
+    {
+      label: 'Departments',
+      value: formatReportDepartments(report.departments),
+      description: 'Departments covered by this report, including their sub-departments',
+    },
+  ];
   Object.entries(report).forEach(([key, value]) => {
     if (
       key === 'kind' ||
@@ -257,6 +300,9 @@ function getBreakdowns(
           Blocked: u.blockedTasks,
           'Completion Rate': `${(u.completionRate * 100).toFixed(1)}%`,
           'Avg Completion Time (hrs)': u.avgCompletionTime.toFixed(1),
+          'Avg Cycle Time (hrs)': u.avgCycleTime.toFixed(1),
+          'Blocked (hrs)': u.blockedTime.toFixed(1),
+          Reopens: u.reopenCount,
           'On-Time': u.onTimeCompletions,
           Late: u.lateCompletions,
           'On-Time Rate': `${(u.onTimeRate * 100).toFixed(1)}%`,
@@ -37,6 +37,10 @@ interface Metrics {
   onTimeCompletionRate: number;
   totalDelayHours: number;
   overdueHours: number;
+  avgLeadHours: number;
+  avgCycleHours: number;
+  blockedHours: number;
+  reopenCount: number;
 }
 
 // Standard rounding (2 decimal places)
@@ -101,6 +105,21 @@ const delayConfig = {
   },
 } satisfies ChartConfig;
 
+const flowConfig = {
+  lead: {
+    label: 'Lead Time',
+    color: 'var(--chart-1)',
+  },
+  cycle: {
+    label: 'Cycle Time',
+    color: 'var(--chart-2)',
+  },
+  blocked: {
+    label: 'Blocked',
+    color: 'var(--chart-3)',
+  },
+} satisfies ChartConfig;
+
 const avgTimeConfig = {
   time: {
     label: 'Logged Hours',
@@ -315,6 +334,48 @@ const DISPLAY_CARDS = [
       );
     },
   },
+  {
+    key: 'flowMetrics',
+    title: 'Flow Metrics',
+    description: 'Average lead and cycle time from the task status history',
+    format: (m: Metrics) => `${round(m.avgCycleHours, 2)}h cycle`,
+    kpi: (m: Metrics): KPI => ({
+      label: 'Avg Cycle Time',
+      value: round(m.avgCycleHours, 2),
+      unit: 'h',
+    }),
+    subMetrics: [
+      { label: 'Avg lead time', format: (m: Metrics) => `${round(m.avgLeadHours, 2)}h` },
+      { label: 'Time Blocked', format: (m: Metrics) => `${round(m.blockedHours, 2)}h` },
+      { label: 'Reopened', format: (m: Metrics) => `${m.reopenCount} times` },
+    ],
+    chart: (m: Metrics) => ({
+      type: 'bar' as const,
+      title: 'Flow Metrics',
+      data: [
+        { label: 'Lead Time', value: round(m.avgLeadHours, 2) },
+        { label: 'Cycle Time', value: round(m.avgCycleHours, 2) },
+        { label: 'Blocked', value: round(m.blockedHours, 2) },
+      ],
+    }),
+    renderChart: (m: Metrics) => {
+      const chartData = [
+        { name: 'Lead', value: round(m.avgLeadHours, 2), fill: flowConfig.lead.color },
+        { name: 'Cycle', value: round(m.avgCycleHours, 2), fill: flowConfig.cycle.color },
+        { name: 'Blocked', value: round(m.blockedHours, 2), fill: flowConfig.blocked.color },
+      ];
+      return (
+        <ChartContainer config={flowConfig} className="h-[140px] w-full">
+          <BarChart data={chartData}>
+            <XAxis dataKey="name" tickLine={false} axisLine={false} className="text-xs" />
+            <YAxis tickLine={false} axisLine={false} className="text-xs" />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <Bar dataKey="value" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ChartContainer>
+      );
+    },
+  },
   {
     key: 'avgLoggedHours',
     title: 'Average Logged Time',
@@ -422,6 +483,10 @@ export function LoggedTimeReport({
         onTimeCompletionRate: initialData.onTimeCompletionRate ?? 0,
         totalDelayHours: initialData.totalDelayHours ?? 0,
         overdueHours: initialData.overdueTime ?? 0,
+        avgLeadHours: initialData.avgLeadTime ?? 0,
+        avgCycleHours: initialData.avgCycleTime ?? 0,
+        blockedHours: initialData.blockedTime ?? 0,
+        reopenCount: initialData.reopenCount ?? 0,
       };
 
       setMetrics(initialMetrics);
@@ -437,6 +502,7 @@ export function LoggedTimeReport({
 
         const exportData: LoggedTimeReportType = {
           kind: 'loggedTime',
+          departments: initialData.departments ?? [],
           totalTime: round(initialMetrics.totalLoggedHours, 2),
           avgTime: round(initialMetrics.avgLoggedHours, 2),
           completedTasks: initialMetrics.completedTasks,
@@ -446,6 +512,10 @@ export function LoggedTimeReport({
           incompleteTime: round(initialMetrics.incompleteHours, 2),
           overdueTime: round(initialMetrics.overdueHours, 2),
           blockedTasks: initialMetrics.blockedTasks,
+          avgLeadTime: round(initialMetrics.avgLeadHours, 2),
+          avgCycleTime: round(initialMetrics.avgCycleHours, 2),
+          blockedTime: round(initialMetrics.blockedHours, 2),
+          reopenCount: initialMetrics.reopenCount,
           timeByTask: new Map(
             Object.entries(initialMetrics.timeByTask).map(([k, v]) => [Number(k), v])
           ),
@@ -498,6 +568,10 @@ export function LoggedTimeReport({
             onTimeCompletionRate: json.onTimeCompletionRate ?? 0,
             totalDelayHours: json.totalDelayHours ?? 0,
             overdueHours: json.overdueTime ?? 0,
+            avgLeadHours: json.avgLeadTime ?? 0,
+            avgCycleHours: json.avgCycleTime ?? 0,
+            blockedHours: json.blockedTime ?? 0,
+            reopenCount: json.reopenCount ?? 0,
           };
           prevMetricsRef.current = newMetrics;
           setMetrics(newMetrics);
@@ -510,6 +584,7 @@ export function LoggedTimeReport({
 
             const exportData: LoggedTimeReportType = {
               kind: 'loggedTime',
+              departments: json.departments ?? [],
               totalTime: round(newMetrics.totalLoggedHours, 2),
               avgTime: round(newMetrics.avgLoggedHours, 2),
               completedTasks: newMetrics.completedTasks,
@@ -519,6 +594,10 @@ export function LoggedTimeReport({
               incompleteTime: round(newMetrics.incompleteHours, 2),
               overdueTime: round(newMetrics.overdueHours, 2),
               blockedTasks: newMetrics.blockedTasks,
+              avgLeadTime: round(newMetrics.avgLeadHours, 2),
+              avgCycleTime: round(newMetrics.avgCycleHours, 2),
+              blockedTime: round(newMetrics.blockedHours, 2),
+              reopenCount: newMetrics.reopenCount,
               timeByTask: new Map(
                 Object.entries(newMetrics.timeByTask).map(([k, v]) => [Number(k), v])
               ),
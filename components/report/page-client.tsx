@@ -10,7 +10,11 @@ import { cn } from '@/lib/utils';
 import { LoggedTimeReport } from '@/components/report/logged-time-report';
 import { TaskCompletionsChart } from '@/components/report/task-completion-report';
 import { TeamSummaryChart } from '@/components/report/team-summary-report';
-import { ExportButtons, type AnyReport } from '@/components/report/export-buttons';
+import {
+  ExportButtons,
+  formatReportDepartments,
+  type AnyReport,
+} from '@/components/report/export-buttons';
 import {
   Select,
   SelectTrigger,
@@ -212,6 +216,7 @@ export default function ReportsPageClient({
           <ExportButtons
             reportData={reportData}
             reportTitle={REPORT_OPTIONS.find((o) => o.value === selectedReport)?.label}
+            subTitle={`Departments: ${formatReportDepartments(reportData.departments)}`}
             disabled={isLoading || !reportData}
           />
         )}
@@ -251,6 +256,12 @@ export default function ReportsPageClient({
         </div>
       )}
 
+      {reportData && selectedDepartments.length > 0 && (
+        <p className="mt-2 text-xs text-muted-foreground" data-testid="report-departments">
+          Covers: {formatReportDepartments(reportData.departments)}
+        </p>
+      )}
+
       {/* Report Display */}
       <div className="mt-4">
         {!selectedDepartments.length && !selectedProjects.length ? (
@@ -36,6 +36,9 @@ interface UserStats {
   blockedTasks: number;
   completionRate: number;
   avgCompletionTime: number;
+  avgCycleTime: number;
+  blockedTime: number;
+  reopenCount: number;
   onTimeCompletions: number;
   lateCompletions: number;
   onTimeRate: number;
@@ -50,6 +53,10 @@ interface ReportData {
   totalTodo: number;
   totalBlocked: number;
   overallCompletionRate: number;
+  avgLeadTime: number;
+  avgCycleTime: number;
+  totalBlockedTime: number;
+  totalReopens: number;
   userStats: UserStats[];
 }
 
@@ -107,6 +114,10 @@ export function TaskCompletionsChart({
             totalTodo: json.totalTodo || 0,
             totalBlocked: json.totalBlocked || 0,
             overallCompletionRate: json.overallCompletionRate || 0,
+            avgLeadTime: json.avgLeadTime || 0,
+            avgCycleTime: json.avgCycleTime || 0,
+            totalBlockedTime: json.totalBlockedTime || 0,
+            totalReopens: json.totalReopens || 0,
             userStats: json.userStats || [],
           };
 
@@ -126,6 +137,10 @@ export function TaskCompletionsChart({
                 value: round(newData.overallCompletionRate * 100, 1),
                 unit: '%',
               },
+              { label: 'Avg Lead Time', value: round(newData.avgLeadTime, 1), unit: 'h' },
+              { label: 'Avg Cycle Time', value: round(newData.avgCycleTime, 1), unit: 'h' },
+              { label: 'Time Blocked', value: round(newData.totalBlockedTime, 1), unit: 'h' },
+              { label: 'Reopened', value: newData.totalReopens, unit: 'times' },
             ];
 
             const charts: ChartData[] = [
@@ -163,12 +178,17 @@ export function TaskCompletionsChart({
 
             const exportData: TaskCompletionReportType = {
               kind: 'taskCompletions',
+              departments: json.departments ?? [],
               totalTasks: newData.totalTasks,
               totalCompleted: newData.totalCompleted,
               totalInProgress: newData.totalInProgress,
               totalTodo: newData.totalTodo,
               totalBlocked: newData.totalBlocked,
               overallCompletionRate: newData.overallCompletionRate,
+              avgLeadTime: newData.avgLeadTime,
+              avgCycleTime: newData.avgCycleTime,
+              totalBlockedTime: newData.totalBlockedTime,
+              totalReopens: newData.totalReopens,
               userStats: newData.userStats,
               completedByProject: new Map(),
               kpis,
@@ -239,6 +259,24 @@ export function TaskCompletionsChart({
               </div>
             </div>
           </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4 pt-4 border-t">
+            <div>
+              <div className="text-sm text-muted-foreground">Avg Lead Time</div>
+              <div className="text-xl font-bold">{round(displayData.avgLeadTime, 1)}h</div>
+            </div>
+            <div>
+              <div className="text-sm text-muted-foreground">Avg Cycle Time</div>
+              <div className="text-xl font-bold">{round(displayData.avgCycleTime, 1)}h</div>
+            </div>
+            <div>
+              <div className="text-sm text-muted-foreground">Time Blocked</div>
+              <div className="text-xl font-bold">{round(displayData.totalBlockedTime, 1)}h</div>
+            </div>
+            <div>
+              <div className="text-sm text-muted-foreground">Reopened</div>
+              <div className="text-xl font-bold">{displayData.totalReopens}</div>
+            </div>
+          </div>
         </CardContent>
       </Card>
 
@@ -355,9 +393,21 @@ export function TaskCompletionsChart({
               {/* Time Metrics */}
               <div className="grid grid-cols-2 gap-3 pt-3 border-t">
                 <div>
-                  <div className="text-xs text-muted-foreground">Average Task Cycle Duration</div>
+                  <div className="text-xs text-muted-foreground">Avg Lead Time</div>
                   <div className="text-sm font-medium">{round(user.avgCompletionTime, 1)}h</div>
                 </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Avg Cycle Time</div>
+                  <div className="text-sm font-medium">{round(user.avgCycleTime, 1)}h</div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Time Blocked</div>
+                  <div className="text-sm font-medium">{round(user.blockedTime, 1)}h</div>
+                </div>
+                <div>
+                  <div className="text-xs text-muted-foreground">Reopened</div>
+                  <div className="text-sm font-medium">{user.reopenCount}</div>
+                </div>
                 <div>
                   <div className="text-xs text-muted-foreground">Total Logged Hours</div>
                   <div className="text-sm font-medium">{round(user.totalLoggedTime, 1)}h</div>
@@ -262,6 +262,7 @@ export function TeamSummaryChart({
 
             const exportData: TeamSummaryReportType = {
               kind: 'teamSummary',
+              departments: json.departments ?? [],
               totalTasks: newData.totalTasks,
               totalUsers: newData.totalUsers,
               weeklyBreakdown,
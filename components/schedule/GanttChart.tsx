@@ -1,7 +1,8 @@
 'use client';
 
-import { useMemo, useRef, useState } from 'react';
-import { addDays, differenceInCalendarDays, format, isSameDay, startOfDay, endOfDay } from 'date-fns';
+import { useCallback, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { addDays, differenceInCalendarDays, format, isSameDay, startOfDay, endOfDay, startOfWeek } from 'date-fns';
+import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 
 export type GanttTask = {
@@ -13,10 +14,14 @@ export type GanttTask = {
   status: string;
   updatedAt: string;
   assignee: { id: string; name: string };
+  blockedBy?: number[]; // IDs of tasks that must finish before this one
+  parentTaskId?: number | null; // Subtasks move along with their parent when shiftSubtasks is on
 };
 
 export type GanttRow = { assigneeId: string; assigneeName: string; tasks: GanttTask[] };
 
+export type GanttZoom = 'week' | 'month' | 'quarter';
+
 type Props = {
   rows: GanttRow[];
   startDate: Date;
@@ -24,96 +29,484 @@ type Props = {
   currentUserId?: string;
   userRoles?: string[];
   onChangeDeadline?: (taskId: number, newDate: Date) => Promise<void> | void;
+  /** Preview open subtasks moving by the same delta as the dragged parent */
+  shiftSubtasks?: boolean;
+  defaultZoom?: GanttZoom;
 };
 
-const MAX_DAYS = 60;
 const ASSIGNEE_COLUMN_WIDTH = 200; // Fixed width in pixels
-const DAY_COLUMN_WIDTH = 80; // Fixed width per day column in pixels
+const BAR_SPACING = 28; // Vertical distance between task bars in a row
+const BAR_TOP_OFFSET = 8;
+const BAR_HEIGHT = 20;
+const CHART_MAX_HEIGHT = 640; // Rows scroll inside the chart beyond this height
+const OVERSCAN_PX = 400; // Rendered beyond each edge of the viewport so fast scrolling stays filled
+const DEFAULT_VIEWPORT = { width: 1600, height: CHART_MAX_HEIGHT }; // Until the container is measured
+
+// Pixels per day and the narrowest bar at each zoom level
+const ZOOM_LEVELS: Record<GanttZoom, { label: string; dayWidth: number; barMinWidth: number }> = {
+  week: { label: 'Week', dayWidth: 80, barMinWidth: 60 },
+  month: { label: 'Month', dayWidth: 28, barMinWidth: 28 },
+  quarter: { label: 'Quarter', dayWidth: 10, barMinWidth: 12 },
+};
+
+const rowHeightFor = (row: GanttRow) => Math.max(64, row.tasks.length * BAR_SPACING + BAR_TOP_OFFSET * 2);
+
+type BarLayout = {
+  taskStart: Date;
+  taskEnd: Date;
+  isCompleted: boolean;
+  isOverdue: boolean;
+  barStartPx: number;
+  barEndPx: number;
+  barWidthPx: number;
+  extendsLeft: boolean;
+  extendsRight: boolean;
+};
+
+/**
+ * Horizontal placement of a task bar within the visible days, or null when the
+ * task has no end date or lies completely outside the visible range.
+ */
+function getBarLayout(t: GanttTask, days: Date[], startDate: Date, dayWidth: number): BarLayout | null {
+  const taskStart = startOfDay(new Date(t.startDate));
+  // For completed tasks, use updated_at as end date, otherwise use deadline
+  const isCompleted = t.status === 'Completed';
+  const taskEnd = isCompleted && t.updatedAt
+    ? endOfDay(new Date(t.updatedAt))
+    : (t.deadline ? endOfDay(new Date(t.deadline)) : null);
+
+  if (!taskEnd) return null;
+
+  // Check if task overlaps with visible date range
+  const visibleStart = startOfDay(days[0]);
+  const visibleEnd = endOfDay(days[days.length - 1]);
+
+  // Task is visible if: task ends on/after visible start AND task starts on/before visible end
+  // This includes tasks that completely span the visible range
+  if (taskEnd < visibleStart || taskStart > visibleEnd) {
+    return null; // Task completely outside visible range
+  }
+
+  // Check if task is overdue (deadline passed and not completed)
+  const isOverdue = !isCompleted && !!t.deadline && new Date(t.deadline) < new Date();
+
+  // Calculate position relative to visible days
+  // Clamp the start/end to the visible range
+  const clampedStart = taskStart < visibleStart ? visibleStart : taskStart;
+  const clampedEnd = taskEnd > visibleEnd ? visibleEnd : taskEnd;
+
+  const startDayIndex = Math.max(0, differenceInCalendarDays(clampedStart, startDate));
+  const endDayIndex = Math.min(days.length - 1, Math.max(0, differenceInCalendarDays(clampedEnd, startDate)));
+
+  // Calculate pixel positions
+  const barStartPx = startDayIndex * dayWidth;
+  const barEndPx = (endDayIndex + 1) * dayWidth;
+
+  return {
+    taskStart,
+    taskEnd,
+    isCompleted,
+    isOverdue,
+    barStartPx,
+    barEndPx,
+    barWidthPx: barEndPx - barStartPx,
+    // Indicate if task extends beyond visible range
+    extendsLeft: taskStart < visibleStart,
+    extendsRight: taskEnd > visibleEnd,
+  };
+}
+
+type HeaderGroup = { key: string; startIndex: number; length: number; label: string };
+
+/**
+ * Header spans above the day columns when zoomed out: weeks at month zoom, months at
+ * quarter zoom. Week zoom labels every day instead.
+ */
+function getHeaderGroups(days: Date[], zoom: GanttZoom): HeaderGroup[] {
+  if (zoom === 'week') return [];
+  const groups: HeaderGroup[] = [];
+  days.forEach((d, idx) => {
+    const key = zoom === 'quarter' ? format(d, 'yyyy-MM') : format(startOfWeek(d, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+    const last = groups[groups.length - 1];
+    if (last?.key === key) {
+      last.length += 1;
+    } else {
+      groups.push({ key, startIndex: idx, length: 1, label: format(d, zoom === 'quarter' ? 'MMM yyyy' : 'MMM d') });
+    }
+  });
+  return groups;
+}
+
+/**
+ * Open blockers due after the task itself: the task cannot be finished in order.
+ */
+function conflictingBlockers(t: GanttTask, tasksById: Map<number, GanttTask>): GanttTask[] {
+  if (t.status === 'Completed' || !t.deadline) return [];
+  const deadline = endOfDay(new Date(t.deadline));
+  return (t.blockedBy ?? [])
+    .map((id) => tasksById.get(id))
+    .filter((b): b is GanttTask => !!b && b.status !== 'Completed' && !!b.deadline && endOfDay(new Date(b.deadline)) > deadline);
+}
+
+/**
+ * Orthogonal connector from the end of a blocker bar to the start of its dependent.
+ * When the dependent starts before the blocker ends the line doubles back between the rows.
+ */
+function dependencyPath(x1: number, y1: number, x2: number, y2: number): string {
+  const gap = 8;
+  if (x2 - gap >= x1 + gap) {
+    return `M ${x1} ${y1} H ${x1 + gap} V ${y2} H ${x2}`;
+  }
+  const midY = y2 > y1 ? y2 - BAR_SPACING / 2 : y2 + BAR_SPACING / 2;
+  return `M ${x1} ${y1} H ${x1 + gap} V ${midY} H ${x2 - gap} V ${y2} H ${x2}`;
+}
 
-export function GanttChart({ rows, startDate, endDate, currentUserId, userRoles = [], onChangeDeadline }: Props) {
+export function GanttChart({
+  rows,
+  startDate,
+  endDate,
+  currentUserId,
+  userRoles = [],
+  onChangeDeadline,
+  shiftSubtasks = false,
+  defaultZoom = 'week',
+}: Props) {
   const days = useMemo(() => {
     const diff = Math.max(1, differenceInCalendarDays(endDate, startDate) + 1);
-    // Enforce max days limit
-    const limitedDiff = Math.min(diff, MAX_DAYS);
-    return Array.from({ length: limitedDiff }, (_, i) => addDays(startDate, i));
+    return Array.from({ length: diff }, (_, i) => addDays(startDate, i));
   }, [startDate, endDate]);
 
-  const totalDays = useMemo(() => {
-    return Math.max(1, differenceInCalendarDays(endDate, startDate) + 1);
-  }, [startDate, endDate]);
-  
+  const [zoom, setZoom] = useState<GanttZoom>(defaultZoom);
+  const { dayWidth, barMinWidth } = ZOOM_LEVELS[zoom];
+  const headerGroups = useMemo(() => getHeaderGroups(days, zoom), [days, zoom]);
+
   // Calculate total width for the scrollable area
-  const scrollableWidth = days.length * DAY_COLUMN_WIDTH;
+  const scrollableWidth = days.length * dayWidth;
+
+  // Scroll position and size of the chart, used to render only the visible rows and days
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const pendingScrollLeft = useRef<number | null>(null);
+  const [viewport, setViewport] = useState({ left: 0, top: 0, ...DEFAULT_VIEWPORT });
+
+  const measure = useCallback(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    setViewport({
+      left: el.scrollLeft,
+      top: el.scrollTop,
+      // Nothing to measure without a layout engine (e.g. jsdom): render everything
+      width: el.clientWidth || Infinity,
+      height: el.clientHeight || Infinity,
+    });
+  }, []);
+
+  useLayoutEffect(() => {
+    measure();
+    const el = scrollRef.current;
+    if (!el || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [measure]);
+
+  // Keep the day at the left edge in place when the zoom level changes
+  useLayoutEffect(() => {
+    if (pendingScrollLeft.current === null || !scrollRef.current) return;
+    scrollRef.current.scrollLeft = pendingScrollLeft.current;
+    pendingScrollLeft.current = null;
+    measure();
+  }, [zoom, measure]);
+
+  const handleZoom = (next: GanttZoom) => {
+    if (next === zoom) return;
+    const leftDay = (scrollRef.current?.scrollLeft ?? 0) / dayWidth;
+    pendingScrollLeft.current = leftDay * ZOOM_LEVELS[next].dayWidth;
+    setZoom(next);
+  };
+
+  const todayIndex = differenceInCalendarDays(new Date(), startDate);
+  const todayInRange = todayIndex >= 0 && todayIndex < days.length;
+
+  const scrollToToday = () => {
+    const el = scrollRef.current;
+    if (!el || !todayInRange) return;
+    const chartWidth = Math.max(0, el.clientWidth - ASSIGNEE_COLUMN_WIDTH);
+    el.scrollLeft = Math.max(0, todayIndex * dayWidth + dayWidth / 2 - chartWidth / 2);
+    measure();
+  };
+
+  // Day columns in view; the assignee column stays pinned over the left of the chart
+  const firstDay = Math.max(0, Math.floor((viewport.left - OVERSCAN_PX) / dayWidth));
+  const lastDay = Math.min(
+    days.length - 1,
+    Math.ceil((viewport.left + viewport.width - ASSIGNEE_COLUMN_WIDTH + OVERSCAN_PX) / dayWidth)
+  );
+  const visibleLeftPx = firstDay * dayWidth;
+  const visibleRightPx = (lastDay + 1) * dayWidth;
+  const visibleGroups = headerGroups.filter((g) => g.startIndex <= lastDay && g.startIndex + g.length > firstDay);
+
+  // Rows in view; each row is followed by a 1px border
+  const rowTops = useMemo(() => {
+    const tops = [0];
+    rows.forEach((row) => tops.push(tops[tops.length - 1] + rowHeightFor(row) + 1));
+    return tops;
+  }, [rows]);
+  let firstRow = 0;
+  while (firstRow < rows.length && rowTops[firstRow + 1] < viewport.top - OVERSCAN_PX) firstRow++;
+  let lastRow = firstRow;
+  while (lastRow < rows.length && rowTops[lastRow] <= viewport.top + viewport.height + OVERSCAN_PX) lastRow++;
+  const visibleRows = rows.slice(firstRow, lastRow);
 
-  const [drag, setDrag] = useState<{ taskId: number; startX: number } | null>(null);
+  const [drag, setDrag] = useState<{ taskId: number; startX: number; preview: Date | null } | null>(null);
+  const [dependencyWarning, setDependencyWarning] = useState<string | null>(null);
   const gridRef = useRef<HTMLDivElement>(null);
 
+  const tasksById = useMemo(() => {
+    const map = new Map<number, GanttTask>();
+    rows.forEach((row) => row.tasks.forEach((t) => map.set(t.id, t)));
+    return map;
+  }, [rows]);
+
+  // Deadlines shown while dragging: the dragged task and, optionally, its open subtasks
+  const previewDeadlines = useMemo(() => {
+    const map = new Map<number, string>();
+    const dragged = drag?.preview ? tasksById.get(drag.taskId) : undefined;
+    if (!drag?.preview || !dragged?.deadline) return map;
+
+    map.set(drag.taskId, drag.preview.toISOString());
+    if (shiftSubtasks) {
+      const delta = drag.preview.getTime() - new Date(dragged.deadline).getTime();
+      tasksById.forEach((t) => {
+        if (t.parentTaskId === drag.taskId && t.deadline && t.status !== 'Completed') {
+          map.set(t.id, new Date(new Date(t.deadline).getTime() + delta).toISOString());
+        }
+      });
+    }
+    return map;
+  }, [drag, tasksById, shiftSubtasks]);
+
+  const withPreview = useCallback(
+    (t: GanttTask): GanttTask => (previewDeadlines.has(t.id) ? { ...t, deadline: previewDeadlines.get(t.id)! } : t),
+    [previewDeadlines]
+  );
+
+  const displayTasksById = useMemo(() => {
+    if (previewDeadlines.size === 0) return tasksById;
+    const map = new Map<number, GanttTask>();
+    tasksById.forEach((t, id) => map.set(id, withPreview(t)));
+    return map;
+  }, [tasksById, previewDeadlines, withPreview]);
+
+  // Dependency arrows, drawn between bars in the same row where possible
+  const arrows = useMemo(() => {
+    const placements = new Map<number, { rowIndex: number; x1: number; x2: number; y: number }[]>();
+    rows.forEach((row, rowIndex) => {
+      row.tasks.forEach((t, i) => {
+        const layout = getBarLayout(withPreview(t), days, startDate, dayWidth);
+        if (!layout) return;
+        const list = placements.get(t.id) ?? [];
+        list.push({
+          rowIndex,
+          x1: layout.barStartPx,
+          x2: layout.barStartPx + Math.max(layout.barWidthPx, barMinWidth),
+          y: rowTops[rowIndex] + 1 + i * BAR_SPACING + BAR_TOP_OFFSET + BAR_HEIGHT / 2, // +1 for the row border
+        });
+        placements.set(t.id, list);
+      });
+    });
+
+    const result: { key: string; d: string; conflict: boolean }[] = [];
+    displayTasksById.forEach((dependent) => {
+      for (const blockerId of dependent.blockedBy ?? []) {
+        const from = placements.get(blockerId);
+        const to = placements.get(dependent.id);
+        if (!from || !to) continue;
+
+        const sameRow = from.flatMap((f) => to.filter((t) => t.rowIndex === f.rowIndex).map((t) => [f, t] as const))[0];
+        const [start, end] = sameRow ?? [from[0], to[0]];
+        result.push({
+          key: `${blockerId}-${dependent.id}`,
+          d: dependencyPath(start.x2, start.y, end.x1, end.y),
+          conflict: conflictingBlockers(dependent, displayTasksById).some((b) => b.id === blockerId),
+        });
+      }
+    });
+    return result;
+  }, [rows, rowTops, days, startDate, dayWidth, barMinWidth, displayTasksById, withPreview]);
+
   const handleMouseDown = (taskId: number, e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
-    setDrag({ taskId, startX: e.clientX });
+    setDrag({ taskId, startX: e.clientX, preview: null });
+  };
+
+  /**
+   * Deadline for the day column under the pointer, keeping the time of day of the
+   * current deadline so subtasks shift by whole days.
+   */
+  const deadlineAtPointer = (taskId: number, clientX: number): Date => {
+    const rect = gridRef.current!.getBoundingClientRect();
+    const x = clientX - rect.left;
+    const dayIndex = Math.floor(x / dayWidth);
+    const clampedDayIndex = Math.min(Math.max(dayIndex, 0), days.length - 1);
+    const newDate = addDays(startDate, clampedDayIndex);
+
+    const current = tasksById.get(taskId)?.deadline;
+    if (current) {
+      const time = new Date(current);
+      newDate.setHours(time.getHours(), time.getMinutes(), time.getSeconds(), time.getMilliseconds());
+    }
+    return newDate;
   };
 
   const handleMouseMove = (e: React.MouseEvent) => {
     if (!drag || !gridRef.current) return;
-    // Visual feedback could be added here if needed
+    const preview = deadlineAtPointer(drag.taskId, e.clientX);
+    if (drag.preview?.getTime() !== preview.getTime()) {
+      setDrag({ ...drag, preview });
+    }
   };
 
   const handleMouseUp = async (e: React.MouseEvent) => {
     if (!drag || !gridRef.current) return;
-    const rect = gridRef.current.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const dayIndex = Math.floor(x / DAY_COLUMN_WIDTH);
-    const clampedDayIndex = Math.min(Math.max(dayIndex, 0), days.length - 1);
-    const newDate = addDays(startDate, clampedDayIndex);
+    const newDate = deadlineAtPointer(drag.taskId, e.clientX);
     const id = drag.taskId;
     setDrag(null);
+
+    // Dropped back on the current deadline: nothing to save
+    const current = tasksById.get(id)?.deadline;
+    if (current && new Date(current).getTime() === newDate.getTime()) return;
+
+    // Warn when the new deadline pushes this task past tasks that wait on it
+    const pushedPast = Array.from(tasksById.values()).filter(
+      (t) =>
+        t.blockedBy?.includes(id) &&
+        t.status !== 'Completed' &&
+        t.deadline &&
+        endOfDay(new Date(t.deadline)) < endOfDay(newDate)
+    );
+    setDependencyWarning(
+      pushedPast.length > 0
+        ? `"${tasksById.get(id)?.title}" now ends after its dependent task(s): ${pushedPast.map((t) => `"${t.title}"`).join(', ')}`
+        : null
+    );
+
     if (onChangeDeadline) await onChangeDeadline(id, newDate);
   };
 
   return (
     <div className="border rounded-md overflow-hidden">
-      {totalDays > MAX_DAYS && (
-        <div className="bg-yellow-500/10 border-b border-yellow-500/20 px-4 py-2 text-sm text-yellow-700 dark:text-yellow-400">
-          ⚠️ Date range exceeds {MAX_DAYS} days. Showing only the first {MAX_DAYS} days for optimal performance.
+      {/* Toolbar */}
+      <div className="flex items-center justify-between gap-2 border-b px-3 py-2">
+        <div className="flex items-center gap-1" role="group" aria-label="Zoom">
+          {(Object.keys(ZOOM_LEVELS) as GanttZoom[]).map((level) => (
+            <Button
+              key={level}
+              type="button"
+              size="sm"
+              variant={zoom === level ? 'secondary' : 'ghost'}
+              aria-pressed={zoom === level}
+              onClick={() => handleZoom(level)}
+            >
+              {ZOOM_LEVELS[level].label}
+            </Button>
+          ))}
+        </div>
+        <Button type="button" size="sm" variant="outline" onClick={scrollToToday} disabled={!todayInRange}>
+          Today
+        </Button>
+      </div>
+
+      {dependencyWarning && (
+        <div
+          role="alert"
+          className="flex items-center justify-between gap-2 bg-amber-500/10 border-b border-amber-500/20 px-4 py-2 text-sm text-amber-700 dark:text-amber-400"
+        >
+          <span>⚠️ {dependencyWarning}</span>
+          <button type="button" className="text-xs underline" onClick={() => setDependencyWarning(null)}>
+            Dismiss
+          </button>
         </div>
       )}
       
       {/* Single scrollable container for entire chart */}
-      <div className="overflow-x-auto">
+      <div
+        ref={scrollRef}
+        className="overflow-x-auto overflow-y-auto"
+        style={{ maxHeight: `${CHART_MAX_HEIGHT}px` }}
+        onScroll={measure}
+        data-testid="gantt-scroll"
+      >
         <div className="flex flex-col" style={{ minWidth: `${ASSIGNEE_COLUMN_WIDTH + scrollableWidth}px` }}>
           
           {/* Header Row */}
-          <div className="flex bg-muted text-muted-foreground text-xs font-medium border-b">
+          <div className="flex sticky top-0 z-20 bg-muted text-muted-foreground text-xs font-medium border-b">
             {/* Fixed Assignee Column Header */}
-            <div className="shrink-0 px-3 py-2 border-r font-semibold" style={{ width: `${ASSIGNEE_COLUMN_WIDTH}px` }}>
+            <div
+              className="shrink-0 sticky left-0 z-10 bg-muted px-3 py-2 border-r font-semibold"
+              style={{ width: `${ASSIGNEE_COLUMN_WIDTH}px` }}
+            >
               Assignee
             </div>
             
             {/* Date Headers */}
-            <div className="flex">
-              {days.map((d, idx) => (
-                <div 
-                  key={idx} 
-                  className="shrink-0 px-2 py-2 border-r last:border-r-0 text-center"
-                  style={{ width: `${DAY_COLUMN_WIDTH}px` }}
-                >
-                  <div className="text-[11px] font-medium">{format(d, 'EEE')}</div>
-                  <div className="text-xs">{format(d, 'MMM d')}</div>
+            <div className="flex flex-col">
+              {headerGroups.length > 0 && (
+                <div className="flex">
+                  <div className="shrink-0" style={{ width: `${(visibleGroups[0]?.startIndex ?? 0) * dayWidth}px` }} />
+                  {visibleGroups.map((g) => (
+                    <div
+                      key={g.key}
+                      className="shrink-0 px-2 py-1 border-r last:border-r-0 text-[11px] font-medium truncate"
+                      style={{ width: `${g.length * dayWidth}px` }}
+                      title={g.label}
+                    >
+                      {g.label}
+                    </div>
+                  ))}
                 </div>
-              ))}
+              )}
+              {zoom !== 'quarter' && (
+                <div className="flex">
+                  <div className="shrink-0" style={{ width: `${visibleLeftPx}px` }} />
+                  {days.slice(firstDay, lastDay + 1).map((d, i) => (
+                    <div 
+                      key={firstDay + i} 
+                      className={cn(
+                        'shrink-0 border-r last:border-r-0 text-center',
+                        zoom === 'week' ? 'px-2 py-2' : 'py-1 text-[10px]'
+                      )}
+                      style={{ width: `${dayWidth}px` }}
+                    >
+                      {zoom === 'week' ? (
+                        <>
+                          <div className="text-[11px] font-medium">{format(d, 'EEE')}</div>
+                          <div className="text-xs">{format(d, 'MMM d')}</div>
+                        </>
+                      ) : (
+                        format(d, 'd')
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           </div>
 
           
           {/* Data Rows */}
-          {rows.map((row) => {
-            const rowHeight = Math.max(64, row.tasks.length * 28 + 16);
+          <div className="relative">
+          <div style={{ height: `${rowTops[firstRow]}px` }} />
+          {visibleRows.map((row) => {
+            const rowHeight = rowHeightFor(row);
             
             return (
-              <div key={row.assigneeId} className="flex border-t">
+              <div key={row.assigneeId} className="flex border-t" data-testid={`gantt-row-${row.assigneeId}`}>
                 {/* Fixed Assignee Column */}
-                <div className="shrink-0 px-3 py-2 border-r bg-background" style={{ width: `${ASSIGNEE_COLUMN_WIDTH}px` }}>
+                <div
+                  className="shrink-0 sticky left-0 z-10 px-3 py-2 border-r bg-background"
+                  style={{ width: `${ASSIGNEE_COLUMN_WIDTH}px` }}
+                >
                   <div className="text-sm font-medium truncate" title={row.assigneeName}>{row.assigneeName}</div>
                   <div className="text-xs text-muted-foreground">{row.tasks.length} task(s)</div>
                 </div>
@@ -129,17 +522,21 @@ export function GanttChart({ rows, startDate, endDate, currentUserId, userRoles
                 >
                   {/* Background Grid */}
                   <div className="flex absolute inset-0">
-                    {days.map((d, idx) => {
+                    <div className="shrink-0" style={{ width: `${visibleLeftPx}px` }} />
+                    {days.slice(firstDay, lastDay + 1).map((d, i) => {
+                      const idx = firstDay + i;
                       const isToday = isSameDay(d, new Date());
                       return (
                         <div
                           key={idx}
                           className={cn(
-                            'shrink-0 border-r last:border-r-0',
+                            'shrink-0',
+                            // Day lines get too dense at quarter zoom; mark month starts instead
+                            zoom === 'quarter' ? d.getDate() === 1 && 'border-l' : 'border-r last:border-r-0',
                             idx % 7 === 0 && 'bg-muted/30',
                             isToday && 'bg-blue-500/10'
                           )}
-                          style={{ width: `${DAY_COLUMN_WIDTH}px`, minHeight: `${rowHeight}px` }}
+                          style={{ width: `${dayWidth}px`, minHeight: `${rowHeight}px` }}
                         />
                       );
                     })}
@@ -148,45 +545,15 @@ export function GanttChart({ rows, startDate, endDate, currentUserId, userRoles
                   {/* Task Bars */}
                   <div className="relative" style={{ minHeight: `${rowHeight}px` }}>
                     {row.tasks.map((t, i) => {
-                      const taskStart = startOfDay(new Date(t.startDate));
-                      // For completed tasks, use updated_at as end date, otherwise use deadline
-                      const isCompleted = t.status === 'Completed';
-                      const taskEnd = isCompleted && t.updatedAt 
-                        ? endOfDay(new Date(t.updatedAt))
-                        : (t.deadline ? endOfDay(new Date(t.deadline)) : null);
-                      
-                      if (!taskEnd) return null;
-                      
-                      // Check if task overlaps with visible date range
-                      const visibleStart = startOfDay(days[0]);
-                      const visibleEnd = endOfDay(days[days.length - 1]);
-                      
-                      // Task is visible if: task ends on/after visible start AND task starts on/before visible end
-                      // This includes tasks that completely span the visible range
-                      if (taskEnd < visibleStart || taskStart > visibleEnd) {
-                        return null; // Task completely outside visible range
-                      }
-                      
-                      // Check if task is overdue (deadline passed and not completed)
-                      const isOverdue = !isCompleted && t.deadline && new Date(t.deadline) < new Date();
-                      
-                      // Calculate position relative to visible days
-                      // Clamp the start/end to the visible range
-                      const clampedStart = taskStart < visibleStart ? visibleStart : taskStart;
-                      const clampedEnd = taskEnd > visibleEnd ? visibleEnd : taskEnd;
-                      
-                      const startDayIndex = Math.max(0, differenceInCalendarDays(clampedStart, startDate));
-                      const endDayIndex = Math.min(days.length - 1, Math.max(0, differenceInCalendarDays(clampedEnd, startDate)));
-                      
-                      // Calculate pixel positions
-                      const barStartPx = startDayIndex * DAY_COLUMN_WIDTH;
-                      const barEndPx = (endDayIndex + 1) * DAY_COLUMN_WIDTH;
-                      const barWidthPx = barEndPx - barStartPx;
-                      
-                      // Indicate if task extends beyond visible range
-                      const extendsLeft = taskStart < visibleStart;
-                      const extendsRight = taskEnd > visibleEnd;
-                      
+                      const previewDeadline = previewDeadlines.get(t.id);
+                      const layout = getBarLayout(withPreview(t), days, startDate, dayWidth);
+                      if (!layout) return null;
+                      // Off-screen bars are skipped; the dragged one always stays
+                      if (!previewDeadline && (layout.barStartPx > visibleRightPx || layout.barStartPx + Math.max(layout.barWidthPx, barMinWidth) < visibleLeftPx)) return null;
+
+                      const { taskStart, taskEnd, isCompleted, isOverdue, barStartPx, barEndPx, barWidthPx, extendsLeft, extendsRight } = layout;
+                      const conflicts = conflictingBlockers(withPreview(t), displayTasksById);
+
                       // Check if user can drag deadline
                       // Managers can drag all tasks, staff can only drag their own tasks
                       const isManager = userRoles.includes('manager');
@@ -194,7 +561,7 @@ export function GanttChart({ rows, startDate, endDate, currentUserId, userRoles
                       const canDragDeadline = isManager || isAssignedToUser;
                     
                     return (
-                      <div key={t.id} className="absolute" style={{ top: `${i * 28 + 8}px`, left: 0, right: 0 }}>
+                      <div key={t.id} className="absolute" style={{ top: `${i * BAR_SPACING + BAR_TOP_OFFSET}px`, left: 0, right: 0 }}>
                         <div className="relative h-6">
                           {/* Left arrow indicator if task extends before visible range */}
                           {extendsLeft && (
@@ -223,14 +590,20 @@ export function GanttChart({ rows, startDate, endDate, currentUserId, userRoles
                               extendsLeft ? "" : "rounded-l",
                               extendsRight ? "" : "rounded-r",
                               // Cursor only if deadline is in visible range and not completed
-                              !isCompleted && !extendsRight ? "cursor-pointer" : ""
+                              !isCompleted && !extendsRight ? "cursor-pointer" : "",
+                              // Due before one of its blockers
+                              conflicts.length > 0 && "ring-2 ring-amber-500",
+                              // Deadline being dragged
+                              previewDeadline && "border-dashed opacity-80"
                             )}
                             style={{ 
                               left: `${barStartPx}px`, 
                               width: `${barWidthPx}px`,
-                              minWidth: '60px'
+                              minWidth: `${barMinWidth}px`
                             }}
-                            title={`${t.project} · ${t.title}\nStatus: ${t.status}${isOverdue ? ' (OVERDUE)' : ''}\nStart: ${format(taskStart, 'PP')}\n${isCompleted ? 'Completed' : 'Deadline'}: ${format(taskEnd, 'PP')}${extendsLeft || extendsRight ? '\n⚠️ Task extends beyond visible range' : ''}`}
+                            data-dependency-conflict={conflicts.length > 0 || undefined}
+                            data-drag-preview={previewDeadline ? true : undefined}
+                            title={`${t.project} · ${t.title}\nStatus: ${t.status}${isOverdue ? ' (OVERDUE)' : ''}\nStart: ${format(taskStart, 'PP')}\n${isCompleted ? 'Completed' : 'Deadline'}: ${format(taskEnd, 'PP')}${extendsLeft || extendsRight ? '\n⚠️ Task extends beyond visible range' : ''}${conflicts.map((b) => `\n⚠️ Due before blocker "${b.title}" (${format(new Date(b.deadline!), 'PP')})`).join('')}`}
                           >
                             <span className="text-xs font-medium truncate">{t.project}</span>
                             <span className="text-xs opacity-70 ml-1 truncate"> · {t.title}</span>
@@ -250,6 +623,17 @@ export function GanttChart({ rows, startDate, endDate, currentUserId, userRoles
                             </div>
                           )}
                           
+                          {/* New deadline while dragging */}
+                          {previewDeadline && !extendsRight && (
+                            <div
+                              className="absolute -top-1 px-1 rounded bg-primary text-primary-foreground text-[10px] font-medium whitespace-nowrap pointer-events-none"
+                              style={{ left: `${barEndPx + 8}px` }}
+                              data-testid={`drag-preview-${t.id}`}
+                            >
+                              {format(new Date(previewDeadline), 'MMM d')}
+                            </div>
+                          )}
+
                           {/* Draggable diamond deadline indicator - only for non-completed tasks, if deadline is visible, and user has permission */}
                           {!isCompleted && !extendsRight && canDragDeadline && (
                             <div
@@ -274,7 +658,49 @@ export function GanttChart({ rows, startDate, endDate, currentUserId, userRoles
             </div>
           );
         })}
-        
+          <div style={{ height: `${rowTops[rows.length] - rowTops[lastRow]}px` }} />
+
+          {/* Today Marker */}
+          {todayInRange && (
+            <div
+              className="absolute top-0 bottom-0 w-0.5 bg-blue-500/70 pointer-events-none"
+              style={{ left: `${ASSIGNEE_COLUMN_WIDTH + todayIndex * dayWidth + dayWidth / 2}px` }}
+              aria-hidden="true"
+              data-testid="today-marker"
+            />
+          )}
+
+          {/* Dependency Arrows */}
+          {arrows.length > 0 && (
+            <svg
+              className="absolute top-0 pointer-events-none overflow-visible"
+              style={{ left: `${ASSIGNEE_COLUMN_WIDTH}px` }}
+              width={scrollableWidth}
+              height="100%"
+              aria-hidden="true"
+              data-testid="dependency-arrows"
+            >
+              <defs>
+                <marker id="gantt-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                  <path d="M 0 0 L 8 4 L 0 8 z" className="fill-muted-foreground" />
+                </marker>
+                <marker id="gantt-arrow-conflict" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                  <path d="M 0 0 L 8 4 L 0 8 z" className="fill-amber-500" />
+                </marker>
+              </defs>
+              {arrows.map((arrow) => (
+                <path
+                  key={arrow.key}
+                  d={arrow.d}
+                  fill="none"
+                  strokeWidth={1.5}
+                  markerEnd={arrow.conflict ? 'url(#gantt-arrow-conflict)' : 'url(#gantt-arrow)'}
+                  className={arrow.conflict ? 'stroke-amber-500' : 'stroke-muted-foreground'}
+                />
+              ))}
+            </svg>
+          )}
+          </div>
         </div>
       </div>
     </div>
@@ -5,8 +5,12 @@ import { DateRangeFilter, DateRangeType, presets } from '@/components/filters/da
 import { ProjectSelector } from '@/components/filters/project-selector';
 import { StaffSelector } from '@/components/filters/staff-selector';
 import GanttChart, { GanttRow } from '@/components/schedule/GanttChart';
+import { WorkloadHeatmap } from '@/components/schedule/WorkloadHeatmap';
 import { addDays, endOfDay, startOfDay } from 'date-fns';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import type { WorkloadOverview } from '@/lib/types/workload';
 
 type Project = { id: number; name: string };
 type Staff = { id: string; first_name: string; last_name: string };
@@ -22,6 +26,11 @@ export default function ScheduleView() {
   const [rows, setRows] = useState<GanttRow[]>([]);
   const [currentUserId, setCurrentUserId] = useState<string | undefined>();
   const [userRoles, setUserRoles] = useState<string[]>([]);
+  const [view, setView] = useState<'timeline' | 'workload'>('timeline');
+  const [workload, setWorkload] = useState<WorkloadOverview | null>(null);
+  const [workloadError, setWorkloadError] = useState<string | null>(null);
+  const [shiftSubtasks, setShiftSubtasks] = useState(false);
+  const [scheduleNotice, setScheduleNotice] = useState<{ type: 'error' | 'info'; message: string } | null>(null);
 
   const startDate = date.startDate ? startOfDay(date.startDate) : startOfDay(new Date());
   const endDate = date.endDate ? endOfDay(date.endDate) : endOfDay(addDays(new Date(), 6));
@@ -86,16 +95,43 @@ export default function ScheduleView() {
     loadStaff();
   }, [selectedProjects.join(',')]);
 
+  const buildParams = () => {
+    const params = new URLSearchParams();
+    params.set('startDate', startDate.toISOString());
+    params.set('endDate', endDate.toISOString());
+    if (selectedProjects.length) params.set('projectIds', selectedProjects.join(','));
+    if (selectedStaffIds.length) params.set('staffIds', selectedStaffIds.join(','));
+    return params;
+  };
+
+  // Load per-day workload for the heatmap
+  const reloadWorkload = async () => {
+    setLoadingData(true);
+    setWorkloadError(null);
+    try {
+      const res = await fetch(`/api/schedule/workload?${buildParams().toString()}`);
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to load workload');
+      }
+      setWorkload(data);
+    } catch (error) {
+      setWorkload(null);
+      setWorkloadError(error instanceof Error ? error.message : 'Failed to load workload');
+    } finally {
+      setLoadingData(false);
+    }
+  };
+
   // Load schedule data
   const reload = async () => {
+    if (view === 'workload') {
+      return reloadWorkload();
+    }
+
     setLoadingData(true);
     try {
-      const params = new URLSearchParams();
-      params.set('startDate', startDate.toISOString());
-      params.set('endDate', endDate.toISOString());
-      if (selectedProjects.length) params.set('projectIds', selectedProjects.join(','));
-      if (selectedStaffIds.length) params.set('staffIds', selectedStaffIds.join(','));
-      
+      const params = buildParams();
       const res = await fetch(`/api/schedule?${params.toString()}`);
       const data = await res.json();
       const grouped: Record<string, GanttRow> = {};
@@ -116,6 +152,8 @@ export default function ScheduleView() {
             deadline: t.deadline,
             status: t.status,
             updatedAt: t.updated_at,
+            blockedBy: t.blocked_by || [],
+            parentTaskId: t.parent_task_id ?? null,
             assignee: { id: a.id, name: `${a.first_name} ${a.last_name}` } 
           });
         });
@@ -131,20 +169,31 @@ export default function ScheduleView() {
   useEffect(() => {
     reload();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [date.startDate?.toISOString(), date.endDate?.toISOString(), selectedProjects.join(','), selectedStaffIds.join(',')]);
+  }, [date.startDate?.toISOString(), date.endDate?.toISOString(), selectedProjects.join(','), selectedStaffIds.join(','), view]);
 
   const handleChangeDeadline = async (taskId: number, newDate: Date) => {
+    setScheduleNotice(null);
     try {
       const response = await fetch('/api/schedule', {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ taskId, deadline: newDate.toISOString() }),
+        body: JSON.stringify({ taskId, deadline: newDate.toISOString(), shiftSubtasks }),
       });
       
       if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
         console.error('Failed to update task deadline');
+        setScheduleNotice({ type: 'error', message: data.error || 'Failed to update deadline' });
         return;
       }
+
+      const result = await response.json().catch(() => null);
+      if (result?.skippedSubtaskIds?.length) {
+        setScheduleNotice({
+          type: 'info',
+          message: `${result.skippedSubtaskIds.length} subtask(s) you cannot edit were not moved.`,
+        });
+      }
       
       reload();
     } catch (error) {
@@ -152,6 +201,26 @@ export default function ScheduleView() {
     }
   };
 
+  const handleChangeCapacity = async (userId: string, weeklyCapacity: number) => {
+    setWorkloadError(null);
+    try {
+      const response = await fetch('/api/schedule/workload', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, weeklyCapacity }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setWorkloadError(data.error || 'Failed to update capacity');
+        return;
+      }
+
+      reloadWorkload();
+    } catch (error) {
+      setWorkloadError('Failed to update capacity');
+    }
+  };
+
   return (
     <div className="space-y-4 p-2 sm:p-4">
       <div className="flex flex-col sm:flex-row sm:flex-wrap gap-2 sm:gap-3 items-stretch sm:items-center">
@@ -171,17 +240,75 @@ export default function ScheduleView() {
         <Button variant="secondary" onClick={reload} disabled={loadingData} className="w-full sm:w-auto">
           Refresh
         </Button>
+        {view === 'timeline' && (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="schedule-shift-subtasks"
+              checked={shiftSubtasks}
+              onCheckedChange={(checked) => setShiftSubtasks(checked === true)}
+            />
+            <Label htmlFor="schedule-shift-subtasks" className="text-sm font-normal">
+              Move subtasks with parent
+            </Label>
+          </div>
+        )}
+        <div className="flex gap-1 sm:ml-auto">
+          <Button
+            variant={view === 'timeline' ? 'default' : 'outline'}
+            onClick={() => setView('timeline')}
+            className="flex-1 sm:flex-none"
+          >
+            Timeline
+          </Button>
+          <Button
+            variant={view === 'workload' ? 'default' : 'outline'}
+            onClick={() => setView('workload')}
+            className="flex-1 sm:flex-none"
+          >
+            Workload
+          </Button>
+        </div>
       </div>
 
       <div className="-mx-2 sm:mx-0">
-        <GanttChart 
-          rows={rows} 
-          startDate={startOfDay(startDate)} 
-          endDate={endOfDay(endDate)} 
-          currentUserId={currentUserId}
-          userRoles={userRoles}
-          onChangeDeadline={handleChangeDeadline} 
-        />
+        {view === 'timeline' ? (
+          <div className="space-y-2">
+            {scheduleNotice && (
+              <div
+                role="status"
+                className={
+                  scheduleNotice.type === 'error'
+                    ? 'p-2 bg-red-100 text-red-800 rounded-md text-sm border border-red-200'
+                    : 'p-2 bg-blue-50 text-blue-800 rounded-md text-sm border border-blue-200'
+                }
+              >
+                {scheduleNotice.message}
+              </div>
+            )}
+            <GanttChart 
+              rows={rows} 
+              startDate={startOfDay(startDate)} 
+              endDate={endOfDay(endDate)} 
+              currentUserId={currentUserId}
+              userRoles={userRoles}
+              onChangeDeadline={handleChangeDeadline} 
+              shiftSubtasks={shiftSubtasks}
+            />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {workloadError && (
+              <div className="p-2 bg-red-100 text-red-800 rounded-md text-sm border border-red-200">{workloadError}</div>
+            )}
+            <WorkloadHeatmap
+              workload={workload}
+              loading={loadingData}
+              currentUserId={currentUserId}
+              canEditOthers={userRoles.includes('manager')}
+              onChangeCapacity={handleChangeCapacity}
+            />
+          </div>
+        )}
       </div>
     </div>
   );
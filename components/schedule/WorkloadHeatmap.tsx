@@ -0,0 +1,183 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import type { UserWorkload, WorkloadOverview } from '@/lib/types/workload';
+
+type Props = {
+  workload: WorkloadOverview | null;
+  loading?: boolean;
+  currentUserId?: string;
+  /** Managers may edit the capacity of the users shown, everyone else only their own */
+  canEditOthers?: boolean;
+  onChangeCapacity?: (userId: string, weeklyCapacity: number) => Promise<void> | void;
+};
+
+const NAME_COLUMN_WIDTH = 200;
+const DAY_COLUMN_WIDTH = 56;
+
+function cellClass(load: number, capacity: number, overCapacity: boolean): string {
+  if (load === 0) return 'bg-muted/30 text-muted-foreground';
+  if (overCapacity) return 'bg-red-500/60 text-white font-semibold ring-1 ring-inset ring-red-600';
+  const ratio = load / capacity;
+  if (ratio > 0.8) return 'bg-amber-400/50';
+  if (ratio > 0.5) return 'bg-green-500/40';
+  return 'bg-green-500/20';
+}
+
+function CapacityEditor({
+  row,
+  editable,
+  onSave,
+}: {
+  row: UserWorkload;
+  editable: boolean;
+  onSave?: (value: number) => Promise<void> | void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [value, setValue] = useState(String(row.weeklyCapacity));
+
+  if (!editable || !onSave) {
+    return <span className="text-xs text-muted-foreground">{row.weeklyCapacity} pts/week</span>;
+  }
+
+  if (!editing) {
+    return (
+      <button
+        type="button"
+        className="text-xs text-muted-foreground hover:underline"
+        onClick={() => {
+          setValue(String(row.weeklyCapacity));
+          setEditing(true);
+        }}
+        aria-label={`Edit weekly capacity of ${row.name}`}
+      >
+        {row.weeklyCapacity} pts/week
+      </button>
+    );
+  }
+
+  return (
+    <form
+      className="flex items-center gap-1"
+      onSubmit={async (e) => {
+        e.preventDefault();
+        await onSave(Number(value));
+        setEditing(false);
+      }}
+    >
+      <Input
+        type="number"
+        min={1}
+        max={200}
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        className="h-6 w-16 px-1 text-xs"
+        aria-label={`Weekly capacity of ${row.name}`}
+      />
+      <Button type="submit" size="sm" variant="ghost" className="h-6 px-2 text-xs">
+        Save
+      </Button>
+    </form>
+  );
+}
+
+/**
+ * Per-assignee, per-day load. A task counts its priority (1-10) in points, spread over
+ * its working days; days above the user's share of their weekly capacity are highlighted.
+ */
+export function WorkloadHeatmap({ workload, loading, currentUserId, canEditOthers, onChangeCapacity }: Props) {
+  if (!workload || workload.users.length === 0) {
+    return (
+      <div className="border rounded-md p-6 text-center text-sm text-muted-foreground">
+        {loading ? 'Loading workload...' : 'No assigned tasks in this period.'}
+      </div>
+    );
+  }
+
+  const days = workload.users[0].days.map((day) => new Date(day.date));
+  const hasOverload = workload.users.some((row) => row.overCapacityDays > 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="border rounded-md overflow-x-auto">
+        <table
+          className="text-xs border-collapse"
+          style={{ minWidth: `${NAME_COLUMN_WIDTH + days.length * DAY_COLUMN_WIDTH}px` }}
+        >
+          <thead>
+            <tr className="bg-muted text-muted-foreground">
+              <th className="text-left font-semibold px-3 py-2 border-r" style={{ width: NAME_COLUMN_WIDTH }}>
+                Assignee
+              </th>
+              {days.map((day) => (
+                <th key={day.toISOString()} className="font-medium px-1 py-2 border-r" style={{ width: DAY_COLUMN_WIDTH }}>
+                  <div>{format(day, 'EEE')}</div>
+                  <div>{format(day, 'd MMM')}</div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {workload.users.map((row) => (
+              <tr key={row.userId} className="border-t" data-testid={`workload-row-${row.userId}`}>
+                <td className="px-3 py-2 border-r align-top">
+                  <div className="font-medium text-sm">{row.name}</div>
+                  <CapacityEditor
+                    row={row}
+                    editable={!!canEditOthers || row.userId === currentUserId}
+                    onSave={onChangeCapacity ? (value) => onChangeCapacity(row.userId, value) : undefined}
+                  />
+                  {row.overCapacityDays > 0 && (
+                    <div className="text-xs text-red-600">{row.overCapacityDays} day(s) over capacity</div>
+                  )}
+                </td>
+                {row.days.map((day, i) => (
+                  <td
+                    key={day.date}
+                    className={cn('text-center border-r px-1 py-2', cellClass(day.load, day.capacity, day.overCapacity))}
+                    data-over-capacity={day.overCapacity || undefined}
+                    title={`${row.name} · ${format(days[i], 'EEE d MMM')}: ${day.load} / ${day.capacity} pts (${day.taskIds.length} task(s))`}
+                  >
+                    {day.load > 0 ? day.load.toFixed(1) : ''}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {workload.canSuggest && hasOverload && (
+        <div className="border rounded-md p-3 space-y-2">
+          <p className="text-sm font-semibold">Suggested reassignments</p>
+          {workload.suggestions.length === 0 ? (
+            <p className="text-xs text-muted-foreground">
+              No colleague in the same department has room for the tasks on over-capacity days.
+            </p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {workload.suggestions.map((s) => (
+                <li key={`${s.taskId}-${s.fromUserId}`}>
+                  Move{' '}
+                  <Link href={`/tasks/${s.taskId}`} className="font-medium hover:underline">
+                    {s.taskTitle}
+                  </Link>{' '}
+                  from {s.fromUserName} to <span className="font-medium">{s.toUserName}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {' '}
+                    (relieves {s.relievedDates.map((d) => format(new Date(d), 'EEE d MMM')).join(', ')})
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
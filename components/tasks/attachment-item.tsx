@@ -1,47 +1,45 @@
 'use client';
 
 import { useState } from 'react';
+import {
+  attachmentContentType,
+  attachmentDownloadUrl,
+  attachmentFileName,
+  attachmentPreviewKind,
+} from '@/lib/utils/attachments';
 
 type AttachmentItemProps = {
+  taskId: number;
   id: number;
   storage_path: string;
-  public_url?: string;
+  file_name?: string | null;
+  content_type?: string | null;
 };
 
-function isImageFile(storagePath: string): boolean {
-  const imageExtensions = ['.png', '.jpg', '.jpeg', '.gif', '.webp'];
-  return imageExtensions.some((ext) => storagePath.toLowerCase().endsWith(ext));
-}
-
-export function AttachmentItem({ id, storage_path, public_url }: AttachmentItemProps) {
+export function AttachmentItem({ taskId, id, storage_path, file_name, content_type }: AttachmentItemProps) {
   const [imageError, setImageError] = useState(false);
-  const fileName = storage_path.split('/').pop() || storage_path;
-
-  if (!public_url) {
-    return (
-      <li key={id}>
-        <span className="text-gray-500">
-          {fileName} <span className="text-xs">(File not found)</span>
-        </span>
-      </li>
-    );
-  }
+  const fileName = file_name || attachmentFileName(storage_path);
+  const contentType = attachmentContentType({ storage_path, content_type });
+  // Redirects to a short-lived signed URL, so the link never goes stale
+  const url = attachmentDownloadUrl(taskId, id);
 
-  if (isImageFile(storage_path)) {
+  if (attachmentPreviewKind(contentType) === 'image') {
     return (
       <li key={id}>
         <div>
           <a
-            href={public_url}
+            href={url}
             target="_blank"
             rel="noopener noreferrer"
             className="text-blue-600 hover:underline"
           >
             {fileName}
           </a>
-          {!imageError && (
+          {imageError ? (
+            <span className="block text-xs text-gray-500">(File not found)</span>
+          ) : (
             <img
-              src={public_url}
+              src={url}
               alt={fileName}
               className="max-w-xs h-auto mt-2 rounded border"
               onError={() => setImageError(true)}
@@ -55,7 +53,7 @@ export function AttachmentItem({ id, storage_path, public_url }: AttachmentItemP
   return (
     <li key={id}>
       <a
-        href={public_url}
+        href={url}
         target="_blank"
         rel="noopener noreferrer"
         className="text-blue-600 hover:underline"
@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { type AttachmentPreviewKind, parseCsv } from '@/lib/utils/attachments';
+
+// Previews show the start of large text files only
+const MAX_TEXT_PREVIEW_CHARS = 20000;
+const MAX_CSV_PREVIEW_ROWS = 50;
+
+type AttachmentPreviewProps = {
+  kind: AttachmentPreviewKind;
+  url: string;
+  fileName: string;
+};
+
+function TextPreview({ kind, url, fileName }: AttachmentPreviewProps) {
+  const [text, setText] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(url)
+      .then((res) => {
+        if (!res.ok) throw new Error('Failed to load preview');
+        return res.text();
+      })
+      .then((body) => {
+        if (!cancelled) setText(body);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load preview');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  if (error) {
+    return <p className="text-xs text-red-500">{error}</p>;
+  }
+
+  if (text === null) {
+    return <p className="text-xs text-muted-foreground">Loading preview...</p>;
+  }
+
+  if (kind === 'csv') {
+    const rows = parseCsv(text, MAX_CSV_PREVIEW_ROWS + 1);
+    const [header, ...body] = rows;
+    if (!header) {
+      return <p className="text-xs text-muted-foreground">Empty file</p>;
+    }
+
+    return (
+      <div className="max-h-80 overflow-auto rounded border">
+        <table className="w-full text-xs" aria-label={`Preview of ${fileName}`}>
+          <thead className="bg-muted sticky top-0">
+            <tr>
+              {header.map((cell, i) => (
+                <th key={i} className="px-2 py-1 text-left font-semibold">
+                  {cell}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {body.slice(0, MAX_CSV_PREVIEW_ROWS).map((row, i) => (
+              <tr key={i} className="border-t">
+                {row.map((cell, j) => (
+                  <td key={j} className="px-2 py-1">
+                    {cell}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {body.length > MAX_CSV_PREVIEW_ROWS && (
+          <p className="px-2 py-1 text-xs text-muted-foreground">
+            Showing the first {MAX_CSV_PREVIEW_ROWS} rows
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  const truncated = text.length > MAX_TEXT_PREVIEW_CHARS;
+  return (
+    <div>
+      <pre className="max-h-80 overflow-auto whitespace-pre-wrap rounded border bg-muted/30 p-2 text-xs">
+        {truncated ? text.slice(0, MAX_TEXT_PREVIEW_CHARS) : text}
+      </pre>
+      {truncated && <p className="text-xs text-muted-foreground">Preview truncated</p>}
+    </div>
+  );
+}
+
+/**
+ * Inline preview of an attachment. Files are loaded through the attachments
+ * route, so previews follow the same access checks as downloads.
+ */
+export function AttachmentPreview({ kind, url, fileName }: AttachmentPreviewProps) {
+  if (kind === 'image') {
+    return <img src={url} alt={fileName} className="max-h-80 max-w-full rounded border" />;
+  }
+
+  if (kind === 'pdf') {
+    return <iframe src={url} title={`Preview of ${fileName}`} className="h-96 w-full rounded border" />;
+  }
+
+  return <TextPreview kind={kind} url={url} fileName={fileName} />;
+}
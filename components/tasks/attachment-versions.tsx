@@ -0,0 +1,126 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { attachmentDownloadUrl, attachmentFileName, formatFileSize } from '@/lib/utils/attachments';
+import type { AttachmentVersion } from '@/lib/types/tasks';
+
+type AttachmentVersionsProps = {
+  taskId: number;
+  attachmentId: number;
+  onRestored?: (attachmentId: number) => void;
+};
+
+/**
+ * Version history of an attachment's document: who uploaded each version and
+ * when, with downloads of older versions and restoring one as current.
+ */
+export function AttachmentVersions({ taskId, attachmentId, onRestored }: AttachmentVersionsProps) {
+  const [versions, setVersions] = useState<AttachmentVersion[] | null>(null);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/tasks/${taskId}/attachments/${attachmentId}/versions`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to load versions');
+        return data.versions as AttachmentVersion[];
+      })
+      .then((loaded) => {
+        if (!cancelled) setVersions(loaded);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load versions');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [taskId, attachmentId]);
+
+  const handleRestore = async (versionId: number) => {
+    setRestoringId(versionId);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/tasks/${taskId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'restoreAttachmentVersion', attachment_id: versionId }),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to restore version');
+      }
+
+      setVersions((prev) =>
+        (prev ?? []).map((version) => ({ ...version, is_current: version.id === versionId }))
+      );
+      onRestored?.(versionId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore version');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (error && versions === null) {
+    return <p className="text-xs text-red-500">{error}</p>;
+  }
+
+  if (versions === null) {
+    return <p className="text-xs text-muted-foreground">Loading versions...</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      <ul className="divide-y rounded border text-xs" aria-label="Version history">
+        {versions.map((version) => {
+          const fileName = version.file_name || attachmentFileName(version.storage_path);
+          const uploader = version.uploader
+            ? `${version.uploader.first_name} ${version.uploader.last_name}`
+            : 'Unknown user';
+
+          return (
+            <li key={version.id} className="flex items-center justify-between gap-2 px-2 py-1.5">
+              <div className="min-w-0">
+                <a
+                  href={attachmentDownloadUrl(taskId, version.id)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-blue-600 hover:underline"
+                >
+                  v{version.version} · {fileName}
+                </a>
+                {version.is_current && (
+                  <span className="ml-2 rounded bg-muted px-1.5 py-0.5 text-[10px] font-semibold">Current</span>
+                )}
+                <p className="text-muted-foreground">
+                  {uploader} · {format(new Date(version.uploaded_at), 'MMM d, yyyy HH:mm')}
+                  {version.size_bytes !== null && ` · ${formatFileSize(version.size_bytes)}`}
+                </p>
+              </div>
+              {!version.is_current && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleRestore(version.id)}
+                  disabled={restoringId !== null}
+                  aria-label={`Restore version ${version.version}`}
+                >
+                  {restoringId === version.id ? 'Restoring...' : 'Restore'}
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
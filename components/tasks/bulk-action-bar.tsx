@@ -0,0 +1,234 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { X } from 'lucide-react';
+import type { BulkTaskAction, BulkTaskResult, Task } from '@/lib/types/tasks';
+
+interface BulkActionBarProps {
+  selectedTasks: Task[];
+  onClear: () => void;
+  /** Called after the server answers, with the IDs of the tasks that could not be updated */
+  onComplete: (failedTaskIds: number[]) => void;
+}
+
+type User = { id: string; first_name: string; last_name: string };
+
+const ACTION_LABELS: Record<BulkTaskAction, string> = {
+  updateStatus: 'Set status',
+  updatePriority: 'Set priority',
+  addTag: 'Add tag',
+  addAssignee: 'Add assignee',
+  updateDeadline: 'Set deadline',
+  archive: 'Archive',
+};
+
+const STATUSES: Task['status'][] = ['To Do', 'In Progress', 'Blocked', 'Completed'];
+
+/**
+ * Applies one action to all selected tasks through PATCH /api/tasks/bulk and
+ * lists the tasks that failed (e.g. no permission) so they stay selected for a retry.
+ */
+export function BulkActionBar({ selectedTasks, onClear, onComplete }: BulkActionBarProps) {
+  const [action, setAction] = useState<BulkTaskAction>('updateStatus');
+  const [value, setValue] = useState('');
+  const [users, setUsers] = useState<User[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [failures, setFailures] = useState<{ taskId: number; title: string; error: string }[]>([]);
+
+  useEffect(() => {
+    if (action !== 'addAssignee' || users.length > 0) return;
+
+    fetch('/api/tasks?action=users')
+      .then((res) => res.json())
+      .then((data) => setUsers(data.users || []))
+      .catch((error) => console.error('Error fetching users:', error));
+  }, [action, users.length]);
+
+  const buildUpdates = (): Record<string, unknown> | null => {
+    switch (action) {
+      case 'updateStatus':
+        return value ? { status: value } : null;
+      case 'updatePriority':
+        return value ? { priority_bucket: Number(value) } : null;
+      case 'addTag':
+        return value.trim() ? { tag_name: value.trim() } : null;
+      case 'addAssignee':
+        return value ? { assignee_id: value } : null;
+      case 'updateDeadline':
+        return value ? { deadline: new Date(`${value}T23:59:59`).toISOString() } : null;
+      case 'archive':
+        return {};
+    }
+  };
+
+  const updates = buildUpdates();
+
+  const handleApply = async () => {
+    if (!updates) return;
+    if (action === 'archive' && !confirm(`Archive ${selectedTasks.length} task(s) and their subtasks?`)) {
+      return;
+    }
+
+    setIsLoading(true);
+    setSummary(null);
+    setFailures([]);
+
+    try {
+      const res = await fetch('/api/tasks/bulk', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ taskIds: selectedTasks.map((t) => t.id), action, ...updates }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to update tasks');
+      }
+
+      const failed = (data.results as BulkTaskResult[]).filter((r) => !r.success);
+      const titles = new Map(selectedTasks.map((t) => [t.id, t.title]));
+
+      setSummary(`Updated ${data.succeeded} of ${data.results.length} task(s).`);
+      setFailures(failed.map((r) => ({ taskId: r.taskId, title: titles.get(r.taskId) ?? `#${r.taskId}`, error: r.error ?? 'Failed' })));
+      setValue('');
+      onComplete(failed.map((r) => r.taskId));
+    } catch (err) {
+      setSummary(err instanceof Error ? err.message : 'Failed to update tasks');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderValueInput = () => {
+    switch (action) {
+      case 'updateStatus':
+        return (
+          <Select value={value} onValueChange={setValue}>
+            <SelectTrigger className="h-9 w-40" aria-label="Status">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              {STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {status}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'updatePriority':
+        return (
+          <Select value={value} onValueChange={setValue}>
+            <SelectTrigger className="h-9 w-32" aria-label="Priority">
+              <SelectValue placeholder="Priority" />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: 10 }, (_, i) => String(10 - i)).map((priority) => (
+                <SelectItem key={priority} value={priority}>
+                  {priority}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'addTag':
+        return (
+          <Input
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder="Tag name"
+            maxLength={50}
+            className="h-9 w-40"
+            aria-label="Tag name"
+          />
+        );
+      case 'addAssignee':
+        return (
+          <Select value={value} onValueChange={setValue}>
+            <SelectTrigger className="h-9 w-48" aria-label="Assignee">
+              <SelectValue placeholder="Assignee" />
+            </SelectTrigger>
+            <SelectContent>
+              {users.map((user) => (
+                <SelectItem key={user.id} value={user.id}>
+                  {user.first_name} {user.last_name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'updateDeadline':
+        return (
+          <Input
+            type="date"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className="h-9 w-40"
+            aria-label="Deadline"
+          />
+        );
+      case 'archive':
+        return null;
+    }
+  };
+
+  return (
+    <div className="rounded-lg border bg-muted/40 p-3 space-y-2" data-testid="bulk-action-bar">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium mr-2">{selectedTasks.length} selected</span>
+        <Select
+          value={action}
+          onValueChange={(newAction) => {
+            setAction(newAction as BulkTaskAction);
+            setValue('');
+          }}
+        >
+          <SelectTrigger className="h-9 w-40" aria-label="Bulk action">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(ACTION_LABELS) as BulkTaskAction[]).map((key) => (
+              <SelectItem key={key} value={key}>
+                {ACTION_LABELS[key]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {renderValueInput()}
+        <Button size="sm" onClick={handleApply} disabled={isLoading || !updates}>
+          {isLoading ? 'Applying...' : 'Apply'}
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onClear} disabled={isLoading} aria-label="Clear selection">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {summary && (
+        <p className="text-sm" role="status">
+          {summary}
+        </p>
+      )}
+      {failures.length > 0 && (
+        <ul className="text-xs text-red-600 space-y-0.5">
+          {failures.map((failure) => (
+            <li key={failure.taskId}>
+              {failure.title}: {failure.error}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
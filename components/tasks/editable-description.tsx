@@ -4,6 +4,8 @@ import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Check, X } from 'lucide-react';
 import { useEffect, useRef, useState } from 'react';
+import { MarkdownContent } from './markdown-content';
+import { MarkdownEditor } from './markdown-editor';
 
 interface EditableDescriptionProps {
   taskId: number;
@@ -28,30 +30,37 @@ export function EditableDescription({
     }
   }, [isEditing]);
 
+  // Saves the description and returns the stored text
+  const saveDescription = async (value: string): Promise<string> => {
+    const res = await fetch(`/api/tasks/${taskId}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        action: 'updateDescription',
+        description: value,
+      }),
+    });
+
+    if (!res.ok) {
+      const errorData = await res.json();
+      throw new Error(errorData.error || 'Failed to update description');
+    }
+
+    const data = await res.json();
+    return data.description ?? value;
+  };
+
   const handleSave = async () => {
     setIsLoading(true);
     setError(null);
 
     try {
-      const res = await fetch(`/api/tasks/${taskId}`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          action: 'updateDescription',
-          description,
-        }),
-      });
-
-      if (!res.ok) {
-        const errorData = await res.json();
-        throw new Error(errorData.error || 'Failed to update description');
-      }
-
-      const data = await res.json();
+      const saved = await saveDescription(description);
+      setDescription(saved);
       setIsEditing(false);
-      onDescriptionUpdate?.(description);
+      onDescriptionUpdate?.(saved);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
@@ -59,6 +68,21 @@ export function EditableDescription({
     }
   };
 
+  // Checklist items are toggled in place, without entering edit mode
+  const handleToggleTask = async (updated: string) => {
+    const previous = description;
+    setDescription(updated);
+    setError(null);
+
+    try {
+      const saved = await saveDescription(updated);
+      onDescriptionUpdate?.(saved);
+    } catch (err) {
+      setDescription(previous);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  };
+
   const handleCancel = () => {
     setDescription(initialDescription || '');
     setIsEditing(false);
@@ -72,14 +96,16 @@ export function EditableDescription({
     return (
       <div className={containerClasses}>
         <div className="space-y-3">
-          <Textarea
-            ref={textareaRef}
-            value={description}
-            onChange={(e) => setDescription(e.target.value)}
-            placeholder="Enter task description..."
-            className="min-h-[120px] resize-none text-base"
-            disabled={isLoading}
-          />
+          <MarkdownEditor value={description}>
+            <Textarea
+              ref={textareaRef}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Enter task description... Markdown and - [ ] checklists are supported"
+              className="min-h-[120px] resize-none text-base"
+              disabled={isLoading}
+            />
+          </MarkdownEditor>
           {error && <p className="text-sm text-red-500">{error}</p>}
           <div className="flex gap-2">
             <Button
@@ -112,10 +138,11 @@ export function EditableDescription({
       className={`${containerClasses} border border-transparent rounded-md hover:border-gray-300 dark:hover:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800 cursor-text transition-all`}
     >
       {description ? (
-        <p className="text-base whitespace-pre-wrap">{description}</p>
+        <MarkdownContent content={description} onContentChange={handleToggleTask} className="text-base" />
       ) : (
         <p className="text-base text-gray-400 italic">Add a description...</p>
       )}
+      {error && <p className="text-sm text-red-500 mt-2">{error}</p>}
     </div>
   );
 }
\ No newline at end of file
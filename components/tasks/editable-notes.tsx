@@ -6,6 +6,8 @@ import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 import { Check, X } from "lucide-react"
 import { useEffect, useRef, useState } from "react"
+import { MarkdownContent } from "./markdown-content"
+import { MarkdownEditor } from "./markdown-editor"
 
 interface EditableNotesProps {
   taskId: number
@@ -47,8 +49,12 @@ export function EditableNotes({ taskId, initialNotes, onNotesUpdate }: EditableN
         throw new Error(errorData.error || "Failed to update notes")
       }
 
+      // Keep what the server stored
+      const data = await res.json()
+      const saved = data.notes ?? notes.trim()
+      setNotes(saved)
       setIsEditing(false)
-      onNotesUpdate?.(notes.trim())
+      onNotesUpdate?.(saved)
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred")
     } finally {
@@ -73,15 +79,19 @@ export function EditableNotes({ taskId, initialNotes, onNotesUpdate }: EditableN
   if (isEditing) {
     return (
       <div>
-        <Textarea
-          ref={textareaRef}
-          value={notes}
-          onChange={(e) => setNotes(e.target.value)}
-          onKeyDown={handleKeyDown}
-          placeholder="Add notes..."
-          className="min-h-[120px] resize-none text-base mb-3"
-          disabled={isLoading}
-        />
+        <div className="mb-3">
+          <MarkdownEditor value={notes}>
+            <Textarea
+              ref={textareaRef}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Add notes..."
+              className="min-h-[120px] resize-none text-base"
+              disabled={isLoading}
+            />
+          </MarkdownEditor>
+        </div>
         {error && (
           <div className="text-sm text-red-500 bg-red-50 dark:bg-red-950 p-3 rounded-md border border-red-200 dark:border-red-800 mb-3">
             {error}
@@ -108,7 +118,7 @@ export function EditableNotes({ taskId, initialNotes, onNotesUpdate }: EditableN
       className="cursor-pointer p-3 border border-transparent rounded-md hover:border-muted-foreground/25 hover:bg-muted/50 transition-all min-h-[60px]"
     >
       {notes ? (
-        <p className="text-base whitespace-pre-wrap">{notes}</p>
+        <MarkdownContent content={notes} className="text-base" />
       ) : (
         <p className="text-base text-muted-foreground italic">Click to add notes...</p>
       )}
@@ -3,9 +3,21 @@
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Calendar } from "@/components/ui/calendar"
+import { Input } from "@/components/ui/input"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { cn } from "@/lib/utils"
+import {
+  RECURRENCE_PRESETS,
+  RRULE_WEEKDAYS,
+  describeRRule,
+  formatRRule,
+  intervalToRRule,
+  parseRRule,
+  type RecurrenceRule,
+  type RRuleFrequency,
+  type RRuleWeekday,
+} from "@/lib/utils/rrule"
 import { format } from "date-fns"
 import { CalendarIcon, Pencil, Check, X } from "lucide-react"
 import { useState } from "react"
@@ -14,47 +26,125 @@ interface EditableRecurrenceProps {
   taskId: number
   recurrenceInterval: number
   recurrenceDate: string | null
+  recurrenceRule?: string | null
 }
 
-const RECURRENCE_OPTIONS = [
-  { value: 0, label: "No Recurrence" },
-  { value: 1, label: "Daily" },
-  { value: 7, label: "Weekly" },
-  { value: 30, label: "Monthly" },
+type EndMode = "never" | "until" | "count"
+
+const LAST_BUSINESS_DAY: Pick<RecurrenceRule, "byDay" | "bySetPos"> = {
+  byDay: ["MO", "TU", "WE", "TH", "FR"].map((weekday) => ({ weekday: weekday as RRuleWeekday })),
+  bySetPos: [-1],
+}
+
+const FREQUENCY_OPTIONS: { value: RRuleFrequency; label: string }[] = [
+  { value: "DAILY", label: "day(s)" },
+  { value: "WEEKLY", label: "week(s)" },
+  { value: "MONTHLY", label: "month(s)" },
+  { value: "YEARLY", label: "year(s)" },
 ]
 
+const DEFAULT_RULE: RecurrenceRule = { freq: "WEEKLY", interval: 1 }
+
+function toRule(rule: string | null | undefined, interval: number): RecurrenceRule | null {
+  if (rule) {
+    try {
+      return parseRRule(rule)
+    } catch {
+      return null
+    }
+  }
+  return intervalToRRule(interval)
+}
+
+/** Preset id matching the repeating part of a rule (end conditions ignored), or "custom". */
+function getPresetId(rule: RecurrenceRule): string {
+  const pattern = formatRRule({ ...rule, count: undefined, until: undefined })
+  return RECURRENCE_PRESETS.find((preset) => preset.rule === pattern)?.id ?? "custom"
+}
+
+function getEndMode(rule: RecurrenceRule): EndMode {
+  if (rule.count !== undefined) return "count"
+  if (rule.until) return "until"
+  return "never"
+}
+
 export function EditableRecurrence({
   taskId,
   recurrenceInterval: initialInterval,
   recurrenceDate: initialDate,
+  recurrenceRule: initialRule,
 }: EditableRecurrenceProps) {
   const [isEditing, setIsEditing] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
-  const [displayInterval, setDisplayInterval] = useState<number>(initialInterval)
+  const [displayRule, setDisplayRule] = useState<RecurrenceRule | null>(() => toRule(initialRule, initialInterval))
   const [displayDate, setDisplayDate] = useState<string | null>(initialDate)
 
-  const [selectedInterval, setSelectedInterval] = useState<number>(initialInterval)
+  const [selectedPreset, setSelectedPreset] = useState<string>(displayRule ? getPresetId(displayRule) : "none")
+  const [draft, setDraft] = useState<RecurrenceRule>(displayRule ?? DEFAULT_RULE)
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(initialDate ? new Date(initialDate) : undefined)
 
-  const getRecurrenceLabel = (interval: number): string => {
-    return RECURRENCE_OPTIONS.find((opt) => opt.value === interval)?.label || "Unknown"
-  }
+  const endMode = getEndMode(draft)
+  const isMonthlyLastBusinessDay = draft.freq === "MONTHLY" && !!draft.bySetPos
 
   const handleCancel = () => {
     setIsEditing(false)
-    setSelectedInterval(displayInterval)
+    setSelectedPreset(displayRule ? getPresetId(displayRule) : "none")
+    setDraft(displayRule ?? DEFAULT_RULE)
     setSelectedDate(displayDate ? new Date(displayDate) : undefined)
     setError(null)
   }
 
+  const handlePresetChange = (presetId: string) => {
+    setSelectedPreset(presetId)
+    if (presetId === "none") {
+      setSelectedDate(undefined)
+      return
+    }
+
+    const preset = RECURRENCE_PRESETS.find((p) => p.id === presetId)
+    if (preset) {
+      // Keep the end condition the user already picked
+      setDraft({ ...parseRRule(preset.rule), count: draft.count, until: draft.until })
+    }
+  }
+
+  const handleFrequencyChange = (freq: RRuleFrequency) => {
+    setDraft({ freq, interval: draft.interval, count: draft.count, until: draft.until })
+  }
+
+  const toggleWeekday = (weekday: RRuleWeekday) => {
+    const current = draft.byDay?.map((d) => d.weekday) ?? []
+    const next = current.includes(weekday) ? current.filter((d) => d !== weekday) : [...current, weekday]
+    const ordered = RRULE_WEEKDAYS.filter((d) => next.includes(d))
+    setDraft({ ...draft, byDay: ordered.length ? ordered.map((d) => ({ weekday: d })) : undefined })
+  }
+
+  const handleMonthlyModeChange = (mode: string) => {
+    if (mode === "last-business-day") {
+      setDraft({ ...draft, ...LAST_BUSINESS_DAY })
+    } else {
+      setDraft({ ...draft, byDay: undefined, bySetPos: undefined })
+    }
+  }
+
+  const handleEndModeChange = (mode: EndMode) => {
+    setDraft({
+      ...draft,
+      count: mode === "count" ? draft.count ?? 10 : undefined,
+      until: mode === "until" ? draft.until ?? format(selectedDate ?? new Date(), "yyyy-MM-dd") : undefined,
+    })
+  }
+
   const handleSave = async () => {
     setError(null)
     setIsLoading(true)
 
     try {
-      if (selectedInterval > 0 && !selectedDate) {
+      const rule = selectedPreset === "none" ? null : formatRRule(draft)
+
+      if (rule && !selectedDate) {
         setError("Please select a recurrence start date")
         setIsLoading(false)
         return
@@ -67,8 +157,9 @@ export function EditableRecurrence({
         },
         body: JSON.stringify({
           action: "updateRecurrence",
-          recurrenceInterval: selectedInterval,
-          recurrenceDate: selectedDate ? selectedDate.toISOString() : null,
+          recurrenceInterval: rule ? undefined : 0,
+          recurrenceRule: rule,
+          recurrenceDate: rule && selectedDate ? selectedDate.toISOString() : null,
         }),
       })
 
@@ -77,8 +168,10 @@ export function EditableRecurrence({
         throw new Error(errorData.error || "Failed to update recurrence")
       }
 
-      setDisplayInterval(selectedInterval)
-      setDisplayDate(selectedDate ? selectedDate.toISOString() : null)
+      const data = await res.json()
+      const savedRule = toRule(data.recurrence?.recurrence_rule ?? rule, 0)
+      setDisplayRule(savedRule)
+      setDisplayDate(savedRule && selectedDate ? selectedDate.toISOString() : null)
       setIsEditing(false)
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : "Failed to update recurrence"
@@ -92,10 +185,10 @@ export function EditableRecurrence({
   if (!isEditing) {
     return (
       <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg border border-transparent hover:border-muted-foreground/25 transition-colors">
-        <div className="flex items-center gap-3">
-          {displayInterval > 0 ? (
+        <div className="flex flex-wrap items-center gap-3">
+          {displayRule ? (
             <>
-              <Badge variant="secondary">{getRecurrenceLabel(displayInterval)}</Badge>
+              <Badge variant="secondary">{describeRRule(displayRule)}</Badge>
               {displayDate && (
                 <span className="text-sm text-muted-foreground">
                   Since {format(new Date(displayDate), "MMM d, yyyy")}
@@ -106,7 +199,13 @@ export function EditableRecurrence({
             <span className="text-sm text-muted-foreground">No recurrence set</span>
           )}
         </div>
-        <Button size="sm" variant="ghost" onClick={() => setIsEditing(true)} className="h-8 w-8 p-0">
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => setIsEditing(true)}
+          className="h-8 w-8 p-0"
+          aria-label="Edit recurrence"
+        >
           <Pencil className="w-4 h-4" />
         </Button>
       </div>
@@ -123,55 +222,157 @@ export function EditableRecurrence({
 
       <div className="space-y-2">
         <label className="block text-sm font-medium">Recurrence Pattern</label>
-        <Select
-          value={selectedInterval.toString()}
-          onValueChange={(v) => {
-            const interval = Number.parseInt(v)
-            setSelectedInterval(interval)
-            if (interval === 0) {
-              setSelectedDate(undefined)
-            }
-          }}
-        >
+        <Select value={selectedPreset} onValueChange={handlePresetChange}>
           <SelectTrigger className="w-full">
             <SelectValue />
           </SelectTrigger>
           <SelectContent>
-            {RECURRENCE_OPTIONS.map((option) => (
-              <SelectItem key={option.value} value={option.value.toString()}>
-                {option.label}
+            <SelectItem value="none">No Recurrence</SelectItem>
+            {RECURRENCE_PRESETS.map((preset) => (
+              <SelectItem key={preset.id} value={preset.id}>
+                {preset.label}
               </SelectItem>
             ))}
+            <SelectItem value="custom">Custom...</SelectItem>
           </SelectContent>
         </Select>
       </div>
 
-      {selectedInterval > 0 && (
-        <div className="space-y-2">
-          <label className="block text-sm font-medium">Start Date</label>
-          <Popover>
-            <PopoverTrigger asChild>
-              <Button
-                variant="outline"
-                className={cn("w-full justify-start text-left font-normal", !selectedDate && "text-muted-foreground")}
-              >
-                <CalendarIcon className="mr-2 h-4 w-4" />
-                {selectedDate ? format(selectedDate, "MMM d, yyyy") : "Pick a date"}
-              </Button>
-            </PopoverTrigger>
-            <PopoverContent className="w-auto p-0">
-              <Calendar
-                mode="single"
-                selected={selectedDate}
-                onSelect={setSelectedDate}
-                disabled={(date) => date < new Date()}
-                initialFocus
-              />
-            </PopoverContent>
-          </Popover>
+      {selectedPreset === "custom" && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <span className="text-sm">Every</span>
+            <Input
+              type="number"
+              min={1}
+              max={999}
+              value={draft.interval}
+              onChange={(e) => setDraft({ ...draft, interval: Math.max(1, Number.parseInt(e.target.value) || 1) })}
+              className="h-9 w-20"
+              aria-label="Repeat interval"
+            />
+            <Select value={draft.freq} onValueChange={(v) => handleFrequencyChange(v as RRuleFrequency)}>
+              <SelectTrigger className="h-9 w-32" aria-label="Repeat unit">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FREQUENCY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {draft.freq === "WEEKLY" && (
+            <div className="flex flex-wrap gap-1" role="group" aria-label="Repeat on">
+              {RRULE_WEEKDAYS.map((weekday) => {
+                const isSelected = draft.byDay?.some((d) => d.weekday === weekday) ?? false
+                return (
+                  <Button
+                    key={weekday}
+                    type="button"
+                    size="sm"
+                    variant={isSelected ? "default" : "outline"}
+                    aria-pressed={isSelected}
+                    onClick={() => toggleWeekday(weekday)}
+                    className="h-8 w-10 p-0"
+                  >
+                    {weekday.charAt(0) + weekday.charAt(1).toLowerCase()}
+                  </Button>
+                )
+              })}
+            </div>
+          )}
+
+          {draft.freq === "MONTHLY" && (
+            <Select
+              value={isMonthlyLastBusinessDay ? "last-business-day" : "day"}
+              onValueChange={handleMonthlyModeChange}
+            >
+              <SelectTrigger className="w-full" aria-label="Monthly on">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="day">On the same day each month</SelectItem>
+                <SelectItem value="last-business-day">On the last business day</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
         </div>
       )}
 
+      {selectedPreset !== "none" && (
+        <>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium">Start Date</label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  className={cn("w-full justify-start text-left font-normal", !selectedDate && "text-muted-foreground")}
+                >
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {selectedDate ? format(selectedDate, "MMM d, yyyy") : "Pick a date"}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0">
+                <Calendar
+                  mode="single"
+                  selected={selectedDate}
+                  onSelect={setSelectedDate}
+                  disabled={(date) => date < new Date()}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium">Ends</label>
+            <div className="flex items-center gap-2">
+              <Select value={endMode} onValueChange={(v) => handleEndModeChange(v as EndMode)}>
+                <SelectTrigger className="w-40" aria-label="Ends">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="never">Never</SelectItem>
+                  <SelectItem value="until">On date</SelectItem>
+                  <SelectItem value="count">After</SelectItem>
+                </SelectContent>
+              </Select>
+              {endMode === "until" && (
+                <Input
+                  type="date"
+                  value={draft.until ?? ""}
+                  onChange={(e) => setDraft({ ...draft, until: e.target.value || undefined })}
+                  className="h-9"
+                  aria-label="End date"
+                />
+              )}
+              {endMode === "count" && (
+                <>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={draft.count}
+                    onChange={(e) => setDraft({ ...draft, count: Math.max(1, Number.parseInt(e.target.value) || 1) })}
+                    className="h-9 w-20"
+                    aria-label="Occurrences"
+                  />
+                  <span className="text-sm">occurrences</span>
+                </>
+              )}
+            </div>
+          </div>
+
+          <p className="text-sm text-muted-foreground" data-testid="recurrence-summary">
+            {describeRRule(draft)}
+          </p>
+        </>
+      )}
+
       <div className="flex gap-2">
         <Button size="sm" onClick={handleSave} disabled={isLoading} className="flex-1 bg-green-600 hover:bg-green-700">
           <Check className="w-4 h-4 mr-1" />
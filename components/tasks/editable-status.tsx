@@ -32,16 +32,30 @@ export function EditableStatus({ taskId, initialStatus, onStatusUpdate }: Editab
     setIsLoading(true);
 
     try {
-      const res = await fetch(`/api/tasks/${taskId}`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          action: 'updateStatus',
-          status: newStatus,
-        }),
-      });
+      const sendStatus = (force: boolean) =>
+        fetch(`/api/tasks/${taskId}`, {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            action: 'updateStatus',
+            status: newStatus,
+            force,
+          }),
+        });
+
+      let res = await sendStatus(false);
+
+      // Starting a task with open blockers needs explicit confirmation
+      if (res.status === 409) {
+        const errorData = await res.json();
+        if (!errorData.blocked || !confirm(`${errorData.error}.\n\nStart anyway?`)) {
+          setIsEditing(false);
+          return;
+        }
+        res = await sendStatus(true);
+      }
 
       if (!res.ok) {
         const errorData = await res.json();
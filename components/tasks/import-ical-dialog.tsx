@@ -0,0 +1,206 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { UploadIcon } from 'lucide-react';
+import { format } from 'date-fns';
+import type { ICalImportResult, ICalImportSummary } from '@/lib/types/ical-import';
+import { ProjectSingleSelector } from './project-single-selector';
+
+interface ImportICalDialogProps {
+  onImported?: () => void;
+}
+
+const ACTION_LABELS: Record<ICalImportResult['action'], { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+  create: { label: 'New', variant: 'default' },
+  update: { label: 'Update', variant: 'secondary' },
+  skip: { label: 'Skipped', variant: 'secondary' },
+  error: { label: 'Error', variant: 'destructive' },
+};
+
+/**
+ * Imports tasks from an .ics file. The file is previewed with a dry run first so
+ * the user can see which events become new tasks, which update earlier imports,
+ * and which cannot be imported, before anything is written.
+ */
+export function ImportICalDialog({ onImported }: ImportICalDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [projectId, setProjectId] = useState<number | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ICalImportSummary | null>(null);
+  const [imported, setImported] = useState<ICalImportSummary | null>(null);
+
+  const resetForm = () => {
+    setError(null);
+    setProjectId(null);
+    setFile(null);
+    setPreview(null);
+    setImported(null);
+  };
+
+  const runImport = async (dryRun: boolean): Promise<ICalImportSummary | null> => {
+    if (!file || !projectId) {
+      setError('Please select a project and a calendar file');
+      return null;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('projectId', String(projectId));
+      formData.append('dryRun', String(dryRun));
+
+      const response = await fetch('/api/tasks/import', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import calendar');
+      }
+
+      return data as ICalImportSummary;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import calendar');
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    const summary = await runImport(true);
+    if (summary) setPreview(summary);
+  };
+
+  const handleImport = async () => {
+    const summary = await runImport(false);
+    if (summary) {
+      setImported(summary);
+      onImported?.();
+    }
+  };
+
+  const summary = imported ?? preview;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(newOpen) => {
+        setOpen(newOpen);
+        if (!newOpen) resetForm();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <UploadIcon className="h-4 w-4" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:!max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import from calendar</DialogTitle>
+          <DialogDescription>
+            Create tasks from the events and to-dos of an .ics file. Importing the same file again updates the tasks it created.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="p-3 bg-red-100 text-red-800 rounded-md text-sm border border-red-200">{error}</div>
+        )}
+
+        {!summary ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Project *</Label>
+              <ProjectSingleSelector selectedProjectId={projectId} onChange={setProjectId} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ical-file">Calendar file *</Label>
+              <Input
+                id="ical-file"
+                type="file"
+                accept=".ics,text/calendar"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm" data-testid="import-summary">
+              {imported
+                ? `Imported: ${summary.created} created, ${summary.updated} updated, ${summary.skipped} skipped, ${summary.failed} failed.`
+                : `Preview: ${summary.created} new, ${summary.updated} to update, ${summary.skipped} skipped, ${summary.failed} with errors.`}
+            </p>
+            <div className="border rounded-lg divide-y max-h-[50vh] overflow-y-auto">
+              {summary.results.map((result) => (
+                <div key={result.index} className="flex items-start justify-between gap-3 px-3 py-2 text-sm">
+                  <div className="min-w-0 space-y-0.5">
+                    <div className="font-medium truncate">{result.title || `Event ${result.index}`}</div>
+                    {result.deadline && (
+                      <div className="text-xs text-gray-500">
+                        Due {format(new Date(result.deadline), 'MMM d, yyyy')}
+                        {result.tags && result.tags.length > 0 && ` · ${result.tags.join(', ')}`}
+                        {result.recurrence_rule && ' · Recurring'}
+                      </div>
+                    )}
+                    {result.error && <div className="text-xs text-red-600">{result.error}</div>}
+                    {result.warnings.map((warning) => (
+                      <div key={warning} className="text-xs text-amber-600">
+                        {warning}
+                      </div>
+                    ))}
+                  </div>
+                  <Badge variant={ACTION_LABELS[result.action].variant}>{ACTION_LABELS[result.action].label}</Badge>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {imported ? (
+            <Button type="button" onClick={() => setOpen(false)}>
+              Done
+            </Button>
+          ) : preview ? (
+            <>
+              <Button type="button" variant="outline" onClick={() => setPreview(null)} disabled={loading}>
+                Back
+              </Button>
+              <Button
+                type="button"
+                onClick={handleImport}
+                disabled={loading || preview.created + preview.updated === 0}
+              >
+                {loading ? 'Importing...' : `Import ${preview.created + preview.updated} tasks`}
+              </Button>
+            </>
+          ) : (
+            <Button type="button" onClick={handlePreview} disabled={loading || !file || !projectId}>
+              {loading ? 'Reading...' : 'Preview'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
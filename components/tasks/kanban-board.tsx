@@ -1,6 +1,281 @@
 'use client';
-import { NextResponse } from 'next/server';
 
-export async function GET() {
-  return NextResponse.json({ message: 'placeholder' });
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { AlertCircle, Calendar, Repeat } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { cn } from '@/lib/utils';
+import type { Task } from '@/lib/types/tasks';
+import { useTaskFilters, applyTaskFilters, TASK_STATUSES } from '@/hooks/use-task-filters';
+import { TaskFilterControls } from './task-filter-controls';
+
+type TaskStatus = Task['status'];
+
+interface KanbanBoardProps {
+  tasks: Task[];
+}
+
+// Column order follows the usual task lifecycle rather than TASK_STATUSES order
+const COLUMNS: TaskStatus[] = ['To Do', 'In Progress', 'Blocked', 'Completed'];
+
+const COLUMN_ACCENTS: Record<TaskStatus, string> = {
+  'To Do': 'border-t-border',
+  'In Progress': 'border-t-secondary',
+  Blocked: 'border-t-destructive',
+  Completed: 'border-t-primary',
+};
+
+const getPriorityVariant = (priority: number) => {
+  if (priority >= 8) return 'destructive';
+  if (priority >= 4) return 'secondary';
+  return 'outline';
+};
+
+/**
+ * Kanban board with one column per task status.
+ * Dropping a card on another column updates the task status through the
+ * tasks API, so recurring tasks still spawn their next instance on completion.
+ */
+export default function KanbanBoard({ tasks }: KanbanBoardProps) {
+  const router = useRouter();
+  const { filters, setFilters, clearFilters, projects, tags } = useTaskFilters(tasks);
+  const [statusOverrides, setStatusOverrides] = useState<Record<number, TaskStatus>>({});
+  const [draggedTaskId, setDraggedTaskId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<TaskStatus | null>(null);
+  const [pendingTaskIds, setPendingTaskIds] = useState<number[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Apply optimistic status changes before filtering so cards move immediately
+  const boardTasks = applyTaskFilters(
+    tasks.map((task) =>
+      statusOverrides[task.id] ? { ...task, status: statusOverrides[task.id] } : task
+    ),
+    filters
+  );
+
+  const visibleColumns =
+    filters.statuses.length > 0 ? COLUMNS.filter((s) => filters.statuses.includes(s)) : COLUMNS;
+
+  const moveTask = async (taskId: number, newStatus: TaskStatus) => {
+    const task = tasks.find((t) => t.id === taskId);
+    if (!task) return;
+
+    const currentStatus = statusOverrides[taskId] ?? task.status;
+    if (currentStatus === newStatus) return;
+
+    setError(null);
+    setStatusOverrides((prev) => ({ ...prev, [taskId]: newStatus }));
+    setPendingTaskIds((prev) => [...prev, taskId]);
+
+    try {
+      const res = await fetch(`/api/tasks/${taskId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          action: 'updateStatus',
+          status: newStatus,
+        }),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to update status');
+      }
+
+      // Refresh server data so newly spawned recurring instances appear
+      router.refresh();
+    } catch (err) {
+      console.error('Failed to update status:', err);
+      setStatusOverrides((prev) => ({ ...prev, [taskId]: currentStatus }));
+      setError(
+        `Could not move "${task.title}": ${err instanceof Error ? err.message : 'Failed to update status'}`
+      );
+    } finally {
+      setPendingTaskIds((prev) => prev.filter((id) => id !== taskId));
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, status: TaskStatus) => {
+    e.preventDefault();
+    const taskId = Number(e.dataTransfer.getData('text/plain')) || draggedTaskId;
+    setDropTarget(null);
+    setDraggedTaskId(null);
+    if (taskId) moveTask(taskId, status);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Filter Bar */}
+      <div className="flex flex-wrap items-center justify-end gap-2 bg-background p-4 rounded-lg border">
+        <TaskFilterControls
+          filters={filters}
+          onChange={setFilters}
+          onClear={clearFilters}
+          statuses={TASK_STATUSES}
+          projects={projects}
+          tags={tags}
+        />
+      </div>
+
+      {error && (
+        <div
+          role="alert"
+          className="flex items-center gap-2 rounded-md border border-destructive/50 bg-destructive/10 px-4 py-2 text-sm text-destructive"
+        >
+          <AlertCircle className="h-4 w-4 shrink-0" />
+          {error}
+        </div>
+      )}
+
+      <div className="grid gap-4 grid-cols-1 md:grid-cols-2 xl:grid-cols-4">
+        {visibleColumns.map((status) => {
+          const columnTasks = boardTasks.filter((task) => task.status === status);
+
+          return (
+            <section
+              key={status}
+              aria-label={`${status} column`}
+              data-testid={`kanban-column-${status}`}
+              onDragOver={(e) => {
+                e.preventDefault();
+                e.dataTransfer.dropEffect = 'move';
+                if (dropTarget !== status) setDropTarget(status);
+              }}
+              onDragLeave={() => setDropTarget((prev) => (prev === status ? null : prev))}
+              onDrop={(e) => handleDrop(e, status)}
+              className={cn(
+                'flex flex-col rounded-lg border border-t-4 bg-muted/30 min-h-[300px] transition-colors',
+                COLUMN_ACCENTS[status],
+                dropTarget === status && 'bg-accent/60 ring-2 ring-ring'
+              )}
+            >
+              <header className="flex items-center justify-between px-3 py-2 border-b">
+                <h3 className="text-sm font-semibold">{status}</h3>
+                <Badge variant="outline" className="text-xs">
+                  {columnTasks.length}
+                </Badge>
+              </header>
+
+              <div className="flex flex-col gap-2 p-2">
+                {columnTasks.length === 0 ? (
+                  <p className="py-6 text-center text-xs text-muted-foreground">No tasks</p>
+                ) : (
+                  columnTasks.map((task) => (
+                    <KanbanCard
+                      key={task.id}
+                      task={task}
+                      isPending={pendingTaskIds.includes(task.id)}
+                      isDragging={draggedTaskId === task.id}
+                      onDragStart={(e) => {
+                        e.dataTransfer.setData('text/plain', String(task.id));
+                        e.dataTransfer.effectAllowed = 'move';
+                        setDraggedTaskId(task.id);
+                      }}
+                      onDragEnd={() => {
+                        setDraggedTaskId(null);
+                        setDropTarget(null);
+                      }}
+                      onClick={() => router.push(`/tasks/${task.id}`)}
+                    />
+                  ))
+                )}
+              </div>
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+interface KanbanCardProps {
+  task: Task;
+  isPending: boolean;
+  isDragging: boolean;
+  onDragStart: (e: React.DragEvent) => void;
+  onDragEnd: () => void;
+  onClick: () => void;
+}
+
+function KanbanCard({ task, isPending, isDragging, onDragStart, onDragEnd, onClick }: KanbanCardProps) {
+  return (
+    <div
+      draggable={!isPending}
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      onClick={onClick}
+      role="button"
+      aria-label={`Task: ${task.title}, Status: ${task.status}`}
+      className={cn(
+        'rounded-md border bg-background p-3 shadow-sm cursor-grab active:cursor-grabbing hover:bg-accent/50 transition-opacity',
+        task.isOverdue && task.status !== 'Completed' && 'border-destructive/60 bg-destructive/5',
+        (isDragging || isPending) && 'opacity-50'
+      )}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <h4 className="text-sm font-medium leading-tight line-clamp-2">{task.title}</h4>
+        <Badge variant={getPriorityVariant(task.priority)} className="shrink-0 text-xs">
+          {task.priority}
+        </Badge>
+      </div>
+
+      <p className="mt-1 text-xs text-muted-foreground truncate">{task.project?.name}</p>
+
+      <div className="mt-2 flex items-center justify-between gap-2">
+        <div
+          className={cn(
+            'flex items-center gap-1 text-xs',
+            task.isOverdue && task.status !== 'Completed' ? 'text-destructive' : 'text-muted-foreground'
+          )}
+        >
+          {task.deadline && (
+            <>
+              <Calendar className="h-3 w-3" />
+              {format(new Date(task.deadline), 'MMM d')}
+            </>
+          )}
+          {task.recurrence_interval > 0 && <Repeat className="h-3 w-3 ml-1" aria-label="Recurring task" />}
+        </div>
+
+        <div className="flex -space-x-1">
+          {task.assignees.slice(0, 3).map((assignee) => {
+            const { first_name, last_name } = assignee.user_info;
+            return (
+              <Avatar key={assignee.assignee_id} className="h-5 w-5 border-2 border-background">
+                <AvatarFallback className="text-[10px] bg-primary/10 text-primary">
+                  {`${first_name[0]}${last_name[0]}`.toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+            );
+          })}
+          {task.assignees.length > 3 && (
+            <Avatar className="h-5 w-5 border-2 border-background">
+              <AvatarFallback className="text-[10px] bg-muted">
+                +{task.assignees.length - 3}
+              </AvatarFallback>
+            </Avatar>
+          )}
+        </div>
+      </div>
+
+      {task.tags.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {task.tags.slice(0, 2).map((tag) => (
+            <Badge key={tag} variant="outline" className="text-[10px]">
+              {tag}
+            </Badge>
+          ))}
+          {task.tags.length > 2 && (
+            <Badge variant="outline" className="text-[10px]">
+              +{task.tags.length - 2}
+            </Badge>
+          )}
+        </div>
+      )}
+    </div>
+  );
 }
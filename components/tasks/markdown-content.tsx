@@ -0,0 +1,119 @@
+'use client';
+
+import { Children, cloneElement, isValidElement, type InputHTMLAttributes, type ReactElement, type ReactNode } from 'react';
+import ReactMarkdown, { defaultUrlTransform, type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { cn } from '@/lib/utils';
+import { toggleTaskListItem } from '@/lib/utils/markdown';
+import { MENTION_URL_PREFIX, linkMentions, type MentionableUser } from '@/lib/utils/mentions';
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+  // Makes task list checkboxes clickable; receives the Markdown with the item toggled
+  onContentChange?: (content: string) => void;
+  // Users whose "@First Last" mentions are highlighted
+  mentions?: MentionableUser[];
+}
+
+type ElementWithChildren = ReactElement<{ type?: string; children?: ReactNode }>;
+
+// Checkboxes sit directly in the list item, or in its paragraph for loose lists
+function mapCheckbox(children: ReactNode, map: (checkbox: ReactElement) => ReactElement, depth = 0): ReactNode {
+  return Children.map(children, (child) => {
+    if (!isValidElement(child)) return child;
+    const element = child as ElementWithChildren;
+    if (element.type === 'input' && element.props.type === 'checkbox') return map(element);
+    if (depth === 0 && element.props.children) {
+      return cloneElement(element, undefined, mapCheckbox(element.props.children, map, depth + 1));
+    }
+    return element;
+  });
+}
+
+function urlTransform(url: string): string {
+  return url.startsWith(MENTION_URL_PREFIX) ? url : defaultUrlTransform(url);
+}
+
+/**
+ * Renders GitHub-flavoured Markdown. Content is stored as typed, so this is
+ * where it is made safe: raw HTML is shown as text and unsafe link targets are dropped.
+ */
+export function MarkdownContent({ content, className, onContentChange, mentions }: MarkdownContentProps) {
+  const source = mentions?.length ? linkMentions(content, mentions) : content;
+
+  const components: Components = {
+    p: ({ node, ...props }) => <p className="mb-2 last:mb-0" {...props} />,
+    h1: ({ node, ...props }) => <h1 className="text-xl font-semibold mt-3 mb-2 first:mt-0" {...props} />,
+    h2: ({ node, ...props }) => <h2 className="text-lg font-semibold mt-3 mb-2 first:mt-0" {...props} />,
+    h3: ({ node, ...props }) => <h3 className="font-semibold mt-3 mb-2 first:mt-0" {...props} />,
+    ul: ({ node, className: listClass, ...props }) => (
+      <ul
+        className={cn('mb-2 last:mb-0 pl-5', listClass?.includes('contains-task-list') ? 'list-none pl-1' : 'list-disc')}
+        {...props}
+      />
+    ),
+    ol: ({ node, ...props }) => <ol className="mb-2 last:mb-0 pl-5 list-decimal" {...props} />,
+    li: ({ node, children, ...props }) => {
+      const offset = node?.position?.start.offset;
+      const interactive = onContentChange && offset !== undefined && !mentions?.length;
+
+      return (
+        <li {...props}>
+          {mapCheckbox(children, (checkbox) => {
+            const checked = (checkbox.props as { checked?: boolean }).checked === true;
+            return cloneElement(checkbox as ReactElement<InputHTMLAttributes<HTMLInputElement>>, {
+              className: 'mr-2 align-middle',
+              disabled: !interactive,
+              'aria-label': checked ? 'Mark as not done' : 'Mark as done',
+              onClick: (e) => e.stopPropagation(),
+              onChange: interactive ? () => onContentChange(toggleTaskListItem(content, offset, !checked)) : undefined,
+            });
+          })}
+        </li>
+      );
+    },
+    a: ({ node, href, children, ...props }) =>
+      href?.startsWith(MENTION_URL_PREFIX) ? (
+        <span className="rounded bg-blue-50 px-0.5 font-medium text-blue-700 dark:bg-blue-950 dark:text-blue-300">
+          {children}
+        </span>
+      ) : (
+        <a
+          href={href}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-blue-600 underline hover:text-blue-800 dark:text-blue-400"
+          onClick={(e) => e.stopPropagation()}
+          {...props}
+        >
+          {children}
+        </a>
+      ),
+    blockquote: ({ node, ...props }) => (
+      <blockquote className="mb-2 last:mb-0 border-l-4 border-gray-300 dark:border-gray-600 pl-3 text-gray-600 dark:text-gray-400" {...props} />
+    ),
+    pre: ({ node, ...props }) => (
+      <pre className="mb-2 last:mb-0 overflow-x-auto rounded-md bg-gray-100 dark:bg-gray-900 p-3 text-sm" {...props} />
+    ),
+    code: ({ node, ...props }) => (
+      <code className="rounded bg-gray-100 dark:bg-gray-900 px-1 font-mono text-[0.9em]" {...props} />
+    ),
+    table: ({ node, ...props }) => (
+      <div className="mb-2 last:mb-0 overflow-x-auto">
+        <table className="border-collapse text-sm" {...props} />
+      </div>
+    ),
+    th: ({ node, ...props }) => <th className="border px-2 py-1 text-left font-semibold" {...props} />,
+    td: ({ node, ...props }) => <td className="border px-2 py-1" {...props} />,
+    hr: ({ node, ...props }) => <hr className="my-3" {...props} />,
+  };
+
+  return (
+    <div className={cn('break-words', className)}>
+      <ReactMarkdown remarkPlugins={[remarkGfm]} components={components} urlTransform={urlTransform}>
+        {source}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+'use client';
+
+import { useState, type ReactNode } from 'react';
+import { Button } from '@/components/ui/button';
+import { MarkdownContent } from './markdown-content';
+import type { MentionableUser } from '@/lib/utils/mentions';
+
+interface MarkdownEditorProps {
+  value: string;
+  // The input shown in Write mode
+  children: ReactNode;
+  mentions?: MentionableUser[];
+}
+
+/**
+ * Write/Preview toggle around a Markdown text input.
+ */
+export function MarkdownEditor({ value, children, mentions }: MarkdownEditorProps) {
+  const [isPreview, setIsPreview] = useState(false);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        <Button
+          type="button"
+          size="sm"
+          variant={isPreview ? 'ghost' : 'secondary'}
+          aria-pressed={!isPreview}
+          onClick={() => setIsPreview(false)}
+        >
+          Write
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant={isPreview ? 'secondary' : 'ghost'}
+          aria-pressed={isPreview}
+          onClick={() => setIsPreview(true)}
+        >
+          Preview
+        </Button>
+        <span className="ml-auto text-xs text-muted-foreground">Markdown supported</span>
+      </div>
+      {isPreview ? (
+        <div className="min-h-[80px] rounded-md border px-3 py-2 text-sm" data-testid="markdown-preview">
+          {value.trim() ? (
+            <MarkdownContent content={value} mentions={mentions} />
+          ) : (
+            <p className="text-muted-foreground italic">Nothing to preview</p>
+          )}
+        </div>
+      ) : (
+        children
+      )}
+    </div>
+  );
+}
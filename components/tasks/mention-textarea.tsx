@@ -0,0 +1,123 @@
+"use client"
+
+import type React from "react"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  filterMentionCandidates,
+  getMentionQuery,
+  insertMention,
+  mentionLabel,
+  type MentionableUser,
+} from "@/lib/utils/mentions"
+import { cn } from "@/lib/utils"
+import { useRef, useState } from "react"
+
+interface MentionTextareaProps
+  extends Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, "value" | "onChange"> {
+  value: string
+  onChange: (value: string) => void
+  users: MentionableUser[]
+  // Called when a user is picked from the suggestions
+  onMention: (user: MentionableUser) => void
+}
+
+/**
+ * Textarea that suggests users after "@" and inserts "@First Last" when one is
+ * picked (click, Enter or Tab; Escape dismisses).
+ */
+export function MentionTextarea({ value, onChange, users, onMention, onKeyDown, ...props }: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null)
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  const candidates = mention ? filterMentionCandidates(users, mention.query) : []
+  const isOpen = candidates.length > 0
+
+  const updateMention = (text: string, caret: number) => {
+    setMention(getMentionQuery(text, caret))
+    setActiveIndex(0)
+  }
+
+  const pick = (user: MentionableUser) => {
+    const textarea = textareaRef.current
+    if (!mention || !textarea) return
+
+    const result = insertMention(value, mention.start, textarea.selectionStart, user)
+    onChange(result.text)
+    onMention(user)
+    setMention(null)
+
+    requestAnimationFrame(() => {
+      textarea.focus()
+      textarea.setSelectionRange(result.caret, result.caret)
+    })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (isOpen) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault()
+        const step = e.key === "ArrowDown" ? 1 : -1
+        setActiveIndex((i) => (i + step + candidates.length) % candidates.length)
+        return
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault()
+        pick(candidates[activeIndex])
+        return
+      }
+      if (e.key === "Escape") {
+        e.preventDefault()
+        setMention(null)
+        return
+      }
+    }
+    onKeyDown?.(e)
+  }
+
+  return (
+    <div className="relative">
+      <Textarea
+        {...props}
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value)
+          updateMention(e.target.value, e.target.selectionStart)
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setMention(null)}
+        role="combobox"
+        aria-expanded={isOpen}
+        aria-autocomplete="list"
+      />
+      {isOpen && (
+        <ul
+          role="listbox"
+          aria-label="Mention suggestions"
+          className="absolute z-10 mt-1 w-64 rounded-md border bg-white dark:bg-gray-800 shadow-md py-1 text-sm"
+        >
+          {candidates.map((user, index) => (
+            <li
+              key={user.id}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Keep focus in the textarea so the caret position survives the click
+              onMouseDown={(e) => {
+                e.preventDefault()
+                pick(user)
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={cn(
+                "px-3 py-1.5 cursor-pointer",
+                index === activeIndex && "bg-gray-100 dark:bg-gray-700",
+              )}
+            >
+              {mentionLabel(user)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
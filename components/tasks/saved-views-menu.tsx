@@ -0,0 +1,202 @@
+'use client';
+
+import { useState } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Bookmark, Star, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { SavedTaskView } from '@/lib/types/task-views';
+
+interface SavedViewsMenuProps {
+  /** Encoded state of the list as currently shown */
+  currentQuery: string;
+  onApply: (query: string) => void;
+}
+
+/**
+ * Lists the user's saved task list views and those shared with their department,
+ * and saves the current filters/sort/columns as a new view.
+ */
+export function SavedViewsMenu({ currentQuery, onApply }: SavedViewsMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [views, setViews] = useState<SavedTaskView[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [shared, setShared] = useState(false);
+  const [isDefault, setIsDefault] = useState(false);
+
+  const request = async (url: string, init: RequestInit, fallbackError: string) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(url, init);
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || fallbackError);
+      }
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackError);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadViews = async () => {
+    const data = await request('/api/tasks/views', {}, 'Failed to load saved views');
+    if (data) setViews(data.views);
+  };
+
+  const handleSave = async () => {
+    const data = await request(
+      '/api/tasks/views',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, query: currentQuery, shared, isDefault }),
+      },
+      'Failed to save view'
+    );
+    if (!data) return;
+
+    setName('');
+    setShared(false);
+    setIsDefault(false);
+    await loadViews();
+  };
+
+  const handleToggleDefault = async (view: SavedTaskView) => {
+    const data = await request(
+      `/api/tasks/views/${view.id}`,
+      {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isDefault: !view.is_default }),
+      },
+      'Failed to update default view'
+    );
+    if (data) await loadViews();
+  };
+
+  const handleDelete = async (view: SavedTaskView) => {
+    if (!confirm(`Delete the view "${view.name}"?`)) return;
+    const data = await request(`/api/tasks/views/${view.id}`, { method: 'DELETE' }, 'Failed to delete view');
+    if (data) await loadViews();
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(newOpen) => {
+        setOpen(newOpen);
+        if (newOpen) loadViews();
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <Bookmark className="h-4 w-4" />
+          Views
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3" align="end">
+        {error && <div className="p-2 bg-red-100 text-red-800 rounded-md text-xs border border-red-200">{error}</div>}
+
+        <div className="space-y-1">
+          <p className="text-sm font-semibold">Saved views</p>
+          {views.length === 0 ? (
+            <p className="text-xs text-muted-foreground">{loading ? 'Loading...' : 'No saved views yet.'}</p>
+          ) : (
+            <ul className="max-h-60 overflow-y-auto divide-y">
+              {views.map((view) => (
+                <li key={view.id} className="flex items-center gap-2 py-1.5">
+                  <button
+                    type="button"
+                    className={cn(
+                      'flex-1 min-w-0 text-left text-sm truncate hover:underline',
+                      view.query === currentQuery && 'font-semibold'
+                    )}
+                    onClick={() => {
+                      onApply(view.query);
+                      setOpen(false);
+                    }}
+                  >
+                    {view.name}
+                  </button>
+                  {!view.is_owner && (
+                    <Badge variant="outline" className="text-[10px]" title={`Shared by ${view.owner_name}`}>
+                      {view.owner_name}
+                    </Badge>
+                  )}
+                  {view.is_owner && view.shared_department_id && (
+                    <Badge variant="secondary" className="text-[10px]">
+                      Shared
+                    </Badge>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 w-7 p-0"
+                    onClick={() => handleToggleDefault(view)}
+                    disabled={loading}
+                    aria-label={view.is_default ? `Unset ${view.name} as default` : `Set ${view.name} as default`}
+                  >
+                    <Star className={cn('h-4 w-4', view.is_default && 'fill-yellow-400 text-yellow-500')} />
+                  </Button>
+                  {view.is_owner && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="h-7 w-7 p-0"
+                      onClick={() => handleDelete(view)}
+                      disabled={loading}
+                      aria-label={`Delete ${view.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="space-y-2 border-t pt-3">
+          <Label htmlFor="saved-view-name">Save current view</Label>
+          <Input
+            id="saved-view-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="View name"
+            maxLength={100}
+          />
+          <div className="flex items-center gap-2">
+            <Checkbox id="saved-view-shared" checked={shared} onCheckedChange={(checked) => setShared(checked === true)} />
+            <Label htmlFor="saved-view-shared" className="text-sm font-normal">
+              Share with my department
+            </Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="saved-view-default"
+              checked={isDefault}
+              onCheckedChange={(checked) => setIsDefault(checked === true)}
+            />
+            <Label htmlFor="saved-view-default" className="text-sm font-normal">
+              Open by default
+            </Label>
+          </div>
+          <Button size="sm" className="w-full" onClick={handleSave} disabled={loading || !name.trim()}>
+            Save view
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { History, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { TaskActivity } from '@/lib/types/tasks';
+import { describeRRule, parseRRule } from '@/lib/utils/rrule';
+
+interface TaskActivityTimelineProps {
+  taskId: number;
+}
+
+const FIELD_LABELS: Record<TaskActivity['field'], string> = {
+  title: 'title',
+  description: 'description',
+  status: 'status',
+  priority: 'priority',
+  deadline: 'deadline',
+  notes: 'notes',
+  recurrence: 'recurrence',
+  tags: 'tag',
+  assignees: 'assignee',
+  attachments: 'attachment',
+  archived: 'archive state',
+  dependencies: 'blocker',
+};
+
+const RECURRENCE_LABELS: Record<string, string> = {
+  '0': 'None',
+  '1': 'Daily',
+  '7': 'Weekly',
+  '30': 'Monthly',
+};
+
+function formatRecurrence(value: string): string {
+  if (RECURRENCE_LABELS[value]) return RECURRENCE_LABELS[value];
+  try {
+    return describeRRule(parseRRule(value));
+  } catch {
+    return value;
+  }
+}
+
+function formatValue(field: TaskActivity['field'], value: string | null): string {
+  if (value === null || value === '') return 'none';
+  switch (field) {
+    case 'deadline':
+      return format(new Date(value), 'MMM d, yyyy HH:mm');
+    case 'recurrence':
+      return formatRecurrence(value);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Builds the sentence shown for an activity entry (without the actor name).
+ */
+export function describeActivity(entry: TaskActivity): string {
+  const label = FIELD_LABELS[entry.field];
+
+  switch (entry.field) {
+    case 'tags':
+    case 'assignees':
+    case 'attachments':
+    case 'dependencies':
+      return entry.new_value !== null
+        ? `added ${label} "${entry.new_value}"`
+        : `removed ${label} "${entry.old_value}"`;
+    case 'archived':
+      return entry.new_value === 'true' ? 'archived the task' : 'restored the task';
+    case 'description':
+    case 'notes':
+      // Long text fields are not repeated inline
+      return entry.new_value ? `updated the ${label}` : `cleared the ${label}`;
+    default:
+      return `changed ${label} from ${formatValue(entry.field, entry.old_value)} to ${formatValue(
+        entry.field,
+        entry.new_value
+      )}`;
+  }
+}
+
+export function TaskActivityTimeline({ taskId }: TaskActivityTimelineProps) {
+  const [activity, setActivity] = useState<TaskActivity[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadActivity = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/tasks/${taskId}/activity`);
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || 'Failed to load activity');
+      }
+
+      const data = await res.json();
+      setActivity(data.activity);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load activity');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [taskId]);
+
+  useEffect(() => {
+    loadActivity();
+  }, [loadActivity]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button size="sm" variant="ghost" onClick={loadActivity} disabled={isLoading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-100 text-red-800 rounded-md text-sm border border-red-200">{error}</div>
+      )}
+
+      {!error && !isLoading && activity.length === 0 && (
+        <p className="text-sm text-gray-500">No changes recorded yet.</p>
+      )}
+
+      {activity.length > 0 && (
+        <ol className="relative border-l border-muted ml-2 space-y-4">
+          {activity.map((entry) => (
+            <li key={entry.id} className="ml-4">
+              <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" />
+              <p className="text-sm">
+                <span className="font-medium">
+                  {entry.actor ? `${entry.actor.first_name} ${entry.actor.last_name}` : 'Unknown user'}
+                </span>{' '}
+                {describeActivity(entry)}
+              </p>
+              <span className="flex items-center gap-1 text-xs text-gray-500">
+                <History className="w-3 h-3" />
+                {format(new Date(entry.created_at), 'MMM d, yyyy HH:mm')}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -3,14 +3,24 @@
 import type React from "react"
 
 import { Button } from "@/components/ui/button"
-import { FileText, X } from "lucide-react"
+import { Eye, EyeOff, FileText, History, Upload, X } from "lucide-react"
 import { useRef, useState } from "react"
 import { FileUploadZone } from "./file-upload-zone"
 import { Card, CardContent } from "@/components/ui/card"
+import {
+  attachmentContentType,
+  attachmentDownloadUrl,
+  attachmentFileName,
+  attachmentPreviewKind,
+  formatFileSize,
+} from "@/lib/utils/attachments"
+import type { TaskAttachment } from "@/lib/types/tasks"
+import { AttachmentPreview } from "./attachment-preview"
+import { AttachmentVersions } from "./attachment-versions"
 
 interface TaskAttachmentsProps {
   taskId: number
-  initialAttachments: { id: number; storage_path: string; public_url?: string }[]
+  initialAttachments: TaskAttachment[]
   onAttachmentsUpdate?: (newAttachments: any[]) => void
 }
 
@@ -18,8 +28,24 @@ export function TaskAttachments({ taskId, initialAttachments, onAttachmentsUpdat
   const [attachments, setAttachments] = useState(initialAttachments)
   const [isUploading, setIsUploading] = useState(false)
   const [deletingId, setDeletingId] = useState<number | null>(null)
+  const [previewId, setPreviewId] = useState<number | null>(null)
+  const [historyId, setHistoryId] = useState<number | null>(null)
+  const [versionUploadId, setVersionUploadId] = useState<number | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [uploadingFiles, setUploadingFiles] = useState<File[]>([])
+  const versionInputRef = useRef<HTMLInputElement>(null)
+  const versionTargetRef = useRef<number | null>(null)
+
+  // Refetch the task to get the current version of each attachment
+  const refreshAttachments = async () => {
+    const res = await fetch(`/api/tasks/${taskId}`)
+    if (!res.ok) return
+    const taskData = await res.json()
+    if (taskData.attachments) {
+      setAttachments(taskData.attachments)
+      onAttachmentsUpdate?.(taskData.attachments)
+    }
+  }
 
   const handleFileSelect = (selectedFiles: File[]) => {
     setUploadingFiles(selectedFiles)
@@ -54,7 +80,7 @@ export function TaskAttachments({ taskId, initialAttachments, onAttachmentsUpdat
 
       await new Promise((resolve) => setTimeout(resolve, 500))
 
-      // Refetch the task to get the updated attachments with public_url
+      // Refetch the task to get the updated attachment list
       const refetchRes = await fetch(`/api/tasks/${taskId}`)
       if (refetchRes.ok) {
         const taskData = await refetchRes.json()
@@ -80,6 +106,53 @@ export function TaskAttachments({ taskId, initialAttachments, onAttachmentsUpdat
     }
   }
 
+  const handleChooseVersion = (attachmentId: number) => {
+    versionTargetRef.current = attachmentId
+    versionInputRef.current?.click()
+  }
+
+  const handleVersionUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    const attachmentId = versionTargetRef.current
+    e.target.value = ""
+    if (!file || attachmentId === null) return
+
+    setVersionUploadId(attachmentId)
+    setError(null)
+
+    try {
+      const formData = new FormData()
+      formData.append("action", "addAttachmentVersion")
+      formData.append("attachment_id", String(attachmentId))
+      formData.append("file_0", file)
+
+      const res = await fetch(`/api/tasks/${taskId}`, {
+        method: "PATCH",
+        body: formData,
+      })
+
+      if (!res.ok) {
+        const errorData = await res.json()
+        throw new Error(errorData.error || "Failed to upload new version")
+      }
+
+      const data = await res.json()
+      setHistoryId((id) => (id === attachmentId ? data.attachment.id : id))
+      await refreshAttachments()
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : "Failed to upload new version"
+      setError(errorMessage)
+      console.error("Failed to upload new version:", err)
+    } finally {
+      setVersionUploadId(null)
+    }
+  }
+
+  const handleVersionRestored = async (attachmentId: number) => {
+    setHistoryId(attachmentId)
+    await refreshAttachments()
+  }
+
   const handleAttachmentDelete = async (attachmentId: number) => {
     setDeletingId(attachmentId)
     setError(null)
@@ -113,10 +186,6 @@ export function TaskAttachments({ taskId, initialAttachments, onAttachmentsUpdat
     }
   }
 
-  const getFileName = (path: string) => {
-    return path.split("/").pop() || "Unknown file"
-  }
-
   return (
     <div className="space-y-4">
       {/* Error Message */}
@@ -133,38 +202,103 @@ export function TaskAttachments({ taskId, initialAttachments, onAttachmentsUpdat
             <h4 className="text-sm font-semibold">Uploaded Files ({attachments.length})</h4>
           </div>
           <div className="space-y-2">
-            {attachments.map((att) => (
-              <div
-                key={att.id}
-                className="flex items-center justify-between p-3 bg-muted/50 hover:bg-muted rounded-lg transition-colors"
-              >
-                <div className="flex items-center gap-3 flex-1 min-w-0">
-                  <FileText className="w-5 h-5 text-blue-500 flex-shrink-0" />
-                  {att.public_url ? (
-                    <a
-                      href={att.public_url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-sm text-blue-600 hover:underline truncate font-medium"
+            {attachments.map((att) => {
+              const fileName = att.file_name || attachmentFileName(att.storage_path)
+              const url = attachmentDownloadUrl(taskId, att.id)
+              const previewKind = attachmentPreviewKind(attachmentContentType(att))
+              const isPreviewing = previewId === att.id && previewKind !== null
+              const showHistory = historyId === att.id
+
+              return (
+                <div key={att.id} className="bg-muted/50 hover:bg-muted rounded-lg transition-colors">
+                  <div className="flex items-center justify-between p-3">
+                    <div className="flex items-center gap-3 flex-1 min-w-0">
+                      <FileText className="w-5 h-5 text-blue-500 flex-shrink-0" />
+                      <a
+                        href={url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-sm text-blue-600 hover:underline truncate font-medium"
+                      >
+                        {fileName}
+                      </a>
+                      {att.size_bytes !== null && att.size_bytes !== undefined && (
+                        <span className="text-xs text-muted-foreground flex-shrink-0">
+                          {formatFileSize(att.size_bytes)}
+                        </span>
+                      )}
+                      {(att.version_count ?? 1) > 1 && (
+                        <span className="text-xs text-muted-foreground flex-shrink-0">v{att.version}</span>
+                      )}
+                    </div>
+                    {previewKind && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setPreviewId(isPreviewing ? null : att.id)}
+                        aria-label={`${isPreviewing ? "Hide preview of" : "Preview"} ${fileName}`}
+                        aria-expanded={isPreviewing}
+                        className="ml-2 flex-shrink-0"
+                      >
+                        {isPreviewing ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setHistoryId(showHistory ? null : att.id)}
+                      aria-label={`${showHistory ? "Hide versions of" : "Show versions of"} ${fileName}`}
+                      aria-expanded={showHistory}
+                      className="ml-2 flex-shrink-0"
+                    >
+                      <History className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleChooseVersion(att.id)}
+                      disabled={versionUploadId !== null}
+                      aria-label={`Upload new version of ${fileName}`}
+                      className="ml-2 flex-shrink-0"
                     >
-                      {getFileName(att.storage_path)}
-                    </a>
-                  ) : (
-                    <span className="text-sm text-muted-foreground truncate">{getFileName(att.storage_path)}</span>
+                      {versionUploadId === att.id ? <span className="text-xs">Uploading...</span> : <Upload className="w-4 h-4" />}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleAttachmentDelete(att.id)}
+                      disabled={deletingId === att.id}
+                      className="text-red-600 hover:text-red-800 hover:bg-red-50 dark:hover:bg-red-950 ml-2 flex-shrink-0"
+                    >
+                      {deletingId === att.id ? <span className="text-xs">Deleting...</span> : <X className="w-4 h-4" />}
+                    </Button>
+                  </div>
+                  {isPreviewing && previewKind && (
+                    <div className="px-3 pb-3">
+                      <AttachmentPreview kind={previewKind} url={url} fileName={fileName} />
+                    </div>
+                  )}
+                  {showHistory && (
+                    <div className="px-3 pb-3">
+                      <AttachmentVersions
+                        key={att.id}
+                        taskId={taskId}
+                        attachmentId={att.id}
+                        onRestored={handleVersionRestored}
+                      />
+                    </div>
                   )}
                 </div>
-                <Button
-                  size="sm"
-                  variant="ghost"
-                  onClick={() => handleAttachmentDelete(att.id)}
-                  disabled={deletingId === att.id}
-                  className="text-red-600 hover:text-red-800 hover:bg-red-50 dark:hover:bg-red-950 ml-2 flex-shrink-0"
-                >
-                  {deletingId === att.id ? <span className="text-xs">Deleting...</span> : <X className="w-4 h-4" />}
-                </Button>
-              </div>
-            ))}
+              )
+            })}
           </div>
+          <input
+            ref={versionInputRef}
+            type="file"
+            className="hidden"
+            onChange={handleVersionUpload}
+            data-testid="attachment-version-input"
+          />
         </div>
       )}
 
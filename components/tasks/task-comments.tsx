@@ -2,10 +2,13 @@
 
 import type React from "react"
 import { Button } from "@/components/ui/button"
-import { Textarea } from "@/components/ui/textarea"
 import { format } from "date-fns"
 import { Check, Edit2, Plus, Trash2, X } from "lucide-react"
-import { useState } from "react"
+import { useEffect, useState } from "react"
+import { MarkdownContent } from "./markdown-content"
+import { MarkdownEditor } from "./markdown-editor"
+import { MentionTextarea } from "./mention-textarea"
+import { isMentioned, type MentionableUser } from "@/lib/utils/mentions"
 
 interface Comment {
   id: number
@@ -17,6 +20,7 @@ interface Comment {
     first_name: string
     last_name: string
   }
+  mentions?: MentionableUser[]
 }
 
 interface TaskCommentsProps {
@@ -36,6 +40,30 @@ export function TaskComments({ taskId, comments: initialComments, currentUserId,
   const [isSavingEdit, setIsSavingEdit] = useState(false)
   const [deletingId, setDeletingId] = useState<number | null>(null)
   const [showCommentInput, setShowCommentInput] = useState(false)
+  const [mentionableUsers, setMentionableUsers] = useState<MentionableUser[] | null>(null)
+  // Users picked from the suggestions for the comment being written or edited
+  const [pickedMentions, setPickedMentions] = useState<MentionableUser[]>([])
+
+  const isComposing = showCommentInput || editingId !== null
+
+  // Load who can be mentioned the first time the user starts writing
+  useEffect(() => {
+    if (!isComposing || mentionableUsers !== null) return
+
+    fetch("/api/user/mentionable")
+      .then((res) => (res.ok ? res.json() : { users: [] }))
+      .then((data) => setMentionableUsers(data.users ?? []))
+      .catch(() => setMentionableUsers([]))
+  }, [isComposing, mentionableUsers])
+
+  const mentionCandidates = (mentionableUsers ?? []).filter((u) => u.id !== currentUserId)
+
+  const addPickedMention = (user: MentionableUser) => {
+    setPickedMentions((prev) => (prev.some((u) => u.id === user.id) ? prev : [...prev, user]))
+  }
+
+  // Picked users whose "@First Last" is still in the text
+  const mentionsIn = (content: string) => pickedMentions.filter((u) => isMentioned(content, u))
 
   const handleAddComment = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -51,6 +79,7 @@ export function TaskComments({ taskId, comments: initialComments, currentUserId,
         body: JSON.stringify({
           action: "addComment",
           content: newComment,
+          mentions: mentionsIn(newComment).map((u) => u.id),
         }),
       })
 
@@ -68,10 +97,12 @@ export function TaskComments({ taskId, comments: initialComments, currentUserId,
             first_name: "You",
             last_name: "",
           },
+          mentions: mentionsIn(newComment),
         },
       ]
       setComments(updatedComments)
       setNewComment("")
+      setPickedMentions([])
       setShowCommentInput(false)
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to add comment")
@@ -83,11 +114,13 @@ export function TaskComments({ taskId, comments: initialComments, currentUserId,
   const handleEditStart = (comment: Comment) => {
     setEditingId(comment.id)
     setEditContent(comment.content)
+    setPickedMentions(comment.mentions ?? [])
   }
 
   const handleEditCancel = () => {
     setEditingId(null)
     setEditContent("")
+    setPickedMentions([])
   }
 
   const handleSaveEdit = async (commentId: number) => {
@@ -104,6 +137,7 @@ export function TaskComments({ taskId, comments: initialComments, currentUserId,
           action: "updateComment",
           commentId,
           content: editContent,
+          mentions: mentionsIn(editContent).map((u) => u.id),
         }),
       })
 
@@ -119,11 +153,13 @@ export function TaskComments({ taskId, comments: initialComments, currentUserId,
               ...c,
               content: data.comment.content,
               updated_at: data.comment.updated_at,
+              mentions: mentionsIn(editContent),
             }
           : c,
       )
       setComments(updatedComments)
       setEditingId(null)
+      setPickedMentions([])
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to update comment")
     } finally {
@@ -174,15 +210,19 @@ export function TaskComments({ taskId, comments: initialComments, currentUserId,
 
       {showCommentInput && (
         <form onSubmit={handleAddComment} className="space-y-2 bg-gray-50 dark:bg-gray-900 p-4 rounded-lg">
-          <Textarea
-            value={newComment}
-            onChange={(e) => setNewComment(e.target.value)}
-            placeholder="Add a comment..."
-            maxLength={5000}
-            rows={3}
-            disabled={isSubmitting}
-            autoFocus
-          />
+          <MarkdownEditor value={newComment} mentions={mentionsIn(newComment)}>
+            <MentionTextarea
+              value={newComment}
+              onChange={setNewComment}
+              users={mentionCandidates}
+              onMention={addPickedMention}
+              placeholder="Add a comment... Type @ to mention someone"
+              maxLength={5000}
+              rows={3}
+              disabled={isSubmitting}
+              autoFocus
+            />
+          </MarkdownEditor>
           <div className="flex items-center justify-between">
             <span className="text-xs text-gray-500">{newComment.length}/5000</span>
             <div className="flex gap-2">
@@ -196,6 +236,7 @@ export function TaskComments({ taskId, comments: initialComments, currentUserId,
                 onClick={() => {
                   setShowCommentInput(false)
                   setNewComment("")
+                  setPickedMentions([])
                 }}
                 disabled={isSubmitting}
               >
@@ -233,13 +274,17 @@ export function TaskComments({ taskId, comments: initialComments, currentUserId,
               {/* Comment Content */}
               {editingId === comment.id ? (
                 <div className="space-y-2">
-                  <Textarea
-                    value={editContent}
-                    onChange={(e) => setEditContent(e.target.value)}
-                    maxLength={5000}
-                    rows={3}
-                    disabled={isSavingEdit}
-                  />
+                  <MarkdownEditor value={editContent} mentions={mentionsIn(editContent)}>
+                    <MentionTextarea
+                      value={editContent}
+                      onChange={setEditContent}
+                      users={mentionCandidates}
+                      onMention={addPickedMention}
+                      maxLength={5000}
+                      rows={3}
+                      disabled={isSavingEdit}
+                    />
+                  </MarkdownEditor>
                   <div className="flex gap-2">
                     <Button
                       size="sm"
@@ -257,7 +302,7 @@ export function TaskComments({ taskId, comments: initialComments, currentUserId,
                   </div>
                 </div>
               ) : (
-                <p className="text-sm whitespace-pre-wrap break-words">{comment.content}</p>
+                <MarkdownContent content={comment.content} mentions={comment.mentions} className="text-sm" />
               )}
 
               {/* Actions */}
@@ -0,0 +1,166 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Link2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { DependencyTask, TaskDependencies as TaskDependenciesData } from '@/lib/types/tasks';
+
+interface TaskDependenciesProps {
+  taskId: number;
+  initialDependencies: TaskDependenciesData;
+}
+
+function DependencyRow({ task, onRemove, disabled }: { task: DependencyTask; onRemove?: () => void; disabled?: boolean }) {
+  const isOpen = task.status !== 'Completed';
+
+  return (
+    <li className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+      <div className="min-w-0 flex items-center gap-2">
+        <Link href={`/tasks/${task.id}`} className="font-medium truncate hover:underline">
+          {task.title}
+        </Link>
+        <Badge variant={isOpen ? 'outline' : 'secondary'}>{task.status}</Badge>
+        {task.deadline && (
+          <span className="text-xs text-muted-foreground">Due {format(new Date(task.deadline), 'MMM d')}</span>
+        )}
+      </div>
+      {onRemove && (
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={onRemove}
+          disabled={disabled}
+          aria-label={`Remove blocker ${task.title}`}
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Blocked-by / blocks lists of a task. Blockers can be added from sibling tasks
+ * (same project and parent) and removed; the server rejects circular links.
+ */
+export function TaskDependencies({ taskId, initialDependencies }: TaskDependenciesProps) {
+  const [dependencies, setDependencies] = useState<TaskDependenciesData>(initialDependencies);
+  const [selectedBlocker, setSelectedBlocker] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sendRequest = async (request: Promise<Response>, fallbackError: string) => {
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const res = await request;
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || fallbackError);
+      }
+
+      setDependencies(data.dependencies);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackError);
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!selectedBlocker) return;
+
+    const ok = await sendRequest(
+      fetch(`/api/tasks/${taskId}/dependencies`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ blockerId: Number(selectedBlocker) }),
+      }),
+      'Failed to add dependency'
+    );
+    if (ok) setSelectedBlocker('');
+  };
+
+  const handleRemove = (blockerId: number) =>
+    sendRequest(
+      fetch(`/api/tasks/${taskId}/dependencies?blockerId=${blockerId}`, { method: 'DELETE' }),
+      'Failed to remove dependency'
+    );
+
+  const openBlockers = dependencies.blockers.filter((t) => t.status !== 'Completed').length;
+
+  return (
+    <div className="space-y-4">
+      {error && <div className="p-3 bg-red-100 text-red-800 rounded-md text-sm border border-red-200">{error}</div>}
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <h3 className="text-sm font-semibold">Blocked by</h3>
+          {openBlockers > 0 && (
+            <Badge variant="destructive" data-testid="open-blockers">
+              {openBlockers} open
+            </Badge>
+          )}
+        </div>
+        {dependencies.blockers.length === 0 ? (
+          <p className="text-sm text-gray-500">Not blocked by any task.</p>
+        ) : (
+          <ul className="divide-y border rounded-lg">
+            {dependencies.blockers.map((task) => (
+              <DependencyRow key={task.id} task={task} onRemove={() => handleRemove(task.id)} disabled={isLoading} />
+            ))}
+          </ul>
+        )}
+
+        {dependencies.candidates.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Select value={selectedBlocker} onValueChange={setSelectedBlocker} disabled={isLoading}>
+              <SelectTrigger className="h-9 w-full sm:w-72" aria-label="Select blocking task">
+                <SelectValue placeholder="Add a blocking task..." />
+              </SelectTrigger>
+              <SelectContent>
+                {dependencies.candidates.map((task) => (
+                  <SelectItem key={task.id} value={String(task.id)}>
+                    {task.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={handleAdd} disabled={isLoading || !selectedBlocker}>
+              <Link2 className="w-4 h-4 mr-2" />
+              Add
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold">Blocks</h3>
+        {dependencies.dependents.length === 0 ? (
+          <p className="text-sm text-gray-500">No tasks wait on this one.</p>
+        ) : (
+          <ul className="divide-y border rounded-lg">
+            {dependencies.dependents.map((task) => (
+              <DependencyRow key={task.id} task={task} />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
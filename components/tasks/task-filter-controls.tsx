@@ -0,0 +1,58 @@
+'use client';
+
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { StatusSelector } from '@/components/filters/status-selector';
+import { ProjectSelector, Project } from '@/components/filters/project-selector';
+import { TagSelector } from '@/components/filters/tag-selector';
+import type { TaskFilterState } from '@/hooks/use-task-filters';
+
+interface TaskFilterControlsProps {
+  filters: TaskFilterState;
+  onChange: (filters: TaskFilterState) => void;
+  onClear: () => void;
+  statuses: readonly string[];
+  projects: Project[];
+  tags: string[];
+}
+
+/**
+ * Status, project and tag selectors shared by the list and kanban task views.
+ */
+export function TaskFilterControls({
+  filters,
+  onChange,
+  onClear,
+  statuses,
+  projects,
+  tags,
+}: TaskFilterControlsProps) {
+  const hasActiveFilters =
+    filters.projects.length > 0 || filters.statuses.length > 0 || filters.tags.length > 0;
+
+  return (
+    <>
+      <StatusSelector
+        statuses={statuses}
+        selectedStatuses={filters.statuses}
+        onChange={(statuses) => onChange({ ...filters, statuses })}
+      />
+      <ProjectSelector
+        projects={projects}
+        selectedProjects={filters.projects}
+        onChange={(projects) => onChange({ ...filters, projects })}
+      />
+      <TagSelector
+        tags={tags}
+        selectedTags={filters.tags}
+        onChange={(tags) => onChange({ ...filters, tags })}
+      />
+      {hasActiveFilters && (
+        <Button variant="ghost" onClick={onClear} className="flex items-center gap-2">
+          <X className="h-4 w-4" />
+          Clear Filters
+        </Button>
+      )}
+    </>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import {
@@ -12,6 +12,7 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Checkbox } from '@/components/ui/checkbox';
 import { format } from 'date-fns';
 import { type Task, calculateNextDueDate } from '@/lib/types/tasks';
 import {
@@ -20,17 +21,19 @@ import {
   CheckSquare,
   AlertCircle,
   ArrowUpDown,
-  X,
   Repeat,
 } from 'lucide-react';
-import { StatusSelector } from '@/components/filters/status-selector';
-import { ProjectSelector, Project } from '@/components/filters/project-selector';
-import { TagSelector } from '@/components/filters/tag-selector';
 import {
   ColumnVisibilitySelector,
   type ColumnId,
 } from '@/components/filters/column-visibility-selector';
-import { useRouter } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useTaskFilters, applyTaskFilters } from '@/hooks/use-task-filters';
+import { TaskFilterControls } from './task-filter-controls';
+import { BulkActionBar } from './bulk-action-bar';
+import { SavedViewsMenu } from './saved-views-menu';
+import type { TaskListSortKey } from '@/lib/types/task-views';
+import { decodeTaskListViewState, encodeTaskListViewState } from '@/lib/utils/task-view-query';
 
 
 type TasksListProps = {
@@ -38,64 +41,54 @@ type TasksListProps = {
 };
 
 type SortConfig = {
-  key: keyof Task | 'project.name';
+  key: TaskListSortKey;
   direction: 'asc' | 'desc';
 };
 
 export default function TasksList({ tasks }: TasksListProps) {
   const router = useRouter();
-  const [showCompleted, setShowCompleted] = useState(false);
-  const [filters, setFilters] = useState({
-    projects: [] as number[],
-    statuses: [] as string[],
-    tags: [] as string[],
+  const searchParams = useSearchParams();
+  // Filters, sort, columns and completed toggle start from the URL so views can be linked
+  const [initialView] = useState(() => decodeTaskListViewState(searchParams?.toString() ?? ''));
+  const [showCompleted, setShowCompleted] = useState(initialView.showCompleted);
+  const { filters, setFilters, clearFilters, statuses, projects, tags: allTags } = useTaskFilters(tasks, {
+    projects: initialView.projects,
+    statuses: initialView.statuses,
+    tags: initialView.tags,
   });
-  const [sortConfig, setSortConfig] = useState<SortConfig | null>(null);
-  const [visibleColumns, setVisibleColumns] = useState<ColumnId[]>([
-    'status',
-    'priority',
-    'dueDate',
-    'assignees',
-    'project',
-    'recurring',
-    'creator',
-    'subtasks',
-    'attachments',
-    'tags',
-  ]);
+  const [sortConfig, setSortConfig] = useState<SortConfig | null>(initialView.sort);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [visibleColumns, setVisibleColumns] = useState<ColumnId[]>(initialView.columns as ColumnId[]);
 
-  // Unique values for filters
-  const statuses = ['To Do', 'In Progress', 'Completed', 'Blocked'] as const;
-  const projects: Project[] = Array.from(
-    new Set(
-      tasks
-        .map((task) => task.project?.id)
-        .filter((id): id is number => id !== null && id !== undefined)
-    )
-  ).map((id) => {
-    const task = tasks.find((t) => t.project?.id === id)!;
-    return {
-      id: id,
-      name: task.project!.name,
-      is_archived: false,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    };
+  const viewQuery = encodeTaskListViewState({
+    ...filters,
+    sort: sortConfig,
+    columns: visibleColumns,
+    showCompleted,
   });
-  const allTags = Array.from(new Set(tasks.flatMap((task) => task.tags)));
+
+  // Mirror the state into the query string without a server round trip
+  useEffect(() => {
+    const url = viewQuery ? `${window.location.pathname}?${viewQuery}` : window.location.pathname;
+    window.history.replaceState(null, '', url);
+  }, [viewQuery]);
+
+  const applyView = (query: string) => {
+    const view = decodeTaskListViewState(query);
+    setFilters({ projects: view.projects, statuses: view.statuses, tags: view.tags });
+    setSortConfig(view.sort);
+    setVisibleColumns(view.columns as ColumnId[]);
+    setShowCompleted(view.showCompleted);
+    setSelectedIds([]);
+  };
 
   // Filter tasks
-  const filteredTasks = tasks
-    .filter((task) =>
+  const filteredTasks = applyTaskFilters(
+    tasks.filter((task) =>
       showCompleted ? true : ['To Do', 'In Progress', 'Blocked'].includes(task.status)
-    )
-    .filter(
-      (task) =>
-        (filters.projects.length === 0 ||
-          (task.project?.id && filters.projects.includes(task.project.id))) &&
-        (filters.statuses.length === 0 || filters.statuses.includes(task.status)) &&
-        (filters.tags.length === 0 || filters.tags.some((tag) => task.tags.includes(tag)))
-    );
+    ),
+    filters
+  );
 
   // Sort tasks
   const sortedTasks = sortConfig
@@ -135,19 +128,34 @@ export default function TasksList({ tasks }: TasksListProps) {
   // Handle recurring tasks
   const tasksWithNextDue = sortedTasks.map(calculateNextDueDate);
 
+  // Selection only covers tasks that are currently visible
+  const selectedTasks = tasksWithNextDue.filter((task) => selectedIds.includes(task.id));
+  const allSelected = tasksWithNextDue.length > 0 && selectedTasks.length === tasksWithNextDue.length;
+
+  const toggleSelected = (taskId: number) => {
+    setSelectedIds((prev) =>
+      prev.includes(taskId) ? prev.filter((id) => id !== taskId) : [...prev, taskId]
+    );
+  };
+
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? [] : tasksWithNextDue.map((task) => task.id));
+  };
+
+  const handleBulkComplete = (failedTaskIds: number[]) => {
+    // Keep failed tasks selected so they can be retried
+    setSelectedIds(failedTaskIds);
+    router.refresh();
+  };
+
   // Toggle sort
-  const handleSort = (key: keyof Task | 'project.name') => {
+  const handleSort = (key: TaskListSortKey) => {
     setSortConfig((prev) => ({
       key,
       direction: prev?.key === key && prev.direction === 'asc' ? 'desc' : 'asc',
     }));
   };
 
-  // Clear filters
-  const clearFilters = () => {
-    setFilters({ projects: [], statuses: [], tags: [] });
-  };
-
   // Get status badge variant
   const getStatusVariant = (status: string) => {
     switch (status) {
@@ -182,41 +190,42 @@ export default function TasksList({ tasks }: TasksListProps) {
           {showCompleted ? 'Hide Completed' : 'Show Completed'}
         </Button>
         <div className="flex flex-wrap items-center gap-2">
+          <SavedViewsMenu currentQuery={viewQuery} onApply={applyView} />
           <ColumnVisibilitySelector
             visibleColumns={visibleColumns}
             onChange={setVisibleColumns}
           />
-          <StatusSelector
+          <TaskFilterControls
+            filters={filters}
+            onChange={setFilters}
+            onClear={clearFilters}
             statuses={statuses}
-            selectedStatuses={filters.statuses}
-            onChange={(statuses) => setFilters({ ...filters, statuses })}
-          />
-          <ProjectSelector
             projects={projects}
-            selectedProjects={filters.projects}
-            onChange={(projects) => setFilters({ ...filters, projects })}
-          />
-          <TagSelector
             tags={allTags}
-            selectedTags={filters.tags}
-            onChange={(tags) => setFilters({ ...filters, tags })}
           />
-          {(filters.projects.length > 0 ||
-            filters.statuses.length > 0 ||
-            filters.tags.length > 0) && (
-            <Button variant="ghost" onClick={clearFilters} className="flex items-center gap-2">
-              <X className="h-4 w-4" />
-              Clear Filters
-            </Button>
-          )}
         </div>
       </div>
 
+      {selectedTasks.length > 0 && (
+        <BulkActionBar
+          selectedTasks={selectedTasks}
+          onClear={() => setSelectedIds([])}
+          onComplete={handleBulkComplete}
+        />
+      )}
+
       {/* Task Table */}
       <div className="border rounded-lg overflow-x-auto">
         <Table>
           <TableHeader>
             <TableRow>
+              <TableHead className="w-[40px]">
+                <Checkbox
+                  checked={allSelected ? true : selectedTasks.length > 0 ? 'indeterminate' : false}
+                  onCheckedChange={toggleAll}
+                  aria-label="Select all tasks"
+                />
+              </TableHead>
               <TableHead className="w-[300px]">
                 <Button
                   variant="ghost"
@@ -300,7 +309,7 @@ export default function TasksList({ tasks }: TasksListProps) {
             {tasksWithNextDue.length === 0 ? (
               <TableRow>
                 <TableCell
-                  colSpan={visibleColumns.length + 1}
+                  colSpan={visibleColumns.length + 2}
                   className="text-center py-8 text-muted-foreground"
                 >
                   No tasks match the current filters.
@@ -311,8 +320,16 @@ export default function TasksList({ tasks }: TasksListProps) {
                 <TableRow
                   key={task.id}
                   onClick={() => router.push(`/tasks/${task.id}`)}
+                  data-state={selectedIds.includes(task.id) ? 'selected' : undefined}
                   className={`cursor-pointer hover:bg-muted/50 transition-colors ${task.isOverdue ? 'bg-destructive/10 hover:bg-destructive/20' : ''}`}
                 >
+                  <TableCell onClick={(e) => e.stopPropagation()}>
+                    <Checkbox
+                      checked={selectedIds.includes(task.id)}
+                      onCheckedChange={() => toggleSelected(task.id)}
+                      aria-label={`Select ${task.title}`}
+                    />
+                  </TableCell>
                   <TableCell
                     className={`font-medium ${task.isOverdue ? 'text-destructive' : ''}`}
                   >
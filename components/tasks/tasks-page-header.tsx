@@ -1,6 +1,7 @@
 'use client';
 
 import { CreateTaskDialog } from './create-task-dialog';
+import { ImportICalDialog } from './import-ical-dialog';
 import { useRouter } from 'next/navigation';
 import { ListTodo } from 'lucide-react';
 
@@ -30,6 +31,7 @@ export default function TasksPageHeader({ tasksCount }: TasksPageHeaderProps) {
         </div>
       </div>
       <div className="flex items-center gap-2">
+        <ImportICalDialog onImported={() => router.refresh()} />
         <CreateTaskDialog onTaskCreated={handleTaskCreated} />
       </div>
     </div>
@@ -3,7 +3,8 @@
 import { useState } from 'react';
 import dynamic from 'next/dynamic';
 import TasksList from './task-list';
-import ViewToggle from './view-toggle';
+import KanbanBoard from './kanban-board';
+import ViewToggle, { type TasksView } from './view-toggle';
 import type { Task } from '@/lib/services/tasks';
 
 const CalendarView = dynamic(() => import('@/components/calendar/calendar-view'), {
@@ -19,10 +20,10 @@ interface TasksViewWrapperProps {
 }
 
 /**
- * Manages list/calendar view state, defaulting to list view.
+ * Manages list/kanban/calendar view state, defaulting to list view.
  */
 export default function TasksViewWrapper({ tasks }: TasksViewWrapperProps) {
-  const [view, setView] = useState<'list' | 'calendar'>('list');
+  const [view, setView] = useState<TasksView>('list');
 
   return (
     <div className="space-y-4">
@@ -30,9 +31,9 @@ export default function TasksViewWrapper({ tasks }: TasksViewWrapperProps) {
         <ViewToggle view={view} onViewChange={setView} />
       </div>
 
-      {view === 'list' ? (
-        <TasksList tasks={tasks} />
-      ) : (
+      {view === 'list' && <TasksList tasks={tasks} />}
+      {view === 'kanban' && <KanbanBoard tasks={tasks} />}
+      {view === 'calendar' && (
         <div className="border rounded-lg overflow-hidden" style={{ height: 'calc(100vh - 250px)' }}>
           <CalendarView tasks={tasks} />
         </div>
@@ -0,0 +1,233 @@
+'use client';
+
+import type React from 'react';
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Clock, Play, Plus, Square, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { TaskTimeTracking } from '@/lib/types/tasks';
+
+interface TaskTimeTrackerProps {
+  taskId: number;
+  initialTimeTracking: TaskTimeTracking;
+  currentUserId: string;
+}
+
+/**
+ * Formats a duration in seconds as e.g. "2h 05m" or "12m 30s".
+ */
+export function formatDuration(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+
+  if (h > 0) return `${h}h ${String(m).padStart(2, '0')}m`;
+  return `${m}m ${String(s).padStart(2, '0')}s`;
+}
+
+export function TaskTimeTracker({ taskId, initialTimeTracking, currentUserId }: TaskTimeTrackerProps) {
+  const [timeTracking, setTimeTracking] = useState<TaskTimeTracking>(initialTimeTracking);
+  const [note, setNote] = useState('');
+  const [now, setNow] = useState(() => Date.now());
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showManualEntry, setShowManualEntry] = useState(false);
+  const [manualDate, setManualDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [manualStart, setManualStart] = useState('09:00');
+  const [manualEnd, setManualEnd] = useState('10:00');
+  const [manualNote, setManualNote] = useState('');
+
+  const running = timeTracking.running_entry;
+
+  // Tick once a second while a timer is running
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  const sendAction = async (body: Record<string, unknown>, fallbackError: string) => {
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const res = await fetch(`/api/tasks/${taskId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (!res.ok) {
+        const errorData = await res.json();
+        throw new Error(errorData.error || fallbackError);
+      }
+
+      const data = await res.json();
+      setTimeTracking(data.timeTracking);
+      setNow(Date.now());
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackError);
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleStart = async () => {
+    if (await sendAction({ action: 'startTimer', note: note || null }, 'Failed to start timer')) {
+      setNote('');
+    }
+  };
+
+  const handleStop = () => sendAction({ action: 'stopTimer' }, 'Failed to stop timer');
+
+  const handleManualEntry = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const startedAt = new Date(`${manualDate}T${manualStart}`);
+    const endedAt = new Date(`${manualDate}T${manualEnd}`);
+
+    const ok = await sendAction(
+      {
+        action: 'addTimeEntry',
+        started_at: startedAt.toISOString(),
+        ended_at: endedAt.toISOString(),
+        note: manualNote || null,
+      },
+      'Failed to add time entry'
+    );
+
+    if (ok) {
+      setManualNote('');
+      setShowManualEntry(false);
+    }
+  };
+
+  const handleDelete = (entryId: number) =>
+    sendAction({ action: 'deleteTimeEntry', entryId }, 'Failed to delete time entry');
+
+  const elapsed = running ? (now - new Date(running.started_at).getTime()) / 1000 : 0;
+  const finishedEntries = timeTracking.entries.filter((entry) => entry.ended_at);
+
+  return (
+    <div className="space-y-4">
+      {error && <div className="p-3 bg-red-100 text-red-800 rounded-md text-sm border border-red-200">{error}</div>}
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Clock className="w-4 h-4 text-muted-foreground" />
+          <span className="text-sm text-muted-foreground">Total logged:</span>
+          <span className="font-semibold" data-testid="logged-time-total">
+            {formatDuration(timeTracking.logged_time)}
+          </span>
+        </div>
+
+        {running ? (
+          <div className="flex items-center gap-3">
+            <span className="font-mono text-lg tabular-nums" aria-live="polite" data-testid="running-timer">
+              {formatDuration(elapsed)}
+            </span>
+            <Button size="sm" variant="destructive" onClick={handleStop} disabled={isLoading}>
+              <Square className="w-4 h-4 mr-2" />
+              Stop
+            </Button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2">
+            <Input
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder="What are you working on?"
+              maxLength={500}
+              className="h-9 w-full sm:w-56"
+              aria-label="Timer note"
+              disabled={isLoading}
+            />
+            <Button size="sm" onClick={handleStart} disabled={isLoading}>
+              <Play className="w-4 h-4 mr-2" />
+              Start
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {!showManualEntry ? (
+        <Button size="sm" variant="outline" onClick={() => setShowManualEntry(true)} className="w-fit">
+          <Plus className="w-4 h-4 mr-2" />
+          Add Time Manually
+        </Button>
+      ) : (
+        <form onSubmit={handleManualEntry} className="grid grid-cols-1 sm:grid-cols-4 gap-3 bg-gray-50 dark:bg-gray-900 p-4 rounded-lg">
+          <div className="space-y-1">
+            <Label htmlFor="time-entry-date">Date</Label>
+            <Input id="time-entry-date" type="date" value={manualDate} onChange={(e) => setManualDate(e.target.value)} required />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="time-entry-start">Start</Label>
+            <Input id="time-entry-start" type="time" value={manualStart} onChange={(e) => setManualStart(e.target.value)} required />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="time-entry-end">End</Label>
+            <Input id="time-entry-end" type="time" value={manualEnd} onChange={(e) => setManualEnd(e.target.value)} required />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="time-entry-note">Note</Label>
+            <Input id="time-entry-note" value={manualNote} onChange={(e) => setManualNote(e.target.value)} maxLength={500} />
+          </div>
+          <div className="sm:col-span-4 flex gap-2">
+            <Button type="submit" size="sm" disabled={isLoading}>
+              Save Entry
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => setShowManualEntry(false)} disabled={isLoading}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {finishedEntries.length === 0 ? (
+        <p className="text-sm text-gray-500">No time logged yet.</p>
+      ) : (
+        <ul className="divide-y border rounded-lg">
+          {finishedEntries.map((entry) => (
+            <li key={entry.id} className="flex items-center justify-between gap-3 px-4 py-2 text-sm">
+              <div className="min-w-0">
+                <div className="font-medium">
+                  {entry.user_id === currentUserId
+                    ? 'You'
+                    : entry.user_info
+                      ? `${entry.user_info.first_name} ${entry.user_info.last_name}`
+                      : 'Unknown user'}
+                  <span className="ml-2 font-normal text-gray-500">
+                    {format(new Date(entry.started_at), 'MMM d, yyyy HH:mm')} – {format(new Date(entry.ended_at!), 'HH:mm')}
+                  </span>
+                </div>
+                {entry.note && <div className="text-xs text-gray-500 truncate">{entry.note}</div>}
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <span className="font-mono tabular-nums">{formatDuration(entry.duration)}</span>
+                {entry.user_id === currentUserId && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDelete(entry.id)}
+                    disabled={isLoading}
+                    aria-label="Delete time entry"
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
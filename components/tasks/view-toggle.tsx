@@ -1,15 +1,17 @@
 'use client';
 
-import { LayoutList, Calendar } from 'lucide-react';
+import { LayoutList, Calendar, SquareKanban } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 
+export type TasksView = 'list' | 'kanban' | 'calendar';
+
 interface ViewToggleProps {
-  view: 'list' | 'calendar';
-  onViewChange: (view: 'list' | 'calendar') => void;
+  view: TasksView;
+  onViewChange: (view: TasksView) => void;
 }
 
 /**
- * Toggle between list and calendar views.
+ * Toggle between list, kanban and calendar views.
  */
 export default function ViewToggle({ view, onViewChange }: ViewToggleProps) {
 
@@ -24,6 +26,15 @@ export default function ViewToggle({ view, onViewChange }: ViewToggleProps) {
         <LayoutList className="h-4 w-4 mr-2" />
         List
       </Button>
+      <Button
+        variant={view === 'kanban' ? 'default' : 'outline'}
+        size="sm"
+        onClick={() => onViewChange('kanban')}
+        aria-label="Switch to kanban view"
+      >
+        <SquareKanban className="h-4 w-4 mr-2" />
+        Board
+      </Button>
       <Button
         variant={view === 'calendar' ? 'default' : 'outline'}
         size="sm"
@@ -96,6 +96,7 @@ export function Navbar() {
   };
 
   const isAdmin = roles.includes('admin');
+  const canManageProjects = isAdmin || roles.includes('manager');
 
   const handleDefaultViewChange = async (value: string) => {
     if (value !== 'tasks' && value !== 'schedule') return;
@@ -188,6 +189,16 @@ export function Navbar() {
         >
           <Link href="/schedule">Schedule</Link>
         </Button>
+        {canManageProjects && (
+          <Button
+            variant="ghost"
+            size="sm"
+            asChild
+            className="transition-all duration-200 hover:bg-accent hover:text-accent-foreground hover:scale-105"
+          >
+            <Link href="/projects">Projects</Link>
+          </Button>
+        )}
         {isAdmin && (
           <Button
             variant="ghost"
@@ -198,6 +209,16 @@ export function Navbar() {
             <Link href="/report">Report</Link>
           </Button>
         )}
+        {isAdmin && (
+          <Button
+            variant="ghost"
+            size="sm"
+            asChild
+            className="transition-all duration-200 hover:bg-accent hover:text-accent-foreground hover:scale-105"
+          >
+            <Link href="/admin">Admin</Link>
+          </Button>
+        )}
       </nav>
 
       <div className="flex-1" />
@@ -300,6 +321,16 @@ export function Navbar() {
                 >
                   <Link href="/schedule">Schedule</Link>
                 </Button>
+                {canManageProjects && (
+                  <Button
+                    variant="ghost"
+                    asChild
+                    className="justify-start"
+                    onClick={() => setMobileMenuOpen(false)}
+                  >
+                    <Link href="/projects">Projects</Link>
+                  </Button>
+                )}
                 {isAdmin && (
                   <Button
                     variant="ghost"
@@ -310,6 +341,16 @@ export function Navbar() {
                     <Link href="/report">Report</Link>
                   </Button>
                 )}
+                {isAdmin && (
+                  <Button
+                    variant="ghost"
+                    asChild
+                    className="justify-start"
+                    onClick={() => setMobileMenuOpen(false)}
+                  >
+                    <Link href="/admin">Admin</Link>
+                  </Button>
+                )}
               </nav>
 
               {/* Divider */}
@@ -0,0 +1,59 @@
+'use client';
+
+import { useState } from 'react';
+import { isSameDay } from 'date-fns';
+import type { CalendarTask } from '@/lib/services/calendar';
+
+/**
+ * Native drag-and-drop wiring shared by the month and week calendar grids.
+ * Dragging is disabled for projected (ghost) occurrences and when no drop
+ * handler is provided.
+ */
+export function useCalendarDrag(onTaskDrop?: (task: CalendarTask, day: Date) => void) {
+  const [draggedTask, setDraggedTask] = useState<CalendarTask | null>(null);
+  const [dropDay, setDropDay] = useState<Date | null>(null);
+
+  const canDrag = (task: CalendarTask) => !!onTaskDrop && !task.isProjected;
+
+  const getDragProps = (task: CalendarTask) =>
+    canDrag(task)
+      ? {
+          draggable: true,
+          onDragStart: (e: React.DragEvent) => {
+            e.stopPropagation();
+            e.dataTransfer.setData('text/plain', String(task.id));
+            e.dataTransfer.effectAllowed = 'move';
+            setDraggedTask(task);
+          },
+          onDragEnd: () => {
+            setDraggedTask(null);
+            setDropDay(null);
+          },
+        }
+      : {};
+
+  const getDropProps = (day: Date) =>
+    onTaskDrop
+      ? {
+          onDragOver: (e: React.DragEvent) => {
+            if (!draggedTask) return;
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'move';
+            if (!dropDay || !isSameDay(dropDay, day)) setDropDay(day);
+          },
+          onDrop: (e: React.DragEvent) => {
+            e.preventDefault();
+            const task = draggedTask;
+            setDraggedTask(null);
+            setDropDay(null);
+            if (!task) return;
+            if (task.deadline && isSameDay(new Date(task.deadline), day)) return;
+            onTaskDrop(task, day);
+          },
+        }
+      : {};
+
+  const isDropTarget = (day: Date) => !!dropDay && isSameDay(dropDay, day);
+
+  return { getDragProps, getDropProps, isDropTarget, draggedTask };
+}
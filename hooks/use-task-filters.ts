@@ -0,0 +1,69 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { Task } from '@/lib/types/tasks';
+import type { Project } from '@/components/filters/project-selector';
+
+export const TASK_STATUSES = ['To Do', 'In Progress', 'Completed', 'Blocked'] as const;
+
+export type TaskFilterState = {
+  projects: number[];
+  statuses: string[];
+  tags: string[];
+};
+
+const EMPTY_FILTERS: TaskFilterState = { projects: [], statuses: [], tags: [] };
+
+/**
+ * Applies project, status and tag filters to a list of tasks.
+ * An empty selection for a filter means "no restriction".
+ */
+export function applyTaskFilters(tasks: Task[], filters: TaskFilterState): Task[] {
+  return tasks.filter(
+    (task) =>
+      (filters.projects.length === 0 ||
+        (task.project?.id && filters.projects.includes(task.project.id))) &&
+      (filters.statuses.length === 0 || filters.statuses.includes(task.status)) &&
+      (filters.tags.length === 0 || filters.tags.some((tag) => task.tags.includes(tag)))
+  );
+}
+
+/**
+ * Shared project/status/tag filter state for the task views (list and kanban).
+ * Derives the selectable options from the tasks currently loaded.
+ */
+export function useTaskFilters(tasks: Task[], initialFilters: TaskFilterState = EMPTY_FILTERS) {
+  const [filters, setFilters] = useState<TaskFilterState>(initialFilters);
+
+  const projects: Project[] = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          tasks
+            .map((task) => task.project?.id)
+            .filter((id): id is number => id !== null && id !== undefined)
+        )
+      ).map((id) => {
+        const task = tasks.find((t) => t.project?.id === id)!;
+        return {
+          id: id,
+          name: task.project!.name,
+          is_archived: false,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        };
+      }),
+    [tasks]
+  );
+
+  const tags = useMemo(() => Array.from(new Set(tasks.flatMap((task) => task.tags))), [tasks]);
+
+  return {
+    filters,
+    setFilters,
+    clearFilters: () => setFilters(EMPTY_FILTERS),
+    statuses: TASK_STATUSES,
+    projects,
+    tags,
+  };
+}
@@ -0,0 +1,349 @@
+import { createClient as createServiceClient } from '@supabase/supabase-js';
+import type { AuditAction, AuditLogEntry, UserRole } from '@/lib/types/admin';
+
+// The admin console manages departments, accounts and roles across the whole
+// organisation, so everything here uses the service role; the admin check happens
+// in the service layer.
+
+// Long enough to be permanent; Supabase has no "disabled" flag on auth users
+const DEACTIVATED_BAN_DURATION = '876000h';
+
+const DUPLICATE_DEPARTMENT_ERROR = 'A department with this name already exists';
+
+export type RawDepartment = {
+  id: number;
+  name: string;
+  parent_department_id: number | null;
+};
+
+export type RawAdminUser = {
+  id: string;
+  first_name: string;
+  last_name: string;
+  department_id: number;
+  is_active: boolean;
+};
+
+export type RawAuditLogEntry = Omit<AuditLogEntry, 'actor_name'>;
+
+// ============ DEPARTMENTS ============
+
+export async function getDepartmentsDB(): Promise<RawDepartment[]> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data, error } = await serviceClient
+    .from('departments')
+    .select('id, name, parent_department_id')
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch departments: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+export async function createDepartmentDB(name: string, parentDepartmentId: number | null): Promise<RawDepartment> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data, error } = await serviceClient
+    .from('departments')
+    .insert({ name, parent_department_id: parentDepartmentId })
+    .select('id, name, parent_department_id')
+    .single();
+
+  if (error) {
+    // Unique constraint on departments.name
+    if (error.code === '23505') {
+      throw new Error(DUPLICATE_DEPARTMENT_ERROR);
+    }
+    throw new Error(`Failed to create department: ${error.message}`);
+  }
+
+  return data;
+}
+
+export async function updateDepartmentDB(
+  departmentId: number,
+  fields: Partial<{ name: string; parent_department_id: number | null }>
+): Promise<RawDepartment> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data, error } = await serviceClient
+    .from('departments')
+    .update(fields)
+    .eq('id', departmentId)
+    .select('id, name, parent_department_id')
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error(DUPLICATE_DEPARTMENT_ERROR);
+    }
+    throw new Error(`Failed to update department: ${error.message}`);
+  }
+
+  return data;
+}
+
+export async function deleteDepartmentDB(departmentId: number): Promise<void> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { error } = await serviceClient.from('departments').delete().eq('id', departmentId);
+
+  if (error) {
+    throw new Error(`Failed to delete department: ${error.message}`);
+  }
+}
+
+// ============ USERS ============
+
+/**
+ * All users, deactivated ones included, ordered by name.
+ */
+export async function getAdminUsersDB(): Promise<RawAdminUser[]> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data, error } = await serviceClient
+    .from('user_info')
+    .select('id, first_name, last_name, department_id, is_active')
+    .order('first_name', { ascending: true })
+    .order('last_name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch users: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+export async function getAdminUserDB(userId: string): Promise<RawAdminUser | null> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data, error } = await serviceClient
+    .from('user_info')
+    .select('id, first_name, last_name, department_id, is_active')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch user: ${error.message}`);
+  }
+
+  return data;
+}
+
+export async function getAllUserRolesDB(): Promise<{ user_id: string; role: UserRole }[]> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data, error } = await serviceClient.from('user_roles').select('user_id, role');
+
+  if (error) {
+    throw new Error(`Failed to fetch user roles: ${error.message}`);
+  }
+
+  return (data ?? []) as { user_id: string; role: UserRole }[];
+}
+
+/**
+ * Emails by user ID, read from Supabase Auth one page at a time.
+ */
+export async function getUserEmailsDB(): Promise<Map<string, string | null>> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const perPage = 1000;
+  const emails = new Map<string, string | null>();
+  for (let page = 1; ; page++) {
+    const { data, error } = await serviceClient.auth.admin.listUsers({ page, perPage });
+
+    if (error) {
+      throw new Error(`Failed to fetch user emails: ${error.message}`);
+    }
+
+    for (const user of data.users) {
+      emails.set(user.id, user.email ?? null);
+    }
+    if (data.users.length < perPage) break;
+  }
+
+  return emails;
+}
+
+/**
+ * Creates the auth account and its user_info row. Without a password the user is
+ * invited by email and sets one themselves. The auth account is removed again if
+ * the profile cannot be created, so no half-created users are left behind.
+ */
+export async function createUserDB(user: {
+  email: string;
+  password?: string;
+  first_name: string;
+  last_name: string;
+  department_id: number;
+}): Promise<RawAdminUser> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data: authData, error: authError } = user.password
+    ? await serviceClient.auth.admin.createUser({ email: user.email, password: user.password, email_confirm: true })
+    : await serviceClient.auth.admin.inviteUserByEmail(user.email);
+
+  if (authError || !authData.user) {
+    throw new Error(`Failed to create user: ${authError?.message ?? 'No user returned'}`);
+  }
+
+  const { data, error } = await serviceClient
+    .from('user_info')
+    .insert({
+      id: authData.user.id,
+      first_name: user.first_name,
+      last_name: user.last_name,
+      department_id: user.department_id,
+    })
+    .select('id, first_name, last_name, department_id, is_active')
+    .single();
+
+  if (error) {
+    await serviceClient.auth.admin.deleteUser(authData.user.id);
+    throw new Error(`Failed to create user profile: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Bans or unbans the auth account (ending and preventing sign-ins) and mirrors
+ * the state in user_info.is_active.
+ */
+export async function setUserActiveDB(userId: string, isActive: boolean): Promise<void> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { error: authError } = await serviceClient.auth.admin.updateUserById(userId, {
+    ban_duration: isActive ? 'none' : DEACTIVATED_BAN_DURATION,
+  });
+
+  if (authError) {
+    throw new Error(`Failed to update user account: ${authError.message}`);
+  }
+
+  const { error } = await serviceClient.from('user_info').update({ is_active: isActive }).eq('id', userId);
+
+  if (error) {
+    throw new Error(`Failed to update user: ${error.message}`);
+  }
+}
+
+export async function updateUserDepartmentDB(userId: string, departmentId: number): Promise<void> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { error } = await serviceClient.from('user_info').update({ department_id: departmentId }).eq('id', userId);
+
+  if (error) {
+    throw new Error(`Failed to move user: ${error.message}`);
+  }
+}
+
+// ============ ROLES ============
+
+export async function grantRoleDB(userId: string, role: UserRole): Promise<void> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { error } = await serviceClient
+    .from('user_roles')
+    .upsert({ user_id: userId, role }, { onConflict: 'user_id,role', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to grant role: ${error.message}`);
+  }
+}
+
+export async function revokeRoleDB(userId: string, role: UserRole): Promise<void> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { error } = await serviceClient.from('user_roles').delete().eq('user_id', userId).eq('role', role);
+
+  if (error) {
+    throw new Error(`Failed to revoke role: ${error.message}`);
+  }
+}
+
+// ============ AUDIT LOG ============
+
+export async function insertAuditLogDB(entry: {
+  actor_id: string;
+  action: AuditAction;
+  target_type: 'department' | 'user';
+  target_id: string;
+  details?: Record<string, unknown>;
+}): Promise<void> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { error } = await serviceClient.from('admin_audit_log').insert({ ...entry, details: entry.details ?? {} });
+
+  if (error) {
+    throw new Error(`Failed to record audit entry: ${error.message}`);
+  }
+}
+
+/**
+ * Most recent audit entries first.
+ */
+export async function getAuditLogDB(limit: number): Promise<RawAuditLogEntry[]> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data, error } = await serviceClient
+    .from('admin_audit_log')
+    .select('id, actor_id, action, target_type, target_id, details, created_at')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch audit log: ${error.message}`);
+  }
+
+  return (data ?? []) as RawAuditLogEntry[];
+}
@@ -0,0 +1,179 @@
+import { createClient } from '@/lib/supabase/server';
+import { createClient as createServiceClient } from '@supabase/supabase-js';
+import type { RawAssignee, RawAttachment, RawSubtask, RawTask } from '../types/tasks';
+import type { CalendarFeedToken } from '../types/calendar-feeds';
+
+const FEED_TOKEN_COLUMNS = 'id, name, created_at, last_used_at, revoked_at';
+
+function getServiceClient() {
+  return createServiceClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+}
+
+/**
+ * Lists the calendar feed tokens of the signed-in user (newest first), revoked ones included.
+ */
+export async function getCalendarFeedTokensDB(userId: string): Promise<CalendarFeedToken[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .select(FEED_TOKEN_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch calendar feeds: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Stores a new feed token. Only the hash of the secret is persisted.
+ */
+export async function createCalendarFeedTokenDB(
+  userId: string,
+  name: string,
+  tokenHash: string
+): Promise<CalendarFeedToken> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .insert({ user_id: userId, name, token_hash: tokenHash })
+    .select(FEED_TOKEN_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create calendar feed: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Revokes one of the user's tokens. Returns null if the token does not exist
+ * or belongs to someone else.
+ */
+export async function revokeCalendarFeedTokenDB(
+  userId: string,
+  tokenId: number
+): Promise<CalendarFeedToken | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', tokenId)
+    .eq('user_id', userId)
+    .select(FEED_TOKEN_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to revoke calendar feed: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Resolves an active (non-revoked) token by its hash and records the access.
+ * Feed requests carry no session, so this uses the service role.
+ */
+export async function getActiveCalendarFeedTokenDB(
+  tokenHash: string
+): Promise<{ id: number; user_id: string; name: string } | null> {
+  const serviceClient = getServiceClient();
+
+  const { data, error } = await serviceClient
+    .from('calendar_feed_tokens')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('token_hash', tokenHash)
+    .is('revoked_at', null)
+    .select('id, user_id, name')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to resolve calendar feed: ${error.message}`);
+  }
+
+  return data;
+}
+
+// A feed task with its subtasks embedded (archived ones are dropped below)
+type CalendarFeedTaskRow = Omit<RawTask, 'project'> & {
+  project: RawTask['project'] | RawTask['project'][];
+  subtasks: (RawSubtask & { is_archived: boolean })[];
+};
+
+/**
+ * Fetches the non-archived tasks visible to a user, in the same shape as getUserTasks.
+ *
+ * Used for calendar feeds, which are requested without the user's session: the service
+ * role reads the data and get_calendar_feed_tasks applies the same visibility rule as RLS.
+ */
+export async function getCalendarFeedTasksDB(userId: string): Promise<{
+  tasks: RawTask[];
+  subtasks: RawSubtask[];
+  attachments: RawAttachment[];
+  assignees: RawAssignee[];
+}> {
+  const serviceClient = getServiceClient();
+
+  const { data: tasksData, error: tasksError } = await serviceClient
+    .rpc('get_calendar_feed_tasks', { user_id_arg: userId })
+    .select(
+      `
+      id,
+      title,
+      description,
+      priority_bucket,
+      status,
+      deadline,
+      notes,
+      project:projects(id, name),
+      parent_task_id,
+      recurrence_interval,
+      recurrence_date,
+      recurrence_rule,
+      creator_id,
+      task_assignments(assignee_id),
+      tags:task_tags(tags(name)),
+      subtasks:tasks!parent_task_id(id, title, status, deadline, parent_task_id, is_archived)
+    `
+    )
+    .order('deadline', { ascending: true })
+    .overrideTypes<CalendarFeedTaskRow[], { merge: false }>();
+  if (tasksError) throw new Error(tasksError.message);
+
+  const rows = tasksData ?? [];
+  if (rows.length === 0) {
+    return { tasks: [], subtasks: [], attachments: [], assignees: [] };
+  }
+
+  // Assignee and creator names (get_task_assignees_info relies on auth.uid(), so read user_info directly)
+  const userIds = Array.from(
+    new Set(rows.flatMap((task) => [task.creator_id, ...task.task_assignments.map((a) => a.assignee_id)]))
+  );
+  const { data: userInfo, error: userInfoError } = await serviceClient
+    .from('user_info')
+    .select('id, first_name, last_name')
+    .in('id', userIds);
+  if (userInfoError) throw new Error(userInfoError.message);
+
+  // Match RawTask: project is an object, not an array, and subtasks are returned separately
+  const tasks: RawTask[] = rows.map(({ subtasks: _subtasks, ...task }) => ({
+    ...task,
+    project: Array.isArray(task.project) ? task.project[0] : task.project,
+  }));
+
+  return {
+    tasks,
+    subtasks: rows.flatMap((task) =>
+      task.subtasks.filter((subtask) => !subtask.is_archived).map(({ is_archived: _archived, ...subtask }) => subtask)
+    ),
+    // Feeds do not expose attachments
+    attachments: [],
+    assignees: (userInfo ?? []) as RawAssignee[],
+  };
+}
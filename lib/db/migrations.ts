@@ -0,0 +1,259 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type postgres from 'postgres';
+
+// Versioned schema migrations, run by `scripts/db-management.ts migrate`.
+// Files in supabase/migrations are named NNNN_description.sql and applied in
+// version order, each in its own transaction. Applied migrations are recorded
+// with a checksum so edits to an already-applied file are caught instead of
+// silently diverging from production.
+
+export const MIGRATIONS_DIR = path.join(process.cwd(), 'supabase', 'migrations');
+
+const MIGRATION_FILENAME = /^(\d{4})_([a-z0-9_]+)\.sql$/;
+
+// Arbitrary key so two `migrate up` runs cannot interleave
+const MIGRATION_LOCK_KEY = 4_217_001;
+
+export type Migration = {
+  version: string;
+  name: string;
+  filename: string;
+  sql: string;
+  checksum: string;
+};
+
+export type AppliedMigration = {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+};
+
+export type MigrationState = 'applied' | 'pending' | 'modified' | 'missing';
+
+export type MigrationStatus = {
+  version: string;
+  name: string;
+  state: MigrationState;
+  applied_at: Date | null;
+};
+
+export type MigrationPlan = {
+  statuses: MigrationStatus[];
+  pending: Migration[];
+  // Anything that makes it unsafe to apply pending migrations
+  problems: string[];
+};
+
+/**
+ * SHA-256 of the file contents, with line endings normalised so a checkout with
+ * CRLF endings does not look like an edit.
+ */
+export function checksumMigration(sql: string): string {
+  return createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+}
+
+export function parseMigrationFilename(filename: string): { version: string; name: string } | null {
+  const match = MIGRATION_FILENAME.exec(filename);
+  return match ? { version: match[1], name: match[2] } : null;
+}
+
+/**
+ * Reads every migration file, ordered by version. Other files are ignored;
+ * duplicate versions are an error.
+ */
+export async function loadMigrations(dir: string = MIGRATIONS_DIR): Promise<Migration[]> {
+  const filenames = (await fs.readdir(dir)).filter((f) => f.endsWith('.sql')).sort();
+
+  const migrations: Migration[] = [];
+  for (const filename of filenames) {
+    const parsed = parseMigrationFilename(filename);
+    if (!parsed) {
+      throw new Error(`Invalid migration filename: ${filename} (expected NNNN_description.sql)`);
+    }
+    if (migrations.some((m) => m.version === parsed.version)) {
+      throw new Error(`Duplicate migration version ${parsed.version}: ${filename}`);
+    }
+
+    const sql = await fs.readFile(path.join(dir, filename), 'utf8');
+    migrations.push({ ...parsed, filename, sql, checksum: checksumMigration(sql) });
+  }
+
+  return migrations;
+}
+
+/**
+ * Compares the migration files with what the database has recorded.
+ *
+ * Pending migrations may only be applied when every applied migration still
+ * matches its file and none of the pending ones are older than the latest
+ * applied migration (e.g. from a branch merged after a newer one ran).
+ */
+export function planMigrations(migrations: Migration[], applied: AppliedMigration[]): MigrationPlan {
+  const appliedByVersion = new Map(applied.map((a) => [a.version, a]));
+  const fileVersions = new Set(migrations.map((m) => m.version));
+  const latestApplied = applied.reduce<string | null>(
+    (latest, a) => (latest === null || a.version > latest ? a.version : latest),
+    null
+  );
+
+  const statuses: MigrationStatus[] = [];
+  const pending: Migration[] = [];
+  const problems: string[] = [];
+
+  for (const migration of migrations) {
+    const record = appliedByVersion.get(migration.version);
+    if (!record) {
+      statuses.push({ version: migration.version, name: migration.name, state: 'pending', applied_at: null });
+      pending.push(migration);
+      if (latestApplied !== null && migration.version < latestApplied) {
+        problems.push(`${migration.filename} is older than the latest applied migration (${latestApplied})`);
+      }
+    } else if (record.checksum !== migration.checksum) {
+      statuses.push({
+        version: migration.version,
+        name: migration.name,
+        state: 'modified',
+        applied_at: record.applied_at,
+      });
+      problems.push(`${migration.filename} has changed since it was applied; add a new migration instead`);
+    } else {
+      statuses.push({ version: migration.version, name: migration.name, state: 'applied', applied_at: record.applied_at });
+    }
+  }
+
+  for (const record of applied) {
+    if (!fileVersions.has(record.version)) {
+      statuses.push({ version: record.version, name: record.name, state: 'missing', applied_at: record.applied_at });
+      problems.push(`${record.version}_${record.name}.sql was applied but its file is missing`);
+    }
+  }
+
+  statuses.sort((a, b) => a.version.localeCompare(b.version));
+
+  return { statuses, pending, problems };
+}
+
+/**
+ * Migrations recorded in the database; none if the tracking table does not exist
+ * yet. Never writes, so it is safe for `status` and dry runs.
+ */
+export async function getAppliedMigrations(sql: postgres.Sql): Promise<AppliedMigration[]> {
+  const [{ exists }] = await sql<{ exists: boolean }[]>`
+    SELECT to_regclass('public.schema_migrations') IS NOT NULL AS exists
+  `;
+  if (!exists) return [];
+
+  return sql<AppliedMigration[]>`
+    SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version
+  `;
+}
+
+async function ensureMigrationsTable(sql: postgres.Sql): Promise<void> {
+  await sql`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version VARCHAR(4) PRIMARY KEY,
+      name TEXT NOT NULL,
+      checksum CHAR(64) NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    )
+  `;
+  // No policies: only the migration runner (table owner) may read or write it
+  await sql`ALTER TABLE schema_migrations ENABLE ROW LEVEL SECURITY`;
+}
+
+/**
+ * Applies pending migrations in order, each in its own transaction together with
+ * its schema_migrations row. With `dryRun` only reports what would run.
+ *
+ * `sql` must be limited to a single connection (`max: 1`): the lock that keeps
+ * concurrent runs apart is held by the session.
+ */
+export async function migrateUp(
+  sql: postgres.Sql,
+  options: { dryRun?: boolean; dir?: string; log?: (message: string) => void } = {}
+): Promise<Migration[]> {
+  const log = options.log ?? console.log;
+  const migrations = await loadMigrations(options.dir);
+
+  if (!options.dryRun) {
+    await sql`SELECT pg_advisory_lock(${MIGRATION_LOCK_KEY})`;
+  }
+
+  try {
+    // Planned after taking the lock so a concurrent run's migrations are seen
+    const { pending, problems } = planMigrations(migrations, await getAppliedMigrations(sql));
+    if (problems.length > 0) {
+      throw new Error(`Cannot apply migrations:\n  - ${problems.join('\n  - ')}`);
+    }
+
+    if (pending.length === 0) {
+      log('Database is up to date.');
+      return [];
+    }
+
+    if (options.dryRun) {
+      log(`Would apply ${pending.length} migration(s):`);
+      pending.forEach((m) => log(`  ${m.filename}`));
+      return pending;
+    }
+
+    await ensureMigrationsTable(sql);
+    for (const migration of pending) {
+      log(`Applying ${migration.filename}...`);
+      await sql.begin(async (tx) => {
+        await tx.unsafe(migration.sql);
+        await tx`
+          INSERT INTO schema_migrations (version, name, checksum)
+          VALUES (${migration.version}, ${migration.name}, ${migration.checksum})
+        `;
+      });
+    }
+    log(`Applied ${pending.length} migration(s).`);
+
+    return pending;
+  } finally {
+    if (!options.dryRun) {
+      await sql`SELECT pg_advisory_unlock(${MIGRATION_LOCK_KEY})`;
+    }
+  }
+}
+
+/**
+ * Records migrations up to and including `version` as applied without running
+ * them, for databases whose schema already matches (e.g. ones created by the old
+ * teardown-and-reseed route).
+ */
+export async function baselineMigrations(
+  sql: postgres.Sql,
+  version: string,
+  options: { dir?: string; log?: (message: string) => void } = {}
+): Promise<Migration[]> {
+  const log = options.log ?? console.log;
+  const migrations = await loadMigrations(options.dir);
+
+  if (!migrations.some((m) => m.version === version)) {
+    throw new Error(`Unknown migration version: ${version}`);
+  }
+
+  const applied = await getAppliedMigrations(sql);
+  if (applied.length > 0) {
+    throw new Error('Migrations have already been recorded; baseline only applies to untracked databases');
+  }
+
+  const baseline = migrations.filter((m) => m.version <= version);
+  await ensureMigrationsTable(sql);
+  await sql.begin(async (tx) => {
+    for (const migration of baseline) {
+      await tx`
+        INSERT INTO schema_migrations (version, name, checksum)
+        VALUES (${migration.version}, ${migration.name}, ${migration.checksum})
+      `;
+    }
+  });
+  log(`Recorded ${baseline.length} migration(s) as applied.`);
+
+  return baseline;
+}
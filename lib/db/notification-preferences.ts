@@ -0,0 +1,79 @@
+import { createClient } from '@/lib/supabase/server';
+
+export type RawNotificationPreferences = {
+  quiet_hours_start: string | null; // HH:mm:ss
+  quiet_hours_end: string | null;
+  digest_frequency: string;
+};
+
+export type RawEventPreference = {
+  event_type: string;
+  in_app: boolean;
+  email: boolean;
+};
+
+/**
+ * The signed-in user's stored settings, or null if they never saved any.
+ */
+export async function getNotificationPreferencesDB(userId: string): Promise<RawNotificationPreferences | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('quiet_hours_start, quiet_hours_end, digest_frequency')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch notification preferences: ${error.message}`);
+  }
+
+  return data;
+}
+
+export async function getEventPreferencesDB(userId: string): Promise<RawEventPreference[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('notification_event_preferences')
+    .select('event_type, in_app, email')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to fetch notification preferences: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+export async function upsertNotificationPreferencesDB(
+  userId: string,
+  fields: RawNotificationPreferences
+): Promise<void> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert({ user_id: userId, ...fields, updated_at: new Date().toISOString() }, { onConflict: 'user_id' });
+
+  if (error) {
+    throw new Error(`Failed to update notification preferences: ${error.message}`);
+  }
+}
+
+export async function upsertEventPreferencesDB(userId: string, preferences: RawEventPreference[]): Promise<void> {
+  if (preferences.length === 0) return;
+
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('notification_event_preferences')
+    .upsert(
+      preferences.map((p) => ({ user_id: userId, ...p })),
+      { onConflict: 'user_id,event_type' }
+    );
+
+  if (error) {
+    throw new Error(`Failed to update notification preferences: ${error.message}`);
+  }
+}
@@ -7,6 +7,7 @@ export type Notification = {
   title: string;
   message: string;
   type: string;
+  event_type?: string | null;
   read: boolean;
   is_archived: boolean;
   created_at: string;
@@ -18,9 +19,12 @@ export type CreateNotificationInput = {
   title: string;
   message: string;
   type: string;
+  // Preference category; derived from the title by the database when omitted
+  event_type?: string;
 };
 
 // Create notification
+// Returns null when the recipient has turned this event type off for in-app delivery
 export async function createNotification(
   input: CreateNotificationInput
 ): Promise<Notification | null> {
@@ -44,10 +48,11 @@ export async function createNotification(
       title: input.title,
       message: input.message,
       type: input.type,
+      event_type: input.event_type,
       read: false,
     })
     .select()
-    .single();
+    .maybeSingle();
 
   if (error) {
     console.error('DB: Error creating notification:', error);
@@ -0,0 +1,229 @@
+import { createClient as createServiceClient } from '@supabase/supabase-js';
+import type { ProjectDepartment } from '@/lib/types/projects';
+
+// Project management spans departments the signed-in user cannot see through RLS,
+// so everything here uses the service role; permission checks happen in the service layer.
+
+const PROJECT_COLUMNS = `
+  id,
+  name,
+  is_archived,
+  created_at,
+  updated_at,
+  project_departments(departments(id, name))
+`;
+
+export type RawProject = {
+  id: number;
+  name: string;
+  is_archived: boolean;
+  created_at: string;
+  updated_at: string;
+  project_departments: { departments: ProjectDepartment | null }[];
+};
+
+export type RawProjectTask = {
+  id: number;
+  project_id: number;
+  status: string;
+  task_assignments: { assignee_id: string }[];
+};
+
+const DUPLICATE_NAME_ERROR = 'A project with this name already exists';
+
+/**
+ * All projects, archived ones included, ordered by name.
+ */
+export async function getProjectsDB(): Promise<RawProject[]> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data, error } = await serviceClient
+    .from('projects')
+    .select(PROJECT_COLUMNS)
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch projects: ${error.message}`);
+  }
+
+  return (data ?? []) as unknown as RawProject[];
+}
+
+export async function getProjectDB(projectId: number): Promise<RawProject | null> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data, error } = await serviceClient
+    .from('projects')
+    .select(PROJECT_COLUMNS)
+    .eq('id', projectId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch project: ${error.message}`);
+  }
+
+  return data as unknown as RawProject | null;
+}
+
+/**
+ * Non-archived tasks of the given projects with their assignees.
+ */
+export async function getProjectTasksDB(projectIds: number[]): Promise<RawProjectTask[]> {
+  if (projectIds.length === 0) return [];
+
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data, error } = await serviceClient
+    .from('tasks')
+    .select('id, project_id, status, task_assignments(assignee_id)')
+    .in('project_id', projectIds)
+    .eq('is_archived', false);
+
+  if (error) {
+    throw new Error(`Failed to fetch project tasks: ${error.message}`);
+  }
+
+  return (data ?? []) as RawProjectTask[];
+}
+
+export async function getProjectMemberNamesDB(
+  userIds: string[]
+): Promise<{ id: string; first_name: string; last_name: string }[]> {
+  if (userIds.length === 0) return [];
+
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data, error } = await serviceClient
+    .from('user_info')
+    .select('id, first_name, last_name')
+    .in('id', userIds);
+
+  if (error) {
+    throw new Error(`Failed to fetch project members: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Every department, for admins linking projects across the organisation.
+ */
+export async function getAllDepartmentsDB(): Promise<ProjectDepartment[]> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data, error } = await serviceClient
+    .from('departments')
+    .select('id, name')
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch departments: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+export async function createProjectDB(name: string): Promise<RawProject> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data, error } = await serviceClient
+    .from('projects')
+    .insert({ name })
+    .select(PROJECT_COLUMNS)
+    .single();
+
+  if (error) {
+    // Unique constraint on projects.name
+    if (error.code === '23505') {
+      throw new Error(DUPLICATE_NAME_ERROR);
+    }
+    throw new Error(`Failed to create project: ${error.message}`);
+  }
+
+  return data as unknown as RawProject;
+}
+
+/**
+ * Renames and/or archives a project. Returns false if the project does not exist.
+ */
+export async function updateProjectDB(
+  projectId: number,
+  fields: Partial<{ name: string; is_archived: boolean }>
+): Promise<boolean> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data, error } = await serviceClient
+    .from('projects')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', projectId)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error(DUPLICATE_NAME_ERROR);
+    }
+    throw new Error(`Failed to update project: ${error.message}`);
+  }
+
+  return !!data;
+}
+
+/**
+ * Adds and removes project-department links.
+ */
+export async function updateProjectDepartmentsDB(
+  projectId: number,
+  changes: { add: number[]; remove: number[] }
+): Promise<void> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  if (changes.remove.length > 0) {
+    const { error } = await serviceClient
+      .from('project_departments')
+      .delete()
+      .eq('project_id', projectId)
+      .in('department_id', changes.remove);
+
+    if (error) {
+      throw new Error(`Failed to unlink departments: ${error.message}`);
+    }
+  }
+
+  if (changes.add.length > 0) {
+    const { error } = await serviceClient
+      .from('project_departments')
+      .upsert(
+        changes.add.map((departmentId) => ({ project_id: projectId, department_id: departmentId })),
+        { onConflict: 'project_id,department_id', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      throw new Error(`Failed to link departments: ${error.message}`);
+    }
+  }
+}
@@ -1,4 +1,6 @@
 import { createClient } from "@/lib/supabase/server";
+import { getUserIdsFromDepartments, type Department } from "@/lib/db/filter";
+import { SupabaseClient } from "@supabase/supabase-js";
 
 interface GetTasksOpts {
   departmentIds?: number[];
@@ -7,14 +9,81 @@ interface GetTasksOpts {
   endDate?: Date;
 }
 
+/**
+ * The given departments plus all of their sub-departments (get_department_hierarchy),
+ * without duplicates when one selected department is inside another.
+ */
+async function expandDepartments(departmentIds: number[], supabase: SupabaseClient): Promise<Department[]> {
+  const hierarchies = await Promise.all(
+    departmentIds.map(async (deptId) => {
+      const { data, error } = await supabase.rpc("get_department_hierarchy", { dept_id: deptId });
+      if (error) throw error;
+      return (data ?? []) as Department[];
+    })
+  );
+
+  const byId = new Map<number, Department>();
+  hierarchies.flat().forEach((d) => byId.set(d.id, { id: d.id, name: d.name }));
+  return Array.from(byId.values());
+}
+
+/**
+ * Departments a report filtered by `departmentIds` covers, sub-departments included.
+ */
+export async function getDepartmentScope(departmentIds: number[]): Promise<Department[]> {
+  if (departmentIds.length === 0) return [];
+
+  const supabase = await createClient();
+  return expandDepartments(departmentIds, supabase);
+}
+
+/**
+ * IDs of users in the given departments or their sub-departments.
+ */
+async function getUserIdsInDepartments(departmentIds: number[], supabase: SupabaseClient): Promise<string[]> {
+  const departments = await expandDepartments(departmentIds, supabase);
+  if (departments.length === 0) return [];
+
+  return getUserIdsFromDepartments(
+    departments.map((d) => d.id),
+    supabase
+  );
+}
+
+// Inner join that keeps only tasks with at least one assignee in a user ID list
+const DEPARTMENT_ASSIGNEE_JOIN = "task_assignments!inner(assignee_id)";
+
+export interface ReportTaskRow {
+  id: number;
+  title: string;
+  description: string | null;
+  priority_bucket: number;
+  status: string;
+  creator_id: string;
+  project_id: number;
+  deadline: string | null;
+  parent_task_id: number | null;
+  logged_time: number;
+  created_at: string;
+  updated_at: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  is_archived: boolean;
+}
+
 export async function getTasks(opts: GetTasksOpts) {
-  const { projectIds, startDate, endDate } = opts;
+  const { departmentIds, projectIds, startDate, endDate } = opts;
   const supabase = await createClient();
 
+  // Resolve department scope first; nobody in scope means no tasks
+  let departmentUserIds: string[] | undefined;
+  if (departmentIds && departmentIds.length > 0) {
+    departmentUserIds = await getUserIdsInDepartments(departmentIds, supabase);
+    if (departmentUserIds.length === 0) return [];
+  }
+
   // Base query selecting all relevant task fields
-  let query = supabase
-    .from("tasks")
-    .select(`
+  const columns: string = `
       id,
       title,
       description,
@@ -27,8 +96,13 @@ export async function getTasks(opts: GetTasksOpts) {
       logged_time,
       created_at,
       updated_at,
+      started_at,
+      completed_at,
       is_archived
-    `)
+    `;
+  let query = supabase
+    .from("tasks")
+    .select(departmentUserIds ? `${columns}, ${DEPARTMENT_ASSIGNEE_JOIN}` : columns)
     .eq("is_archived", false); 
 
   // Filter by projectIds if provided
@@ -36,14 +110,45 @@ export async function getTasks(opts: GetTasksOpts) {
     query = query.in("project_id", projectIds);
   }
 
+  // Filter by department (assignee membership) if provided
+  if (departmentUserIds) {
+    query = query.in("task_assignments.assignee_id", departmentUserIds);
+  }
+
   // Filter by startDate / endDate if provided
   if (startDate) query = query.gte("created_at", startDate.toISOString());
   if (endDate) query = query.lte("created_at", endDate.toISOString());
 
-  const { data: tasks, error } = await query;
+  const { data, error } = await query;
   if (error) throw error;
 
-  return tasks ?? [];
+  // The select list is built at runtime, so the row type is given explicitly
+  return (data ?? []) as unknown as ReportTaskRow[];
+}
+
+export interface TaskStatusHistoryRow {
+  task_id: number;
+  status: string;
+  previous_status: string | null;
+  entered_at: string;
+  left_at: string | null;
+}
+
+/**
+ * Status periods (task_status_history) of the given tasks, oldest first.
+ */
+export async function getTaskStatusHistory(taskIds: number[]): Promise<TaskStatusHistoryRow[]> {
+  if (taskIds.length === 0) return [];
+
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from('task_status_history')
+    .select('task_id, status, previous_status, entered_at, left_at')
+    .in('task_id', taskIds)
+    .order('entered_at', { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
 }
 
 export interface UserInfo {
@@ -78,31 +183,44 @@ export interface WeeklyTaskStats {
 }
 
 export async function getWeeklyTaskStatsByUser(opts: GetTasksOpts): Promise<WeeklyTaskStats[]> {
-  const { projectIds, startDate, endDate } = opts;
+  const { departmentIds, projectIds, startDate, endDate } = opts;
   const supabase = await createClient();
 
+  let departmentUserIds: string[] | undefined;
+  if (departmentIds && departmentIds.length > 0) {
+    departmentUserIds = await getUserIdsInDepartments(departmentIds, supabase);
+    if (departmentUserIds.length === 0) return [];
+  }
+
   // Get tasks with creator info
-  let query = supabase
-    .from("tasks")
-    .select(`
+  const columns: string = `
       id,
       status,
       creator_id,
       created_at,
       is_archived
-    `)
+    `;
+  let query = supabase
+    .from("tasks")
+    .select(departmentUserIds ? `${columns}, ${DEPARTMENT_ASSIGNEE_JOIN}` : columns)
     .eq("is_archived", false); // Only fetch non-archived tasks
 
   if (projectIds && projectIds.length > 0) {
     query = query.in("project_id", projectIds);
   }
 
+  if (departmentUserIds) {
+    query = query.in("task_assignments.assignee_id", departmentUserIds);
+  }
+
   if (startDate) query = query.gte("created_at", startDate.toISOString());
   if (endDate) query = query.lte("created_at", endDate.toISOString());
 
-  const { data: tasks, error } = await query;
+  const { data, error } = await query;
   if (error) throw error;
 
+  const tasks = data as unknown as Pick<ReportTaskRow, "id" | "status" | "creator_id" | "created_at">[] | null;
+
   if (!tasks || tasks.length === 0) return [];
 
   // Get unique user IDs
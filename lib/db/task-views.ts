@@ -0,0 +1,163 @@
+import { createClient } from '@/lib/supabase/server';
+
+const VIEW_COLUMNS = `
+  id,
+  user_id,
+  name,
+  query,
+  shared_department_id,
+  created_at,
+  updated_at,
+  owner:user_info!saved_task_views_user_id_fkey(first_name, last_name)
+`;
+
+export type RawSavedTaskView = {
+  id: number;
+  user_id: string;
+  name: string;
+  query: string;
+  shared_department_id: number | null;
+  created_at: string;
+  updated_at: string;
+  owner: { first_name: string; last_name: string } | null;
+};
+
+/**
+ * Lists the task views visible to the signed-in user: their own and those shared
+ * with their department (enforced by RLS). Ordered by name.
+ */
+export async function getTaskViewsDB(): Promise<RawSavedTaskView[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('saved_task_views')
+    .select(VIEW_COLUMNS)
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch saved views: ${error.message}`);
+  }
+
+  return (data ?? []) as unknown as RawSavedTaskView[];
+}
+
+/**
+ * Fetches one view if the signed-in user can see it, otherwise null.
+ */
+export async function getTaskViewDB(viewId: number): Promise<RawSavedTaskView | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('saved_task_views')
+    .select(VIEW_COLUMNS)
+    .eq('id', viewId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch saved view: ${error.message}`);
+  }
+
+  return data as unknown as RawSavedTaskView | null;
+}
+
+export async function createTaskViewDB(
+  userId: string,
+  fields: { name: string; query: string; shared_department_id: number | null }
+): Promise<RawSavedTaskView> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('saved_task_views')
+    .insert({ user_id: userId, ...fields })
+    .select(VIEW_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create saved view: ${error.message}`);
+  }
+
+  return data as unknown as RawSavedTaskView;
+}
+
+/**
+ * Updates one of the user's own views. Returns null if the view does not exist
+ * or belongs to someone else.
+ */
+export async function updateTaskViewDB(
+  userId: string,
+  viewId: number,
+  fields: Partial<{ name: string; query: string; shared_department_id: number | null }>
+): Promise<RawSavedTaskView | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('saved_task_views')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', viewId)
+    .eq('user_id', userId)
+    .select(VIEW_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update saved view: ${error.message}`);
+  }
+
+  return data as unknown as RawSavedTaskView | null;
+}
+
+/**
+ * Deletes one of the user's own views. Returns false if nothing was deleted.
+ */
+export async function deleteTaskViewDB(userId: string, viewId: number): Promise<boolean> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('saved_task_views')
+    .delete()
+    .eq('id', viewId)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to delete saved view: ${error.message}`);
+  }
+
+  return (data ?? []).length > 0;
+}
+
+/**
+ * The user's department (views can only be shared with it) and default task view.
+ */
+export async function getUserViewSettingsDB(
+  userId: string
+): Promise<{ department_id: number | null; default_task_view_id: number | null }> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('user_info')
+    .select('department_id, default_task_view_id')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch view settings: ${error.message}`);
+  }
+
+  return {
+    department_id: data?.department_id ?? null,
+    default_task_view_id: data?.default_task_view_id ?? null,
+  };
+}
+
+export async function setDefaultTaskViewDB(userId: string, viewId: number | null): Promise<void> {
+  const supabase = await createClient();
+
+  const { error } = await supabase
+    .from('user_info')
+    .update({ default_task_view_id: viewId })
+    .eq('id', userId);
+
+  if (error) {
+    throw new Error(`Failed to update default view: ${error.message}`);
+  }
+}
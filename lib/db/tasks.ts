@@ -1,6 +1,20 @@
 import { createClient } from '@/lib/supabase/server';
 import { RawTask, RawSubtask, RawAttachment, RawAssignee, RawComment } from '../services/tasks';
+import type {
+  AttachmentUpload,
+  AttachmentVersion,
+  DependencyTask,
+  RawTaskActivity,
+  RawTimeEntry,
+  TaskActivityField,
+  TaskAttachment,
+} from '../types/tasks';
 import { CreateTaskPayload } from '../types/task-creation';
+import { buildAttachmentStoragePath } from '../utils/attachments';
+
+// Columns of a TaskAttachment (one version of a document)
+const TASK_ATTACHMENT_COLUMNS =
+  'id, storage_path, file_name, size_bytes, content_type, uploaded_at, document_id, version';
 import { SupabaseClient } from '@supabase/supabase-js';
 import { createClient as createServiceClient } from '@supabase/supabase-js';
 
@@ -45,6 +59,7 @@ export async function getUserTasks(userId: string) {
       parent_task_id,
       recurrence_interval,
       recurrence_date,
+      recurrence_rule,
       creator_id,
       task_assignments(assignee_id),
       tags:task_tags(tags(name))
@@ -120,7 +135,7 @@ export async function getUserTasks(userId: string) {
  * This function retrieves comprehensive task details including:
  * - The main task data with project information, tags, and assignments
  * - All subtasks (child tasks)
- * - Attachments with generated public URLs for access
+ * - Attachments with their metadata (files are served by the attachments route)
  * - Comments made on the task with user information
  * - User information for all assignees and commenters
  *
@@ -133,7 +148,7 @@ export async function getUserTasks(userId: string) {
  * The returned object includes:
  *   - task: RawTask object with all task properties, or null if not found
  *   - subtasks: Array of RawSubtask objects
- *   - attachments: Array with id, storage_path, and public_url for each attachment
+ *   - attachments: Array of TaskAttachment (id, storage_path, file name, size, type)
  *   - comments: Array of RawComment objects
  *   - assignees: Array of RawAssignee objects with user info
  *
@@ -147,7 +162,7 @@ export async function getUserTasks(userId: string) {
 export async function getTaskById(taskId: number): Promise<{
   task: RawTask | null;
   subtasks: RawSubtask[];
-  attachments: { id: number; storage_path: string; public_url?: string }[];
+  attachments: TaskAttachment[];
   comments: RawComment[];
   assignees: RawAssignee[];
 } | null> {
@@ -168,6 +183,7 @@ export async function getTaskById(taskId: number): Promise<{
       parent_task_id,
       recurrence_interval,
       recurrence_date,
+      recurrence_rule,
       creator_id,
       task_assignments(assignee_id),
       tags:task_tags(tags(name))
@@ -200,28 +216,31 @@ export async function getTaskById(taskId: number): Promise<{
 
   const { data: attachmentsData, error: attachmentsError } = await supabase
     .from('task_attachments')
-    .select('id, storage_path')
-    .eq('task_id', taskId) as { data: RawAttachment[] | null; error: any };
+    .select(`${TASK_ATTACHMENT_COLUMNS}, is_current`)
+    .eq('task_id', taskId) as { data: (TaskAttachment & { is_current?: boolean })[] | null; error: any };
 
-  let attachments: { id: number; storage_path: string; public_url?: string }[] = [];
+  let attachments: TaskAttachment[] = [];
   if (attachmentsError) {
     console.error('Error fetching attachments:', attachmentsError);
   } else if (attachmentsData?.length) {
-    attachments = attachmentsData.map((attachment) => {
-  const { data } = supabase.storage
-    .from('task-attachments')
-    .getPublicUrl(attachment.storage_path);
-      return {
-        id: attachment.id,
-        storage_path: attachment.storage_path,
-        public_url: data?.publicUrl,
-      };
+    // List each document once, by its current version
+    const versionCounts = new Map<number, number>();
+    attachmentsData.forEach((attachment) => {
+      const documentId = attachment.document_id ?? attachment.id;
+      versionCounts.set(documentId, (versionCounts.get(documentId) ?? 0) + 1);
     });
+
+    attachments = attachmentsData
+      .filter((attachment) => attachment.is_current !== false)
+      .map(({ is_current: _isCurrent, ...attachment }) => ({
+        ...attachment,
+        version_count: versionCounts.get(attachment.document_id ?? attachment.id) ?? 1,
+      }));
   }
 
   const { data: commentsData, error: commentsError } = await supabase
     .from('task_comments')
-    .select('id, content, created_at, user_id')
+    .select('id, content, created_at, user_id, mentioned_user_ids')
     .eq('task_id', taskId)
     .neq('is_archived', true) as { data: RawComment[] | null; error: any };
 
@@ -234,7 +253,7 @@ export async function getTaskById(taskId: number): Promise<{
     ...new Set([
       transformedTask.creator_id, // Include creator
       ...transformedTask.task_assignments.map((a: any) => a.assignee_id),
-      ...(commentsData || []).map((c) => c.user_id),
+      ...(commentsData || []).flatMap((c) => [c.user_id, ...(c.mentioned_user_ids ?? [])]),
     ]),
   ];
 
@@ -295,7 +314,7 @@ export async function getTaskById(taskId: number): Promise<{
  * @param supabase - Authenticated Supabase client with user context (not currently used)
  * @param payload - The task creation payload with all task details
  * @param creatorId - The UUID of the user creating the task
- * @param attachmentFiles - Optional array of files to attach to the task
+ * @param attachments - Optional validated files (see prepareAttachmentUploads) to attach
  * @returns The ID of the newly created task
  * @throws {Error} If there's a database error or validation failure
  *
@@ -316,7 +335,7 @@ export async function createTask(
   supabase: SupabaseClient,
   payload: CreateTaskPayload,
   creatorId: string,
-  attachmentFiles?: File[]
+  attachments?: AttachmentUpload[]
 ): Promise<number> {
 
   // Use service role client to bypass RLS for task creation
@@ -349,6 +368,8 @@ export async function createTask(
       p_creator_id: creatorId,
       p_recurrence_interval: payload.recurrence_interval ?? 0,
       p_recurrence_date: payload.recurrence_date ?? null,
+      p_recurrence_rule: payload.recurrence_rule ?? null,
+      p_ical_uid: payload.ical_uid ?? null,
       p_assignee_ids: uniqueAssigneeIds,
     }
   );
@@ -391,17 +412,19 @@ export async function createTask(
   }
 
   // 3. Handle file attachments (storage uses service client, but user client for uploads is ok)
-  if (attachmentFiles && attachmentFiles.length > 0) {
-    for (const file of attachmentFiles) {
-      // Generate unique file path: tasks/{taskId}/{timestamp}-{filename}
-      const timestamp = Date.now();
-      const storagePath = `tasks/${taskId}/${timestamp}-${file.name}`;
+  if (attachments && attachments.length > 0) {
+    for (const upload of attachments) {
+      const file = upload.file;
+
+      // Generate unguessable file path: tasks/{taskId}/{uuid}-{filename}
+      const storagePath = buildAttachmentStoragePath(taskId, upload.file_name);
 
       // Upload to Supabase Storage (use service client for storage)
       const { error: uploadError } = await serviceClient.storage
         .from('task-attachments')
         .upload(storagePath, file, {
           cacheControl: '3600',
+          contentType: upload.content_type,
           upsert: false,
         });
 
@@ -413,11 +436,7 @@ export async function createTask(
       // Create attachment record (use service client)
       const { error: attachmentError } = await serviceClient
         .from('task_attachments')
-        .insert({
-          task_id: taskId,
-          storage_path: storagePath,
-          uploaded_by: creatorId,
-        });
+        .insert(attachmentRecord(taskId, storagePath, creatorId, upload));
 
       if (attachmentError) {
         console.error(`Error creating attachment record for ${file.name}:`, {
@@ -456,6 +475,7 @@ export async function getAllUsers(): Promise<RawAssignee[]> {
   const { data, error } = await serviceClient
     .from('user_info')
     .select('id, first_name, last_name')
+    .eq('is_active', true) // Deactivated users cannot be assigned
     .order('first_name', { ascending: true });
 
   if (error) {
@@ -572,8 +592,12 @@ export async function getScheduleTasks(
   deadline: string;
   status: string;
   updated_at: string;
+  priority_bucket: number;
+  parent_task_id: number | null;
+  project_id: number;
   project_name: string;
   assignees: { id: string; first_name: string; last_name: string }[];
+  blocked_by: number[];
 }[]> {
   const supabase = await createClient();
 
@@ -587,6 +611,8 @@ export async function getScheduleTasks(
       deadline,
       status,
       updated_at,
+      priority_bucket,
+      parent_task_id,
       project:projects!inner(id, name),
       task_assignments(assignee_id)
     `
@@ -658,6 +684,12 @@ export async function getScheduleTasks(
     taskAssigneeMap.set(taskId, taskAssignees);
   }
 
+  // Build a map of task_id -> blocker task IDs (for dependency arrows)
+  const blockerMap = new Map<number, number[]>();
+  for (const edge of await getDependencyEdgesDB('dependent_task_id', taskIds)) {
+    blockerMap.set(edge.dependent_task_id, [...(blockerMap.get(edge.dependent_task_id) ?? []), edge.blocker_task_id]);
+  }
+
   // Transform and return the data
   return filteredTasksData.map((task: any) => ({
     id: task.id,
@@ -666,8 +698,12 @@ export async function getScheduleTasks(
     deadline: task.deadline,
     status: task.status,
     updated_at: task.updated_at,
+    priority_bucket: task.priority_bucket,
+    parent_task_id: task.parent_task_id ?? null,
+    project_id: Array.isArray(task.project) ? task.project[0]?.id : task.project?.id,
     project_name: Array.isArray(task.project) ? task.project[0]?.name : task.project?.name,
     assignees: taskAssigneeMap.get(task.id) || [],
+    blocked_by: blockerMap.get(task.id) || [],
   }));
 }
 // ============  TASK UPDATE ============
@@ -811,6 +847,51 @@ export async function updateTaskDeadlineDB(
 
   return data;
 }
+
+/**
+ * Sets the deadlines of several tasks in one transaction (reschedule_task_deadlines):
+ * either every task moves or none does.
+ */
+export async function updateTaskDeadlinesDB(
+  deadlines: { id: number; deadline: string | null }[]
+): Promise<{ id: number; deadline: string | null }[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .rpc('reschedule_task_deadlines', { p_deadlines: deadlines })
+    .select('id, deadline');
+
+  if (error) {
+    // Raised by the RPC when a task was deleted after it was validated
+    if (error.message === 'Task not found') {
+      throw new Error('Task not found');
+    }
+    throw new Error(`Failed to update task deadline: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Lists the non-archived subtasks of a task with their current deadline and status.
+ */
+export async function getSubtaskDeadlinesDB(
+  parentTaskId: number
+): Promise<{ id: number; title: string; status: string; deadline: string | null }[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('id, title, status, deadline')
+    .eq('parent_task_id', parentTaskId)
+    .neq('is_archived', true);
+
+  if (error) {
+    throw new Error(`Failed to fetch subtasks: ${error.message}`);
+  }
+
+  return data ?? [];
+}
 /**
  * Updates only the task notes in the database.
  */
@@ -840,28 +921,31 @@ export async function updateTaskNotesDB(
 
 /**
  * Updates task recurrence settings.
- * If recurrenceInterval is 0, clears the recurrence (sets both to null).
+ * If recurrenceInterval is 0, clears the recurrence (interval, date and rule).
  */
 export async function updateTaskRecurrenceDB(
   taskId: number,
   recurrenceInterval: number,
-  recurrenceDate: string | null
-): Promise<{ id: number; recurrence_interval: number; recurrence_date: string | null }> {
+  recurrenceDate: string | null,
+  recurrenceRule: string | null = null
+): Promise<{ id: number; recurrence_interval: number; recurrence_date: string | null; recurrence_rule: string | null }> {
   const supabase = await createClient();
 
   // If interval is 0, clear recurrence
   const finalInterval = recurrenceInterval === 0 ? 0 : recurrenceInterval;
   const finalDate = recurrenceInterval === 0 ? null : recurrenceDate;
+  const finalRule = recurrenceInterval === 0 ? null : recurrenceRule;
 
   const { data, error } = await supabase
     .from('tasks')
     .update({
       recurrence_interval: finalInterval,
       recurrence_date: finalDate,
+      recurrence_rule: finalRule,
       updated_at: new Date().toISOString(),
     })
     .eq('id', taskId)
-    .select('id, recurrence_interval, recurrence_date')
+    .select('id, recurrence_interval, recurrence_date, recurrence_rule')
     .single();
 
   if (error) {
@@ -1083,12 +1167,19 @@ export async function linkSubtaskToParentDB(
 
 // ============ ATTACHMENTS ============
 
+/**
+ * Bytes stored for a task's attachments, counting every version of each document.
+ */
 export async function getTaskAttachmentsTotalSize(taskId: number): Promise<number> {
-  const supabase = await createClient();
+  // Service client: uploaders who are not assignees must still count towards the quota
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
 
-  const { data: attachments, error } = await supabase
+  const { data: attachments, error } = await serviceClient
     .from('task_attachments')
-    .select('id')
+    .select('size_bytes')
     .eq('task_id', taskId);
 
   if (error) {
@@ -1096,28 +1187,196 @@ export async function getTaskAttachmentsTotalSize(taskId: number): Promise<numbe
     return 0;
   }
 
-  if (!attachments || attachments.length === 0) {
-    return 0;
+  return (attachments || []).reduce((sum, attachment) => sum + (attachment.size_bytes || 0), 0);
+}
+
+/**
+ * SHA-256 hashes of the files already attached to a task (for deduplication).
+ */
+export async function getTaskAttachmentHashesDB(taskId: number): Promise<string[]> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data, error } = await serviceClient
+    .from('task_attachments')
+    .select('sha256')
+    .eq('task_id', taskId)
+    .not('sha256', 'is', null);
+
+  if (error) {
+    throw new Error(`Failed to fetch attachment hashes: ${error.message}`);
+  }
+
+  return (data || []).map((row: { sha256: string }) => row.sha256);
+}
+
+function attachmentRecord(taskId: number, storagePath: string, userId: string, upload: AttachmentUpload) {
+  return {
+    task_id: taskId,
+    storage_path: storagePath,
+    uploaded_by: userId,
+    file_name: upload.file_name,
+    size_bytes: upload.size_bytes,
+    content_type: upload.content_type,
+    sha256: upload.sha256,
+  };
+}
+
+/**
+ * Fetches one attachment version of a task, or null if there is no such
+ * attachment on that task. Uses the service client: callers must check the user can view the
+ * task first (see isTaskVisibleToUserDB).
+ */
+export async function getTaskAttachmentDB(
+  taskId: number,
+  attachmentId: number
+): Promise<(TaskAttachment & { is_current: boolean }) | null> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data, error } = await serviceClient
+    .from('task_attachments')
+    .select(`${TASK_ATTACHMENT_COLUMNS}, is_current`)
+    .eq('id', attachmentId)
+    .eq('task_id', taskId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch attachment: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Current versions of a task's documents, for matching re-uploads by file name.
+ */
+export async function getCurrentTaskAttachmentsDB(
+  taskId: number
+): Promise<{ id: number; document_id: number; file_name: string | null; storage_path: string }[]> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data, error } = await serviceClient
+    .from('task_attachments')
+    .select('id, document_id, file_name, storage_path')
+    .eq('task_id', taskId)
+    .eq('is_current', true);
+
+  if (error) {
+    throw new Error(`Failed to fetch attachments: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * All versions of a document, newest first, with the uploader's name.
+ */
+export async function getAttachmentVersionsDB(
+  taskId: number,
+  documentId: number
+): Promise<AttachmentVersion[]> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data: versions, error } = await serviceClient
+    .from('task_attachments')
+    .select(`${TASK_ATTACHMENT_COLUMNS}, is_current, uploaded_by`)
+    .eq('task_id', taskId)
+    .eq('document_id', documentId)
+    .order('version', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch attachment versions: ${error.message}`);
+  }
+
+  const uploaderIds = Array.from(
+    new Set((versions || []).map((v: { uploaded_by: string | null }) => v.uploaded_by).filter(Boolean))
+  ) as string[];
+
+  const uploaders = new Map<string, { first_name: string; last_name: string }>();
+  if (uploaderIds.length > 0) {
+    const { data: users, error: usersError } = await serviceClient
+      .from('user_info')
+      .select('id, first_name, last_name')
+      .in('id', uploaderIds);
+
+    if (usersError) {
+      console.error('Error fetching attachment uploaders:', usersError);
+    }
+    (users || []).forEach((u: RawAssignee) =>
+      uploaders.set(u.id, { first_name: u.first_name, last_name: u.last_name })
+    );
   }
 
-  // Get file sizes from storage metadata
-  let totalSize = 0;
-  const { data: files } = await supabase.storage
+  return (versions || []).map((version: Omit<AttachmentVersion, 'uploader'>) => ({
+    ...version,
+    uploader: version.uploaded_by ? uploaders.get(version.uploaded_by) ?? null : null,
+  }));
+}
+
+/**
+ * Makes an older version the current one (service role RPC, callers check
+ * permissions first).
+ */
+export async function restoreTaskAttachmentVersionDB(attachmentId: number): Promise<TaskAttachment> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data, error } = await serviceClient
+    .rpc('restore_task_attachment_version', { p_attachment_id: attachmentId })
+    .select(TASK_ATTACHMENT_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to restore attachment version: ${error?.message ?? 'not found'}`);
+  }
+
+  return data as TaskAttachment;
+}
+
+/**
+ * Creates a signed URL for a file in the private task-attachments bucket.
+ *
+ * @param storagePath - Object path inside the bucket
+ * @param expiresInSeconds - How long the URL stays valid
+ */
+export async function createAttachmentSignedUrlDB(
+  storagePath: string,
+  expiresInSeconds: number
+): Promise<string> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data, error } = await serviceClient.storage
     .from('task-attachments')
-    .list(`tasks/${taskId}`);
+    .createSignedUrl(storagePath, expiresInSeconds);
 
-  if (files) {
-    totalSize = files.reduce((sum, file) => sum + (file.metadata?.size || 0), 0);
+  if (error || !data?.signedUrl) {
+    throw new Error(`Failed to sign attachment URL: ${error?.message ?? 'no URL returned'}`);
   }
 
-  return totalSize;
+  return data.signedUrl;
 }
 
 export async function addTaskAttachmentsDB(
   taskId: number,
-  files: File[],
+  uploads: AttachmentUpload[],
   userId: string
-): Promise<{ id: number; storage_path: string }[]> {
+): Promise<TaskAttachment[]> {
   // Use service client to bypass RLS for attachment operations
   const serviceClient = createServiceClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -1136,33 +1395,23 @@ export async function addTaskAttachmentsDB(
   }
 
   // Validate files input
-  if (!files || !Array.isArray(files) || files.length === 0) {
+  if (!uploads || !Array.isArray(uploads) || uploads.length === 0) {
     throw new Error('No valid files provided');
   }
 
-  console.log(`Starting upload of ${files.length} files for task ${taskId}`);
+  console.log(`Starting upload of ${uploads.length} files for task ${taskId}`);
 
-  const createdAttachments: { id: number; storage_path: string }[] = [];
+  const createdAttachments: TaskAttachment[] = [];
   const uploadErrors: string[] = [];
 
   // Process each file
-  for (let i = 0; i < files.length; i++) {
-    const file = files[i];
-
-    // Validate file object
-    if (!file || typeof file !== 'object') {
-      uploadErrors.push(`File ${i}: Invalid file object`);
-      continue;
-    }
+  for (const upload of uploads) {
+    const fileName = upload.file_name;
 
-    const fileName = (file as any).name || `file_${i}`;
-    const fileSize = (file as any).size || 0;
+    console.log(`Processing file: ${fileName} (${upload.size_bytes} bytes, ${upload.content_type})`);
 
-    console.log(`Processing file ${i}: ${fileName} (${fileSize} bytes)`);
-
-    // Generate unique file path
-    const timestamp = Date.now();
-    const storagePath = `tasks/${taskId}/${timestamp}-${i}-${fileName}`;
+    // Generate unguessable file path
+    const storagePath = buildAttachmentStoragePath(taskId, fileName);
 
     try {
       // 1. Upload to Supabase Storage using service client
@@ -1170,8 +1419,10 @@ export async function addTaskAttachmentsDB(
       
       const { error: uploadError } = await serviceClient.storage
         .from('task-attachments')
-        .upload(storagePath, file as any, {
+        .upload(storagePath, upload.file, {
           cacheControl: '3600',
+          // Served with the sniffed type, never the one the browser declared
+          contentType: upload.content_type,
           upsert: false,
         });
 
@@ -1183,20 +1434,35 @@ export async function addTaskAttachmentsDB(
 
       console.log(`Successfully uploaded to storage: ${storagePath}`);
 
-      // 2. Create attachment record using service client (bypasses RLS)
-      const { data: attachment, error: attachmentError } = await serviceClient
-        .from('task_attachments')
-        .insert({
-          task_id: taskId,
-          storage_path: storagePath,
-          uploaded_by: userId,
-        })
-        .select('id, storage_path')
-        .single();
+      // 2. Create attachment record using service client (bypasses RLS). A new
+      // version of an existing document becomes its current version.
+      const { data: attachment, error: attachmentError } = upload.document_id
+        ? await serviceClient
+            .rpc('add_task_attachment_version', {
+              p_document_id: upload.document_id,
+              p_storage_path: storagePath,
+              p_uploaded_by: userId,
+              p_file_name: upload.file_name,
+              p_size_bytes: upload.size_bytes,
+              p_content_type: upload.content_type,
+              p_sha256: upload.sha256,
+            })
+            .select(TASK_ATTACHMENT_COLUMNS)
+            .single()
+        : await serviceClient
+            .from('task_attachments')
+            .insert(attachmentRecord(taskId, storagePath, userId, upload))
+            .select(TASK_ATTACHMENT_COLUMNS)
+            .single();
 
       if (attachmentError) {
         console.error(`DB error for ${fileName}:`, attachmentError);
-        uploadErrors.push(`${fileName}: DB insert failed`);
+        // 23505: the same file was attached concurrently (uq_task_attachment_sha256)
+        uploadErrors.push(
+          attachmentError.code === '23505'
+            ? `${fileName}: already attached to this task`
+            : `${fileName}: DB insert failed`
+        );
         
         // Clean up the uploaded file
         await serviceClient.storage
@@ -1224,7 +1490,7 @@ export async function addTaskAttachmentsDB(
     console.error('Upload errors:', uploadErrors);
   }
 
-  if (createdAttachments.length === 0 && files.length > 0) {
+  if (createdAttachments.length === 0 && uploads.length > 0) {
     throw new Error(
       `Failed to upload any files. Errors: ${uploadErrors.join('; ')}`
     );
@@ -1233,47 +1499,55 @@ export async function addTaskAttachmentsDB(
   return createdAttachments;
 }
 
-export async function removeTaskAttachmentDB(attachmentId: number): Promise<string> {
+/**
+ * Removes every version of one of a task's documents, files included.
+ * Callers resolve the document through getTaskAttachmentDB first so it is
+ * known to belong to the task.
+ */
+export async function removeTaskAttachmentDB(taskId: number, documentId: number): Promise<void> {
   // Use service client to bypass RLS for attachment operations
   const serviceClient = createServiceClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.SUPABASE_SERVICE_ROLE_KEY!
   );
 
-  // 1. Fetch attachment to get storage path
-  const { data: attachment, error: fetchError } = await serviceClient
+  // 1. Collect the files of all versions
+  const { data: versions, error: versionsError } = await serviceClient
     .from('task_attachments')
     .select('storage_path')
-    .eq('id', attachmentId)
-    .single();
+    .eq('task_id', taskId)
+    .eq('document_id', documentId);
 
-  if (fetchError || !attachment) {
-    throw new Error('Attachment not found');
+  if (versionsError) {
+    throw new Error(`Failed to fetch attachment versions: ${versionsError.message}`);
   }
 
-  const storagePath = attachment.storage_path;
+  const storagePaths = Array.from(
+    new Set((versions || []).map((v: { storage_path: string }) => v.storage_path))
+  );
 
   // 2. Delete from storage using service client
-  const { error: storageError } = await serviceClient.storage
-    .from('task-attachments')
-    .remove([storagePath]);
-
-  if (storageError) {
-    console.error(`Error deleting file from storage ${storagePath}:`, storageError);
-    // Continue with DB deletion anyway - file may already be deleted
+  if (storagePaths.length > 0) {
+    const { error: storageError } = await serviceClient.storage
+      .from('task-attachments')
+      .remove(storagePaths);
+
+    if (storageError) {
+      console.error(`Error deleting files from storage ${storagePaths.join(', ')}:`, storageError);
+      // Continue with DB deletion anyway - files may already be deleted
+    }
   }
 
-  // 3. Delete attachment record from database using service client
+  // 3. Delete attachment records from database using service client
   const { error: dbError } = await serviceClient
     .from('task_attachments')
     .delete()
-    .eq('id', attachmentId);
+    .eq('task_id', taskId)
+    .eq('document_id', documentId);
 
   if (dbError) {
     throw new Error(`Failed to delete attachment: ${dbError.message}`);
   }
-
-  return storagePath;
 }
 
 // ============ COMMENTS ============
@@ -1285,8 +1559,9 @@ export async function removeTaskAttachmentDB(attachmentId: number): Promise<stri
 export async function addTaskCommentDB(
   taskId: number,
   userId: string,
-  content: string
-): Promise<{ id: number; content: string; created_at: string; user_id: string }> {
+  content: string,
+  mentionedUserIds: string[] = []
+): Promise<{ id: number; content: string; created_at: string; user_id: string; mentioned_user_ids: string[] }> {
   const supabase = await createClient();
 
   const { data, error } = await supabase
@@ -1295,8 +1570,9 @@ export async function addTaskCommentDB(
       task_id: taskId,
       user_id: userId,
       content: content,
+      mentioned_user_ids: mentionedUserIds,
     })
-    .select('id, content, created_at, user_id')
+    .select('id, content, created_at, user_id, mentioned_user_ids')
     .single();
 
   if (error) {
@@ -1312,18 +1588,20 @@ export async function addTaskCommentDB(
  */
 export async function updateTaskCommentDB(
   commentId: number,
-  newContent: string
-): Promise<{ id: number; content: string; updated_at: string }> {
+  newContent: string,
+  mentionedUserIds: string[] = []
+): Promise<{ id: number; content: string; updated_at: string; mentioned_user_ids: string[] }> {
   const supabase = await createClient();
 
   const { data, error } = await supabase
     .from('task_comments')
     .update({
       content: newContent,
+      mentioned_user_ids: mentionedUserIds,
       updated_at: new Date().toISOString(),
     })
     .eq('id', commentId)
-    .select('id, content, updated_at')
+    .select('id, content, updated_at, mentioned_user_ids')
     .single();
 
   if (error) {
@@ -1353,6 +1631,27 @@ export async function deleteTaskCommentDB(commentId: number): Promise<void> {
   }
 }
 
+/**
+ * Active users the signed-in user may @mention: those they can see under the
+ * user_info RLS policy (can_view_user).
+ */
+export async function getMentionableUsersDB(): Promise<RawAssignee[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('user_info')
+    .select('id, first_name, last_name')
+    .eq('is_active', true)
+    .order('first_name', { ascending: true })
+    .order('last_name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch mentionable users: ${error.message}`);
+  }
+
+  return (data ?? []) as RawAssignee[];
+}
+
 /**
  * Fetches the author of a comment (for permission checks).
  */
@@ -1374,6 +1673,548 @@ export async function getCommentAuthorDB(commentId: number): Promise<string | nu
 
 
 
+// ============ ACTIVITY ============
+
+/**
+ * Inserts audit rows into task_activity.
+ * Uses service role client so the trail can only be written server-side.
+ */
+export async function addTaskActivityDB(
+  entries: {
+    task_id: number;
+    actor_id: string;
+    field: TaskActivityField;
+    old_value: string | null;
+    new_value: string | null;
+  }[]
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { error } = await serviceClient.from('task_activity').insert(entries);
+
+  if (error) {
+    throw new Error(`Failed to log task activity: ${error.message}`);
+  }
+}
+
+/**
+ * Fetches the activity trail of a task (newest first) together with the
+ * user info needed to display actors and assignee changes.
+ * Rows are read with the user's client so RLS limits them to visible tasks.
+ */
+export async function getTaskActivityDB(
+  taskId: number
+): Promise<{ activity: RawTaskActivity[]; users: RawAssignee[] }> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('task_activity')
+    .select('id, task_id, actor_id, field, old_value, new_value, created_at')
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch task activity: ${error.message}`);
+  }
+
+  const activity = (data ?? []) as RawTaskActivity[];
+
+  const userIds = [
+    ...new Set(
+      activity.flatMap((a) => [
+        a.actor_id,
+        ...(a.field === 'assignees' ? [a.old_value, a.new_value] : []),
+      ])
+    ),
+  ].filter((id): id is string => !!id);
+
+  if (userIds.length === 0) {
+    return { activity, users: [] };
+  }
+
+  // Names of former assignees may no longer be visible through RLS, so use the service client
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data: usersData, error: usersError } = await serviceClient
+    .from('user_info')
+    .select('id, first_name, last_name')
+    .in('id', userIds);
+
+  if (usersError) {
+    console.error('Error fetching activity user info:', usersError);
+  }
+
+  return { activity, users: (usersData ?? []) as RawAssignee[] };
+}
+
+/**
+ * Fetches the current editable field values of a task.
+ * Used by the service layer to record old values in the activity log.
+ */
+export async function getTaskFieldValuesDB(taskId: number): Promise<{
+  title: string;
+  description: string | null;
+  status: string;
+  priority_bucket: number;
+  deadline: string | null;
+  notes: string | null;
+  recurrence_interval: number;
+  recurrence_date: string | null;
+  recurrence_rule: string | null;
+} | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('title, description, status, priority_bucket, deadline, notes, recurrence_interval, recurrence_date, recurrence_rule')
+    .eq('id', taskId)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Fetches the tasks of a project that were imported from the given iCalendar UIDs.
+ * Used to turn a re-import of the same file into updates instead of duplicates.
+ */
+export async function getTasksByICalUidsDB(
+  projectId: number,
+  uids: string[]
+): Promise<{
+  id: number;
+  ical_uid: string;
+  title: string;
+  description: string | null;
+  deadline: string | null;
+  recurrence_rule: string | null;
+  tags: string[];
+}[]> {
+  if (uids.length === 0) return [];
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('id, ical_uid, title, description, deadline, recurrence_rule, tags:task_tags(tags(name))')
+    .eq('project_id', projectId)
+    .in('ical_uid', uids);
+
+  if (error) {
+    throw new Error(`Failed to fetch imported tasks: ${error.message}`);
+  }
+
+  return (data ?? []).map((task: any) => ({
+    id: task.id,
+    ical_uid: task.ical_uid,
+    title: task.title,
+    description: task.description,
+    deadline: task.deadline,
+    recurrence_rule: task.recurrence_rule,
+    tags: (task.tags ?? []).map((t: { tags: { name: string } }) => t.tags.name),
+  }));
+}
+
+/**
+ * The given iCal UIDs that are already taken in a project, including by tasks the
+ * caller cannot view (service client). Only the UIDs are returned.
+ */
+export async function getTakenICalUidsDB(projectId: number, uids: string[]): Promise<string[]> {
+  if (uids.length === 0) return [];
+
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data, error } = await serviceClient
+    .from('tasks')
+    .select('ical_uid')
+    .eq('project_id', projectId)
+    .in('ical_uid', uids);
+
+  if (error) {
+    throw new Error(`Failed to fetch imported tasks: ${error.message}`);
+  }
+
+  return (data ?? []).map((task: { ical_uid: string }) => task.ical_uid);
+}
+
+// ============ TIME ENTRIES ============
+
+const TIME_ENTRY_COLUMNS = 'id, task_id, user_id, started_at, ended_at, note';
+
+/**
+ * Fetches the time entries of a task (newest first), the users who logged
+ * them and the derived logged_time total.
+ */
+export async function getTaskTimeEntriesDB(taskId: number): Promise<{
+  entries: RawTimeEntry[];
+  users: RawAssignee[];
+  logged_time: number;
+}> {
+  const supabase = await createClient();
+
+  const { data: entriesData, error: entriesError } = await supabase
+    .from('time_entries')
+    .select(TIME_ENTRY_COLUMNS)
+    .eq('task_id', taskId)
+    .order('started_at', { ascending: false });
+
+  if (entriesError) {
+    throw new Error(`Failed to fetch time entries: ${entriesError.message}`);
+  }
+
+  const { data: taskData, error: taskError } = await supabase
+    .from('tasks')
+    .select('logged_time')
+    .eq('id', taskId)
+    .single();
+
+  if (taskError) {
+    throw new Error(`Failed to fetch logged time: ${taskError.message}`);
+  }
+
+  const entries = (entriesData ?? []) as RawTimeEntry[];
+  const userIds = [...new Set(entries.map((e) => e.user_id))];
+
+  let users: RawAssignee[] = [];
+  if (userIds.length > 0) {
+    const { data: usersData, error: usersError } = await supabase
+      .from('user_info')
+      .select('id, first_name, last_name')
+      .in('id', userIds);
+
+    if (usersError) {
+      console.error('Error fetching time entry user info:', usersError);
+    } else {
+      users = (usersData ?? []) as RawAssignee[];
+    }
+  }
+
+  return { entries, users, logged_time: Number(taskData?.logged_time ?? 0) };
+}
+
+/**
+ * Fetches the running timer of a user (on any task), if there is one.
+ */
+export async function getRunningTimeEntryDB(userId: string): Promise<RawTimeEntry | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('time_entries')
+    .select(TIME_ENTRY_COLUMNS)
+    .eq('user_id', userId)
+    .is('ended_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch running timer: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Inserts a time entry. Leave endedAt null to start a running timer.
+ * The trg_sync_task_logged_time trigger keeps tasks.logged_time in sync.
+ */
+export async function addTimeEntryDB(entry: {
+  task_id: number;
+  user_id: string;
+  started_at: string;
+  ended_at: string | null;
+  note: string | null;
+}): Promise<RawTimeEntry> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('time_entries')
+    .insert(entry)
+    .select(TIME_ENTRY_COLUMNS)
+    .single();
+
+  if (error) {
+    // Unique index idx_time_entries_one_running
+    if (error.code === '23505') {
+      throw new Error('You already have a running timer');
+    }
+    throw new Error(`Failed to add time entry: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Stops a running timer by setting its end time.
+ */
+export async function stopTimeEntryDB(entryId: number, endedAt: string): Promise<RawTimeEntry> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('time_entries')
+    .update({ ended_at: endedAt })
+    .eq('id', entryId)
+    .is('ended_at', null)
+    .select(TIME_ENTRY_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to stop timer: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Fetches a single time entry (for ownership checks).
+ */
+export async function getTimeEntryDB(entryId: number): Promise<RawTimeEntry | null> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('time_entries')
+    .select(TIME_ENTRY_COLUMNS)
+    .eq('id', entryId)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Deletes a time entry.
+ */
+export async function deleteTimeEntryDB(entryId: number): Promise<void> {
+  const supabase = await createClient();
+
+  const { error } = await supabase.from('time_entries').delete().eq('id', entryId);
+
+  if (error) {
+    throw new Error(`Failed to delete time entry: ${error.message}`);
+  }
+}
+
+// ============ DEPENDENCIES ============
+
+const DEPENDENCY_TASK_COLUMNS = 'id, title, status, deadline';
+
+/**
+ * Fetches the fields needed to validate a dependency between tasks.
+ */
+export async function getDependencyNodesDB(taskIds: number[]): Promise<(DependencyTask & {
+  project_id: number;
+  parent_task_id: number | null;
+})[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('tasks')
+    .select(`${DEPENDENCY_TASK_COLUMNS}, project_id, parent_task_id`)
+    .in('id', taskIds);
+
+  if (error) {
+    throw new Error(`Failed to fetch tasks: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Fetches the blockers (tasks this one waits for) and dependents (tasks waiting for this one).
+ */
+export async function getTaskDependenciesDB(
+  taskId: number
+): Promise<{ blockers: DependencyTask[]; dependents: DependencyTask[] }> {
+  const supabase = await createClient();
+
+  const { data: blockerRows, error: blockersError } = await supabase
+    .from('task_dependencies')
+    .select(`task:tasks!task_dependencies_blocker_task_id_fkey(${DEPENDENCY_TASK_COLUMNS})`)
+    .eq('dependent_task_id', taskId);
+
+  if (blockersError) {
+    throw new Error(`Failed to fetch task dependencies: ${blockersError.message}`);
+  }
+
+  const { data: dependentRows, error: dependentsError } = await supabase
+    .from('task_dependencies')
+    .select(`task:tasks!task_dependencies_dependent_task_id_fkey(${DEPENDENCY_TASK_COLUMNS})`)
+    .eq('blocker_task_id', taskId);
+
+  if (dependentsError) {
+    throw new Error(`Failed to fetch task dependencies: ${dependentsError.message}`);
+  }
+
+  const toTasks = (rows: any[] | null): DependencyTask[] =>
+    (rows ?? [])
+      .map((row) => (Array.isArray(row.task) ? row.task[0] : row.task))
+      .filter(Boolean);
+
+  return { blockers: toTasks(blockerRows), dependents: toTasks(dependentRows) };
+}
+
+/**
+ * Fetches dependency edges touching the given tasks, either as blockers or as dependents.
+ */
+export async function getDependencyEdgesDB(
+  column: 'blocker_task_id' | 'dependent_task_id',
+  taskIds: number[]
+): Promise<{ blocker_task_id: number; dependent_task_id: number }[]> {
+  if (taskIds.length === 0) return [];
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('task_dependencies')
+    .select('blocker_task_id, dependent_task_id')
+    .in(column, taskIds);
+
+  if (error) {
+    throw new Error(`Failed to fetch task dependencies: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Same as getDependencyEdgesDB but through the service client, so the whole
+ * graph is seen, including edges through tasks the caller cannot view. Only
+ * IDs are returned: for cycle checks, never for display.
+ */
+export async function getDependencyGraphEdgesDB(
+  column: 'blocker_task_id' | 'dependent_task_id',
+  taskIds: number[]
+): Promise<{ blocker_task_id: number; dependent_task_id: number }[]> {
+  if (taskIds.length === 0) return [];
+
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data, error } = await serviceClient
+    .from('task_dependencies')
+    .select('blocker_task_id, dependent_task_id')
+    .in(column, taskIds);
+
+  if (error) {
+    throw new Error(`Failed to fetch task dependencies: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+/**
+ * IDs and statuses of all blockers of a task, including blockers the caller
+ * cannot view (service client), for the finish-to-start gate.
+ */
+export async function getBlockerStatusesDB(taskId: number): Promise<{ id: number; status: string }[]> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data, error } = await serviceClient
+    .from('task_dependencies')
+    .select('blocker_task_id, blocker:tasks!task_dependencies_blocker_task_id_fkey(status)')
+    .eq('dependent_task_id', taskId);
+
+  if (error) {
+    throw new Error(`Failed to fetch task dependencies: ${error.message}`);
+  }
+
+  return (data ?? []).map((row: any) => {
+    const blocker = Array.isArray(row.blocker) ? row.blocker[0] : row.blocker;
+    return { id: row.blocker_task_id, status: blocker?.status ?? '' };
+  });
+}
+
+/**
+ * Fetches the non-archived siblings of a task: same project and same parent
+ * (or top-level tasks of the project for a top-level task).
+ */
+export async function getSiblingTasksDB(
+  taskId: number,
+  projectId: number,
+  parentTaskId: number | null
+): Promise<DependencyTask[]> {
+  const supabase = await createClient();
+
+  let query = supabase
+    .from('tasks')
+    .select(DEPENDENCY_TASK_COLUMNS)
+    .eq('project_id', projectId)
+    .neq('id', taskId)
+    .neq('is_archived', true);
+
+  query = parentTaskId === null ? query.is('parent_task_id', null) : query.eq('parent_task_id', parentTaskId);
+
+  const { data, error } = await query.order('deadline', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch sibling tasks: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+/**
+ * Inserts a dependency. No validation - cycle and sibling checks happen in the service layer.
+ */
+export async function addTaskDependencyDB(
+  blockerTaskId: number,
+  dependentTaskId: number,
+  userId: string
+): Promise<void> {
+  const supabase = await createClient();
+
+  const { error } = await supabase.from('task_dependencies').insert({
+    blocker_task_id: blockerTaskId,
+    dependent_task_id: dependentTaskId,
+    created_by: userId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to add dependency: ${error.message}`);
+  }
+}
+
+/**
+ * Deletes a dependency. Returns false if it did not exist.
+ */
+export async function removeTaskDependencyDB(blockerTaskId: number, dependentTaskId: number): Promise<boolean> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('task_dependencies')
+    .delete()
+    .eq('blocker_task_id', blockerTaskId)
+    .eq('dependent_task_id', dependentTaskId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to remove dependency: ${error.message}`);
+  }
+
+  return (data ?? []).length > 0;
+}
+
 // ============ HELPER: Get task with permission data ============
 
 /**
@@ -1401,6 +2242,25 @@ export async function getTaskPermissionDataDB(
   };
 }
 
+/**
+ * Whether the user can view the task (creator, or a task assignee is in the
+ * user's department). Same rule as the tasks SELECT policy.
+ */
+export async function isTaskVisibleToUserDB(taskId: number, userId: string): Promise<boolean> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc('is_task_visible_to_user', {
+    task_id_arg: taskId,
+    user_id_arg: userId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to check task visibility: ${error.message}`);
+  }
+
+  return data === true;
+}
+
 export async function isUserManager(userId: string): Promise<boolean> {
   const supabase = await createClient();
 
@@ -0,0 +1,71 @@
+import { createClient } from '@/lib/supabase/server';
+import { createClient as createServiceClient } from '@supabase/supabase-js';
+
+export type WorkloadUserRow = {
+  id: string;
+  first_name: string;
+  last_name: string;
+  department_id: number | null;
+  weekly_capacity: number;
+};
+
+/**
+ * Name, department and weekly capacity of the given users, limited to the users
+ * the signed-in user can see (RLS).
+ */
+export async function getWorkloadUsersDB(userIds: string[]): Promise<WorkloadUserRow[]> {
+  if (userIds.length === 0) return [];
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase
+    .from('user_info')
+    .select('id, first_name, last_name, department_id, weekly_capacity')
+    .in('id', userIds);
+
+  if (error) {
+    throw new Error(`Failed to fetch user capacity: ${error.message}`);
+  }
+
+  return data ?? [];
+}
+
+/**
+ * IDs of everyone in the user's department hierarchy, the user included.
+ */
+export async function getDepartmentColleagueIdsDB(userId: string): Promise<string[]> {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc('get_department_colleagues', { user_uuid: userId });
+
+  if (error) {
+    throw new Error(`Failed to fetch department colleagues: ${error.message}`);
+  }
+
+  return (data ?? []).map((row: { id: string }) => row.id);
+}
+
+/**
+ * Sets a user's weekly capacity. Uses the service role because managers may update
+ * colleagues' rows; permission checks happen in the service layer.
+ * Returns false if the user does not exist.
+ */
+export async function updateWeeklyCapacityDB(userId: string, weeklyCapacity: number): Promise<boolean> {
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data, error } = await serviceClient
+    .from('user_info')
+    .update({ weekly_capacity: weeklyCapacity })
+    .eq('id', userId)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update weekly capacity: ${error.message}`);
+  }
+
+  return !!data;
+}
@@ -0,0 +1,424 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getRolesForUserClient } from '@/lib/db/roles';
+import {
+  createDepartmentDB,
+  createUserDB,
+  deleteDepartmentDB,
+  getAdminUserDB,
+  getAdminUsersDB,
+  getAllUserRolesDB,
+  getAuditLogDB,
+  getDepartmentsDB,
+  getUserEmailsDB,
+  grantRoleDB,
+  insertAuditLogDB,
+  revokeRoleDB,
+  setUserActiveDB,
+  updateDepartmentDB,
+  updateUserDepartmentDB,
+  type RawDepartment,
+} from '@/lib/db/admin';
+import { wouldCreateCycle } from '@/lib/utils/department-tree';
+import { USER_ROLES, type AdminDepartment, type AdminUser, type AuditLogEntry, type UserRole } from '@/lib/types/admin';
+
+export type { AdminDepartment, AdminUser, AuditLogEntry, UserRole } from '@/lib/types/admin';
+
+const DEPARTMENT_NAME_MAX_LENGTH = 255;
+const USER_NAME_MAX_LENGTH = 255;
+const PASSWORD_MIN_LENGTH = 8;
+const AUDIT_LOG_DEFAULT_LIMIT = 100;
+const AUDIT_LOG_MAX_LIMIT = 500;
+
+export const ADMIN_PERMISSION_ERROR = 'Only admins can use the admin console';
+export const DEPARTMENT_CYCLE_ERROR = 'A department cannot be moved under itself or one of its sub-departments';
+export const DEPARTMENT_NOT_FOUND_ERROR = 'Department not found';
+export const USER_NOT_FOUND_ERROR = 'User not found';
+
+/**
+ * Throws unless the user is an admin.
+ */
+async function assertAdmin(supabase: SupabaseClient, userId: string): Promise<void> {
+  const roles = await getRolesForUserClient(supabase, userId);
+  if (!roles.includes('admin')) {
+    throw new Error(ADMIN_PERMISSION_ERROR);
+  }
+}
+
+function validateName(value: unknown, label: string, maxLength: number): string {
+  const trimmed = typeof value === 'string' ? value.trim() : '';
+  if (!trimmed) {
+    throw new Error(`${label} is required`);
+  }
+  if (trimmed.length > maxLength) {
+    throw new Error(`${label} must be ${maxLength} characters or less`);
+  }
+  return trimmed;
+}
+
+function validateRole(role: unknown): UserRole {
+  if (!USER_ROLES.includes(role as UserRole)) {
+    throw new Error(`Role must be one of: ${USER_ROLES.join(', ')}`);
+  }
+  return role as UserRole;
+}
+
+function findDepartment(departments: RawDepartment[], departmentId: unknown): RawDepartment {
+  const department = departments.find((d) => d.id === departmentId);
+  if (!department) {
+    throw new Error(DEPARTMENT_NOT_FOUND_ERROR);
+  }
+  return department;
+}
+
+/**
+ * Validates a parent department ID (null for a top-level department).
+ */
+function validateParent(departments: RawDepartment[], parentDepartmentId: unknown): number | null {
+  if (parentDepartmentId === null) return null;
+  if (!departments.some((d) => d.id === parentDepartmentId)) {
+    throw new Error('Parent department not found');
+  }
+  return parentDepartmentId as number;
+}
+
+// ============ DEPARTMENTS ============
+
+/**
+ * Every department with its number of users (deactivated ones included).
+ */
+export async function listDepartments(supabase: SupabaseClient, userId: string): Promise<AdminDepartment[]> {
+  await assertAdmin(supabase, userId);
+
+  const [departments, users] = await Promise.all([getDepartmentsDB(), getAdminUsersDB()]);
+
+  return departments.map((department) => ({
+    ...department,
+    member_count: users.filter((user) => user.department_id === department.id).length,
+  }));
+}
+
+export async function createDepartment(
+  supabase: SupabaseClient,
+  userId: string,
+  input: { name: unknown; parentDepartmentId?: unknown }
+): Promise<AdminDepartment> {
+  await assertAdmin(supabase, userId);
+
+  // 1. Validate
+  const name = validateName(input.name, 'Department name', DEPARTMENT_NAME_MAX_LENGTH);
+  const departments = await getDepartmentsDB();
+  const parentDepartmentId = validateParent(departments, input.parentDepartmentId ?? null);
+
+  // 2. Create
+  const department = await createDepartmentDB(name, parentDepartmentId);
+
+  // 3. Audit
+  await insertAuditLogDB({
+    actor_id: userId,
+    action: 'department.create',
+    target_type: 'department',
+    target_id: String(department.id),
+    details: { name, parent_department_id: parentDepartmentId },
+  });
+
+  return { ...department, member_count: 0 };
+}
+
+/**
+ * Renames and/or re-parents a department. Moving a department under itself or one
+ * of its descendants is rejected.
+ */
+export async function updateDepartment(
+  supabase: SupabaseClient,
+  userId: string,
+  departmentId: number,
+  updates: { name?: unknown; parentDepartmentId?: unknown }
+): Promise<AdminDepartment> {
+  await assertAdmin(supabase, userId);
+
+  // 1. Validate
+  if (updates.name === undefined && updates.parentDepartmentId === undefined) {
+    throw new Error('No changes provided');
+  }
+
+  const departments = await getDepartmentsDB();
+  const current = findDepartment(departments, departmentId);
+
+  const fields: Partial<{ name: string; parent_department_id: number | null }> = {};
+  if (updates.name !== undefined) {
+    fields.name = validateName(updates.name, 'Department name', DEPARTMENT_NAME_MAX_LENGTH);
+  }
+  if (updates.parentDepartmentId !== undefined) {
+    const parentDepartmentId = validateParent(departments, updates.parentDepartmentId);
+    if (wouldCreateCycle(departments, departmentId, parentDepartmentId)) {
+      throw new Error(DEPARTMENT_CYCLE_ERROR);
+    }
+    fields.parent_department_id = parentDepartmentId;
+  }
+
+  // 2. Update
+  const department = await updateDepartmentDB(departmentId, fields);
+  const users = await getAdminUsersDB();
+
+  // 3. Audit
+  await insertAuditLogDB({
+    actor_id: userId,
+    action: 'department.update',
+    target_type: 'department',
+    target_id: String(departmentId),
+    details: {
+      before: { name: current.name, parent_department_id: current.parent_department_id },
+      after: { name: department.name, parent_department_id: department.parent_department_id },
+    },
+  });
+
+  return { ...department, member_count: users.filter((user) => user.department_id === departmentId).length };
+}
+
+/**
+ * Deletes an empty department. Departments that still have users or
+ * sub-departments must be emptied first.
+ */
+export async function deleteDepartment(supabase: SupabaseClient, userId: string, departmentId: number): Promise<void> {
+  await assertAdmin(supabase, userId);
+
+  // 1. Validate
+  const [departments, users] = await Promise.all([getDepartmentsDB(), getAdminUsersDB()]);
+  const department = findDepartment(departments, departmentId);
+
+  if (departments.some((d) => d.parent_department_id === departmentId)) {
+    throw new Error('Move or delete its sub-departments first');
+  }
+  if (users.some((user) => user.department_id === departmentId)) {
+    throw new Error('Move its users to another department first');
+  }
+
+  // 2. Delete
+  await deleteDepartmentDB(departmentId);
+
+  // 3. Audit
+  await insertAuditLogDB({
+    actor_id: userId,
+    action: 'department.delete',
+    target_type: 'department',
+    target_id: String(departmentId),
+    details: { name: department.name, parent_department_id: department.parent_department_id },
+  });
+}
+
+// ============ USERS ============
+
+/**
+ * Every user, deactivated ones included, with their email and roles.
+ */
+export async function listUsers(supabase: SupabaseClient, userId: string): Promise<AdminUser[]> {
+  await assertAdmin(supabase, userId);
+
+  const [users, userRoles, emails] = await Promise.all([getAdminUsersDB(), getAllUserRolesDB(), getUserEmailsDB()]);
+
+  return users.map((user) => ({
+    ...user,
+    email: emails.get(user.id) ?? null,
+    roles: USER_ROLES.filter((role) => userRoles.some((ur) => ur.user_id === user.id && ur.role === role)),
+  }));
+}
+
+/**
+ * Creates an account (invited by email when no password is given) with the given
+ * roles; staff if none are given.
+ */
+export async function createUser(
+  supabase: SupabaseClient,
+  userId: string,
+  input: {
+    email: unknown;
+    password?: unknown;
+    firstName: unknown;
+    lastName: unknown;
+    departmentId: unknown;
+    roles?: unknown;
+  }
+): Promise<AdminUser> {
+  await assertAdmin(supabase, userId);
+
+  // 1. Validate
+  const email = typeof input.email === 'string' ? input.email.trim().toLowerCase() : '';
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new Error('A valid email is required');
+  }
+  if (
+    input.password !== undefined &&
+    (typeof input.password !== 'string' || input.password.length < PASSWORD_MIN_LENGTH)
+  ) {
+    throw new Error(`Password must be at least ${PASSWORD_MIN_LENGTH} characters`);
+  }
+  const firstName = validateName(input.firstName, 'First name', USER_NAME_MAX_LENGTH);
+  const lastName = validateName(input.lastName, 'Last name', USER_NAME_MAX_LENGTH);
+  const departments = await getDepartmentsDB();
+  const department = findDepartment(departments, input.departmentId);
+  if (input.roles !== undefined && !Array.isArray(input.roles)) {
+    throw new Error('Roles must be an array');
+  }
+  const roles = Array.from(new Set(((input.roles as unknown[]) ?? ['staff']).map(validateRole)));
+
+  // 2. Create the account and grant its roles
+  const user = await createUserDB({
+    email,
+    password: input.password as string | undefined,
+    first_name: firstName,
+    last_name: lastName,
+    department_id: department.id,
+  });
+  for (const role of roles) {
+    await grantRoleDB(user.id, role);
+  }
+
+  // 3. Audit
+  await insertAuditLogDB({
+    actor_id: userId,
+    action: 'user.create',
+    target_type: 'user',
+    target_id: user.id,
+    details: { email, department_id: department.id, roles, invited: input.password === undefined },
+  });
+
+  return { ...user, email, roles: USER_ROLES.filter((role) => roles.includes(role)) };
+}
+
+/**
+ * Moves a user to another department and/or deactivates or reactivates them.
+ * Admins cannot deactivate themselves.
+ */
+export async function updateUser(
+  supabase: SupabaseClient,
+  userId: string,
+  targetUserId: string,
+  updates: { departmentId?: unknown; isActive?: boolean }
+): Promise<void> {
+  await assertAdmin(supabase, userId);
+
+  // 1. Validate
+  if (updates.departmentId === undefined && updates.isActive === undefined) {
+    throw new Error('No changes provided');
+  }
+
+  const target = await getAdminUserDB(targetUserId);
+  if (!target) {
+    throw new Error(USER_NOT_FOUND_ERROR);
+  }
+  if (updates.isActive === false && targetUserId === userId) {
+    throw new Error('You cannot deactivate your own account');
+  }
+
+  const department =
+    updates.departmentId !== undefined ? findDepartment(await getDepartmentsDB(), updates.departmentId) : null;
+
+  // 2. Move
+  if (department && department.id !== target.department_id) {
+    await updateUserDepartmentDB(targetUserId, department.id);
+    await insertAuditLogDB({
+      actor_id: userId,
+      action: 'user.move',
+      target_type: 'user',
+      target_id: targetUserId,
+      details: { from_department_id: target.department_id, to_department_id: department.id },
+    });
+  }
+
+  // 3. Deactivate / reactivate
+  if (updates.isActive !== undefined && updates.isActive !== target.is_active) {
+    await setUserActiveDB(targetUserId, updates.isActive);
+    await insertAuditLogDB({
+      actor_id: userId,
+      action: updates.isActive ? 'user.reactivate' : 'user.deactivate',
+      target_type: 'user',
+      target_id: targetUserId,
+      details: {},
+    });
+  }
+}
+
+// ============ ROLES ============
+
+export async function grantRole(
+  supabase: SupabaseClient,
+  userId: string,
+  targetUserId: string,
+  role: unknown
+): Promise<void> {
+  await assertAdmin(supabase, userId);
+
+  // 1. Validate
+  const validRole = validateRole(role);
+  if (!(await getAdminUserDB(targetUserId))) {
+    throw new Error(USER_NOT_FOUND_ERROR);
+  }
+
+  // 2. Grant
+  await grantRoleDB(targetUserId, validRole);
+
+  // 3. Audit
+  await insertAuditLogDB({
+    actor_id: userId,
+    action: 'role.grant',
+    target_type: 'user',
+    target_id: targetUserId,
+    details: { role: validRole },
+  });
+}
+
+/**
+ * Revokes a role. Admins cannot revoke their own admin role, so the console can
+ * never be left without the admin who is using it.
+ */
+export async function revokeRole(
+  supabase: SupabaseClient,
+  userId: string,
+  targetUserId: string,
+  role: unknown
+): Promise<void> {
+  await assertAdmin(supabase, userId);
+
+  // 1. Validate
+  const validRole = validateRole(role);
+  if (validRole === 'admin' && targetUserId === userId) {
+    throw new Error('You cannot revoke your own admin role');
+  }
+  if (!(await getAdminUserDB(targetUserId))) {
+    throw new Error(USER_NOT_FOUND_ERROR);
+  }
+
+  // 2. Revoke
+  await revokeRoleDB(targetUserId, validRole);
+
+  // 3. Audit
+  await insertAuditLogDB({
+    actor_id: userId,
+    action: 'role.revoke',
+    target_type: 'user',
+    target_id: targetUserId,
+    details: { role: validRole },
+  });
+}
+
+// ============ AUDIT LOG ============
+
+/**
+ * Most recent admin changes first, with the name of the admin who made them.
+ */
+export async function getAuditLog(
+  supabase: SupabaseClient,
+  userId: string,
+  limit: number = AUDIT_LOG_DEFAULT_LIMIT
+): Promise<AuditLogEntry[]> {
+  await assertAdmin(supabase, userId);
+
+  const safeLimit = Math.min(Math.max(Math.floor(limit) || AUDIT_LOG_DEFAULT_LIMIT, 1), AUDIT_LOG_MAX_LIMIT);
+  const [entries, users] = await Promise.all([getAuditLogDB(safeLimit), getAdminUsersDB()]);
+  const names = new Map(users.map((user) => [user.id, `${user.first_name} ${user.last_name}`]));
+
+  return entries.map((entry) => ({
+    ...entry,
+    actor_name: (entry.actor_id && names.get(entry.actor_id)) || 'Unknown user',
+  }));
+}
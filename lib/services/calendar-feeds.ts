@@ -0,0 +1,133 @@
+import { createHash, randomBytes } from 'crypto';
+import {
+  createCalendarFeedTokenDB,
+  getActiveCalendarFeedTokenDB,
+  getCalendarFeedTasksDB,
+  getCalendarFeedTokensDB,
+  revokeCalendarFeedTokenDB,
+} from '@/lib/db/calendar-feeds';
+import { formatTasks } from '@/lib/services/tasks';
+import { generateICalFile } from '@/lib/utils/ical';
+import type { Task } from '@/lib/types/tasks';
+import type { CalendarFeedFilters, CalendarFeedToken } from '@/lib/types/calendar-feeds';
+
+export type { CalendarFeedFilters, CalendarFeedToken } from '@/lib/types/calendar-feeds';
+
+export const MAX_ACTIVE_CALENDAR_FEEDS = 10;
+
+const FEED_TOKEN_PATTERN = /^[a-f0-9]{64}$/;
+
+/**
+ * Feed secrets are only stored hashed; the plain token lives in the subscription URL.
+ */
+export function hashCalendarFeedToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// ============ TOKENS ============
+
+export async function listCalendarFeeds(userId: string): Promise<CalendarFeedToken[]> {
+  return getCalendarFeedTokensDB(userId);
+}
+
+/**
+ * Creates a feed token. The plain token is returned once and cannot be recovered later.
+ */
+export async function createCalendarFeed(
+  userId: string,
+  name: string
+): Promise<{ feed: CalendarFeedToken; token: string }> {
+  // 1. Validate
+  const trimmedName = name?.trim();
+  if (!trimmedName) {
+    throw new Error('Feed name is required');
+  }
+  if (trimmedName.length > 100) {
+    throw new Error('Feed name must be 100 characters or less');
+  }
+
+  // 2. Enforce the per-user limit on active feeds
+  const existing = await getCalendarFeedTokensDB(userId);
+  if (existing.filter((feed) => !feed.revoked_at).length >= MAX_ACTIVE_CALENDAR_FEEDS) {
+    throw new Error(`You can have at most ${MAX_ACTIVE_CALENDAR_FEEDS} active calendar feeds`);
+  }
+
+  // 3. Store the hash of a fresh random secret
+  const token = randomBytes(32).toString('hex');
+  const feed = await createCalendarFeedTokenDB(userId, trimmedName, hashCalendarFeedToken(token));
+
+  return { feed, token };
+}
+
+export async function revokeCalendarFeed(userId: string, feedId: number): Promise<CalendarFeedToken> {
+  const feed = await revokeCalendarFeedTokenDB(userId, feedId);
+  if (!feed) {
+    throw new Error('Calendar feed not found');
+  }
+  return feed;
+}
+
+// ============ FEED ============
+
+/**
+ * Reads project/tag filters from the feed URL (?project=1,2&tag=urgent,backend).
+ */
+export function parseCalendarFeedFilters(searchParams: URLSearchParams): CalendarFeedFilters {
+  const projectIds = (searchParams.get('project') ?? '')
+    .split(',')
+    .map((v) => Number(v))
+    .filter((n) => Number.isInteger(n) && n > 0);
+
+  const tags = (searchParams.get('tag') ?? '')
+    .split(',')
+    .map((t) => t.trim())
+    .filter(Boolean);
+
+  return { projectIds, tags };
+}
+
+export function filterCalendarFeedTasks(tasks: Task[], filters: CalendarFeedFilters): Task[] {
+  return tasks.filter((task) => {
+    if (filters.projectIds.length > 0 && !filters.projectIds.includes(task.project?.id)) return false;
+    if (filters.tags.length > 0 && !filters.tags.some((tag) => task.tags.includes(tag))) return false;
+    return true;
+  });
+}
+
+/**
+ * Strong ETag of a feed body. DTSTAMP changes on every generation, so it is left out;
+ * everything else in the body reflects task data.
+ */
+export function getCalendarFeedETag(body: string): string {
+  const stable = body.replace(/^DTSTAMP:.*$/gm, '');
+  return `"${createHash('sha1').update(stable).digest('hex')}"`;
+}
+
+/**
+ * True if an If-None-Match header matches the given ETag (weak comparison, lists and * allowed).
+ */
+export function matchesIfNoneMatch(header: string | null, etag: string): boolean {
+  if (!header) return false;
+  return header
+    .split(',')
+    .map((value) => value.trim().replace(/^W\//, ''))
+    .some((value) => value === '*' || value === etag);
+}
+
+/**
+ * Builds the iCalendar feed for a token, or returns null for unknown or revoked tokens.
+ */
+export async function getCalendarFeed(
+  token: string,
+  filters: CalendarFeedFilters
+): Promise<{ body: string; etag: string } | null> {
+  if (!FEED_TOKEN_PATTERN.test(token)) return null;
+
+  const feedToken = await getActiveCalendarFeedTokenDB(hashCalendarFeedToken(token));
+  if (!feedToken) return null;
+
+  const tasks = filterCalendarFeedTasks(formatTasks(await getCalendarFeedTasksDB(feedToken.user_id)), filters);
+  const body = generateICalFile(tasks, feedToken.name);
+
+  return { body, etag: getCalendarFeedETag(body) };
+}
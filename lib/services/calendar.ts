@@ -0,0 +1,168 @@
+/**
+ * Calendar helpers for the task calendar views.
+ *
+ * This file contains ONLY pure functions (no server imports), so it is safe to
+ * import in Client Components.
+ */
+import {
+  startOfDay,
+  endOfDay,
+  startOfMonth,
+  endOfMonth,
+  startOfWeek,
+  endOfWeek,
+  isSameDay,
+} from 'date-fns';
+import { calculateNextDueDate, type Task } from '@/lib/types/tasks';
+
+export type CalendarViewMode = 'day' | 'week' | 'month' | 'agenda';
+
+/**
+ * A task as rendered on the calendar. Projected entries are future occurrences
+ * of a recurring task that have not been created yet; they are display-only.
+ */
+export type CalendarTask = Task & {
+  isProjected?: boolean;
+  occurrenceKey?: string;
+};
+
+export type CalendarFilterState = {
+  status: string[];
+  projects: number[];
+  tags: string[];
+  assignees: string[];
+  showCompleted: boolean;
+};
+
+export const DEFAULT_CALENDAR_FILTERS: CalendarFilterState = {
+  status: [],
+  projects: [],
+  tags: [],
+  assignees: [],
+  showCompleted: true,
+};
+
+// Safety cap so a daily task viewed over a long range cannot generate unbounded entries
+const MAX_PROJECTED_OCCURRENCES = 400;
+
+/**
+ * Returns the visible date range for a calendar view anchored on `date`.
+ * Week-based ranges start on Sunday to match the month and week grids.
+ */
+export function getCalendarRange(view: CalendarViewMode, date: Date): { start: Date; end: Date } {
+  switch (view) {
+    case 'day':
+      return { start: startOfDay(date), end: endOfDay(date) };
+    case 'week':
+      return {
+        start: startOfWeek(date, { weekStartsOn: 0 }),
+        end: endOfWeek(date, { weekStartsOn: 0 }),
+      };
+    case 'month':
+      return {
+        start: startOfWeek(startOfMonth(date), { weekStartsOn: 0 }),
+        end: endOfWeek(endOfMonth(date), { weekStartsOn: 0 }),
+      };
+    case 'agenda':
+      return { start: startOfMonth(date), end: endOfMonth(date) };
+  }
+}
+
+/**
+ * Projects future occurrences of recurring tasks into the given range.
+ *
+ * Occurrences are generated by repeatedly applying calculateNextDueDate() from the
+ * task's current deadline, so the calendar agrees with the instance that will be
+ * spawned when the task is completed. Completed tasks are skipped because their
+ * next instance already exists as a real task.
+ *
+ * @param tasks - Tasks currently loaded in the calendar
+ * @param rangeStart - Start of the visible range (inclusive)
+ * @param rangeEnd - End of the visible range (inclusive)
+ * @returns Ghost entries only; the original tasks are not included
+ */
+export function projectRecurringOccurrences(
+  tasks: Task[],
+  rangeStart: Date,
+  rangeEnd: Date
+): CalendarTask[] {
+  const projected: CalendarTask[] = [];
+
+  for (const task of tasks) {
+    if (task.recurrence_interval <= 0 || !task.deadline || task.status === 'Completed') continue;
+
+    let occurrence: Task = task;
+    for (let i = 0; i < MAX_PROJECTED_OCCURRENCES; i++) {
+      const next = calculateNextDueDate(occurrence);
+      if (!next.deadline || next.deadline === occurrence.deadline) break;
+
+      const nextDate = new Date(next.deadline);
+      if (nextDate > rangeEnd) break;
+
+      occurrence = next;
+      if (nextDate < rangeStart) continue;
+
+      projected.push({
+        ...next,
+        status: 'To Do',
+        isOverdue: false,
+        isProjected: true,
+        occurrenceKey: `${task.id}-${next.deadline}`,
+      });
+    }
+  }
+
+  return projected;
+}
+
+/**
+ * Applies the calendar filters. An empty selection for a filter means "no restriction".
+ */
+export function filterCalendarTasks<T extends Task>(tasks: T[], filters: CalendarFilterState): T[] {
+  return tasks.filter((task) => {
+    if (!filters.showCompleted && task.status === 'Completed') return false;
+    if (filters.status.length > 0 && !filters.status.includes(task.status)) return false;
+    if (filters.projects.length > 0 && !filters.projects.includes(task.project?.id)) return false;
+    if (filters.tags.length > 0 && !filters.tags.some((tag) => task.tags.includes(tag))) return false;
+    if (
+      filters.assignees.length > 0 &&
+      !task.assignees.some((a) => filters.assignees.includes(a.assignee_id))
+    ) {
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Moves a deadline to another day while keeping its original time of day.
+ */
+export function moveDeadlineToDay(deadline: string | null, day: Date): string {
+  const target = new Date(day);
+  if (deadline) {
+    const original = new Date(deadline);
+    target.setHours(
+      original.getHours(),
+      original.getMinutes(),
+      original.getSeconds(),
+      original.getMilliseconds()
+    );
+  } else {
+    target.setHours(23, 59, 0, 0);
+  }
+  return target.toISOString();
+}
+
+/**
+ * Returns the tasks due on the given day.
+ */
+export function getTasksForDay<T extends Task>(tasks: T[], day: Date): T[] {
+  return tasks.filter((task) => task.deadline && isSameDay(new Date(task.deadline), day));
+}
+
+/**
+ * Stable React key for a calendar entry (projected entries share their source task id).
+ */
+export function getCalendarEntryKey(task: CalendarTask): string {
+  return task.occurrenceKey ?? String(task.id);
+}
@@ -0,0 +1,238 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getTakenICalUidsDB, getTasksByICalUidsDB } from '@/lib/db/tasks';
+import {
+  addTag,
+  createTaskService,
+  updateDeadline,
+  updateDescription,
+  updateRecurrence,
+  updateTitle,
+} from '@/lib/services/tasks';
+import { parseICalFile, type ICalComponent } from '@/lib/utils/ical';
+import { formatRRule, parseRRule, ruleToIntervalDays } from '@/lib/utils/rrule';
+import type { CreateTaskPayload, TaskStatus } from '@/lib/types/task-creation';
+import type { ICalImportResult, ICalImportSummary } from '@/lib/types/ical-import';
+
+export type { ICalImportAction, ICalImportResult, ICalImportSummary } from '@/lib/types/ical-import';
+
+export const MAX_ICAL_IMPORT_EVENTS = 500;
+
+const TITLE_MAX_LENGTH = 200;
+const TAG_MAX_LENGTH = 50;
+
+/**
+ * Maps an iCal STATUS to a task status. Only VTODO statuses carry task progress.
+ */
+function toTaskStatus(component: ICalComponent): TaskStatus {
+  if (component.type !== 'VTODO') return 'To Do';
+  switch (component.status) {
+    case 'COMPLETED':
+      return 'Completed';
+    case 'IN-PROCESS':
+      return 'In Progress';
+    default:
+      return 'To Do';
+  }
+}
+
+/**
+ * iCal PRIORITY is 1 (highest) to 9 (lowest), 0 = undefined; ours is the inverse.
+ */
+function toPriorityBucket(priority: number | null): number {
+  if (priority === null || priority < 1 || priority > 9) return 5;
+  return 10 - priority;
+}
+
+/**
+ * Builds the task payload for one event/todo.
+ *
+ * @throws {Error} If the component cannot become a task (no title or date)
+ */
+export function icalComponentToPayload(
+  component: ICalComponent,
+  projectId: number,
+  userId: string
+): { payload: CreateTaskPayload; warnings: string[] } {
+  const warnings: string[] = [];
+
+  if (component.errors.length > 0) {
+    throw new Error(component.errors.join('; '));
+  }
+
+  // 1. Title
+  let title = component.summary?.trim() ?? '';
+  if (!title) {
+    throw new Error('Missing SUMMARY');
+  }
+  if (title.length > TITLE_MAX_LENGTH) {
+    title = title.slice(0, TITLE_MAX_LENGTH);
+    warnings.push(`Title truncated to ${TITLE_MAX_LENGTH} characters`);
+  }
+
+  // 2. Deadline (to-dos are due on DUE, events on their start)
+  const deadline = component.type === 'VTODO' ? component.due ?? component.start : component.start;
+  if (!deadline) {
+    throw new Error(component.type === 'VTODO' ? 'Missing DUE or DTSTART' : 'Missing DTSTART');
+  }
+
+  // 3. Tags
+  const tags = Array.from(new Set(component.categories.map((tag) => tag.trim()).filter(Boolean))).filter((tag) => {
+    if (tag.length > TAG_MAX_LENGTH) {
+      warnings.push(`Category "${tag.slice(0, 20)}..." skipped: longer than ${TAG_MAX_LENGTH} characters`);
+      return false;
+    }
+    return true;
+  });
+
+  // 4. Recurrence (unsupported rules are dropped, the task is still imported)
+  let recurrence: Pick<CreateTaskPayload, 'recurrence_rule' | 'recurrence_interval' | 'recurrence_date'> = {};
+  if (component.rrule) {
+    try {
+      const rule = parseRRule(component.rrule);
+      recurrence = {
+        recurrence_rule: formatRRule(rule),
+        recurrence_interval: ruleToIntervalDays(rule),
+        recurrence_date: deadline,
+      };
+    } catch (err) {
+      warnings.push(`Recurrence not imported: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  return {
+    payload: {
+      project_id: projectId,
+      title,
+      description: component.description ?? '',
+      priority_bucket: toPriorityBucket(component.priority),
+      status: toTaskStatus(component),
+      assignee_ids: [userId],
+      deadline,
+      tags,
+      ical_uid: component.uid ?? undefined,
+      ...recurrence,
+    },
+    warnings,
+  };
+}
+
+/**
+ * Imports the events and to-dos of an iCal file as tasks in a project.
+ *
+ * Each component is handled on its own: a failure is reported in its result and does
+ * not stop the others. Components whose UID was imported into the project before update
+ * that task (title, description, deadline, recurrence, added tags) instead of creating
+ * a duplicate; if that task is not visible to the user the component is skipped. With dryRun nothing is written and the results describe what would happen.
+ *
+ * @throws {Error} If the file cannot be read or the project is invalid
+ */
+export async function importICalService(
+  supabase: SupabaseClient,
+  content: string,
+  projectId: number,
+  userId: string,
+  options: { dryRun?: boolean } = {}
+): Promise<ICalImportSummary> {
+  const dryRun = options.dryRun ?? false;
+
+  // 1. Validate
+  if (!Number.isInteger(projectId) || projectId <= 0) {
+    throw new Error('A valid project is required');
+  }
+
+  const components = parseICalFile(content);
+  if (components.length === 0) {
+    throw new Error('The calendar has no events or to-dos');
+  }
+  if (components.length > MAX_ICAL_IMPORT_EVENTS) {
+    throw new Error(`Cannot import more than ${MAX_ICAL_IMPORT_EVENTS} events at once`);
+  }
+
+  // 2. Find tasks imported from the same UIDs earlier
+  const uids = Array.from(new Set(components.map((c) => c.uid).filter((uid): uid is string => !!uid)));
+  const [visibleTasks, takenUids] = await Promise.all([
+    getTasksByICalUidsDB(projectId, uids),
+    getTakenICalUidsDB(projectId, uids),
+  ]);
+  const existingByUid = new Map(visibleTasks.map((task) => [task.ical_uid, task]));
+  const hiddenUids = new Set(takenUids.filter((uid) => !existingByUid.has(uid)));
+
+  // 3. Create or update each component
+  const seenUids = new Set<string>();
+  const results: ICalImportResult[] = [];
+
+  for (const component of components) {
+    const result: ICalImportResult = {
+      index: component.index,
+      uid: component.uid,
+      title: component.summary,
+      action: 'error',
+      warnings: [],
+    };
+    results.push(result);
+
+    try {
+      if (component.uid) {
+        if (seenUids.has(component.uid)) {
+          throw new Error(`Duplicate UID ${component.uid} in file`);
+        }
+        seenUids.add(component.uid);
+      }
+
+      const { payload, warnings } = icalComponentToPayload(component, projectId, userId);
+      Object.assign(result, {
+        title: payload.title,
+        deadline: payload.deadline,
+        tags: payload.tags,
+        recurrence_rule: payload.recurrence_rule ?? null,
+        warnings,
+      });
+
+      const existing = component.uid ? existingByUid.get(component.uid) : undefined;
+
+      if (component.uid && hiddenUids.has(component.uid)) {
+        result.action = 'skip';
+        result.warnings.push('Already imported into this project as a task you cannot view');
+      } else if (existing) {
+        result.action = 'update';
+        result.taskId = existing.id;
+        if (dryRun) continue;
+
+        if (payload.title !== existing.title) {
+          await updateTitle(existing.id, payload.title, userId);
+        }
+        if (payload.description !== (existing.description ?? '')) {
+          await updateDescription(existing.id, payload.description, userId);
+        }
+        if (new Date(payload.deadline).getTime() !== new Date(existing.deadline ?? 0).getTime()) {
+          await updateDeadline(existing.id, payload.deadline, userId);
+        }
+        if (payload.recurrence_rule && payload.recurrence_rule !== existing.recurrence_rule) {
+          await updateRecurrence(existing.id, 0, payload.deadline, userId, payload.recurrence_rule);
+        }
+        for (const tag of payload.tags ?? []) {
+          if (!existing.tags.includes(tag)) {
+            await addTag(existing.id, tag, userId);
+          }
+        }
+      } else {
+        result.action = 'create';
+        if (dryRun) continue;
+
+        result.taskId = await createTaskService(supabase, payload, userId);
+      }
+    } catch (err) {
+      result.action = 'error';
+      result.error = err instanceof Error ? err.message : 'Failed to import event';
+    }
+  }
+
+  return {
+    dryRun,
+    created: results.filter((r) => r.action === 'create').length,
+    updated: results.filter((r) => r.action === 'update').length,
+    skipped: results.filter((r) => r.action === 'skip').length,
+    failed: results.filter((r) => r.action === 'error').length,
+    results,
+  };
+}
@@ -0,0 +1,156 @@
+import {
+  getEventPreferencesDB,
+  getNotificationPreferencesDB,
+  upsertEventPreferencesDB,
+  upsertNotificationPreferencesDB,
+} from '@/lib/db/notification-preferences';
+import {
+  DIGEST_FREQUENCIES,
+  NOTIFICATION_EVENTS,
+  type ChannelPreferences,
+  type DigestFrequency,
+  type NotificationChannel,
+  type NotificationEventType,
+  type NotificationPreferences,
+} from '@/lib/types/notification-preferences';
+
+export type {
+  ChannelPreferences,
+  DigestFrequency,
+  NotificationChannel,
+  NotificationEventType,
+  NotificationPreferences,
+} from '@/lib/types/notification-preferences';
+
+export type NotificationPreferencesInput = {
+  events?: Record<string, Partial<Record<string, unknown>>>;
+  quietHours?: { start?: unknown; end?: unknown } | null;
+  digestFrequency?: unknown;
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const DEFAULT_DIGEST_FREQUENCY: DigestFrequency = 'daily';
+
+function defaultEventPreferences(): Record<NotificationEventType, ChannelPreferences> {
+  return Object.fromEntries(NOTIFICATION_EVENTS.map((e) => [e.type, { in_app: true, email: true }])) as Record<
+    NotificationEventType,
+    ChannelPreferences
+  >;
+}
+
+function validateTime(value: unknown, label: string): string {
+  if (typeof value !== 'string' || !TIME_PATTERN.test(value)) {
+    throw new Error(`Quiet hours ${label} must be a time in HH:mm format`);
+  }
+  return value;
+}
+
+// ============ PREFERENCES ============
+
+/**
+ * The user's preferences with defaults (everything on, daily digest) for
+ * anything they have not changed.
+ */
+export async function getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const [settings, eventRows] = await Promise.all([
+    getNotificationPreferencesDB(userId),
+    getEventPreferencesDB(userId),
+  ]);
+
+  const events = defaultEventPreferences();
+  for (const row of eventRows) {
+    // Rows for event types that no longer exist are ignored
+    if (row.event_type in events) {
+      events[row.event_type as NotificationEventType] = { in_app: row.in_app, email: row.email };
+    }
+  }
+
+  return {
+    events,
+    quiet_hours:
+      settings?.quiet_hours_start && settings.quiet_hours_end
+        ? { start: settings.quiet_hours_start.slice(0, 5), end: settings.quiet_hours_end.slice(0, 5) }
+        : null,
+    digest_frequency: (settings?.digest_frequency as DigestFrequency | undefined) ?? DEFAULT_DIGEST_FREQUENCY,
+  };
+}
+
+/**
+ * Applies a partial update. Only channels an event is actually delivered on can
+ * be changed; omitted fields keep their current value.
+ */
+export async function updateNotificationPreferences(
+  userId: string,
+  input: NotificationPreferencesInput
+): Promise<NotificationPreferences> {
+  const current = await getNotificationPreferences(userId);
+
+  // 1. Validate event toggles
+  const changedEvents = new Map<NotificationEventType, ChannelPreferences>();
+  for (const [type, channels] of Object.entries(input.events ?? {})) {
+    const event = NOTIFICATION_EVENTS.find((e) => e.type === type);
+    if (!event) {
+      throw new Error(`Unknown notification type: ${type}`);
+    }
+
+    const next = { ...current.events[event.type] };
+    for (const [channel, enabled] of Object.entries(channels ?? {})) {
+      if (channel !== 'in_app' && channel !== 'email') {
+        throw new Error(`Unknown notification channel: ${channel}`);
+      }
+      if (!(event.channels as readonly NotificationChannel[]).includes(channel)) {
+        throw new Error(`${event.label} cannot be delivered by ${channel === 'email' ? 'email' : 'in-app notification'}`);
+      }
+      if (typeof enabled !== 'boolean') {
+        throw new Error(`${event.label} ${channel} setting must be true or false`);
+      }
+      next[channel] = enabled;
+    }
+    changedEvents.set(event.type, next);
+  }
+
+  // 2. Validate quiet hours and digest frequency
+  let quietHours = current.quiet_hours;
+  if (input.quietHours !== undefined) {
+    if (input.quietHours === null) {
+      quietHours = null;
+    } else {
+      const start = validateTime(input.quietHours.start, 'start');
+      const end = validateTime(input.quietHours.end, 'end');
+      if (start === end) {
+        throw new Error('Quiet hours must start and end at different times');
+      }
+      quietHours = { start, end };
+    }
+  }
+
+  let digestFrequency = current.digest_frequency;
+  if (input.digestFrequency !== undefined) {
+    if (!DIGEST_FREQUENCIES.includes(input.digestFrequency as DigestFrequency)) {
+      throw new Error(`Digest frequency must be one of: ${DIGEST_FREQUENCIES.join(', ')}`);
+    }
+    digestFrequency = input.digestFrequency as DigestFrequency;
+  }
+
+  // 3. Save
+  await Promise.all([
+    upsertEventPreferencesDB(
+      userId,
+      [...changedEvents].map(([event_type, channels]) => ({ event_type, ...channels }))
+    ),
+    input.quietHours !== undefined || input.digestFrequency !== undefined
+      ? upsertNotificationPreferencesDB(userId, {
+          quiet_hours_start: quietHours?.start ?? null,
+          quiet_hours_end: quietHours?.end ?? null,
+          digest_frequency: digestFrequency,
+        })
+      : Promise.resolve(),
+  ]);
+
+  return {
+    events: { ...current.events, ...Object.fromEntries(changedEvents) },
+    quiet_hours: quietHours,
+    digest_frequency: digestFrequency,
+  };
+}
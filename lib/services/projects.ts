@@ -0,0 +1,275 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getRolesForUserClient } from '@/lib/db/roles';
+import { getDepartmentsForUser } from '@/lib/db/filter';
+import {
+  createProjectDB,
+  getAllDepartmentsDB,
+  getProjectDB,
+  getProjectMemberNamesDB,
+  getProjectsDB,
+  getProjectTasksDB,
+  updateProjectDB,
+  updateProjectDepartmentsDB,
+  type RawProject,
+  type RawProjectTask,
+} from '@/lib/db/projects';
+import type { ManagedProject, ProjectDepartment, ProjectDetails, ProjectMember } from '@/lib/types/projects';
+
+export type { ManagedProject, ProjectDepartment, ProjectDetails, ProjectMember } from '@/lib/types/projects';
+
+const PROJECT_NAME_MAX_LENGTH = 255;
+
+export const PROJECT_PERMISSION_ERROR = 'Only managers and admins can manage projects';
+export const DEPARTMENT_PERMISSION_ERROR = 'You can only link departments you manage';
+
+/**
+ * Throws unless the user is a manager or admin; returns their roles.
+ */
+async function assertCanManageProjects(supabase: SupabaseClient, userId: string): Promise<string[]> {
+  const roles = await getRolesForUserClient(supabase, userId);
+  if (!roles.includes('manager') && !roles.includes('admin')) {
+    throw new Error(PROJECT_PERMISSION_ERROR);
+  }
+  return roles;
+}
+
+function validateProjectName(name: unknown): string {
+  const trimmedName = typeof name === 'string' ? name.trim() : '';
+  if (!trimmedName) {
+    throw new Error('Project name is required');
+  }
+  if (trimmedName.length > PROJECT_NAME_MAX_LENGTH) {
+    throw new Error(`Project name must be ${PROJECT_NAME_MAX_LENGTH} characters or less`);
+  }
+  return trimmedName;
+}
+
+function validateDepartmentIds(departmentIds: unknown): number[] {
+  if (!Array.isArray(departmentIds) || !departmentIds.every((id) => Number.isInteger(id) && id > 0)) {
+    throw new Error('Department IDs must be positive integers');
+  }
+  return Array.from(new Set(departmentIds as number[]));
+}
+
+/**
+ * Admins may link any department; managers their own department and its descendants.
+ */
+async function getLinkableDepartments(userId: string, roles: string[]): Promise<ProjectDepartment[]> {
+  const departments = roles.includes('admin') ? await getAllDepartmentsDB() : await getDepartmentsForUser(userId);
+  return [...departments].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Departments whose projects the user may manage, or null for admins (every project).
+ */
+async function getManagedDepartmentIds(userId: string, roles: string[]): Promise<Set<number> | null> {
+  if (roles.includes('admin')) return null;
+  return new Set((await getDepartmentsForUser(userId)).map((d) => d.id));
+}
+
+function isInScope(raw: RawProject, scope: Set<number> | null): boolean {
+  return scope === null || raw.project_departments.some((link) => !!link.departments && scope.has(link.departments.id));
+}
+
+function isOpen(task: RawProjectTask): boolean {
+  return task.status !== 'Completed';
+}
+
+function formatProject(raw: RawProject, tasks: RawProjectTask[]): ManagedProject {
+  return {
+    id: raw.id,
+    name: raw.name,
+    is_archived: raw.is_archived,
+    created_at: raw.created_at,
+    updated_at: raw.updated_at,
+    departments: raw.project_departments
+      .map((link) => link.departments)
+      .filter((d): d is ProjectDepartment => !!d)
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    open_task_count: tasks.filter((task) => task.project_id === raw.id && isOpen(task)).length,
+  };
+}
+
+// ============ PROJECTS ============
+
+/**
+ * Every project the user may manage, archived ones included, with linked departments
+ * and open task counts. Managers only see projects linked to one of their departments.
+ */
+export async function listManagedProjects(supabase: SupabaseClient, userId: string): Promise<ManagedProject[]> {
+  const roles = await assertCanManageProjects(supabase, userId);
+  const scope = await getManagedDepartmentIds(userId, roles);
+
+  const rawProjects = (await getProjectsDB()).filter((raw) => isInScope(raw, scope));
+  const tasks = await getProjectTasksDB(rawProjects.map((p) => p.id));
+
+  return rawProjects.map((raw) => formatProject(raw, tasks));
+}
+
+/**
+ * A project with its members (assignees of its non-archived tasks) and the
+ * departments the user may link. Returns null if the project does not exist or the
+ * user may not manage it.
+ */
+export async function getProjectDetails(
+  supabase: SupabaseClient,
+  userId: string,
+  projectId: number
+): Promise<ProjectDetails | null> {
+  const roles = await assertCanManageProjects(supabase, userId);
+
+  const raw = await getProjectDB(projectId);
+  if (!raw || !isInScope(raw, await getManagedDepartmentIds(userId, roles))) return null;
+
+  const [tasks, linkableDepartments] = await Promise.all([
+    getProjectTasksDB([projectId]),
+    getLinkableDepartments(userId, roles),
+  ]);
+
+  // Task counts per assignee
+  const counts = new Map<string, { open: number; total: number }>();
+  for (const task of tasks) {
+    for (const { assignee_id } of task.task_assignments) {
+      const count = counts.get(assignee_id) ?? { open: 0, total: 0 };
+      count.total += 1;
+      if (isOpen(task)) count.open += 1;
+      counts.set(assignee_id, count);
+    }
+  }
+
+  const names = await getProjectMemberNamesDB(Array.from(counts.keys()));
+  const members: ProjectMember[] = names
+    .map((user) => ({
+      id: user.id,
+      name: `${user.first_name} ${user.last_name}`,
+      open_task_count: counts.get(user.id)!.open,
+      task_count: counts.get(user.id)!.total,
+    }))
+    .sort((a, b) => b.open_task_count - a.open_task_count || a.name.localeCompare(b.name));
+
+  return {
+    ...formatProject(raw, tasks),
+    members,
+    task_count: tasks.length,
+    linkable_departments: linkableDepartments,
+  };
+}
+
+async function assertCanLinkDepartments(userId: string, roles: string[], departmentIds: number[]): Promise<void> {
+  const linkableIds = new Set((await getLinkableDepartments(userId, roles)).map((d) => d.id));
+  if (departmentIds.some((id) => !linkableIds.has(id))) {
+    throw new Error(roles.includes('admin') ? 'Department not found' : DEPARTMENT_PERMISSION_ERROR);
+  }
+}
+
+/**
+ * Links and unlinks departments so the project ends up linked to exactly the given
+ * ones. Only departments the user may link can be added or removed; links to other
+ * departments must stay as they are.
+ */
+async function syncProjectDepartments(
+  userId: string,
+  roles: string[],
+  projectId: number,
+  current: number[],
+  departmentIds: number[]
+): Promise<void> {
+  const add = departmentIds.filter((id) => !current.includes(id));
+  const remove = current.filter((id) => !departmentIds.includes(id));
+  if (add.length === 0 && remove.length === 0) return;
+
+  await assertCanLinkDepartments(userId, roles, [...add, ...remove]);
+  await updateProjectDepartmentsDB(projectId, { add, remove });
+}
+
+/**
+ * Creates a project linked to the given departments. A manager who links none gets
+ * their own departments linked, so the project stays within what they can manage.
+ */
+export async function createProject(
+  supabase: SupabaseClient,
+  userId: string,
+  input: { name: unknown; departmentIds?: unknown }
+): Promise<ManagedProject> {
+  // 1. Validate
+  const roles = await assertCanManageProjects(supabase, userId);
+  const name = validateProjectName(input.name);
+  let departmentIds = input.departmentIds === undefined ? [] : validateDepartmentIds(input.departmentIds);
+
+  if (departmentIds.length > 0) {
+    await assertCanLinkDepartments(userId, roles, departmentIds);
+  } else if (!roles.includes('admin')) {
+    departmentIds = (await getLinkableDepartments(userId, roles)).map((d) => d.id);
+    if (departmentIds.length === 0) {
+      throw new Error(DEPARTMENT_PERMISSION_ERROR);
+    }
+  }
+
+  // 2. Create, then link departments
+  const raw = await createProjectDB(name);
+  if (departmentIds.length > 0) {
+    await updateProjectDepartmentsDB(raw.id, { add: departmentIds, remove: [] });
+  }
+
+  const created = departmentIds.length > 0 ? await getProjectDB(raw.id) : raw;
+  return formatProject(created ?? raw, []);
+}
+
+/**
+ * Renames, archives or restores a project and/or replaces its linked departments.
+ */
+export async function updateProject(
+  supabase: SupabaseClient,
+  userId: string,
+  projectId: number,
+  updates: { name?: unknown; isArchived?: boolean; departmentIds?: unknown }
+): Promise<ManagedProject> {
+  // 1. Validate
+  const roles = await assertCanManageProjects(supabase, userId);
+
+  const fields: Partial<{ name: string; is_archived: boolean }> = {};
+  if (updates.name !== undefined) fields.name = validateProjectName(updates.name);
+  if (updates.isArchived !== undefined) fields.is_archived = updates.isArchived;
+  const departmentIds = updates.departmentIds === undefined ? undefined : validateDepartmentIds(updates.departmentIds);
+
+  if (Object.keys(fields).length === 0 && departmentIds === undefined) {
+    throw new Error('No changes provided');
+  }
+
+  const existing = await getProjectDB(projectId);
+  if (!existing || !isInScope(existing, await getManagedDepartmentIds(userId, roles))) {
+    throw new Error('Project not found');
+  }
+
+  // 2. Update
+  if (departmentIds !== undefined) {
+    const current = existing.project_departments
+      .map((link) => link.departments?.id)
+      .filter((id): id is number => id !== undefined);
+    await syncProjectDepartments(userId, roles, projectId, current, departmentIds);
+  }
+  if (Object.keys(fields).length > 0) {
+    const updated = await updateProjectDB(projectId, fields);
+    if (!updated) {
+      throw new Error('Project not found');
+    }
+  }
+
+  // 3. Return the fresh state
+  const [raw, tasks] = await Promise.all([getProjectDB(projectId), getProjectTasksDB([projectId])]);
+  if (!raw) {
+    throw new Error('Project not found');
+  }
+  return formatProject(raw, tasks);
+}
+
+/**
+ * Projects are never deleted, only archived: their tasks keep their history.
+ */
+export async function archiveProject(
+  supabase: SupabaseClient,
+  userId: string,
+  projectId: number
+): Promise<ManagedProject> {
+  return updateProject(supabase, userId, projectId, { isArchived: true });
+}
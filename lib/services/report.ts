@@ -1,4 +1,18 @@
-import { getTasks, getUsersByIds, UserInfo, getWeeklyTaskStatsByUser } from '@/lib/db/report';
+import {
+  getTasks,
+  getUsersByIds,
+  UserInfo,
+  getWeeklyTaskStatsByUser,
+  getTaskStatusHistory,
+  getDepartmentScope,
+} from '@/lib/db/report';
+import type { Department } from '@/lib/db/filter';
+import {
+  averageOf,
+  getTaskFlowMetrics,
+  groupStatusHistoryByTask,
+  type TaskFlowMetrics,
+} from '@/lib/utils/task-status-history';
 
 // Shared types
 export type ReportFormat = 'pdf' | 'xlsx';
@@ -21,6 +35,26 @@ interface Task {
   creator_id?: string;
   created_at: string;
   updated_at?: string | null;
+  started_at?: string | null; // first time In Progress
+  completed_at?: string | null; // latest completion, null unless Completed
+}
+
+// Utility: flow metrics (lead/cycle time, time Blocked, reopens) per task id
+async function getFlowMetricsByTask(tasks: Task[]): Promise<Map<number, TaskFlowMetrics>> {
+  const history = groupStatusHistoryByTask(await getTaskStatusHistory(tasks.map((t) => t.id)));
+  const now = new Date();
+
+  return new Map(tasks.map((t) => [t.id, getTaskFlowMetrics(t, history.get(t.id) ?? [], now)]));
+}
+
+// Utility: hours a completed task finished after its deadline (0 if on time),
+// or null when there is no deadline or completion time
+function hoursLate(task: Task): number | null {
+  if (!task.completed_at || !task.deadline) return null;
+  return Math.max(
+    0,
+    (new Date(task.completed_at).getTime() - new Date(task.deadline).getTime()) / 1000 / 3600
+  );
 }
 
 // Utility: roll up child logged time to parent
@@ -60,6 +94,11 @@ export interface LoggedTimeReport {
   onTimeCompletionRate: number; // 0..1 - ratio of on-time completions
   totalDelayHours: number; // hours - sum of hours late for completed tasks
   overdueTime: number; // hours - logged time for overdue incomplete tasks
+  avgLeadTime: number; // hours - created_at to completed_at, averaged over completed tasks
+  avgCycleTime: number; // hours - started_at to completed_at, averaged over completed tasks that were started
+  blockedTime: number; // hours - time spent Blocked across all tasks
+  reopenCount: number; // times a task left Completed
+  departments: Department[]; // departments covered, sub-departments included; empty when not filtered
 }
 
 /**
@@ -73,9 +112,14 @@ export async function generateLoggedTimeReport(filters: ReportFilters): Promise<
   const { projectIds, departmentIds, startDate, endDate } = filters;
   
   // Fetch ALL tasks for the selected projects/departments (no RLS filtering)
-  const tasks: Task[] = await getTasks({ projectIds, departmentIds, startDate, endDate });
+  const [tasks, departments]: [Task[], Department[]] = await Promise.all([
+    getTasks({ projectIds, departmentIds, startDate, endDate }),
+    getDepartmentScope(departmentIds ?? []),
+  ]);
 
   const taskTimeMap = rollupLoggedTime(tasks);
+  const flowByTask = await getFlowMetricsByTask(tasks);
+  const flows = Array.from(flowByTask.values());
 
   // Categorize tasks by status
   const completedTasks = tasks.filter((t) => t.status === 'Completed');
@@ -84,22 +128,12 @@ export async function generateLoggedTimeReport(filters: ReportFilters): Promise<
 
   const now = new Date();
 
-  // Calculate on-time completion rate
-  const onTimeTasks = completedTasks.filter((t) => {
-    if (!t.updated_at || !t.deadline) return false;
-    return new Date(t.updated_at) <= new Date(t.deadline);
-  });
+  // Calculate on-time completion rate (completed_at, not updated_at: later edits don't count)
+  const onTimeTasks = completedTasks.filter((t) => hoursLate(t) === 0);
   const onTimeCompletionRate = completedTasks.length ? onTimeTasks.length / completedTasks.length : 0;
 
   // Calculate total delay (lateness) for completed tasks
-  const totalDelayHours = completedTasks.reduce((sum, t) => {
-    if (!t.updated_at || !t.deadline) return sum;
-    const hoursLate = Math.max(
-      0,
-      (new Date(t.updated_at).getTime() - new Date(t.deadline).getTime()) / 1000 / 3600
-    );
-    return sum + hoursLate;
-  }, 0);
+  const totalDelayHours = completedTasks.reduce((sum, t) => sum + (hoursLate(t) ?? 0), 0);
 
   // Calculate overdue tasks (incomplete tasks past deadline)
   const overdueTasks = incompleteTasks.filter(
@@ -144,7 +178,7 @@ export async function generateLoggedTimeReport(filters: ReportFilters): Promise<
     // Total logged time (hours) for ALL incomplete tasks (In Progress + Blocked + To Do)
     incompleteTime: incompleteLoggedSeconds / 3600,
 
-    // Ratio (0-1) of completed tasks done on-time vs total completed (updated_at <= deadline)
+    // Ratio (0-1) of completed tasks done on-time vs total completed (completed_at <= deadline)
     onTimeCompletionRate,
 
     // Total hours that completed tasks were late (sum of hours past deadline for completed tasks)
@@ -152,6 +186,21 @@ export async function generateLoggedTimeReport(filters: ReportFilters): Promise<
 
     // Total logged time (hours) for incomplete tasks that are OVERDUE (subset of incompleteTime)
     overdueTime,
+
+    // Average hours from creation to completion (lead time) for completed tasks
+    avgLeadTime: averageOf(flows.map((f) => f.leadTimeHours)),
+
+    // Average hours from first In Progress to completion (cycle time) for completed tasks
+    avgCycleTime: averageOf(flows.map((f) => f.cycleTimeHours)),
+
+    // Total hours tasks spent in Blocked (from status history, current periods up to now)
+    blockedTime: flows.reduce((sum, f) => sum + f.blockedHours, 0),
+
+    // Number of times a task was reopened after being completed
+    reopenCount: flows.reduce((sum, f) => sum + f.reopenCount, 0),
+
+    // Departments the report covers (selected departments and their sub-departments)
+    departments,
   };
 }
 
@@ -195,6 +244,7 @@ export interface TeamSummaryReport {
       total: number;
     }
   >;
+  departments: Department[];
 }
 
 /**
@@ -207,12 +257,15 @@ export async function generateTeamSummaryReport(
   filters: ReportFilters
 ): Promise<TeamSummaryReport> {
   const { projectIds, departmentIds, startDate, endDate } = filters;
-  const weeklyStats = await getWeeklyTaskStatsByUser({
-    projectIds,
-    departmentIds,
-    startDate,
-    endDate,
-  });
+  const [weeklyStats, departments] = await Promise.all([
+    getWeeklyTaskStatsByUser({
+      projectIds,
+      departmentIds,
+      startDate,
+      endDate,
+    }),
+    getDepartmentScope(departmentIds ?? []),
+  ]);
 
   // Calculate user totals
   const userTotals = new Map<
@@ -298,6 +351,9 @@ export async function generateTeamSummaryReport(
 
     // Map of week identifier to aggregated task counts across all users (includes blocked count)
     weekTotals,
+
+    // Departments the report covers (selected departments and their sub-departments)
+    departments,
   };
 }
 
@@ -311,7 +367,10 @@ export interface UserTaskStats {
   todoTasks: number;
   blockedTasks: number;
   completionRate: number; // 0-1
-  avgCompletionTime: number; // hours (from created_at to updated_at for completed tasks)
+  avgCompletionTime: number; // hours - lead time (created_at to completed_at) for completed tasks
+  avgCycleTime: number; // hours - started_at to completed_at for completed tasks
+  blockedTime: number; // hours spent Blocked
+  reopenCount: number;
   onTimeCompletions: number;
   lateCompletions: number;
   onTimeRate: number; // 0-1
@@ -327,8 +386,13 @@ export interface TaskCompletionReport {
   totalTodo: number;
   totalBlocked: number;
   overallCompletionRate: number; // 0-1
+  avgLeadTime: number; // hours
+  avgCycleTime: number; // hours
+  totalBlockedTime: number; // hours
+  totalReopens: number;
   userStats: UserTaskStats[];
   completedByProject: Map<number, number>;
+  departments: Department[];
 }
 
 /**
@@ -341,13 +405,17 @@ export async function generateTaskCompletionReport(
   filters: ReportFilters
 ): Promise<TaskCompletionReport> {
   const { projectIds, departmentIds, startDate, endDate } = filters;
-  const tasks: Task[] = await getTasks({ projectIds, departmentIds, startDate, endDate });
+  const [tasks, departments]: [Task[], Department[]] = await Promise.all([
+    getTasks({ projectIds, departmentIds, startDate, endDate }),
+    getDepartmentScope(departmentIds ?? []),
+  ]);
 
   // Get user info for display names
   const uniqueUserIds = [...new Set(tasks.map((t) => t.creator_id))].filter(
     (id): id is string => typeof id === 'string'
   );
   const usersData = await getUsersByIds(uniqueUserIds);
+  const flowByTask = await getFlowMetricsByTask(tasks);
 
   const userNameMap = new Map(
     usersData.map((u: UserInfo) => [u.id, `${u.first_name} ${u.last_name}`])
@@ -378,31 +446,15 @@ export async function generateTaskCompletionReport(
       const todo = userTasks.filter((t) => t.status === 'To Do');
       const blocked = userTasks.filter((t) => t.status === 'Blocked');
 
-      // Calculate average completion time (created_at to updated_at for completed tasks)
-      const avgCompletionTime =
-        completed.length > 0
-          ? completed.reduce((sum, t) => {
-              if (t.updated_at && t.created_at) {
-                const duration =
-                  (new Date(t.updated_at).getTime() - new Date(t.created_at).getTime()) /
-                  1000 /
-                  3600;
-                return sum + duration;
-              }
-              return sum;
-            }, 0) / completed.length
-          : 0;
+      const flows = userTasks.map((t) => flowByTask.get(t.id)!);
 
-      // Calculate on-time vs late completions
-      const onTimeCompletions = completed.filter((t) => {
-        if (!t.deadline || !t.updated_at) return false;
-        return new Date(t.updated_at) <= new Date(t.deadline);
-      }).length;
+      // Calculate average completion time (lead time: created_at to completed_at)
+      const avgCompletionTime = averageOf(flows.map((f) => f.leadTimeHours));
+      const avgCycleTime = averageOf(flows.map((f) => f.cycleTimeHours));
 
-      const lateCompletions = completed.filter((t) => {
-        if (!t.deadline || !t.updated_at) return false;
-        return new Date(t.updated_at) > new Date(t.deadline);
-      }).length;
+      // Calculate on-time vs late completions
+      const onTimeCompletions = completed.filter((t) => hoursLate(t) === 0).length;
+      const lateCompletions = completed.filter((t) => (hoursLate(t) ?? 0) > 0).length;
 
       const onTimeRate = completed.length > 0 ? onTimeCompletions / completed.length : 0;
 
@@ -421,6 +473,9 @@ export async function generateTaskCompletionReport(
         blockedTasks: blocked.length,
         completionRate: userTasks.length > 0 ? completed.length / userTasks.length : 0,
         avgCompletionTime,
+        avgCycleTime,
+        blockedTime: flows.reduce((sum, f) => sum + f.blockedHours, 0),
+        reopenCount: flows.reduce((sum, f) => sum + f.reopenCount, 0),
         onTimeCompletions,
         lateCompletions,
         onTimeRate,
@@ -433,6 +488,8 @@ export async function generateTaskCompletionReport(
   // Sort by total tasks descending
   userStats.sort((a, b) => b.totalTasks - a.totalTasks);
 
+  const allFlows = Array.from(flowByTask.values());
+
   // Calculate completed by project
   const completedByProject = new Map<number, number>();
   tasks.forEach((t) => {
@@ -462,10 +519,25 @@ export async function generateTaskCompletionReport(
     // Ratio (0-1) of completed tasks vs total tasks
     overallCompletionRate,
 
+    // Average lead time (hours, created_at to completed_at) of completed tasks
+    avgLeadTime: averageOf(allFlows.map((f) => f.leadTimeHours)),
+
+    // Average cycle time (hours, started_at to completed_at) of completed tasks
+    avgCycleTime: averageOf(allFlows.map((f) => f.cycleTimeHours)),
+
+    // Total hours tasks spent Blocked
+    totalBlockedTime: allFlows.reduce((sum, f) => sum + f.blockedHours, 0),
+
+    // Number of times tasks were reopened after completion
+    totalReopens: allFlows.reduce((sum, f) => sum + f.reopenCount, 0),
+
     // Array of per-user statistics (sorted by totalTasks descending) including blocked count
     userStats,
 
     // Map of project_id to count of completed tasks in that project
     completedByProject,
+
+    // Departments the report covers (selected departments and their sub-departments)
+    departments,
   };
 }
\ No newline at end of file
@@ -0,0 +1,174 @@
+import {
+  createTaskViewDB,
+  deleteTaskViewDB,
+  getTaskViewDB,
+  getTaskViewsDB,
+  getUserViewSettingsDB,
+  setDefaultTaskViewDB,
+  updateTaskViewDB,
+  type RawSavedTaskView,
+} from '@/lib/db/task-views';
+import { normalizeTaskListViewQuery } from '@/lib/utils/task-view-query';
+import type { SavedTaskView } from '@/lib/types/task-views';
+
+export type { SavedTaskView, TaskListViewState } from '@/lib/types/task-views';
+
+export const MAX_SAVED_TASK_VIEWS = 50;
+
+const VIEW_NAME_MAX_LENGTH = 100;
+
+function formatTaskView(raw: RawSavedTaskView, userId: string, defaultViewId: number | null): SavedTaskView {
+  return {
+    id: raw.id,
+    user_id: raw.user_id,
+    name: raw.name,
+    query: raw.query,
+    shared_department_id: raw.shared_department_id,
+    created_at: raw.created_at,
+    updated_at: raw.updated_at,
+    owner_name: raw.owner ? `${raw.owner.first_name} ${raw.owner.last_name}` : 'Unknown',
+    is_owner: raw.user_id === userId,
+    is_default: raw.id === defaultViewId,
+  };
+}
+
+function validateViewName(name: unknown): string {
+  const trimmedName = typeof name === 'string' ? name.trim() : '';
+  if (!trimmedName) {
+    throw new Error('View name is required');
+  }
+  if (trimmedName.length > VIEW_NAME_MAX_LENGTH) {
+    throw new Error(`View name must be ${VIEW_NAME_MAX_LENGTH} characters or less`);
+  }
+  return trimmedName;
+}
+
+/**
+ * Department to share with: the owner's own department, or none.
+ */
+function resolveSharedDepartment(shared: boolean, departmentId: number | null): number | null {
+  if (!shared) return null;
+  if (!departmentId) {
+    throw new Error('You must belong to a department to share views');
+  }
+  return departmentId;
+}
+
+// ============ VIEWS ============
+
+/**
+ * Own views first, then views shared by colleagues, each group by name.
+ */
+export async function listTaskViews(userId: string): Promise<SavedTaskView[]> {
+  const [rawViews, settings] = await Promise.all([getTaskViewsDB(), getUserViewSettingsDB(userId)]);
+
+  return rawViews
+    .map((raw) => formatTaskView(raw, userId, settings.default_task_view_id))
+    .sort((a, b) => Number(b.is_owner) - Number(a.is_owner));
+}
+
+export async function createTaskView(
+  userId: string,
+  input: { name: string; query?: string; shared?: boolean; isDefault?: boolean }
+): Promise<SavedTaskView> {
+  // 1. Validate
+  const name = validateViewName(input.name);
+  const query = normalizeTaskListViewQuery(input.query ?? '');
+
+  const [existing, settings] = await Promise.all([getTaskViewsDB(), getUserViewSettingsDB(userId)]);
+  const ownViews = existing.filter((view) => view.user_id === userId);
+  if (ownViews.length >= MAX_SAVED_TASK_VIEWS) {
+    throw new Error(`You can have at most ${MAX_SAVED_TASK_VIEWS} saved views`);
+  }
+  if (ownViews.some((view) => view.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error('A view with this name already exists');
+  }
+
+  // 2. Create
+  const raw = await createTaskViewDB(userId, {
+    name,
+    query,
+    shared_department_id: resolveSharedDepartment(input.shared === true, settings.department_id),
+  });
+
+  // 3. Optionally make it the default
+  if (input.isDefault) {
+    await setDefaultTaskViewDB(userId, raw.id);
+  }
+
+  return formatTaskView(raw, userId, input.isDefault ? raw.id : settings.default_task_view_id);
+}
+
+/**
+ * Updates a view. Name, query and sharing can only be changed by the owner;
+ * any user who can see a view (including a shared one) can make it their default.
+ */
+export async function updateTaskView(
+  userId: string,
+  viewId: number,
+  updates: { name?: string; query?: string; shared?: boolean; isDefault?: boolean }
+): Promise<SavedTaskView> {
+  const view = await getTaskViewDB(viewId);
+  if (!view) {
+    throw new Error('Saved view not found');
+  }
+
+  const settings = await getUserViewSettingsDB(userId);
+  let raw = view;
+
+  // 1. Owner-only fields
+  const fields: Partial<{ name: string; query: string; shared_department_id: number | null }> = {};
+  if (updates.name !== undefined) fields.name = validateViewName(updates.name);
+  if (updates.query !== undefined) fields.query = normalizeTaskListViewQuery(updates.query);
+  if (updates.shared !== undefined) {
+    fields.shared_department_id = resolveSharedDepartment(updates.shared, settings.department_id);
+  }
+
+  if (Object.keys(fields).length > 0) {
+    if (view.user_id !== userId) {
+      throw new Error('Only the owner can change this view');
+    }
+
+    if (fields.name) {
+      const others = (await getTaskViewsDB()).filter((v) => v.user_id === userId && v.id !== viewId);
+      if (others.some((v) => v.name.toLowerCase() === fields.name!.toLowerCase())) {
+        throw new Error('A view with this name already exists');
+      }
+    }
+
+    const updated = await updateTaskViewDB(userId, viewId, fields);
+    if (!updated) {
+      throw new Error('Saved view not found');
+    }
+    raw = updated;
+  }
+
+  // 2. Default view
+  let defaultViewId = settings.default_task_view_id;
+  if (updates.isDefault !== undefined) {
+    defaultViewId = updates.isDefault ? viewId : defaultViewId === viewId ? null : defaultViewId;
+    if (defaultViewId !== settings.default_task_view_id) {
+      await setDefaultTaskViewDB(userId, defaultViewId);
+    }
+  }
+
+  return formatTaskView(raw, userId, defaultViewId);
+}
+
+export async function deleteTaskView(userId: string, viewId: number): Promise<void> {
+  const deleted = await deleteTaskViewDB(userId, viewId);
+  if (!deleted) {
+    throw new Error('Saved view not found');
+  }
+}
+
+/**
+ * Query of the user's default view, or null if none is set (or it is no longer visible).
+ */
+export async function getDefaultTaskViewQuery(userId: string): Promise<string | null> {
+  const { default_task_view_id } = await getUserViewSettingsDB(userId);
+  if (!default_task_view_id) return null;
+
+  const view = await getTaskViewDB(default_task_view_id);
+  return view ? view.query : null;
+}
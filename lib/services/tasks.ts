@@ -4,6 +4,8 @@ import {
   updateTaskStatusDB,
   updateTaskPriorityDB,
   updateTaskDeadlineDB,
+  updateTaskDeadlinesDB,
+  getSubtaskDeadlinesDB,
   updateTaskNotesDB,
   updateTaskRecurrenceDB,
   addTaskTagDB,
@@ -15,17 +17,44 @@ import {
   getTaskAttachmentsTotalSize,
   addTaskAttachmentsDB,
   removeTaskAttachmentDB,
+  getTaskAttachmentHashesDB,
+  getTaskAttachmentDB,
+  getCurrentTaskAttachmentsDB,
+  getAttachmentVersionsDB,
+  restoreTaskAttachmentVersionDB,
+  createAttachmentSignedUrlDB,
+  isTaskVisibleToUserDB,
   getTaskPermissionDataDB,
   isUserManager,
   addTaskCommentDB,
   updateTaskCommentDB,
   deleteTaskCommentDB,
   getCommentAuthorDB,
+  getMentionableUsersDB,
   checkUserIsAdmin,
   getTaskById,
+  addTaskActivityDB,
+  getTaskActivityDB,
+  getTaskFieldValuesDB,
+  getTaskTimeEntriesDB,
+  getRunningTimeEntryDB,
+  addTimeEntryDB,
+  stopTimeEntryDB,
+  getTimeEntryDB,
+  deleteTimeEntryDB,
+  getDependencyNodesDB,
+  getTaskDependenciesDB,
+  getDependencyGraphEdgesDB,
+  getBlockerStatusesDB,
+  getSiblingTasksDB,
+  addTaskDependencyDB,
+  removeTaskDependencyDB,
 } from '@/lib/db/tasks';
 
 import { CreateTaskPayload } from '../types/task-creation';
+import { formatRRule, parseRRule, ruleToIntervalDays } from '../utils/rrule';
+import { isMentioned } from '../utils/mentions';
+import { attachmentFileName, sha256Hex, sniffContentType } from '../utils/attachments';
 import { createClient } from '@/lib/supabase/server';
 
 import { SupabaseClient } from '@supabase/supabase-js';
@@ -38,6 +67,20 @@ import {
   Task,
   TaskComment,
   DetailedTask,
+  TaskAttachment,
+  AttachmentVersion,
+  AttachmentUpload,
+  RawTaskActivity,
+  TaskActivity,
+  TaskActivityField,
+  RawTimeEntry,
+  TimeEntry,
+  TaskTimeTracking,
+  DependencyTask,
+  TaskDependencies,
+  BulkTaskAction,
+  BulkTaskResult,
+  RescheduleTaskResult,
   calculateNextDueDate,
 } from '../types/tasks';
 
@@ -51,6 +94,20 @@ export type {
   Task,
   TaskComment,
   DetailedTask,
+  TaskAttachment,
+  AttachmentVersion,
+  AttachmentUpload,
+  RawTaskActivity,
+  TaskActivity,
+  TaskActivityField,
+  RawTimeEntry,
+  TimeEntry,
+  TaskTimeTracking,
+  DependencyTask,
+  TaskDependencies,
+  BulkTaskAction,
+  BulkTaskResult,
+  RescheduleTaskResult,
 };
 
 // Re-export calculateNextDueDate for backward compatibility
@@ -89,6 +146,7 @@ export function mapTaskAttributes(task: RawTask): Omit<Task, 'subtasks' | 'assig
     notes: task.notes,
     recurrence_interval: task.recurrence_interval,
     recurrence_date: task.recurrence_date,
+    recurrence_rule: task.recurrence_rule,
     project: task.project,
     tags: task.tags.map((t) => t.tags.name),
     isOverdue,
@@ -202,7 +260,7 @@ export function formatTasks(
  *
  * Similar to formatTasks() but specialized for a single task with additional detail:
  * - Includes task comments with user information
- * - Attachments include public URLs (not just storage paths)
+ * - Attachments include their ids (served by GET /api/tasks/[id]/attachments/[attachmentId])
  * - Returns null if the task doesn't exist
  * - Maps all assignee and commenter user information
  * - Provides "Unknown User" fallback for missing user data
@@ -213,7 +271,7 @@ export function formatTasks(
  * @param rawData - An object containing:
  *   - task: A single RawTask object or null if not found
  *   - subtasks: Array of RawSubtask objects for this task
- *   - attachments: Array with id, storage_path, and public_url
+ *   - attachments: Array with id and storage_path
  *   - comments: Array of RawComment objects
  *   - assignees: Array of RawAssignee objects with full user information
  *
@@ -224,14 +282,14 @@ export function formatTasks(
  * const detailedTask = formatTaskDetails(rawTaskData);
  * if (detailedTask) {
  *   console.log(`${detailedTask.title} has ${detailedTask.comments.length} comments`);
- *   detailedTask.attachments.forEach(att => console.log(att.public_url));
+ *   detailedTask.attachments.forEach(att => console.log(att.storage_path));
  * }
  */
 export function formatTaskDetails(
   rawData: {
     task: RawTask | null;
     subtasks: RawSubtask[];
-    attachments: { id: number; storage_path: string; public_url?: string }[];
+    attachments: TaskAttachment[];
     comments: RawComment[];
     assignees: RawAssignee[];
   }
@@ -278,6 +336,9 @@ export function formatTaskDetails(
       first_name: 'Unknown',
       last_name: 'User',
     },
+    mentions: (c.mentioned_user_ids ?? [])
+      .map((id) => userInfoMap.get(id))
+      .filter((user): user is NonNullable<typeof user> => user !== undefined),
   }));
 
   return {
@@ -375,12 +436,17 @@ export async function createTaskService(
     throw new Error('Priority bucket must be between 1 and 10');
   }
 
+  // Attachments are validated by content before anything is written
+  const attachments = attachmentFiles?.length
+    ? await prepareAttachmentUploads(attachmentFiles)
+    : undefined;
+
   // Orchestrate task creation (all DB operations)
   const taskId = await taskDb.createTask(
     supabase,
     payload,
     creatorId,
-    attachmentFiles
+    attachments
   );
 
   // Future: Add side effects here
@@ -421,8 +487,11 @@ export async function archiveTaskService(
   // Execute archive operation
   const affectedCount = await taskDb.archiveTask(taskId, isArchived);
 
+  await logTaskActivity(taskId, userId, [
+    { field: 'archived', oldValue: !isArchived, newValue: isArchived },
+  ]);
+
   // Future: Add side effects here
-  // await auditService.logArchive(userId, taskId, isArchived, affectedCount);
   // await notificationService.notifyArchive(taskId, isArchived);
 
   return affectedCount;
@@ -457,16 +526,7 @@ export function isAllowedFileType(fileType: string): fileType is (typeof FILE_UP
 
 // ============ HELPERS ============
 
-/**
- * Format bytes as human-readable size
- */
-export function formatFileSize(bytes: number): string {
-  if (bytes === 0) return '0 bytes';
-  const k = 1024;
-  const sizes = ['bytes', 'KB', 'MB', 'GB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  return Math.round((bytes / Math.pow(k, i)) * 10) / 10 + ' ' + sizes[i];
-}
+export { formatFileSize } from '../utils/attachments';
 
 /**
  * Check if user has permission to modify a task
@@ -482,6 +542,91 @@ async function checkTaskPermission(taskId: number, userId: string): Promise<bool
   return isCreator || isAssignee;
 }
 
+// ============ ACTIVITY ============
+
+type ActivityChange = {
+  field: TaskActivityField;
+  oldValue: string | number | boolean | null | undefined;
+  newValue: string | number | boolean | null | undefined;
+};
+
+function toActivityValue(value: ActivityChange['oldValue']): string | null {
+  return value === null || value === undefined ? null : String(value);
+}
+
+function toActivityDeadline(deadline: string | null | undefined): string | null {
+  return deadline ? new Date(deadline).toISOString() : null;
+}
+
+/**
+ * Records changes in the task activity log (ATH002).
+ * Unchanged values are skipped. Failures are logged but never thrown, so an
+ * audit hiccup does not turn a successful update into an error response.
+ */
+async function logTaskActivity(
+  taskId: number,
+  userId: string,
+  changes: ActivityChange[]
+): Promise<void> {
+  const entries = changes
+    .map((change) => ({
+      task_id: taskId,
+      actor_id: userId,
+      field: change.field,
+      old_value: toActivityValue(change.oldValue),
+      new_value: toActivityValue(change.newValue),
+    }))
+    .filter((entry) => entry.old_value !== entry.new_value);
+
+  if (entries.length === 0) return;
+
+  try {
+    await addTaskActivityDB(entries);
+  } catch (error) {
+    console.error('[ACTIVITY] Failed to log task activity:', error);
+  }
+}
+
+/**
+ * Formats raw activity rows for the UI.
+ * Resolves actor names, and assignee IDs to names for assignee changes.
+ */
+export function formatTaskActivity(
+  activity: RawTaskActivity[],
+  users: RawAssignee[]
+): TaskActivity[] {
+  const userMap = new Map(users.map((u) => [u.id, u]));
+  const displayName = (id: string | null) => {
+    if (!id) return null;
+    const u = userMap.get(id);
+    return u ? `${u.first_name} ${u.last_name}` : 'Unknown user';
+  };
+
+  return activity.map((entry) => {
+    const actor = entry.actor_id ? userMap.get(entry.actor_id) : undefined;
+    return {
+      ...entry,
+      old_value: entry.field === 'assignees' ? displayName(entry.old_value) : entry.old_value,
+      new_value: entry.field === 'assignees' ? displayName(entry.new_value) : entry.new_value,
+      actor: actor ? { first_name: actor.first_name, last_name: actor.last_name } : null,
+    };
+  });
+}
+
+/**
+ * Returns the activity trail of a task, newest first.
+ * Visibility is enforced by RLS: tasks the user cannot see are reported as not found.
+ */
+export async function getTaskActivityService(taskId: number): Promise<TaskActivity[]> {
+  const taskData = await getTaskPermissionDataDB(taskId);
+  if (!taskData) {
+    throw new Error('Task not found');
+  }
+
+  const { activity, users } = await getTaskActivityDB(taskId);
+  return formatTaskActivity(activity, users);
+}
+
 
 // ============ TITLE ============
 
@@ -505,9 +650,14 @@ export async function updateTitle(
   }
 
   // 3. Update in DB
+  const before = await getTaskFieldValuesDB(taskId);
   const result = await updateTaskTitleDB(taskId, newTitle);
 
-  // TODO: Log activity (ATH002)
+  // 4. Log activity
+  await logTaskActivity(taskId, userId, [
+    { field: 'title', oldValue: before?.title, newValue: result.title },
+  ]);
+
   // TODO: Notify assignees
 
   return result;
@@ -535,8 +685,14 @@ export async function updateDescription(
   }
 
   // 3. Update in DB
+  const before = await getTaskFieldValuesDB(taskId);
   const result = await updateTaskDescriptionDB(taskId, newDescription);
 
+  // 4. Log activity
+  await logTaskActivity(taskId, userId, [
+    { field: 'description', oldValue: before?.description, newValue: result.description },
+  ]);
+
   // TODO: Notify assignees
 
   return result;
@@ -544,10 +700,19 @@ export async function updateDescription(
 
 // ============ STATUS ============
 
+export const BLOCKED_TASK_ERROR = 'Task is blocked by unfinished tasks';
+
+/**
+ * Updates a task's status.
+ *
+ * Moving a task to 'In Progress' while any of its blockers is not completed is refused
+ * with BLOCKED_TASK_ERROR, unless options.force is set (the UI asks the user first).
+ */
 export async function updateStatus(
   taskId: number,
   newStatus: 'To Do' | 'In Progress' | 'Completed' | 'Blocked',
-  userId: string
+  userId: string,
+  options: { force?: boolean } = {}
 ): Promise<{ id: number; status: string }> {
   // 1. Validate status
   const validStatuses = ['To Do', 'In Progress', 'Completed', 'Blocked'];
@@ -561,7 +726,22 @@ export async function updateStatus(
     throw new Error('You do not have permission to update this task');
   }
 
-  // 3. Get task details BEFORE updating (needed for recurring task logic)
+  // 3. Finish-to-start dependencies: blockers must be completed first
+  if (newStatus === 'In Progress') {
+    const { visible, hiddenCount } = await getOpenBlockers(taskId);
+    if (visible.length + hiddenCount > 0) {
+      const titles = [
+        ...visible.map((t) => `"${t.title}"`),
+        ...(hiddenCount > 0 ? [`${hiddenCount} task${hiddenCount > 1 ? 's' : ''} you cannot view`] : []),
+      ].join(', ');
+      if (!options.force) {
+        throw new Error(`${BLOCKED_TASK_ERROR}: ${titles}`);
+      }
+      console.warn(`[DEPENDENCIES] Task ${taskId} started while blocked by ${titles}`);
+    }
+  }
+
+  // 4. Get task details BEFORE updating (needed for recurring task logic)
   let taskDetails: DetailedTask | null = null;
   if (newStatus === 'Completed') {
     const rawTaskData = await getTaskById(taskId);
@@ -570,10 +750,15 @@ export async function updateStatus(
     }
   }
 
-  // 4. Update status in DB
+  // 5. Update status in DB
+  const before = await getTaskFieldValuesDB(taskId);
   const result = await updateTaskStatusDB(taskId, newStatus);
 
-  // 5. Handle recurring task creation if task is completed
+  await logTaskActivity(taskId, userId, [
+    { field: 'status', oldValue: before?.status, newValue: result.status },
+  ]);
+
+  // 6. Handle recurring task creation if task is completed
   if (newStatus === 'Completed' && taskDetails) {
     // Check if this is a recurring task with a deadline
     if (taskDetails.recurrence_interval > 0 && taskDetails.deadline) {
@@ -587,6 +772,12 @@ export async function updateStatus(
         // Calculate next due date using the existing function
         const taskWithNextDue = calculateNextDueDate(taskForCalculation);
 
+        // A rule that has ended (COUNT exhausted or UNTIL passed) yields no next occurrence
+        if (taskWithNextDue.deadline === taskForCalculation.deadline) {
+          console.log(`[RECURRING] Recurrence rule for task ${taskId} has ended`);
+          return result;
+        }
+
         // Create new recurring task with same properties
         const newTaskPayload: CreateTaskPayload = {
           project_id: taskDetails.project.id,
@@ -599,6 +790,7 @@ export async function updateStatus(
           notes: taskDetails.notes || undefined,
           tags: taskDetails.tags,
           recurrence_interval: taskDetails.recurrence_interval,
+          recurrence_rule: taskWithNextDue.recurrence_rule ?? undefined,
           // recurrence_date is not needed - only deadline matters for calculating next occurrence
         };
 
@@ -615,7 +807,6 @@ export async function updateStatus(
     }
   }
 
-  // TODO: Log status change (ATH002)
   // TODO: Notify assignees of status change (NSY002)
 
   return result;
@@ -642,8 +833,14 @@ export async function updatePriority(
   }
 
   // 3. Update in DB
+  const before = await getTaskFieldValuesDB(taskId);
   const result = await updateTaskPriorityDB(taskId, newPriority);
 
+  // 4. Log activity
+  await logTaskActivity(taskId, userId, [
+    { field: 'priority', oldValue: before?.priority_bucket, newValue: result.priority_bucket },
+  ]);
+
   // TODO: Notify assignees
 
   return result;
@@ -680,13 +877,96 @@ export async function updateDeadline(
   }
 
   // 3. Update in DB
+  const before = await getTaskFieldValuesDB(taskId);
   const result = await updateTaskDeadlineDB(taskId, newDeadline);
 
+  // 4. Log activity
+  await logTaskActivity(taskId, userId, [
+    {
+      field: 'deadline',
+      oldValue: toActivityDeadline(before?.deadline),
+      newValue: toActivityDeadline(result.deadline),
+    },
+  ]);
+
   // TODO: Notify assignees of deadline change (DST007)
 
   return result;
 }
 
+/**
+ * Moves a task's deadline, e.g. from a drag on the schedule. With shiftSubtasks,
+ * open subtasks that have a deadline move by the same amount of time; subtasks the
+ * user may not update are skipped. Every move is validated and permission-checked
+ * first, then all of them are written in one transaction and logged.
+ */
+export async function rescheduleTask(
+  taskId: number,
+  newDeadline: string,
+  userId: string,
+  options: { shiftSubtasks?: boolean } = {}
+): Promise<RescheduleTaskResult> {
+  // 1. Validate
+  if (typeof newDeadline !== 'string' || !newDeadline) {
+    throw new Error('Deadline is required');
+  }
+  const deadlineDate = new Date(newDeadline);
+  if (isNaN(deadlineDate.getTime())) {
+    throw new Error('Invalid date format');
+  }
+
+  // 2. Check permission
+  const hasPermission = await checkTaskPermission(taskId, userId);
+  if (!hasPermission) {
+    throw new Error('You do not have permission to update this task');
+  }
+
+  // 3. Work out every move before writing anything
+  const before = await getTaskFieldValuesDB(taskId);
+  const moves = [{ id: taskId, deadline: deadlineDate.toISOString() }];
+  const oldDeadlines = new Map<number, string | null>([[taskId, before?.deadline ?? null]]);
+  const skippedSubtaskIds: number[] = [];
+
+  const delta = before?.deadline ? deadlineDate.getTime() - new Date(before.deadline).getTime() : 0;
+  if (options.shiftSubtasks && delta !== 0) {
+    const subtasks = await getSubtaskDeadlinesDB(taskId);
+    for (const subtask of subtasks) {
+      if (!subtask.deadline || subtask.status === 'Completed') continue;
+
+      if (!(await checkTaskPermission(subtask.id, userId))) {
+        skippedSubtaskIds.push(subtask.id);
+        continue;
+      }
+      moves.push({
+        id: subtask.id,
+        deadline: new Date(new Date(subtask.deadline).getTime() + delta).toISOString(),
+      });
+      oldDeadlines.set(subtask.id, subtask.deadline);
+    }
+  }
+
+  // 4. Move the task and its subtasks together
+  const updated = new Map((await updateTaskDeadlinesDB(moves)).map((row) => [row.id, row]));
+
+  // 5. Log activity
+  for (const { id } of moves) {
+    await logTaskActivity(id, userId, [
+      {
+        field: 'deadline',
+        oldValue: toActivityDeadline(oldDeadlines.get(id)),
+        newValue: toActivityDeadline(updated.get(id)?.deadline),
+      },
+    ]);
+  }
+
+  return {
+    id: taskId,
+    deadline: updated.get(taskId)?.deadline ?? null,
+    shiftedSubtasks: moves.slice(1).map(({ id }) => ({ id, deadline: updated.get(id)?.deadline ?? null })),
+    skippedSubtaskIds,
+  };
+}
+
 // ============ NOTES ============
 
 export async function updateNotes(
@@ -709,8 +989,14 @@ export async function updateNotes(
   }
 
   // 3. Update in DB
+  const before = await getTaskFieldValuesDB(taskId);
   const result = await updateTaskNotesDB(taskId, newNotes);
 
+  // 4. Log activity
+  await logTaskActivity(taskId, userId, [
+    { field: 'notes', oldValue: before?.notes, newValue: result.notes },
+  ]);
+
   return result;
 }
 
@@ -721,18 +1007,27 @@ export async function updateRecurrence(
   taskId: number,
   recurrenceInterval: number,
   recurrenceDate: string | null,
-  userId: string
-): Promise<{ id: number; recurrence_interval: number; recurrence_date: string | null }> {
+  userId: string,
+  recurrenceRule: string | null = null
+): Promise<{ id: number; recurrence_interval: number; recurrence_date: string | null; recurrence_rule: string | null }> {
   // Check permission
   const hasPermission = await checkTaskPermission(taskId, userId);
   if (!hasPermission) {
     throw new Error('You do not have permission to update this task');
   }
 
-  // Validate recurrence interval
-  const validIntervals = [0, 1, 7, 30];
-  if (!validIntervals.includes(recurrenceInterval)) {
-    throw new Error('Invalid recurrence interval. Must be 0, 1, 7, or 30 days');
+  // A rule takes precedence; the interval is derived from it
+  let rule: string | null = null;
+  if (recurrenceRule) {
+    const parsed = parseRRule(recurrenceRule);
+    rule = formatRRule(parsed);
+    recurrenceInterval = ruleToIntervalDays(parsed);
+  } else {
+    // Validate recurrence interval
+    const validIntervals = [0, 1, 7, 30];
+    if (!validIntervals.includes(recurrenceInterval)) {
+      throw new Error('Invalid recurrence interval. Must be 0, 1, 7, or 30 days');
+    }
   }
 
   // If setting recurrence, validate date
@@ -753,7 +1048,17 @@ export async function updateRecurrence(
   }
 
   // Call DB layer
-  const result = await updateTaskRecurrenceDB(taskId, recurrenceInterval, recurrenceDate);
+  const before = await getTaskFieldValuesDB(taskId);
+  const result = await updateTaskRecurrenceDB(taskId, recurrenceInterval, recurrenceDate, rule);
+
+  // Log activity (the rule when there is one, the interval otherwise)
+  await logTaskActivity(taskId, userId, [
+    {
+      field: 'recurrence',
+      oldValue: before?.recurrence_rule || before?.recurrence_interval,
+      newValue: result.recurrence_rule || result.recurrence_interval,
+    },
+  ]);
 
   return result;
 }
@@ -788,6 +1093,9 @@ export async function addTag(
   // 3. Update in DB
   const result = await addTaskTagDB(taskId, cleanedTag);
 
+  // 4. Log activity
+  await logTaskActivity(taskId, userId, [{ field: 'tags', oldValue: null, newValue: result }]);
+
   return result;
 }
 
@@ -810,6 +1118,9 @@ export async function removeTag(
   // 3. Update in DB
   const result = await removeTaskTagDB(taskId, tagName);
 
+  // 4. Log activity
+  await logTaskActivity(taskId, userId, [{ field: 'tags', oldValue: result, newValue: null }]);
+
   return result;
 }
 
@@ -834,6 +1145,9 @@ export async function addAssignee(
   // 3. Update in DB
   const result = await addTaskAssigneeDB(taskId, newAssigneeId, userId);
 
+  // 4. Log activity
+  await logTaskActivity(taskId, userId, [{ field: 'assignees', oldValue: null, newValue: result }]);
+
   // TODO: Notify new assignee (NSY002)
 
   return result;
@@ -858,6 +1172,9 @@ export async function removeAssignee(
   // 3. Call DB layer to remove (no permission check needed there)
   const result = await removeTaskAssigneeDB(taskId, assigneeId);
 
+  // 4. Log activity
+  await logTaskActivity(taskId, userId, [{ field: 'assignees', oldValue: result, newValue: null }]);
+
   return result;
 }
 
@@ -871,7 +1188,10 @@ export async function createSubtask(
   attachmentFiles?: File[]
 ): Promise<number> {
   // 1. Create task as usual (without parent_task_id set yet)
-  const subtaskId = await createTask(supabase, payload, creatorId, attachmentFiles);
+  const attachments = attachmentFiles?.length
+    ? await prepareAttachmentUploads(attachmentFiles)
+    : undefined;
+  const subtaskId = await createTask(supabase, payload, creatorId, attachments);
 
   // 2. Link to parent
   await linkSubtaskToParent(subtaskId, parentTaskId);
@@ -882,47 +1202,85 @@ export async function createSubtask(
 
 // ============ ATTACHMENTS ============
 
-const ALLOWED_FILE_TYPES = [
-  'application/pdf',
-  'image/png',
-  'image/jpeg',
-  'image/jpg',
-  'application/msword',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-  'application/vnd.ms-excel',
-  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-  'text/plain',
-];
 const MAX_TOTAL_ATTACHMENT_SIZE = 50 * 1024 * 1024; // 50MB total per task
 
+// Declared types that say nothing about the content
+const GENERIC_FILE_TYPES = ['', 'application/octet-stream'];
+
+// Legacy names some browsers still report
+const FILE_TYPE_ALIASES: Record<string, string> = { 'image/jpg': 'image/jpeg' };
+
+// Other declared types a sniffed type may legitimately arrive with
+// (e.g. Windows reports .csv files as Excel)
+const COMPATIBLE_DECLARED_TYPES: Record<string, string[]> = {
+  'text/csv': ['text/plain', 'application/vnd.ms-excel'],
+  'text/plain': ['text/csv'],
+};
+
+/**
+ * Checks each file against FILE_UPLOAD_LIMITS.ALLOWED_TYPES by its magic bytes
+ * (the declared MIME type must be allowed too, and agree with the content) and
+ * computes the metadata stored with the attachment. Identical files within the
+ * batch are kept once.
+ */
+async function prepareAttachmentUploads(files: File[]): Promise<AttachmentUpload[]> {
+  const uploads: AttachmentUpload[] = [];
+
+  for (const file of files) {
+    const declaredType = FILE_TYPE_ALIASES[file.type] ?? file.type;
+    const isGeneric = GENERIC_FILE_TYPES.includes(declaredType);
+
+    if (!isGeneric && !isAllowedFileType(declaredType)) {
+      throw new Error(
+        `File type not allowed: ${file.type}. Allowed: PDF, images, Word, Excel, TXT, CSV`
+      );
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const contentType = sniffContentType(bytes, file.name, declaredType);
+
+    if (!contentType || !isAllowedFileType(contentType)) {
+      throw new Error(
+        `File type not allowed: the contents of ${file.name} are not a PDF, image, Word, Excel, TXT or CSV file`
+      );
+    }
+
+    const compatible = COMPATIBLE_DECLARED_TYPES[contentType] ?? [];
+    if (!isGeneric && declaredType !== contentType && !compatible.includes(declaredType)) {
+      throw new Error(`File content does not match its type: ${file.name} is not ${declaredType}`);
+    }
+
+    const sha256 = await sha256Hex(bytes);
+    if (uploads.some((upload) => upload.sha256 === sha256)) {
+      continue;
+    }
+
+    uploads.push({
+      file,
+      file_name: file.name,
+      size_bytes: file.size,
+      content_type: contentType,
+      sha256,
+    });
+  }
+
+  return uploads;
+}
+
 export async function addTaskAttachments(
   taskId: number,
   files: File[],
   userId: string
-): Promise<{ id: number; storage_path: string }[]> {
-  // Check permission
+): Promise<TaskAttachment[]> {
+  // 1. Check permission
   const hasPermission = await checkTaskPermission(taskId, userId);
   if (!hasPermission) {
     throw new Error('You do not have permission to update this task');
   }
 
-  // Get existing attachment size for this task
+  // 2. Check total size (existing + new) before reading any file
   const existingSize = await getTaskAttachmentsTotalSize(taskId);
-
-  // Validate files
-  let totalNewSize = 0;
-  for (const file of files) {
-    // Check file type
-    if (!ALLOWED_FILE_TYPES.includes(file.type)) {
-      throw new Error(
-        `File type not allowed: ${file.type}. Allowed: PDF, images, Word, Excel, TXT`
-      );
-    }
-
-    totalNewSize += file.size;
-  }
-
-  // Check total size (existing + new)
+  const totalNewSize = files.reduce((sum, file) => sum + file.size, 0);
   const totalSize = existingSize + totalNewSize;
   if (totalSize > MAX_TOTAL_ATTACHMENT_SIZE) {
     const remainingMB = ((MAX_TOTAL_ATTACHMENT_SIZE - existingSize) / 1024 / 1024).toFixed(1);
@@ -931,12 +1289,166 @@ export async function addTaskAttachments(
     );
   }
 
-  // Call DB layer
-  const result = await addTaskAttachmentsDB(taskId, files, userId);
+  // 3. Validate contents and compute metadata
+  const prepared = await prepareAttachmentUploads(files);
+
+  // 4. Skip files already attached to the task
+  const existingHashes = new Set(await getTaskAttachmentHashesDB(taskId));
+  const uploads = prepared.filter((upload) => !existingHashes.has(upload.sha256));
+  if (uploads.length === 0) {
+    throw new Error('These files are already attached to this task');
+  }
+
+  // 5. Re-uploading a file name already on the task adds a version of that document
+  const documentsByName = new Map(
+    (await getCurrentTaskAttachmentsDB(taskId)).map((attachment) => [
+      attachment.file_name ?? attachmentFileName(attachment.storage_path),
+      attachment.document_id,
+    ])
+  );
+  uploads.forEach((upload) => {
+    upload.document_id = documentsByName.get(upload.file_name);
+  });
+
+  // 6. Call DB layer
+  const result = await addTaskAttachmentsDB(taskId, uploads, userId);
+
+  // 7. Log activity (one row per uploaded file)
+  await logTaskActivity(
+    taskId,
+    userId,
+    result.map((attachment) => ({
+      field: 'attachments' as const,
+      oldValue: null,
+      newValue: attachment.file_name ?? attachmentFileName(attachment.storage_path),
+    }))
+  );
 
   return result;
 }
 
+/**
+ * Uploads a new version of the document an attachment belongs to. The new
+ * version becomes current; older ones stay downloadable and restorable.
+ */
+export async function addAttachmentVersion(
+  taskId: number,
+  attachmentId: number,
+  file: File,
+  userId: string
+): Promise<TaskAttachment> {
+  // 1. Check permission
+  const hasPermission = await checkTaskPermission(taskId, userId);
+  if (!hasPermission) {
+    throw new Error('You do not have permission to update this task');
+  }
+
+  // 2. Look up the document on this task
+  const attachment = await getTaskAttachmentDB(taskId, attachmentId);
+  if (!attachment) {
+    throw new Error('Attachment not found');
+  }
+
+  // 3. Check total size (every version counts towards the quota)
+  const existingSize = await getTaskAttachmentsTotalSize(taskId);
+  if (existingSize + file.size > MAX_TOTAL_ATTACHMENT_SIZE) {
+    const remainingMB = ((MAX_TOTAL_ATTACHMENT_SIZE - existingSize) / 1024 / 1024).toFixed(1);
+    throw new Error(
+      `Total attachment size would exceed 50MB limit. You have ${remainingMB}MB remaining. Trying to add ${(file.size / 1024 / 1024).toFixed(1)}MB.`
+    );
+  }
+
+  // 4. Validate contents and compute metadata
+  const [upload] = await prepareAttachmentUploads([file]);
+
+  // 5. An identical file is already stored (possibly as an older version)
+  const existingHashes = new Set(await getTaskAttachmentHashesDB(taskId));
+  if (existingHashes.has(upload.sha256)) {
+    throw new Error('This file is already attached to this task. Restore that version instead');
+  }
+
+  // 6. Call DB layer
+  const [created] = await addTaskAttachmentsDB(
+    taskId,
+    [{ ...upload, document_id: attachment.document_id }],
+    userId
+  );
+
+  // 7. Log activity
+  await logTaskActivity(taskId, userId, [
+    {
+      field: 'attachments',
+      oldValue: attachment.file_name ?? attachmentFileName(attachment.storage_path),
+      newValue: `${created.file_name ?? attachmentFileName(created.storage_path)} (v${created.version})`,
+    },
+  ]);
+
+  return created;
+}
+
+/**
+ * Makes an older version of a document its current version.
+ */
+export async function restoreAttachmentVersion(
+  taskId: number,
+  attachmentId: number,
+  userId: string
+): Promise<TaskAttachment> {
+  // 1. Check permission
+  const hasPermission = await checkTaskPermission(taskId, userId);
+  if (!hasPermission) {
+    throw new Error('You do not have permission to update this task');
+  }
+
+  // 2. Look up the version on this task
+  const attachment = await getTaskAttachmentDB(taskId, attachmentId);
+  if (!attachment) {
+    throw new Error('Attachment not found');
+  }
+  if (attachment.is_current) {
+    return attachment;
+  }
+
+  // 3. Call DB layer
+  const restored = await restoreTaskAttachmentVersionDB(attachmentId);
+
+  // 4. Log activity
+  await logTaskActivity(taskId, userId, [
+    {
+      field: 'attachments',
+      oldValue: null,
+      newValue: `${restored.file_name ?? attachmentFileName(restored.storage_path)} (restored v${restored.version})`,
+    },
+  ]);
+
+  return restored;
+}
+
+/**
+ * Version history of the document an attachment belongs to, newest first.
+ * Hidden tasks report 'Attachment not found', as for downloads.
+ */
+export async function listAttachmentVersions(
+  taskId: number,
+  attachmentId: number,
+  userId: string
+): Promise<AttachmentVersion[]> {
+  // 1. Check visibility
+  const canView = await isTaskVisibleToUserDB(taskId, userId);
+  if (!canView) {
+    throw new Error('Attachment not found');
+  }
+
+  // 2. Look up the attachment on this task
+  const attachment = await getTaskAttachmentDB(taskId, attachmentId);
+  if (!attachment) {
+    throw new Error('Attachment not found');
+  }
+
+  // 3. Fetch all versions of its document
+  return getAttachmentVersionsDB(taskId, attachment.document_id);
+}
+
 export async function removeTaskAttachment(
   taskId: number,
   attachmentId: number,
@@ -948,21 +1460,265 @@ export async function removeTaskAttachment(
     throw new Error('You do not have permission to delete attachments from this task');
   }
 
-  // 2. Delete from storage and DB
-  const storagePath = await removeTaskAttachmentDB(attachmentId);
+  // 2. Look up the attachment on this task
+  const attachment = await getTaskAttachmentDB(taskId, attachmentId);
+  if (!attachment) {
+    throw new Error('Attachment not found');
+  }
+
+  // 3. Delete every version of its document from storage and DB
+  await removeTaskAttachmentDB(taskId, attachment.document_id);
 
-  console.log(`[ATTACHMENTS] Removed attachment ${attachmentId} from task ${taskId} (${storagePath})`);
+  console.log(
+    `[ATTACHMENTS] Removed attachment ${attachmentId} from task ${taskId} (${attachment.storage_path})`
+  );
+
+  // 4. Log activity
+  await logTaskActivity(taskId, userId, [
+    {
+      field: 'attachments',
+      oldValue: attachment.file_name || attachmentFileName(attachment.storage_path),
+      newValue: null,
+    },
+  ]);
 
   return { id: attachmentId, removed: true };
 }
 
+// Signed URLs only need to outlive the redirect that hands them out
+const ATTACHMENT_URL_TTL_SECONDS = 60;
+
+/**
+ * Short-lived signed URL for an attachment of a task the user can view.
+ * Throws 'Attachment not found' both when the attachment does not exist and
+ * when the task is hidden from the user, so ids cannot be probed.
+ */
+export async function getAttachmentDownloadUrl(
+  taskId: number,
+  attachmentId: number,
+  userId: string
+): Promise<string> {
+  // 1. Check visibility
+  const canView = await isTaskVisibleToUserDB(taskId, userId);
+  if (!canView) {
+    throw new Error('Attachment not found');
+  }
+
+  // 2. Look up the attachment on this task
+  const attachment = await getTaskAttachmentDB(taskId, attachmentId);
+  if (!attachment) {
+    throw new Error('Attachment not found');
+  }
+
+  // 3. Sign
+  return createAttachmentSignedUrlDB(attachment.storage_path, ATTACHMENT_URL_TTL_SECONDS);
+}
+
+// ============ TIME TRACKING ============
+
+const MAX_TIME_ENTRY_SECONDS = 24 * 60 * 60; // a single entry cannot exceed 24 hours
+const MAX_TIME_ENTRY_NOTE_LENGTH = 500;
+
+function validateTimeEntryNote(note: string | null | undefined): string | null {
+  if (note === null || note === undefined) return null;
+  if (typeof note !== 'string') {
+    throw new Error('Note must be a string');
+  }
+  if (note.length > MAX_TIME_ENTRY_NOTE_LENGTH) {
+    throw new Error(`Note cannot exceed ${MAX_TIME_ENTRY_NOTE_LENGTH} characters`);
+  }
+  return note.trim() || null;
+}
+
+/**
+ * Formats raw time entries for the UI with user names and durations.
+ */
+export function formatTimeEntries(entries: RawTimeEntry[], users: RawAssignee[]): TimeEntry[] {
+  const userMap = new Map(users.map((u) => [u.id, u]));
+
+  return entries.map((entry) => {
+    const user = userMap.get(entry.user_id);
+    return {
+      ...entry,
+      user_info: user ? { first_name: user.first_name, last_name: user.last_name } : null,
+      duration: entry.ended_at
+        ? Math.round((new Date(entry.ended_at).getTime() - new Date(entry.started_at).getTime()) / 1000)
+        : 0,
+    };
+  });
+}
+
+/**
+ * Returns the time tracking state of a task: entries, the derived logged_time
+ * total and the current user's running timer on this task.
+ */
+export async function getTaskTimeTrackingService(
+  taskId: number,
+  userId: string
+): Promise<TaskTimeTracking> {
+  const { entries, users, logged_time } = await getTaskTimeEntriesDB(taskId);
+  const formatted = formatTimeEntries(entries, users);
+
+  return {
+    logged_time,
+    entries: formatted,
+    running_entry: formatted.find((e) => e.user_id === userId && !e.ended_at) ?? null,
+  };
+}
+
+export async function startTimer(
+  taskId: number,
+  userId: string,
+  note?: string | null
+): Promise<TaskTimeTracking> {
+  // 1. Validate
+  const cleanedNote = validateTimeEntryNote(note);
+
+  // 2. Check permission
+  const hasPermission = await checkTaskPermission(taskId, userId);
+  if (!hasPermission) {
+    throw new Error('You do not have permission to log time on this task');
+  }
+
+  // 3. Only one timer can run at a time per user
+  const running = await getRunningTimeEntryDB(userId);
+  if (running) {
+    throw new Error(
+      running.task_id === taskId
+        ? 'A timer is already running on this task'
+        : `You already have a timer running on task #${running.task_id}`
+    );
+  }
+
+  // 4. Insert running entry
+  await addTimeEntryDB({
+    task_id: taskId,
+    user_id: userId,
+    started_at: new Date().toISOString(),
+    ended_at: null,
+    note: cleanedNote,
+  });
+
+  return getTaskTimeTrackingService(taskId, userId);
+}
+
+export async function stopTimer(taskId: number, userId: string): Promise<TaskTimeTracking> {
+  // 1. Find the user's running timer on this task
+  const running = await getRunningTimeEntryDB(userId);
+  if (!running || running.task_id !== taskId) {
+    throw new Error('No running timer on this task');
+  }
+
+  // 2. Stop it, capping runaway timers at the maximum entry length
+  const maxEnd = new Date(running.started_at).getTime() + MAX_TIME_ENTRY_SECONDS * 1000;
+  const endedAt = new Date(Math.min(Date.now(), maxEnd)).toISOString();
+  await stopTimeEntryDB(running.id, endedAt);
+
+  return getTaskTimeTrackingService(taskId, userId);
+}
+
+export async function addManualTimeEntry(
+  taskId: number,
+  startedAt: string,
+  endedAt: string,
+  note: string | null | undefined,
+  userId: string
+): Promise<TaskTimeTracking> {
+  // 1. Validate
+  const start = new Date(startedAt);
+  const end = new Date(endedAt);
+  if (!startedAt || !endedAt || isNaN(start.getTime()) || isNaN(end.getTime())) {
+    throw new Error('Start and end must be valid dates');
+  }
+  if (end <= start) {
+    throw new Error('End time must be after start time');
+  }
+  if (end > new Date()) {
+    throw new Error('Time entries cannot end in the future');
+  }
+  if ((end.getTime() - start.getTime()) / 1000 > MAX_TIME_ENTRY_SECONDS) {
+    throw new Error('A single time entry cannot exceed 24 hours');
+  }
+  const cleanedNote = validateTimeEntryNote(note);
+
+  // 2. Check permission
+  const hasPermission = await checkTaskPermission(taskId, userId);
+  if (!hasPermission) {
+    throw new Error('You do not have permission to log time on this task');
+  }
+
+  // 3. Insert finished entry
+  await addTimeEntryDB({
+    task_id: taskId,
+    user_id: userId,
+    started_at: start.toISOString(),
+    ended_at: end.toISOString(),
+    note: cleanedNote,
+  });
+
+  return getTaskTimeTrackingService(taskId, userId);
+}
+
+export async function deleteTimeEntry(
+  taskId: number,
+  entryId: number,
+  userId: string
+): Promise<TaskTimeTracking> {
+  // Users can only delete their own entries
+  const entry = await getTimeEntryDB(entryId);
+  if (!entry || entry.task_id !== taskId) {
+    throw new Error('Time entry not found');
+  }
+  if (entry.user_id !== userId) {
+    throw new Error('You can only delete your own time entries');
+  }
+
+  await deleteTimeEntryDB(entryId);
+
+  return getTaskTimeTrackingService(taskId, userId);
+}
+
 // ============ COMMENTS ============
 
+/**
+ * Users the current user can @mention in comments (those they can view).
+ */
+export async function listMentionableUsers(): Promise<RawAssignee[]> {
+  return getMentionableUsersDB();
+}
+
+/**
+ * Resolves the user ids sent with a comment to the ones it actually mentions.
+ * Every id must be a user the author can view; ids whose "@First Last" label is
+ * no longer in the text (e.g. the mention was deleted while typing) are dropped.
+ */
+async function resolveMentions(content: string, mentions: unknown): Promise<string[]> {
+  if (!Array.isArray(mentions) || mentions.some((id) => typeof id !== 'string')) {
+    throw new Error('Mentions must be a list of user IDs');
+  }
+  if (mentions.length === 0) return [];
+
+  const mentionable = new Map((await getMentionableUsersDB()).map((u) => [u.id, u]));
+
+  const resolved: string[] = [];
+  for (const id of new Set(mentions as string[])) {
+    const user = mentionable.get(id);
+    if (!user) {
+      throw new Error('You can only mention users you can view');
+    }
+    if (isMentioned(content, user)) {
+      resolved.push(id);
+    }
+  }
+  return resolved;
+}
+
 export async function addComment(
   taskId: number,
   content: string,
-  userId: string
-): Promise<{ id: number; content: string; created_at: string; user_id: string }> {
+  userId: string,
+  mentions: string[] = []
+): Promise<{ id: number; content: string; created_at: string; user_id: string; mentioned_user_ids: string[] }> {
   // Validate content
   if (!content || typeof content !== 'string' || content.trim().length === 0) {
     throw new Error('Comment content cannot be empty');
@@ -978,8 +1734,10 @@ export async function addComment(
     throw new Error('Task not found');
   }
 
-  // Add the comment
-  const result = await addTaskCommentDB(taskId, userId, content.trim());
+  const mentionedUserIds = await resolveMentions(content.trim(), mentions);
+
+  // Add the comment (mentioned users are notified by trigger)
+  const result = await addTaskCommentDB(taskId, userId, content.trim(), mentionedUserIds);
 
   return result;
 }
@@ -987,8 +1745,9 @@ export async function addComment(
 export async function updateComment(
   commentId: number,
   newContent: string,
-  userId: string
-): Promise<{ id: number; content: string; updated_at: string }> {
+  userId: string,
+  mentions: string[] = []
+): Promise<{ id: number; content: string; updated_at: string; mentioned_user_ids: string[] }> {
   // Validate content
   if (!newContent || typeof newContent !== 'string' || newContent.trim().length === 0) {
     throw new Error('Comment content cannot be empty');
@@ -1008,8 +1767,10 @@ export async function updateComment(
     throw new Error('You can only edit your own comments');
   }
 
-  // Update the comment
-  const result = await updateTaskCommentDB(commentId, newContent.trim());
+  const mentionedUserIds = await resolveMentions(newContent.trim(), mentions);
+
+  // Update the comment (only newly mentioned users are notified)
+  const result = await updateTaskCommentDB(commentId, newContent.trim(), mentionedUserIds);
 
   return result;
 }
@@ -1067,3 +1828,244 @@ export async function linkSubtaskToParent(
     );
   }
 }
+
+// ============ DEPENDENCIES ============
+
+/**
+ * Blockers of a task that are not completed yet. Statuses come from the whole
+ * graph, so blockers hidden from the user still hold the task back; only the
+ * visible ones are returned with their details.
+ */
+export async function getOpenBlockers(
+  taskId: number
+): Promise<{ visible: DependencyTask[]; hiddenCount: number }> {
+  const [statuses, { blockers }] = await Promise.all([
+    getBlockerStatusesDB(taskId),
+    getTaskDependenciesDB(taskId),
+  ]);
+
+  const openIds = new Set(statuses.filter((b) => b.status !== 'Completed').map((b) => b.id));
+  const visible = blockers.filter((t) => openIds.has(t.id));
+
+  return { visible, hiddenCount: openIds.size - visible.length };
+}
+
+export async function getTaskDependenciesService(taskId: number): Promise<TaskDependencies> {
+  const [node] = await getDependencyNodesDB([taskId]);
+  if (!node) {
+    throw new Error('Task not found');
+  }
+
+  const { blockers, dependents } = await getTaskDependenciesDB(taskId);
+  const linkedIds = new Set([...blockers, ...dependents].map((t) => t.id));
+  const siblings = await getSiblingTasksDB(taskId, node.project_id, node.parent_task_id);
+
+  return {
+    blockers,
+    dependents,
+    candidates: siblings.filter((t) => !linkedIds.has(t.id)),
+  };
+}
+
+/**
+ * True if `targetId` can be reached from `startId` by following blocker -> dependent edges.
+ * Walks the whole graph, hidden tasks included, level by level (one query per level).
+ */
+async function isReachable(startId: number, targetId: number): Promise<boolean> {
+  const visited = new Set<number>([startId]);
+  let frontier = [startId];
+
+  while (frontier.length > 0) {
+    const edges = await getDependencyGraphEdgesDB('blocker_task_id', frontier);
+    const next: number[] = [];
+
+    for (const edge of edges) {
+      if (edge.dependent_task_id === targetId) return true;
+      if (!visited.has(edge.dependent_task_id)) {
+        visited.add(edge.dependent_task_id);
+        next.push(edge.dependent_task_id);
+      }
+    }
+
+    frontier = next;
+  }
+
+  return false;
+}
+
+/**
+ * Makes `dependentTaskId` wait for `blockerTaskId` (finish-to-start).
+ * Both tasks must be siblings (same project and parent) and the link must not create a cycle.
+ */
+export async function addDependency(
+  dependentTaskId: number,
+  blockerTaskId: number,
+  userId: string
+): Promise<TaskDependencies> {
+  // 1. Validate
+  if (!Number.isInteger(blockerTaskId) || blockerTaskId <= 0) {
+    throw new Error('Invalid blocker task ID');
+  }
+  if (blockerTaskId === dependentTaskId) {
+    throw new Error('A task cannot depend on itself');
+  }
+
+  // 2. Check permission
+  const hasPermission = await checkTaskPermission(dependentTaskId, userId);
+  if (!hasPermission) {
+    throw new Error('You do not have permission to update this task');
+  }
+
+  // 3. Only sibling tasks can be linked
+  const nodes = await getDependencyNodesDB([dependentTaskId, blockerTaskId]);
+  const dependent = nodes.find((t) => t.id === dependentTaskId);
+  const blocker = nodes.find((t) => t.id === blockerTaskId);
+  if (!dependent || !blocker) {
+    throw new Error('Task not found');
+  }
+  if (dependent.project_id !== blocker.project_id || dependent.parent_task_id !== blocker.parent_task_id) {
+    throw new Error('Dependencies can only link tasks with the same project and parent task');
+  }
+
+  // 4. Reject duplicates and cycles (the blocker must not already wait on the dependent)
+  const existing = await getDependencyGraphEdgesDB('dependent_task_id', [dependentTaskId]);
+  if (existing.some((edge) => edge.blocker_task_id === blockerTaskId)) {
+    throw new Error('Dependency already exists');
+  }
+  if (await isReachable(dependentTaskId, blockerTaskId)) {
+    throw new Error('Circular dependency detected');
+  }
+
+  // 5. Update in DB
+  await addTaskDependencyDB(blockerTaskId, dependentTaskId, userId);
+
+  // 6. Log activity
+  await logTaskActivity(dependentTaskId, userId, [
+    { field: 'dependencies', oldValue: null, newValue: blocker.title },
+  ]);
+
+  return getTaskDependenciesService(dependentTaskId);
+}
+
+export async function removeDependency(
+  dependentTaskId: number,
+  blockerTaskId: number,
+  userId: string
+): Promise<TaskDependencies> {
+  // 1. Check permission
+  const hasPermission = await checkTaskPermission(dependentTaskId, userId);
+  if (!hasPermission) {
+    throw new Error('You do not have permission to update this task');
+  }
+
+  // 2. Update in DB
+  const [blocker] = await getDependencyNodesDB([blockerTaskId]);
+  const removed = await removeTaskDependencyDB(blockerTaskId, dependentTaskId);
+  if (!removed) {
+    throw new Error('Dependency not found');
+  }
+
+  // 3. Log activity
+  await logTaskActivity(dependentTaskId, userId, [
+    { field: 'dependencies', oldValue: blocker?.title ?? `#${blockerTaskId}`, newValue: null },
+  ]);
+
+  return getTaskDependenciesService(dependentTaskId);
+}
+
+// ============ BULK ============
+
+export const MAX_BULK_TASKS = 100;
+
+const BULK_TASK_ACTIONS: BulkTaskAction[] = [
+  'updateStatus',
+  'updatePriority',
+  'addTag',
+  'addAssignee',
+  'updateDeadline',
+  'archive',
+];
+
+export type BulkTaskUpdates = {
+  status?: string;
+  force?: boolean;
+  priority_bucket?: number;
+  tag_name?: string;
+  assignee_id?: string;
+  deadline?: string | null;
+};
+
+/**
+ * Applies one action to many tasks. Permission is checked per task and each task
+ * succeeds or fails on its own, so one forbidden or invalid task does not stop the rest.
+ *
+ * @throws {Error} If the request itself is invalid, or a non-manager tries to archive
+ */
+export async function bulkUpdateTasks(
+  supabase: SupabaseClient,
+  taskIds: number[],
+  action: BulkTaskAction,
+  updates: BulkTaskUpdates,
+  userId: string
+): Promise<BulkTaskResult[]> {
+  // 1. Validate
+  if (!Array.isArray(taskIds) || taskIds.length === 0) {
+    throw new Error('At least one task ID is required');
+  }
+  if (taskIds.some((id) => !Number.isInteger(id) || id <= 0)) {
+    throw new Error('Invalid task ID');
+  }
+  if (taskIds.length > MAX_BULK_TASKS) {
+    throw new Error(`Cannot update more than ${MAX_BULK_TASKS} tasks at once`);
+  }
+  if (!BULK_TASK_ACTIONS.includes(action)) {
+    throw new Error('Invalid bulk action');
+  }
+
+  // 2. Archiving is a manager operation, checked once for the whole batch
+  if (action === 'archive') {
+    const roles = await getRolesForUserClient(supabase, userId);
+    if (!roles.includes('manager')) {
+      throw new Error('Only managers can archive tasks');
+    }
+  }
+
+  // 3. Apply to each task
+  const results: BulkTaskResult[] = [];
+
+  for (const taskId of Array.from(new Set(taskIds))) {
+    try {
+      const hasPermission = await checkTaskPermission(taskId, userId);
+      if (!hasPermission) {
+        throw new Error('You do not have permission to update this task');
+      }
+
+      switch (action) {
+        case 'updateStatus':
+          await updateStatus(taskId, updates.status as Task['status'], userId, { force: updates.force === true });
+          break;
+        case 'updatePriority':
+          await updatePriority(taskId, updates.priority_bucket as number, userId);
+          break;
+        case 'addTag':
+          await addTag(taskId, updates.tag_name as string, userId);
+          break;
+        case 'addAssignee':
+          await addAssignee(taskId, updates.assignee_id as string, userId);
+          break;
+        case 'updateDeadline':
+          await updateDeadline(taskId, updates.deadline ?? null, userId);
+          break;
+        case 'archive':
+          await archiveTaskService(supabase, userId, taskId, true);
+          break;
+      }
+
+      results.push({ taskId, success: true });
+    } catch (err) {
+      results.push({ taskId, success: false, error: err instanceof Error ? err.message : 'Failed to update task' });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,154 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getScheduleTasks } from '@/lib/db/tasks';
+import { getRolesForUserClient } from '@/lib/db/roles';
+import {
+  getDepartmentColleagueIdsDB,
+  getWorkloadUsersDB,
+  updateWeeklyCapacityDB,
+  type WorkloadUserRow,
+} from '@/lib/db/workload';
+import {
+  computeWorkload,
+  DEFAULT_WEEKLY_CAPACITY,
+  MAX_WEEKLY_CAPACITY,
+  suggestReassignments,
+  type WorkloadUser,
+} from '@/lib/utils/workload';
+import type { WorkloadOverview } from '@/lib/types/workload';
+
+export type { ReassignmentSuggestion, UserWorkload, WorkloadOverview } from '@/lib/types/workload';
+
+export const MAX_WORKLOAD_DAYS = 92;
+
+const toWorkloadUser = (row: WorkloadUserRow): WorkloadUser => ({
+  id: row.id,
+  name: `${row.first_name} ${row.last_name}`,
+  weeklyCapacity: row.weekly_capacity ?? DEFAULT_WEEKLY_CAPACITY,
+});
+
+// ============ WORKLOAD ============
+
+/**
+ * Per-assignee, per-day load for the schedule page.
+ *
+ * Load always counts every visible task of a user, whatever the project filter,
+ * since time spent on other projects still uses up capacity. The filters only pick
+ * which users are shown: the selected staff, or the assignees of tasks in the
+ * selected projects (all assignees when no project is selected).
+ *
+ * Managers also get reassignment suggestions towards colleagues in the same
+ * department hierarchy (get_department_colleagues).
+ */
+export async function getWorkloadService(
+  supabase: SupabaseClient,
+  userId: string,
+  filters: { startDate: Date; endDate: Date; projectIds?: number[]; staffIds?: string[] }
+): Promise<WorkloadOverview> {
+  const { startDate, endDate, projectIds = [], staffIds = [] } = filters;
+
+  // 1. Validate
+  if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+    throw new Error('A valid date range is required');
+  }
+  if (endDate < startDate) {
+    throw new Error('End date must be after start date');
+  }
+  if (endDate.getTime() - startDate.getTime() > MAX_WORKLOAD_DAYS * 24 * 60 * 60 * 1000) {
+    throw new Error(`Date range cannot exceed ${MAX_WORKLOAD_DAYS} days`);
+  }
+
+  // 2. Tasks and the users to show
+  const [tasks, roles] = await Promise.all([
+    getScheduleTasks(startDate, endDate),
+    getRolesForUserClient(supabase, userId),
+  ]);
+
+  const rowIds =
+    staffIds.length > 0
+      ? staffIds
+      : Array.from(
+          new Set(
+            tasks
+              .filter((task) => projectIds.length === 0 || projectIds.includes(task.project_id))
+              .flatMap((task) => task.assignees.map((a) => a.id))
+          )
+        );
+
+  const rowUsers = await getWorkloadUsersDB(rowIds);
+  const rowUsersById = new Map(rowUsers.map((row) => [row.id, row]));
+  const shownUsers = rowIds
+    .map((id) => rowUsersById.get(id))
+    .filter((row): row is WorkloadUserRow => !!row)
+    .map(toWorkloadUser)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const workloads = computeWorkload(tasks, shownUsers, startDate, endDate);
+
+  const canSuggest = roles.includes('manager');
+  const overloaded = workloads.filter((w) => w.overCapacityDays > 0);
+  if (!canSuggest || overloaded.length === 0) {
+    return { users: workloads, suggestions: [], canSuggest };
+  }
+
+  // 3. Colleagues of each overloaded user, looked up once per department
+  const colleaguesByDepartment = new Map<number | null, Promise<string[]>>();
+  const colleagues = new Map<string, string[]>();
+  for (const w of overloaded) {
+    const departmentId = rowUsersById.get(w.userId)?.department_id ?? null;
+    if (!colleaguesByDepartment.has(departmentId)) {
+      colleaguesByDepartment.set(departmentId, getDepartmentColleagueIdsDB(w.userId));
+    }
+    colleagues.set(w.userId, await colleaguesByDepartment.get(departmentId)!);
+  }
+
+  // 4. Workload of colleagues who are not shown, then suggestions
+  const extraIds = Array.from(new Set(Array.from(colleagues.values()).flat())).filter(
+    (id) => !rowUsersById.has(id)
+  );
+  const extraUsers = (await getWorkloadUsersDB(extraIds)).map(toWorkloadUser);
+  const pool = [...workloads, ...computeWorkload(tasks, extraUsers, startDate, endDate)];
+
+  return {
+    users: workloads,
+    suggestions: suggestReassignments(pool, tasks, colleagues, startDate),
+    canSuggest,
+  };
+}
+
+// ============ CAPACITY ============
+
+/**
+ * Sets the weekly capacity (in points) of the current user or, for managers, of a
+ * colleague in their department hierarchy.
+ */
+export async function updateWeeklyCapacityService(
+  supabase: SupabaseClient,
+  userId: string,
+  targetUserId: string,
+  weeklyCapacity: number
+): Promise<number> {
+  // 1. Validate
+  if (!Number.isInteger(weeklyCapacity) || weeklyCapacity < 1 || weeklyCapacity > MAX_WEEKLY_CAPACITY) {
+    throw new Error(`Weekly capacity must be a whole number between 1 and ${MAX_WEEKLY_CAPACITY}`);
+  }
+
+  // 2. Permission
+  if (targetUserId !== userId) {
+    const roles = await getRolesForUserClient(supabase, userId);
+    if (!roles.includes('manager')) {
+      throw new Error("Only managers can change another user's capacity");
+    }
+    const colleagueIds = await getDepartmentColleagueIdsDB(userId);
+    if (!colleagueIds.includes(targetUserId)) {
+      throw new Error('You can only change capacity for users in your department');
+    }
+  }
+
+  // 3. Update
+  const updated = await updateWeeklyCapacityDB(targetUserId, weeklyCapacity);
+  if (!updated) {
+    throw new Error('User not found');
+  }
+
+  return weeklyCapacity;
+}
@@ -35,6 +35,7 @@ export async function updateSession(request: NextRequest) {
   const isPublicRoute = request.nextUrl.pathname === '/'
   const isSeedRoute = request.nextUrl.pathname === '/seed'
   const isReportRoute = request.nextUrl.pathname.startsWith('/report')
+  const isAdminRoute = request.nextUrl.pathname.startsWith('/admin')
 
   // Protect /seed route - allow only in local development or with valid secret token
   if (isSeedRoute) {
@@ -114,8 +115,8 @@ export async function updateSession(request: NextRequest) {
     }
   }
 
-  // Check admin role for /report routes
-  if (user && isReportRoute) {
+  // Check admin role for /report and /admin routes
+  if (user && (isReportRoute || isAdminRoute)) {
     const userId = user.sub as string
     
     // Fetch user roles
@@ -0,0 +1,48 @@
+/**
+ * Admin console type definitions.
+ *
+ * Safe to import in both Client and Server Components.
+ */
+
+export const USER_ROLES = ['staff', 'manager', 'admin'] as const;
+
+export type UserRole = (typeof USER_ROLES)[number];
+
+export type AdminDepartment = {
+  id: number;
+  name: string;
+  parent_department_id: number | null;
+  member_count: number;
+};
+
+export type AdminUser = {
+  id: string;
+  email: string | null;
+  first_name: string;
+  last_name: string;
+  department_id: number;
+  is_active: boolean;
+  roles: UserRole[];
+};
+
+export type AuditAction =
+  | 'department.create'
+  | 'department.update'
+  | 'department.delete'
+  | 'user.create'
+  | 'user.deactivate'
+  | 'user.reactivate'
+  | 'user.move'
+  | 'role.grant'
+  | 'role.revoke';
+
+export type AuditLogEntry = {
+  id: number;
+  actor_id: string | null;
+  actor_name: string;
+  action: AuditAction;
+  target_type: 'department' | 'user';
+  target_id: string;
+  details: Record<string, unknown>;
+  created_at: string;
+};
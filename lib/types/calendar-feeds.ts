@@ -0,0 +1,31 @@
+/**
+ * Calendar feed (iCalendar subscription) type definitions.
+ *
+ * Safe to import in both Client and Server Components.
+ */
+
+export type CalendarFeedToken = {
+  id: number;
+  name: string;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+};
+
+export type CalendarFeedFilters = {
+  projectIds: number[];
+  tags: string[];
+};
+
+/**
+ * Builds the subscription path for a feed token, with optional project/tag filters
+ * encoded as query parameters (e.g. /api/calendar/abc.ics?project=1,2&tag=urgent).
+ */
+export function buildCalendarFeedPath(token: string, filters?: Partial<CalendarFeedFilters>): string {
+  const params = new URLSearchParams();
+  if (filters?.projectIds?.length) params.set('project', filters.projectIds.join(','));
+  if (filters?.tags?.length) params.set('tag', filters.tags.join(','));
+
+  const query = params.toString();
+  return `/api/calendar/${token}.ics${query ? `?${query}` : ''}`;
+}
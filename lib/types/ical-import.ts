@@ -0,0 +1,29 @@
+/**
+ * iCalendar import type definitions.
+ *
+ * Safe to import in both Client and Server Components.
+ */
+
+export type ICalImportAction = 'create' | 'update' | 'skip' | 'error';
+
+export interface ICalImportResult {
+  index: number; // Position of the event/todo in the file
+  uid: string | null;
+  title: string | null;
+  action: ICalImportAction;
+  taskId?: number; // Existing task (update) or created task
+  deadline?: string;
+  tags?: string[];
+  recurrence_rule?: string | null;
+  warnings: string[];
+  error?: string;
+}
+
+export interface ICalImportSummary {
+  dryRun: boolean;
+  created: number;
+  updated: number;
+  skipped: number; // UID already used by a task the user cannot see
+  failed: number;
+  results: ICalImportResult[];
+}
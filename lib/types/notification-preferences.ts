@@ -0,0 +1,86 @@
+/**
+ * Notification preference type definitions.
+ *
+ * Safe to import in both Client and Server Components.
+ */
+
+export type NotificationChannel = 'in_app' | 'email';
+
+/**
+ * Event types users can opt out of, with the channels each is delivered on.
+ * In-app events are gated by the notifications insert trigger; email events by
+ * the edge functions.
+ */
+export const NOTIFICATION_EVENTS = [
+  {
+    type: 'assignment',
+    label: 'Assignments',
+    description: 'You or a co-assignee are added to or removed from a task',
+    channels: ['in_app'],
+  },
+  {
+    type: 'task_update',
+    label: 'Task changes',
+    description: 'Title, status, priority, deadline and other fields change',
+    channels: ['in_app'],
+  },
+  {
+    type: 'comment',
+    label: 'Comments',
+    description: 'Comments are added to or removed from your tasks',
+    channels: ['in_app'],
+  },
+  {
+    type: 'mention',
+    label: 'Mentions',
+    description: 'Someone @mentions you in a comment on a task you can see',
+    channels: ['in_app'],
+  },
+  {
+    type: 'tag',
+    label: 'Tags',
+    description: 'Tags are added to or removed from your tasks',
+    channels: ['in_app'],
+  },
+  {
+    type: 'attachment',
+    label: 'Attachments',
+    description: 'Files are attached to or removed from your tasks',
+    channels: ['in_app'],
+  },
+  {
+    type: 'subtask',
+    label: 'Subtasks',
+    description: 'Subtasks are created under your tasks',
+    channels: ['in_app'],
+  },
+  {
+    type: 'deadline_reminder',
+    label: 'Deadline reminders',
+    description: 'Your tasks are due tomorrow, due today or overdue',
+    channels: ['email'],
+  },
+] as const satisfies readonly {
+  type: string;
+  label: string;
+  description: string;
+  channels: readonly NotificationChannel[];
+}[];
+
+export type NotificationEventType = (typeof NOTIFICATION_EVENTS)[number]['type'];
+
+export const DIGEST_FREQUENCIES = ['off', 'daily', 'weekly'] as const;
+
+export type DigestFrequency = (typeof DIGEST_FREQUENCIES)[number];
+
+export type ChannelPreferences = { in_app: boolean; email: boolean };
+
+/**
+ * A user's effective preferences, with defaults filled in for anything they
+ * have not changed.
+ */
+export type NotificationPreferences = {
+  events: Record<NotificationEventType, ChannelPreferences>;
+  quiet_hours: { start: string; end: string } | null; // HH:mm, Singapore time
+  digest_frequency: DigestFrequency;
+};
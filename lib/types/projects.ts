@@ -0,0 +1,34 @@
+/**
+ * Project management type definitions.
+ *
+ * Safe to import in both Client and Server Components.
+ */
+
+export type ProjectDepartment = { id: number; name: string };
+
+export type ManagedProject = {
+  id: number;
+  name: string;
+  is_archived: boolean;
+  created_at: string;
+  updated_at: string;
+  departments: ProjectDepartment[];
+  open_task_count: number; // Non-archived tasks that are not completed
+};
+
+/**
+ * Someone assigned to at least one non-archived task in the project.
+ */
+export type ProjectMember = {
+  id: string;
+  name: string;
+  open_task_count: number;
+  task_count: number;
+};
+
+export type ProjectDetails = ManagedProject & {
+  members: ProjectMember[];
+  task_count: number;
+  /** Departments the current user may link or unlink */
+  linkable_departments: ProjectDepartment[];
+};
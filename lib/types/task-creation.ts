@@ -41,7 +41,9 @@ export interface CreateTaskPayload {
   notes?: string;
   recurrence_interval?: number; // Days between recurrences
   recurrence_date?: string; // Start date for recurrence
+  recurrence_rule?: string; // RRULE value (see lib/utils/rrule.ts)
   tags?: string[]; // Tag names
+  ical_uid?: string; // UID of the iCalendar event/todo the task is imported from
 }
 
 export interface CreateTaskResponse {
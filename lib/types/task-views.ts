@@ -0,0 +1,33 @@
+/**
+ * Saved task list view type definitions.
+ *
+ * Safe to import in both Client and Server Components.
+ */
+
+export type TaskListSortKey = 'title' | 'status' | 'priority' | 'deadline' | 'assignees' | 'project.name';
+
+/**
+ * Everything a task list view remembers: filters, sort, visible columns and
+ * whether completed tasks are shown. Serialised as a URL query string.
+ */
+export type TaskListViewState = {
+  projects: number[];
+  statuses: string[];
+  tags: string[];
+  sort: { key: TaskListSortKey; direction: 'asc' | 'desc' } | null;
+  columns: string[];
+  showCompleted: boolean;
+};
+
+export type SavedTaskView = {
+  id: number;
+  user_id: string;
+  name: string;
+  query: string; // encoded TaskListViewState, without the leading "?"
+  shared_department_id: number | null;
+  created_at: string;
+  updated_at: string;
+  owner_name: string;
+  is_owner: boolean;
+  is_default: boolean;
+};
@@ -5,6 +5,8 @@
  * Safe to import in both Client and Server Components.
  */
 
+import { getNextRecurrence } from '@/lib/utils/rrule';
+
 export type RawTask = {
   id: number;
   title: string;
@@ -17,6 +19,7 @@ export type RawTask = {
   parent_task_id: number | null;
   recurrence_interval: number;
   recurrence_date: string | null;
+  recurrence_rule?: string | null;
   creator_id: string;
   task_assignments: { assignee_id: string }[];
   tags: { tags: { name: string } }[];
@@ -36,6 +39,36 @@ export type RawAttachment = {
   task_id: number;
 };
 
+// One version of an attachment. Metadata columns are null for attachments
+// uploaded before they were recorded.
+export type TaskAttachment = {
+  id: number;
+  storage_path: string;
+  file_name: string | null;
+  size_bytes: number | null;
+  content_type: string | null; // sniffed from the file contents
+  uploaded_at: string;
+  document_id: number; // id of the document's first version
+  version: number;
+  version_count?: number; // set on the current version listed with a task
+};
+
+export type AttachmentVersion = TaskAttachment & {
+  is_current: boolean;
+  uploaded_by: string | null;
+  uploader: { first_name: string; last_name: string } | null;
+};
+
+// A validated file ready to be stored
+export type AttachmentUpload = {
+  file: File;
+  file_name: string;
+  size_bytes: number;
+  content_type: string;
+  sha256: string;
+  document_id?: number; // store as a new version of this document
+};
+
 export type RawAssignee = {
   id: string;
   first_name: string;
@@ -47,6 +80,7 @@ export type RawComment = {
   content: string;
   created_at: string;
   user_id: string;
+  mentioned_user_ids?: string[];
 };
 
 export type Task = {
@@ -59,6 +93,7 @@ export type Task = {
   notes: string | null;
   recurrence_interval: number;
   recurrence_date: string | null;
+  recurrence_rule?: string | null; // RRULE value, takes precedence over recurrence_interval
   project: { id: number; name: string };
   creator: { creator_id: string; user_info: { first_name: string; last_name: string } };
   subtasks: { id: number; title: string; status: string; deadline: string | null }[];
@@ -74,13 +109,101 @@ export type TaskComment = {
   created_at: string;
   user_id: string;
   user_info: RawAssignee;
+  // Mentioned users whose names are visible to the viewer
+  mentions: RawAssignee[];
 };
 
 export type DetailedTask = Omit<Task, 'attachments'> & {
-  attachments: { id: number; storage_path: string; public_url?: string }[];
+  attachments: TaskAttachment[];
   comments: TaskComment[];
 };
 
+export type TaskActivityField =
+  | 'title'
+  | 'description'
+  | 'status'
+  | 'priority'
+  | 'deadline'
+  | 'notes'
+  | 'recurrence'
+  | 'tags'
+  | 'assignees'
+  | 'attachments'
+  | 'archived'
+  | 'dependencies';
+
+export type RawTaskActivity = {
+  id: number;
+  task_id: number;
+  actor_id: string | null;
+  field: TaskActivityField;
+  old_value: string | null;
+  new_value: string | null;
+  created_at: string;
+};
+
+export type TaskActivity = RawTaskActivity & {
+  actor: { first_name: string; last_name: string } | null;
+};
+
+export type RawTimeEntry = {
+  id: number;
+  task_id: number;
+  user_id: string;
+  started_at: string;
+  ended_at: string | null;
+  note: string | null;
+};
+
+export type TimeEntry = RawTimeEntry & {
+  user_info: { first_name: string; last_name: string } | null;
+  duration: number; // seconds, 0 while running
+};
+
+export type TaskTimeTracking = {
+  logged_time: number; // seconds, derived from finished entries
+  entries: TimeEntry[];
+  running_entry: TimeEntry | null; // current user's running timer on this task
+};
+
+export type DependencyTask = {
+  id: number;
+  title: string;
+  status: string;
+  deadline: string | null;
+};
+
+export type TaskDependencies = {
+  blockers: DependencyTask[]; // must be completed before this task starts
+  dependents: DependencyTask[]; // waiting for this task
+  candidates: DependencyTask[]; // sibling tasks that can still be added as blockers
+};
+
+export type BulkTaskAction =
+  | 'updateStatus'
+  | 'updatePriority'
+  | 'addTag'
+  | 'addAssignee'
+  | 'updateDeadline'
+  | 'archive';
+
+export type BulkTaskResult = {
+  taskId: number;
+  success: boolean;
+  error?: string;
+};
+
+/**
+ * Result of moving a task's deadline, optionally with its subtasks.
+ * Subtasks the user may not update are left unchanged and listed as skipped.
+ */
+export type RescheduleTaskResult = {
+  id: number;
+  deadline: string | null;
+  shiftedSubtasks: { id: number; deadline: string | null }[];
+  skippedSubtaskIds: number[];
+};
+
 /**
  * Calculates the next due date for recurring tasks based on the recurrence interval.
  *
@@ -96,6 +219,10 @@ export type DetailedTask = Omit<Task, 'attachments'> & {
  * Implementation follows the requirement: "the due date is based on the calculation from the
  * previous due date"
  *
+ * When the task carries a recurrence_rule (RRULE), the rule is evaluated instead and the
+ * returned task carries the rule for the next occurrence (COUNT decremented). Once the rule
+ * has ended (COUNT exhausted or UNTIL passed) the original task is returned unchanged.
+ *
  * @param task - The task to calculate the next due date for
  * @returns A new Task object with updated deadline and isOverdue status if recurring,
  *          or the original task if not recurring
@@ -119,12 +246,35 @@ export type DetailedTask = Omit<Task, 'attachments'> & {
  * console.log(updated.deadline); // '2025-02-28T00:00:00.000Z'
  *
  * @example
+ * // Rule: every 2 weeks on Mon/Thu. Task due Thu Jan 9 → next due is Mon Jan 20
+ * const ruleTask = { ...task, recurrence_rule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH', deadline: '2025-01-09' };
+ * const updated = calculateNextDueDate(ruleTask);
+ *
+ * @example
  * // Non-recurring task remains unchanged
  * const normalTask = { ...task, recurrence_interval: 0 };
  * const result = calculateNextDueDate(normalTask);
  * // result === normalTask
  */
 export function calculateNextDueDate(task: Task): Task {
+  if (task.recurrence_rule && task.deadline) {
+    let next: ReturnType<typeof getNextRecurrence>;
+    try {
+      next = getNextRecurrence(task.recurrence_rule, new Date(task.deadline));
+    } catch {
+      // An unparseable rule never produces further occurrences
+      return task;
+    }
+    if (!next) return task;
+
+    return {
+      ...task,
+      deadline: next.deadline.toISOString(),
+      recurrence_rule: next.rule,
+      isOverdue: next.deadline < new Date() && task.status !== 'Completed',
+    };
+  }
+
   // For recurring tasks, calculate next due date based on previous deadline + interval
   // This follows the requirement: "the due date is based on the calculation from the previous due date"
   // Example: Task due Sep 29, completed Oct 1, interval 1 day → next due is Sep 30
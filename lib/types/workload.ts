@@ -0,0 +1,48 @@
+/**
+ * Workload and capacity type definitions.
+ *
+ * Safe to import in both Client and Server Components.
+ */
+
+/**
+ * Load of one user on one day of the requested range. Load and capacity are in
+ * points: a task is worth its priority_bucket (1-10), spread over its working days.
+ */
+export type WorkloadDay = {
+  /** ISO timestamp of the start of the day slice */
+  date: string;
+  load: number;
+  capacity: number;
+  overCapacity: boolean;
+  taskIds: number[];
+};
+
+export type UserWorkload = {
+  userId: string;
+  name: string;
+  weeklyCapacity: number;
+  days: WorkloadDay[];
+  overCapacityDays: number;
+};
+
+/**
+ * A task that could move from an overloaded user to a department colleague who
+ * has room for it on every day it covers.
+ */
+export type ReassignmentSuggestion = {
+  taskId: number;
+  taskTitle: string;
+  fromUserId: string;
+  fromUserName: string;
+  toUserId: string;
+  toUserName: string;
+  /** Over-capacity days of the current assignee this task contributes to */
+  relievedDates: string[];
+};
+
+export type WorkloadOverview = {
+  users: UserWorkload[];
+  /** Only computed for managers */
+  suggestions: ReassignmentSuggestion[];
+  canSuggest: boolean;
+};
@@ -0,0 +1,222 @@
+/**
+ * Task attachment helpers. Pure functions only, safe to import in both Client
+ * and Server Components.
+ *
+ * The task-attachments bucket is private: files are only reachable through
+ * GET /api/tasks/[id]/attachments/[attachmentId], which checks the caller can
+ * view the task and redirects to a short-lived signed URL.
+ */
+
+// Prefix added to stored file names so object paths cannot be guessed:
+// "{uuid}-" for new uploads, "{timestamp}-" or "{timestamp}-{i}-" for older ones
+const STORED_NAME_PREFIX =
+  /^(?:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|\d{13}(?:-\d+)?)-/i;
+
+/**
+ * Storage path for a new upload: tasks/{taskId}/{uuid}-{fileName}
+ */
+export function buildAttachmentStoragePath(taskId: number, fileName: string): string {
+  return `tasks/${taskId}/${crypto.randomUUID()}-${fileName}`;
+}
+
+/**
+ * The name the file was uploaded with, e.g. "report.pdf" for
+ * "tasks/42/0b5c…-report.pdf".
+ */
+export function attachmentFileName(storagePath: string): string {
+  const stored = storagePath.split('/').pop() || storagePath;
+  return stored.replace(STORED_NAME_PREFIX, '') || stored;
+}
+
+/**
+ * App URL that serves the attachment (redirects to a signed storage URL).
+ */
+export function attachmentDownloadUrl(taskId: number, attachmentId: number): string {
+  return `/api/tasks/${taskId}/attachments/${attachmentId}`;
+}
+
+// ============ CONTENT SNIFFING ============
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]; // legacy .doc/.xls
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04]; // .docx/.xlsx
+
+// How much of a file is inspected for zip entry names and for text
+const SNIFF_WINDOW = 64 * 1024;
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+function startsWithAscii(bytes: Uint8Array, text: string, offset = 0): boolean {
+  return startsWith(bytes, Array.from(text, (c) => c.charCodeAt(0)), offset);
+}
+
+function extensionOf(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot + 1).toLowerCase();
+}
+
+// Entry names are stored uncompressed in the local headers (start of the file)
+// and the central directory (end of the file)
+function zipEntryNames(bytes: Uint8Array): string {
+  const decoder = new TextDecoder('latin1');
+  const head = decoder.decode(bytes.subarray(0, SNIFF_WINDOW));
+  const tail = decoder.decode(bytes.subarray(Math.max(bytes.length - SNIFF_WINDOW, 0)));
+  return head + tail;
+}
+
+function looksLikeText(bytes: Uint8Array): boolean {
+  const sample = bytes.subarray(0, SNIFF_WINDOW);
+  if (sample.includes(0)) return false;
+  try {
+    // stream: a multi-byte character cut off at the window edge is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Content type of a file judged from its bytes (magic numbers), not from what
+ * the browser declared. The file name and declared type only pick between
+ * formats that share a container (.doc vs .xls, .txt vs .csv).
+ *
+ * Returns null when the content matches none of the supported formats.
+ */
+export function sniffContentType(bytes: Uint8Array, fileName: string, declaredType = ''): string | null {
+  const ext = extensionOf(fileName);
+
+  if (startsWithAscii(bytes, '%PDF-')) return 'application/pdf';
+  if (startsWith(bytes, PNG_SIGNATURE)) return 'image/png';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWithAscii(bytes, 'GIF87a') || startsWithAscii(bytes, 'GIF89a')) return 'image/gif';
+  if (startsWithAscii(bytes, 'RIFF') && startsWithAscii(bytes, 'WEBP', 8)) return 'image/webp';
+
+  if (startsWith(bytes, OLE_SIGNATURE)) {
+    if (ext === 'xls' || declaredType === 'application/vnd.ms-excel') return 'application/vnd.ms-excel';
+    if (ext === 'doc' || declaredType === 'application/msword') return 'application/msword';
+    return null;
+  }
+
+  if (startsWith(bytes, ZIP_SIGNATURE)) {
+    const names = zipEntryNames(bytes);
+    if (names.includes('word/')) {
+      return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+    }
+    if (names.includes('xl/')) {
+      return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+    }
+    return null;
+  }
+
+  if (looksLikeText(bytes)) {
+    return ext === 'csv' || declaredType === 'text/csv' ? 'text/csv' : 'text/plain';
+  }
+
+  return null;
+}
+
+/**
+ * Hex SHA-256 of the file contents (Web Crypto, so it works in Node and browsers).
+ */
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes as BufferSource);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// ============ DISPLAY ============
+
+/**
+ * Content type to use for display: the stored (sniffed) type, or a guess from
+ * the extension for attachments uploaded before types were recorded.
+ */
+export function attachmentContentType(attachment: {
+  storage_path: string;
+  content_type?: string | null;
+}): string | null {
+  if (attachment.content_type) return attachment.content_type;
+
+  const byExtension: Record<string, string> = {
+    pdf: 'application/pdf',
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    txt: 'text/plain',
+    csv: 'text/csv',
+  };
+  return byExtension[extensionOf(attachment.storage_path)] ?? null;
+}
+
+export type AttachmentPreviewKind = 'image' | 'pdf' | 'csv' | 'text';
+
+export function attachmentPreviewKind(contentType: string | null): AttachmentPreviewKind | null {
+  if (!contentType) return null;
+  if (contentType.startsWith('image/')) return 'image';
+  if (contentType === 'application/pdf') return 'pdf';
+  if (contentType === 'text/csv') return 'csv';
+  if (contentType === 'text/plain') return 'text';
+  return null;
+}
+
+/**
+ * Format bytes as human-readable size
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes === 0) return '0 bytes';
+  const k = 1024;
+  const sizes = ['bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return Math.round((bytes / Math.pow(k, i)) * 10) / 10 + ' ' + sizes[i];
+}
+
+/**
+ * Parses CSV (RFC 4180 quoting) for previews, stopping after maxRows rows.
+ */
+export function parseCsv(text: string, maxRows = Infinity): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length && rows.length < maxRows; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if ((field !== '' || row.length > 0) && rows.length < maxRows) {
+    endRow();
+  }
+
+  return rows;
+}
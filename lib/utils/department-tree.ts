@@ -0,0 +1,54 @@
+/**
+ * Department hierarchy helpers for the admin console.
+ *
+ * Pure functions only, safe to import in both Client and Server Components.
+ */
+
+type DepartmentNode = { id: number; name: string; parent_department_id: number | null };
+
+/**
+ * Whether making `parentId` the parent of `departmentId` would close a loop, i.e.
+ * the new parent is the department itself or one of its descendants.
+ */
+export function wouldCreateCycle(departments: DepartmentNode[], departmentId: number, parentId: number | null): boolean {
+  if (parentId === null) return false;
+
+  const parentOf = new Map(departments.map((d) => [d.id, d.parent_department_id]));
+  const seen = new Set<number>();
+  let current: number | null | undefined = parentId;
+  while (current !== null && current !== undefined) {
+    if (current === departmentId) return true;
+    // Existing data with a loop: stop rather than spin
+    if (seen.has(current)) return true;
+    seen.add(current);
+    current = parentOf.get(current);
+  }
+  return false;
+}
+
+/**
+ * Departments in tree order (each parent followed by its children, siblings by
+ * name) with their depth. Departments whose parent is missing are shown as roots.
+ */
+export function flattenDepartmentTree<T extends DepartmentNode>(departments: T[]): (T & { depth: number })[] {
+  const ids = new Set(departments.map((d) => d.id));
+  const children = new Map<number | null, T[]>();
+  for (const d of departments) {
+    const parent = d.parent_department_id !== null && ids.has(d.parent_department_id) ? d.parent_department_id : null;
+    children.set(parent, [...(children.get(parent) ?? []), d]);
+  }
+
+  const result: (T & { depth: number })[] = [];
+  const visited = new Set<number>();
+  const visit = (parent: number | null, depth: number) => {
+    const list = [...(children.get(parent) ?? [])].sort((a, b) => a.name.localeCompare(b.name));
+    for (const d of list) {
+      if (visited.has(d.id)) continue;
+      visited.add(d.id);
+      result.push({ ...d, depth });
+      visit(d.id, depth + 1);
+    }
+  };
+  visit(null, 0);
+  return result;
+}
@@ -1,5 +1,6 @@
 import type { Task } from '@/lib/services/tasks';
 import { format } from 'date-fns';
+import { normalizeRRule } from '@/lib/utils/rrule';
 
 /**
  * Escapes special characters in iCal text fields according to RFC 5545.
@@ -96,7 +97,14 @@ export function generateICalFile(tasks: Task[], calendarName = 'X-Men Tasks'): s
     let eventStartDate: Date;
     let eventEndDate: Date;
     
-    if (task.recurrence_interval > 0 && task.recurrence_date) {
+    // Tasks with a recurrence rule start on their current deadline; the rule generates the rest
+    const recurrenceRule = task.recurrence_rule ? normalizeRRule(task.recurrence_rule) : null;
+    
+    if (recurrenceRule) {
+      eventStartDate = deadline;
+      eventEndDate = new Date(deadline);
+      eventEndDate.setDate(eventEndDate.getDate() + 1);
+    } else if (task.recurrence_interval > 0 && task.recurrence_date) {
       // Recurring task: starts on recurrence_date
       eventStartDate = new Date(task.recurrence_date);
       // Event itself is 1 day (all-day event)
@@ -134,7 +142,10 @@ export function generateICalFile(tasks: Task[], calendarName = 'X-Men Tasks'): s
     lines.push(`PRIORITY:${icalPriority}`);
     
     // Add recurrence rule if task is recurring
-    if (task.recurrence_interval > 0) {
+    if (recurrenceRule) {
+      // Stored rules are emitted as-is (COUNT/UNTIL included)
+      lines.push(`RRULE:${recurrenceRule}`);
+    } else if (task.recurrence_interval > 0) {
       // Determine frequency and interval based on recurrence_interval (in days)
       let freq: string;
       let interval: number;
@@ -249,3 +260,208 @@ export function downloadICalFile(tasks: Task[], filename = 'x-men-tasks.ics'): v
   // Clean up the object URL
   URL.revokeObjectURL(url);
 }
+
+// ============ IMPORT ============
+
+/**
+ * A VEVENT or VTODO read from an iCal file. Dates are ISO timestamps.
+ */
+export interface ICalComponent {
+  type: 'VEVENT' | 'VTODO';
+  index: number; // 1-based position in the file, for error reporting
+  uid: string | null;
+  summary: string | null;
+  description: string | null;
+  start: string | null;
+  due: string | null;
+  categories: string[];
+  rrule: string | null;
+  status: string | null;
+  priority: number | null;
+  errors: string[]; // Properties that could not be read
+}
+
+/**
+ * Reverses escapeICalText.
+ */
+function unescapeICalText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
+
+/**
+ * Splits a text list (e.g. CATEGORIES) on commas that are not escaped.
+ */
+function splitICalList(value: string): string[] {
+  return value
+    .split(/(?<!\\),/)
+    .map((item) => unescapeICalText(item).trim())
+    .filter(Boolean);
+}
+
+/**
+ * Offset of a time zone from UTC (in ms) at the given instant.
+ */
+function getTimeZoneOffset(utcMillis: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(utcMillis));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - utcMillis;
+}
+
+/**
+ * Parses a DATE or DATE-TIME value into an ISO timestamp.
+ *
+ * All-day dates become 12:00 UTC so they fall on the same calendar day in (almost) every
+ * time zone. Local times use the TZID parameter when the runtime knows the zone and are
+ * read as UTC otherwise (floating times carry no zone at all).
+ */
+export function parseICalDate(value: string, tzid?: string): string | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (hour === undefined) {
+    const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), 12));
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+
+  let millis = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+  if (!utc && tzid) {
+    try {
+      millis -= getTimeZoneOffset(millis, tzid);
+    } catch {
+      // Unknown zone: keep the wall-clock time as UTC
+    }
+  }
+
+  const date = new Date(millis);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Parses the VEVENT and VTODO components of an iCal (RFC 5545) file.
+ * Nested components such as VALARM are skipped.
+ *
+ * @param content - Raw file content
+ * @returns Components in file order
+ * @throws {Error} If the content is not an iCalendar file
+ *
+ * @example
+ * const [event] = parseICalFile(await file.text());
+ * event.summary; // "Sprint review"
+ */
+export function parseICalFile(content: string): ICalComponent[] {
+  // Unfold continuation lines (CRLF followed by a space or tab)
+  const lines = content
+    .replace(/\r\n|\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim().length > 0);
+
+  if (!lines.length || lines[0].trim().toUpperCase() !== 'BEGIN:VCALENDAR') {
+    throw new Error('Invalid iCalendar file: missing BEGIN:VCALENDAR');
+  }
+
+  const components: ICalComponent[] = [];
+  const stack: string[] = [];
+  let current: ICalComponent | null = null;
+
+  for (const line of lines) {
+    const colon = line.search(/:(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+    if (colon === -1) continue;
+
+    const [name, ...params] = line.slice(0, colon).split(';');
+    const property = name.toUpperCase();
+    const value = line.slice(colon + 1);
+
+    if (property === 'BEGIN') {
+      const type = value.trim().toUpperCase();
+      stack.push(type);
+      if ((type === 'VEVENT' || type === 'VTODO') && !current) {
+        current = {
+          type,
+          index: components.length + 1,
+          uid: null,
+          summary: null,
+          description: null,
+          start: null,
+          due: null,
+          categories: [],
+          rrule: null,
+          status: null,
+          priority: null,
+          errors: [],
+        };
+      }
+      continue;
+    }
+
+    if (property === 'END') {
+      const type = stack.pop();
+      if (current && type === current.type && !stack.includes(current.type)) {
+        components.push(current);
+        current = null;
+      }
+      continue;
+    }
+
+    // Only read properties that belong directly to the event/todo
+    if (!current || stack[stack.length - 1] !== current.type) continue;
+
+    const paramMap = new Map(
+      params.map((param) => {
+        const [key, ...rest] = param.split('=');
+        return [key.toUpperCase(), rest.join('=').replace(/^"|"$/g, '')] as const;
+      })
+    );
+
+    switch (property) {
+      case 'UID':
+        current.uid = value.trim() || null;
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeICalText(value);
+        break;
+      case 'DESCRIPTION':
+        current.description = unescapeICalText(value);
+        break;
+      case 'DTSTART':
+      case 'DUE': {
+        const date = parseICalDate(value, paramMap.get('TZID'));
+        if (!date) {
+          current.errors.push(`Invalid ${property} value "${value}"`);
+        } else if (property === 'DTSTART') {
+          current.start = date;
+        } else {
+          current.due = date;
+        }
+        break;
+      }
+      case 'CATEGORIES':
+        current.categories.push(...splitICalList(value));
+        break;
+      case 'RRULE':
+        current.rrule = value.trim();
+        break;
+      case 'STATUS':
+        current.status = value.trim().toUpperCase();
+        break;
+      case 'PRIORITY': {
+        const priority = Number(value);
+        current.priority = Number.isInteger(priority) ? priority : null;
+        break;
+      }
+    }
+  }
+
+  return components;
+}
@@ -0,0 +1,75 @@
+/**
+ * Markdown helpers for task descriptions, notes and comments (GitHub-flavoured
+ * Markdown, rendered by components/tasks/markdown-content.tsx).
+ *
+ * Pure functions only, safe to import in both Client and Server Components.
+ */
+
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})/;
+const INLINE_CODE = /(?<!`)(`+)(?!`)[\s\S]*?(?<!`)\1(?!`)/g;
+
+function mapOutsideInlineCode(text: string, transform: (prose: string) => string): string {
+  let result = '';
+  let last = 0;
+  for (const match of text.matchAll(INLINE_CODE)) {
+    const index = match.index ?? 0;
+    result += transform(text.slice(last, index)) + match[0];
+    last = index + match[0].length;
+  }
+  return result + transform(text.slice(last));
+}
+
+/**
+ * Applies `transform` to the prose parts of a Markdown document, leaving fenced
+ * code blocks and inline code spans untouched.
+ */
+export function mapOutsideCode(markdown: string, transform: (prose: string) => string): string {
+  const out: string[] = [];
+  let prose: string[] = [];
+  let fence: string | null = null;
+
+  const flush = () => {
+    if (prose.length > 0) {
+      out.push(mapOutsideInlineCode(prose.join('\n'), transform));
+      prose = [];
+    }
+  };
+
+  for (const line of markdown.split('\n')) {
+    if (fence) {
+      out.push(line);
+      const close = FENCE_OPEN.exec(line);
+      if (close && close[1][0] === fence[0] && close[1].length >= fence.length && !line.slice(close[0].length).trim()) {
+        fence = null;
+      }
+      continue;
+    }
+
+    const open = FENCE_OPEN.exec(line);
+    if (open) {
+      flush();
+      fence = open[1];
+      out.push(line);
+      continue;
+    }
+
+    prose.push(line);
+  }
+  flush();
+
+  return out.join('\n');
+}
+
+const TASK_LIST_MARKER = /^([ \t]*(?:[-*+]|\d{1,9}[.)])[ \t]+\[)[ xX](\])/;
+
+/**
+ * Checks or unchecks the task list item ("- [ ] ...") whose list item starts at
+ * `offset` in the source. Returns the Markdown unchanged if there is none.
+ */
+export function toggleTaskListItem(markdown: string, offset: number, checked: boolean): string {
+  const rest = markdown.slice(offset);
+  const match = TASK_LIST_MARKER.exec(rest);
+  if (!match) return markdown;
+
+  return markdown.slice(0, offset) + match[1] + (checked ? 'x' : ' ') + match[2] + rest.slice(match[0].length);
+}
@@ -0,0 +1,130 @@
+/**
+ * @mention helpers for task comments.
+ *
+ * Comments keep mentions as readable "@First Last" text; the mentioned user ids
+ * are stored next to the content. Pure functions only, safe to import in both
+ * Client and Server Components.
+ */
+
+import { mapOutsideCode } from './markdown';
+
+export type MentionableUser = { id: string; first_name: string; last_name: string };
+
+// Link target used to mark mentions when comments are rendered as Markdown
+export const MENTION_URL_PREFIX = 'mention:';
+
+// Longest "@First Last" query the autocomplete keeps open for
+const MAX_QUERY_LENGTH = 50;
+
+export function mentionLabel(user: MentionableUser): string {
+  return `@${user.first_name} ${user.last_name}`;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// "@Ann Lee" must not match inside "@Ann Leeson"
+function mentionPattern(user: MentionableUser): RegExp {
+  return new RegExp(`${escapeRegExp(mentionLabel(user))}(?![\\p{L}\\p{N}_])`, 'u');
+}
+
+export function isMentioned(content: string, user: MentionableUser): boolean {
+  return mentionPattern(user).test(content);
+}
+
+/**
+ * The in-progress mention at the caret, if any: an "@" at the start of the text
+ * or after whitespace, followed by what has been typed so far on the same line.
+ */
+export function getMentionQuery(text: string, caret: number): { start: number; query: string } | null {
+  const before = text.slice(0, caret);
+  const start = before.lastIndexOf('@');
+  if (start === -1) return null;
+  if (start > 0 && !/\s/.test(before[start - 1])) return null;
+
+  const query = before.slice(start + 1);
+  if (query.length > MAX_QUERY_LENGTH || /[\n@]/.test(query) || /\s{2}/.test(query)) return null;
+
+  return { start, query };
+}
+
+/**
+ * Users whose name starts with the query, matching first name, last name or the
+ * full name (case-insensitive).
+ */
+export function filterMentionCandidates(
+  users: MentionableUser[],
+  query: string,
+  limit = 6
+): MentionableUser[] {
+  const q = query.trim().toLowerCase();
+  return users
+    .filter((user) => {
+      if (!q) return true;
+      const first = user.first_name.toLowerCase();
+      const last = user.last_name.toLowerCase();
+      return first.startsWith(q) || last.startsWith(q) || `${first} ${last}`.startsWith(q);
+    })
+    .slice(0, limit);
+}
+
+/**
+ * Replaces the in-progress mention (from `start` to the caret) with the user's
+ * label and a trailing space. Returns the new text and caret position.
+ */
+export function insertMention(
+  text: string,
+  start: number,
+  caret: number,
+  user: MentionableUser
+): { text: string; caret: number } {
+  const label = `${mentionLabel(user)} `;
+  return {
+    text: text.slice(0, start) + label + text.slice(caret),
+    caret: start + label.length,
+  };
+}
+
+/**
+ * Splits content into plain text and mention segments for rendering. Longer
+ * names are matched first so "@Ann Lee-Smith" wins over "@Ann Lee".
+ */
+export function splitMentions(
+  content: string,
+  users: MentionableUser[]
+): { text: string; user?: MentionableUser }[] {
+  const byLabel = new Map(users.map((user) => [mentionLabel(user), user]));
+  if (byLabel.size === 0) return [{ text: content }];
+
+  const labels = [...byLabel.keys()].sort((a, b) => b.length - a.length);
+  const pattern = new RegExp(`(${labels.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}_])`, 'gu');
+
+  const segments: { text: string; user?: MentionableUser }[] = [];
+  let last = 0;
+  for (const match of content.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > last) segments.push({ text: content.slice(last, index) });
+    segments.push({ text: match[0], user: byLabel.get(match[0]) });
+    last = index + match[0].length;
+  }
+  if (last < content.length) segments.push({ text: content.slice(last) });
+
+  return segments;
+}
+
+/**
+ * Rewrites known mentions as "[@First Last](mention:<id>)" links so the Markdown
+ * renderer can highlight them. Code blocks and spans are left as written.
+ */
+export function linkMentions(content: string, users: MentionableUser[]): string {
+  return mapOutsideCode(content, (prose) =>
+    splitMentions(prose, users)
+      .map((segment) =>
+        segment.user
+          ? `[${segment.text.replace(/[[\]\\]/g, '\\$&')}](${MENTION_URL_PREFIX}${segment.user.id})`
+          : segment.text
+      )
+      .join('')
+  );
+}
@@ -0,0 +1,522 @@
+/**
+ * Recurrence rules (a subset of RFC 5545 RRULE).
+ *
+ * Pure functions only, safe to import in both Client and Server Components.
+ *
+ * Supported parts:
+ * - FREQ: DAILY, WEEKLY, MONTHLY, YEARLY
+ * - INTERVAL
+ * - BYDAY: plain weekdays (MO,TH) for DAILY/WEEKLY/MONTHLY, ordinal weekdays (-1FR, 2MO) for MONTHLY
+ * - BYMONTHDAY (MONTHLY only, negative values count from the end of the month)
+ * - BYSETPOS (MONTHLY only, picks from the days produced by BYDAY/BYMONTHDAY)
+ * - COUNT or UNTIL (date only)
+ *
+ * COUNT is the number of occurrences left, including the current one. Every time
+ * a task advances to its next occurrence the COUNT carried over is decremented.
+ */
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type RRuleWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export type RRuleByDay = {
+  weekday: RRuleWeekday;
+  ordinal?: number; // e.g. -1 = last, 2 = second (MONTHLY only)
+};
+
+export type RecurrenceRule = {
+  freq: RRuleFrequency;
+  interval: number;
+  byDay?: RRuleByDay[];
+  byMonthDay?: number[];
+  bySetPos?: number[];
+  count?: number;
+  until?: string; // yyyy-MM-dd, inclusive
+};
+
+export const RRULE_WEEKDAYS: RRuleWeekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+const FREQUENCIES: RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+// JavaScript Date#getDay() index for each weekday
+const WEEKDAY_INDEX: Record<RRuleWeekday, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+
+const WEEKDAY_LABELS: Record<RRuleWeekday, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+const FREQUENCY_UNITS: Record<RRuleFrequency, string> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month',
+  YEARLY: 'year',
+};
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Upper bound on periods scanned when searching for the next occurrence
+const MAX_ITERATIONS = 1000;
+
+export const RECURRENCE_PRESETS: { id: string; label: string; rule: string }[] = [
+  { id: 'daily', label: 'Daily', rule: 'FREQ=DAILY' },
+  { id: 'weekdays', label: 'Every weekday', rule: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR' },
+  { id: 'weekly', label: 'Weekly', rule: 'FREQ=WEEKLY' },
+  { id: 'biweekly', label: 'Every 2 weeks', rule: 'FREQ=WEEKLY;INTERVAL=2' },
+  { id: 'monthly', label: 'Monthly', rule: 'FREQ=MONTHLY' },
+  {
+    id: 'last-business-day',
+    label: 'Last business day of the month',
+    rule: 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1',
+  },
+  { id: 'quarterly', label: 'Quarterly', rule: 'FREQ=MONTHLY;INTERVAL=3' },
+  { id: 'yearly', label: 'Yearly', rule: 'FREQ=YEARLY' },
+];
+
+function parseInteger(part: string, value: string): number {
+  if (!/^[+-]?\d+$/.test(value)) {
+    throw new Error(`Invalid RRULE: ${part} must be an integer`);
+  }
+  return Number.parseInt(value, 10);
+}
+
+function parseIntegerList(part: string, value: string, min: number, max: number): number[] {
+  return value.split(',').map((item) => {
+    const n = parseInteger(part, item);
+    if (n === 0 || Math.abs(n) < min || Math.abs(n) > max) {
+      throw new Error(`Invalid RRULE: ${part} value ${item} is out of range`);
+    }
+    return n;
+  });
+}
+
+function parseByDay(value: string): RRuleByDay[] {
+  return value.split(',').map((item) => {
+    const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(item);
+    if (!match) {
+      throw new Error(`Invalid RRULE: unknown BYDAY value ${item}`);
+    }
+    if (match[1] === undefined) return { weekday: match[2] as RRuleWeekday };
+
+    const ordinal = Number.parseInt(match[1], 10);
+    if (ordinal === 0 || Math.abs(ordinal) > 5) {
+      throw new Error(`Invalid RRULE: BYDAY value ${item} is out of range`);
+    }
+    return { weekday: match[2] as RRuleWeekday, ordinal };
+  });
+}
+
+function parseUntil(value: string): string {
+  // Accepts DATE (20261231) and UTC DATE-TIME (20261231T235959Z) forms
+  const match = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+  if (!match) {
+    throw new Error('Invalid RRULE: UNTIL must be a date (YYYYMMDD)');
+  }
+
+  const [, year, month, day] = match;
+  const date = new Date(Number(year), Number(month) - 1, Number(day));
+  if (date.getMonth() !== Number(month) - 1) {
+    throw new Error('Invalid RRULE: UNTIL must be a date (YYYYMMDD)');
+  }
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Parses an RRULE value (with or without the "RRULE:" prefix) into a RecurrenceRule.
+ * Throws an Error describing the first problem found for unsupported or invalid rules.
+ *
+ * @example
+ * parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH');
+ * // { freq: 'WEEKLY', interval: 2, byDay: [{ weekday: 'MO' }, { weekday: 'TH' }] }
+ */
+export function parseRRule(value: string): RecurrenceRule {
+  const source = value.trim().replace(/^RRULE:/i, '');
+  if (!source) {
+    throw new Error('Invalid RRULE: rule is empty');
+  }
+
+  const parts = new Map<string, string>();
+  for (const segment of source.split(';')) {
+    if (!segment) continue;
+    const [rawKey, rawValue] = segment.split('=');
+    const key = rawKey?.trim().toUpperCase();
+    const val = rawValue?.trim().toUpperCase();
+    if (!key || !val) {
+      throw new Error(`Invalid RRULE: malformed part "${segment}"`);
+    }
+    if (parts.has(key)) {
+      throw new Error(`Invalid RRULE: ${key} is specified more than once`);
+    }
+    parts.set(key, val);
+  }
+
+  const freq = parts.get('FREQ') as RRuleFrequency | undefined;
+  if (!freq) {
+    throw new Error('Invalid RRULE: FREQ is required');
+  }
+  if (!FREQUENCIES.includes(freq)) {
+    throw new Error(`Invalid RRULE: unsupported FREQ ${freq}`);
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [key, val] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parseInteger(key, val);
+        if (rule.interval < 1 || rule.interval > 999) {
+          throw new Error('Invalid RRULE: INTERVAL must be between 1 and 999');
+        }
+        break;
+      case 'BYDAY':
+        rule.byDay = parseByDay(val);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = parseIntegerList(key, val, 1, 31);
+        break;
+      case 'BYSETPOS':
+        rule.bySetPos = parseIntegerList(key, val, 1, 366);
+        break;
+      case 'COUNT':
+        rule.count = parseInteger(key, val);
+        if (rule.count < 1) {
+          throw new Error('Invalid RRULE: COUNT must be at least 1');
+        }
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(val);
+        break;
+      case 'WKST':
+        // Weeks always start on Monday here, which is also the RFC 5545 default
+        if (val !== 'MO') {
+          throw new Error('Invalid RRULE: only WKST=MO is supported');
+        }
+        break;
+      default:
+        throw new Error(`Invalid RRULE: ${key} is not supported`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    throw new Error('Invalid RRULE: COUNT and UNTIL cannot be used together');
+  }
+  if (rule.freq === 'YEARLY' && (rule.byDay || rule.byMonthDay || rule.bySetPos)) {
+    throw new Error('Invalid RRULE: YEARLY rules do not support BYDAY, BYMONTHDAY or BYSETPOS');
+  }
+  if (rule.freq !== 'MONTHLY') {
+    if (rule.byMonthDay || rule.bySetPos) {
+      throw new Error('Invalid RRULE: BYMONTHDAY and BYSETPOS require FREQ=MONTHLY');
+    }
+    if (rule.byDay?.some((d) => d.ordinal !== undefined)) {
+      throw new Error('Invalid RRULE: ordinal BYDAY values require FREQ=MONTHLY');
+    }
+  }
+  if (rule.bySetPos && !rule.byDay && !rule.byMonthDay) {
+    throw new Error('Invalid RRULE: BYSETPOS requires BYDAY or BYMONTHDAY');
+  }
+
+  return rule;
+}
+
+/**
+ * Serialises a RecurrenceRule back into its canonical RRULE value (without the "RRULE:" prefix).
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => `${d.ordinal ?? ''}${d.weekday}`).join(',')}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+
+  return parts.join(';');
+}
+
+/**
+ * Parses and re-serialises a rule, returning null for invalid input.
+ */
+export function normalizeRRule(value: string): string | null {
+  try {
+    return formatRRule(parseRRule(value));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Approximate number of days between occurrences. Stored alongside the rule in
+ * recurrence_interval so code that only checks "is this task recurring" keeps working.
+ */
+export function ruleToIntervalDays(rule: RecurrenceRule): number {
+  switch (rule.freq) {
+    case 'DAILY':
+      return rule.interval;
+    case 'WEEKLY':
+      return 7 * rule.interval;
+    case 'MONTHLY':
+      return 30 * rule.interval;
+    case 'YEARLY':
+      return 365 * rule.interval;
+  }
+}
+
+/**
+ * Builds the rule equivalent to a legacy recurrence_interval (in days).
+ * 30 days has always meant "one calendar month".
+ */
+export function intervalToRRule(intervalDays: number): RecurrenceRule | null {
+  if (intervalDays <= 0) return null;
+  if (intervalDays === 30) return { freq: 'MONTHLY', interval: 1 };
+  if (intervalDays % 7 === 0) return { freq: 'WEEKLY', interval: intervalDays / 7 };
+  return { freq: 'DAILY', interval: intervalDays };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+/** Adds whole months keeping the time of day, clamping to the last day of shorter months. */
+function addMonthsClamped(date: Date, months: number): Date {
+  const result = new Date(date);
+  const day = date.getDate();
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  result.setDate(Math.min(day, daysInMonth(result.getFullYear(), result.getMonth())));
+  return result;
+}
+
+function withDay(reference: Date, year: number, month: number, day: number): Date {
+  const result = new Date(reference);
+  result.setFullYear(year, month, day);
+  return result;
+}
+
+/** Candidate days of the month produced by BYDAY/BYMONTHDAY, before BYSETPOS. */
+function monthlyCandidateDays(rule: RecurrenceRule, year: number, month: number, anchorDay: number): number[] {
+  const lastDay = daysInMonth(year, month);
+  let days: number[];
+
+  if (rule.byMonthDay) {
+    days = rule.byMonthDay
+      .map((d) => (d > 0 ? d : lastDay + d + 1))
+      .filter((d) => d >= 1 && d <= lastDay);
+  } else if (rule.byDay) {
+    days = [];
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matching: number[] = [];
+      for (let d = 1; d <= lastDay; d++) {
+        if (new Date(year, month, d).getDay() === WEEKDAY_INDEX[weekday]) matching.push(d);
+      }
+      if (ordinal === undefined) {
+        days.push(...matching);
+      } else {
+        const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (picked !== undefined) days.push(picked);
+      }
+    }
+  } else {
+    days = [Math.min(anchorDay, lastDay)];
+  }
+
+  // BYDAY combined with BYMONTHDAY narrows the month days down to matching weekdays
+  if (rule.byMonthDay && rule.byDay) {
+    const weekdays = rule.byDay.map((d) => WEEKDAY_INDEX[d.weekday]);
+    days = days.filter((d) => weekdays.includes(new Date(year, month, d).getDay()));
+  }
+
+  days = Array.from(new Set(days)).sort((a, b) => a - b);
+
+  if (rule.bySetPos) {
+    const selected = rule.bySetPos
+      .map((pos) => (pos > 0 ? days[pos - 1] : days[days.length + pos]))
+      .filter((d): d is number => d !== undefined);
+    days = Array.from(new Set(selected)).sort((a, b) => a - b);
+  }
+
+  return days;
+}
+
+function nextMonthly(rule: RecurrenceRule, previous: Date): Date | null {
+  // Without BY* parts this is a plain "every N months" on the same day
+  if (!rule.byDay && !rule.byMonthDay) {
+    return addMonthsClamped(previous, rule.interval);
+  }
+
+  const anchorDay = previous.getDate();
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const monthStart = new Date(previous.getFullYear(), previous.getMonth() + i * rule.interval, 1);
+    const year = monthStart.getFullYear();
+    const month = monthStart.getMonth();
+
+    for (const day of monthlyCandidateDays(rule, year, month, anchorDay)) {
+      const candidate = withDay(previous, year, month, day);
+      if (candidate > previous) return candidate;
+    }
+  }
+  return null;
+}
+
+function nextWeekly(rule: RecurrenceRule, previous: Date): Date | null {
+  if (!rule.byDay) {
+    const next = new Date(previous);
+    next.setDate(next.getDate() + 7 * rule.interval);
+    return next;
+  }
+
+  // Weeks start on Monday; occurrences later in the current week come first
+  const weekdays = rule.byDay.map((d) => (WEEKDAY_INDEX[d.weekday] + 6) % 7).sort((a, b) => a - b);
+  const offset = (previous.getDay() + 6) % 7;
+  const weekStart = new Date(previous);
+  weekStart.setDate(previous.getDate() - offset);
+
+  const later = weekdays.find((d) => d > offset);
+  const next = new Date(weekStart);
+  if (later !== undefined) {
+    next.setDate(weekStart.getDate() + later);
+  } else {
+    next.setDate(weekStart.getDate() + 7 * rule.interval + weekdays[0]);
+  }
+  return next;
+}
+
+function nextDaily(rule: RecurrenceRule, previous: Date): Date | null {
+  const weekdays = rule.byDay?.map((d) => WEEKDAY_INDEX[d.weekday]);
+  const next = new Date(previous);
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    next.setDate(next.getDate() + rule.interval);
+    if (!weekdays || weekdays.includes(next.getDay())) return next;
+  }
+  return null;
+}
+
+/**
+ * Returns the first occurrence strictly after `previous`, keeping its time of day,
+ * or null once the rule has ended (UNTIL passed). COUNT is not checked here; see
+ * getNextRecurrence for the combined behaviour.
+ */
+export function getNextOccurrence(rule: RecurrenceRule, previous: Date): Date | null {
+  let next: Date | null;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      next = nextDaily(rule, previous);
+      break;
+    case 'WEEKLY':
+      next = nextWeekly(rule, previous);
+      break;
+    case 'MONTHLY':
+      next = nextMonthly(rule, previous);
+      break;
+    case 'YEARLY':
+      next = addMonthsClamped(previous, 12 * rule.interval);
+      break;
+  }
+
+  if (next && rule.until) {
+    const [year, month, day] = rule.until.split('-').map(Number);
+    if (next > new Date(year, month - 1, day, 23, 59, 59, 999)) return null;
+  }
+
+  return next;
+}
+
+/**
+ * Advances a recurrence: returns the next due date and the rule the next occurrence
+ * should carry (COUNT decremented), or null when no occurrences are left.
+ */
+export function getNextRecurrence(
+  ruleValue: string,
+  previous: Date
+): { deadline: Date; rule: string } | null {
+  const rule = parseRRule(ruleValue);
+  if (rule.count !== undefined && rule.count <= 1) return null;
+
+  const deadline = getNextOccurrence(rule, previous);
+  if (!deadline) return null;
+
+  const nextRule = rule.count !== undefined ? { ...rule, count: rule.count - 1 } : rule;
+  return { deadline, rule: formatRRule(nextRule) };
+}
+
+function ordinalLabel(n: number): string {
+  if (n === -1) return 'last';
+  if (n < 0) return `${ordinalLabel(-n)} to last`;
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+}
+
+function isWeekdaySet(byDay: RRuleByDay[]): boolean {
+  const days = byDay.map((d) => d.weekday).sort();
+  return days.join(',') === ['FR', 'MO', 'TH', 'TU', 'WE'].join(',') && byDay.every((d) => d.ordinal === undefined);
+}
+
+/**
+ * Human readable summary of a rule, e.g. "Every 2 weeks on Mon, Thu" or
+ * "Monthly on the last business day, until Dec 31, 2026".
+ */
+export function describeRRule(rule: RecurrenceRule): string {
+  const unit = FREQUENCY_UNITS[rule.freq];
+  let text: string;
+
+  if (rule.freq === 'MONTHLY' && rule.interval === 3 && !rule.byDay && !rule.byMonthDay) {
+    text = 'Quarterly';
+  } else if (rule.interval === 1) {
+    text = { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly', YEARLY: 'Yearly' }[rule.freq];
+  } else {
+    text = `Every ${rule.interval} ${unit}s`;
+  }
+
+  if (rule.freq === 'MONTHLY' && rule.byDay && rule.bySetPos && !rule.byMonthDay && isWeekdaySet(rule.byDay)) {
+    text += ` on the ${rule.bySetPos.map(ordinalLabel).join(', ')} business day`;
+  } else if (rule.byDay) {
+    if (isWeekdaySet(rule.byDay) && rule.freq !== 'MONTHLY') {
+      text += ' on weekdays';
+    } else {
+      const days = rule.byDay
+        .map((d) => (d.ordinal !== undefined ? `${ordinalLabel(d.ordinal)} ${WEEKDAY_LABELS[d.weekday]}` : WEEKDAY_LABELS[d.weekday]))
+        .join(', ');
+      text += ` on ${rule.freq === 'MONTHLY' && rule.byDay.some((d) => d.ordinal !== undefined) ? 'the ' : ''}${days}`;
+    }
+    if (rule.bySetPos && !(rule.freq === 'MONTHLY' && isWeekdaySet(rule.byDay))) {
+      text += ` (${rule.bySetPos.map(ordinalLabel).join(', ')})`;
+    }
+  } else if (rule.byMonthDay) {
+    text += ` on day ${rule.byMonthDay.map((d) => (d < 0 ? `${ordinalLabel(d)}` : `${d}`)).join(', ')}`;
+  }
+
+  if (rule.count !== undefined) {
+    text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  } else if (rule.until) {
+    const [year, month, day] = rule.until.split('-').map(Number);
+    text += `, until ${MONTH_NAMES[month - 1]} ${day}, ${year}`;
+  }
+
+  return text;
+}
+
+/**
+ * Summary for a task's recurrence: the rule when it has one, the legacy interval otherwise.
+ * Returns null for non-recurring tasks.
+ */
+export function describeTaskRecurrence(rule: string | null | undefined, intervalDays: number): string | null {
+  if (rule) {
+    try {
+      return describeRRule(parseRRule(rule));
+    } catch {
+      // Fall back to the interval for rules that no longer parse
+    }
+  }
+  if (intervalDays <= 0) return null;
+  return `Every ${intervalDays} ${intervalDays === 1 ? 'day' : 'days'}`;
+}
@@ -0,0 +1,94 @@
+/**
+ * Flow metrics from a task's status history (task_status_history).
+ *
+ * Pure functions only, safe to import in both Client and Server Components.
+ *
+ * - Lead time: created_at to completed_at
+ * - Cycle time: started_at (first time In Progress) to completed_at
+ * - Time in status: sum of the periods spent in each status, the current one
+ *   counted up to `now`
+ * - Reopens: times the task left Completed
+ */
+
+export type TaskStatusPeriod = {
+  task_id: number;
+  status: string;
+  previous_status: string | null;
+  entered_at: string;
+  left_at: string | null; // null while current
+};
+
+export type TaskFlowTask = {
+  created_at: string;
+  started_at?: string | null;
+  completed_at?: string | null;
+};
+
+export type TaskFlowMetrics = {
+  leadTimeHours: number | null; // null unless completed
+  cycleTimeHours: number | null; // null unless completed after being started
+  timeInStatusHours: Record<string, number>;
+  blockedHours: number;
+  reopenCount: number;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function hoursBetween(from: string, to: string | Date): number {
+  return Math.max(0, (new Date(to).getTime() - new Date(from).getTime()) / HOUR_MS);
+}
+
+export function getTaskFlowMetrics(
+  task: TaskFlowTask,
+  periods: TaskStatusPeriod[],
+  now: Date = new Date()
+): TaskFlowMetrics {
+  const timeInStatusHours: Record<string, number> = {};
+  let reopenCount = 0;
+
+  for (const period of periods) {
+    timeInStatusHours[period.status] =
+      (timeInStatusHours[period.status] ?? 0) + hoursBetween(period.entered_at, period.left_at ?? now);
+
+    if (period.previous_status === 'Completed' && period.status !== 'Completed') {
+      reopenCount++;
+    }
+  }
+
+  return {
+    leadTimeHours: task.completed_at ? hoursBetween(task.created_at, task.completed_at) : null,
+    cycleTimeHours:
+      task.completed_at && task.started_at ? hoursBetween(task.started_at, task.completed_at) : null,
+    timeInStatusHours,
+    blockedHours: timeInStatusHours['Blocked'] ?? 0,
+    reopenCount,
+  };
+}
+
+/**
+ * Groups history rows by task, each task's periods in chronological order.
+ */
+export function groupStatusHistoryByTask(periods: TaskStatusPeriod[]): Map<number, TaskStatusPeriod[]> {
+  const byTask = new Map<number, TaskStatusPeriod[]>();
+
+  periods.forEach((period) => {
+    if (!byTask.has(period.task_id)) {
+      byTask.set(period.task_id, []);
+    }
+    byTask.get(period.task_id)!.push(period);
+  });
+
+  byTask.forEach((taskPeriods) =>
+    taskPeriods.sort((a, b) => new Date(a.entered_at).getTime() - new Date(b.entered_at).getTime())
+  );
+
+  return byTask;
+}
+
+/**
+ * Mean of the non-null values, 0 when there are none.
+ */
+export function averageOf(values: (number | null)[]): number {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length ? present.reduce((sum, v) => sum + v, 0) / present.length : 0;
+}
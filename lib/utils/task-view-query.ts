@@ -0,0 +1,92 @@
+import type { TaskListSortKey, TaskListViewState } from '@/lib/types/task-views';
+
+export const DEFAULT_TASK_LIST_COLUMNS = [
+  'status',
+  'priority',
+  'dueDate',
+  'assignees',
+  'project',
+  'recurring',
+  'creator',
+  'subtasks',
+  'attachments',
+  'tags',
+];
+
+const SORT_KEYS: TaskListSortKey[] = ['title', 'status', 'priority', 'deadline', 'assignees', 'project.name'];
+const STATUSES = ['To Do', 'In Progress', 'Completed', 'Blocked'];
+
+export const DEFAULT_TASK_LIST_VIEW_STATE: TaskListViewState = {
+  projects: [],
+  statuses: [],
+  tags: [],
+  sort: null,
+  columns: DEFAULT_TASK_LIST_COLUMNS,
+  showCompleted: false,
+};
+
+/**
+ * Encodes a task list view as a query string, e.g.
+ * `project=1&status=To+Do&tag=urgent&sort=deadline&order=desc&columns=status,tags&completed=1`.
+ * Values that match the defaults are left out, so the default view encodes to "".
+ */
+export function encodeTaskListViewState(state: TaskListViewState): string {
+  const params = new URLSearchParams();
+
+  state.projects.forEach((id) => params.append('project', String(id)));
+  state.statuses.forEach((status) => params.append('status', status));
+  state.tags.forEach((tag) => params.append('tag', tag));
+
+  if (state.sort) {
+    params.set('sort', state.sort.key);
+    if (state.sort.direction === 'desc') params.set('order', 'desc');
+  }
+
+  const sameColumns =
+    state.columns.length === DEFAULT_TASK_LIST_COLUMNS.length &&
+    DEFAULT_TASK_LIST_COLUMNS.every((column) => state.columns.includes(column));
+  if (!sameColumns) {
+    params.set('columns', DEFAULT_TASK_LIST_COLUMNS.filter((column) => state.columns.includes(column)).join(','));
+  }
+
+  if (state.showCompleted) params.set('completed', '1');
+
+  return params.toString();
+}
+
+/**
+ * Reads a task list view from a query string. Unknown keys and invalid values are
+ * ignored, so hand-edited or outdated links still open a sensible view.
+ */
+export function decodeTaskListViewState(query: string | URLSearchParams): TaskListViewState {
+  const params = typeof query === 'string' ? new URLSearchParams(query.replace(/^\?/, '')) : query;
+
+  const projects = params
+    .getAll('project')
+    .map((value) => Number(value))
+    .filter((id) => Number.isInteger(id) && id > 0);
+
+  const sortKey = params.get('sort') as TaskListSortKey | null;
+  const columns = params.has('columns')
+    ? DEFAULT_TASK_LIST_COLUMNS.filter((column) => (params.get('columns') ?? '').split(',').includes(column))
+    : DEFAULT_TASK_LIST_COLUMNS;
+
+  return {
+    projects: Array.from(new Set(projects)),
+    statuses: Array.from(new Set(params.getAll('status').filter((status) => STATUSES.includes(status)))),
+    tags: Array.from(new Set(params.getAll('tag').filter(Boolean))),
+    sort:
+      sortKey && SORT_KEYS.includes(sortKey)
+        ? { key: sortKey, direction: params.get('order') === 'desc' ? 'desc' : 'asc' }
+        : null,
+    columns,
+    showCompleted: params.get('completed') === '1',
+  };
+}
+
+/**
+ * Canonical form of a view query, used before storing or comparing views.
+ */
+export function normalizeTaskListViewQuery(query: string): string {
+  return encodeTaskListViewState(decodeTaskListViewState(query));
+}
@@ -0,0 +1,222 @@
+/**
+ * Per-user, per-day workload from scheduled tasks.
+ *
+ * Pure functions only, safe to import in both Client and Server Components.
+ *
+ * Every open task is worth its priority_bucket (1-10) in points for each assignee,
+ * spread evenly over the working days between its start (created_at) and deadline.
+ * A user's weekly capacity is split over the five working days; weekends have no
+ * capacity, so any load that lands on them counts as over capacity.
+ *
+ * Days are 24h slices starting at the requested range start (the client's local
+ * midnight). The weekday of a slice is read from its midpoint in UTC, which matches
+ * the client's local weekday for any offset within ±12h.
+ */
+import type { ReassignmentSuggestion, UserWorkload } from '@/lib/types/workload';
+
+export const DEFAULT_WEEKLY_CAPACITY = 40;
+export const MAX_WEEKLY_CAPACITY = 200;
+
+const WORKING_DAYS_PER_WEEK = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EPSILON = 0.01;
+
+export type WorkloadTask = {
+  id: number;
+  title: string;
+  created_at: string;
+  deadline: string;
+  status: string;
+  priority_bucket: number;
+  assignees: { id: string }[];
+};
+
+export type WorkloadUser = { id: string; name: string; weeklyCapacity: number };
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function dayIndex(rangeStart: Date, value: string): number {
+  return Math.floor((new Date(value).getTime() - rangeStart.getTime()) / DAY_MS);
+}
+
+function isWorkingDay(rangeStart: Date, index: number): boolean {
+  const weekday = new Date(rangeStart.getTime() + index * DAY_MS + DAY_MS / 2).getUTCDay();
+  return weekday !== 0 && weekday !== 6;
+}
+
+/**
+ * Number of day slices covered by the range, at least one.
+ */
+export function getWorkloadDayCount(startDate: Date, endDate: Date): number {
+  return Math.max(1, Math.ceil((endDate.getTime() - startDate.getTime()) / DAY_MS));
+}
+
+/**
+ * Points a task adds on each day of the range for one assignee (0 where it does
+ * not apply). Completed tasks add nothing.
+ */
+export function getTaskDailyLoads(task: WorkloadTask, startDate: Date, dayCount: number): number[] {
+  const loads = new Array<number>(dayCount).fill(0);
+  if (task.status === 'Completed') return loads;
+
+  const last = dayIndex(startDate, task.deadline);
+  const first = Math.min(dayIndex(startDate, task.created_at), last);
+
+  // Spread over working days; a task that only spans a weekend lands on those days
+  let days: number[] = [];
+  for (let i = first; i <= last; i++) {
+    if (isWorkingDay(startDate, i)) days.push(i);
+  }
+  if (days.length === 0) {
+    days = Array.from({ length: last - first + 1 }, (_, k) => first + k);
+  }
+
+  const share = task.priority_bucket / days.length;
+  for (const i of days) {
+    if (i >= 0 && i < dayCount) loads[i] = share;
+  }
+  return loads;
+}
+
+/**
+ * Workload of each given user over the range, in the order the users are given.
+ */
+export function computeWorkload(
+  tasks: WorkloadTask[],
+  users: WorkloadUser[],
+  startDate: Date,
+  endDate: Date
+): UserWorkload[] {
+  const dayCount = getWorkloadDayCount(startDate, endDate);
+
+  const loads = new Map<string, { load: number[]; taskIds: number[][] }>();
+  for (const user of users) {
+    loads.set(user.id, {
+      load: new Array<number>(dayCount).fill(0),
+      taskIds: Array.from({ length: dayCount }, () => []),
+    });
+  }
+
+  for (const task of tasks) {
+    const taskLoads = getTaskDailyLoads(task, startDate, dayCount);
+    for (const assignee of task.assignees) {
+      const entry = loads.get(assignee.id);
+      if (!entry) continue;
+      taskLoads.forEach((value, i) => {
+        if (value === 0) return;
+        entry.load[i] += value;
+        entry.taskIds[i].push(task.id);
+      });
+    }
+  }
+
+  return users.map((user) => {
+    const entry = loads.get(user.id)!;
+    const days = entry.load.map((load, i) => {
+      const capacity = isWorkingDay(startDate, i) ? user.weeklyCapacity / WORKING_DAYS_PER_WEEK : 0;
+      return {
+        date: new Date(startDate.getTime() + i * DAY_MS).toISOString(),
+        load: round(load),
+        capacity: round(capacity),
+        overCapacity: load > capacity + EPSILON,
+        taskIds: entry.taskIds[i],
+      };
+    });
+
+    return {
+      userId: user.id,
+      name: user.name,
+      weeklyCapacity: user.weeklyCapacity,
+      days,
+      overCapacityDays: days.filter((day) => day.overCapacity).length,
+    };
+  });
+}
+
+/**
+ * Greedy reassignment suggestions. For each overloaded user, their heaviest tasks on
+ * over-capacity days are offered to the department colleague with the most room left
+ * who can take the task on every day it covers. Accepted suggestions are applied to
+ * the running totals, so later ones account for earlier ones and a user stops getting
+ * suggestions once they are back under capacity.
+ *
+ * @param workloads - Workload of the overloaded users and of every candidate colleague
+ * @param colleagues - Candidate colleague IDs per user to relieve
+ */
+export function suggestReassignments(
+  workloads: UserWorkload[],
+  tasks: WorkloadTask[],
+  colleagues: Map<string, string[]>,
+  startDate: Date
+): ReassignmentSuggestion[] {
+  const dayCount = workloads[0]?.days.length ?? 0;
+  const state = new Map(
+    workloads.map((w) => [
+      w.userId,
+      { workload: w, load: w.days.map((d) => d.load), capacity: w.days.map((d) => d.capacity) },
+    ])
+  );
+  const tasksById = new Map(tasks.map((t) => [t.id, t]));
+  const suggestions: ReassignmentSuggestion[] = [];
+
+  for (const [userId, candidateIds] of colleagues) {
+    const from = state.get(userId);
+    if (!from || from.workload.overCapacityDays === 0) continue;
+
+    const isOver = (i: number) => from.load[i] > from.capacity[i] + EPSILON;
+
+    const taskIds = new Set(from.workload.days.flatMap((day, i) => (isOver(i) ? day.taskIds : [])));
+    const ranked = Array.from(taskIds)
+      .map((id) => tasksById.get(id))
+      .filter((t): t is WorkloadTask => !!t)
+      .map((task) => {
+        const shares = getTaskDailyLoads(task, startDate, dayCount);
+        return { task, shares, total: shares.reduce((sum, s) => sum + s, 0) };
+      })
+      .sort((a, b) => b.total - a.total);
+
+    for (const { task, shares } of ranked) {
+      const relieved = shares.flatMap((share, i) => (share > 0 && isOver(i) ? [i] : []));
+      if (relieved.length === 0) continue;
+
+      let best: typeof from | null = null;
+      let bestRoom = -Infinity;
+      for (const candidateId of candidateIds) {
+        if (candidateId === userId || task.assignees.some((a) => a.id === candidateId)) continue;
+        const to = state.get(candidateId);
+        if (!to) continue;
+
+        let fits = true;
+        let room = 0;
+        shares.forEach((share, i) => {
+          if (share === 0) return;
+          const left = to.capacity[i] - to.load[i] - share;
+          if (left < -EPSILON) fits = false;
+          room += left;
+        });
+        if (fits && room > bestRoom) {
+          best = to;
+          bestRoom = room;
+        }
+      }
+      if (!best) continue;
+
+      const target = best;
+      shares.forEach((share, i) => {
+        from.load[i] -= share;
+        target.load[i] += share;
+      });
+      suggestions.push({
+        taskId: task.id,
+        taskTitle: task.title,
+        fromUserId: userId,
+        fromUserName: from.workload.name,
+        toUserId: target.workload.userId,
+        toUserName: target.workload.name,
+        relievedDates: relieved.map((i) => from.workload.days[i].date),
+      });
+    }
+  }
+
+  return suggestions;
+}
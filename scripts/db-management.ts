@@ -2,16 +2,28 @@
 
 /**
  * Database Management Script
- * Provides utilities for seeding and resetting the database
+ * Provides utilities for migrating, seeding and resetting the database
  *
  * Usage:
- *   pnpm db:seed     - Seed the database
- *   pnpm db:reset    - Reset and reseed the database
- *   pnpm db:status   - Check database status
+ *   pnpm db:migrate                  - Apply pending migrations from supabase/migrations
+ *   pnpm db:migrate --dry-run        - List pending migrations without applying them
+ *   pnpm db:migrate:status           - Show applied, pending and changed migrations
+ *   pnpm db:migrate:baseline <NNNN>  - Record migrations up to NNNN as applied without running them
+ *   pnpm db:seed                     - Seed sample data into an empty, migrated database
+ *   pnpm db:reset                    - Delete all data (keeping the schema) and reseed
+ *   pnpm db:status                   - Check database status
  */
 
 import { createClient } from '@supabase/supabase-js';
+import postgres from 'postgres';
 import 'dotenv/config';
+import {
+  baselineMigrations,
+  getAppliedMigrations,
+  loadMigrations,
+  migrateUp,
+  planMigrations,
+} from '../lib/db/migrations';
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -111,16 +123,106 @@ async function seedDatabase(): Promise<void> {
   }
 }
 
+function connect() {
+  // A single connection: the migration lock is held by the session
+  return postgres(process.env.POSTGRES_URL!, { ssl: 'require', max: 1 });
+}
+
+async function migrate(args: string[]) {
+  const [subcommand, ...rest] = args;
+  const sql = connect();
+
+  try {
+    switch (subcommand) {
+      case 'up': {
+        const dryRun = rest.includes('--dry-run');
+        console.log(dryRun ? '🔍 Checking pending migrations (dry run)...\n' : '🚚 Applying migrations...\n');
+        await migrateUp(sql, { dryRun });
+        break;
+      }
+      case 'status': {
+        const { statuses, problems } = planMigrations(await loadMigrations(), await getAppliedMigrations(sql));
+        console.log('Migrations:\n');
+        for (const status of statuses) {
+          const appliedAt = status.applied_at ? ` (${status.applied_at.toISOString()})` : '';
+          console.log(`   ${status.version}_${status.name}: ${status.state}${appliedAt}`);
+        }
+        console.log('');
+        if (problems.length > 0) {
+          problems.forEach((problem) => console.log(`⚠️  ${problem}`));
+        } else if (statuses.some((s) => s.state === 'pending')) {
+          console.log('⚠️  Pending migrations. Run `pnpm db:migrate` to apply them.');
+        } else {
+          console.log('✅ Schema is up to date.');
+        }
+        break;
+      }
+      case 'baseline': {
+        const version = rest[0];
+        if (!version) throw new Error('Usage: migrate baseline <version>');
+        await baselineMigrations(sql, version);
+        break;
+      }
+      default:
+        throw new Error('Usage: migrate up [--dry-run] | migrate status | migrate baseline <version>');
+    }
+  } finally {
+    await sql.end();
+  }
+}
+
+// Paths per Storage remove() call
+const STORAGE_REMOVE_BATCH_SIZE = 1000;
+
 async function resetDatabase() {
   console.log('🔄 Resetting database...\n');
 
+  if (process.env.VERCEL_ENV === 'production') {
+    throw new Error('Refusing to reset a production database');
+  }
+
+  const sql = connect();
+  let attachmentPaths: string[];
   try {
-    // Call seed endpoint which includes teardown
-    await seedDatabase();
-  } catch (error) {
-    console.error('❌ Error resetting database:', error);
-    throw error;
+    // Attachment files live under tasks/{taskId}/, so read every path in the bucket
+    // before their rows go
+    const objects = await sql<{ name: string }[]>`
+      SELECT name FROM storage.objects WHERE bucket_id = 'task-attachments'
+    `;
+    attachmentPaths = objects.map((object) => object.name);
+
+    // Delete every row but keep the schema, migration history and reference roles
+    const tables = await sql<{ tablename: string }[]>`
+      SELECT tablename FROM pg_tables
+      WHERE schemaname = 'public' AND tablename NOT IN ('schema_migrations', 'roles')
+    `;
+    if (tables.length > 0) {
+      await sql.unsafe(
+        `TRUNCATE TABLE ${tables.map((t) => `"${t.tablename}"`).join(', ')} RESTART IDENTITY CASCADE`
+      );
+    }
+    console.log(`   Cleared ${tables.length} tables`);
+  } finally {
+    await sql.end();
+  }
+
+  // Attachment rows are gone, so their files are orphaned. Remove them through the
+  // Storage API (deleting storage.objects rows would leave the files in place)
+  let removed = 0;
+  for (let i = 0; i < attachmentPaths.length; i += STORAGE_REMOVE_BATCH_SIZE) {
+    const batch = attachmentPaths.slice(i, i + STORAGE_REMOVE_BATCH_SIZE);
+    const { error: removeError } = await supabase.storage.from('task-attachments').remove(batch);
+    if (removeError) {
+      console.warn('   Could not remove some task attachments:', removeError.message);
+    } else {
+      removed += batch.length;
+    }
+  }
+  if (removed > 0) {
+    console.log(`   Removed ${removed} task attachment files`);
   }
+
+  await seedDatabase();
 }
 
 async function main() {
@@ -137,8 +239,18 @@ async function main() {
     process.exit(1);
   }
 
+  if (command === 'migrate' || command === 'reset') {
+    if (!process.env.POSTGRES_URL) {
+      console.error('❌ POSTGRES_URL is not set');
+      process.exit(1);
+    }
+  }
+
   try {
     switch (command) {
+      case 'migrate':
+        await migrate(process.argv.slice(3));
+        break;
       case 'status':
         await checkDatabaseStatus();
         break;
@@ -150,9 +262,12 @@ async function main() {
         break;
       default:
         console.log('Usage:');
-        console.log('  pnpm db:status  - Check database status');
-        console.log('  pnpm db:seed    - Seed the database');
-        console.log('  pnpm db:reset   - Reset and reseed the database');
+        console.log('  pnpm db:migrate [--dry-run]        - Apply pending migrations');
+        console.log('  pnpm db:migrate:status             - Show migration status');
+        console.log('  pnpm db:migrate:baseline <NNNN>    - Mark migrations up to NNNN as applied');
+        console.log('  pnpm db:status                     - Check database status');
+        console.log('  pnpm db:seed                       - Seed sample data into an empty database');
+        console.log('  pnpm db:reset                      - Delete all data and reseed');
         process.exit(1);
     }
   } catch (error) {
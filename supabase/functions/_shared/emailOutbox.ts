@@ -0,0 +1,81 @@
+// Email outbox (see supabase/migrations/0007_email_outbox.sql).
+// No Deno APIs here, so the wrappers that use it still run under Node/Vitest.
+//
+// Jobs enqueue emails with an idempotency key; the email-outbox-worker function
+// delivers them through an EmailTransport.
+
+export interface OutboxEmail {
+  to: string;
+  from: string;
+  subject: string;
+  content: string;
+  isHtml?: boolean;
+  // Identifies the logical email; enqueueing the same key again is a no-op
+  idempotencyKey: string;
+  // ISO timestamp before which the worker must not deliver it (e.g. end of quiet hours)
+  sendAt?: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  send(email: OutboxEmail): Promise<void>;
+}
+
+export interface EnqueueResult {
+  queued: boolean; // false when the key was already in the outbox
+}
+
+/**
+ * Adds an email to the outbox (service role, bypasses RLS).
+ */
+export async function enqueueEmail(
+  supabase: any,
+  email: OutboxEmail
+): Promise<EnqueueResult> {
+  if (!email.idempotencyKey) {
+    throw new Error("Outbox emails need an idempotency key");
+  }
+
+  const { data, error } = await supabase
+    .from("email_outbox")
+    .upsert(
+      {
+        idempotency_key: email.idempotencyKey,
+        to_email: email.to,
+        from_email: email.from,
+        subject: email.subject,
+        body: email.content,
+        is_html: email.isHtml ?? false,
+        ...(email.sendAt ? { next_attempt_at: email.sendAt } : {}),
+      },
+      { onConflict: "idempotency_key", ignoreDuplicates: true }
+    )
+    .select("id");
+
+  if (error) {
+    throw new Error(`Failed to enqueue email: ${error.message}`);
+  }
+
+  return { queued: (data ?? []).length > 0 };
+}
+
+/**
+ * A sendEmailFunc for the job wrappers that queues instead of sending.
+ */
+export function createOutboxSender(supabase: any) {
+  return async (email: OutboxEmail): Promise<string> => {
+    const { queued } = await enqueueEmail(supabase, email);
+    return queued ? "Queued" : `Already queued (${email.idempotencyKey})`;
+  };
+}
+
+/**
+ * A failure that retrying cannot fix (e.g. the provider rejected the address).
+ * The worker dead-letters the message straight away.
+ */
+export class PermanentEmailError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentEmailError";
+  }
+}
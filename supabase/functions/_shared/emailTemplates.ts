@@ -0,0 +1,84 @@
+// Email templates shared by the notification jobs.
+// No Deno APIs here, so the wrappers that use it still run under Node/Vitest.
+
+export type ReminderType = "due_today" | "due_tomorrow" | "overdue";
+
+interface ReminderTask {
+  id: string;
+  title: string;
+  description: string | null;
+  notes: string | null;
+  status: string | null;
+  priority_bucket: string | null;
+}
+
+const APP_URL = "https://x-men-rosy.vercel.app";
+
+/**
+ * Escapes user-entered text (task titles, descriptions...) for HTML bodies.
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+export function taskUrl(taskId: string): string {
+  return `${APP_URL}/task/${taskId}`;
+}
+
+/**
+ * Subject and HTML body of a deadline reminder. `dueDate` is YYYY-MM-DD (SGT).
+ */
+export function renderTaskReminderEmail(
+  reminderType: ReminderType,
+  task: ReminderTask,
+  dueDate: string
+): { subject: string; content: string } {
+  const title = `<strong>"${escapeHtml(task.title)}"</strong>`;
+  const date = `<strong>${dueDate}</strong>`;
+
+  const { subject, intro, closing } = {
+    due_tomorrow: {
+      subject: `Reminder: Task "${task.title}" is due tomorrow`,
+      intro: `This is a reminder that your task ${title} is due on ${date}.`,
+      closing: "",
+    },
+    due_today: {
+      subject: `Reminder: Task "${task.title}" is due today`,
+      intro: `Your task ${title} is due today <strong>(${dueDate})</strong>.`,
+      closing: "<p>Please complete this task before the deadline.</p>",
+    },
+    overdue: {
+      subject: `Overdue: Task "${task.title}" is past due`,
+      intro: `Your task ${title} was due on ${date} and is now overdue.`,
+      closing: "<p><strong>Please take action immediately.</strong></p>",
+    },
+  }[reminderType];
+
+  const content = `
+<html>
+  <body style="font-family: Arial, sans-serif; line-height: 1.6;">
+    <p>Hello,</p>
+
+    <p>${intro}</p>
+
+    <p>
+      <strong>Status:</strong> ${escapeHtml(task.status ?? "N/A")}<br>
+      <strong>Priority Bucket:</strong> ${escapeHtml(String(task.priority_bucket ?? "N/A"))}<br>
+      <strong>Description:</strong> ${escapeHtml(task.description ?? "No description provided")}<br>
+      <strong>Notes:</strong> ${escapeHtml(task.notes ?? "No notes provided")}
+    </p>
+    ${closing}
+    <p>Click <a href="${taskUrl(task.id)}" style="color: #357bdc; text-decoration: underline; font-weight: bold;">here</a> to view task</p>
+
+    <p>Regards,<br>Task Reminder Bot</p>
+  </body>
+</html>
+`;
+
+  return { subject, content };
+}
@@ -0,0 +1,123 @@
+// @ts-nocheck: Deno-only module (npm: imports and Deno.env)
+//
+// Email transports for the outbox worker, chosen with EMAIL_TRANSPORT:
+// - sendgrid (default): SENDGRID_API_KEY
+// - smtp: SMTP_HOST, SMTP_PORT (default 587), SMTP_USER, SMTP_PASS, SMTP_SECURE=true
+//   for implicit TLS. A local mail catcher (e.g. Mailpit on port 1025) needs only
+//   SMTP_HOST and SMTP_PORT.
+// - console: logs emails instead of sending them (local development)
+import nodemailer from "npm:nodemailer@6";
+import { PermanentEmailError, type EmailTransport, type OutboxEmail } from "./emailOutbox.ts";
+
+export function createSendGridTransport(apiKey: string): EmailTransport {
+  return {
+    name: "sendgrid",
+    async send({ to, from, subject, content, isHtml, idempotencyKey }: OutboxEmail) {
+      const res = await fetch("https://api.sendgrid.com/v3/mail/send", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          personalizations: [{ to: [{ email: to }] }],
+          from: { email: from },
+          subject,
+          content: [{ type: isHtml ? "text/html" : "text/plain", value: content }],
+          custom_args: { idempotency_key: idempotencyKey },
+        }),
+      });
+
+      if (!res.ok) {
+        const text = await res.text();
+        const message = `SendGrid error ${res.status}: ${text}`;
+        // 4xx other than rate limiting means the request itself is bad
+        if (res.status >= 400 && res.status < 500 && res.status !== 429) {
+          throw new PermanentEmailError(message);
+        }
+        throw new Error(message);
+      }
+    },
+  };
+}
+
+// Message-IDs only allow atext characters around the "@"
+function messageId(idempotencyKey: string, from: string): string {
+  const domain = from.split("@")[1] ?? "localhost";
+  return `<${idempotencyKey.replace(/[^A-Za-z0-9!#$%&'*+/=?^_`{|}~.-]/g, "-")}@${domain}>`;
+}
+
+export function createSmtpTransport(options: {
+  host: string;
+  port: number;
+  secure?: boolean;
+  user?: string;
+  pass?: string;
+}): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure ?? false,
+    auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+  });
+
+  return {
+    name: "smtp",
+    async send({ to, from, subject, content, isHtml, idempotencyKey }: OutboxEmail) {
+      try {
+        await transporter.sendMail({
+          to,
+          from,
+          subject,
+          // A stable Message-ID lets receivers drop a duplicate after a retry
+          messageId: messageId(idempotencyKey, from),
+          ...(isHtml ? { html: content } : { text: content }),
+        });
+      } catch (err) {
+        // 5xx replies are permanent (e.g. unknown mailbox); 4xx are temporary
+        if (typeof err?.responseCode === "number" && err.responseCode >= 500) {
+          throw new PermanentEmailError(`SMTP error ${err.responseCode}: ${err.message}`);
+        }
+        throw err;
+      }
+    },
+  };
+}
+
+export function createConsoleTransport(): EmailTransport {
+  return {
+    name: "console",
+    async send({ to, from, subject, content, idempotencyKey }: OutboxEmail) {
+      console.log(
+        `[email:console] ${idempotencyKey}\nFrom: ${from}\nTo: ${to}\nSubject: ${subject}\n\n${content}`
+      );
+    },
+  };
+}
+
+export function createTransportFromEnv(): EmailTransport {
+  const kind = Deno.env.get("EMAIL_TRANSPORT") ?? "sendgrid";
+
+  switch (kind) {
+    case "sendgrid": {
+      const apiKey = Deno.env.get("SENDGRID_API_KEY");
+      if (!apiKey) throw new Error("Missing SENDGRID_API_KEY");
+      return createSendGridTransport(apiKey);
+    }
+    case "smtp": {
+      const host = Deno.env.get("SMTP_HOST");
+      if (!host) throw new Error("Missing SMTP_HOST");
+      return createSmtpTransport({
+        host,
+        port: Number(Deno.env.get("SMTP_PORT") ?? 587),
+        secure: Deno.env.get("SMTP_SECURE") === "true",
+        user: Deno.env.get("SMTP_USER") ?? undefined,
+        pass: Deno.env.get("SMTP_PASS") ?? undefined,
+      });
+    }
+    case "console":
+      return createConsoleTransport();
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT: ${kind} (expected sendgrid, smtp or console)`);
+  }
+}
@@ -0,0 +1,133 @@
+// Notification preferences as seen by the email edge functions.
+// No Deno APIs here, so the wrappers that use it still run under Node/Vitest.
+//
+// Users without stored preferences get every email and a daily digest; quiet
+// hours are wall-clock times in Singapore time and may wrap midnight.
+
+export type DigestFrequency = "off" | "daily" | "weekly";
+
+interface NotificationPreferenceRow {
+  user_id: string;
+  quiet_hours_start: string | null; // HH:mm:ss
+  quiet_hours_end: string | null;
+  digest_frequency: DigestFrequency;
+}
+
+interface EventPreferenceRow {
+  user_id: string;
+  event_type: string;
+  email: boolean;
+}
+
+// The part of the Supabase client used here; Deno and Node import the client differently
+export interface PreferencesClient {
+  from(table: string): {
+    select(columns: string): PromiseLike<{ data: unknown[] | null; error: unknown }>;
+  };
+}
+
+export interface NotificationPreferenceLookup {
+  settings: Map<string, NotificationPreferenceRow>;
+  // `${user_id}:${event_type}` -> email enabled
+  email: Map<string, boolean>;
+}
+
+const TIME_ZONE = "Asia/Singapore";
+
+// Weekly digests go out with the Monday run
+const WEEKLY_DIGEST_DAY = "Mon";
+
+/**
+ * Loads every user's preferences in two queries (service role, bypasses RLS).
+ */
+export async function fetchNotificationPreferences(
+  supabase: PreferencesClient
+): Promise<NotificationPreferenceLookup> {
+  const { data: settings, error: settingsErr } = await supabase
+    .from("notification_preferences")
+    .select("user_id, quiet_hours_start, quiet_hours_end, digest_frequency");
+
+  if (settingsErr) throw settingsErr;
+
+  const { data: events, error: eventsErr } = await supabase
+    .from("notification_event_preferences")
+    .select("user_id, event_type, email");
+
+  if (eventsErr) throw eventsErr;
+
+  return {
+    settings: new Map(
+      ((settings ?? []) as NotificationPreferenceRow[]).map((row) => [row.user_id, row])
+    ),
+    email: new Map(
+      ((events ?? []) as EventPreferenceRow[]).map((row) => [
+        `${row.user_id}:${row.event_type}`,
+        row.email,
+      ])
+    ),
+  };
+}
+
+export function isEmailEnabled(
+  preferences: NotificationPreferenceLookup,
+  userId: string,
+  eventType: string
+): boolean {
+  return preferences.email.get(`${userId}:${eventType}`) ?? true;
+}
+
+/**
+ * When the user's current quiet hours end, or null if `now` is outside them (start
+ * inclusive, end exclusive). Emails held back by quiet hours are queued for this time instead of dropped.
+ */
+export function getQuietHoursEnd(
+  preferences: NotificationPreferenceLookup,
+  userId: string,
+  now: Date = new Date()
+): Date | null {
+  const row = preferences.settings.get(userId);
+  if (!row?.quiet_hours_start || !row?.quiet_hours_end) return null;
+
+  const start = row.quiet_hours_start.slice(0, 5);
+  const end = row.quiet_hours_end.slice(0, 5);
+  const time = now.toLocaleTimeString("en-GB", {
+    timeZone: TIME_ZONE,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  });
+
+  const inQuietHours = start < end ? time >= start && time < end : time >= start || time < end;
+  if (!inQuietHours) return null;
+
+  // Minutes from now until the end time, wrapping past midnight
+  const toMinutes = (hhmm: string) => Number(hhmm.slice(0, 2)) * 60 + Number(hhmm.slice(3, 5));
+  const minutesLeft = (toMinutes(end) - toMinutes(time) + 24 * 60) % (24 * 60);
+
+  const endsAt = new Date(now);
+  endsAt.setUTCSeconds(0, 0);
+  return new Date(endsAt.getTime() + minutesLeft * 60 * 1000);
+}
+
+export function getDigestFrequency(
+  preferences: NotificationPreferenceLookup,
+  userId: string
+): DigestFrequency {
+  return preferences.settings.get(userId)?.digest_frequency ?? "daily";
+}
+
+/**
+ * Whether today's digest run should include this user.
+ */
+export function isDigestDue(
+  preferences: NotificationPreferenceLookup,
+  userId: string,
+  now: Date = new Date()
+): boolean {
+  const frequency = getDigestFrequency(preferences, userId);
+  if (frequency === "off") return false;
+  if (frequency === "daily") return true;
+
+  const weekday = now.toLocaleDateString("en-US", { timeZone: TIME_ZONE, weekday: "short" });
+  return weekday === WEEKLY_DIGEST_DAY;
+}
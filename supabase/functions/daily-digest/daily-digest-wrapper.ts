@@ -1,5 +1,13 @@
 // @ts-nocheck: Deno environment doesn't have full TypeScript support for edge functions
 
+import {
+  fetchNotificationPreferences,
+  getDigestFrequency,
+  getQuietHoursEnd,
+  isDigestDue,
+} from "../_shared/notificationPreferences.ts";
+import { escapeHtml, taskUrl } from "../_shared/emailTemplates.ts";
+
 interface TaskSummary {
   id: string;
   title: string;
@@ -12,6 +20,7 @@ interface TaskSummary {
 
 interface UserDigest {
   userId: string;
+  frequency: "daily" | "weekly";
   userEmail: string;
   userName?: string;
   overdueTasks: TaskSummary[];
@@ -176,9 +185,6 @@ function getPriorityDisplay(priorityBucket: number | string): string {
 
 // Helper: Generate HTML digest email
 function generateDigestHTML(digest: UserDigest): string {
-  const taskLink = (taskId: string): string =>
-    `https://x-men-rosy.vercel.app/task/${taskId}`;
-
   const renderTaskList = (tasks: TaskSummary[], title: string): string => {
     if (tasks.length === 0) return "";
 
@@ -187,8 +193,8 @@ function generateDigestHTML(digest: UserDigest): string {
         (task: TaskSummary): string => `
       <div style="background-color: #f9f9f9; border: 1px solid #e0e0e0; border-radius: 6px; padding: 16px; margin-bottom: 12px; break-inside: avoid;">
         <div style="margin-bottom: 12px;">
-          <a href="${taskLink(task.id)}" style="color: #357bdc; text-decoration: none; font-weight: 600; font-size: 16px; word-break: break-word; word-wrap: break-word; overflow-wrap: break-word; display: block;">
-            ${task.title}
+          <a href="${taskUrl(task.id)}" style="color: #357bdc; text-decoration: none; font-weight: 600; font-size: 16px; word-break: break-word; word-wrap: break-word; overflow-wrap: break-word; display: block;">
+            ${escapeHtml(task.title)}
           </a>
         </div>
         
@@ -196,7 +202,7 @@ function generateDigestHTML(digest: UserDigest): string {
           <div style="display: flex; justify-content: space-between; align-items: center;">
             <span style="color: #666; font-weight: 500;">Status:</span>
             <span style="background-color: #e3f2fd; padding: 4px 8px; border-radius: 4px; white-space: nowrap;">
-              ${task.status}
+              ${escapeHtml(task.status ?? "N/A")}
             </span>
           </div>
           
@@ -263,7 +269,7 @@ function generateDigestHTML(digest: UserDigest): string {
       
       <!-- Header -->
       <div style="text-align: center; margin-bottom: 32px; border-bottom: 3px solid #357bdc; padding-bottom: 16px;">
-        <h1 style="color: #357bdc; margin: 0; font-size: 28px;">Daily Task Digest</h1>
+        <h1 style="color: #357bdc; margin: 0; font-size: 28px;">${digest.frequency === "weekly" ? "Weekly" : "Daily"} Task Digest</h1>
         <p style="color: #666; margin: 8px 0 0 0; font-size: 14px;">
           ${new Date().toLocaleDateString("en-US", { weekday: "long", year: "numeric", month: "long", day: "numeric" })}
         </p>
@@ -273,7 +279,7 @@ function generateDigestHTML(digest: UserDigest): string {
       <p style="font-size: 16px; margin-bottom: 24px;">
         Hi ${digest.userName || "there"},<br>
         <br>
-        Here's a summary of your tasks for today. Stay on top of your work!
+        Here's a summary of your tasks for ${digest.frequency === "weekly" ? "the week" : "today"}. Stay on top of your work!
       </p>
 
       <!-- Summary Stats -->
@@ -323,7 +329,7 @@ function generateDigestHTML(digest: UserDigest): string {
  * - Node.js runtime (Vitest integration tests)
  *
  * @param supabase - Supabase client instance
- * @param sendEmailFunc - Email sending function (SendGrid or mock)
+ * @param sendEmailFunc - Email delivery function (queues into the email outbox in production, or mock)
  * @param supabaseConfig - Required config with URL and service role key
  * @param users - Array of users to send digests to (from Supabase Auth)
  */
@@ -369,6 +375,12 @@ export async function sendDailyDigest(
 
     if (assignErr) throw assignErr;
 
+    // Fetch notification preferences (digest frequency and quiet hours)
+    const preferences = await fetchNotificationPreferences(supabase);
+    const now = new Date();
+    // YYYY-MM-DD in Singapore time, for the digest's idempotency key
+    const sgDate = now.toLocaleDateString("en-CA", { timeZone: "Asia/Singapore" });
+
     // For each user, filter their tasks and send digest
     for (const user of users) {
       const userId = user.id;
@@ -379,6 +391,16 @@ export async function sendDailyDigest(
         continue;
       }
 
+      if (!isDigestDue(preferences, userId, now)) {
+        console.log(
+          `User ${userEmail} has no digest due today (${getDigestFrequency(preferences, userId)}), skipping`
+        );
+        continue;
+      }
+
+      // Held until the end of the user's quiet hours, if they are in them
+      const quietHoursEnd = getQuietHoursEnd(preferences, userId, now);
+
       try {
         // Filter assignments for this user - WITH TYPE ANNOTATION
         const userAssignments: TaskAssignment[] = (assignments as TaskAssignment[]).filter(
@@ -457,8 +479,10 @@ export async function sendDailyDigest(
         }
 
         // Generate and send email
+        const frequency = getDigestFrequency(preferences, userId) === "weekly" ? "weekly" : "daily";
         const digest: UserDigest = {
           userId,
+          frequency,
           userEmail,
           overdueTasks,
           dueTodayTasks,
@@ -472,9 +496,12 @@ export async function sendDailyDigest(
         await sendEmailFunc({
           to: userEmail,
           from: "joel.wang.2023@scis.smu.edu.sg",
-          subject: "Your Daily Task Digest",
+          subject: frequency === "weekly" ? "Your Weekly Task Digest" : "Your Daily Task Digest",
           content: htmlContent,
           isHtml: true,
+          // One digest per user per SGT day
+          idempotencyKey: `digest:${frequency}:${userId}:${sgDate}`,
+          sendAt: quietHoursEnd?.toISOString(),
         });
 
         sentCount++;
@@ -484,7 +511,10 @@ export async function sendDailyDigest(
           sentAt: new Date().toISOString(),
         });
 
-        console.log(`Daily digest sent to ${userEmail}`);
+        console.log(
+          `Daily digest queued for ${userEmail}` +
+            (quietHoursEnd ? `, held until ${quietHoursEnd.toISOString()} (quiet hours)` : "")
+        );
       } catch (err) {
         console.error(
           `Failed to send digest to user ${userId}:`,
@@ -493,7 +523,7 @@ export async function sendDailyDigest(
       }
     }
 
-    console.log(`Daily Digest Summary: ${sentCount} digests sent`);
+    console.log(`Daily Digest Summary: ${sentCount} digests queued`);
     return { success: true, sent: sentCount, digestsSent };
   } catch (err) {
     console.error("Error in sendDailyDigest:", err);
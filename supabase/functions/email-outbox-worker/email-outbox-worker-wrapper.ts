@@ -0,0 +1,154 @@
+// This file contains the outbox draining logic WITHOUT Deno imports
+// It can be imported by both Deno and Node.js/Vitest
+
+import { PermanentEmailError, type EmailTransport } from "../_shared/emailOutbox.ts";
+
+interface OutboxRow {
+  id: number;
+  idempotency_key: string;
+  to_email: string;
+  from_email: string;
+  subject: string;
+  body: string;
+  is_html: boolean;
+  attempts: number; // including the attempt just claimed
+  max_attempts: number;
+}
+
+interface DrainOptions {
+  batchSize?: number;
+  now?: () => Date;
+}
+
+interface DeliveryFailure {
+  id: number;
+  idempotencyKey: string;
+  attempts: number;
+  error: string;
+  deadLettered: boolean;
+}
+
+interface DrainEmailOutboxResult {
+  success: boolean;
+  claimed: number;
+  sent: number;
+  retrying: number;
+  deadLettered: number;
+  failures: DeliveryFailure[];
+}
+
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Delay before retrying after the given (1-based) failed attempt: 1, 2, 4, 8...
+ * minutes, capped at 6 hours.
+ */
+export function retryDelayMs(attempt: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempt - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+async function updateOutboxRow(supabase: any, id: number, values: Record<string, unknown>) {
+  const { error } = await supabase.from("email_outbox").update(values).eq("id", id);
+  if (error) {
+    throw new Error(`Failed to update outbox email ${id}: ${error.message}`);
+  }
+}
+
+/**
+ * Claims due outbox emails and delivers them through the transport.
+ *
+ * A failed delivery is retried with exponential backoff until max_attempts,
+ * then dead-lettered (status 'dead'); PermanentEmailErrors are dead-lettered
+ * immediately. One failure does not stop the rest of the batch.
+ *
+ * @param supabase - Supabase client instance (service role)
+ * @param transport - Email transport (SendGrid, SMTP, console or mock)
+ * @param options - Batch size and clock (for tests)
+ */
+export async function drainEmailOutbox(
+  supabase: any,
+  transport: EmailTransport,
+  options: DrainOptions = {}
+): Promise<DrainEmailOutboxResult> {
+  const now = options.now ?? (() => new Date());
+
+  const { data: claimed, error: claimErr } = await supabase.rpc("claim_email_outbox", {
+    batch_size: options.batchSize ?? 50,
+  });
+
+  if (claimErr) {
+    throw new Error(`Failed to claim outbox emails: ${claimErr.message}`);
+  }
+
+  const result: DrainEmailOutboxResult = {
+    success: true,
+    claimed: (claimed ?? []).length,
+    sent: 0,
+    retrying: 0,
+    deadLettered: 0,
+    failures: [],
+  };
+
+  for (const row of (claimed ?? []) as OutboxRow[]) {
+    try {
+      await transport.send({
+        to: row.to_email,
+        from: row.from_email,
+        subject: row.subject,
+        content: row.body,
+        isHtml: row.is_html,
+        idempotencyKey: row.idempotency_key,
+      });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      const deadLettered = err instanceof PermanentEmailError || row.attempts >= row.max_attempts;
+      const at = now();
+
+      await updateOutboxRow(
+        supabase,
+        row.id,
+        deadLettered
+          ? { status: "dead", locked_at: null, last_error: message, updated_at: at.toISOString() }
+          : {
+              status: "pending",
+              locked_at: null,
+              last_error: message,
+              next_attempt_at: new Date(at.getTime() + retryDelayMs(row.attempts)).toISOString(),
+              updated_at: at.toISOString(),
+            }
+      );
+
+      if (deadLettered) {
+        result.deadLettered++;
+        console.error(`Dead-lettered email ${row.idempotency_key} after ${row.attempts} attempt(s): ${message}`);
+      } else {
+        result.retrying++;
+        console.warn(`Email ${row.idempotency_key} failed (attempt ${row.attempts}), will retry: ${message}`);
+      }
+      result.failures.push({
+        id: row.id,
+        idempotencyKey: row.idempotency_key,
+        attempts: row.attempts,
+        error: message,
+        deadLettered,
+      });
+      continue;
+    }
+
+    const at = now().toISOString();
+    await updateOutboxRow(supabase, row.id, {
+      status: "sent",
+      sent_at: at,
+      locked_at: null,
+      last_error: null,
+      updated_at: at,
+    });
+    result.sent++;
+  }
+
+  console.log(
+    `Email Outbox Summary (${transport.name}): ${result.sent} sent, ${result.retrying} retrying, ${result.deadLettered} dead-lettered`
+  );
+  return result;
+}
@@ -0,0 +1,47 @@
+// @ts-nocheck: Deno environment doesn't have full TypeScript support for edge functions
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { createTransportFromEnv } from "../_shared/emailTransports.ts";
+import { drainEmailOutbox } from "./email-outbox-worker-wrapper.ts";
+
+// Lazy initialization - only create when needed
+let supabase: any = null;
+
+function getSupabaseClient() {
+  if (!supabase) {
+    supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+  }
+  return supabase;
+}
+
+// Export for unit tests
+export { drainEmailOutbox };
+
+// Run on a schedule (e.g. every minute) after the reminder and digest jobs
+Deno.serve(async (_req: Request) => {
+  try {
+    const result = await drainEmailOutbox(getSupabaseClient(), createTransportFromEnv(), {
+      batchSize: Number(Deno.env.get("EMAIL_OUTBOX_BATCH_SIZE") ?? 50),
+    });
+
+    return new Response(JSON.stringify(result), {
+      headers: { "Content-Type": "application/json" },
+      status: 200,
+    });
+  } catch (err) {
+    console.error("Error in Deno.serve:", err);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        sent: 0,
+        error: err instanceof Error ? err.message : "Unknown error",
+      }),
+      {
+        headers: { "Content-Type": "application/json" },
+        status: 500,
+      }
+    );
+  }
+});
@@ -1,6 +1,6 @@
 // @ts-nocheck: Deno environment doesn't have full TypeScript support for edge functions
 import { createClient } from "npm:@supabase/supabase-js@2";
-import { sendEmail } from "../_shared/sendEmail.ts";
+import { createOutboxSender } from "../_shared/emailOutbox.ts";
 import { sendTaskReminders } from "./task-reminders-wrapper.ts";
 
 // Lazy initialization - only create when needed
@@ -24,7 +24,8 @@ Deno.serve(async (_req: Request) => {
     // Pass Deno env vars explicitly to the wrapper
     const result = await sendTaskReminders(
       getSupabaseClient(),
-      sendEmail,
+      // Emails are delivered by the email-outbox-worker function
+      createOutboxSender(getSupabaseClient()),
       {
         url: Deno.env.get("SUPABASE_URL") ?? "",
         serviceRoleKey: Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
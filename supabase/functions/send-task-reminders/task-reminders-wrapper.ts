@@ -1,6 +1,9 @@
 // This file contains the sendTaskReminders logic WITHOUT Deno imports
 // It can be imported by both Deno and Node.js/Vitest
 
+import { fetchNotificationPreferences, getQuietHoursEnd, isEmailEnabled } from "../_shared/notificationPreferences.ts";
+import { renderTaskReminderEmail, type ReminderType } from "../_shared/emailTemplates.ts";
+
 interface TaskAssignment {
   task_id: string;
   assignee_id: string;
@@ -22,7 +25,7 @@ interface EmailSentRecord {
   taskTitle: string;
   assigneeId: string;
   assigneeEmail: string;
-  reminderType: "due_today" | "due_tomorrow" | "overdue";
+  reminderType: ReminderType;
   sentAt: string;
 }
 
@@ -91,7 +94,7 @@ async function getUserEmail(
  * - Node.js runtime (Vitest integration tests)
  *
  * @param supabase - Supabase client instance
- * @param sendEmailFunc - Email sending function (SendGrid or mock)
+ * @param sendEmailFunc - Email delivery function (queues into the email outbox in production, or mock)
  * @param supabaseConfig - Required config with URL and service role key
  */
 export async function sendTaskReminders(
@@ -145,6 +148,9 @@ export async function sendTaskReminders(
       return { success: true, sent: 0, emailsSent: [] };
     }
 
+    // 3. Fetch notification preferences (deadline reminders can be turned off)
+    const preferences = await fetchNotificationPreferences(supabase);
+
     let sentCount = 0;
     const emailsSent: EmailSentRecord[] = [];
 
@@ -180,96 +186,22 @@ export async function sendTaskReminders(
         (sgNow.getTime() - deadlineSGT.getTime()) / (1000 * 60 * 60 * 24)
       );
 
-      let subject: string;
-      let content: string;
-      let reminderType: "due_today" | "due_tomorrow" | "overdue";
-      const taskLink = `https://x-men-rosy.vercel.app/task/${task.id}`;
-
+      let reminderType: ReminderType;
       if (diffDays === -1) {
         reminderType = "due_tomorrow";
-        subject = `Reminder: Task "${task.title}" is due tomorrow`;
-        content = `
-<html>
-  <body style="font-family: Arial, sans-serif; line-height: 1.6;">
-    <p>Hello,</p>
-    
-    <p>This is a reminder that your task <strong>"${task.title}"</strong> is due on <strong>${deadlineSGT
-          .toISOString()
-          .slice(0, 10)}</strong>.</p>
-    
-    <p>
-      <strong>Status:</strong> ${task.status ?? "N/A"}<br>
-      <strong>Priority Bucket:</strong> ${task.priority_bucket ?? "N/A"}<br>
-      <strong>Description:</strong> ${task.description ?? "No description provided"}<br>
-      <strong>Notes:</strong> ${task.notes ?? "No notes provided"}
-    </p>
-    
-    <p>Click <a href="${taskLink}" style="color: #357bdc; text-decoration: underline; font-weight: bold;">here</a> to view task</p>
-    
-    <p>Regards,<br>Task Reminder Bot</p>
-  </body>
-</html>
-        `;
       } else if (diffDays === 0) {
         reminderType = "due_today";
-        subject = `Reminder: Task "${task.title}" is due today`;
-        content = `
-<html>
-  <body style="font-family: Arial, sans-serif; line-height: 1.6;">
-    <p>Hello,</p>
-    
-    <p>Your task <strong>"${task.title}"</strong> is due today <strong>(${deadlineSGT
-          .toISOString()
-          .slice(0, 10)})</strong>.</p>
-    
-    <p>
-      <strong>Status:</strong> ${task.status ?? "N/A"}<br>
-      <strong>Priority Bucket:</strong> ${task.priority_bucket ?? "N/A"}<br>
-      <strong>Description:</strong> ${task.description ?? "No description provided"}<br>
-      <strong>Notes:</strong> ${task.notes ?? "No notes provided"}
-    </p>
-    
-    <p>Please complete this task before the deadline.</p>
-    
-    <p>Click <a href="${taskLink}" style="color: #357bdc; text-decoration: underline; font-weight: bold;">here</a> to view task</p>
-    
-    <p>Regards,<br>Task Reminder Bot</p>
-  </body>
-</html>
-        `;
       } else if (diffDays === 1) {
         reminderType = "overdue";
-        subject = `Overdue: Task "${task.title}" is past due`;
-        content = `
-<html>
-  <body style="font-family: Arial, sans-serif; line-height: 1.6;">
-    <p>Hello,</p>
-    
-    <p>Your task <strong>"${task.title}"</strong> was due on <strong>${deadlineSGT
-          .toISOString()
-          .slice(0, 10)}</strong> and is now overdue.</p>
-    
-    <p>
-      <strong>Status:</strong> ${task.status ?? "N/A"}<br>
-      <strong>Priority Bucket:</strong> ${task.priority_bucket ?? "N/A"}<br>
-      <strong>Description:</strong> ${task.description ?? "No description provided"}<br>
-      <strong>Notes:</strong> ${task.notes ?? "No notes provided"}
-    </p>
-    
-    <p><strong>Please take action immediately.</strong></p>
-    
-    <p>Click <a href="${taskLink}" style="color: #357bdc; text-decoration: underline; font-weight: bold;">here</a> to view task</p>
-    
-    <p>Regards,<br>Task Reminder Bot</p>
-  </body>
-</html>
-        `;
       } else {
         // Only send reminders for tomorrow, today, or overdue (1 day)
         continue;
       }
 
-      // 3. Find assignees for this task
+      const dueDate = deadlineSGT.toISOString().slice(0, 10);
+      const { subject, content } = renderTaskReminderEmail(reminderType, task, dueDate);
+
+      // 4. Find assignees for this task
       const taskAssignees = (assignments as TaskAssignment[]).filter(
         (assignment) => assignment.task_id === task.id
       );
@@ -280,6 +212,16 @@ export async function sendTaskReminders(
       }
 
       for (const assignment of taskAssignees) {
+        if (!isEmailEnabled(preferences, assignment.assignee_id, "deadline_reminder")) {
+          console.log(
+            `Assignee ${assignment.assignee_id} turned off deadline reminders, skipping task ${task.id}`
+          );
+          continue;
+        }
+
+        // Held until the end of the assignee's quiet hours, if they are in them
+        const quietHoursEnd = getQuietHoursEnd(preferences, assignment.assignee_id, now);
+
         // Use passed config (required, not optional)
         const email = await getUserEmail(
           assignment.assignee_id,
@@ -301,6 +243,9 @@ export async function sendTaskReminders(
             subject,
             content,
             isHtml: true,
+            // One reminder per task, assignee, kind and deadline day
+            idempotencyKey: `deadline_reminder:${task.id}:${assignment.assignee_id}:${reminderType}:${dueDate}`,
+            sendAt: quietHoursEnd?.toISOString(),
           });
 
           sentCount++;
@@ -314,11 +259,12 @@ export async function sendTaskReminders(
           });
 
           console.log(
-            `Email sent to ${email} for task "${task.title}" (${reminderType})`
+            `Email queued for ${email} for task "${task.title}" (${reminderType})` +
+              (quietHoursEnd ? `, held until ${quietHoursEnd.toISOString()} (quiet hours)` : "")
           );
         } catch (emailErr) {
           console.error(
-            `Failed to send email to ${email} for task ${task.id}:`,
+            `Failed to queue email to ${email} for task ${task.id}:`,
             emailErr instanceof Error ? emailErr.message : emailErr
           );
           // Continue to next assignment even if this one fails
@@ -326,7 +272,7 @@ export async function sendTaskReminders(
       }
     }
 
-    console.log(`\nTask Reminder Summary: ${sentCount} reminders sent`);
+    console.log(`\nTask Reminder Summary: ${sentCount} reminders queued`);
     return { success: true, sent: sentCount, emailsSent };
   } catch (err) {
     console.error("Error in sendTaskReminders:", err);
@@ -0,0 +1,243 @@
+-- Baseline schema: the tables, indexes and reference data previously created by
+-- the /seed route. Row level security lives in 0002 and triggers in 0003.
+
+CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
+
+-- ---------------- DEPARTMENTS ----------------
+
+CREATE TABLE departments (
+  id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  name VARCHAR(255) NOT NULL UNIQUE,
+  parent_department_id BIGINT NULL REFERENCES departments(id) ON DELETE SET NULL,
+  CONSTRAINT chk_dept_not_self CHECK (parent_department_id IS NULL OR parent_department_id <> id)
+);
+
+-- ---------------- USER INFO ----------------
+
+CREATE TABLE user_info (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  first_name VARCHAR(255) NOT NULL,
+  last_name  VARCHAR(255) NOT NULL,
+  default_view VARCHAR(20) NOT NULL DEFAULT 'tasks',
+  weekly_capacity INTEGER NOT NULL DEFAULT 40 CHECK (weekly_capacity BETWEEN 1 AND 200),
+  department_id BIGINT NOT NULL REFERENCES departments(id) ON DELETE RESTRICT,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE
+);
+
+-- ---------------- ROLES ----------------
+
+CREATE TABLE roles (
+  role VARCHAR(50) PRIMARY KEY,
+  CONSTRAINT roles_allowed_chk CHECK (role IN ('staff','manager','admin'))
+);
+
+-- Reference data: every environment needs these for user_roles
+INSERT INTO roles (role) VALUES ('staff'), ('manager'), ('admin');
+
+CREATE TABLE user_roles (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role    VARCHAR(50) NOT NULL REFERENCES roles(role) ON DELETE CASCADE,
+  PRIMARY KEY (user_id, role)
+);
+
+-- ---------------- TAGS ----------------
+
+CREATE TABLE tags (
+  id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  name VARCHAR(50) NOT NULL UNIQUE
+);
+
+-- ---------------- PROJECTS ----------------
+
+CREATE TABLE projects (
+  id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  name VARCHAR(255) NOT NULL UNIQUE,
+  is_archived BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE project_departments (
+  project_id BIGINT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  department_id BIGINT NOT NULL REFERENCES departments(id) ON DELETE CASCADE,
+  PRIMARY KEY (project_id, department_id)
+);
+
+-- ---------------- TASKS ----------------
+
+CREATE TABLE tasks (
+  id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  title VARCHAR(255) NOT NULL,
+  description TEXT,
+  priority_bucket INT NOT NULL CHECK (priority_bucket BETWEEN 1 AND 10),
+  status VARCHAR(15) CHECK (status IN ('To Do','In Progress','Completed','Blocked')),
+  creator_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_id BIGINT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  deadline TIMESTAMPTZ,
+  notes TEXT,
+  parent_task_id BIGINT NULL REFERENCES tasks(id) ON DELETE RESTRICT,
+  recurrence_interval INT NOT NULL DEFAULT 0,  -- recurrence in days/interval
+  recurrence_date TIMESTAMPTZ DEFAULT NULL, -- when recurrence starts
+  recurrence_rule TEXT DEFAULT NULL, -- RFC 5545 RRULE value, takes precedence over recurrence_interval
+  ical_uid TEXT DEFAULT NULL, -- UID of the iCalendar event/todo the task was imported from
+  logged_time BIGINT NOT NULL DEFAULT 0, -- time in seconds
+  is_archived BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT chk_task_not_self CHECK (parent_task_id IS NULL OR parent_task_id <> id)
+);
+
+-- Re-importing a calendar into a project updates the tasks created from it
+CREATE UNIQUE INDEX idx_tasks_project_ical_uid
+ON tasks (project_id, ical_uid) WHERE ical_uid IS NOT NULL;
+
+CREATE TABLE task_tags (
+  task_id BIGINT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  tag_id  BIGINT NOT NULL REFERENCES tags(id)  ON DELETE CASCADE,
+  PRIMARY KEY (task_id, tag_id)
+);
+
+CREATE TABLE task_assignments (
+  id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  task_id BIGINT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  assignee_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  assignor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE task_attachments (
+  id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  task_id BIGINT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL,
+  uploaded_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE SET NULL,
+  uploaded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT uq_task_file UNIQUE (task_id, storage_path)
+);
+
+CREATE TABLE task_comments (
+  id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  task_id BIGINT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  is_archived BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE TABLE task_activity (
+  id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  task_id BIGINT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  field VARCHAR(50) NOT NULL,
+  old_value TEXT,
+  new_value TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_task_activity_task_id ON task_activity (task_id, created_at DESC);
+
+-- Finish-to-start links between sibling tasks: the dependent should not start before
+-- the blocker is completed. Cycles are rejected by the service layer.
+CREATE TABLE task_dependencies (
+  id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  blocker_task_id BIGINT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  dependent_task_id BIGINT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT uq_task_dependency UNIQUE (blocker_task_id, dependent_task_id),
+  CONSTRAINT chk_task_dependency_not_self CHECK (blocker_task_id <> dependent_task_id)
+);
+
+CREATE INDEX idx_task_dependencies_dependent ON task_dependencies (dependent_task_id);
+
+-- ---------------- TIME ENTRIES ----------------
+
+CREATE TABLE time_entries (
+  id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  task_id BIGINT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  started_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ, -- NULL while the timer is running
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT chk_time_entry_range CHECK (ended_at IS NULL OR ended_at >= started_at)
+);
+
+-- At most one running timer per user
+CREATE UNIQUE INDEX idx_time_entries_one_running
+ON time_entries (user_id) WHERE ended_at IS NULL;
+
+CREATE INDEX idx_time_entries_task_id ON time_entries (task_id);
+
+-- ---------------- NOTIFICATIONS ----------------
+
+CREATE TABLE notifications (
+  id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  type VARCHAR(50) NOT NULL,
+  read BOOLEAN NOT NULL DEFAULT FALSE,
+  is_archived BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Realtime for the notification bell; the publication only exists on Supabase
+DO $do$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+  END IF;
+END $do$;
+
+-- ---------------- CALENDAR FEED TOKENS ----------------
+
+CREATE TABLE calendar_feed_tokens (
+  id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  token_hash CHAR(64) NOT NULL UNIQUE, -- SHA-256 of the secret in the feed URL
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ -- revoked tokens are kept so the list shows what was shared
+);
+
+CREATE INDEX idx_calendar_feed_tokens_user_id ON calendar_feed_tokens (user_id);
+
+-- ---------------- SAVED TASK VIEWS ----------------
+
+-- Named task list views (filters, sort, columns) stored as the list's URL query.
+-- A view can be shared read-only with the owner's department.
+CREATE TABLE saved_task_views (
+  id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  user_id UUID NOT NULL REFERENCES user_info(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  query TEXT NOT NULL DEFAULT '',
+  shared_department_id BIGINT REFERENCES departments(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT uq_saved_task_view_name UNIQUE (user_id, name)
+);
+
+CREATE INDEX idx_saved_task_views_department ON saved_task_views (shared_department_id);
+
+-- The view opened by default on the task list, next to the default_view page preference.
+-- Added here because saved_task_views references user_info.
+ALTER TABLE user_info
+ADD COLUMN default_task_view_id BIGINT REFERENCES saved_task_views(id) ON DELETE SET NULL;
+
+-- ---------------- ADMIN AUDIT LOG ----------------
+
+-- Changes made in the admin console: departments, users and role grants
+CREATE TABLE admin_audit_log (
+  id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  action VARCHAR(50) NOT NULL,
+  target_type VARCHAR(20) NOT NULL CHECK (target_type IN ('department','user')),
+  target_id TEXT NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_admin_audit_log_created_at ON admin_audit_log (created_at DESC);
@@ -0,0 +1,789 @@
+-- Row level security: enables RLS on every application table and creates the
+-- SECURITY DEFINER helpers and policies that enforce department visibility.
+
+ALTER TABLE user_info ENABLE ROW LEVEL SECURITY;
+ALTER TABLE departments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE user_roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_departments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_attachments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_activity ENABLE ROW LEVEL SECURITY;
+ALTER TABLE time_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_task_views ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_dependencies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Create basic RLS policies
+
+-- ---------------- USER INFO ----------------
+
+-- Security definer function that returns all colleagues in the same department:
+CREATE OR REPLACE FUNCTION can_view_user(target_user_id uuid, user_uuid uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  my_dept_id BIGINT;
+  target_dept_id BIGINT;
+BEGIN
+  -- Get the current user's department
+  SELECT department_id INTO my_dept_id FROM user_info WHERE id = user_uuid;
+  -- Get the target user's department
+  SELECT department_id INTO target_dept_id FROM user_info WHERE id = target_user_id;
+
+  -- 1. Colleagues in their department
+  IF target_dept_id = my_dept_id THEN
+    RETURN TRUE;
+  END IF;
+
+  -- 2. Users in descendant departments
+  IF EXISTS (
+    SELECT 1 FROM get_department_hierarchy(my_dept_id) d WHERE d.id = target_dept_id
+  ) THEN
+    RETURN TRUE;
+  END IF;
+
+  -- 3. Users who are assignees on tasks shared with my department mates
+  IF EXISTS (
+    SELECT 1
+    FROM task_assignments ta1
+    JOIN get_department_colleagues(user_uuid) colleagues ON ta1.assignee_id = colleagues.id
+    JOIN task_assignments ta2 ON ta1.task_id = ta2.task_id
+    WHERE ta2.assignee_id = target_user_id
+  ) THEN
+    RETURN TRUE;
+  END IF;
+
+  -- 4. Users who are creators of tasks visible to me
+  IF EXISTS (
+    SELECT 1
+    FROM tasks t
+    WHERE t.creator_id = target_user_id
+      AND is_task_visible_to_user(t.id, user_uuid)
+  ) THEN
+    RETURN TRUE;
+  END IF;
+
+  RETURN FALSE;
+END;
+$$;
+
+-- Security definer function to check if user can view a task
+-- This bypasses RLS to avoid circular dependency with task_assignments
+CREATE OR REPLACE FUNCTION is_task_visible_to_user(task_id_arg bigint, user_id_arg uuid)
+  RETURNS boolean
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+  BEGIN
+    IF user_id_arg != auth.uid() THEN
+      RETURN FALSE;
+    END IF;
+    RETURN
+      EXISTS (
+        SELECT 1 FROM tasks t WHERE t.id = task_id_arg AND t.creator_id = user_id_arg
+      )
+      OR EXISTS (
+        SELECT 1
+        FROM task_assignments ta
+        JOIN user_info ui ON ta.assignee_id = ui.id
+        WHERE ta.task_id = task_id_arg
+          AND ui.department_id = (SELECT department_id FROM user_info WHERE id = user_id_arg)
+      );
+  END;
+  $$;
+
+-- Create security definer function to get assignee info for visible tasks
+-- This allows users to see names of assignees on tasks they can view, even if from different departments
+CREATE OR REPLACE FUNCTION get_task_assignees_info(task_ids bigint[])
+  RETURNS TABLE(id uuid, first_name varchar, last_name varchar)
+  LANGUAGE sql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+    SELECT DISTINCT ui.id, ui.first_name, ui.last_name
+    FROM user_info ui
+    JOIN task_assignments ta ON ta.assignee_id = ui.id
+    WHERE ta.task_id = ANY(task_ids)
+      AND is_task_visible_to_user(ta.task_id, auth.uid());
+  $$;
+
+-- Task IDs visible to a user, for server-side readers that act on a user's behalf
+-- without their session (e.g. calendar feeds). It returns the tasks of whichever user
+-- is passed in: auth.uid() is NULL for the service role and for anonymous callers, so
+-- the check in is_task_visible_to_user does not apply.
+CREATE OR REPLACE FUNCTION get_visible_task_ids(user_id_arg uuid)
+  RETURNS SETOF bigint
+  LANGUAGE sql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+    SELECT t.id
+    FROM tasks t
+    WHERE t.is_archived = FALSE
+      AND is_task_visible_to_user(t.id, user_id_arg);
+  $$;
+
+-- Called by the API with the service role only
+REVOKE EXECUTE ON FUNCTION get_visible_task_ids(uuid)
+  FROM PUBLIC, anon, authenticated;
+
+-- Create stored procedure to create a task with assignments in a single transaction
+-- This ensures the deferred trigger waits for all inserts before checking
+CREATE OR REPLACE FUNCTION create_task_with_assignments(
+  p_title VARCHAR(255),
+  p_description TEXT,
+  p_priority_bucket INT,
+  p_status VARCHAR(15),
+  p_deadline TIMESTAMPTZ,
+  p_notes TEXT,
+  p_project_id BIGINT,
+  p_creator_id UUID,
+  p_recurrence_interval INT,
+  p_recurrence_date TIMESTAMPTZ,
+  p_assignee_ids UUID[],
+  p_recurrence_rule TEXT DEFAULT NULL,
+  p_ical_uid TEXT DEFAULT NULL
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_task_id BIGINT;
+  v_assignee_id UUID;
+BEGIN
+  -- Insert the task
+  INSERT INTO tasks (
+    title, description, priority_bucket, status, deadline, notes,
+    project_id, creator_id, recurrence_interval, recurrence_date, recurrence_rule, ical_uid, is_archived
+  )
+  VALUES (
+    p_title, p_description, p_priority_bucket, p_status, p_deadline, p_notes,
+    p_project_id, p_creator_id, p_recurrence_interval, p_recurrence_date, p_recurrence_rule, p_ical_uid, FALSE
+  )
+  RETURNING id INTO v_task_id;
+
+  -- Insert task assignments
+  FOREACH v_assignee_id IN ARRAY p_assignee_ids
+  LOOP
+    INSERT INTO task_assignments (task_id, assignee_id, assignor_id)
+    VALUES (v_task_id, v_assignee_id, p_creator_id);
+  END LOOP;
+
+  -- Return the task ID
+  RETURN v_task_id;
+END;
+$$;
+
+-- User Info: Users can see colleagues in their department
+CREATE POLICY "Users can view colleagues, descendants, and shared task assignees"
+ON user_info
+FOR SELECT
+USING (
+  can_view_user(user_info.id, auth.uid())
+);
+
+-- Allow a user to view and update their own settings row
+CREATE POLICY "Users can update own settings" ON user_info
+FOR UPDATE
+USING (id = auth.uid())
+WITH CHECK (id = auth.uid());
+
+-- ---------------- USER ROLES ----------------
+
+-- Security definer function to check if user has a specific role
+-- This bypasses RLS to avoid circular dependency
+CREATE OR REPLACE FUNCTION user_has_role(user_uuid uuid, role_name text)
+  RETURNS boolean
+  LANGUAGE sql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+    SELECT EXISTS (
+      SELECT 1 FROM user_roles
+      WHERE user_id = user_uuid AND role = role_name
+    );
+  $$;
+
+-- SECURITY DEFINER helper to check admin status without triggering recursive RLS evaluation
+CREATE OR REPLACE FUNCTION is_admin(u uuid)
+RETURNS boolean
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_roles ur
+    WHERE ur.user_id = u AND ur.role = 'admin'
+  );
+$$;
+
+-- Granular, non-recursive policies
+-- 1. Regular users can see only their own roles
+CREATE POLICY "Users view own roles" ON user_roles
+FOR SELECT
+USING (user_id = auth.uid());
+
+-- 2. Admins can see all roles
+CREATE POLICY "Admins view all roles" ON user_roles
+FOR SELECT
+USING (is_admin(auth.uid()));
+
+-- 3. Admins can grant (insert) roles to any user
+CREATE POLICY "Admins grant roles" ON user_roles
+FOR INSERT
+WITH CHECK (is_admin(auth.uid()));
+
+-- 4. Admins can revoke (delete) roles from any user
+CREATE POLICY "Admins revoke roles" ON user_roles
+FOR DELETE
+USING (is_admin(auth.uid()));
+
+-- 5. (Optional) Admins can update existing role rows (rarely used; included for completeness)
+CREATE POLICY "Admins update roles" ON user_roles
+FOR UPDATE
+USING (is_admin(auth.uid()))
+WITH CHECK (is_admin(auth.uid()));
+
+-- ---------------- TASKS ----------------
+
+-- Users can create tasks they own
+CREATE POLICY "Users can create their own tasks" ON tasks
+FOR INSERT
+WITH CHECK (auth.uid() = creator_id);
+
+-- Task creators and assignees can update tasks (details, status, priority_bucket, recurrence_interval)
+CREATE POLICY "Task creators and assignees can update tasks" ON tasks
+FOR UPDATE
+USING (
+  auth.uid() = creator_id
+  OR EXISTS (
+    SELECT 1 FROM task_assignments
+    WHERE task_id = tasks.id
+    AND assignee_id = auth.uid()
+  )
+)
+WITH CHECK (
+  auth.uid() = creator_id
+  OR EXISTS (
+    SELECT 1 FROM task_assignments
+    WHERE task_id = tasks.id
+    AND assignee_id = auth.uid()
+  )
+);
+
+-- Tasks: Users can see tasks in their department
+-- Uses SECURITY DEFINER function to avoid circular RLS dependency with task_assignments
+CREATE POLICY "Users can view tasks assigned to their department" ON tasks
+FOR SELECT
+USING (is_task_visible_to_user(id, auth.uid()));
+
+-- Tasks: Only admins can archive tasks
+CREATE POLICY "Admins can archive tasks" ON tasks
+FOR UPDATE
+USING (user_has_role(auth.uid(), 'admin'))
+WITH CHECK (is_archived = true);
+
+-- ---------------- PROJECTS ----------------
+
+-- Projects: Users can see projects linked to their their department
+CREATE POLICY "Users can view projects linked to tasks in their department" ON projects
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1
+    FROM tasks t
+    JOIN task_assignments ta ON ta.task_id = t.id
+    JOIN user_info ui ON ui.id = ta.assignee_id
+    WHERE t.project_id = projects.id
+      AND ui.department_id = (SELECT department_id FROM user_info WHERE id = auth.uid())
+  )
+);
+
+-- Projects: Managers and admins can create new projects
+CREATE POLICY "Managers and admins can create projects" ON projects
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM user_roles
+    WHERE user_id = auth.uid() AND role IN ('manager','admin')
+  )
+);
+
+-- Project-Departments: Managers/Admins can link a project to their own department
+CREATE POLICY "Managers and admins can link projects to own department" ON project_departments
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM user_roles ur
+    WHERE ur.user_id = auth.uid() AND ur.role IN ('manager','admin')
+  )
+  AND department_id = (
+    SELECT department_id FROM user_info WHERE id = auth.uid()
+  )
+);
+
+-- ---------------- NOTIFICATIONS ----------------
+
+-- Notifications: Users can see all their own notifications (archived and non-archived)
+-- Application code filters is_archived = false when listing notifications
+CREATE POLICY "Users can view own notifications" ON notifications
+FOR SELECT USING (auth.uid() = user_id);
+
+-- Notifications: Users can update (mark as read, archive, unarchive) their own notifications
+CREATE POLICY "Users can update own notifications" ON notifications
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Notifications: Users can delete their own notifications
+CREATE POLICY "Users can delete own notifications" ON notifications
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Notifications: INSERT policy - Allow system to create notifications for any user
+-- This policy allows notifications to be created by triggers or server-side code
+-- without requiring auth.uid() to match, since notifications are created FOR users, not BY users
+CREATE POLICY "System can create notifications" ON notifications
+FOR INSERT
+WITH CHECK (true);
+
+-- ---------------- DEPARTMENTS ----------------
+
+-- Security definer function to get full department hierarchy (upwards and downwards)
+CREATE OR REPLACE FUNCTION get_department_hierarchy(dept_id BIGINT)
+RETURNS TABLE(id BIGINT, name VARCHAR(255), parent_department_id BIGINT) AS $$
+BEGIN
+  RETURN QUERY
+  WITH RECURSIVE dept_tree AS (
+    SELECT d.id, d.name, d.parent_department_id, ARRAY[d.id] AS path
+    FROM departments d
+    WHERE d.id = dept_id
+    UNION ALL
+    SELECT d.id, d.name, d.parent_department_id, dt.path || d.id
+    FROM departments d
+    INNER JOIN dept_tree dt ON d.parent_department_id = dt.id
+    WHERE NOT d.id = ANY(dt.path)
+  )
+  SELECT dept_tree.id, dept_tree.name, dept_tree.parent_department_id FROM dept_tree;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Security definer function to get all colleagues in the same department hierarchy
+CREATE OR REPLACE FUNCTION get_department_colleagues(user_uuid uuid)
+RETURNS TABLE(id uuid) AS $$
+DECLARE
+  user_dept_id BIGINT;
+BEGIN
+  -- Get the user's department ID first
+  SELECT department_id INTO user_dept_id FROM user_info WHERE user_info.id = user_uuid;
+
+  -- Return all users in the same department hierarchy
+  RETURN QUERY
+  SELECT ui.id
+  FROM user_info ui
+  WHERE ui.department_id IN (
+    SELECT dept.id
+    FROM get_department_hierarchy(user_dept_id) dept
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Departments: Users can view departments in their hierarchy and departments of users sharing tasks
+CREATE POLICY "Users can view their department hierarchy and shared task departments"
+ON departments
+FOR SELECT
+USING (
+  -- User's department hierarchy (including their own department)
+  id IN (
+    SELECT d.id
+    FROM get_department_hierarchy(
+      (SELECT department_id FROM user_info WHERE id = auth.uid())
+    ) d
+  )
+  OR
+  -- Departments of users who share tasks with user's department colleagues
+  id IN (
+    SELECT DISTINCT ui.department_id
+    FROM task_assignments ta1
+    -- Tasks assigned to user's department colleagues
+    JOIN get_department_colleagues(auth.uid()) colleagues ON ta1.assignee_id = colleagues.id
+    -- All assignees on those shared tasks
+    JOIN task_assignments ta2 ON ta1.task_id = ta2.task_id
+    -- Departments of those assignees
+    JOIN user_info ui ON ta2.assignee_id = ui.id
+    WHERE ui.department_id IS NOT NULL
+  )
+);
+
+-- ---------------- PROJECT_DEPARTMENTS ----------------
+
+-- Departments: Users can view project-department links for projects with their colleagues
+CREATE POLICY "Users can view project-department links for projects with their colleagues"
+ON project_departments
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1
+    FROM task_assignments ta
+    JOIN user_info u ON ta.assignee_id = u.id
+    WHERE u.department_id = (
+      SELECT department_id FROM user_info me WHERE me.id = auth.uid()
+    )
+    AND ta.task_id IN (
+      SELECT t.id FROM tasks t WHERE t.project_id = project_departments.project_id
+    )
+  )
+);
+
+-- ---------------- ROLES ----------------
+
+-- Roles: Read-only access for roles (commonly referenced)
+CREATE POLICY "Users can view roles" ON roles
+FOR SELECT USING (true);
+
+-- ---------------- TAGS ----------------
+
+-- Tags: Read-only access for tags (commonly referenced)
+CREATE POLICY "Users can view tags" ON tags
+FOR SELECT USING (true);
+
+-- ---------------- TASK ASSIGNMENTS ----------------
+
+-- Task Assignments: Users can view assignments for tasks they can see
+CREATE POLICY "Users can view assignments for visible tasks" ON task_assignments
+FOR SELECT
+USING (
+  is_task_visible_to_user(task_id, auth.uid())
+  OR assignee_id = auth.uid()
+);
+
+-- Task Assignments: Users can assign assignees to tasks
+-- Allows task creators to add assignments (for NEW tasks) OR users to add assignments to existing tasks in their department
+CREATE POLICY "Users can assign other users for tasks in their department"
+ON task_assignments
+FOR INSERT
+WITH CHECK (
+  assignor_id = auth.uid()
+  AND (
+    -- Allow task creator to add assignments (they own the task)
+    EXISTS (
+      SELECT 1
+      FROM tasks t
+      WHERE t.id = task_assignments.task_id
+        AND t.creator_id = auth.uid()
+    )
+    OR
+    -- Allow users to add assignments if project is already linked to their department
+    EXISTS (
+      SELECT 1
+      FROM tasks t
+      JOIN project_departments pd ON pd.project_id = t.project_id
+      WHERE t.id = task_assignments.task_id
+        AND pd.department_id = (SELECT department_id FROM user_info WHERE id = auth.uid())
+    )
+  )
+);
+
+-- Task Assignments: Users can remove assignments from tasks in their department
+CREATE POLICY "Users can remove assignments from tasks in their department"
+ON task_assignments
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1
+    FROM tasks t
+    JOIN project_departments pd ON pd.project_id = t.project_id
+    WHERE t.id = task_assignments.task_id
+      AND pd.department_id = (SELECT department_id FROM user_info WHERE id = auth.uid())
+  )
+);
+
+-- ---------------- TASK ATTACHMENTS ----------------
+
+-- Select: assignees of the task OR the uploader can view
+CREATE POLICY "Assignees can view task attachments"
+ON task_attachments
+FOR SELECT
+USING (
+  uploaded_by = auth.uid()
+  OR EXISTS (
+    SELECT 1
+    FROM task_assignments ta
+    WHERE ta.task_id = task_attachments.task_id
+      AND ta.assignee_id = auth.uid()
+  )
+);
+
+-- Insert: assignees of the task can add attachments (uploaded_by must be the actor)
+CREATE POLICY "Assignees can add task attachments"
+ON task_attachments
+FOR INSERT
+WITH CHECK (
+  uploaded_by = auth.uid()
+  AND EXISTS (
+    SELECT 1
+    FROM task_assignments ta
+    WHERE ta.task_id = task_attachments.task_id
+      AND ta.assignee_id = auth.uid()
+  )
+);
+
+-- Delete: assignees of the task can remove attachments
+CREATE POLICY "Assignees can remove task attachments"
+ON task_attachments
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1
+    FROM task_assignments ta
+    WHERE ta.task_id = task_attachments.task_id
+      AND ta.assignee_id = auth.uid()
+  )
+);
+
+-- ---------------- TASK COMMENTS ----------------
+
+-- Task Comments: Users can view their own comments or comments on tasks in their department
+CREATE POLICY "Users can view comments on tasks in their department"
+ON task_comments
+FOR SELECT
+USING (
+  user_id = auth.uid()
+  OR EXISTS (
+    SELECT 1
+    FROM tasks t
+    JOIN project_departments pd ON pd.project_id = t.project_id
+    WHERE t.id = task_comments.task_id
+      AND pd.department_id = (SELECT department_id FROM user_info WHERE id = auth.uid())
+  )
+);
+
+-- Task Comments: Staff can comment only if assigned, managers can comment on any task in their departments
+CREATE POLICY "Users can comment on tasks they are assigned to or manage"
+ON task_comments
+FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  AND (
+    EXISTS (
+      SELECT 1
+      FROM task_assignments ta
+      WHERE ta.task_id = task_comments.task_id
+        AND ta.assignee_id = auth.uid()
+    )
+    OR
+    EXISTS (
+      SELECT 1
+      FROM user_roles ur
+      JOIN user_info ui ON ur.user_id = ui.id
+      JOIN project_departments pd ON pd.department_id = ui.department_id
+      JOIN tasks t ON t.project_id = pd.project_id
+      WHERE ur.role = 'manager'
+        AND ur.user_id = auth.uid()
+        AND t.id = task_comments.task_id
+    )
+  )
+);
+
+-- Task Comments: Users can only edit their own comments
+CREATE POLICY "Users can edit own comments"
+ON task_comments
+FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+-- Task Comments: Only admins are allowed to delete comments
+CREATE POLICY "Admins can delete comments"
+ON task_comments
+FOR DELETE
+USING (user_has_role(auth.uid(), 'admin'));
+
+-- ---------------- TASK ACTIVITY ----------------
+
+-- Task Activity: Anyone who can see the task can read its history
+CREATE POLICY "Users can view activity for visible tasks"
+ON task_activity
+FOR SELECT
+USING (is_task_visible_to_user(task_id, auth.uid()));
+
+-- Task Activity: No INSERT/UPDATE/DELETE policies - rows are written by the service layer
+-- with the service role so the audit trail cannot be edited through the API
+
+-- ---------------- ADMIN AUDIT LOG ----------------
+
+-- Admin Audit Log: Only admins can read it; like task activity it is written with the service role
+CREATE POLICY "Admins can view the admin audit log"
+ON admin_audit_log
+FOR SELECT
+USING (is_admin(auth.uid()));
+
+-- ---------------- TIME ENTRIES ----------------
+
+-- Time Entries: Users can view entries on tasks they can see
+CREATE POLICY "Users can view time entries for visible tasks"
+ON time_entries
+FOR SELECT
+USING (
+  user_id = auth.uid()
+  OR is_task_visible_to_user(task_id, auth.uid())
+);
+
+-- Time Entries: Users can only log time for themselves on tasks they can see
+CREATE POLICY "Users can log their own time"
+ON time_entries
+FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  AND is_task_visible_to_user(task_id, auth.uid())
+);
+
+-- Time Entries: Users can only edit or delete their own entries
+CREATE POLICY "Users can edit own time entries"
+ON time_entries
+FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own time entries"
+ON time_entries
+FOR DELETE
+USING (user_id = auth.uid());
+
+-- ---------------- TASK DEPENDENCIES ----------------
+
+-- Task Dependencies: Visible when both tasks are visible
+CREATE POLICY "Users can view dependencies between visible tasks"
+ON task_dependencies
+FOR SELECT
+USING (
+  is_task_visible_to_user(blocker_task_id, auth.uid())
+  AND is_task_visible_to_user(dependent_task_id, auth.uid())
+);
+
+-- Task Dependencies: Users can link and unlink tasks they can see
+CREATE POLICY "Users can add dependencies between visible tasks"
+ON task_dependencies
+FOR INSERT
+WITH CHECK (
+  created_by = auth.uid()
+  AND is_task_visible_to_user(blocker_task_id, auth.uid())
+  AND is_task_visible_to_user(dependent_task_id, auth.uid())
+);
+
+CREATE POLICY "Users can remove dependencies between visible tasks"
+ON task_dependencies
+FOR DELETE
+USING (
+  is_task_visible_to_user(blocker_task_id, auth.uid())
+  AND is_task_visible_to_user(dependent_task_id, auth.uid())
+);
+
+-- ---------------- CALENDAR FEED TOKENS ----------------
+
+-- Calendar Feed Tokens: Users manage (create, list, revoke) only their own tokens.
+-- Feed requests are resolved by token hash with the service role.
+CREATE POLICY "Users can view own calendar feed tokens"
+ON calendar_feed_tokens
+FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own calendar feed tokens"
+ON calendar_feed_tokens
+FOR INSERT
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can revoke own calendar feed tokens"
+ON calendar_feed_tokens
+FOR UPDATE USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+
+-- ---------------- SAVED TASK VIEWS ----------------
+
+-- Saved Task Views: Owners manage their views; members of the department a view
+-- is shared with can see (and use) it.
+CREATE POLICY "Users can view own and department-shared task views"
+ON saved_task_views
+FOR SELECT
+USING (
+  user_id = auth.uid()
+  OR shared_department_id = (SELECT department_id FROM user_info WHERE id = auth.uid())
+);
+
+CREATE POLICY "Users can create own task views"
+ON saved_task_views
+FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  AND (
+    shared_department_id IS NULL
+    OR shared_department_id = (SELECT department_id FROM user_info WHERE id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can update own task views"
+ON saved_task_views
+FOR UPDATE
+USING (user_id = auth.uid())
+WITH CHECK (
+  user_id = auth.uid()
+  AND (
+    shared_department_id IS NULL
+    OR shared_department_id = (SELECT department_id FROM user_info WHERE id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can delete own task views"
+ON saved_task_views
+FOR DELETE
+USING (user_id = auth.uid());
+
+-- ---------------- TASK TAGS ----------------
+
+-- Anyone can view task tags (as long as they can see the task)
+CREATE POLICY "Users can view tags in their own department tasks"
+ON task_tags
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1
+    FROM tasks t
+    JOIN project_departments pd ON pd.project_id = t.project_id
+    WHERE t.id = task_tags.task_id
+      AND pd.department_id = (SELECT department_id FROM user_info WHERE id = auth.uid())
+  )
+);
+
+-- Anyone can add tags to tasks in their departments
+CREATE POLICY "Users can add tags in their own deparment tasks"
+ON task_tags
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1
+    FROM tasks t
+    JOIN project_departments pd ON pd.project_id = t.project_id
+    WHERE t.id = task_tags.task_id
+      AND pd.department_id = (SELECT department_id FROM user_info WHERE id = auth.uid())
+  )
+);
+
+-- Anyone can remove tags from tasks in their departments
+CREATE POLICY "Users can remove tags in their own department tasks"
+ON task_tags
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1
+    FROM tasks t
+    JOIN project_departments pd ON pd.project_id = t.project_id
+    WHERE t.id = task_tags.task_id
+      AND pd.department_id = (SELECT department_id FROM user_info WHERE id = auth.uid())
+  )
+);
@@ -0,0 +1,4 @@
+-- Storage bucket for task attachments (public for easy file access)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('task-attachments', 'task-attachments', true)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,134 @@
+-- Notification preferences: per-event in-app/email toggles, quiet hours and
+-- digest frequency. Users without rows get every notification (the previous
+-- behaviour) and a daily digest.
+
+-- One row per user for settings that are not tied to an event type.
+-- Quiet hours are wall-clock times in Singapore time, like every other time in
+-- the app; a window may wrap midnight (e.g. 22:00-07:00).
+CREATE TABLE notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES user_info(id) ON DELETE CASCADE,
+  quiet_hours_start TIME,
+  quiet_hours_end TIME,
+  digest_frequency VARCHAR(10) NOT NULL DEFAULT 'daily' CHECK (digest_frequency IN ('off', 'daily', 'weekly')),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL)),
+  CHECK (quiet_hours_start <> quiet_hours_end)
+);
+
+-- Channel toggles per event type; a missing row means both channels are on
+CREATE TABLE notification_event_preferences (
+  user_id UUID NOT NULL REFERENCES user_info(id) ON DELETE CASCADE,
+  event_type VARCHAR(50) NOT NULL,
+  in_app BOOLEAN NOT NULL DEFAULT TRUE,
+  email BOOLEAN NOT NULL DEFAULT TRUE,
+  PRIMARY KEY (user_id, event_type)
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_event_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notification preferences"
+ON notification_preferences
+FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own notification preferences"
+ON notification_preferences
+FOR INSERT
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own notification preferences"
+ON notification_preferences
+FOR UPDATE
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can view own notification event preferences"
+ON notification_event_preferences
+FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own notification event preferences"
+ON notification_event_preferences
+FOR INSERT
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own notification event preferences"
+ON notification_event_preferences
+FOR UPDATE
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+-- Which preference a notification falls under. The notify_* trigger functions
+-- do not set it themselves; it is derived from their fixed titles on insert.
+ALTER TABLE notifications ADD COLUMN event_type VARCHAR(50);
+
+CREATE OR REPLACE FUNCTION notification_event_type(p_title TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE p_title
+        WHEN 'New Task Assignment' THEN 'assignment'
+        WHEN 'Task Assignee Added' THEN 'assignment'
+        WHEN 'Task Assignee Removed' THEN 'assignment'
+        WHEN 'New Comment' THEN 'comment'
+        WHEN 'Comment Removed' THEN 'comment'
+        WHEN 'Task Updated' THEN 'task_update'
+        WHEN 'Tag Added' THEN 'tag'
+        WHEN 'Tag Removed' THEN 'tag'
+        WHEN 'Attachment Added' THEN 'attachment'
+        WHEN 'Attachment Removed' THEN 'attachment'
+        WHEN 'Sub-task Created' THEN 'subtask'
+        ELSE NULL
+    END
+$$;
+
+UPDATE notifications SET event_type = notification_event_type(title) WHERE event_type IS NULL;
+
+-- Whether a user wants notifications of this type on a channel ('in_app' or 'email')
+-- SECURITY DEFINER so triggers running as another user can read the recipient's rows
+CREATE OR REPLACE FUNCTION notification_channel_enabled(p_user_id UUID, p_event_type TEXT, p_channel TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(
+        (
+            SELECT CASE p_channel WHEN 'in_app' THEN in_app WHEN 'email' THEN email END
+            FROM notification_event_preferences
+            WHERE user_id = p_user_id AND event_type = p_event_type
+        ),
+        TRUE
+    )
+$$;
+
+-- Drops in-app notifications the recipient has turned off. Runs for every insert,
+-- so the notify_* triggers and server-side inserts all honour the preferences.
+-- Notifications without an event type (none of the known titles) are always kept.
+CREATE OR REPLACE FUNCTION apply_notification_preferences()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.event_type IS NULL THEN
+        NEW.event_type := notification_event_type(NEW.title);
+    END IF;
+
+    IF NEW.event_type IS NOT NULL
+       AND NOT notification_channel_enabled(NEW.user_id, NEW.event_type, 'in_app') THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_apply_notification_preferences
+BEFORE INSERT ON notifications
+FOR EACH ROW
+EXECUTE FUNCTION apply_notification_preferences();
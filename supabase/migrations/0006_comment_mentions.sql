@@ -0,0 +1,158 @@
+-- @mentions in task comments. The comment text keeps the readable "@First Last"
+-- form; the users it refers to are stored alongside it so renames and duplicate
+-- names cannot change who was mentioned.
+
+ALTER TABLE task_comments ADD COLUMN mentioned_user_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- Task visibility for an arbitrary user, without the auth.uid() guard of
+-- is_task_visible_to_user. Only for SECURITY DEFINER code (e.g. triggers deciding
+-- who may be notified), so clients cannot probe what other users can see.
+CREATE OR REPLACE FUNCTION task_visible_to(task_id_arg bigint, user_id_arg uuid)
+  RETURNS boolean
+  LANGUAGE sql
+  STABLE
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+    SELECT
+      EXISTS (
+        SELECT 1 FROM tasks t WHERE t.id = task_id_arg AND t.creator_id = user_id_arg
+      )
+      OR EXISTS (
+        SELECT 1
+        FROM task_assignments ta
+        JOIN user_info ui ON ta.assignee_id = ui.id
+        WHERE ta.task_id = task_id_arg
+          AND ui.department_id = (SELECT department_id FROM user_info WHERE id = user_id_arg)
+      );
+  $$;
+
+REVOKE EXECUTE ON FUNCTION task_visible_to(bigint, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Same rule as before, now defined once in task_visible_to
+CREATE OR REPLACE FUNCTION is_task_visible_to_user(task_id_arg bigint, user_id_arg uuid)
+  RETURNS boolean
+  LANGUAGE plpgsql
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+  BEGIN
+    IF user_id_arg != auth.uid() THEN
+      RETURN FALSE;
+    END IF;
+    RETURN task_visible_to(task_id_arg, user_id_arg);
+  END;
+  $$;
+
+-- Mentioned assignees get the mention notification instead of the generic one
+CREATE OR REPLACE FUNCTION notify_new_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    task_title_var TEXT;
+    commenter_first_name TEXT;
+    commenter_last_name TEXT;
+    commenter_full_name TEXT;
+    assignee_record RECORD;
+BEGIN
+    -- Get task title (bypass RLS)
+    SELECT title INTO task_title_var
+    FROM tasks
+    WHERE id = NEW.task_id;
+
+    -- Get commenter name (bypass RLS)
+    SELECT first_name, last_name INTO commenter_first_name, commenter_last_name
+    FROM user_info
+    WHERE id = NEW.user_id;
+
+    IF commenter_first_name IS NOT NULL AND commenter_last_name IS NOT NULL THEN
+        commenter_full_name := commenter_first_name || ' ' || commenter_last_name;
+    ELSE
+        commenter_full_name := 'Someone';
+    END IF;
+
+    -- Create notifications for all assignees except the commenter and mentioned users
+    FOR assignee_record IN
+        SELECT assignee_id
+        FROM task_assignments
+        WHERE task_id = NEW.task_id
+          AND assignee_id != NEW.user_id
+          AND NOT (assignee_id = ANY(NEW.mentioned_user_ids))
+    LOOP
+        INSERT INTO notifications (user_id, title, message, type, read, created_at, updated_at)
+        VALUES (
+            assignee_record.assignee_id,
+            'New Comment',
+            commenter_full_name || ' commented on task: "' || task_title_var || '"',
+            'task_updated',
+            false,
+            NOW(),
+            NOW()
+        );
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Notifies users mentioned in a new comment, or newly mentioned when it is edited.
+-- Users who cannot see the task are not notified (the mention is still stored).
+CREATE OR REPLACE FUNCTION notify_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    task_title_var TEXT;
+    commenter_first_name TEXT;
+    commenter_last_name TEXT;
+    commenter_full_name TEXT;
+    mentioned_id UUID;
+BEGIN
+    SELECT title INTO task_title_var
+    FROM tasks
+    WHERE id = NEW.task_id;
+
+    SELECT first_name, last_name INTO commenter_first_name, commenter_last_name
+    FROM user_info
+    WHERE id = NEW.user_id;
+
+    IF commenter_first_name IS NOT NULL AND commenter_last_name IS NOT NULL THEN
+        commenter_full_name := commenter_first_name || ' ' || commenter_last_name;
+    ELSE
+        commenter_full_name := 'Someone';
+    END IF;
+
+    FOR mentioned_id IN
+        SELECT DISTINCT m.id
+        FROM unnest(NEW.mentioned_user_ids) AS m(id)
+        WHERE m.id != NEW.user_id
+          AND (TG_OP = 'INSERT' OR NOT (m.id = ANY(OLD.mentioned_user_ids)))
+    LOOP
+        IF task_visible_to(NEW.task_id, mentioned_id) THEN
+            INSERT INTO notifications (user_id, title, message, type, event_type, read, created_at, updated_at)
+            VALUES (
+                mentioned_id,
+                'Mentioned in Comment',
+                commenter_full_name || ' mentioned you in a comment on task: "' || task_title_var || '"',
+                'mention',
+                'mention',
+                false,
+                NOW(),
+                NOW()
+            );
+        END IF;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_notify_comment_mentions
+AFTER INSERT OR UPDATE OF mentioned_user_ids ON task_comments
+FOR EACH ROW
+EXECUTE FUNCTION notify_comment_mentions();
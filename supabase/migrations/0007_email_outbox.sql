@@ -0,0 +1,68 @@
+-- Outbox for notification emails. The reminder and digest functions enqueue
+-- messages here instead of calling the email provider directly; the
+-- email-outbox-worker function delivers them, retrying failures with
+-- exponential backoff and dead-lettering a message after max_attempts.
+--
+-- idempotency_key identifies the logical email (e.g. one reminder per task,
+-- assignee, kind and day), so re-running a job does not enqueue it twice.
+
+CREATE TABLE email_outbox (
+  id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  idempotency_key TEXT NOT NULL UNIQUE,
+  to_email TEXT NOT NULL,
+  from_email TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL,
+  is_html BOOLEAN NOT NULL DEFAULT TRUE,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sending', 'sent', 'dead')),
+  attempts INT NOT NULL DEFAULT 0,
+  max_attempts INT NOT NULL DEFAULT 5 CHECK (max_attempts > 0),
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_email_outbox_due ON email_outbox (next_attempt_at) WHERE status = 'pending';
+CREATE INDEX idx_email_outbox_dead ON email_outbox (updated_at) WHERE status = 'dead';
+
+-- Service role only: no policies, so signed-in users cannot read queued emails
+ALTER TABLE email_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Claims up to batch_size due messages for delivery, marking them 'sending' and
+-- counting the attempt. SKIP LOCKED lets overlapping worker runs share the queue;
+-- a message stuck in 'sending' (worker crashed) is claimed again after
+-- lock_timeout.
+CREATE OR REPLACE FUNCTION claim_email_outbox(
+  batch_size INT DEFAULT 50,
+  lock_timeout INTERVAL DEFAULT INTERVAL '10 minutes'
+)
+RETURNS SETOF email_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE email_outbox o
+  SET status = 'sending',
+      attempts = o.attempts + 1,
+      locked_at = NOW(),
+      updated_at = NOW()
+  WHERE o.id IN (
+    SELECT id
+    FROM email_outbox
+    WHERE (status = 'pending' AND next_attempt_at <= NOW())
+       OR (status = 'sending' AND locked_at < NOW() - lock_timeout)
+    ORDER BY next_attempt_at, id
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_email_outbox(INT, INTERVAL) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,9 @@
+-- Task attachments are no longer world-readable. The bucket becomes private
+-- and files are served by GET /api/tasks/[id]/attachments/[attachmentId],
+-- which checks is_task_visible_to_user and redirects to a short-lived signed
+-- URL. No storage.objects policies are added: only the service role reads or
+-- writes the bucket.
+
+UPDATE storage.buckets
+SET public = false
+WHERE id = 'task-attachments';
@@ -0,0 +1,146 @@
+-- Attachment metadata: original file name, size, content type sniffed from the
+-- file's magic bytes (not the browser-declared MIME type) and a SHA-256 of the
+-- contents. Rows uploaded before this migration keep NULL type and hash; their
+-- name and size are recovered from the storage path and storage metadata.
+
+ALTER TABLE task_attachments
+  ADD COLUMN file_name TEXT,
+  ADD COLUMN size_bytes BIGINT CHECK (size_bytes >= 0),
+  ADD COLUMN content_type TEXT,
+  ADD COLUMN sha256 TEXT CHECK (sha256 ~ '^[0-9a-f]{64}$');
+
+-- Stored names were "{timestamp}-{name}" or "{timestamp}-{i}-{name}"
+UPDATE task_attachments
+SET file_name = regexp_replace(
+  regexp_replace(storage_path, '^.*/', ''),
+  '^[0-9]{13}(-[0-9]+)?-',
+  ''
+)
+WHERE file_name IS NULL;
+
+UPDATE task_attachments ta
+SET size_bytes = (o.metadata->>'size')::BIGINT
+FROM storage.objects o
+WHERE o.bucket_id = 'task-attachments'
+  AND o.name = ta.storage_path
+  AND ta.size_bytes IS NULL;
+
+-- Identical files are attached to a task only once
+CREATE UNIQUE INDEX uq_task_attachment_sha256
+  ON task_attachments (task_id, sha256)
+  WHERE sha256 IS NOT NULL;
+
+-- Notifications name the file as uploaded instead of slicing the storage path
+CREATE OR REPLACE FUNCTION notify_task_attachment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    task_title_var TEXT;
+    uploader_first_name TEXT;
+    uploader_last_name TEXT;
+    uploader_full_name TEXT;
+    assignee_record RECORD;
+    file_name TEXT;
+BEGIN
+    file_name := COALESCE(NEW.file_name, regexp_replace(NEW.storage_path, '^.*/', ''));
+
+    -- Get task title (bypass RLS)
+    SELECT title INTO task_title_var
+    FROM tasks
+    WHERE id = NEW.task_id;
+
+    -- Get uploader name (bypass RLS)
+    SELECT first_name, last_name INTO uploader_first_name, uploader_last_name
+    FROM user_info
+    WHERE id = NEW.uploaded_by;
+
+    IF uploader_first_name IS NOT NULL AND uploader_last_name IS NOT NULL THEN
+        uploader_full_name := uploader_first_name || ' ' || uploader_last_name;
+    ELSE
+        uploader_full_name := 'Someone';
+    END IF;
+
+    -- Create notifications for all assignees except the uploader
+    FOR assignee_record IN
+        SELECT assignee_id
+        FROM task_assignments
+        WHERE task_id = NEW.task_id
+    LOOP
+        -- Skip the uploader
+        IF assignee_record.assignee_id != NEW.uploaded_by THEN
+            INSERT INTO notifications (user_id, title, message, type, read, created_at, updated_at)
+            VALUES (
+                assignee_record.assignee_id,
+                'Attachment Added',
+                uploader_full_name || ' attached a file "' || file_name || '" to task: "' || task_title_var || '"',
+                'task_updated',
+                false,
+                NOW(),
+                NOW()
+            );
+        END IF;
+    END LOOP;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_task_attachment_removal()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    task_title_var TEXT;
+    remover_first_name TEXT;
+    remover_last_name TEXT;
+    remover_full_name TEXT;
+    assignee_record RECORD;
+    file_name TEXT;
+BEGIN
+    file_name := COALESCE(OLD.file_name, regexp_replace(OLD.storage_path, '^.*/', ''));
+
+    -- Get task title (bypass RLS)
+    SELECT title INTO task_title_var
+    FROM tasks
+    WHERE id = OLD.task_id;
+
+    -- Get remover name from auth context
+    SELECT first_name, last_name INTO remover_first_name, remover_last_name
+    FROM user_info
+    WHERE id = auth.uid();
+
+    IF remover_first_name IS NOT NULL AND remover_last_name IS NOT NULL THEN
+        remover_full_name := remover_first_name || ' ' || remover_last_name;
+    ELSE
+        remover_full_name := 'Someone';
+    END IF;
+
+    -- Create notifications for all assignees except the remover
+    FOR assignee_record IN
+        SELECT assignee_id
+        FROM task_assignments
+        WHERE task_id = OLD.task_id
+    LOOP
+        -- Skip the remover
+        IF assignee_record.assignee_id != auth.uid() THEN
+            INSERT INTO notifications (user_id, title, message, type, read, created_at, updated_at)
+            VALUES (
+                assignee_record.assignee_id,
+                'Attachment Removed',
+                remover_full_name || ' removed a file "' || file_name || '" from task: "' || task_title_var || '"',
+                'task_updated',
+                false,
+                NOW(),
+                NOW()
+            );
+        END IF;
+    END LOOP;
+
+    RETURN OLD;
+END;
+$$;
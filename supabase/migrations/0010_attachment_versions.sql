@@ -0,0 +1,130 @@
+-- Attachment versioning. Every upload is still one task_attachments row, but
+-- rows are grouped into logical documents: document_id is the id of the
+-- document's first version, version counts up from 1 and exactly one version
+-- per document is current. Older versions stay downloadable and can be
+-- restored as current; all of them count towards the task's storage quota.
+
+ALTER TABLE task_attachments
+  ADD COLUMN document_id BIGINT,
+  ADD COLUMN version INT NOT NULL DEFAULT 1 CHECK (version > 0),
+  ADD COLUMN is_current BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- Existing attachments become single-version documents
+UPDATE task_attachments SET document_id = id WHERE document_id IS NULL;
+
+-- A first version is its own document (the identity value is already
+-- assigned when BEFORE triggers run)
+CREATE OR REPLACE FUNCTION set_task_attachment_document()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    NEW.document_id := COALESCE(NEW.document_id, NEW.id);
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_set_task_attachment_document
+BEFORE INSERT ON task_attachments
+FOR EACH ROW
+EXECUTE FUNCTION set_task_attachment_document();
+
+ALTER TABLE task_attachments
+  ALTER COLUMN document_id SET NOT NULL,
+  ADD CONSTRAINT uq_task_attachment_version UNIQUE (document_id, version);
+
+CREATE UNIQUE INDEX uq_task_attachment_current
+  ON task_attachments (document_id)
+  WHERE is_current;
+
+-- Adds a version to a document and makes it current. Row locks on the
+-- document serialise concurrent uploads of the same document.
+CREATE OR REPLACE FUNCTION add_task_attachment_version(
+  p_document_id BIGINT,
+  p_storage_path TEXT,
+  p_uploaded_by UUID,
+  p_file_name TEXT,
+  p_size_bytes BIGINT,
+  p_content_type TEXT,
+  p_sha256 TEXT
+)
+RETURNS SETOF task_attachments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_task_id BIGINT;
+  v_next_version INT;
+BEGIN
+  PERFORM 1 FROM task_attachments WHERE document_id = p_document_id FOR UPDATE;
+
+  SELECT task_id, MAX(version) + 1 INTO v_task_id, v_next_version
+  FROM task_attachments
+  WHERE document_id = p_document_id
+  GROUP BY task_id;
+
+  IF v_task_id IS NULL THEN
+    RAISE EXCEPTION 'Attachment not found';
+  END IF;
+
+  UPDATE task_attachments SET is_current = FALSE
+  WHERE document_id = p_document_id AND is_current;
+
+  RETURN QUERY
+  INSERT INTO task_attachments (
+    task_id, storage_path, uploaded_by, file_name, size_bytes, content_type, sha256,
+    document_id, version, is_current
+  )
+  VALUES (
+    v_task_id, p_storage_path, p_uploaded_by, p_file_name, p_size_bytes, p_content_type, p_sha256,
+    p_document_id, v_next_version, TRUE
+  )
+  RETURNING *;
+END;
+$$;
+
+-- Makes an older version current again (no new upload, no new row)
+CREATE OR REPLACE FUNCTION restore_task_attachment_version(p_attachment_id BIGINT)
+RETURNS SETOF task_attachments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_document_id BIGINT;
+BEGIN
+  SELECT document_id INTO v_document_id
+  FROM task_attachments
+  WHERE id = p_attachment_id;
+
+  IF v_document_id IS NULL THEN
+    RAISE EXCEPTION 'Attachment not found';
+  END IF;
+
+  PERFORM 1 FROM task_attachments WHERE document_id = v_document_id FOR UPDATE;
+
+  UPDATE task_attachments SET is_current = FALSE
+  WHERE document_id = v_document_id AND is_current AND id <> p_attachment_id;
+
+  RETURN QUERY
+  UPDATE task_attachments SET is_current = TRUE
+  WHERE id = p_attachment_id
+  RETURNING *;
+END;
+$$;
+
+-- Called by the API with the service role after its own permission checks
+REVOKE EXECUTE ON FUNCTION add_task_attachment_version(BIGINT, TEXT, UUID, TEXT, BIGINT, TEXT, TEXT)
+  FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION restore_task_attachment_version(BIGINT)
+  FROM PUBLIC, anon, authenticated;
+
+-- Removing a document deletes all of its versions; notify once, for the current one
+DROP TRIGGER trg_notify_task_attachment_removal ON task_attachments;
+
+CREATE TRIGGER trg_notify_task_attachment_removal
+AFTER DELETE ON task_attachments
+FOR EACH ROW
+WHEN (OLD.is_current)
+EXECUTE FUNCTION notify_task_attachment_removal();
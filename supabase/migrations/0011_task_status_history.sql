@@ -0,0 +1,175 @@
+-- Status history for tasks. Reports used to treat updated_at as the completion
+-- time, so any later edit (a comment, a tag) moved it. Every status a task
+-- passes through is now recorded with when it was entered and left, and the
+-- task itself keeps started_at (first time In Progress) and completed_at
+-- (latest completion, cleared when the task is reopened).
+
+ALTER TABLE tasks
+  ADD COLUMN started_at TIMESTAMPTZ,
+  ADD COLUMN completed_at TIMESTAMPTZ;
+
+CREATE TABLE task_status_history (
+  id BIGINT PRIMARY KEY GENERATED ALWAYS AS IDENTITY,
+  task_id BIGINT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  status VARCHAR(15) NOT NULL CHECK (status IN ('To Do','In Progress','Completed','Blocked')),
+  previous_status VARCHAR(15),
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  entered_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  left_at TIMESTAMPTZ, -- NULL while this is the task's current status
+  CONSTRAINT chk_task_status_history_period CHECK (left_at IS NULL OR left_at >= entered_at)
+);
+
+CREATE INDEX idx_task_status_history_task_id ON task_status_history (task_id, entered_at);
+
+-- ---------------- BACKFILL ----------------
+
+-- Rebuild history from the status changes in task_activity. The status before
+-- the first recorded change (or the current status, if nothing was recorded)
+-- starts at created_at.
+WITH changes AS (
+  SELECT id, task_id, old_value, new_value, created_at
+  FROM task_activity
+  WHERE field = 'status'
+    AND new_value IN ('To Do','In Progress','Completed','Blocked')
+),
+initial AS (
+  SELECT
+    t.id AS task_id,
+    COALESCE(
+      (SELECT c.old_value FROM changes c
+       WHERE c.task_id = t.id AND c.old_value IN ('To Do','In Progress','Completed','Blocked')
+       ORDER BY c.created_at, c.id
+       LIMIT 1),
+      t.status
+    ) AS status,
+    t.created_at AS entered_at
+  FROM tasks t
+),
+segments AS (
+  SELECT task_id, status, NULL::VARCHAR AS previous_status, entered_at, 0::BIGINT AS seq
+  FROM initial
+  WHERE status IS NOT NULL
+  UNION ALL
+  SELECT task_id, new_value, old_value, created_at, id
+  FROM changes
+)
+INSERT INTO task_status_history (task_id, status, previous_status, entered_at, left_at)
+SELECT
+  task_id,
+  status,
+  previous_status,
+  entered_at,
+  LEAD(entered_at) OVER (PARTITION BY task_id ORDER BY entered_at, seq)
+FROM segments;
+
+-- Status changes that were never logged (e.g. direct updates): close the last
+-- recorded status at updated_at and continue with the current one
+WITH closed AS (
+  UPDATE task_status_history h
+  SET left_at = GREATEST(t.updated_at, h.entered_at)
+  FROM tasks t
+  WHERE h.task_id = t.id
+    AND h.left_at IS NULL
+    AND t.status IS NOT NULL
+    AND h.status <> t.status
+  RETURNING h.task_id, h.status AS previous_status, h.left_at
+)
+INSERT INTO task_status_history (task_id, status, previous_status, entered_at)
+SELECT c.task_id, t.status, c.previous_status, c.left_at
+FROM closed c
+JOIN tasks t ON t.id = c.task_id;
+
+UPDATE tasks t
+SET
+  started_at = (
+    SELECT MIN(h.entered_at) FROM task_status_history h
+    WHERE h.task_id = t.id AND h.status = 'In Progress'
+  ),
+  completed_at = CASE WHEN t.status = 'Completed' THEN (
+    SELECT h.entered_at FROM task_status_history h
+    WHERE h.task_id = t.id AND h.left_at IS NULL
+  ) END;
+
+-- One open period per task
+CREATE UNIQUE INDEX uq_task_status_history_open
+  ON task_status_history (task_id)
+  WHERE left_at IS NULL;
+
+-- ---------------- TRIGGERS ----------------
+
+-- Keeps started_at / completed_at in step with status on every write path
+-- (service layer, bulk updates, imports, RPCs)
+CREATE OR REPLACE FUNCTION set_task_status_timestamps()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status = 'In Progress' THEN
+        NEW.started_at := COALESCE(NEW.started_at, NOW());
+    END IF;
+
+    IF NEW.status = 'Completed' THEN
+        NEW.completed_at := CASE WHEN TG_OP = 'INSERT' THEN COALESCE(NEW.completed_at, NOW()) ELSE NOW() END;
+    ELSE
+        NEW.completed_at := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_set_task_status_timestamps
+BEFORE INSERT OR UPDATE OF status ON tasks
+FOR EACH ROW
+EXECUTE FUNCTION set_task_status_timestamps();
+
+-- Closes the current status period and opens a new one
+CREATE OR REPLACE FUNCTION record_task_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+        RETURN NULL;
+    END IF;
+
+    UPDATE task_status_history
+    SET left_at = NOW()
+    WHERE task_id = NEW.id AND left_at IS NULL;
+
+    IF NEW.status IS NOT NULL THEN
+        INSERT INTO task_status_history (task_id, status, previous_status, changed_by, entered_at)
+        VALUES (
+            NEW.id,
+            NEW.status,
+            CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+            auth.uid(),
+            NOW()
+        );
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trg_record_task_status_change
+AFTER INSERT OR UPDATE OF status ON tasks
+FOR EACH ROW
+EXECUTE FUNCTION record_task_status_change();
+
+-- ---------------- RLS ----------------
+
+ALTER TABLE task_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Task Status History: Anyone who can see the task can read it; rows are only
+-- written by the trigger above
+CREATE POLICY "Users can view status history for visible tasks"
+ON task_status_history
+FOR SELECT
+USING (is_task_visible_to_user(task_id, auth.uid()));
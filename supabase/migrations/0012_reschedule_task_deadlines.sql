@@ -0,0 +1,27 @@
+-- Moves several task deadlines in one transaction, so rescheduling a task with
+-- its subtasks either moves all of them or none. Runs as the caller: RLS still
+-- decides which tasks may be updated, and a task the caller cannot update
+-- aborts the whole call instead of being skipped.
+
+CREATE OR REPLACE FUNCTION reschedule_task_deadlines(p_deadlines JSONB)
+RETURNS SETOF tasks
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated INT;
+BEGIN
+  RETURN QUERY
+  UPDATE tasks t
+  SET deadline = d.deadline, updated_at = NOW()
+  FROM jsonb_to_recordset(p_deadlines) AS d(id BIGINT, deadline TIMESTAMPTZ)
+  WHERE t.id = d.id
+  RETURNING t.*;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+  IF v_updated <> jsonb_array_length(p_deadlines) THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+END;
+$$;
@@ -0,0 +1,17 @@
+-- The tasks of a user's calendar feed as rows, so the visibility filter runs in the
+-- database and the caller can embed projects, assignments, tags and subtasks.
+CREATE OR REPLACE FUNCTION get_calendar_feed_tasks(user_id_arg uuid)
+  RETURNS SETOF tasks
+  LANGUAGE sql
+  STABLE
+  SECURITY DEFINER
+  SET search_path = public
+  AS $$
+    SELECT t.*
+    FROM tasks t
+    WHERE t.id IN (SELECT get_visible_task_ids(user_id_arg));
+  $$;
+
+-- Called by the API with the service role only: it returns any user's tasks
+REVOKE EXECUTE ON FUNCTION get_calendar_feed_tasks(uuid)
+  FROM PUBLIC, anon, authenticated;